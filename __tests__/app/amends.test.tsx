@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Tests for app/amends.tsx
+ *
+ * Tests the amends list screen including:
+ * - Loading and error states
+ * - Grouping entries by status
+ * - Adding someone and changing where an amends stands
+ * - Deleting an entry
+ */
+
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import AmendsScreen from '@/app/amends';
+import { createAmends, deleteAmends, fetchAmends, updateAmends } from '@/lib/repositories';
+import { clearOfflineCache } from '@/lib/offline';
+import type { AmendsEntry } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  fetchAmends: jest.fn(),
+  createAmends: jest.fn(),
+  updateAmends: jest.fn(),
+  deleteAmends: jest.fn(),
+}));
+
+const mockFetchAmends = fetchAmends as jest.Mock;
+const mockCreateAmends = createAmends as jest.Mock;
+const mockUpdateAmends = updateAmends as jest.Mock;
+const mockDeleteAmends = deleteAmends as jest.Mock;
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      primaryLight: '#E5F1FF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      surface: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      fontRegular: 'JetBrainsMono-Regular',
+    },
+    isDark: false,
+  }),
+}));
+
+const mockProfile = { id: 'user-123', first_name: 'John', last_initial: 'D' };
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: mockProfile,
+    user: { id: 'user-123' },
+    session: {},
+    loading: false,
+  }),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  ChevronLeft: () => null,
+  Plus: () => null,
+  X: () => null,
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+  },
+  LogCategory: {
+    DATABASE: 'database',
+  },
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const entry = (overrides: Partial<AmendsEntry>): AmendsEntry => ({
+  id: 'amends',
+  user_id: 'user-123',
+  person: 'Person',
+  harm: '',
+  approach: '',
+  status: 'willing',
+  deferred_reason: '',
+  made_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const mockEntries = [
+  entry({
+    id: 'brother',
+    person: 'My brother',
+    harm: 'Borrowed money and never paid it back',
+    approach: 'Pay it back in person',
+    status: 'planned',
+  }),
+  entry({ id: 'sister', person: 'My sister', status: 'made', made_at: '2024-03-10T12:00:00Z' }),
+  entry({
+    id: 'ex',
+    person: 'My ex-partner',
+    status: 'deferred',
+    deferred_reason: 'Contact would reopen old wounds',
+  }),
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('AmendsScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchAmends.mockResolvedValue(mockEntries);
+    mockDeleteAmends.mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    await clearOfflineCache();
+  });
+
+  it('groups the list by status', async () => {
+    render(<AmendsScreen />);
+
+    expect(await screen.findByText('My brother')).toBeTruthy();
+    expect(mockFetchAmends).toHaveBeenCalledWith('user-123');
+    expect(screen.getByText('1 of 3 amends made')).toBeTruthy();
+    expect(screen.getByText('Planned (1)')).toBeTruthy();
+    expect(screen.getByText('Made (1)')).toBeTruthy();
+    expect(screen.getByText('Deferred (1)')).toBeTruthy();
+    expect(screen.queryByText(/^Willing/)).toBeNull();
+    expect(screen.getByText(/Pay it back in person/)).toBeTruthy();
+    expect(screen.getByText(/Contact would reopen old wounds/)).toBeTruthy();
+  });
+
+  it('shows an empty list', async () => {
+    mockFetchAmends.mockResolvedValue([]);
+    render(<AmendsScreen />);
+
+    expect(await screen.findByText('No one on your amends list yet.')).toBeTruthy();
+  });
+
+  it('shows an error when the list fails to load', async () => {
+    mockFetchAmends.mockRejectedValue(new Error('Network error'));
+    render(<AmendsScreen />);
+
+    expect(await screen.findByText('Failed to load your amends list')).toBeTruthy();
+    expect(screen.getByText('Retry')).toBeTruthy();
+  });
+
+  it('adds someone to the list', async () => {
+    mockCreateAmends.mockResolvedValue(entry({ id: 'boss', person: 'My old boss' }));
+    render(<AmendsScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByText('Add Person'));
+    fireEvent.changeText(screen.getByLabelText('Person'), 'My old boss');
+    fireEvent.press(screen.getByText('Add'));
+
+    expect(await screen.findByText('My old boss')).toBeTruthy();
+    expect(screen.getByText('Willing (1)')).toBeTruthy();
+  });
+
+  it('moves an amends to made once saved', async () => {
+    mockUpdateAmends.mockResolvedValue({
+      ...mockEntries[0],
+      status: 'made',
+      made_at: '2024-04-01T12:00:00Z',
+    });
+    render(<AmendsScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByLabelText('Edit amends to My brother'));
+    fireEvent.press(screen.getAllByText('Made').at(-1)!);
+    fireEvent.press(screen.getByText('Save'));
+
+    expect(await screen.findByText('Made (2)')).toBeTruthy();
+    expect(screen.getByText('2 of 3 amends made')).toBeTruthy();
+  });
+
+  it('deletes an entry once confirmed', async () => {
+    const alertSpy = jest
+      .spyOn(Alert, 'alert')
+      .mockImplementation((_title, _message, buttons) => buttons?.[1]?.onPress?.());
+    render(<AmendsScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByLabelText('Edit amends to My sister'));
+    fireEvent.press(screen.getByText('Delete'));
+
+    await waitFor(() => {
+      expect(mockDeleteAmends).toHaveBeenCalledWith('sister');
+    });
+    expect(screen.queryByText('My sister')).toBeNull();
+    alertSpy.mockRestore();
+  });
+});
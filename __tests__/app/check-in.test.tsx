@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Tests for app/check-in.tsx
+ *
+ * Tests the daily check-in screen including:
+ * - Loading and error states
+ * - Filling in and saving today's check-in
+ * - Updating a check-in already made today
+ * - Keeping unsaved edits when the profile is refreshed
+ * - The streak and recent history
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import CheckInScreen from '@/app/check-in';
+import { fetchCheckIns, saveCheckIn } from '@/lib/repositories';
+import { clearOfflineCache } from '@/lib/offline';
+import { addDaysToDateString, formatDateWithTimezone } from '@/lib/date';
+import type { DailyCheckIn } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  fetchCheckIns: jest.fn(),
+  saveCheckIn: jest.fn(),
+}));
+
+const mockFetchCheckIns = fetchCheckIns as jest.Mock;
+const mockSaveCheckIn = saveCheckIn as jest.Mock;
+
+jest.mock('@/lib/date', () => jest.requireActual('@/lib/date'));
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      primaryLight: '#E5F1FF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      surface: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      fontRegular: 'JetBrainsMono-Regular',
+    },
+    isDark: false,
+  }),
+}));
+
+const mockProfile = { id: 'user-123', first_name: 'John', last_initial: 'D' };
+
+// A new profile object on every render, as after the profile is refreshed
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: { ...mockProfile },
+    user: { id: 'user-123' },
+    session: {},
+    loading: false,
+  }),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  CheckCircle: () => null,
+  ChevronLeft: () => null,
+  Flame: () => null,
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+  },
+  LogCategory: {
+    DATABASE: 'database',
+  },
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const today = formatDateWithTimezone(new Date());
+
+const checkIn = (overrides: Partial<DailyCheckIn>): DailyCheckIn => ({
+  id: 'check-in',
+  user_id: 'user-123',
+  check_in_date: today,
+  mood: 3,
+  hungry: false,
+  angry: false,
+  lonely: false,
+  tired: false,
+  gratitude: '',
+  review: '',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const earlierCheckIns = [
+  checkIn({
+    id: 'yesterday',
+    check_in_date: addDaysToDateString(today, -1),
+    mood: 2,
+    lonely: true,
+    gratitude: 'My home group',
+  }),
+  checkIn({ id: 'two-days-ago', check_in_date: addDaysToDateString(today, -2), mood: 5 }),
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('CheckInScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchCheckIns.mockResolvedValue(earlierCheckIns);
+    mockSaveCheckIn.mockImplementation(async (draft) => checkIn({ id: 'today', ...draft }));
+  });
+
+  afterEach(async () => {
+    await clearOfflineCache();
+  });
+
+  it('shows the streak and earlier check-ins', async () => {
+    render(<CheckInScreen />);
+
+    expect(await screen.findByText('Grateful for: My home group')).toBeTruthy();
+    expect(mockFetchCheckIns).toHaveBeenCalledWith('user-123');
+    expect(screen.getByText('2 days')).toBeTruthy();
+    // Once in the form and once in the history
+    expect(screen.getAllByText('Lonely')).toHaveLength(2);
+    expect(screen.getAllByText('Great')).toHaveLength(2);
+    expect(screen.getByText('Check In')).toBeTruthy();
+  });
+
+  it('asks for a mood before saving', async () => {
+    render(<CheckInScreen />);
+
+    fireEvent.press(await screen.findByText('Check In'));
+
+    expect(screen.getByText('Please rate your mood')).toBeTruthy();
+    expect(mockSaveCheckIn).not.toHaveBeenCalled();
+  });
+
+  it("saves today's check-in and extends the streak", async () => {
+    render(<CheckInScreen />);
+
+    fireEvent.press(await screen.findByLabelText('Mood: Good'));
+    fireEvent.press(screen.getByLabelText('Tired'));
+    fireEvent.changeText(screen.getByLabelText('Gratitude'), '  A call from my sponsor ');
+    fireEvent.changeText(screen.getByLabelText('Step 10 review'), 'I owe my coworker an apology');
+    fireEvent.press(screen.getByText('Check In'));
+
+    expect(await screen.findByText('Checked in for today')).toBeTruthy();
+    expect(mockSaveCheckIn).toHaveBeenCalledWith({
+      user_id: 'user-123',
+      check_in_date: today,
+      mood: 4,
+      hungry: false,
+      angry: false,
+      lonely: false,
+      tired: true,
+      gratitude: 'A call from my sponsor',
+      review: 'I owe my coworker an apology',
+    });
+    expect(screen.getByText('3 days')).toBeTruthy();
+    expect(screen.getByText('Update Check-In')).toBeTruthy();
+  });
+
+  it("fills in today's check-in to update it", async () => {
+    mockFetchCheckIns.mockResolvedValue([
+      checkIn({ id: 'today', mood: 1, hungry: true, review: 'A hard day' }),
+      ...earlierCheckIns,
+    ]);
+
+    render(<CheckInScreen />);
+
+    expect(await screen.findByText('Update Check-In')).toBeTruthy();
+    expect(screen.getByLabelText('Mood: Very low').props.accessibilityState.selected).toBe(true);
+    expect(screen.getByLabelText('Hungry').props.accessibilityState.checked).toBe(true);
+    expect(screen.getByDisplayValue('A hard day')).toBeTruthy();
+    expect(screen.getByText('3 days')).toBeTruthy();
+  });
+
+  it('keeps unsaved edits when the profile is refreshed', async () => {
+    mockFetchCheckIns.mockResolvedValue([
+      checkIn({ id: 'today', mood: 1, review: 'A hard day' }),
+      ...earlierCheckIns,
+    ]);
+
+    const { rerender } = render(<CheckInScreen />);
+
+    fireEvent.changeText(
+      await screen.findByDisplayValue('A hard day'),
+      'A hard day, but I called my sponsor'
+    );
+    rerender(<CheckInScreen />);
+
+    expect(screen.getByDisplayValue('A hard day, but I called my sponsor')).toBeTruthy();
+    expect(mockFetchCheckIns).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows an error when saving fails', async () => {
+    mockSaveCheckIn.mockRejectedValue(new Error('Network error'));
+
+    render(<CheckInScreen />);
+
+    fireEvent.press(await screen.findByLabelText('Mood: Okay'));
+    fireEvent.press(screen.getByText('Check In'));
+
+    expect(await screen.findByText('Failed to save your check-in. Please try again.')).toBeTruthy();
+  });
+
+  it('shows an error with a retry when loading fails', async () => {
+    mockFetchCheckIns.mockRejectedValueOnce(new Error('Network error'));
+
+    render(<CheckInScreen />);
+
+    expect(await screen.findByText('Failed to load your check-ins')).toBeTruthy();
+
+    fireEvent.press(screen.getByText('Retry'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Grateful for: My home group')).toBeTruthy();
+    });
+  });
+});
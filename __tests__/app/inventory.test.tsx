@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Tests for app/inventory.tsx
+ *
+ * Tests the Step 4 inventory screen including:
+ * - Loading and error states
+ * - Listing each kind's entries in order
+ * - Adding and deleting entries
+ * - Moving entries up and down
+ * - The summary, Step 4 completion and export
+ */
+
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import InventoryScreen from '@/app/inventory';
+import {
+  completeStep,
+  createInventoryEntry,
+  deleteInventoryEntry,
+  fetchInventoryEntries,
+  fetchStepProgress,
+  reorderInventoryEntries,
+} from '@/lib/repositories';
+import { clearOfflineCache, clearSyncQueue } from '@/lib/offline';
+import type { InventoryEntry } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  fetchInventoryEntries: jest.fn(),
+  createInventoryEntry: jest.fn(),
+  updateInventoryEntry: jest.fn(),
+  reorderInventoryEntries: jest.fn(),
+  deleteInventoryEntry: jest.fn(),
+  fetchStepProgress: jest.fn(),
+  completeStep: jest.fn(),
+  uncompleteStep: jest.fn(),
+}));
+
+const mockFetchInventoryEntries = fetchInventoryEntries as jest.Mock;
+const mockCreateInventoryEntry = createInventoryEntry as jest.Mock;
+const mockDeleteInventoryEntry = deleteInventoryEntry as jest.Mock;
+const mockReorderInventoryEntries = reorderInventoryEntries as jest.Mock;
+const mockFetchStepProgress = fetchStepProgress as jest.Mock;
+const mockCompleteStep = completeStep as jest.Mock;
+
+const mockShare = jest.fn();
+jest.requireMock('react-native').Share = { share: mockShare };
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      primaryLight: '#E5F1FF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      surface: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      fontRegular: 'JetBrainsMono-Regular',
+    },
+    isDark: false,
+  }),
+}));
+
+const mockProfile = { id: 'user-123', first_name: 'John', last_initial: 'D' };
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: mockProfile,
+    user: { id: 'user-123' },
+    session: {},
+    loading: false,
+  }),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  CheckCircle: () => null,
+  ChevronDown: () => null,
+  ChevronLeft: () => null,
+  ChevronUp: () => null,
+  Plus: () => null,
+  Share2: () => null,
+  X: () => null,
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    error: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+  },
+  LogCategory: {
+    DATABASE: 'database',
+  },
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const entry = (overrides: Partial<InventoryEntry>): InventoryEntry => ({
+  id: 'entry',
+  user_id: 'user-123',
+  kind: 'resentment',
+  subject: 'Subject',
+  cause: '',
+  affects: '',
+  my_part: '',
+  position: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const mockEntries = [
+  entry({ id: 'boss', subject: 'My old boss', position: 1, cause: 'Passed me over' }),
+  entry({ id: 'brother', subject: 'My brother', position: 0, my_part: 'I never called back' }),
+  entry({ id: 'fear', kind: 'fear', subject: 'Being alone' }),
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('InventoryScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchInventoryEntries.mockResolvedValue(mockEntries);
+    mockFetchStepProgress.mockResolvedValue([]);
+    mockReorderInventoryEntries.mockResolvedValue(undefined);
+    mockDeleteInventoryEntry.mockResolvedValue(undefined);
+    mockCompleteStep.mockResolvedValue({ id: 'progress-4', step_number: 4 });
+  });
+
+  afterEach(async () => {
+    await clearSyncQueue();
+    await clearOfflineCache();
+  });
+
+  it("lists the user's resentments in their order", async () => {
+    render(<InventoryScreen />);
+
+    expect(await screen.findByText('My brother')).toBeTruthy();
+    expect(mockFetchInventoryEntries).toHaveBeenCalledWith('user-123');
+
+    const subjects = screen.getAllByText(/^My (brother|old boss)$/).map((el) => el.props.children);
+    expect(subjects).toEqual(['My brother', 'My old boss']);
+    expect(screen.getByText(/Passed me over/)).toBeTruthy();
+    expect(screen.queryByText('Being alone')).toBeNull();
+  });
+
+  it("switches to another kind's entries", async () => {
+    render(<InventoryScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByText('Harms'));
+
+    expect(screen.getByText('No harms written yet.')).toBeTruthy();
+    expect(screen.getByText('Add Harm')).toBeTruthy();
+  });
+
+  it('shows an error when the inventory fails to load', async () => {
+    mockFetchInventoryEntries.mockRejectedValue(new Error('Network error'));
+    render(<InventoryScreen />);
+
+    expect(await screen.findByText('Failed to load your inventory')).toBeTruthy();
+    expect(screen.getByText('Retry')).toBeTruthy();
+  });
+
+  it('adds an entry at the end of its kind', async () => {
+    const saved = entry({ id: 'landlord', subject: 'The landlord', position: 2 });
+    mockCreateInventoryEntry.mockResolvedValue(saved);
+    render(<InventoryScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByText('Add Resentment'));
+    fireEvent.changeText(screen.getByLabelText("I'm resentful at"), 'The landlord');
+    fireEvent.press(screen.getByText('Add'));
+
+    expect(await screen.findByText('The landlord')).toBeTruthy();
+    expect(mockCreateInventoryEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'resentment', position: 2, subject: 'The landlord' })
+    );
+  });
+
+  it('moves an entry up and saves the new order', async () => {
+    render(<InventoryScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByLabelText('Move "My old boss" up'));
+
+    await waitFor(() => {
+      expect(mockReorderInventoryEntries).toHaveBeenCalledWith(['boss', 'brother']);
+    });
+    const subjects = screen.getAllByText(/^My (brother|old boss)$/).map((el) => el.props.children);
+    expect(subjects).toEqual(['My old boss', 'My brother']);
+  });
+
+  it('puts an entry back when the move fails', async () => {
+    mockReorderInventoryEntries.mockRejectedValue(new Error('Network error'));
+    const alertSpy = jest.spyOn(Alert, 'alert');
+    render(<InventoryScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByLabelText('Move "My brother" down'));
+
+    await waitFor(() => {
+      expect(alertSpy).toHaveBeenCalledWith(
+        'Error',
+        'Failed to move this entry. Please try again.'
+      );
+    });
+    const subjects = screen.getAllByText(/^My (brother|old boss)$/).map((el) => el.props.children);
+    expect(subjects).toEqual(['My brother', 'My old boss']);
+    alertSpy.mockRestore();
+  });
+
+  it('deletes an entry once confirmed', async () => {
+    const alertSpy = jest
+      .spyOn(Alert, 'alert')
+      .mockImplementation((_title, _message, buttons) => buttons?.[1]?.onPress?.());
+    render(<InventoryScreen />);
+    await screen.findByText('My brother');
+
+    fireEvent.press(screen.getByLabelText('Edit "My brother"'));
+    fireEvent.press(screen.getByText('Delete'));
+
+    await waitFor(() => {
+      expect(mockDeleteInventoryEntry).toHaveBeenCalledWith('brother');
+    });
+    expect(screen.queryByText('My brother')).toBeNull();
+    alertSpy.mockRestore();
+  });
+
+  describe('summary', () => {
+    it('totals each kind', async () => {
+      render(<InventoryScreen />);
+      await screen.findByText('My brother');
+
+      fireEvent.press(screen.getByText('Summary'));
+
+      expect(screen.getByText('1 of 2 with my part written')).toBeTruthy();
+      expect(screen.getByText('0 of 1 with my part written')).toBeTruthy();
+      expect(screen.getByText('Nothing written yet')).toBeTruthy();
+    });
+
+    it('marks Step 4 complete', async () => {
+      render(<InventoryScreen />);
+      await screen.findByText('My brother');
+
+      fireEvent.press(screen.getByText('Summary'));
+      fireEvent.press(screen.getByText('Mark Step 4 Complete'));
+
+      await waitFor(() => {
+        expect(mockCompleteStep).toHaveBeenCalledWith('user-123', 4, expect.any(String));
+      });
+      expect(await screen.findByText('Step 4 completed')).toBeTruthy();
+    });
+
+    it('shows when Step 4 is already complete', async () => {
+      mockFetchStepProgress.mockResolvedValue([
+        { id: 'progress-4', user_id: 'user-123', step_number: 4, completed_at: null },
+      ]);
+      render(<InventoryScreen />);
+      await screen.findByText('My brother');
+
+      fireEvent.press(screen.getByText('Summary'));
+
+      expect(screen.getByText('Completed')).toBeTruthy();
+      expect(screen.queryByText('Mark Step 4 Complete')).toBeNull();
+    });
+
+    it('exports the inventory for Step 5', async () => {
+      render(<InventoryScreen />);
+      await screen.findByText('My brother');
+
+      fireEvent.press(screen.getByText('Summary'));
+      fireEvent.press(screen.getByText('Export Inventory'));
+
+      expect(mockShare).toHaveBeenCalledWith({
+        title: 'Step 4 Inventory',
+        message: expect.stringContaining('Resentments (2)\n\n1. My brother'),
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Tests for app/invite/[code].tsx
+ *
+ * Tests the invite link screen including:
+ * - Prefilling the code from the link
+ * - Connecting and returning to the profile
+ * - Showing rejection and network errors
+ * - Dismissing without connecting
+ */
+
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import InviteScreen from '@/app/invite/[code]';
+import { redeemInviteCode } from '@/lib/invites';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+const mockReplace = jest.fn();
+
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ replace: mockReplace, push: jest.fn(), back: jest.fn() }),
+  useLocalSearchParams: () => ({ code: 'abcd2345' }),
+}));
+
+let mockProfile: { id: string; first_name: string; last_initial: string } | null = null;
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ profile: mockProfile }),
+}));
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      white: '#ffffff',
+      fontRegular: 'JetBrainsMono-Regular',
+      fontSemiBold: 'JetBrainsMono-SemiBold',
+    },
+  }),
+}));
+
+jest.mock('@/lib/invites', () => ({
+  ...jest.requireActual('@/lib/invites'),
+  redeemInviteCode: jest.fn(),
+}));
+
+const mockRedeem = redeemInviteCode as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('InviteScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProfile = { id: 'sponsee-1', first_name: 'Sam', last_initial: 'T' };
+  });
+
+  it('shows the code from the link, normalized', () => {
+    render(<InviteScreen />);
+
+    expect(screen.getByTestId('invite-code')).toHaveTextContent('ABCD2345');
+  });
+
+  it('shows a loading indicator until the profile is loaded', () => {
+    mockProfile = null;
+
+    render(<InviteScreen />);
+
+    expect(screen.queryByText('Connect')).toBeNull();
+  });
+
+  it('connects and returns to the profile', async () => {
+    mockRedeem.mockResolvedValue({
+      status: 'connected',
+      sponsor: { id: 'sponsor-1', first_name: 'Jane', last_initial: 'S' },
+    });
+
+    render(<InviteScreen />);
+    fireEvent.press(screen.getByText('Connect'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith('Success', 'Connected with Jane S.');
+    });
+    expect(mockRedeem).toHaveBeenCalledWith('ABCD2345', mockProfile);
+    expect(mockReplace).toHaveBeenCalledWith('/(tabs)/profile');
+  });
+
+  it('tells the sponsee when the sponsor has to approve the request', async () => {
+    mockRedeem.mockResolvedValue({
+      status: 'pending',
+      sponsor: { id: 'sponsor-1', first_name: 'Jane', last_initial: 'S' },
+    });
+
+    render(<InviteScreen />);
+    fireEvent.press(screen.getByText('Connect'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith(
+        'Request Sent',
+        expect.stringContaining('connect with Jane S. has been sent')
+      );
+    });
+    expect(mockReplace).toHaveBeenCalledWith('/(tabs)/profile');
+  });
+
+  it('shows why a code was rejected and stays on the screen', async () => {
+    mockRedeem.mockResolvedValue({
+      status: 'rejected',
+      reason: 'This invite code has expired',
+    });
+
+    render(<InviteScreen />);
+    fireEvent.press(screen.getByText('Connect'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith('Error', 'This invite code has expired');
+    });
+    expect(mockReplace).not.toHaveBeenCalled();
+  });
+
+  it('shows network errors', async () => {
+    mockRedeem.mockRejectedValue(new Error('Network error'));
+
+    render(<InviteScreen />);
+    fireEvent.press(screen.getByText('Connect'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith('Error', 'Network error');
+    });
+  });
+
+  it('goes home without connecting on Not Now', () => {
+    render(<InviteScreen />);
+
+    fireEvent.press(screen.getByText('Not Now'));
+
+    expect(mockRedeem).not.toHaveBeenCalled();
+    expect(mockReplace).toHaveBeenCalledWith('/(tabs)');
+  });
+});
@@ -2,7 +2,13 @@ import React from 'react';
 import { render, waitFor, screen } from '@testing-library/react-native';
 import JourneyScreen from '@/app/(tabs)/journey';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
+import {
+  fetchAmends,
+  fetchCheckIns,
+  fetchCompletedSteps,
+  fetchCompletedTasks,
+  fetchSlipUps,
+} from '@/lib/repositories';
 import { useDaysSober } from '@/hooks/useDaysSober';
 
 // Mock Contexts
@@ -38,11 +44,13 @@ jest.mock('@react-navigation/native', () => {
   };
 });
 
-// Mock Supabase
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
-    from: jest.fn(),
-  },
+// Mock Repositories
+jest.mock('@/lib/repositories', () => ({
+  fetchAmends: jest.fn(),
+  fetchCheckIns: jest.fn(),
+  fetchSlipUps: jest.fn(),
+  fetchCompletedSteps: jest.fn(),
+  fetchCompletedTasks: jest.fn(),
 }));
 
 // Mock Icons
@@ -60,6 +68,7 @@ jest.mock('lucide-react-native', () => {
     CheckSquare: MockIcon,
     ListChecks: MockIcon,
     Target: MockIcon,
+    Moon: MockIcon,
   };
 });
 
@@ -82,31 +91,25 @@ describe('JourneyScreen', () => {
       loading: false,
       error: null,
     });
+    setupRepositoryMock();
   });
 
-  const setupSupabaseMock = (slipUps: any[] = [], steps: any[] = [], tasks: any[] = []) => {
-    (supabase.from as jest.Mock).mockImplementation((table) => {
-      const mockChain = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        order: jest.fn().mockReturnThis(),
-        not: jest.fn().mockReturnThis(),
-      };
-
-      if (table === 'slip_ups') {
-        mockChain.order.mockResolvedValue({ data: slipUps, error: null });
-      } else if (table === 'user_step_progress') {
-        mockChain.order.mockResolvedValue({ data: steps, error: null });
-      } else if (table === 'tasks') {
-        mockChain.order.mockResolvedValue({ data: tasks, error: null });
-      }
-
-      return mockChain;
-    });
+  const setupRepositoryMock = (
+    slipUps: any[] = [],
+    steps: any[] = [],
+    tasks: any[] = [],
+    amends: any[] = [],
+    checkIns: any[] = []
+  ) => {
+    (fetchSlipUps as jest.Mock).mockResolvedValue(slipUps);
+    (fetchCompletedSteps as jest.Mock).mockResolvedValue(steps);
+    (fetchCompletedTasks as jest.Mock).mockResolvedValue(tasks);
+    (fetchAmends as jest.Mock).mockResolvedValue(amends);
+    (fetchCheckIns as jest.Mock).mockResolvedValue(checkIns);
   };
 
   it('renders single metric when there are no slip-ups', async () => {
-    setupSupabaseMock([], [], []);
+    setupRepositoryMock([], [], []);
 
     render(<JourneyScreen />);
 
@@ -128,7 +131,7 @@ describe('JourneyScreen', () => {
         notes: 'Test slip up',
       },
     ];
-    setupSupabaseMock(slipUps, [], []);
+    setupRepositoryMock(slipUps, [], []);
 
     // Update days sober to reflect current streak with slip-up
     (useDaysSober as jest.Mock).mockReturnValue({
@@ -163,7 +166,7 @@ describe('JourneyScreen', () => {
         notes: 'Relapse',
       },
     ];
-    setupSupabaseMock(slipUps, [], []);
+    setupRepositoryMock(slipUps, [], []);
 
     render(<JourneyScreen />);
 
@@ -175,12 +178,8 @@ describe('JourneyScreen', () => {
   });
 
   it('shows loading state', () => {
-    // Make supabase promise never resolve to keep loading state
-    (supabase.from as jest.Mock).mockImplementation(() => ({
-      select: jest.fn().mockReturnThis(),
-      eq: jest.fn().mockReturnThis(),
-      order: jest.fn().mockReturnValue(new Promise(() => {})),
-    }));
+    // Make the fetch never resolve to keep loading state
+    (fetchSlipUps as jest.Mock).mockReturnValue(new Promise(() => {}));
 
     render(<JourneyScreen />);
 
@@ -200,7 +199,7 @@ describe('JourneyScreen', () => {
       loading: false,
       error: null,
     });
-    setupSupabaseMock([], [], []);
+    setupRepositoryMock([], [], []);
 
     render(<JourneyScreen />);
 
@@ -218,7 +217,7 @@ describe('JourneyScreen', () => {
         notes: 'Test slip',
       },
     ];
-    setupSupabaseMock(slipUps, [], []);
+    setupRepositoryMock(slipUps, [], []);
 
     // Mock 35 days since recovery restart (should show 30-day milestone)
     (useDaysSober as jest.Mock).mockReturnValue({
@@ -257,7 +256,7 @@ describe('JourneyScreen', () => {
         notes: 'Older slip',
       },
     ];
-    setupSupabaseMock(slipUps, [], []);
+    setupRepositoryMock(slipUps, [], []);
 
     // Mock 40 days since most recent recovery restart
     (useDaysSober as jest.Mock).mockReturnValue({
@@ -290,7 +289,7 @@ describe('JourneyScreen', () => {
         notes: 'Same day restart',
       },
     ];
-    setupSupabaseMock(slipUps, [], []);
+    setupRepositoryMock(slipUps, [], []);
 
     (useDaysSober as jest.Mock).mockReturnValue({
       daysSober: 0,
@@ -314,12 +313,8 @@ describe('JourneyScreen', () => {
   });
 
   it('shows error state when fetch fails', async () => {
-    // Make supabase return an error
-    (supabase.from as jest.Mock).mockImplementation(() => ({
-      select: jest.fn().mockReturnThis(),
-      eq: jest.fn().mockReturnThis(),
-      order: jest.fn().mockRejectedValue(new Error('Network error')),
-    }));
+    setupRepositoryMock();
+    (fetchSlipUps as jest.Mock).mockRejectedValue(new Error('Network error'));
 
     render(<JourneyScreen />);
 
@@ -338,7 +333,7 @@ describe('JourneyScreen', () => {
         notes: 'Completed step 1',
       },
     ];
-    setupSupabaseMock([], steps, []);
+    setupRepositoryMock([], steps, []);
 
     render(<JourneyScreen />);
 
@@ -360,7 +355,7 @@ describe('JourneyScreen', () => {
         completed_at: '2024-02-20T00:00:00Z',
       },
     ];
-    setupSupabaseMock([], [], tasks);
+    setupRepositoryMock([], [], tasks);
 
     render(<JourneyScreen />);
 
@@ -381,7 +376,7 @@ describe('JourneyScreen', () => {
       status: 'completed',
       completed_at: new Date(2024, 1, 10 + i).toISOString(),
     }));
-    setupSupabaseMock([], [], tasks);
+    setupRepositoryMock([], [], tasks);
 
     render(<JourneyScreen />);
 
@@ -389,4 +384,46 @@ describe('JourneyScreen', () => {
       expect(screen.getByText('5 Tasks Completed')).toBeTruthy();
     });
   });
+
+  it('shows amends made in the timeline', async () => {
+    const amends = [
+      {
+        id: 'amends-1',
+        person: 'My sister',
+        status: 'made',
+        made_at: '2024-03-01T18:00:00Z',
+      },
+      {
+        id: 'amends-2',
+        person: 'My old boss',
+        status: 'planned',
+        made_at: null,
+      },
+    ];
+    setupRepositoryMock([], [], [], amends);
+
+    render(<JourneyScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Amends Made')).toBeTruthy();
+    });
+    expect(screen.getByText('Made amends to My sister')).toBeTruthy();
+    expect(screen.queryByText('Made amends to My old boss')).toBeNull();
+  });
+
+  it('shows daily check-ins in the timeline', async () => {
+    const checkIns = [
+      { id: 'check-in-1', check_in_date: '2024-03-02', mood: 4, gratitude: 'My home group' },
+      { id: 'check-in-2', check_in_date: '2024-03-01', mood: 2, gratitude: '' },
+    ];
+    setupRepositoryMock([], [], [], [], checkIns);
+
+    render(<JourneyScreen />);
+
+    await waitFor(() => {
+      expect(screen.getAllByText('Daily Check-In')).toHaveLength(2);
+    });
+    expect(screen.getByText('Mood: Good · Grateful for: My home group')).toBeTruthy();
+    expect(screen.getByText('Mood: Low')).toBeTruthy();
+  });
 });
@@ -4,6 +4,7 @@
  * Tests the root layout including:
  * - Font loading behavior
  * - Auth-based routing guards
+ * - Keeping invite links across sign-in and onboarding
  * - Loading state display
  * - Theme-based status bar
  */
@@ -32,6 +33,7 @@ const mockBack = jest.fn();
 // These need to be prefixed with "mock" to be accessible in jest.mock
 let mockSegments: string[] = [];
 let mockRootNavigationState: { key: string } | null = { key: 'test-key' };
+let mockSearchParams: { code?: string } = {};
 
 jest.mock('expo-router', () => {
   const React = require('react');
@@ -43,6 +45,7 @@ jest.mock('expo-router', () => {
       back: mockBack,
     }),
     useSegments: () => mockSegments,
+    useGlobalSearchParams: () => mockSearchParams,
     useNavigationContainerRef: () => ({ current: null }),
     useRootNavigationState: () => mockRootNavigationState,
     SplashScreen: {
@@ -157,6 +160,7 @@ describe('RootLayout', () => {
     mockFontError = null;
     mockSegments = [];
     mockRootNavigationState = { key: 'test-key' };
+    mockSearchParams = {};
   });
 
   describe('font loading', () => {
@@ -344,6 +348,83 @@ describe('RootLayout', () => {
     });
   });
 
+  describe('invite links', () => {
+    const AsyncStorage = jest.requireMock('@react-native-async-storage/async-storage');
+
+    afterEach(() => {
+      AsyncStorage.getItem.mockImplementation(() => Promise.resolve(null));
+    });
+
+    it('saves the invite when a signed-out user is sent to login', async () => {
+      mockSegments = ['invite', '[code]'];
+      mockSearchParams = { code: 'abcd2345' };
+
+      const RootLayout = getLayout();
+      render(<RootLayout />);
+
+      await waitFor(() => {
+        expect(mockReplace).toHaveBeenCalledWith('/login');
+      });
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('pending_invite_code', 'ABCD2345');
+    });
+
+    it('leaves the invite screen open for an onboarded user', async () => {
+      mockUser = { id: 'user-123' };
+      mockProfile = { first_name: 'John', last_initial: 'D', sobriety_date: '2024-01-01' };
+      mockSegments = ['invite', '[code]'];
+      mockSearchParams = { code: 'ABCD2345' };
+
+      const RootLayout = getLayout();
+      render(<RootLayout />);
+
+      await waitFor(
+        () => {
+          expect(mockReplace).not.toHaveBeenCalled();
+        },
+        { timeout: 100 }
+      );
+      expect(AsyncStorage.setItem).not.toHaveBeenCalledWith(
+        'pending_invite_code',
+        expect.anything()
+      );
+    });
+
+    it('reopens a saved invite once the profile is complete', async () => {
+      AsyncStorage.getItem.mockImplementation((key: string) =>
+        Promise.resolve(key === 'pending_invite_code' ? 'ABCD2345' : null)
+      );
+      mockUser = { id: 'user-123' };
+      mockProfile = { first_name: 'John', last_initial: 'D', sobriety_date: '2024-01-01' };
+      mockSegments = ['onboarding'];
+
+      const RootLayout = getLayout();
+      render(<RootLayout />);
+
+      await waitFor(() => {
+        expect(mockPush).toHaveBeenCalledWith('/invite/ABCD2345');
+      });
+      expect(mockReplace).toHaveBeenCalledWith('/(tabs)');
+      expect(AsyncStorage.removeItem).toHaveBeenCalledWith('pending_invite_code');
+    });
+
+    it('does not reopen a saved invite before onboarding is complete', async () => {
+      AsyncStorage.getItem.mockImplementation(() => Promise.resolve('ABCD2345'));
+      mockUser = { id: 'user-123' };
+      mockProfile = null;
+      mockSegments = ['onboarding'];
+
+      const RootLayout = getLayout();
+      render(<RootLayout />);
+
+      await waitFor(
+        () => {
+          expect(mockPush).not.toHaveBeenCalled();
+        },
+        { timeout: 100 }
+      );
+    });
+  });
+
   describe('status bar', () => {
     it('renders status bar', () => {
       const RootLayout = getLayout();
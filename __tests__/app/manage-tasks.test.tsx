@@ -21,41 +21,16 @@ import { Task, Profile } from '@/types/database';
 // Mock data
 let mockTasks: Task[] = [];
 let mockSponsees: Profile[] = [];
+let mockNotesShared = true;
 
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
-    from: jest.fn((table: string) => {
-      if (table === 'sponsor_sponsee_relationships') {
-        return {
-          select: jest.fn().mockReturnValue({
-            eq: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({
-                data: mockSponsees.map((s) => ({ sponsee: s })),
-                error: null,
-              }),
-            }),
-          }),
-        };
-      }
-      if (table === 'tasks') {
-        return {
-          select: jest.fn().mockReturnValue({
-            eq: jest.fn().mockReturnValue({
-              order: jest.fn().mockResolvedValue({ data: mockTasks, error: null }),
-            }),
-          }),
-          delete: jest.fn().mockReturnValue({
-            eq: jest.fn().mockResolvedValue({ error: null }),
-          }),
-        };
-      }
-      return {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        order: jest.fn().mockResolvedValue({ data: [], error: null }),
-      };
-    }),
-  },
+jest.mock('@/lib/repositories', () => ({
+  fetchSponseeRelationships: jest.fn(() =>
+    Promise.resolve(
+      mockSponsees.map((s) => ({ sponsee: s, sponsee_id: s.id, share_notes: mockNotesShared }))
+    )
+  ),
+  fetchCreatedTasks: jest.fn(() => Promise.resolve(mockTasks)),
+  deleteTask: jest.fn().mockResolvedValue(undefined),
 }));
 
 // Mock ThemeContext
@@ -115,6 +90,8 @@ jest.mock('lucide-react-native', () => ({
   Clock: () => null,
   Calendar: () => null,
   Trash2: () => null,
+  MessageSquare: () => null,
+  Pencil: () => null,
 }));
 
 // Mock TaskCreationModal
@@ -142,7 +119,10 @@ jest.mock('@/lib/logger', () => ({
 
 // Mock date lib
 jest.mock('@/lib/date', () => ({
+  ...jest.requireActual('@/lib/date'),
   parseDateAsLocal: jest.fn((str: string) => new Date(str)),
+  // Today, in every sponsee's timezone
+  formatDateWithTimezone: jest.fn(() => '2025-12-01'),
 }));
 
 // Mock format lib
@@ -219,6 +199,7 @@ describe('ManageTasksScreen', () => {
     jest.clearAllMocks();
     mockTasks = createMockTasks();
     mockSponsees = createMockSponsees();
+    mockNotesShared = true;
   });
 
   describe('rendering', () => {
@@ -315,6 +296,15 @@ describe('ManageTasksScreen', () => {
         // Trash2 icon is mocked but the touchable should exist
       });
     });
+
+    it('opens the task modal to edit a task that is not completed', async () => {
+      render(<ManageTasksScreen />);
+
+      fireEvent.press(await screen.findByLabelText('Edit Complete Step 1 Reading'));
+
+      expect(screen.getByTestId('task-creation-modal')).toBeTruthy();
+      expect(screen.queryByLabelText('Edit Attend Meeting')).toBeNull();
+    });
   });
 
   describe('task creation', () => {
@@ -355,6 +345,28 @@ describe('ManageTasksScreen', () => {
         expect(screen.getAllByText('Completed').length).toBeGreaterThan(0);
       });
     });
+
+    it('shows completion notes from sponsees who share them', async () => {
+      mockTasks[1].completion_notes = 'Shared my story';
+
+      render(<ManageTasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Shared my story')).toBeTruthy();
+      });
+    });
+
+    it('hides completion notes from sponsees who do not share them', async () => {
+      mockNotesShared = false;
+      mockTasks[1].completion_notes = 'Shared my story';
+
+      render(<ManageTasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Attend Meeting')).toBeTruthy();
+      });
+      expect(screen.queryByText('Shared my story')).toBeNull();
+    });
   });
 
   describe('task due dates', () => {
@@ -434,6 +446,7 @@ describe('ManageTasksScreen', () => {
       await waitFor(() => {
         expect(screen.getByText('Overdue')).toBeTruthy();
       });
+      expect(screen.getByText(/^Overdue by \d+ days$/)).toBeTruthy();
     });
 
     it('shows in progress status on task card', async () => {
@@ -464,7 +477,8 @@ describe('ManageTasksScreen', () => {
       render(<ManageTasksScreen />);
 
       await waitFor(() => {
-        expect(screen.getByText('In Progress')).toBeTruthy();
+        // In Progress appears as a stat, a filter chip and the task's status
+        expect(screen.getAllByText('In Progress')).toHaveLength(3);
       });
     });
   });
@@ -572,6 +586,27 @@ describe('ManageTasksScreen', () => {
       });
     });
 
+    it('can filter by In Progress status', async () => {
+      mockTasks = [
+        ...mockTasks,
+        { ...mockTasks[0], id: 'task-started', title: 'Write Inventory', status: 'in_progress' },
+      ];
+      render(<ManageTasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Write Inventory')).toBeTruthy();
+      });
+
+      // The first In Progress is the stat card, the second the filter chip
+      fireEvent.press(screen.getAllByText('In Progress')[1]);
+
+      await waitFor(() => {
+        expect(screen.queryByText('Complete Step 1 Reading')).toBeNull();
+      });
+      expect(screen.getByText('Write Inventory')).toBeTruthy();
+      expect(screen.queryByText('Attend Meeting')).toBeNull();
+    });
+
     it('can reset filter to All Tasks', async () => {
       render(<ManageTasksScreen />);
 
@@ -853,10 +888,10 @@ describe('ManageTasksScreen', () => {
       render(<ManageTasksScreen />);
 
       await waitFor(() => {
-        // Should show 2 in progress
-        expect(screen.getByText('2')).toBeTruthy();
-        // In Progress status badge should appear on cards
-        expect(screen.getAllByText('In Progress').length).toBe(2);
+        // Should show 2 in total and 2 in progress
+        expect(screen.getAllByText('2')).toHaveLength(2);
+        // In Progress labels the stat, the filter chip and both cards' status badges
+        expect(screen.getAllByText('In Progress')).toHaveLength(4);
       });
     });
   });
@@ -0,0 +1,345 @@
+/**
+ * @fileoverview Tests for app/messages/[userId].tsx
+ *
+ * Tests the message thread including:
+ * - Relationship guard
+ * - Rendering messages and read receipts
+ * - Marking incoming messages and their notifications as read
+ * - Sending messages and creating a notification
+ * - Not duplicating a sent message when its realtime echo arrives
+ * - Respecting the recipient's message notification preference
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react-native';
+import MessageThreadScreen from '@/app/messages/[userId]';
+import { supabase } from '@/lib/supabase';
+import { subscribeToUserChanges } from '@/lib/realtime';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: jest.fn(), back: jest.fn() }),
+  useLocalSearchParams: () => ({ userId: 'sponsor-1' }),
+}));
+
+jest.mock('@react-navigation/native', () => {
+  const React = require('react');
+  return {
+    useFocusEffect: (cb: () => void) => React.useEffect(cb, []),
+  };
+});
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: { id: 'user-123', first_name: 'Test', last_initial: 'U' },
+  }),
+}));
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      primaryLight: '#E5F1FF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      danger: '#ef4444',
+      white: '#ffffff',
+      fontRegular: 'JetBrainsMono-Regular',
+    },
+  }),
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('lucide-react-native', () => ({
+  ChevronLeft: () => null,
+  Send: () => null,
+  CheckCheck: () => null,
+}));
+
+// =============================================================================
+// Test Data & Helpers
+// =============================================================================
+const sponsor = { id: 'sponsor-1', first_name: 'Sam', last_initial: 'S' };
+
+const mockUpdateIn = jest.fn();
+const mockMessageInsert = jest.fn();
+const mockNotificationInsert = jest.fn();
+const mockNotificationUpdate = jest.fn();
+const mockNotificationSenderEq = jest.fn();
+const mockNotificationUpdateIs = jest.fn();
+
+const setupSupabaseMock = ({
+  relationship = {
+    id: 'rel-1',
+    sponsor_id: 'sponsor-1',
+    sponsee_id: 'user-123',
+    sponsor,
+  } as unknown,
+  messages = [] as unknown[],
+  messagesEnabled = true,
+}) => {
+  mockUpdateIn.mockResolvedValue({ error: null });
+  mockNotificationInsert.mockResolvedValue({ error: null });
+  mockNotificationUpdateIs.mockResolvedValue({ error: null });
+  mockNotificationUpdate.mockReturnValue({
+    eq: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        eq: mockNotificationSenderEq.mockReturnValue({ is: mockNotificationUpdateIs }),
+      }),
+    }),
+  });
+  mockMessageInsert.mockImplementation((row: Record<string, unknown>) => ({
+    select: jest.fn().mockReturnValue({
+      single: jest.fn().mockResolvedValue({
+        data: { id: 'new-message', created_at: '2024-06-03T10:00:00Z', ...row },
+        error: null,
+      }),
+    }),
+  }));
+
+  (supabase.from as jest.Mock).mockImplementation((table: string) => {
+    if (table === 'sponsor_sponsee_relationships') {
+      return {
+        select: jest.fn().mockReturnValue({
+          or: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              limit: jest.fn().mockReturnValue({
+                maybeSingle: jest.fn().mockResolvedValue({ data: relationship, error: null }),
+              }),
+            }),
+          }),
+        }),
+      };
+    }
+    if (table === 'profiles') {
+      return {
+        select: jest.fn().mockReturnValue({
+          in: jest.fn().mockResolvedValue({
+            data: [{ id: 'sponsor-1', notification_preferences: { messages: messagesEnabled } }],
+            error: null,
+          }),
+        }),
+      };
+    }
+    if (table === 'notifications') {
+      return { insert: mockNotificationInsert, update: mockNotificationUpdate };
+    }
+    return {
+      select: jest.fn().mockReturnValue({
+        or: jest.fn().mockReturnValue({
+          order: jest.fn().mockResolvedValue({ data: messages, error: null }),
+        }),
+      }),
+      update: jest.fn().mockReturnValue({ in: mockUpdateIn }),
+      insert: mockMessageInsert,
+    };
+  });
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('MessageThreadScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('blocks messaging when there is no active relationship', async () => {
+    setupSupabaseMock({ relationship: null });
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('You can only message your active sponsor or sponsees.')
+      ).toBeTruthy();
+    });
+  });
+
+  it('renders the thread with the partner name', async () => {
+    setupSupabaseMock({
+      messages: [
+        {
+          id: 'm1',
+          sender_id: 'sponsor-1',
+          recipient_id: 'user-123',
+          content: 'How was the meeting?',
+          read_at: '2024-06-01T11:00:00Z',
+          created_at: '2024-06-01T10:00:00Z',
+        },
+      ],
+    });
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Sam S.')).toBeTruthy();
+      expect(screen.getByText('How was the meeting?')).toBeTruthy();
+    });
+    // Nothing unread, so nothing to mark
+    expect(mockUpdateIn).not.toHaveBeenCalled();
+  });
+
+  it('marks unread incoming messages as read', async () => {
+    setupSupabaseMock({
+      messages: [
+        {
+          id: 'm1',
+          sender_id: 'sponsor-1',
+          recipient_id: 'user-123',
+          content: 'Call me',
+          created_at: '2024-06-01T10:00:00Z',
+        },
+        {
+          id: 'm2',
+          sender_id: 'user-123',
+          recipient_id: 'sponsor-1',
+          content: 'Will do',
+          created_at: '2024-06-01T10:05:00Z',
+        },
+      ],
+    });
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(mockUpdateIn).toHaveBeenCalledWith('id', ['m1']);
+    });
+  });
+
+  it("marks the partner's message notifications read when the thread opens", async () => {
+    setupSupabaseMock({});
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(mockNotificationUpdate).toHaveBeenCalledWith({ read_at: expect.any(String) });
+      expect(mockNotificationSenderEq).toHaveBeenCalledWith('data->>sender_id', 'sponsor-1');
+      expect(mockNotificationUpdateIs).toHaveBeenCalledWith('read_at', null);
+    });
+  });
+
+  it('shows a read receipt on sent messages the partner has read', async () => {
+    setupSupabaseMock({
+      messages: [
+        {
+          id: 'm2',
+          sender_id: 'user-123',
+          recipient_id: 'sponsor-1',
+          content: 'Will do',
+          read_at: '2024-06-01T10:06:00Z',
+          created_at: '2024-06-01T10:05:00Z',
+        },
+      ],
+    });
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Read')).toBeTruthy();
+    });
+  });
+
+  it('sends a message and notifies the recipient', async () => {
+    setupSupabaseMock({});
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('Write a message...')).toBeTruthy();
+    });
+
+    fireEvent.changeText(screen.getByPlaceholderText('Write a message...'), '  Thank you  ');
+    fireEvent.press(screen.getByLabelText('Send message'));
+
+    await waitFor(() => {
+      expect(mockMessageInsert).toHaveBeenCalledWith({
+        sender_id: 'user-123',
+        recipient_id: 'sponsor-1',
+        content: 'Thank you',
+      });
+      expect(mockNotificationInsert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          user_id: 'sponsor-1',
+          type: 'message',
+          data: { sender_id: 'user-123', message_id: 'new-message' },
+        }),
+      ]);
+      expect(screen.getByText('Thank you')).toBeTruthy();
+    });
+  });
+
+  it('shows a sent message once when its realtime echo arrives before the notification', async () => {
+    setupSupabaseMock({});
+    let finishNotification: (value: { error: null }) => void = () => {};
+    mockNotificationInsert.mockReturnValue(
+      new Promise((resolve) => {
+        finishNotification = resolve;
+      })
+    );
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('Write a message...')).toBeTruthy();
+    });
+
+    fireEvent.changeText(screen.getByPlaceholderText('Write a message...'), 'Thank you');
+    fireEvent.press(screen.getByLabelText('Send message'));
+
+    await waitFor(() => {
+      expect(mockNotificationInsert).toHaveBeenCalled();
+    });
+
+    const onChange = (subscribeToUserChanges as jest.Mock).mock.calls[0][3];
+    act(() => {
+      onChange({
+        eventType: 'INSERT',
+        new: {
+          id: 'new-message',
+          sender_id: 'user-123',
+          recipient_id: 'sponsor-1',
+          content: 'Thank you',
+          created_at: '2024-06-03T10:00:00Z',
+          read_at: null,
+        },
+        old: {},
+      });
+    });
+    await act(async () => {
+      finishNotification({ error: null });
+    });
+
+    expect(screen.getAllByText('Thank you')).toHaveLength(1);
+  });
+
+  it('does not notify a recipient who turned off message notifications', async () => {
+    setupSupabaseMock({ messagesEnabled: false });
+
+    render(<MessageThreadScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByPlaceholderText('Write a message...')).toBeTruthy();
+    });
+
+    fireEvent.changeText(screen.getByPlaceholderText('Write a message...'), 'Thank you');
+    fireEvent.press(screen.getByLabelText('Send message'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Thank you')).toBeTruthy();
+    });
+    expect(mockMessageInsert).toHaveBeenCalled();
+    expect(mockNotificationInsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Tests for app/messages/index.tsx
+ *
+ * Tests the conversation list including:
+ * - One conversation per active relationship
+ * - Last message preview and unread counts from the conversation summaries
+ * - Most recent conversations first
+ * - Empty and error states
+ * - Navigation to a thread
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import MessagesScreen from '@/app/messages/index';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+const mockPush = jest.fn();
+const mockBack = jest.fn();
+
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: mockPush, back: mockBack }),
+}));
+
+jest.mock('@react-navigation/native', () => {
+  const React = require('react');
+  return {
+    useFocusEffect: (cb: () => void) => React.useEffect(cb, []),
+  };
+});
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: { id: 'user-123', first_name: 'Test', last_initial: 'U' },
+  }),
+}));
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      primaryLight: '#E5F1FF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      danger: '#ef4444',
+      white: '#ffffff',
+      black: '#000000',
+      fontRegular: 'JetBrainsMono-Regular',
+    },
+  }),
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('lucide-react-native', () => ({
+  ChevronLeft: () => null,
+  MessageCircle: () => null,
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const sponsor = { id: 'sponsor-1', first_name: 'Sam', last_initial: 'S' };
+const sponsee = { id: 'sponsee-1', first_name: 'Jo', last_initial: 'J' };
+
+const setupSupabaseMock = ({
+  asSponsor = [] as unknown[],
+  asSponsee = [] as unknown[],
+  summaries = [] as unknown[],
+  summariesError = null as unknown,
+}) => {
+  (supabase.rpc as jest.Mock).mockResolvedValue({ data: summaries, error: summariesError });
+
+  (supabase.from as jest.Mock).mockImplementation((table: string) => {
+    if (table === 'sponsor_sponsee_relationships') {
+      return {
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockImplementation((field: string) => ({
+            eq: jest.fn().mockResolvedValue({
+              data: field === 'sponsor_id' ? asSponsor : asSponsee,
+              error: null,
+            }),
+          })),
+        }),
+      };
+    }
+    throw new Error(`Unexpected table ${table}`);
+  });
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('MessagesScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the empty state when there are no relationships', async () => {
+    setupSupabaseMock({});
+
+    render(<MessagesScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No conversations yet')).toBeTruthy();
+    });
+  });
+
+  it('lists a conversation for each active relationship', async () => {
+    setupSupabaseMock({
+      asSponsor: [{ id: 'rel-1', sponsor_id: 'user-123', sponsee_id: 'sponsee-1', sponsee }],
+      asSponsee: [{ id: 'rel-2', sponsor_id: 'sponsor-1', sponsee_id: 'user-123', sponsor }],
+    });
+
+    render(<MessagesScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Sam S.')).toBeTruthy();
+      expect(screen.getByText('Jo J.')).toBeTruthy();
+      expect(screen.getByText('Your sponsor')).toBeTruthy();
+      expect(screen.getByText('Your sponsee')).toBeTruthy();
+    });
+  });
+
+  it('shows the latest message and the unread count', async () => {
+    setupSupabaseMock({
+      asSponsee: [{ id: 'rel-2', sponsor_id: 'sponsor-1', sponsee_id: 'user-123', sponsor }],
+      summaries: [
+        {
+          partner_id: 'sponsor-1',
+          id: 'm2',
+          sender_id: 'sponsor-1',
+          recipient_id: 'user-123',
+          content: 'Call me tonight',
+          read_at: null,
+          created_at: '2024-06-02T10:00:00Z',
+          unread_count: 2,
+        },
+      ],
+    });
+
+    render(<MessagesScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Call me tonight')).toBeTruthy();
+      expect(screen.getByText('2')).toBeTruthy();
+    });
+    expect(supabase.rpc).toHaveBeenCalledWith('get_conversation_summaries');
+  });
+
+  it('lists the most recent conversation first', async () => {
+    setupSupabaseMock({
+      asSponsor: [{ id: 'rel-1', sponsor_id: 'user-123', sponsee_id: 'sponsee-1', sponsee }],
+      asSponsee: [{ id: 'rel-2', sponsor_id: 'sponsor-1', sponsee_id: 'user-123', sponsor }],
+      summaries: [
+        {
+          partner_id: 'sponsee-1',
+          id: 'm3',
+          sender_id: 'sponsee-1',
+          recipient_id: 'user-123',
+          content: 'Meeting tonight?',
+          read_at: null,
+          created_at: '2024-06-03T10:00:00Z',
+          unread_count: 1,
+        },
+      ],
+    });
+
+    render(<MessagesScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Meeting tonight?')).toBeTruthy();
+    });
+    const names = screen.getAllByText(/^(Sam S\.|Jo J\.)$/).map((node) => node.props.children);
+    expect(names).toEqual(['Jo J.', 'Sam S.']);
+  });
+
+  it('prefixes previews of messages the user sent', async () => {
+    setupSupabaseMock({
+      asSponsee: [{ id: 'rel-2', sponsor_id: 'sponsor-1', sponsee_id: 'user-123', sponsor }],
+      summaries: [
+        {
+          partner_id: 'sponsor-1',
+          id: 'm1',
+          sender_id: 'user-123',
+          recipient_id: 'sponsor-1',
+          content: 'On my way',
+          read_at: null,
+          created_at: '2024-06-01T10:00:00Z',
+          unread_count: 0,
+        },
+      ],
+    });
+
+    render(<MessagesScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('You: On my way')).toBeTruthy();
+    });
+  });
+
+  it('navigates to the thread when a conversation is pressed', async () => {
+    setupSupabaseMock({
+      asSponsee: [{ id: 'rel-2', sponsor_id: 'sponsor-1', sponsee_id: 'user-123', sponsor }],
+    });
+
+    render(<MessagesScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Sam S.')).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText('Open conversation with Sam S.'));
+
+    expect(mockPush).toHaveBeenCalledWith('/messages/sponsor-1');
+  });
+
+  it('shows an error state when messages fail to load', async () => {
+    setupSupabaseMock({ summariesError: new Error('boom') });
+
+    render(<MessagesScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load your conversations')).toBeTruthy();
+    });
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Tests for app/notifications.tsx
+ *
+ * Tests the notification inbox including:
+ * - Grouping notifications by type
+ * - Marking notifications read
+ * - Deep links from the notification payload
+ * - Empty and error states
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import NotificationsScreen from '@/app/notifications';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+const mockPush = jest.fn();
+
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: mockPush, back: jest.fn() }),
+}));
+
+jest.mock('@react-navigation/native', () => {
+  const React = require('react');
+  return {
+    useFocusEffect: (cb: () => void) => React.useEffect(cb, []),
+  };
+});
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: { id: 'user-123', first_name: 'Test', last_initial: 'U' },
+  }),
+}));
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      primaryLight: '#E5F1FF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      danger: '#ef4444',
+      white: '#ffffff',
+      fontRegular: 'JetBrainsMono-Regular',
+    },
+  }),
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('lucide-react-native', () => ({
+  ChevronLeft: () => null,
+  Bell: () => null,
+  MessageCircle: () => null,
+  ClipboardList: () => null,
+  CheckCircle: () => null,
+  MessageSquare: () => null,
+  Users: () => null,
+  Award: () => null,
+}));
+
+// =============================================================================
+// Test Data & Helpers
+// =============================================================================
+const taskCompleted = {
+  id: 'n1',
+  user_id: 'user-123',
+  type: 'task_completed',
+  title: 'Task Completed',
+  content: 'Jo J. has completed: Read chapter 5',
+  data: { task_id: 'task-1', step_number: 1 },
+  created_at: '2024-06-02T10:00:00Z',
+};
+
+const message = {
+  id: 'n2',
+  user_id: 'user-123',
+  type: 'message',
+  title: 'New message from Sam S.',
+  content: 'Call me tonight',
+  data: { sender_id: 'sponsor-1', message_id: 'm1' },
+  read_at: '2024-06-01T11:00:00Z',
+  created_at: '2024-06-01T10:00:00Z',
+};
+
+const connection = {
+  id: 'n3',
+  user_id: 'user-123',
+  type: 'connection_request',
+  title: 'Relationship Ended',
+  content: 'Your sponsor has ended the relationship.',
+  data: { relationship_id: 'rel-1' },
+  created_at: '2024-05-30T10:00:00Z',
+};
+
+const mockUpdateEq = jest.fn();
+const mockUpdateIs = jest.fn();
+
+const setupSupabaseMock = ({ notifications = [] as unknown[], fetchError = null as unknown }) => {
+  mockUpdateEq.mockImplementation(() => ({
+    is: mockUpdateIs,
+    then: (resolve: (value: { error: null }) => void) => resolve({ error: null }),
+  }));
+  mockUpdateIs.mockResolvedValue({ error: null });
+
+  (supabase.from as jest.Mock).mockImplementation(() => ({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        order: jest.fn().mockReturnValue({
+          limit: jest.fn().mockResolvedValue({ data: notifications, error: fetchError }),
+        }),
+      }),
+    }),
+    update: jest.fn().mockReturnValue({ eq: mockUpdateEq }),
+  }));
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('NotificationsScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the empty state when there are no notifications', async () => {
+    setupSupabaseMock({});
+
+    render(<NotificationsScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('No notifications yet')).toBeTruthy();
+    });
+  });
+
+  it('groups notifications by type with the unread count', async () => {
+    setupSupabaseMock({ notifications: [taskCompleted, message, connection] });
+
+    render(<NotificationsScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Messages')).toBeTruthy();
+      expect(screen.getByText('Completed Tasks')).toBeTruthy();
+      expect(screen.getByText('Connections')).toBeTruthy();
+      expect(screen.getByText('2 unread')).toBeTruthy();
+    });
+    expect(screen.queryByText('Milestones')).toBeNull();
+  });
+
+  it('marks an unread notification read and opens the related task', async () => {
+    setupSupabaseMock({ notifications: [taskCompleted] });
+
+    render(<NotificationsScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Unread: Task Completed')).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText('Unread: Task Completed'));
+
+    await waitFor(() => {
+      expect(mockUpdateEq).toHaveBeenCalledWith('id', 'n1');
+      expect(mockPush).toHaveBeenCalledWith('/tasks');
+      expect(screen.getByText("You're all caught up")).toBeTruthy();
+    });
+  });
+
+  it('opens the message thread without re-marking read notifications', async () => {
+    setupSupabaseMock({ notifications: [message] });
+
+    render(<NotificationsScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('New message from Sam S.')).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText('New message from Sam S.'));
+
+    await waitFor(() => {
+      expect(mockPush).toHaveBeenCalledWith('/messages/sponsor-1');
+    });
+    expect(mockUpdateEq).not.toHaveBeenCalled();
+  });
+
+  it('opens the profile for relationship notifications', async () => {
+    setupSupabaseMock({ notifications: [connection] });
+
+    render(<NotificationsScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Unread: Relationship Ended')).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText('Unread: Relationship Ended'));
+
+    await waitFor(() => {
+      expect(mockPush).toHaveBeenCalledWith('/profile');
+    });
+  });
+
+  it('marks all notifications read', async () => {
+    setupSupabaseMock({ notifications: [taskCompleted, connection] });
+
+    render(<NotificationsScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Mark all read')).toBeTruthy();
+    });
+
+    fireEvent.press(screen.getByLabelText('Mark all notifications read'));
+
+    await waitFor(() => {
+      expect(mockUpdateEq).toHaveBeenCalledWith('user_id', 'user-123');
+      expect(mockUpdateIs).toHaveBeenCalledWith('read_at', null);
+      expect(screen.getByText("You're all caught up")).toBeTruthy();
+    });
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+
+  it('shows an error state when notifications fail to load', async () => {
+    setupSupabaseMock({ fetchError: new Error('boom') });
+
+    render(<NotificationsScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load notifications')).toBeTruthy();
+    });
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,7 @@
  * - User profile display
  * - Sobriety date and days sober
  * - Sponsor/sponsee relationships
+ * - Choosing what to share with a sponsor and opening a sponsee's dashboard
  * - Settings navigation
  */
 
@@ -19,14 +20,30 @@ import ProfileScreen from '@/app/(tabs)/profile';
 // Mock data
 let mockSponsorRelationships: unknown[] = [];
 let mockSponseeRelationships: unknown[] = [];
+let mockPendingRelationships: unknown[] = [];
+let mockPastRelationships: unknown[] = [];
+const mockRelationshipUpdateEq = jest.fn();
 
 // Mock supabase
 jest.mock('@/lib/supabase', () => ({
   supabase: {
+    rpc: jest.fn(),
     from: jest.fn((table: string) => {
       if (table === 'sponsor_sponsee_relationships') {
         return {
+          update: jest.fn((values: unknown) => ({
+            eq: (field: string, value: string) => mockRelationshipUpdateEq(values, field, value),
+          })),
           select: jest.fn().mockImplementation(() => ({
+            // Pending and past relationships are fetched in both directions at once
+            or: jest.fn().mockReturnValue({
+              eq: jest.fn().mockImplementation((_field: string, status: string) => ({
+                order: jest.fn().mockResolvedValue({
+                  data: status === 'inactive' ? mockPastRelationships : mockPendingRelationships,
+                  error: null,
+                }),
+              })),
+            }),
             eq: jest.fn().mockImplementation((field: string) => {
               // If querying by sponsee_id, user wants their sponsors
               if (field === 'sponsee_id') {
@@ -62,6 +79,13 @@ jest.mock('@/lib/supabase', () => ({
             eq: jest.fn().mockReturnValue({
               in: jest.fn().mockResolvedValue({ data: [], error: null }),
             }),
+            or: jest.fn().mockResolvedValue({
+              data: [
+                { sponsor_id: 'sponsor-7', sponsee_id: 'user-123', status: 'completed' },
+                { sponsor_id: 'sponsor-7', sponsee_id: 'user-123', status: 'assigned' },
+              ],
+              error: null,
+            }),
           }),
         };
       }
@@ -180,6 +204,7 @@ jest.mock('lucide-react-native', () => ({
   AlertCircle: () => null,
   CheckCircle: () => null,
   Settings: () => null,
+  ChevronRight: () => null,
 }));
 
 // Mock DateTimePicker
@@ -218,8 +243,15 @@ jest.mock('@/lib/logger', () => ({
 describe('ProfileScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockPendingRelationships = [];
+    mockPastRelationships = [];
     mockSponsorRelationships = [];
     mockSponseeRelationships = [];
+
+    const { supabase } = jest.requireMock('@/lib/supabase');
+    supabase.rpc.mockReturnValue({
+      single: jest.fn().mockResolvedValue({ data: { status: 'not_found' }, error: null }),
+    });
   });
 
   describe('User Profile Display', () => {
@@ -1155,6 +1187,105 @@ describe('ProfileScreen', () => {
     });
   });
 
+  describe('Connection Requests', () => {
+    it('shows requests to accept and requests awaiting approval', async () => {
+      mockPendingRelationships = [
+        {
+          id: 'req-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-9',
+          status: 'pending',
+          sponsee: { id: 'sponsee-9', first_name: 'Alex', last_initial: 'P' },
+        },
+        {
+          id: 'req-2',
+          sponsor_id: 'sponsor-9',
+          sponsee_id: 'user-123',
+          status: 'pending',
+          sponsor: { id: 'sponsor-9', first_name: 'Riley', last_initial: 'K' },
+        },
+      ];
+
+      render(<ProfileScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Connection Requests')).toBeTruthy();
+      });
+      expect(screen.getByText('Alex P.')).toBeTruthy();
+      expect(screen.getByLabelText('Accept Alex P.')).toBeTruthy();
+      expect(screen.getByText('Riley K.')).toBeTruthy();
+      expect(screen.getByLabelText('Withdraw request to Riley K.')).toBeTruthy();
+    });
+
+    it('hides the section when there are no requests', async () => {
+      render(<ProfileScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Your Sponsees')).toBeTruthy();
+      });
+      expect(screen.queryByText('Connection Requests')).toBeNull();
+    });
+  });
+
+  describe('Relationship History', () => {
+    it('lists past relationships with their dates and task progress', async () => {
+      mockPastRelationships = [
+        {
+          id: 'past-1',
+          sponsor_id: 'sponsor-7',
+          sponsee_id: 'user-123',
+          status: 'inactive',
+          connected_at: '2024-01-10T00:00:00Z',
+          disconnected_at: '2024-06-20T00:00:00Z',
+          reconnect_requested_by: null,
+          sponsor: { id: 'sponsor-7', first_name: 'Morgan', last_initial: 'L' },
+        },
+      ];
+
+      render(<ProfileScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('History')).toBeTruthy();
+      });
+      expect(screen.getByText('Morgan L.')).toBeTruthy();
+      expect(screen.getByText('Former sponsor')).toBeTruthy();
+      expect(screen.getByText(/Disconnected Jun 20, 2024/)).toBeTruthy();
+      expect(screen.getByText('1/2 tasks completed')).toBeTruthy();
+      expect(screen.getByLabelText('Reconnect with Morgan L.')).toBeTruthy();
+    });
+
+    it('leaves out people the user is connected to again', async () => {
+      mockSponsorRelationships = [
+        {
+          id: 'rel-1',
+          sponsor_id: 'sponsor-7',
+          sponsee_id: 'user-123',
+          status: 'active',
+          connected_at: '2024-07-01T00:00:00Z',
+          sponsor: { id: 'sponsor-7', first_name: 'Morgan', last_initial: 'L' },
+        },
+      ];
+      mockPastRelationships = [
+        {
+          id: 'past-1',
+          sponsor_id: 'sponsor-7',
+          sponsee_id: 'user-123',
+          status: 'inactive',
+          connected_at: '2024-01-10T00:00:00Z',
+          disconnected_at: '2024-06-20T00:00:00Z',
+          sponsor: { id: 'sponsor-7', first_name: 'Morgan', last_initial: 'L' },
+        },
+      ];
+
+      render(<ProfileScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Morgan L.')).toBeTruthy();
+      });
+      expect(screen.queryByText('History')).toBeNull();
+    });
+  });
+
   describe('Sponsor Relationship Display', () => {
     beforeEach(() => {
       mockSponsorRelationships = [
@@ -1164,6 +1295,11 @@ describe('ProfileScreen', () => {
           sponsee_id: 'user-123',
           status: 'active',
           connected_at: '2024-01-15T00:00:00Z',
+          share_sobriety_date: true,
+          share_slip_ups: false,
+          share_slip_up_notes: false,
+          share_step_progress: true,
+          share_notes: true,
           sponsor: {
             id: 'sponsor-123',
             first_name: 'Bob',
@@ -1190,6 +1326,71 @@ describe('ProfileScreen', () => {
         expect(screen.getAllByText('Disconnect').length).toBeGreaterThan(0);
       });
     });
+
+    it('turns on sharing slip-ups with the sponsor', async () => {
+      mockRelationshipUpdateEq.mockResolvedValue({ error: null });
+
+      render(<ProfileScreen />);
+
+      fireEvent.press(await screen.findByLabelText('Share slip-up history'));
+
+      await waitFor(() => {
+        expect(mockRelationshipUpdateEq).toHaveBeenCalledWith(
+          { share_slip_ups: true },
+          'id',
+          'rel-1'
+        );
+      });
+      expect(screen.getByLabelText('Share slip-up history').props.accessibilityState).toEqual({
+        checked: true,
+        disabled: false,
+      });
+    });
+
+    it('turns off sharing notes with the sponsor', async () => {
+      mockRelationshipUpdateEq.mockResolvedValue({ error: null });
+
+      render(<ProfileScreen />);
+
+      fireEvent.press(await screen.findByLabelText('Share notes'));
+
+      await waitFor(() => {
+        expect(mockRelationshipUpdateEq).toHaveBeenCalledWith(
+          { share_notes: false },
+          'id',
+          'rel-1'
+        );
+      });
+      expect(screen.getByLabelText('Share notes').props.accessibilityState).toEqual({
+        checked: false,
+        disabled: false,
+      });
+    });
+
+    it('only lets slip-up notes be shared along with slip-ups', async () => {
+      render(<ProfileScreen />);
+
+      expect(
+        (await screen.findByLabelText('Share slip-up notes')).props.accessibilityState
+      ).toEqual({ checked: false, disabled: true });
+    });
+
+    it('reverts the sharing toggle when saving fails', async () => {
+      const { Alert } = jest.requireMock('react-native');
+      mockRelationshipUpdateEq.mockResolvedValue({ error: { message: 'denied' } });
+
+      render(<ProfileScreen />);
+
+      fireEvent.press(await screen.findByLabelText('Share slip-up history'));
+
+      await waitFor(() => {
+        expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to update sharing settings');
+      });
+      expect(screen.getByLabelText('Share slip-up history').props.accessibilityState).toEqual({
+        checked: false,
+        disabled: false,
+      });
+    });
   });
 
   describe('Sponsee Relationship Display', () => {
@@ -1227,6 +1428,14 @@ describe('ProfileScreen', () => {
         expect(screen.getAllByText('J').length).toBeGreaterThan(0);
       });
     });
+
+    it("opens the sponsee's dashboard", async () => {
+      render(<ProfileScreen />);
+
+      fireEvent.press(await screen.findByLabelText('View progress for Jane D.'));
+
+      expect(mockPush).toHaveBeenCalledWith('/sponsee/sponsee-456');
+    });
   });
 
   describe('Profile Header', () => {
@@ -1699,6 +1908,25 @@ describe('ProfileScreen', () => {
         expect(screen.getByText('Jane D.')).toBeTruthy();
       });
     });
+
+    it('shows days sober when the sponsee shares their sobriety date', async () => {
+      (mockSponseeRelationships[0] as { share_sobriety_date: boolean }).share_sobriety_date = true;
+
+      render(<ProfileScreen />);
+
+      expect(await screen.findByText('180 days sober')).toBeTruthy();
+    });
+
+    it('hides days sober when the sponsee does not share their sobriety date', async () => {
+      (mockSponseeRelationships[0] as { share_sobriety_date: boolean }).share_sobriety_date = false;
+
+      render(<ProfileScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Jane D.')).toBeTruthy();
+      });
+      expect(screen.queryByText('180 days sober')).toBeNull();
+    });
   });
 
   describe('Empty Generate Invite Code', () => {
@@ -1735,63 +1963,50 @@ describe('ProfileScreen', () => {
     });
   });
 
-  describe('Join with Invite Code - Success Flow', () => {
+  describe('Join with Invite Code', () => {
+    const mockRedeem = (claim: Record<string, unknown>) => ({
+      single: jest.fn().mockResolvedValue({
+        data: {
+          relationship_id: null,
+          sponsor_id: 'sponsor-123',
+          sponsor_first_name: 'Jane',
+          sponsor_last_initial: 'S',
+          ...claim,
+        },
+        error: null,
+      }),
+    });
+
+    const submitCode = async (code: string) => {
+      render(<ProfileScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByText('Enter Invite Code'));
+
+      await waitFor(() => {
+        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
+      });
+
+      fireEvent.changeText(screen.getByPlaceholderText('Enter 8-character code'), code);
+      fireEvent.press(screen.getByText('Connect'));
+    };
+
     beforeEach(() => {
       mockSponsorRelationships = [];
       mockSponseeRelationships = [];
 
-      // Set up successful invite code flow
       const { supabase } = jest.requireMock('@/lib/supabase');
       supabase.from.mockImplementation((table: string) => {
-        if (table === 'invite_codes') {
-          return {
-            insert: jest.fn().mockResolvedValue({ error: null }),
-            update: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({ error: null }),
-            }),
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({
-                  data: {
-                    id: 'invite-1',
-                    code: 'TESTCODE',
-                    sponsor_id: 'sponsor-123',
-                    expires_at: new Date(Date.now() + 86400000).toISOString(), // Tomorrow
-                    used_by: null,
-                  },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                single: jest.fn().mockResolvedValue({
-                  data: { id: 'sponsor-123', first_name: 'Jane', last_initial: 'S' },
-                  error: null,
-                }),
-              }),
-            }),
-            update: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({ error: null }),
-            }),
-          };
-        }
         if (table === 'sponsor_sponsee_relationships') {
           return {
             select: jest.fn().mockReturnValue({
               eq: jest.fn().mockReturnValue({
-                eq: jest.fn().mockReturnValue({
-                  eq: jest.fn().mockReturnValue({
-                    maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
-                  }),
-                }),
+                eq: jest.fn().mockResolvedValue({ data: [], error: null }),
               }),
             }),
-            insert: jest.fn().mockResolvedValue({ error: null }),
           };
         }
         if (table === 'notifications') {
@@ -1799,102 +2014,118 @@ describe('ProfileScreen', () => {
             insert: jest.fn().mockResolvedValue({ error: null }),
           };
         }
-        if (table === 'tasks') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
-              }),
-            }),
-          };
-        }
         return {
           select: jest.fn().mockReturnThis(),
           eq: jest.fn().mockReturnThis(),
+          in: jest.fn().mockResolvedValue({ data: [], error: null }),
         };
       });
     });
 
-    it('successfully connects with valid invite code', async () => {
+    it('redeems the code through the RPC and confirms the connection', async () => {
+      const { supabase } = jest.requireMock('@/lib/supabase');
       const { Alert } = jest.requireMock('react-native');
-      render(<ProfileScreen />);
+      supabase.rpc.mockReturnValue(mockRedeem({ status: 'connected', relationship_id: 'rel-1' }));
+
+      await submitCode('testcode');
 
       await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
+        expect(Alert.alert).toHaveBeenCalledWith(
+          'Success',
+          expect.stringContaining('Connected with Jane S.')
+        );
       });
+      expect(supabase.rpc).toHaveBeenCalledWith('redeem_invite_code', {
+        invite_code: 'TESTCODE',
+      });
+    });
 
-      // Show invite input
-      fireEvent.press(screen.getByText('Enter Invite Code'));
+    it.each([
+      ['expired', 'This invite code has expired'],
+      ['used', 'This invite code has already been used'],
+      ['revoked', 'This invite code has been revoked'],
+      ['self', 'You cannot connect to yourself as a sponsor'],
+      ['already_connected', 'You are already connected to this sponsor'],
+      ['already_requested', 'You have already asked to connect with this sponsor'],
+    ])('shows the message for a %s code', async (status, message) => {
+      const { supabase } = jest.requireMock('@/lib/supabase');
+      const { Alert } = jest.requireMock('react-native');
+      supabase.rpc.mockReturnValue(mockRedeem({ status }));
+
+      await submitCode('VALIDCOD');
 
       await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
+        expect(Alert.alert).toHaveBeenCalledWith('Error', message);
       });
+    });
 
-      // Enter valid invite code
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'TESTCODE');
+    it('tells the sponsee when the sponsor has to approve the request', async () => {
+      const { supabase } = jest.requireMock('@/lib/supabase');
+      const { Alert } = jest.requireMock('react-native');
+      supabase.rpc.mockReturnValue(mockRedeem({ status: 'pending', relationship_id: 'rel-1' }));
 
-      // Press Connect
-      fireEvent.press(screen.getByText('Connect'));
+      await submitCode('testcode');
 
-      // Should show success alert
       await waitFor(() => {
         expect(Alert.alert).toHaveBeenCalledWith(
-          'Success',
-          expect.stringContaining('Connected with Jane S.')
+          'Request Sent',
+          expect.stringContaining('connect with Jane S. has been sent')
         );
       });
     });
+
+    it('shows network error message when the RPC throws', async () => {
+      const { supabase } = jest.requireMock('@/lib/supabase');
+      const { Alert } = jest.requireMock('react-native');
+      supabase.rpc.mockReturnValue({
+        single: jest.fn().mockRejectedValue(new Error('Network error')),
+      });
+
+      await submitCode('NETCODE1');
+
+      await waitFor(() => {
+        expect(Alert.alert).toHaveBeenCalledWith('Error', 'Network error');
+      });
+    });
   });
 
-  describe('Join with Invite Code - Error Cases', () => {
+  describe('Generate Invite Code Error', () => {
     beforeEach(() => {
       mockSponsorRelationships = [];
       mockSponseeRelationships = [];
-    });
 
-    it('shows error for expired invite code', async () => {
       const { supabase } = jest.requireMock('@/lib/supabase');
-      const { Alert } = jest.requireMock('react-native');
-
       supabase.from.mockImplementation((table: string) => {
         if (table === 'invite_codes') {
           return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({
-                  data: {
-                    id: 'invite-1',
-                    code: 'EXPIRED1',
-                    sponsor_id: 'sponsor-123',
-                    expires_at: new Date(Date.now() - 86400000).toISOString(), // Yesterday
-                    used_by: null,
-                  },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                single: jest.fn().mockResolvedValue({
-                  data: { id: 'sponsor-123', first_name: 'Jane', last_initial: 'S' },
-                  error: null,
-                }),
-              }),
-            }),
+            insert: jest.fn().mockResolvedValue({ error: new Error('Database error') }),
           };
         }
         if (table === 'sponsor_sponsee_relationships') {
           return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                eq: jest.fn().mockResolvedValue({ data: mockSponsorRelationships, error: null }),
+            select: jest.fn().mockImplementation(() => ({
+              eq: jest.fn().mockImplementation((field: string) => {
+                if (field === 'sponsee_id') {
+                  return {
+                    eq: jest.fn().mockResolvedValue({
+                      data: mockSponsorRelationships,
+                      error: null,
+                    }),
+                  };
+                }
+                if (field === 'sponsor_id') {
+                  return {
+                    eq: jest.fn().mockResolvedValue({
+                      data: mockSponseeRelationships,
+                      error: null,
+                    }),
+                  };
+                }
+                return {
+                  eq: jest.fn().mockResolvedValue({ data: [], error: null }),
+                };
               }),
-            }),
+            })),
           };
         }
         if (table === 'tasks') {
@@ -1911,262 +2142,20 @@ describe('ProfileScreen', () => {
           eq: jest.fn().mockReturnThis(),
         };
       });
+    });
 
+    it('shows error alert when invite code generation fails', async () => {
+      const { Alert } = jest.requireMock('react-native');
       render(<ProfileScreen />);
 
       await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
+        expect(screen.getByText('Generate Invite Code')).toBeTruthy();
       });
 
-      fireEvent.press(screen.getByText('Enter Invite Code'));
+      fireEvent.press(screen.getByText('Generate Invite Code'));
 
       await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
-      });
-
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'EXPIRED1');
-      fireEvent.press(screen.getByText('Connect'));
-
-      await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith('Error', 'This invite code has expired');
-      });
-    });
-
-    it('shows error for already used invite code', async () => {
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      const { Alert } = jest.requireMock('react-native');
-
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'invite_codes') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({
-                  data: {
-                    id: 'invite-1',
-                    code: 'USEDCODE',
-                    sponsor_id: 'sponsor-123',
-                    expires_at: new Date(Date.now() + 86400000).toISOString(),
-                    used_by: 'other-user',
-                  },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                single: jest.fn().mockResolvedValue({
-                  data: { id: 'sponsor-123', first_name: 'Jane', last_initial: 'S' },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'sponsor_sponsee_relationships') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                eq: jest.fn().mockResolvedValue({ data: mockSponsorRelationships, error: null }),
-              }),
-            }),
-          };
-        }
-        if (table === 'tasks') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
-              }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
-      });
-
-      render(<ProfileScreen />);
-
-      await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
-      });
-
-      fireEvent.press(screen.getByText('Enter Invite Code'));
-
-      await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
-      });
-
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'USEDCODE');
-      fireEvent.press(screen.getByText('Connect'));
-
-      await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith('Error', 'This invite code has already been used');
-      });
-    });
-
-    it('shows error when trying to connect to yourself', async () => {
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      const { Alert } = jest.requireMock('react-native');
-
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'invite_codes') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({
-                  data: {
-                    id: 'invite-1',
-                    code: 'SELFCODE',
-                    sponsor_id: 'user-123', // Same as current user
-                    expires_at: new Date(Date.now() + 86400000).toISOString(),
-                    used_by: null,
-                  },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                single: jest.fn().mockResolvedValue({
-                  data: { id: 'user-123', first_name: 'John', last_initial: 'D' },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'sponsor_sponsee_relationships') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                eq: jest.fn().mockResolvedValue({ data: mockSponsorRelationships, error: null }),
-              }),
-            }),
-          };
-        }
-        if (table === 'tasks') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
-              }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
-      });
-
-      render(<ProfileScreen />);
-
-      await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
-      });
-
-      fireEvent.press(screen.getByText('Enter Invite Code'));
-
-      await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
-      });
-
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'SELFCODE');
-      fireEvent.press(screen.getByText('Connect'));
-
-      await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith(
-          'Error',
-          'You cannot connect to yourself as a sponsor'
-        );
-      });
-    });
-  });
-
-  // Note: More complex flows like sponsor profile fetch error, disconnect relationship,
-  // edit sobriety date, and slip-up modal submission are tested via integration tests.
-
-  describe('Generate Invite Code Error', () => {
-    beforeEach(() => {
-      mockSponsorRelationships = [];
-      mockSponseeRelationships = [];
-
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'invite_codes') {
-          return {
-            insert: jest.fn().mockResolvedValue({ error: new Error('Database error') }),
-          };
-        }
-        if (table === 'sponsor_sponsee_relationships') {
-          return {
-            select: jest.fn().mockImplementation(() => ({
-              eq: jest.fn().mockImplementation((field: string) => {
-                if (field === 'sponsee_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponsorRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                if (field === 'sponsor_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponseeRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                return {
-                  eq: jest.fn().mockResolvedValue({ data: [], error: null }),
-                };
-              }),
-            })),
-          };
-        }
-        if (table === 'tasks') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
-              }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
-      });
-    });
-
-    it('shows error alert when invite code generation fails', async () => {
-      const { Alert } = jest.requireMock('react-native');
-      render(<ProfileScreen />);
-
-      await waitFor(() => {
-        expect(screen.getByText('Generate Invite Code')).toBeTruthy();
-      });
-
-      fireEvent.press(screen.getByText('Generate Invite Code'));
-
-      await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to generate invite code');
+        expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to generate invite code');
       });
     });
   });
@@ -2178,181 +2167,32 @@ describe('ProfileScreen', () => {
       // Set up sponsee relationships with task stats
       mockSponseeRelationships = [
         {
-          id: 'rel-1',
-          sponsor_id: 'user-123',
-          sponsee_id: 'sponsee-1',
-          status: 'active',
-          sponsee: {
-            id: 'sponsee-1',
-            first_name: 'Jane',
-            last_initial: 'S',
-            sobriety_date: '2024-06-01',
-          },
-        },
-      ];
-      mockSponsorRelationships = [];
-
-      // Mock supabase to return tasks for the sponsees
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'sponsor_sponsee_relationships') {
-          return {
-            select: jest.fn().mockImplementation(() => ({
-              eq: jest.fn().mockImplementation((field: string) => {
-                if (field === 'sponsor_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponseeRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                if (field === 'sponsee_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponsorRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                return {
-                  eq: jest.fn().mockResolvedValue({ data: [], error: null }),
-                };
-              }),
-            })),
-          };
-        }
-        if (table === 'tasks') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({
-                  data: [
-                    { id: 'task-1', sponsee_id: 'sponsee-1', status: 'assigned' },
-                    { id: 'task-2', sponsee_id: 'sponsee-1', status: 'completed' },
-                    { id: 'task-3', sponsee_id: 'sponsee-1', status: 'completed' },
-                  ],
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'invite_codes') {
-          return {
-            insert: jest.fn().mockResolvedValue({ error: null }),
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                gt: jest.fn().mockReturnValue({
-                  is: jest.fn().mockReturnValue({
-                    single: jest.fn().mockResolvedValue({ data: null, error: null }),
-                  }),
-                }),
-                maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
-              }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
-      });
-    });
-
-    it('displays sponsee with task statistics', async () => {
-      render(<ProfileScreen />);
-
-      await waitFor(() => {
-        expect(screen.getByText('Jane S.')).toBeTruthy();
-      });
-
-      // Should show task progress (2 completed out of 3 total)
-      await waitFor(() => {
-        expect(screen.getByText(/2\/3/)).toBeTruthy();
-      });
-    });
-  });
-
-  describe('error handling for relationships fetch', () => {
-    beforeEach(() => {
-      jest.clearAllMocks();
-      mockSponsorRelationships = [];
-      mockSponseeRelationships = [];
-
-      // Mock supabase to throw an error
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation(() => {
-        throw new Error('Database connection failed');
-      });
-    });
-
-    it('handles error during relationships fetch gracefully', async () => {
-      // Suppress console.error for this test
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-
-      render(<ProfileScreen />);
-
-      // Should still render without crashing
-      await waitFor(() => {
-        expect(screen.getByText('John D.')).toBeTruthy();
-      });
-
-      consoleSpy.mockRestore();
-    });
-  });
-
-  describe('Join with Invite Code - Already Connected', () => {
-    beforeEach(() => {
-      mockSponsorRelationships = [];
-      mockSponseeRelationships = [];
-
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'invite_codes') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({
-                  data: {
-                    id: 'invite-1',
-                    code: 'VALIDCOD',
-                    sponsor_id: 'sponsor-123',
-                    expires_at: new Date(Date.now() + 86400000).toISOString(),
-                    used_by: null,
-                  },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                single: jest.fn().mockResolvedValue({
-                  data: { id: 'sponsor-123', first_name: 'Jane', last_initial: 'S' },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
+          id: 'rel-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-1',
+          status: 'active',
+          sponsee: {
+            id: 'sponsee-1',
+            first_name: 'Jane',
+            last_initial: 'S',
+            sobriety_date: '2024-06-01',
+          },
+        },
+      ];
+      mockSponsorRelationships = [];
+
+      // Mock supabase to return tasks for the sponsees
+      const { supabase } = jest.requireMock('@/lib/supabase');
+      supabase.from.mockImplementation((table: string) => {
         if (table === 'sponsor_sponsee_relationships') {
           return {
             select: jest.fn().mockImplementation(() => ({
               eq: jest.fn().mockImplementation((field: string) => {
                 if (field === 'sponsor_id') {
-                  // For the existing relationship check - return an existing relationship
                   return {
-                    eq: jest.fn().mockReturnValue({
-                      eq: jest.fn().mockReturnValue({
-                        maybeSingle: jest.fn().mockResolvedValue({
-                          data: { id: 'existing-rel' }, // Already connected
-                          error: null,
-                        }),
-                      }),
+                    eq: jest.fn().mockResolvedValue({
+                      data: mockSponseeRelationships,
+                      error: null,
                     }),
                   };
                 }
@@ -2365,7 +2205,7 @@ describe('ProfileScreen', () => {
                   };
                 }
                 return {
-                  eq: jest.fn().mockResolvedValue({ data: mockSponseeRelationships, error: null }),
+                  eq: jest.fn().mockResolvedValue({ data: [], error: null }),
                 };
               }),
             })),
@@ -2375,118 +2215,30 @@ describe('ProfileScreen', () => {
           return {
             select: jest.fn().mockReturnValue({
               eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
-              }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
-      });
-    });
-
-    it('shows error when already connected to sponsor', async () => {
-      const { Alert } = jest.requireMock('react-native');
-      render(<ProfileScreen />);
-
-      await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
-      });
-
-      fireEvent.press(screen.getByText('Enter Invite Code'));
-
-      await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
-      });
-
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'VALIDCOD');
-      fireEvent.press(screen.getByText('Connect'));
-
-      await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith(
-          'Error',
-          'You are already connected to this sponsor'
-        );
-      });
-    });
-  });
-
-  describe('Join with Invite Code - Relationship Creation Error', () => {
-    beforeEach(() => {
-      mockSponsorRelationships = [];
-      mockSponseeRelationships = [];
-
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'invite_codes') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({
-                  data: {
-                    id: 'invite-1',
-                    code: 'NEWCODE1',
-                    sponsor_id: 'sponsor-123',
-                    expires_at: new Date(Date.now() + 86400000).toISOString(),
-                    used_by: null,
-                  },
+                in: jest.fn().mockResolvedValue({
+                  data: [
+                    { id: 'task-1', sponsee_id: 'sponsee-1', status: 'assigned' },
+                    { id: 'task-2', sponsee_id: 'sponsee-1', status: 'completed' },
+                    { id: 'task-3', sponsee_id: 'sponsee-1', status: 'completed' },
+                    { id: 'task-4', sponsee_id: 'sponsee-1', status: 'in_progress' },
+                  ],
                   error: null,
                 }),
               }),
             }),
           };
         }
-        if (table === 'profiles') {
+        if (table === 'invite_codes') {
           return {
+            insert: jest.fn().mockResolvedValue({ error: null }),
             select: jest.fn().mockReturnValue({
               eq: jest.fn().mockReturnValue({
-                single: jest.fn().mockResolvedValue({
-                  data: { id: 'sponsor-123', first_name: 'Jane', last_initial: 'S' },
-                  error: null,
+                gt: jest.fn().mockReturnValue({
+                  is: jest.fn().mockReturnValue({
+                    single: jest.fn().mockResolvedValue({ data: null, error: null }),
+                  }),
                 }),
-              }),
-            }),
-          };
-        }
-        if (table === 'sponsor_sponsee_relationships') {
-          return {
-            select: jest.fn().mockImplementation(() => ({
-              eq: jest.fn().mockImplementation((field: string) => {
-                if (field === 'sponsor_id') {
-                  return {
-                    eq: jest.fn().mockReturnValue({
-                      eq: jest.fn().mockReturnValue({
-                        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
-                      }),
-                    }),
-                  };
-                }
-                if (field === 'sponsee_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponsorRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                return {
-                  eq: jest.fn().mockResolvedValue({ data: mockSponseeRelationships, error: null }),
-                };
-              }),
-            })),
-            insert: jest
-              .fn()
-              .mockResolvedValue({ error: { message: 'Relationship creation failed' } }),
-          };
-        }
-        if (table === 'tasks') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
+                maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
               }),
             }),
           };
@@ -2498,113 +2250,45 @@ describe('ProfileScreen', () => {
       });
     });
 
-    it('shows error when relationship creation fails', async () => {
-      const { Alert } = jest.requireMock('react-native');
+    it('displays sponsee with task statistics', async () => {
       render(<ProfileScreen />);
 
       await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
-      });
-
-      fireEvent.press(screen.getByText('Enter Invite Code'));
-
-      await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
+        expect(screen.getByText('Jane S.')).toBeTruthy();
       });
 
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'NEWCODE1');
-      fireEvent.press(screen.getByText('Connect'));
-
+      // Should show task progress (2 completed out of 4 total, 1 started)
       await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith(
-          'Error',
-          'Failed to connect: Relationship creation failed'
-        );
+        expect(screen.getByText('2/4 tasks completed · 1 in progress')).toBeTruthy();
       });
     });
   });
 
-  describe('Join with Invite Code - Network Error', () => {
+  describe('error handling for relationships fetch', () => {
     beforeEach(() => {
+      jest.clearAllMocks();
       mockSponsorRelationships = [];
       mockSponseeRelationships = [];
 
+      // Mock supabase to throw an error
       const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'invite_codes') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockRejectedValue(new Error('Network error')),
-              }),
-            }),
-          };
-        }
-        if (table === 'sponsor_sponsee_relationships') {
-          return {
-            select: jest.fn().mockImplementation(() => ({
-              eq: jest.fn().mockImplementation((field: string) => {
-                if (field === 'sponsee_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponsorRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                if (field === 'sponsor_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponseeRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                return {
-                  eq: jest.fn().mockResolvedValue({ data: [], error: null }),
-                };
-              }),
-            })),
-          };
-        }
-        if (table === 'tasks') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
-              }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
+      supabase.from.mockImplementation(() => {
+        throw new Error('Database connection failed');
       });
     });
 
-    it('shows network error message when fetch throws', async () => {
-      const { Alert } = jest.requireMock('react-native');
-      render(<ProfileScreen />);
-
-      await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
-      });
+    it('handles error during relationships fetch gracefully', async () => {
+      // Suppress console.error for this test
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
 
-      fireEvent.press(screen.getByText('Enter Invite Code'));
+      render(<ProfileScreen />);
 
+      // Should still render without crashing
       await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
+        expect(screen.getByText('John D.')).toBeTruthy();
       });
 
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'NETCODE1');
-      fireEvent.press(screen.getByText('Connect'));
-
-      await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith('Error', 'Network error');
-      });
+      consoleSpy.mockRestore();
     });
   });
 
@@ -3007,10 +2691,27 @@ describe('ProfileScreen', () => {
     });
   });
 
-  describe('Sponsor Profile Fetch Error', () => {
+  describe('Invite Code List', () => {
+    const activeInvite = {
+      id: 'invite-1',
+      code: 'ABCD2345',
+      sponsor_id: 'user-123',
+      created_at: '2024-01-01T00:00:00Z',
+      expires_at: '2099-06-15T12:00:00Z',
+      used_at: null,
+      used_by: null,
+      revoked_at: null,
+    };
+    let mockInviteUpdate: jest.Mock;
+
     beforeEach(() => {
       mockSponsorRelationships = [];
       mockSponseeRelationships = [];
+      mockInviteUpdate = jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          is: jest.fn().mockResolvedValue({ error: null }),
+        }),
+      });
 
       const { supabase } = jest.requireMock('@/lib/supabase');
       supabase.from.mockImplementation((table: string) => {
@@ -3018,64 +2719,19 @@ describe('ProfileScreen', () => {
           return {
             select: jest.fn().mockReturnValue({
               eq: jest.fn().mockReturnValue({
-                maybeSingle: jest.fn().mockResolvedValue({
-                  data: {
-                    id: 'invite-1',
-                    code: 'PROFCODE',
-                    sponsor_id: 'sponsor-123',
-                    expires_at: new Date(Date.now() + 86400000).toISOString(),
-                    used_by: null,
-                  },
-                  error: null,
-                }),
-              }),
-            }),
-          };
-        }
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                single: jest.fn().mockResolvedValue({
-                  data: null,
-                  error: { message: 'Profile not found' },
+                is: jest.fn().mockReturnValue({
+                  order: jest.fn().mockResolvedValue({ data: [activeInvite], error: null }),
                 }),
               }),
             }),
+            update: mockInviteUpdate,
           };
         }
         if (table === 'sponsor_sponsee_relationships') {
-          return {
-            select: jest.fn().mockImplementation(() => ({
-              eq: jest.fn().mockImplementation((field: string) => {
-                if (field === 'sponsee_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponsorRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                if (field === 'sponsor_id') {
-                  return {
-                    eq: jest.fn().mockResolvedValue({
-                      data: mockSponseeRelationships,
-                      error: null,
-                    }),
-                  };
-                }
-                return {
-                  eq: jest.fn().mockResolvedValue({ data: [], error: null }),
-                };
-              }),
-            })),
-          };
-        }
-        if (table === 'tasks') {
           return {
             select: jest.fn().mockReturnValue({
               eq: jest.fn().mockReturnValue({
-                in: jest.fn().mockResolvedValue({ data: [], error: null }),
+                eq: jest.fn().mockResolvedValue({ data: [], error: null }),
               }),
             }),
           };
@@ -3087,27 +2743,37 @@ describe('ProfileScreen', () => {
       });
     });
 
-    it('shows error when sponsor profile fetch fails', async () => {
-      const { Alert } = jest.requireMock('react-native');
+    it("lists the sponsor's invite codes with their expiry", async () => {
       render(<ProfileScreen />);
 
       await waitFor(() => {
-        expect(screen.getByText('Enter Invite Code')).toBeTruthy();
+        expect(screen.getByText('ABCD2345')).toBeTruthy();
       });
+      expect(screen.getByText('Expires Jun 15, 2099')).toBeTruthy();
+    });
 
-      fireEvent.press(screen.getByText('Enter Invite Code'));
+    it('revokes a code after confirmation', async () => {
+      const { Alert } = jest.requireMock('react-native');
+      Alert.alert.mockImplementation(
+        (_title: string, _message: string, buttons?: { text: string; onPress?: () => void }[]) => {
+          buttons?.find((button) => button.text === 'Revoke')?.onPress?.();
+        }
+      );
+      render(<ProfileScreen />);
 
       await waitFor(() => {
-        expect(screen.getByPlaceholderText('Enter 8-character code')).toBeTruthy();
+        expect(screen.getByText('Revoke')).toBeTruthy();
       });
 
-      const input = screen.getByPlaceholderText('Enter 8-character code');
-      fireEvent.changeText(input, 'PROFCODE');
-      fireEvent.press(screen.getByText('Connect'));
+      fireEvent.press(screen.getByText('Revoke'));
 
       await waitFor(() => {
-        expect(Alert.alert).toHaveBeenCalledWith('Error', 'Unable to fetch sponsor information');
+        expect(mockInviteUpdate).toHaveBeenCalledWith({ revoked_at: expect.any(String) });
+      });
+      await waitFor(() => {
+        expect(screen.queryByText('ABCD2345')).toBeNull();
       });
+      Alert.alert.mockReset();
     });
   });
 });
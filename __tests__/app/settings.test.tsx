@@ -4,6 +4,8 @@
  * Tests the settings screen including:
  * - Header and navigation
  * - Theme switching
+ * - Notification preferences
+ * - Connection approval
  * - Sign out functionality
  * - External links
  */
@@ -38,13 +40,30 @@ jest.mock('react-native-safe-area-context', () => ({
 // Mock AuthContext
 const mockSignOut = jest.fn();
 const mockDeleteAccount = jest.fn();
+const mockRefreshProfile = jest.fn();
+const mockProfile = {
+  id: 'user-123',
+  notification_preferences: { tasks: true, messages: false, milestones: true, daily: true },
+  daily_reminder_time: '20:30:00',
+};
 jest.mock('@/contexts/AuthContext', () => ({
   useAuth: () => ({
     signOut: mockSignOut,
     deleteAccount: mockDeleteAccount,
+    profile: mockProfile,
+    refreshProfile: mockRefreshProfile,
   }),
 }));
 
+// Mock Supabase
+const mockUpdateEq = jest.fn();
+const mockUpdate = jest.fn(() => ({ eq: mockUpdateEq }));
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: () => ({ update: mockUpdate }),
+  },
+}));
+
 // Mock ThemeContext
 const mockSetThemeMode = jest.fn();
 jest.mock('@/contexts/ThemeContext', () => ({
@@ -107,8 +126,24 @@ jest.mock('lucide-react-native', () => ({
   AlertCircle: () => null,
   Info: () => null,
   Copy: () => null,
+  Bell: () => null,
+  CheckSquare: () => null,
+  MessageCircle: () => null,
+  Award: () => null,
+  Clock: () => null,
+  UserCheck: () => null,
 }));
 
+// Mock DateTimePicker
+jest.mock('@react-native-community/datetimepicker', () => {
+  const React = require('react');
+  return {
+    __esModule: true,
+    default: (props: { onChange: (event: { type: string }, date?: Date) => void }) =>
+      React.createElement('View', { testID: 'date-time-picker', ...props }),
+  };
+});
+
 // Mock expo-clipboard
 jest.mock('expo-clipboard', () => ({
   setStringAsync: jest.fn(),
@@ -165,6 +200,7 @@ jest.mock('@/lib/logger', () => ({
   },
   LogCategory: {
     AUTH: 'auth',
+    DATABASE: 'database',
     UI: 'ui',
   },
 }));
@@ -177,6 +213,8 @@ describe('SettingsScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockSignOut.mockResolvedValue(undefined);
+    mockUpdateEq.mockResolvedValue({ error: null });
+    mockRefreshProfile.mockResolvedValue(undefined);
   });
 
   describe('Header', () => {
@@ -241,6 +279,123 @@ describe('SettingsScreen', () => {
     });
   });
 
+  describe('Connection Approval', () => {
+    it('saves the approval setting to the profile', async () => {
+      mockUpdateEq.mockResolvedValue({ error: null });
+
+      render(<SettingsScreen />);
+
+      const toggle = screen.getByLabelText('Approve new sponsees');
+      expect(toggle.props.accessibilityState).toEqual({ checked: false });
+
+      fireEvent.press(toggle);
+
+      await waitFor(() => {
+        expect(mockUpdate).toHaveBeenCalledWith({ require_connection_approval: true });
+        expect(mockUpdateEq).toHaveBeenCalledWith('id', 'user-123');
+        expect(mockRefreshProfile).toHaveBeenCalled();
+      });
+      expect(screen.getByLabelText('Approve new sponsees').props.accessibilityState).toEqual({
+        checked: true,
+      });
+    });
+
+    it('reverts the toggle and alerts when saving fails', async () => {
+      const { Alert } = jest.requireMock('react-native');
+      mockUpdateEq.mockResolvedValue({ error: new Error('update failed') });
+
+      render(<SettingsScreen />);
+
+      fireEvent.press(screen.getByLabelText('Approve new sponsees'));
+
+      await waitFor(() => {
+        expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to update connection approval');
+      });
+      expect(screen.getByLabelText('Approve new sponsees').props.accessibilityState).toEqual({
+        checked: false,
+      });
+    });
+  });
+
+  describe('Notification Preferences', () => {
+    it('renders a toggle for each preference reflecting the profile', () => {
+      render(<SettingsScreen />);
+
+      expect(screen.getByText('Notifications')).toBeTruthy();
+      expect(screen.getByLabelText('Tasks notifications').props.accessibilityState).toEqual({
+        checked: true,
+      });
+      expect(screen.getByLabelText('Messages notifications').props.accessibilityState).toEqual({
+        checked: false,
+      });
+      expect(screen.getByLabelText('Milestones notifications')).toBeTruthy();
+      expect(screen.getByLabelText('Daily Reminders notifications')).toBeTruthy();
+    });
+
+    it('saves the toggled preference to the profile', async () => {
+      render(<SettingsScreen />);
+
+      fireEvent.press(screen.getByLabelText('Messages notifications'));
+
+      await waitFor(() => {
+        expect(mockUpdate).toHaveBeenCalledWith({
+          notification_preferences: { tasks: true, messages: true, milestones: true, daily: true },
+        });
+        expect(mockUpdateEq).toHaveBeenCalledWith('id', 'user-123');
+        expect(mockRefreshProfile).toHaveBeenCalled();
+      });
+      expect(screen.getByLabelText('Messages notifications').props.accessibilityState).toEqual({
+        checked: true,
+      });
+    });
+
+    it('reverts the toggle and alerts when saving fails', async () => {
+      const { Alert } = jest.requireMock('react-native');
+      const { logger } = jest.requireMock('@/lib/logger');
+      mockUpdateEq.mockResolvedValue({ error: new Error('update failed') });
+
+      render(<SettingsScreen />);
+
+      fireEvent.press(screen.getByLabelText('Tasks notifications'));
+
+      await waitFor(() => {
+        expect(Alert.alert).toHaveBeenCalledWith(
+          'Error',
+          'Failed to update notification preferences'
+        );
+      });
+      expect(logger.error).toHaveBeenCalled();
+      expect(screen.getByLabelText('Tasks notifications').props.accessibilityState).toEqual({
+        checked: true,
+      });
+    });
+
+    it('saves a new daily reminder time', async () => {
+      render(<SettingsScreen />);
+
+      fireEvent.press(screen.getByLabelText('Change daily reminder time'));
+
+      const picked = new Date();
+      picked.setHours(7, 5, 0, 0);
+      screen.getByTestId('date-time-picker').props.onChange({ type: 'set' }, picked);
+
+      await waitFor(() => {
+        expect(mockUpdate).toHaveBeenCalledWith({ daily_reminder_time: '07:05' });
+        expect(mockRefreshProfile).toHaveBeenCalled();
+      });
+    });
+
+    it('hides the reminder time when daily reminders are off', async () => {
+      render(<SettingsScreen />);
+
+      fireEvent.press(screen.getByLabelText('Daily Reminders notifications'));
+
+      await waitFor(() => {
+        expect(screen.queryByLabelText('Change daily reminder time')).toBeNull();
+      });
+    });
+  });
+
   describe('About Section', () => {
     it('renders version info', () => {
       render(<SettingsScreen />);
@@ -0,0 +1,438 @@
+/**
+ * @fileoverview Tests for app/sponsee/[id].tsx
+ *
+ * Tests the sponsor's sponsee dashboard including:
+ * - Relationship guard
+ * - Streak and step progress
+ * - Overdue and upcoming tasks and recent notes
+ * - Shared step worksheet answers
+ * - The shared amends list
+ * - The shared check-in summary
+ * - Only showing what the sponsee shares
+ * - Navigation to messages and assigning a task
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import SponseeDashboardScreen from '@/app/sponsee/[id]';
+import {
+  fetchActiveRelationshipBetween,
+  fetchSharedAmends,
+  fetchSharedCheckIns,
+  fetchSharedSlipUps,
+  fetchSharedStepAnswers,
+  fetchSharedStepProgress,
+  fetchTasksBetween,
+} from '@/lib/repositories';
+import { useDaysSober } from '@/hooks/useDaysSober';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+const mockPush = jest.fn();
+
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: mockPush, back: jest.fn() }),
+  useLocalSearchParams: () => ({ id: 'sponsee-1' }),
+}));
+
+jest.mock('@react-navigation/native', () => {
+  const React = require('react');
+  return {
+    useFocusEffect: (cb: () => void) => React.useEffect(cb, []),
+  };
+});
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: { id: 'user-123', first_name: 'Test', last_initial: 'U' },
+  }),
+}));
+
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      textTertiary: '#9ca3af',
+      background: '#ffffff',
+      card: '#ffffff',
+      border: '#e5e7eb',
+      borderLight: '#f3f4f6',
+      success: '#10b981',
+      danger: '#ef4444',
+      dangerBorder: '#fecaca',
+      white: '#ffffff',
+      fontRegular: 'JetBrainsMono-Regular',
+    },
+  }),
+}));
+
+jest.mock('@/lib/date', () => ({
+  formatDateWithTimezone: jest.fn((date: Date) => date.toISOString().split('T')[0]),
+  parseDateAsLocal: jest.fn((str: string) => new Date(`${str}T12:00:00`)),
+  getUserTimezone: jest.fn(() => 'America/New_York'),
+  addDaysToDateString: jest.requireActual('@/lib/date').addDaysToDateString,
+}));
+
+jest.mock('@/lib/repositories', () => ({
+  fetchActiveRelationshipBetween: jest.fn(),
+  fetchSharedAmends: jest.fn(),
+  fetchSharedCheckIns: jest.fn(),
+  fetchSharedSlipUps: jest.fn(),
+  fetchSharedStepAnswers: jest.fn(),
+  fetchSharedStepProgress: jest.fn(),
+  fetchTasksBetween: jest.fn(),
+}));
+
+jest.mock('@/hooks/useDaysSober', () => ({
+  useDaysSober: jest.fn(),
+}));
+
+jest.mock('@/components/TaskCreationModal', () => {
+  const React = require('react');
+  return {
+    __esModule: true,
+    default: ({
+      visible,
+      preselectedSponseeId,
+    }: {
+      visible: boolean;
+      preselectedSponseeId: string;
+    }) =>
+      visible
+        ? React.createElement('View', { testID: `task-creation-modal-${preselectedSponseeId}` })
+        : null,
+  };
+});
+
+jest.mock('lucide-react-native', () => ({
+  AlertCircle: () => null,
+  Calendar: () => null,
+  Check: () => null,
+  ChevronLeft: () => null,
+  Heart: () => null,
+  MessageCircle: () => null,
+  Plus: () => null,
+}));
+
+// =============================================================================
+// Test Data & Helpers
+// =============================================================================
+const sponsee = {
+  id: 'sponsee-1',
+  first_name: 'Alex',
+  last_initial: 'P',
+  timezone: 'America/New_York',
+};
+
+const relationship = {
+  id: 'rel-1',
+  sponsor_id: 'user-123',
+  sponsee_id: 'sponsee-1',
+  status: 'active',
+  share_sobriety_date: true,
+  share_slip_ups: false,
+  share_slip_up_notes: false,
+  share_step_progress: true,
+  share_notes: true,
+  share_amends: false,
+  share_check_ins: false,
+  sponsee,
+};
+
+const tasks = [
+  {
+    id: 'task-1',
+    title: 'Call your sponsor',
+    status: 'assigned',
+    step_number: null,
+    due_date: '2020-01-05',
+    created_at: '2019-12-30T12:00:00Z',
+  },
+  {
+    id: 'task-2',
+    title: 'Write a gratitude list',
+    status: 'in_progress',
+    step_number: 3,
+    due_date: '2099-01-05',
+    created_at: '2020-01-01T12:00:00Z',
+  },
+  {
+    id: 'task-3',
+    title: 'Read chapter 5',
+    status: 'completed',
+    step_number: 1,
+    due_date: null,
+    created_at: '2019-12-01T12:00:00Z',
+    completed_at: '2019-12-10T12:00:00Z',
+    completion_notes: 'It helped to read it out loud',
+  },
+];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().split('T')[0];
+};
+
+const setup = ({
+  found = relationship as unknown,
+  sharing = {} as Partial<typeof relationship>,
+} = {}) => {
+  (fetchActiveRelationshipBetween as jest.Mock).mockResolvedValue(
+    found ? { ...(found as object), ...sharing } : null
+  );
+  (fetchTasksBetween as jest.Mock).mockResolvedValue(tasks);
+  (fetchSharedStepProgress as jest.Mock).mockResolvedValue([
+    { step_number: 1, completed: true },
+    { step_number: 2, completed: true },
+  ]);
+  (fetchSharedStepAnswers as jest.Mock).mockResolvedValue([
+    {
+      id: 'answer-1',
+      step_number: 1,
+      prompt_index: 0,
+      prompt: 'When did you first notice you had lost control?',
+      answer: 'At the office party',
+      shared: true,
+    },
+  ]);
+  (fetchSharedAmends as jest.Mock).mockResolvedValue([
+    {
+      id: 'amends-1',
+      person: 'My brother',
+      harm: 'Borrowed money and never paid it back',
+      status: 'made',
+      deferred_reason: '',
+      made_at: '2024-03-10T12:00:00Z',
+    },
+    {
+      id: 'amends-2',
+      person: 'My ex-partner',
+      harm: 'Lied for years',
+      status: 'deferred',
+      deferred_reason: 'Contact would reopen old wounds for their family',
+      made_at: null,
+    },
+  ]);
+  (fetchSharedCheckIns as jest.Mock).mockResolvedValue([
+    { check_in_date: daysAgo(0), mood: 4, hungry: false, angry: true, lonely: false, tired: true },
+    { check_in_date: daysAgo(1), mood: 3, hungry: false, angry: false, lonely: false, tired: true },
+    {
+      check_in_date: daysAgo(3),
+      mood: 5,
+      hungry: false,
+      angry: false,
+      lonely: false,
+      tired: false,
+    },
+  ]);
+  (fetchSharedSlipUps as jest.Mock).mockResolvedValue([
+    {
+      id: 'slip-1',
+      slip_up_date: '2024-03-01',
+      recovery_restart_date: '2024-03-02',
+      notes: 'Stressful week at work',
+    },
+  ]);
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('SponseeDashboardScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useDaysSober as jest.Mock).mockReturnValue({
+      daysSober: 120,
+      journeyDays: 400,
+      hasSlipUps: true,
+      currentStreakStartDate: '2024-03-02',
+    });
+  });
+
+  it('only shows the dashboard to the active sponsor', async () => {
+    setup({ found: { ...relationship, sponsor_id: 'sponsee-1', sponsee_id: 'user-123' } });
+
+    render(<SponseeDashboardScreen />);
+
+    expect(
+      await screen.findByText('You can only view the dashboard of your active sponsees.')
+    ).toBeTruthy();
+    expect(fetchTasksBetween).not.toHaveBeenCalled();
+  });
+
+  it('shows an error when there is no active relationship', async () => {
+    setup({ found: null });
+
+    render(<SponseeDashboardScreen />);
+
+    expect(
+      await screen.findByText('You can only view the dashboard of your active sponsees.')
+    ).toBeTruthy();
+  });
+
+  it('shows the streak and step progress', async () => {
+    setup();
+
+    render(<SponseeDashboardScreen />);
+
+    expect(await screen.findByText('Alex P.')).toBeTruthy();
+    expect(screen.getByText('120')).toBeTruthy();
+    expect(screen.getByText('Current streak since Mar 2, 2024')).toBeTruthy();
+    expect(screen.getByText('400 days on the journey')).toBeTruthy();
+    expect(screen.getByText('2 of 12 steps completed')).toBeTruthy();
+    expect(screen.getByLabelText('Step 2 completed')).toBeTruthy();
+    expect(screen.getByLabelText('Step 3 not completed')).toBeTruthy();
+    expect(useDaysSober).toHaveBeenCalledWith('sponsee-1');
+  });
+
+  it('splits open tasks into overdue and upcoming and shows recent notes', async () => {
+    setup();
+
+    render(<SponseeDashboardScreen />);
+
+    expect(await screen.findByText('Overdue (1)')).toBeTruthy();
+    expect(screen.getByText('Due Jan 5, 2020')).toBeTruthy();
+    expect(screen.getByText('Upcoming (1)')).toBeTruthy();
+    expect(screen.getByText('Step 3 · Due Jan 5, 2099 · In progress')).toBeTruthy();
+    expect(screen.getByText('It helped to read it out loud')).toBeTruthy();
+    expect(fetchTasksBetween).toHaveBeenCalledWith('user-123', 'sponsee-1');
+  });
+
+  it('shows the worksheet answers the sponsee shares', async () => {
+    setup();
+
+    render(<SponseeDashboardScreen />);
+
+    expect(await screen.findByText('At the office party')).toBeTruthy();
+    expect(screen.getByText('When did you first notice you had lost control?')).toBeTruthy();
+    expect(fetchSharedStepAnswers).toHaveBeenCalledWith('sponsee-1');
+  });
+
+  it('hides the amends list the sponsee has not shared', async () => {
+    setup();
+
+    render(<SponseeDashboardScreen />);
+
+    expect(
+      await screen.findByText('Alex P. has not chosen to share their amends list.')
+    ).toBeTruthy();
+    expect(fetchSharedAmends).not.toHaveBeenCalled();
+  });
+
+  it('shows the amends list when the sponsee shares it', async () => {
+    setup({ sharing: { share_amends: true } });
+
+    render(<SponseeDashboardScreen />);
+
+    expect(await screen.findByText('My brother')).toBeTruthy();
+    expect(screen.getByText('Made Mar 10, 2024')).toBeTruthy();
+    expect(screen.getByText('Deferred')).toBeTruthy();
+    expect(screen.getByText('Contact would reopen old wounds for their family')).toBeTruthy();
+    expect(fetchSharedAmends).toHaveBeenCalledWith('sponsee-1');
+  });
+
+  it('hides check-ins the sponsee has not shared', async () => {
+    setup();
+
+    render(<SponseeDashboardScreen />);
+
+    expect(
+      await screen.findByText('Alex P. has not chosen to share their check-ins.')
+    ).toBeTruthy();
+    expect(fetchSharedCheckIns).not.toHaveBeenCalled();
+  });
+
+  it('summarizes check-ins when the sponsee shares them', async () => {
+    setup({ sharing: { share_check_ins: true } });
+
+    render(<SponseeDashboardScreen />);
+
+    expect(await screen.findByText('2-day check-in streak')).toBeTruthy();
+    expect(screen.getByText('Checked in 3 of the last 7 days')).toBeTruthy();
+    expect(screen.getByText('Average mood: Good')).toBeTruthy();
+    expect(screen.getByText('HALT: Angry 1, Tired 2')).toBeTruthy();
+    expect(fetchSharedCheckIns).toHaveBeenCalledWith('sponsee-1');
+  });
+
+  it('hides slip-ups the sponsee has not shared', async () => {
+    setup();
+
+    render(<SponseeDashboardScreen />);
+
+    expect(
+      await screen.findByText('Alex P. has not chosen to share their slip-up history.')
+    ).toBeTruthy();
+    expect(fetchSharedSlipUps).not.toHaveBeenCalled();
+    expect(screen.queryByText('Stressful week at work')).toBeNull();
+  });
+
+  it('shows slip-up history when the sponsee shares it', async () => {
+    setup({ sharing: { share_slip_ups: true, share_slip_up_notes: true } });
+
+    render(<SponseeDashboardScreen />);
+
+    expect(await screen.findByText('Stressful week at work')).toBeTruthy();
+    expect(screen.getByText('Mar 1, 2024')).toBeTruthy();
+    expect(screen.getByText('Restarted Mar 2, 2024')).toBeTruthy();
+    expect(fetchSharedSlipUps).toHaveBeenCalledWith('sponsee-1');
+  });
+
+  it('leaves out slip-up notes the sponsee has not shared', async () => {
+    setup({ sharing: { share_slip_ups: true } });
+
+    render(<SponseeDashboardScreen />);
+
+    expect(await screen.findByText('Restarted Mar 2, 2024')).toBeTruthy();
+    expect(screen.queryByText('Stressful week at work')).toBeNull();
+  });
+
+  it('hides the streak, step progress and notes the sponsee has not shared', async () => {
+    setup({
+      sharing: { share_sobriety_date: false, share_step_progress: false, share_notes: false },
+    });
+
+    render(<SponseeDashboardScreen />);
+
+    expect(
+      await screen.findByText('Alex P. has not chosen to share their sobriety date.')
+    ).toBeTruthy();
+    expect(screen.getByText('Alex P. has not chosen to share their step progress.')).toBeTruthy();
+    expect(screen.getByText('Alex P. has not chosen to share their notes.')).toBeTruthy();
+    expect(screen.queryByText('120')).toBeNull();
+    expect(screen.queryByText('It helped to read it out loud')).toBeNull();
+    expect(
+      screen.getByText('Alex P. has not chosen to share their step reflections.')
+    ).toBeTruthy();
+    expect(fetchSharedStepProgress).not.toHaveBeenCalled();
+    expect(fetchSharedStepAnswers).not.toHaveBeenCalled();
+    // Tasks are still listed without their notes
+    expect(screen.getByText('Overdue (1)')).toBeTruthy();
+  });
+
+  it('opens the message thread and the task creation modal', async () => {
+    setup();
+
+    render(<SponseeDashboardScreen />);
+
+    fireEvent.press(await screen.findByLabelText('Message Alex P.'));
+    expect(mockPush).toHaveBeenCalledWith('/messages/sponsee-1');
+
+    fireEvent.press(screen.getByLabelText('Assign a task to Alex P.'));
+    expect(screen.getByTestId('task-creation-modal-sponsee-1')).toBeTruthy();
+  });
+
+  it('shows an error when progress fails to load', async () => {
+    setup();
+    (fetchTasksBetween as jest.Mock).mockRejectedValue(new Error('boom'));
+
+    render(<SponseeDashboardScreen />);
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to load sponsee progress')).toBeTruthy();
+    });
+  });
+});
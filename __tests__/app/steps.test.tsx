@@ -6,62 +6,45 @@
  * - Step list rendering
  * - Step completion toggling
  * - Modal interactions
+ * - The step worksheet
+ * - The links to the Step 4 inventory and the amends list
  */
 
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
 import StepsScreen from '@/app/(tabs)/steps';
 import { StepContent } from '@/types/database';
+import {
+  completeStep,
+  fetchStepAnswers,
+  fetchStepProgress,
+  fetchStepsContent,
+  uncompleteStep,
+} from '@/lib/repositories';
+import { clearSyncQueue, getPendingMutations } from '@/lib/offline';
 
 // =============================================================================
 // Mocks
 // =============================================================================
 
-// Mock supabase - simpler approach
-let mockStepsData: StepContent[] | null = null;
-let mockStepsError: Error | null = null;
-let mockProgressData: unknown[] = [];
-
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
-    from: jest.fn((table: string) => {
-      if (table === 'steps_content') {
-        return {
-          select: jest.fn().mockReturnValue({
-            order: jest
-              .fn()
-              .mockImplementation(() =>
-                Promise.resolve({ data: mockStepsData, error: mockStepsError })
-              ),
-          }),
-        };
-      }
-      if (table === 'user_step_progress') {
-        return {
-          select: jest.fn().mockReturnValue({
-            eq: jest
-              .fn()
-              .mockImplementation(() => Promise.resolve({ data: mockProgressData, error: null })),
-          }),
-          insert: jest.fn().mockReturnValue({
-            select: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({ data: { id: 'new-progress' }, error: null }),
-            }),
-          }),
-          delete: jest.fn().mockReturnValue({
-            eq: jest.fn().mockResolvedValue({ error: null }),
-          }),
-        };
-      }
-      return {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        order: jest.fn().mockResolvedValue({ data: [], error: null }),
-      };
-    }),
-  },
+// Mock repositories - steps content and progress go through the data-access layer
+jest.mock('@/lib/repositories', () => ({
+  fetchStepsContent: jest.fn(),
+  fetchStepProgress: jest.fn(),
+  completeStep: jest.fn(),
+  uncompleteStep: jest.fn(),
+  fetchStepAnswers: jest.fn(),
+  fetchStepAnswerRevisions: jest.fn(),
+  saveStepAnswers: jest.fn(),
+  setStepAnswerShared: jest.fn(),
 }));
 
+const mockFetchStepsContent = fetchStepsContent as jest.Mock;
+const mockFetchStepProgress = fetchStepProgress as jest.Mock;
+const mockCompleteStep = completeStep as jest.Mock;
+const mockUncompleteStep = uncompleteStep as jest.Mock;
+const mockFetchStepAnswers = fetchStepAnswers as jest.Mock;
+
 // Mock ThemeContext
 jest.mock('@/contexts/ThemeContext', () => ({
   useTheme: () => ({
@@ -101,11 +84,24 @@ jest.mock('@/contexts/AuthContext', () => ({
   }),
 }));
 
+// Mock expo-router
+const mockPush = jest.fn();
+
+jest.mock('expo-router', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    back: jest.fn(),
+  }),
+}));
+
 // Mock lucide-react-native icons
 jest.mock('lucide-react-native', () => ({
   X: () => null,
   CheckCircle: () => null,
   Circle: () => null,
+  ClipboardList: () => null,
+  CloudOff: () => null,
+  RefreshCw: () => null,
 }));
 
 // Mock logger
@@ -163,9 +159,18 @@ describe('StepsScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     // Default mock setup: steps load successfully with no progress
-    mockStepsData = mockSteps;
-    mockStepsError = null;
-    mockProgressData = [];
+    mockFetchStepsContent.mockResolvedValue(mockSteps);
+    mockFetchStepProgress.mockResolvedValue([]);
+    mockCompleteStep.mockResolvedValue({ id: 'new-progress', step_number: 1, completed: true });
+    mockUncompleteStep.mockResolvedValue(undefined);
+    mockFetchStepAnswers.mockResolvedValue([]);
+  });
+
+  afterEach(async () => {
+    await clearSyncQueue();
+    jest
+      .requireMock('@react-native-async-storage/async-storage')
+      .getItem.mockImplementation(() => Promise.resolve(null));
   });
 
   describe('loading state', () => {
@@ -179,8 +184,7 @@ describe('StepsScreen', () => {
 
   describe('error state', () => {
     it('shows error message when fetch fails', async () => {
-      mockStepsData = null;
-      mockStepsError = new Error('Network error');
+      mockFetchStepsContent.mockRejectedValue(new Error('Network error'));
 
       render(<StepsScreen />);
 
@@ -190,8 +194,7 @@ describe('StepsScreen', () => {
     });
 
     it('shows retry button when error occurs', async () => {
-      mockStepsData = null;
-      mockStepsError = new Error('Network error');
+      mockFetchStepsContent.mockRejectedValue(new Error('Network error'));
 
       render(<StepsScreen />);
 
@@ -203,7 +206,7 @@ describe('StepsScreen', () => {
 
   describe('empty state', () => {
     it('shows empty message when no steps available', async () => {
-      mockStepsData = [];
+      mockFetchStepsContent.mockResolvedValue([]);
 
       render(<StepsScreen />);
 
@@ -298,6 +301,80 @@ describe('StepsScreen', () => {
       });
     });
 
+    it("opens the step's worksheet with the saved answers", async () => {
+      mockFetchStepAnswers.mockResolvedValue([
+        {
+          id: 'answer-1',
+          user_id: 'user-123',
+          step_number: 1,
+          prompt_index: 0,
+          prompt: 'What does powerlessness mean to you?',
+          answer: 'I could not stop once I started',
+          shared: false,
+        },
+      ]);
+      render(<StepsScreen />);
+
+      fireEvent.press(await screen.findByText('We admitted we were powerless'));
+
+      expect(await screen.findByDisplayValue('I could not stop once I started')).toBeTruthy();
+      expect(mockFetchStepAnswers).toHaveBeenCalledWith('user-123', 1);
+      expect(screen.getByLabelText('Answer to: What does powerlessness mean to you?')).toBeTruthy();
+    });
+
+    it('links Step 4 to the inventory', async () => {
+      mockFetchStepsContent.mockResolvedValue([
+        ...mockSteps,
+        {
+          id: 'step-4',
+          step_number: 4,
+          title: 'Made a searching and fearless moral inventory',
+          description: 'Taking inventory',
+          detailed_content: 'Detailed content for step 4',
+          reflection_prompts: [],
+          created_at: '2024-01-01T00:00:00Z',
+        },
+      ]);
+      render(<StepsScreen />);
+
+      fireEvent.press(await screen.findByText('Made a searching and fearless moral inventory'));
+      fireEvent.press(await screen.findByText('Open Step 4 Inventory'));
+
+      expect(mockPush).toHaveBeenCalledWith('/inventory');
+    });
+
+    it('links Steps 8 and 9 to the amends list', async () => {
+      mockFetchStepsContent.mockResolvedValue([
+        ...mockSteps,
+        {
+          id: 'step-9',
+          step_number: 9,
+          title: 'Made direct amends',
+          description: 'Making amends',
+          detailed_content: 'Detailed content for step 9',
+          reflection_prompts: [],
+          created_at: '2024-01-01T00:00:00Z',
+        },
+      ]);
+      render(<StepsScreen />);
+
+      fireEvent.press(await screen.findByText('Made direct amends'));
+      fireEvent.press(await screen.findByText('Open Amends List'));
+
+      expect(mockPush).toHaveBeenCalledWith('/amends');
+      expect(screen.queryByText('Open Step 4 Inventory')).toBeNull();
+    });
+
+    it('does not link other steps to the inventory or amends list', async () => {
+      render(<StepsScreen />);
+
+      fireEvent.press(await screen.findByText('We admitted we were powerless'));
+
+      expect(await screen.findByText('Understanding This Step')).toBeTruthy();
+      expect(screen.queryByText('Open Step 4 Inventory')).toBeNull();
+      expect(screen.queryByText('Open Amends List')).toBeNull();
+    });
+
     it('shows mark as complete button in modal', async () => {
       render(<StepsScreen />);
 
@@ -316,21 +393,19 @@ describe('StepsScreen', () => {
   describe('step completion', () => {
     it('shows completed badge for completed steps', async () => {
       // Mock progress for step 1
-      mockProgressData = [
+      mockFetchStepProgress.mockResolvedValue([
         { id: 'progress-1', step_number: 1, user_id: 'user-123', completed: true },
-      ];
+      ]);
 
       render(<StepsScreen />);
 
       await waitFor(() => {
         expect(screen.getByText('Completed')).toBeTruthy();
       });
+      expect(mockFetchStepProgress).toHaveBeenCalledWith('user-123');
     });
 
     it('toggles step to complete when Mark as Complete is pressed', async () => {
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      mockProgressData = [];
-
       render(<StepsScreen />);
 
       await waitFor(() => {
@@ -347,18 +422,19 @@ describe('StepsScreen', () => {
       // Press mark as complete
       fireEvent.press(screen.getByText('Mark as Complete'));
 
-      // Should call supabase insert
       await waitFor(() => {
-        expect(supabase.from).toHaveBeenCalledWith('user_step_progress');
+        expect(mockCompleteStep).toHaveBeenCalledWith('user-123', 1, expect.any(String));
+      });
+      await waitFor(() => {
+        expect(screen.getByText('Marked as Complete')).toBeTruthy();
       });
     });
 
     it('toggles step to incomplete when Marked as Complete button is pressed', async () => {
-      const { supabase } = jest.requireMock('@/lib/supabase');
       // Mock progress for step 1 (already completed)
-      mockProgressData = [
+      mockFetchStepProgress.mockResolvedValue([
         { id: 'progress-1', step_number: 1, user_id: 'user-123', completed: true },
-      ];
+      ]);
 
       render(<StepsScreen />);
 
@@ -377,170 +453,91 @@ describe('StepsScreen', () => {
       // Press the toggle button (will uncomplete it)
       fireEvent.press(screen.getByText('Marked as Complete'));
 
-      // Should call supabase delete
       await waitFor(() => {
-        expect(supabase.from).toHaveBeenCalledWith('user_step_progress');
+        expect(mockUncompleteStep).toHaveBeenCalledWith('user-123', 1);
+      });
+      await waitFor(() => {
+        expect(screen.getByText('Mark as Complete')).toBeTruthy();
       });
     });
   });
 
   describe('error handling', () => {
-    it('logs error when progress fetch fails', async () => {
-      const { logger } = jest.requireMock('@/lib/logger');
-
-      // Reset the mock to return an error for progress
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'steps_content') {
-          return {
-            select: jest.fn().mockReturnValue({
-              order: jest.fn().mockResolvedValue({ data: mockSteps, error: null }),
-            }),
-          };
-        }
-        if (table === 'user_step_progress') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest
-                .fn()
-                .mockResolvedValue({ data: null, error: new Error('Progress fetch failed') }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-        };
-      });
+    it('still renders steps when progress fetch fails', async () => {
+      mockFetchStepProgress.mockRejectedValue(new Error('Progress fetch failed'));
 
       render(<StepsScreen />);
 
       await waitFor(() => {
-        expect(logger.error).toHaveBeenCalledWith(
-          'Step progress fetch failed',
-          expect.any(Error),
-          expect.objectContaining({ category: 'database' })
-        );
+        expect(screen.getByText('We admitted we were powerless')).toBeTruthy();
       });
+      expect(screen.queryByText('Completed')).toBeNull();
     });
 
-    it('handles exception in progress fetch', async () => {
-      const { logger } = jest.requireMock('@/lib/logger');
-
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'steps_content') {
-          return {
-            select: jest.fn().mockReturnValue({
-              order: jest.fn().mockResolvedValue({ data: mockSteps, error: null }),
-            }),
-          };
-        }
-        if (table === 'user_step_progress') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockRejectedValue(new Error('Network error')),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-        };
-      });
+    it('shows the steps saved earlier when the fetch fails', async () => {
+      const AsyncStorage = jest.requireMock('@react-native-async-storage/async-storage');
+      AsyncStorage.getItem.mockImplementation((key: string) =>
+        Promise.resolve(
+          key === 'offline_cache:steps_content'
+            ? JSON.stringify({ value: mockSteps, cachedAt: '2024-01-01T00:00:00Z' })
+            : null
+        )
+      );
+      mockFetchStepsContent.mockRejectedValue(new Error('Network error'));
 
       render(<StepsScreen />);
 
       await waitFor(() => {
-        expect(logger.error).toHaveBeenCalledWith(
-          'Step progress fetch exception',
-          expect.any(Error),
-          expect.objectContaining({ category: 'database' })
-        );
+        expect(screen.getByText('We admitted we were powerless')).toBeTruthy();
       });
+      expect(screen.queryByText('Failed to load steps content')).toBeNull();
     });
 
-    it('handles exception in steps fetch', async () => {
-      const { logger } = jest.requireMock('@/lib/logger');
-
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'steps_content') {
-          return {
-            select: jest.fn().mockReturnValue({
-              order: jest.fn().mockRejectedValue(new Error('Steps fetch exception')),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
-      });
+    it('leaves progress unchanged when step completion fails', async () => {
+      mockCompleteStep.mockRejectedValue(new Error('Insert failed'));
 
       render(<StepsScreen />);
 
       await waitFor(() => {
-        expect(screen.getByText('An unexpected error occurred')).toBeTruthy();
-        expect(logger.error).toHaveBeenCalledWith(
-          'Steps content fetch exception',
-          expect.any(Error),
-          expect.objectContaining({ category: 'database' })
-        );
+        expect(screen.getByText('We admitted we were powerless')).toBeTruthy();
       });
-    });
 
-    it('handles error in step completion toggle', async () => {
-      const { logger } = jest.requireMock('@/lib/logger');
-      mockProgressData = [];
-
-      const { supabase } = jest.requireMock('@/lib/supabase');
-      supabase.from.mockImplementation((table: string) => {
-        if (table === 'steps_content') {
-          return {
-            select: jest.fn().mockReturnValue({
-              order: jest.fn().mockResolvedValue({ data: mockSteps, error: null }),
-            }),
-          };
-        }
-        if (table === 'user_step_progress') {
-          return {
-            select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({ data: [], error: null }),
-            }),
-            insert: jest.fn().mockReturnValue({
-              select: jest.fn().mockReturnValue({
-                single: jest.fn().mockRejectedValue(new Error('Insert failed')),
-              }),
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-        };
+      // Open step modal
+      fireEvent.press(screen.getByText('We admitted we were powerless'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Mark as Complete')).toBeTruthy();
       });
 
-      render(<StepsScreen />);
+      // Press mark as complete (will fail)
+      fireEvent.press(screen.getByText('Mark as Complete'));
 
       await waitFor(() => {
-        expect(screen.getByText('We admitted we were powerless')).toBeTruthy();
+        expect(mockCompleteStep).toHaveBeenCalled();
       });
+      expect(screen.getByText('Mark as Complete')).toBeTruthy();
+    });
+  });
 
-      // Open step modal
-      fireEvent.press(screen.getByText('We admitted we were powerless'));
+  describe('offline', () => {
+    it('queues the completion and shows it when the device is offline', async () => {
+      mockCompleteStep.mockRejectedValue(new Error('TypeError: Network request failed'));
+
+      render(<StepsScreen />);
 
       await waitFor(() => {
-        expect(screen.getByText('Mark as Complete')).toBeTruthy();
+        expect(screen.getByText('We admitted we were powerless')).toBeTruthy();
       });
 
-      // Press mark as complete (will fail)
+      fireEvent.press(screen.getByText('We admitted we were powerless'));
       fireEvent.press(screen.getByText('Mark as Complete'));
 
       await waitFor(() => {
-        expect(logger.error).toHaveBeenCalledWith(
-          'Step completion toggle failed',
-          expect.any(Error),
-          expect.objectContaining({ category: 'database' })
-        );
+        expect(screen.getByText('Marked as Complete')).toBeTruthy();
       });
+      await expect(getPendingMutations()).resolves.toEqual([
+        expect.objectContaining({ type: 'complete_step', userId: 'user-123', stepNumber: 1 }),
+      ]);
     });
   });
 });
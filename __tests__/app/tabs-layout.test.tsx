@@ -75,6 +75,18 @@ jest.mock('lucide-react-native', () => ({
   User: () => null,
 }));
 
+// Mock unread notification count
+const mockUnreadCount = jest.fn(() => 0);
+jest.mock('@/hooks/useUnreadNotifications', () => ({
+  useUnreadNotifications: () => ({ unreadCount: mockUnreadCount(), refresh: jest.fn() }),
+}));
+
+// Mock local notification scheduling
+const mockUseLocalNotificationSchedule = jest.fn();
+jest.mock('@/hooks/useLocalNotificationSchedule', () => ({
+  useLocalNotificationSchedule: () => mockUseLocalNotificationSchedule(),
+}));
+
 // Mock AnimatedBottomNav
 jest.mock('@/components/AnimatedBottomNav', () => {
   const React = require('react');
@@ -88,7 +100,7 @@ jest.mock('@/components/AnimatedBottomNav', () => {
       onActiveIndexChange,
       accentColor,
     }: {
-      items: { label: string; icon: unknown; onPress: () => void }[];
+      items: { label: string; icon: unknown; onPress: () => void; badgeCount?: number }[];
       activeIndex: number;
       onActiveIndexChange: (index: number) => void;
       accentColor: string;
@@ -96,20 +108,28 @@ jest.mock('@/components/AnimatedBottomNav', () => {
       React.createElement(
         View,
         { testID: 'animated-bottom-nav' },
-        items.map((item: { label: string; onPress: () => void }, idx: number) =>
-          React.createElement(
-            TouchableOpacity,
-            {
-              key: item.label,
-              testID: `nav-item-${item.label.toLowerCase()}`,
-              onPress: () => {
-                item.onPress();
-                onActiveIndexChange(idx);
+        items.map(
+          (item: { label: string; onPress: () => void; badgeCount?: number }, idx: number) =>
+            React.createElement(
+              TouchableOpacity,
+              {
+                key: item.label,
+                testID: `nav-item-${item.label.toLowerCase()}`,
+                onPress: () => {
+                  item.onPress();
+                  onActiveIndexChange(idx);
+                },
+                style: { backgroundColor: idx === activeIndex ? accentColor : 'transparent' },
               },
-              style: { backgroundColor: idx === activeIndex ? accentColor : 'transparent' },
-            },
-            React.createElement(Text, null, item.label)
-          )
+              React.createElement(Text, null, item.label),
+              item.badgeCount
+                ? React.createElement(
+                    Text,
+                    { testID: `nav-badge-${item.label.toLowerCase()}` },
+                    item.badgeCount
+                  )
+                : null
+            )
         )
       ),
   };
@@ -123,6 +143,7 @@ describe('TabLayout', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockUsePathname.mockReturnValue('/');
+    mockUnreadCount.mockReturnValue(0);
   });
 
   describe('rendering', () => {
@@ -248,4 +269,29 @@ describe('TabLayout', () => {
       expect(profileTab.props.style.backgroundColor).toBe('#007AFF');
     });
   });
+
+  describe('notification badge', () => {
+    it('shows the unread count on the Home tab', () => {
+      mockUnreadCount.mockReturnValue(4);
+
+      render(<TabLayout />);
+
+      expect(screen.getByTestId('nav-badge-home').props.children).toBe(4);
+      expect(screen.queryByTestId('nav-badge-tasks')).toBeNull();
+    });
+
+    it('hides the badge when everything is read', () => {
+      render(<TabLayout />);
+
+      expect(screen.queryByTestId('nav-badge-home')).toBeNull();
+    });
+  });
+
+  describe('local notifications', () => {
+    it('keeps the local notification schedule in sync', () => {
+      render(<TabLayout />);
+
+      expect(mockUseLocalNotificationSchedule).toHaveBeenCalled();
+    });
+  });
 });
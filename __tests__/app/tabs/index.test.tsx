@@ -4,14 +4,25 @@
  * Tests the main dashboard including:
  * - Rendering days sober
  * - Displaying relationships
- * - Task list
+ * - Pending connection requests
+ * - Task list and per-sponsee task counts
+ * - Daily check-in card
  * - Quick actions
  */
 
 import React from 'react';
-import { render, screen, waitFor } from '@testing-library/react-native';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
 import HomeScreen from '@/app/(tabs)/index';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { addDaysToDateString, formatDateWithTimezone } from '@/lib/date';
+import {
+  fetchCheckIns,
+  fetchPendingRelationships,
+  fetchRecentAssignedTasks,
+  fetchSponseeRelationships,
+  fetchSponsorRelationships,
+  fetchTaskStatuses,
+} from '@/lib/repositories';
 
 // =============================================================================
 // Mocks
@@ -39,9 +50,10 @@ jest.mock('@/hooks/useDaysSober', () => ({
   }),
 }));
 
+const mockPush = jest.fn();
 jest.mock('expo-router', () => ({
   useRouter: () => ({
-    push: jest.fn(),
+    push: mockPush,
     replace: jest.fn(),
   }),
 }));
@@ -63,12 +75,15 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
   setItem: jest.fn().mockResolvedValue(undefined),
 }));
 
-// Mock supabase
-const mockFrom = jest.fn();
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
-    from: (...args: unknown[]) => mockFrom(...args),
-  },
+// Mock repositories
+jest.mock('@/lib/repositories', () => ({
+  fetchSponseeRelationships: jest.fn(),
+  fetchSponsorRelationships: jest.fn(),
+  fetchRecentAssignedTasks: jest.fn(),
+  fetchPendingRelationships: jest.fn(),
+  fetchTaskStatuses: jest.fn(),
+  fetchCheckIns: jest.fn(),
+  endRelationship: jest.fn(),
 }));
 
 // Mock lucide-react-native
@@ -81,6 +96,11 @@ jest.mock('lucide-react-native', () => ({
   Plus: () => null,
   BookOpen: () => null,
   ClipboardList: () => null,
+  MessageCircle: () => null,
+  Bell: () => null,
+  Clock: () => null,
+  Flame: () => null,
+  Moon: () => null,
 }));
 
 // Mock TaskCreationModal
@@ -92,6 +112,7 @@ jest.mock('@/components/TaskCreationModal', () => {
 
 // Mock date utility
 jest.mock('@/lib/date', () => ({
+  ...jest.requireActual('@/lib/date'),
   parseDateAsLocal: (dateString: string) => new Date(dateString),
 }));
 
@@ -111,13 +132,13 @@ describe('HomeScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
-    // Default mock for supabase queries
-    mockFrom.mockImplementation(() => ({
-      select: jest.fn().mockReturnThis(),
-      eq: jest.fn().mockReturnThis(),
-      order: jest.fn().mockReturnThis(),
-      limit: jest.fn().mockResolvedValue({ data: [], error: null }),
-    }));
+    // Default: no relationships or tasks
+    (fetchSponseeRelationships as jest.Mock).mockResolvedValue([]);
+    (fetchSponsorRelationships as jest.Mock).mockResolvedValue([]);
+    (fetchRecentAssignedTasks as jest.Mock).mockResolvedValue([]);
+    (fetchPendingRelationships as jest.Mock).mockResolvedValue([]);
+    (fetchTaskStatuses as jest.Mock).mockResolvedValue([]);
+    (fetchCheckIns as jest.Mock).mockResolvedValue([]);
   });
 
   describe('rendering', () => {
@@ -154,7 +175,8 @@ describe('HomeScreen', () => {
       renderWithTheme(<HomeScreen />);
 
       await waitFor(() => {
-        expect(mockFrom).toHaveBeenCalledWith('sponsor_sponsee_relationships');
+        expect(fetchSponseeRelationships).toHaveBeenCalledWith('user-123');
+        expect(fetchSponsorRelationships).toHaveBeenCalledWith('user-123');
       });
     });
 
@@ -162,7 +184,154 @@ describe('HomeScreen', () => {
       renderWithTheme(<HomeScreen />);
 
       await waitFor(() => {
-        expect(mockFrom).toHaveBeenCalledWith('tasks');
+        expect(fetchRecentAssignedTasks).toHaveBeenCalledWith('user-123');
+      });
+    });
+  });
+
+  describe('connection requests', () => {
+    it('shows pending requests with accept and decline actions', async () => {
+      (fetchPendingRelationships as jest.Mock).mockResolvedValue([
+        {
+          id: 'req-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-9',
+          status: 'pending',
+          sponsee: { id: 'sponsee-9', first_name: 'Alex', last_initial: 'P' },
+        },
+      ]);
+
+      renderWithTheme(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Connection Requests')).toBeTruthy();
+      });
+      expect(fetchPendingRelationships).toHaveBeenCalledWith('user-123');
+      expect(screen.getByLabelText('Accept Alex P.')).toBeTruthy();
+      expect(screen.getByLabelText('Decline Alex P.')).toBeTruthy();
+    });
+
+    it('hides the card when there are no requests', async () => {
+      renderWithTheme(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(fetchPendingRelationships).toHaveBeenCalled();
+      });
+      expect(screen.queryByText('Connection Requests')).toBeNull();
+    });
+  });
+
+  describe('sponsees', () => {
+    it("opens a sponsee's dashboard", async () => {
+      (fetchSponseeRelationships as jest.Mock).mockResolvedValue([
+        {
+          id: 'rel-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-9',
+          status: 'active',
+          connected_at: '2024-02-01T00:00:00Z',
+          sponsee: { id: 'sponsee-9', first_name: 'Alex', last_initial: 'P' },
+        },
+      ]);
+
+      renderWithTheme(<HomeScreen />);
+
+      fireEvent.press(await screen.findByLabelText('View progress for Alex P.'));
+
+      expect(mockPush).toHaveBeenCalledWith('/sponsee/sponsee-9');
+    });
+
+    it("shows each sponsee's started and completed tasks", async () => {
+      (fetchSponseeRelationships as jest.Mock).mockResolvedValue([
+        {
+          id: 'rel-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-9',
+          status: 'active',
+          connected_at: '2024-02-01T00:00:00Z',
+          sponsee: { id: 'sponsee-9', first_name: 'Alex', last_initial: 'P' },
+        },
+      ]);
+      (fetchTaskStatuses as jest.Mock).mockResolvedValue([
+        { sponsee_id: 'sponsee-9', status: 'in_progress' },
+        { sponsee_id: 'sponsee-9', status: 'completed' },
+        { sponsee_id: 'sponsee-9', status: 'assigned' },
+      ]);
+
+      renderWithTheme(<HomeScreen />);
+
+      expect(await screen.findByText('1/3 tasks completed · 1 in progress')).toBeTruthy();
+      expect(fetchTaskStatuses).toHaveBeenCalledWith('user-123', ['sponsee-9']);
+      expect(screen.queryByText('Overdue Tasks')).toBeNull();
+    });
+
+    it('rolls up overdue tasks across sponsees', async () => {
+      (fetchSponseeRelationships as jest.Mock).mockResolvedValue([
+        {
+          id: 'rel-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-9',
+          status: 'active',
+          connected_at: '2024-02-01T00:00:00Z',
+          sponsee: { id: 'sponsee-9', first_name: 'Alex', last_initial: 'P', timezone: 'UTC' },
+        },
+      ]);
+      (fetchTaskStatuses as jest.Mock).mockResolvedValue([
+        { sponsee_id: 'sponsee-9', status: 'assigned', due_date: '2020-01-01' },
+        { sponsee_id: 'sponsee-9', status: 'in_progress', due_date: '2020-01-02' },
+        { sponsee_id: 'sponsee-9', status: 'completed', due_date: '2020-01-01' },
+      ]);
+
+      renderWithTheme(<HomeScreen />);
+
+      expect(await screen.findByText('Overdue Tasks')).toBeTruthy();
+      expect(screen.getByText('2 overdue')).toBeTruthy();
+
+      fireEvent.press(screen.getByLabelText('View overdue tasks for Alex P.'));
+      expect(mockPush).toHaveBeenCalledWith('/sponsee/sponsee-9');
+    });
+  });
+
+  describe('recent tasks', () => {
+    it('labels tasks the user has started', async () => {
+      (fetchRecentAssignedTasks as jest.Mock).mockResolvedValue([
+        { id: 'task-1', title: 'Read chapter 5', step_number: 4, status: 'in_progress' },
+        { id: 'task-2', title: 'Call a newcomer', step_number: 12, status: 'assigned' },
+      ]);
+
+      renderWithTheme(<HomeScreen />);
+
+      expect(await screen.findByText('In Progress')).toBeTruthy();
+      expect(screen.getByText('New')).toBeTruthy();
+    });
+  });
+
+  describe('daily check-in', () => {
+    it('prompts a check-in when there is none today', async () => {
+      renderWithTheme(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Daily Check-In')).toBeTruthy();
+        expect(screen.getByText('Check in')).toBeTruthy();
+        expect(screen.getByText('0-day streak')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByLabelText('Check in for today'));
+      expect(mockPush).toHaveBeenCalledWith('/check-in');
+    });
+
+    it('shows the streak once the user has checked in today', async () => {
+      const today = formatDateWithTimezone(new Date());
+      (fetchCheckIns as jest.Mock).mockResolvedValue([
+        { id: 'c-1', check_in_date: today },
+        { id: 'c-2', check_in_date: addDaysToDateString(today, -1) },
+      ]);
+
+      renderWithTheme(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Checked in today')).toBeTruthy();
+        expect(screen.getByText('2-day streak')).toBeTruthy();
       });
     });
   });
@@ -177,4 +346,18 @@ describe('HomeScreen', () => {
       });
     });
   });
+
+  describe('header actions', () => {
+    it('opens the notification inbox', async () => {
+      renderWithTheme(<HomeScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Open notifications')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByLabelText('Open notifications'));
+
+      expect(mockPush).toHaveBeenCalledWith('/notifications');
+    });
+  });
 });
@@ -6,12 +6,16 @@
  * - Manage view (sponsor)
  * - Segmented control switching
  * - Task listing and filtering
+ * - Recurring tasks
+ * - Starting tasks and saving drafts
+ * - Sponsor reviews and the feedback thread
  */
 
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
 import TasksScreen from '@/app/(tabs)/tasks';
-import { Task, Profile } from '@/types/database';
+import { Task, TaskComment, TaskSeries, Profile } from '@/types/database';
+import { clearSyncQueue, getPendingMutations } from '@/lib/offline';
 
 // =============================================================================
 // Mocks
@@ -22,6 +26,12 @@ let mockMyTasks: Task[] = [];
 let mockManageTasks: Task[] = [];
 let mockSponsees: Profile[] = [];
 let mockPendingTasks: { id: string }[] = [];
+let mockNotesShared = true;
+let mockSeries: TaskSeries[] = [];
+let mockTaskComments: TaskComment[] = [];
+const mockRpc = jest.fn();
+const mockTaskUpdate = jest.fn();
+const mockCommentInsert = jest.fn();
 
 jest.mock('@/lib/supabase', () => ({
   supabase: {
@@ -32,7 +42,6 @@ jest.mock('@/lib/supabase', () => ({
             eq: jest.fn().mockImplementation((field: string, value: string) => {
               if (field === 'sponsee_id') {
                 return {
-                  order: jest.fn().mockResolvedValue({ data: mockMyTasks, error: null }),
                   neq: jest.fn().mockReturnValue({
                     limit: jest.fn().mockResolvedValue({ data: mockPendingTasks, error: null }),
                   }),
@@ -46,8 +55,16 @@ jest.mock('@/lib/supabase', () => ({
               return { order: jest.fn().mockResolvedValue({ data: [], error: null }) };
             }),
           }),
-          update: jest.fn().mockReturnValue({
-            eq: jest.fn().mockResolvedValue({ error: null }),
+          update: jest.fn((changes: Partial<Task>) => {
+            mockTaskUpdate(changes);
+            return {
+              eq: jest.fn((field: string, value: string) =>
+                Object.assign(Promise.resolve({ error: null }), {
+                  neq: jest.fn().mockResolvedValue({ error: null }),
+                  select: jest.fn().mockResolvedValue({ data: [{ id: value }], error: null }),
+                })
+              ),
+            };
           }),
           delete: jest.fn().mockReturnValue({
             eq: jest.fn().mockResolvedValue({ error: null }),
@@ -59,13 +76,51 @@ jest.mock('@/lib/supabase', () => ({
           select: jest.fn().mockReturnValue({
             eq: jest.fn().mockReturnValue({
               eq: jest.fn().mockResolvedValue({
-                data: mockSponsees.map((s) => ({ sponsee: s })),
+                data: mockSponsees.map((s) => ({
+                  sponsee: s,
+                  sponsee_id: s.id,
+                  share_notes: mockNotesShared,
+                })),
                 error: null,
               }),
             }),
           }),
         };
       }
+      if (table === 'task_series') {
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest
+              .fn()
+              .mockImplementation((field: 'sponsor_id' | 'sponsee_id', value: string) => ({
+                order: jest.fn().mockResolvedValue({
+                  data: mockSeries.filter((series) => series[field] === value),
+                  error: null,
+                }),
+              })),
+          }),
+        };
+      }
+      if (table === 'task_comments') {
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              order: jest.fn().mockResolvedValue({ data: mockTaskComments, error: null }),
+            }),
+          }),
+          insert: jest.fn((comment: Partial<TaskComment>) => {
+            mockCommentInsert(comment);
+            return {
+              select: jest.fn().mockReturnValue({
+                single: jest.fn().mockResolvedValue({
+                  data: { id: 'comment-new', created_at: '2024-03-05T12:00:00Z', ...comment },
+                  error: null,
+                }),
+              }),
+            };
+          }),
+        };
+      }
       if (table === 'notifications') {
         return {
           insert: jest.fn().mockResolvedValue({ error: null }),
@@ -77,6 +132,7 @@ jest.mock('@/lib/supabase', () => ({
         order: jest.fn().mockResolvedValue({ data: [], error: null }),
       };
     }),
+    rpc: (...args: unknown[]) => mockRpc(...args),
   },
 }));
 
@@ -130,6 +186,12 @@ jest.mock('lucide-react-native', () => ({
   Plus: () => null,
   Clock: () => null,
   Trash2: () => null,
+  Repeat: () => null,
+  Play: () => null,
+  Pencil: () => null,
+  MessageSquare: () => null,
+  CloudOff: () => null,
+  RefreshCw: () => null,
 }));
 
 // Mock SegmentedControl
@@ -191,7 +253,9 @@ jest.mock('@/lib/logger', () => ({
 
 // Mock date and format libs
 jest.mock('@/lib/date', () => ({
+  ...jest.requireActual('@/lib/date'),
   parseDateAsLocal: jest.fn((str: string) => new Date(str)),
+  formatDateWithTimezone: jest.fn(() => '2024-03-05'),
 }));
 
 jest.mock('@/lib/format', () => ({
@@ -258,6 +322,24 @@ describe('TasksScreen', () => {
     mockManageTasks = [];
     mockSponsees = [];
     mockPendingTasks = [{ id: 'task-1' }]; // Has pending tasks, so defaults to My Tasks
+    mockNotesShared = true;
+    mockSeries = [];
+    mockTaskComments = [];
+    mockRpc.mockImplementation((fn: string) => {
+      if (fn === 'get_sponsor_tasks') {
+        return { select: jest.fn().mockResolvedValue({ data: mockManageTasks, error: null }) };
+      }
+      if (fn === 'get_assigned_tasks') {
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              order: jest.fn().mockResolvedValue({ data: mockMyTasks, error: null }),
+            }),
+          }),
+        };
+      }
+      return Promise.resolve({ data: 'task-new', error: null });
+    });
   });
 
   describe('rendering', () => {
@@ -514,6 +596,23 @@ describe('TasksScreen', () => {
       });
     });
 
+    it('flags overdue tasks and lists the most pressing first', async () => {
+      const [assigned] = createMockMyTasks();
+      mockMyTasks = [
+        { ...assigned, id: 'task-later', title: 'Later task', due_date: '2024-03-06' },
+        { ...assigned, id: 'task-late', title: 'Late task', due_date: '2024-03-01' },
+      ];
+
+      render(<TasksScreen />);
+
+      expect(await screen.findByText('Overdue by 4 days')).toBeTruthy();
+      expect(screen.getByText('Due tomorrow')).toBeTruthy();
+      expect(screen.getAllByText(/^Late(r)? task$/).map((node) => node.props.children)).toEqual([
+        'Late task',
+        'Later task',
+      ]);
+    });
+
     it('renders tasks with and without due dates correctly', async () => {
       render(<TasksScreen />);
 
@@ -882,6 +981,43 @@ describe('TasksScreen', () => {
         expect(screen.getByText('Read Big Book')).toBeTruthy();
       });
     });
+
+    it('shows completion notes from sponsees who share them', async () => {
+      mockManageTasks = [
+        {
+          ...mockManageTasks[0],
+          status: 'completed',
+          completed_at: '2024-02-01T00:00:00Z',
+          completion_notes: 'Finished chapter three',
+        },
+      ];
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Finished chapter three')).toBeTruthy();
+      });
+    });
+
+    it('hides completion notes from sponsees who do not share them', async () => {
+      mockNotesShared = false;
+      mockManageTasks = [
+        {
+          ...mockManageTasks[0],
+          status: 'completed',
+          completed_at: '2024-02-01T00:00:00Z',
+          completion_notes: 'Finished chapter three',
+        },
+      ];
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Read Big Book')).toBeTruthy();
+      });
+      expect(screen.queryByText('Finished chapter three')).toBeNull();
+      expect(screen.queryByText('Completion Notes:')).toBeNull();
+    });
   });
 
   describe('Manage View Empty States', () => {
@@ -995,6 +1131,250 @@ describe('TasksScreen', () => {
     });
   });
 
+  describe('Recurring Tasks', () => {
+    const weeklySeries = {
+      id: 'series-1',
+      sponsor_id: 'sponsor-123',
+      sponsee_id: 'user-123',
+      title: 'Read Step 1',
+      description: 'Read and reflect on Step 1',
+      step_number: 1,
+      recurrence: 'weekly',
+      interval_days: 7,
+      starts_on: '2024-02-27',
+      stopped_at: null,
+    } as TaskSeries;
+
+    it('shows how often a recurring task repeats', async () => {
+      mockSeries = [weeklySeries];
+      mockMyTasks = [{ ...createMockMyTasks()[0], series_id: 'series-1', due_date: '2024-03-05' }];
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Repeats weekly')).toBeTruthy();
+      });
+      expect(mockRpc).not.toHaveBeenCalledWith('create_series_occurrence', expect.anything());
+    });
+
+    it('creates the next occurrence once the current one is completed', async () => {
+      mockSeries = [weeklySeries];
+      mockMyTasks = [
+        {
+          ...createMockMyTasks()[0],
+          series_id: 'series-1',
+          due_date: '2024-03-05',
+          status: 'completed',
+          completed_at: '2024-03-05T10:00:00Z',
+        },
+      ];
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        expect(mockRpc).toHaveBeenCalledWith('create_series_occurrence', {
+          p_series_id: 'series-1',
+          p_due_date: '2024-03-12',
+        });
+      });
+    });
+
+    it('opens the series from a recurring task in the Manage view', async () => {
+      mockPendingTasks = [];
+      mockMyTasks = [];
+      mockSponsees = [
+        {
+          id: 'sponsee-1',
+          first_name: 'Jane',
+          last_initial: 'D',
+          sobriety_date: '2024-06-01',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+      ];
+      mockSeries = [{ ...weeklySeries, sponsor_id: 'user-123', sponsee_id: 'sponsee-1' }];
+      mockManageTasks = [
+        {
+          ...createMockMyTasks()[0],
+          id: 'manage-task-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-1',
+          series_id: 'series-1',
+          due_date: '2024-03-05',
+        },
+      ];
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Recurring task: Read Step 1')).toBeTruthy();
+      });
+      fireEvent.press(screen.getByLabelText('Recurring task: Read Step 1'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Recurring Task')).toBeTruthy();
+        expect(screen.getByText('Stop Repeating')).toBeTruthy();
+      });
+    });
+  });
+
+  describe('Task Drafts', () => {
+    it('starts a new task', async () => {
+      render(<TasksScreen />);
+
+      fireEvent.press(await screen.findByLabelText('Start Read Step 1'));
+
+      await waitFor(() => {
+        expect(mockTaskUpdate).toHaveBeenCalledWith({ status: 'in_progress', draft_notes: null });
+      });
+    });
+
+    it('resumes a started task from its draft and saves it again', async () => {
+      mockMyTasks = [
+        { ...createMockMyTasks()[0], status: 'in_progress', draft_notes: 'Powerless over' },
+      ];
+
+      render(<TasksScreen />);
+
+      expect(await screen.findByText('Powerless over')).toBeTruthy();
+      fireEvent.press(screen.getByText('Continue'));
+
+      const input = await screen.findByDisplayValue('Powerless over');
+      fireEvent.changeText(input, 'Powerless over alcohol');
+      fireEvent.press(screen.getByText('Save Draft'));
+
+      await waitFor(() => {
+        expect(mockTaskUpdate).toHaveBeenCalledWith({
+          status: 'in_progress',
+          draft_notes: 'Powerless over alcohol',
+        });
+      });
+    });
+
+    it('counts started tasks separately', async () => {
+      mockMyTasks = [{ ...createMockMyTasks()[0], status: 'in_progress', draft_notes: null }];
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        // In Progress labels the stat and the section
+        expect(screen.getAllByText('In Progress')).toHaveLength(2);
+      });
+      expect(screen.queryByText('New Tasks')).toBeNull();
+    });
+  });
+
+  describe('Task Reviews', () => {
+    const sponsee = {
+      id: 'sponsee-1',
+      first_name: 'Jane',
+      last_initial: 'D',
+      sobriety_date: '2024-06-01',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    } as Profile;
+
+    beforeEach(() => {
+      mockPendingTasks = [];
+      mockMyTasks = [];
+      mockSponsees = [sponsee];
+      mockManageTasks = [
+        {
+          id: 'manage-task-1',
+          sponsor_id: 'user-123',
+          sponsee_id: 'sponsee-1',
+          title: 'Read Big Book',
+          description: 'Read first 3 chapters',
+          status: 'completed',
+          completion_notes: 'It hit home',
+          completed_at: '2024-03-04T12:00:00Z',
+          reviewed_at: null,
+          returned_at: null,
+          due_date: null,
+          step_number: 1,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+          sponsee,
+        } as Task,
+      ];
+    });
+
+    it('lets the sponsor acknowledge a completed task with a comment', async () => {
+      render(<TasksScreen />);
+
+      fireEvent.press(await screen.findByLabelText('Review Read Big Book'));
+
+      expect(await screen.findByText('Review Task')).toBeTruthy();
+      // The notes show on the task card and in the review
+      expect(screen.getAllByText('It hit home')).toHaveLength(2);
+      fireEvent.changeText(
+        screen.getByPlaceholderText('Add a comment, or tell them what to revisit...'),
+        'Great work'
+      );
+      fireEvent.press(screen.getByText('Acknowledge'));
+
+      await waitFor(() => {
+        expect(mockRpc).toHaveBeenCalledWith('review_task', {
+          p_task_id: 'manage-task-1',
+          p_decision: 'acknowledged',
+          p_comment: 'Great work',
+        });
+      });
+    });
+
+    it('requires feedback to send a task back', async () => {
+      render(<TasksScreen />);
+
+      fireEvent.press(await screen.findByLabelText('Review Read Big Book'));
+      fireEvent.press(await screen.findByText('Send Back'));
+
+      expect(
+        await screen.findByText('Please add feedback so your sponsee knows what to revisit')
+      ).toBeTruthy();
+      expect(mockRpc).not.toHaveBeenCalledWith('review_task', expect.anything());
+    });
+
+    it('shows a returned task with its feedback and lets the sponsee reply', async () => {
+      mockPendingTasks = [{ id: 'task-1' }];
+      mockMyTasks = [
+        {
+          ...createMockMyTasks()[0],
+          status: 'in_progress',
+          draft_notes: 'My first try',
+          returned_at: '2024-03-05T09:00:00Z',
+        },
+      ];
+      mockTaskComments = [
+        {
+          id: 'comment-1',
+          task_id: 'task-1',
+          author_id: 'sponsor-123',
+          kind: 'returned',
+          body: 'Dig a little deeper',
+          created_at: '2024-03-05T09:00:00Z',
+        },
+      ];
+
+      render(<TasksScreen />);
+
+      expect(await screen.findByText('Sent back with feedback')).toBeTruthy();
+      fireEvent.press(screen.getByText('Continue'));
+
+      expect(await screen.findByText('Dig a little deeper')).toBeTruthy();
+      fireEvent.changeText(screen.getByPlaceholderText('Reply to your sponsor...'), 'Will do');
+      fireEvent.press(screen.getByText('Reply'));
+
+      await waitFor(() => {
+        expect(mockCommentInsert).toHaveBeenCalledWith({
+          task_id: 'task-1',
+          author_id: 'user-123',
+          kind: 'comment',
+          body: 'Will do',
+        });
+      });
+    });
+  });
+
   describe('Task Completion Error Handling', () => {
     it('shows error alert when task completion fails', async () => {
       const { supabase } = jest.requireMock('@/lib/supabase');
@@ -1023,7 +1403,11 @@ describe('TasksScreen', () => {
               }),
             }),
             update: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({ error: new Error('Database error') }),
+              eq: jest.fn().mockReturnValue({
+                select: jest
+                  .fn()
+                  .mockResolvedValue({ data: null, error: new Error('Database error') }),
+              }),
             }),
           };
         }
@@ -1032,7 +1416,11 @@ describe('TasksScreen', () => {
             select: jest.fn().mockReturnValue({
               eq: jest.fn().mockReturnValue({
                 eq: jest.fn().mockResolvedValue({
-                  data: mockSponsees.map((s) => ({ sponsee: s })),
+                  data: mockSponsees.map((s) => ({
+                    sponsee: s,
+                    sponsee_id: s.id,
+                    share_notes: mockNotesShared,
+                  })),
                   error: null,
                 }),
               }),
@@ -1064,6 +1452,83 @@ describe('TasksScreen', () => {
         expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to complete task');
       });
     });
+
+    it('queues the completion when the device is offline', async () => {
+      const { supabase } = jest.requireMock('@/lib/supabase');
+      const { Alert } = jest.requireMock('react-native');
+      const baseFrom = supabase.from.getMockImplementation();
+
+      supabase.from.mockImplementation((table: string) => {
+        const builder = baseFrom(table);
+        if (table === 'tasks') {
+          builder.update = jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              select: jest.fn().mockResolvedValue({
+                data: null,
+                error: new Error('TypeError: Network request failed'),
+              }),
+            }),
+          });
+        }
+        return builder;
+      });
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Complete')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByText('Complete'));
+      fireEvent.press(screen.getByText('Mark Complete'));
+
+      await waitFor(() => {
+        expect(Alert.alert).toHaveBeenCalledWith(
+          'Saved Offline',
+          "Task marked as completed. It will sync when you're back online."
+        );
+      });
+      await expect(getPendingMutations()).resolves.toEqual([
+        expect.objectContaining({ type: 'complete_task', taskId: 'task-1' }),
+      ]);
+
+      await clearSyncQueue();
+    });
+
+    it('tells the sponsee when the task was deleted before it could be completed', async () => {
+      const { supabase } = jest.requireMock('@/lib/supabase');
+      const { Alert } = jest.requireMock('react-native');
+      const baseFrom = supabase.from.getMockImplementation();
+
+      supabase.from.mockImplementation((table: string) => {
+        const builder = baseFrom(table);
+        if (table === 'tasks') {
+          builder.update = jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({
+              select: jest.fn().mockResolvedValue({ data: [], error: null }),
+            }),
+          });
+        }
+        return builder;
+      });
+
+      render(<TasksScreen />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Complete')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByText('Complete'));
+      fireEvent.press(screen.getByText('Mark Complete'));
+
+      await waitFor(() => {
+        expect(Alert.alert).toHaveBeenCalledWith(
+          'Task Not Found',
+          'This task no longer exists, so it could not be completed.'
+        );
+      });
+      expect(supabase.from).not.toHaveBeenCalledWith('notifications');
+    });
   });
 
   describe('Status Filter Chips', () => {
@@ -1326,9 +1791,6 @@ describe('TasksScreen', () => {
           updated_at: '2024-01-01T00:00:00Z',
         },
       ];
-      // Create an overdue task
-      const pastDate = new Date();
-      pastDate.setDate(pastDate.getDate() - 7);
       mockManageTasks = [
         {
           id: 'manage-task-1',
@@ -1337,7 +1799,8 @@ describe('TasksScreen', () => {
           title: 'Overdue Task',
           description: 'This task is overdue',
           status: 'assigned',
-          due_date: pastDate.toISOString().split('T')[0],
+          // A week before the mocked today
+          due_date: '2024-02-27',
           step_number: 1,
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T00:00:00Z',
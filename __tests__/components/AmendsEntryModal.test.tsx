@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Tests for AmendsEntryModal component
+ *
+ * Tests the amends form including:
+ * - Adding someone to the list
+ * - Changing an amends' status
+ * - Asking why a deferred amends would injure
+ * - Deleting an entry and save failures
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import AmendsEntryModal from '@/components/AmendsEntryModal';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { createAmends, updateAmends } from '@/lib/repositories';
+import type { AmendsEntry } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  createAmends: jest.fn(),
+  updateAmends: jest.fn(),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  X: () => null,
+}));
+
+const mockCreateAmends = createAmends as jest.Mock;
+const mockUpdateAmends = updateAmends as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const mockTheme = {
+  primary: '#007AFF',
+  primaryLight: '#E5F1FF',
+  text: '#111827',
+  textSecondary: '#6b7280',
+  textTertiary: '#9ca3af',
+  background: '#ffffff',
+  card: '#ffffff',
+  border: '#e5e7eb',
+  borderLight: '#f3f4f6',
+  fontRegular: 'JetBrainsMono-Regular',
+} as ThemeColors;
+
+const entry: AmendsEntry = {
+  id: 'amends-1',
+  user_id: 'user-1',
+  person: 'My brother',
+  harm: 'Borrowed money and never paid it back',
+  approach: 'Pay it back in person',
+  status: 'planned',
+  deferred_reason: '',
+  made_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const defaultProps = {
+  visible: true,
+  userId: 'user-1',
+  entry: null,
+  onClose: jest.fn(),
+  onSaved: jest.fn(),
+  onDelete: jest.fn(),
+  theme: mockTheme,
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('AmendsEntryModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('adds someone to the list as willing', async () => {
+    const saved = { ...entry, status: 'willing' };
+    mockCreateAmends.mockResolvedValue(saved);
+    render(<AmendsEntryModal {...defaultProps} />);
+
+    expect(screen.getByText('Add to Amends List')).toBeTruthy();
+    fireEvent.changeText(screen.getByLabelText('Person'), ' My brother ');
+    fireEvent.changeText(screen.getByLabelText('The harm'), 'Borrowed money');
+    fireEvent.press(screen.getByText('Add'));
+
+    await waitFor(() => {
+      expect(defaultProps.onSaved).toHaveBeenCalledWith(saved);
+    });
+    expect(mockCreateAmends).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      person: 'My brother',
+      harm: 'Borrowed money',
+      approach: '',
+      status: 'willing',
+      deferred_reason: '',
+    });
+    expect(defaultProps.onClose).toHaveBeenCalled();
+  });
+
+  it('asks who the amends is owed to', () => {
+    render(<AmendsEntryModal {...defaultProps} />);
+
+    fireEvent.press(screen.getByText('Add'));
+
+    expect(screen.getByText('Please enter who the amends is owed to')).toBeTruthy();
+    expect(mockCreateAmends).not.toHaveBeenCalled();
+  });
+
+  it('marks an amends made', async () => {
+    mockUpdateAmends.mockResolvedValue({ ...entry, status: 'made' });
+    render(<AmendsEntryModal {...defaultProps} entry={entry} />);
+
+    expect(screen.getByText('Edit Amends')).toBeTruthy();
+    fireEvent.press(screen.getByText('Made'));
+    fireEvent.press(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(mockUpdateAmends).toHaveBeenCalledWith(
+        'amends-1',
+        expect.objectContaining({ status: 'made', deferred_reason: '' })
+      );
+    });
+  });
+
+  it('asks why a deferred amends would injure', async () => {
+    mockUpdateAmends.mockResolvedValue({ ...entry, status: 'deferred' });
+    render(<AmendsEntryModal {...defaultProps} entry={entry} />);
+
+    expect(screen.queryByLabelText('Why it would injure')).toBeNull();
+    fireEvent.press(screen.getByText('Deferred'));
+    fireEvent.press(screen.getByText('Save'));
+
+    expect(
+      screen.getByText('Please explain why making this amends would injure them or others')
+    ).toBeTruthy();
+    expect(mockUpdateAmends).not.toHaveBeenCalled();
+
+    fireEvent.changeText(screen.getByLabelText('Why it would injure'), 'He is in treatment');
+    fireEvent.press(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(mockUpdateAmends).toHaveBeenCalledWith(
+        'amends-1',
+        expect.objectContaining({ status: 'deferred', deferred_reason: 'He is in treatment' })
+      );
+    });
+  });
+
+  it('asks to delete the entry being edited', () => {
+    render(<AmendsEntryModal {...defaultProps} entry={entry} />);
+
+    fireEvent.press(screen.getByText('Delete'));
+
+    expect(defaultProps.onDelete).toHaveBeenCalledWith(entry);
+  });
+
+  it('stays open with an error when saving fails', async () => {
+    mockUpdateAmends.mockRejectedValue(new Error('Network error'));
+    render(<AmendsEntryModal {...defaultProps} entry={entry} />);
+
+    fireEvent.press(screen.getByText('Save'));
+
+    expect(await screen.findByText('Failed to save this amends. Please try again.')).toBeTruthy();
+    expect(defaultProps.onClose).not.toHaveBeenCalled();
+  });
+});
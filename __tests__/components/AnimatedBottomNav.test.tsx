@@ -265,4 +265,31 @@ describe('AnimatedBottomNav', () => {
       expect(screen.getByText('Item 5')).toBeTruthy();
     });
   });
+
+  describe('badges', () => {
+    it('renders a badge when badgeCount is positive', () => {
+      const items: AnimatedNavItem[] = [{ label: 'Home', icon: MockIcon, badgeCount: 3 }];
+
+      render(<AnimatedBottomNav items={items} />);
+
+      expect(screen.getByLabelText('3 unread')).toBeTruthy();
+      expect(screen.getByText('3')).toBeTruthy();
+    });
+
+    it('caps large counts at 99+', () => {
+      const items: AnimatedNavItem[] = [{ label: 'Home', icon: MockIcon, badgeCount: 150 }];
+
+      render(<AnimatedBottomNav items={items} />);
+
+      expect(screen.getByText('99+')).toBeTruthy();
+    });
+
+    it('hides the badge when badgeCount is zero', () => {
+      const items: AnimatedNavItem[] = [{ label: 'Home', icon: MockIcon, badgeCount: 0 }];
+
+      render(<AnimatedBottomNav items={items} />);
+
+      expect(screen.queryByLabelText('0 unread')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tests for ConnectionRequestList component
+ *
+ * Tests the list of pending connection requests including:
+ * - Hiding when there are no requests
+ * - Accept and decline for requests to the user as sponsor
+ * - Withdrawing requests the user sent as sponsee
+ * - Alerting when an action fails
+ */
+
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react-native';
+import ConnectionRequestList from '@/components/ConnectionRequestList';
+import { acceptConnectionRequest, declineConnectionRequest } from '@/lib/connection-requests';
+import { closeRelationshipRequest } from '@/lib/repositories';
+import type { Profile, SponsorSponseeRelationship } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      card: '#ffffff',
+      border: '#e0e0e0',
+      text: '#111111',
+      textSecondary: '#666666',
+      danger: '#ff0000',
+      dangerBorder: '#ffcccc',
+      dangerLight: '#fff0f0',
+      fontRegular: 'System',
+      primary: '#007AFF',
+      white: '#ffffff',
+    },
+  }),
+}));
+
+jest.mock('@/lib/connection-requests', () => ({
+  acceptConnectionRequest: jest.fn(),
+  declineConnectionRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/repositories', () => ({
+  closeRelationshipRequest: jest.fn(),
+}));
+
+// =============================================================================
+// Test Data & Helpers
+// =============================================================================
+const profile = { id: 'user-1', first_name: 'Jane', last_initial: 'S' } as Profile;
+
+const incoming = {
+  id: 'req-1',
+  sponsor_id: 'user-1',
+  sponsee_id: 'sponsee-1',
+  status: 'pending',
+  sponsee: { id: 'sponsee-1', first_name: 'Alex', last_initial: 'P' },
+} as SponsorSponseeRelationship;
+
+const outgoing = {
+  id: 'req-2',
+  sponsor_id: 'sponsor-2',
+  sponsee_id: 'user-1',
+  status: 'pending',
+  sponsor: { id: 'sponsor-2', first_name: 'Riley', last_initial: 'K' },
+} as SponsorSponseeRelationship;
+
+/** Makes the next Alert.alert confirmation press its destructive button */
+const confirmNextAlert = () => {
+  const { Alert } = jest.requireMock('react-native');
+  Alert.alert.mockImplementationOnce(
+    (_title: string, _message: string, buttons: { style?: string; onPress?: () => void }[]) =>
+      buttons.find((button) => button.style === 'destructive')?.onPress?.()
+  );
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('ConnectionRequestList', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders nothing without requests', () => {
+    render(<ConnectionRequestList requests={[]} profile={profile} onChange={jest.fn()} />);
+
+    expect(screen.queryByTestId('connection-request-list')).toBeNull();
+  });
+
+  it('accepts a request to the user and reports the change', async () => {
+    (acceptConnectionRequest as jest.Mock).mockResolvedValue(undefined);
+    const onChange = jest.fn();
+
+    render(<ConnectionRequestList requests={[incoming]} profile={profile} onChange={onChange} />);
+
+    expect(screen.getByText('Wants you as their sponsor')).toBeTruthy();
+    fireEvent.press(screen.getByLabelText('Accept Alex P.'));
+
+    await waitFor(() => {
+      expect(onChange).toHaveBeenCalled();
+    });
+    expect(acceptConnectionRequest).toHaveBeenCalledWith(incoming, profile);
+  });
+
+  it('declines a request after confirmation', async () => {
+    (declineConnectionRequest as jest.Mock).mockResolvedValue(undefined);
+    const onChange = jest.fn();
+    confirmNextAlert();
+
+    render(<ConnectionRequestList requests={[incoming]} profile={profile} onChange={onChange} />);
+
+    fireEvent.press(screen.getByLabelText('Decline Alex P.'));
+
+    await waitFor(() => {
+      expect(declineConnectionRequest).toHaveBeenCalledWith(incoming, profile);
+    });
+    expect(onChange).toHaveBeenCalled();
+  });
+
+  it('withdraws a request the user sent', async () => {
+    (closeRelationshipRequest as jest.Mock).mockResolvedValue(undefined);
+    confirmNextAlert();
+
+    render(<ConnectionRequestList requests={[outgoing]} profile={profile} onChange={jest.fn()} />);
+
+    expect(screen.getByText('Waiting for them to accept')).toBeTruthy();
+    fireEvent.press(screen.getByLabelText('Withdraw request to Riley K.'));
+
+    await waitFor(() => {
+      expect(closeRelationshipRequest).toHaveBeenCalledWith('req-2');
+    });
+  });
+
+  it('alerts when an action fails', async () => {
+    const { Alert } = jest.requireMock('react-native');
+    (acceptConnectionRequest as jest.Mock).mockRejectedValue(new Error('denied'));
+    const onChange = jest.fn();
+
+    render(<ConnectionRequestList requests={[incoming]} profile={profile} onChange={onChange} />);
+
+    fireEvent.press(screen.getByLabelText('Accept Alex P.'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to update the connection request');
+    });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
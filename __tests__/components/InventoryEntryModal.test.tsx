@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Tests for InventoryEntryModal component
+ *
+ * Tests the Step 4 inventory entry form including:
+ * - Column headings for each kind
+ * - Adding an entry at the given position
+ * - Editing and deleting an existing entry
+ * - Validation and save failures
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import InventoryEntryModal from '@/components/InventoryEntryModal';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { createInventoryEntry, updateInventoryEntry } from '@/lib/repositories';
+import type { InventoryEntry } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  createInventoryEntry: jest.fn(),
+  updateInventoryEntry: jest.fn(),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  X: () => null,
+}));
+
+const mockCreateInventoryEntry = createInventoryEntry as jest.Mock;
+const mockUpdateInventoryEntry = updateInventoryEntry as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const mockTheme = {
+  primary: '#007AFF',
+  primaryLight: '#E5F1FF',
+  text: '#111827',
+  textSecondary: '#6b7280',
+  textTertiary: '#9ca3af',
+  background: '#ffffff',
+  card: '#ffffff',
+  border: '#e5e7eb',
+  borderLight: '#f3f4f6',
+  fontRegular: 'JetBrainsMono-Regular',
+} as ThemeColors;
+
+const entry: InventoryEntry = {
+  id: 'entry-1',
+  user_id: 'user-1',
+  kind: 'harm',
+  subject: 'My sister',
+  cause: 'Missed her wedding',
+  affects: 'Her trust in me',
+  my_part: '',
+  position: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const defaultProps = {
+  visible: true,
+  userId: 'user-1',
+  kind: 'resentment' as const,
+  entry: null,
+  position: 3,
+  onClose: jest.fn(),
+  onSaved: jest.fn(),
+  onDelete: jest.fn(),
+  theme: mockTheme,
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('InventoryEntryModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('heads the columns the way the kind uses them', () => {
+    render(<InventoryEntryModal {...defaultProps} kind="fear" />);
+
+    expect(screen.getByText('Add Fear')).toBeTruthy();
+    expect(screen.getByLabelText("I'm afraid of")).toBeTruthy();
+    expect(screen.getByLabelText('Why I have this fear')).toBeTruthy();
+    expect(screen.getByLabelText('Affects my')).toBeTruthy();
+    expect(screen.getByLabelText('My part')).toBeTruthy();
+  });
+
+  it('adds an entry at the given position', async () => {
+    const saved = { ...entry, id: 'entry-2', kind: 'resentment' };
+    mockCreateInventoryEntry.mockResolvedValue(saved);
+    render(<InventoryEntryModal {...defaultProps} />);
+
+    fireEvent.changeText(screen.getByLabelText("I'm resentful at"), '  My old boss ');
+    fireEvent.changeText(screen.getByLabelText('The cause'), 'Passed me over');
+    fireEvent.press(screen.getByText('Add'));
+
+    await waitFor(() => {
+      expect(defaultProps.onSaved).toHaveBeenCalledWith(saved);
+    });
+    expect(mockCreateInventoryEntry).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      kind: 'resentment',
+      position: 3,
+      subject: 'My old boss',
+      cause: 'Passed me over',
+      affects: '',
+      my_part: '',
+    });
+    expect(defaultProps.onClose).toHaveBeenCalled();
+  });
+
+  it('asks for who or what the entry is about', () => {
+    render(<InventoryEntryModal {...defaultProps} />);
+
+    fireEvent.press(screen.getByText('Add'));
+
+    expect(screen.getByText('Please fill in "I\'m resentful at"')).toBeTruthy();
+    expect(mockCreateInventoryEntry).not.toHaveBeenCalled();
+  });
+
+  it('edits an existing entry', async () => {
+    mockUpdateInventoryEntry.mockResolvedValue({ ...entry, my_part: 'I chose to drink' });
+    render(<InventoryEntryModal {...defaultProps} kind="harm" entry={entry} />);
+
+    expect(screen.getByText('Edit Harm')).toBeTruthy();
+    expect(screen.getByDisplayValue('Missed her wedding')).toBeTruthy();
+
+    fireEvent.changeText(screen.getByLabelText('My part'), 'I chose to drink');
+    fireEvent.press(screen.getByText('Save'));
+
+    await waitFor(() => {
+      expect(mockUpdateInventoryEntry).toHaveBeenCalledWith('entry-1', {
+        subject: 'My sister',
+        cause: 'Missed her wedding',
+        affects: 'Her trust in me',
+        my_part: 'I chose to drink',
+      });
+    });
+  });
+
+  it('asks to delete the entry being edited', () => {
+    render(<InventoryEntryModal {...defaultProps} kind="harm" entry={entry} />);
+
+    fireEvent.press(screen.getByText('Delete'));
+
+    expect(defaultProps.onDelete).toHaveBeenCalledWith(entry);
+  });
+
+  it('stays open with an error when saving fails', async () => {
+    mockCreateInventoryEntry.mockRejectedValue(new Error('Network error'));
+    render(<InventoryEntryModal {...defaultProps} />);
+
+    fireEvent.changeText(screen.getByLabelText("I'm resentful at"), 'My old boss');
+    fireEvent.press(screen.getByText('Add'));
+
+    expect(await screen.findByText('Failed to save this entry. Please try again.')).toBeTruthy();
+    expect(defaultProps.onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Tests for InviteCodeList component
+ *
+ * Tests the sponsor's invite code list including:
+ * - Hiding when there are no codes
+ * - Expiry, expired and redeemed labels
+ * - QR and revoke actions for redeemable codes only
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import InviteCodeList from '@/components/InviteCodeList';
+import type { InviteCode, Profile } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      card: '#ffffff',
+      border: '#e0e0e0',
+      text: '#111111',
+      textSecondary: '#666666',
+      danger: '#ff0000',
+      dangerBorder: '#ffcccc',
+      dangerLight: '#fff0f0',
+      fontRegular: 'System',
+      fontSemiBold: 'System',
+      primary: '#007AFF',
+      background: '#f5f5f5',
+    },
+  }),
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const makeInvite = (overrides: Partial<InviteCode> = {}): InviteCode => ({
+  id: 'invite-1',
+  code: 'ABCD2345',
+  sponsor_id: 'sponsor-1',
+  created_at: '2024-01-01T00:00:00Z',
+  expires_at: '2099-06-15T12:00:00Z',
+  used_at: null,
+  used_by: null,
+  revoked_at: null,
+  ...overrides,
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('InviteCodeList', () => {
+  it('renders nothing without invites', () => {
+    render(<InviteCodeList invites={[]} onRevoke={jest.fn()} onShowQr={jest.fn()} />);
+
+    expect(screen.queryByTestId('invite-code-list')).toBeNull();
+  });
+
+  it('shows an active code with its expiry and a revoke action', () => {
+    const onRevoke = jest.fn();
+    const invite = makeInvite();
+    render(<InviteCodeList invites={[invite]} onRevoke={onRevoke} onShowQr={jest.fn()} />);
+
+    expect(screen.getByText('ABCD2345')).toBeTruthy();
+    expect(screen.getByText('Expires Jun 15, 2099')).toBeTruthy();
+
+    fireEvent.press(screen.getByText('Revoke'));
+    expect(onRevoke).toHaveBeenCalledWith(invite);
+  });
+
+  it('shows an active code as a QR code', () => {
+    const onShowQr = jest.fn();
+    const invite = makeInvite();
+    render(<InviteCodeList invites={[invite]} onRevoke={jest.fn()} onShowQr={onShowQr} />);
+
+    fireEvent.press(screen.getByText('QR'));
+    expect(onShowQr).toHaveBeenCalledWith(invite);
+  });
+
+  it('shows who redeemed a used code, without a revoke action', () => {
+    render(
+      <InviteCodeList
+        invites={[
+          makeInvite({
+            used_by: 'sponsee-1',
+            redeemer: { first_name: 'Sam', last_initial: 'T' } as Profile,
+          }),
+        ]}
+        onRevoke={jest.fn()}
+        onShowQr={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Used by Sam T.')).toBeTruthy();
+    expect(screen.queryByText('Revoke')).toBeNull();
+    expect(screen.queryByText('QR')).toBeNull();
+  });
+
+  it('marks expired codes without a revoke action', () => {
+    render(
+      <InviteCodeList
+        invites={[makeInvite({ expires_at: '2020-03-01T12:00:00Z' })]}
+        onRevoke={jest.fn()}
+        onShowQr={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Expired Mar 1, 2020')).toBeTruthy();
+    expect(screen.queryByText('Revoke')).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Tests for InviteQrModal component
+ *
+ * Tests the invite QR modal including:
+ * - Hiding without a code
+ * - Encoding the invite link
+ * - Sharing the link and closing
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import InviteQrModal from '@/components/InviteQrModal';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      primary: '#007AFF',
+      text: '#111827',
+      textSecondary: '#6b7280',
+      card: '#ffffff',
+      white: '#ffffff',
+      black: '#000000',
+      fontRegular: 'System',
+      fontSemiBold: 'System',
+    },
+  }),
+}));
+
+const mockShare = jest.fn();
+jest.requireMock('react-native').Share = { share: mockShare };
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('InviteQrModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders nothing without a code', () => {
+    render(<InviteQrModal code={null} onClose={jest.fn()} />);
+
+    expect(screen.queryByTestId('invite-qr-modal')).toBeNull();
+  });
+
+  it('encodes the invite link and prints the code', () => {
+    render(<InviteQrModal code="ABCD2345" onClose={jest.fn()} />);
+
+    expect(screen.getByTestId('qr-code').props.value).toBe(
+      'https://sobrietywaypoint.com/invite/ABCD2345'
+    );
+    expect(screen.getByText('ABCD2345')).toBeTruthy();
+  });
+
+  it('shares the invite link', () => {
+    render(<InviteQrModal code="ABCD2345" onClose={jest.fn()} />);
+
+    fireEvent.press(screen.getByText('Share Invite Link'));
+
+    expect(mockShare).toHaveBeenCalledWith({
+      message: expect.stringContaining('https://sobrietywaypoint.com/invite/ABCD2345'),
+    });
+  });
+
+  it('closes', () => {
+    const onClose = jest.fn();
+    render(<InviteQrModal code="ABCD2345" onClose={onClose} />);
+
+    fireEvent.press(screen.getByText('Close'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Tests for RelationshipHistoryList component
+ *
+ * Tests the list of past relationships including:
+ * - Hiding when there is no history
+ * - Connection dates, role and task counts
+ * - Opening the task archive
+ * - Asking, withdrawing, accepting and declining to reconnect
+ * - Alerting when an action fails
+ */
+
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react-native';
+import RelationshipHistoryList from '@/components/RelationshipHistoryList';
+import {
+  acceptReconnection,
+  declineReconnection,
+  requestReconnection,
+} from '@/lib/connection-requests';
+import { clearReconnectRequest, fetchTasksBetween } from '@/lib/repositories';
+import type { Profile, SponsorSponseeRelationship } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      card: '#ffffff',
+      border: '#e0e0e0',
+      background: '#f5f5f5',
+      text: '#111111',
+      textSecondary: '#666666',
+      textTertiary: '#999999',
+      success: '#00aa00',
+      fontRegular: 'System',
+      primary: '#007AFF',
+      white: '#ffffff',
+    },
+  }),
+}));
+
+jest.mock('@/lib/connection-requests', () => ({
+  acceptReconnection: jest.fn(),
+  declineReconnection: jest.fn(),
+  requestReconnection: jest.fn(),
+}));
+
+jest.mock('@/lib/repositories', () => ({
+  clearReconnectRequest: jest.fn(),
+  fetchTasksBetween: jest.fn(),
+}));
+
+// =============================================================================
+// Test Data & Helpers
+// =============================================================================
+const profile = { id: 'user-1', first_name: 'Jane', last_initial: 'S' } as Profile;
+
+const formerSponsor = {
+  id: 'rel-1',
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'user-1',
+  status: 'inactive',
+  connected_at: '2026-01-10T12:00:00Z',
+  disconnected_at: '2026-06-20T12:00:00Z',
+  reconnect_requested_by: null,
+  sponsor: { id: 'sponsor-1', first_name: 'Riley', last_initial: 'K' },
+} as SponsorSponseeRelationship;
+
+const renderList = (
+  relationship: SponsorSponseeRelationship = formerSponsor,
+  onChange = jest.fn()
+) =>
+  render(
+    <RelationshipHistoryList
+      relationships={[relationship]}
+      taskStats={{ [relationship.id]: { total: 4, completed: 3 } }}
+      profile={profile}
+      onChange={onChange}
+    />
+  );
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('RelationshipHistoryList', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchTasksBetween as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('renders nothing without history', () => {
+    render(
+      <RelationshipHistoryList
+        relationships={[]}
+        taskStats={{}}
+        profile={profile}
+        onChange={jest.fn()}
+      />
+    );
+
+    expect(screen.queryByTestId('relationship-history-list')).toBeNull();
+  });
+
+  it('shows the role, connection dates and task counts', () => {
+    renderList();
+
+    expect(screen.getByText('Riley K.')).toBeTruthy();
+    expect(screen.getByText('Former sponsor')).toBeTruthy();
+    expect(screen.getByText('Connected Jan 10, 2026 · Disconnected Jun 20, 2026')).toBeTruthy();
+    expect(screen.getByText('3/4 tasks completed')).toBeTruthy();
+  });
+
+  it('opens the task archive for the pair', async () => {
+    renderList();
+
+    fireEvent.press(screen.getByLabelText('View tasks with Riley K.'));
+
+    expect(await screen.findByText('Tasks with Riley K.')).toBeTruthy();
+    expect(fetchTasksBetween).toHaveBeenCalledWith('sponsor-1', 'user-1');
+  });
+
+  it('asks to reconnect and reports the change', async () => {
+    (requestReconnection as jest.Mock).mockResolvedValue(undefined);
+    const onChange = jest.fn();
+
+    renderList(formerSponsor, onChange);
+
+    fireEvent.press(screen.getByLabelText('Reconnect with Riley K.'));
+
+    await waitFor(() => {
+      expect(onChange).toHaveBeenCalled();
+    });
+    expect(requestReconnection).toHaveBeenCalledWith(formerSponsor, profile);
+  });
+
+  it('withdraws a reconnect request the user sent', async () => {
+    (clearReconnectRequest as jest.Mock).mockResolvedValue(undefined);
+
+    renderList({ ...formerSponsor, reconnect_requested_by: 'user-1' });
+
+    expect(screen.getByText('Reconnect requested')).toBeTruthy();
+    fireEvent.press(screen.getByLabelText('Withdraw reconnect request to Riley K.'));
+
+    await waitFor(() => {
+      expect(clearReconnectRequest).toHaveBeenCalledWith('rel-1');
+    });
+  });
+
+  it('accepts or declines a reconnect request from the other member', async () => {
+    (acceptReconnection as jest.Mock).mockResolvedValue(undefined);
+    (declineReconnection as jest.Mock).mockResolvedValue(undefined);
+    const requested = { ...formerSponsor, reconnect_requested_by: 'sponsor-1' };
+
+    renderList(requested);
+
+    expect(screen.getByText('Wants to reconnect')).toBeTruthy();
+    fireEvent.press(screen.getByLabelText('Accept reconnect from Riley K.'));
+    await waitFor(() => {
+      expect(acceptReconnection).toHaveBeenCalledWith(requested, profile);
+    });
+
+    fireEvent.press(screen.getByLabelText('Decline reconnect from Riley K.'));
+    await waitFor(() => {
+      expect(declineReconnection).toHaveBeenCalledWith(requested, profile);
+    });
+  });
+
+  it('alerts when an action fails', async () => {
+    const { Alert } = jest.requireMock('react-native');
+    (requestReconnection as jest.Mock).mockRejectedValue(new Error('denied'));
+    const onChange = jest.fn();
+
+    renderList(formerSponsor, onChange);
+
+    fireEvent.press(screen.getByLabelText('Reconnect with Riley K.'));
+
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith('Error', 'Failed to update the reconnect request');
+    });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Tests for SharingSettings component
+ *
+ * Tests the sponsee's sharing toggles including:
+ * - One toggle per setting reflecting the relationship
+ * - Reporting which setting was toggled
+ * - Slip-up notes only being shareable along with slip-ups
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import SharingSettings from '@/components/SharingSettings';
+import type { SponsorSponseeRelationship } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      border: '#e0e0e0',
+      borderLight: '#f0f0f0',
+      text: '#111111',
+      textSecondary: '#666666',
+      fontRegular: 'System',
+      primary: '#007AFF',
+      white: '#ffffff',
+    },
+  }),
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const relationship = {
+  id: 'rel-1',
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'user-1',
+  status: 'active',
+  share_sobriety_date: true,
+  share_slip_ups: false,
+  share_slip_up_notes: false,
+  share_step_progress: true,
+  share_notes: false,
+  share_amends: false,
+  share_check_ins: false,
+  sponsor: { id: 'sponsor-1', first_name: 'Riley', last_initial: 'K' },
+} as SponsorSponseeRelationship;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('SharingSettings', () => {
+  it('shows each setting as it is saved on the relationship', () => {
+    render(<SharingSettings relationship={relationship} onToggle={jest.fn()} />);
+
+    expect(screen.getByText('What Riley can see')).toBeTruthy();
+    expect(screen.getByLabelText('Share sobriety date').props.accessibilityState.checked).toBe(
+      true
+    );
+    expect(screen.getByLabelText('Share step progress').props.accessibilityState.checked).toBe(
+      true
+    );
+    expect(screen.getByLabelText('Share notes').props.accessibilityState.checked).toBe(false);
+    expect(screen.getByLabelText('Share slip-up history').props.accessibilityState.checked).toBe(
+      false
+    );
+    expect(screen.getByLabelText('Share amends list').props.accessibilityState.checked).toBe(false);
+    expect(screen.getByLabelText('Share check-ins').props.accessibilityState.checked).toBe(false);
+  });
+
+  it('reports the toggled setting', () => {
+    const onToggle = jest.fn();
+    render(<SharingSettings relationship={relationship} onToggle={onToggle} />);
+
+    fireEvent.press(screen.getByLabelText('Share notes'));
+
+    expect(onToggle).toHaveBeenCalledWith('share_notes');
+  });
+
+  it('only enables slip-up notes once slip-ups are shared', () => {
+    const { rerender } = render(
+      <SharingSettings relationship={relationship} onToggle={jest.fn()} />
+    );
+
+    expect(screen.getByLabelText('Share slip-up notes').props.accessibilityState.disabled).toBe(
+      true
+    );
+
+    rerender(
+      <SharingSettings
+        relationship={{ ...relationship, share_slip_ups: true }}
+        onToggle={jest.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Share slip-up notes').props.accessibilityState.disabled).toBe(
+      false
+    );
+  });
+});
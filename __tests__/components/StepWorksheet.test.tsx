@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Tests for StepWorksheet component
+ *
+ * Tests the step worksheet including:
+ * - An answer field for each prompt, filled with saved answers
+ * - Autosave status
+ * - Sharing an answer with the sponsor
+ * - Showing an answer's earlier versions
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react-native';
+import StepWorksheet from '@/components/StepWorksheet';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { AUTOSAVE_DELAY_MS } from '@/hooks/useStepWorksheet';
+import {
+  fetchStepAnswerRevisions,
+  fetchStepAnswers,
+  saveStepAnswers,
+  setStepAnswerShared,
+} from '@/lib/repositories';
+import type { StepAnswer } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  fetchStepAnswerRevisions: jest.fn(),
+  fetchStepAnswers: jest.fn(),
+  saveStepAnswers: jest.fn(),
+  setStepAnswerShared: jest.fn(),
+}));
+
+const mockFetchStepAnswerRevisions = fetchStepAnswerRevisions as jest.Mock;
+const mockFetchStepAnswers = fetchStepAnswers as jest.Mock;
+const mockSaveStepAnswers = saveStepAnswers as jest.Mock;
+const mockSetStepAnswerShared = setStepAnswerShared as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const mockTheme = {
+  primary: '#007AFF',
+  primaryLight: '#E5F1FF',
+  text: '#111827',
+  textSecondary: '#6b7280',
+  textTertiary: '#9ca3af',
+  background: '#ffffff',
+  card: '#ffffff',
+  border: '#e5e7eb',
+  fontRegular: 'JetBrainsMono-Regular',
+} as ThemeColors;
+
+const PROMPTS = ['Who am I resentful toward?', 'What part did I play?'];
+
+const savedAnswer = {
+  id: 'answer-1',
+  user_id: 'user-123',
+  step_number: 4,
+  prompt_index: 0,
+  prompt: PROMPTS[0],
+  answer: 'My old boss',
+  shared: false,
+  created_at: '2024-03-01T12:00:00Z',
+  updated_at: '2024-03-01T12:00:00Z',
+} as StepAnswer;
+
+const renderWorksheet = () =>
+  render(<StepWorksheet userId="user-123" stepNumber={4} prompts={PROMPTS} theme={mockTheme} />);
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('StepWorksheet', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchStepAnswers.mockResolvedValue([savedAnswer]);
+    mockSetStepAnswerShared.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shows an answer field for each prompt with the saved answers', async () => {
+    renderWorksheet();
+
+    expect(await screen.findByDisplayValue('My old boss')).toBeTruthy();
+    expect(screen.getByText('Who am I resentful toward?')).toBeTruthy();
+    expect(screen.getByLabelText('Answer to: What part did I play?')).toBeTruthy();
+    // Only saved answers can be shared
+    expect(screen.getAllByText('Share with sponsor')).toHaveLength(1);
+  });
+
+  it('saves an answer as the user writes', async () => {
+    jest.useFakeTimers();
+    mockSaveStepAnswers.mockResolvedValue([
+      { ...savedAnswer, id: 'answer-2', prompt_index: 1, prompt: PROMPTS[1], answer: 'I lied' },
+    ]);
+    renderWorksheet();
+
+    fireEvent.changeText(
+      await screen.findByLabelText('Answer to: What part did I play?'),
+      'I lied'
+    );
+    expect(screen.getByText('Unsaved changes')).toBeTruthy();
+
+    await act(async () => {
+      jest.advanceTimersByTime(AUTOSAVE_DELAY_MS);
+    });
+
+    expect(screen.getByText('All changes saved')).toBeTruthy();
+    expect(screen.getAllByText('Share with sponsor')).toHaveLength(2);
+  });
+
+  it('shares an answer with the sponsor', async () => {
+    renderWorksheet();
+
+    fireEvent.press(
+      await screen.findByLabelText('Share your answer to: Who am I resentful toward?')
+    );
+
+    expect(await screen.findByText('Shared with sponsor')).toBeTruthy();
+    expect(mockSetStepAnswerShared).toHaveBeenCalledWith('answer-1', true);
+  });
+
+  it("shows an answer's earlier versions", async () => {
+    mockFetchStepAnswerRevisions.mockResolvedValue([
+      {
+        id: 'revision-1',
+        answer_id: 'answer-1',
+        answer: 'My boss',
+        saved_at: '2024-02-01T12:00:00Z',
+      },
+    ]);
+    renderWorksheet();
+
+    fireEvent.press(await screen.findByText('Earlier versions'));
+
+    expect(await screen.findByText('My boss')).toBeTruthy();
+    expect(mockFetchStepAnswerRevisions).toHaveBeenCalledWith('answer-1');
+
+    fireEvent.press(screen.getByText('Hide earlier versions'));
+    expect(screen.queryByText('My boss')).toBeNull();
+  });
+
+  it('says when an answer has no earlier versions', async () => {
+    mockFetchStepAnswerRevisions.mockResolvedValue([]);
+    renderWorksheet();
+
+    fireEvent.press(await screen.findByText('Earlier versions'));
+
+    expect(await screen.findByText('No earlier versions yet.')).toBeTruthy();
+  });
+
+  it('shows an error instead of the fields when answers fail to load', async () => {
+    mockFetchStepAnswers.mockRejectedValue(new Error('offline'));
+    renderWorksheet();
+
+    expect(await screen.findByText('Failed to load your answers. Please try again.')).toBeTruthy();
+    expect(screen.queryByLabelText('Answer to: What part did I play?')).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Tests for SyncStatusIndicator component
+ *
+ * Tests the pending-sync banner including:
+ * - Hiding when online with nothing pending
+ * - Offline and pending messages
+ * - Syncing message
+ * - A dismissible notice for discarded changes
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
+import { SyncStatusResult } from '@/hooks/useSyncStatus';
+import { dismissDiscardedChanges } from '@/lib/offline';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      background: '#f5f5f5',
+      border: '#e0e0e0',
+      textSecondary: '#666666',
+      fontRegular: 'System',
+    },
+  }),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  AlertCircle: () => null,
+  CloudOff: () => null,
+  RefreshCw: () => null,
+}));
+
+let mockStatus: SyncStatusResult = {
+  pendingCount: 0,
+  isSyncing: false,
+  discardedCount: 0,
+  isOffline: false,
+};
+jest.mock('@/hooks/useSyncStatus', () => ({
+  useSyncStatus: () => mockStatus,
+}));
+
+jest.mock('@/lib/offline', () => ({
+  dismissDiscardedChanges: jest.fn(),
+}));
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('SyncStatusIndicator', () => {
+  it('renders nothing when online with nothing pending', () => {
+    mockStatus = {
+      pendingCount: 0,
+      isSyncing: false,
+      discardedCount: 0,
+      isOffline: false,
+    };
+
+    render(<SyncStatusIndicator />);
+
+    expect(screen.queryByTestId('sync-status-indicator')).toBeNull();
+  });
+
+  it('shows that saved data is displayed while offline', () => {
+    mockStatus = {
+      pendingCount: 0,
+      isSyncing: false,
+      discardedCount: 0,
+      isOffline: true,
+    };
+
+    render(<SyncStatusIndicator />);
+
+    expect(screen.getByText('Offline · showing saved data')).toBeTruthy();
+  });
+
+  it('shows how many changes are waiting while offline', () => {
+    mockStatus = {
+      pendingCount: 2,
+      isSyncing: false,
+      discardedCount: 0,
+      isOffline: true,
+    };
+
+    render(<SyncStatusIndicator />);
+
+    expect(screen.getByText('Offline · 2 changes waiting to sync')).toBeTruthy();
+  });
+
+  it('shows progress while syncing', () => {
+    mockStatus = {
+      pendingCount: 1,
+      isSyncing: true,
+      discardedCount: 0,
+      isOffline: false,
+    };
+
+    render(<SyncStatusIndicator />);
+
+    expect(screen.getByText('Syncing 1 change...')).toBeTruthy();
+  });
+
+  it('tells the user about discarded changes and dismisses the notice when tapped', () => {
+    mockStatus = { pendingCount: 0, isSyncing: false, discardedCount: 1, isOffline: false };
+
+    render(<SyncStatusIndicator />);
+
+    expect(screen.queryByTestId('sync-status-indicator')).toBeNull();
+    fireEvent.press(screen.getByText('1 offline change could not be applied'));
+    expect(dismissDiscardedChanges).toHaveBeenCalled();
+  });
+
+  it('shows the discarded notice alongside pending changes', () => {
+    mockStatus = { pendingCount: 1, isSyncing: false, discardedCount: 2, isOffline: true };
+
+    render(<SyncStatusIndicator />);
+
+    expect(screen.getByText('Offline · 1 change waiting to sync')).toBeTruthy();
+    expect(screen.getByText('2 offline changes could not be applied')).toBeTruthy();
+  });
+});
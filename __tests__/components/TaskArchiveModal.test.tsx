@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Tests for TaskArchiveModal component
+ *
+ * Tests the read-only archive of a past relationship's tasks including:
+ * - Hiding without a relationship
+ * - Listing tasks with their status and notes
+ * - Empty and error states
+ * - Closing
+ */
+
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import TaskArchiveModal from '@/components/TaskArchiveModal';
+import { fetchTasksBetween } from '@/lib/repositories';
+import type { Profile, SponsorSponseeRelationship, Task } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/contexts/ThemeContext', () => ({
+  useTheme: () => ({
+    theme: {
+      card: '#ffffff',
+      border: '#e0e0e0',
+      text: '#111111',
+      textSecondary: '#666666',
+      textTertiary: '#999999',
+      success: '#00aa00',
+      fontRegular: 'System',
+      primary: '#007AFF',
+    },
+  }),
+}));
+
+jest.mock('@/lib/repositories', () => ({
+  fetchTasksBetween: jest.fn(),
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const relationship = {
+  id: 'rel-1',
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'user-1',
+  status: 'inactive',
+} as SponsorSponseeRelationship;
+
+const partner = { id: 'sponsor-1', first_name: 'Riley', last_initial: 'K' } as Profile;
+
+const tasks = [
+  {
+    id: 'task-1',
+    title: 'Read chapter 5',
+    status: 'completed',
+    step_number: 1,
+    created_at: '2026-02-01T12:00:00Z',
+    completed_at: '2026-02-05T12:00:00Z',
+    completion_notes: 'Learned a lot',
+  },
+  {
+    id: 'task-2',
+    title: 'Call your sponsor',
+    status: 'assigned',
+    step_number: null,
+    created_at: '2026-03-01T12:00:00Z',
+    completed_at: null,
+    completion_notes: null,
+  },
+] as Task[];
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('TaskArchiveModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders nothing without a relationship', () => {
+    render(<TaskArchiveModal relationship={null} onClose={jest.fn()} />);
+
+    expect(screen.queryByTestId('task-archive-modal')).toBeNull();
+    expect(fetchTasksBetween).not.toHaveBeenCalled();
+  });
+
+  it("lists the pair's tasks with their status", async () => {
+    (fetchTasksBetween as jest.Mock).mockResolvedValue(tasks);
+
+    render(<TaskArchiveModal relationship={relationship} partner={partner} onClose={jest.fn()} />);
+
+    expect(screen.getByText('Tasks with Riley K.')).toBeTruthy();
+    expect(await screen.findByText('Read chapter 5')).toBeTruthy();
+    expect(screen.getByText('Completed')).toBeTruthy();
+    expect(screen.getByText('Learned a lot')).toBeTruthy();
+    expect(screen.getByText('Call your sponsor')).toBeTruthy();
+    expect(screen.getByText('Assigned')).toBeTruthy();
+    expect(fetchTasksBetween).toHaveBeenCalledWith('sponsor-1', 'user-1');
+  });
+
+  it('says when no tasks were assigned', async () => {
+    (fetchTasksBetween as jest.Mock).mockResolvedValue([]);
+
+    render(<TaskArchiveModal relationship={relationship} onClose={jest.fn()} />);
+
+    expect(await screen.findByText('No tasks were assigned.')).toBeTruthy();
+  });
+
+  it('shows an error when the tasks fail to load', async () => {
+    (fetchTasksBetween as jest.Mock).mockRejectedValue(new Error('boom'));
+
+    render(<TaskArchiveModal relationship={relationship} onClose={jest.fn()} />);
+
+    expect(await screen.findByText('Failed to load tasks')).toBeTruthy();
+  });
+
+  it('closes', async () => {
+    (fetchTasksBetween as jest.Mock).mockResolvedValue([]);
+    const onClose = jest.fn();
+
+    render(<TaskArchiveModal relationship={relationship} onClose={onClose} />);
+
+    await screen.findByText('No tasks were assigned.');
+    fireEvent.press(screen.getByText('Close'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
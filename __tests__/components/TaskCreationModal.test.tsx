@@ -6,6 +6,9 @@
  * - Form validation
  * - Dropdown interactions
  * - Task submission
+ * - Assigning to several sponsees and template packs
+ * - Recurring tasks
+ * - Editing an existing task
  * - Error handling
  */
 
@@ -13,7 +16,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
 import TaskCreationModal from '@/components/TaskCreationModal';
 import { ThemeColors } from '@/contexts/ThemeContext';
-import { Profile } from '@/types/database';
+import { Profile, Task } from '@/types/database';
 
 // =============================================================================
 // Mocks
@@ -24,6 +27,11 @@ const mockInsert = jest.fn();
 const mockSelect = jest.fn();
 const mockEq = jest.fn();
 const mockOrder = jest.fn();
+const mockSeriesInsert = jest.fn();
+const mockSeriesUpdate = jest.fn();
+const mockRpc = jest.fn();
+const mockUpdate = jest.fn();
+const mockUpdatedRows = jest.fn();
 
 jest.mock('@/lib/supabase', () => ({
   supabase: {
@@ -37,10 +45,29 @@ jest.mock('@/lib/supabase', () => ({
           }),
         };
       }
+      if (table === 'task_series') {
+        return {
+          insert: mockSeriesInsert.mockImplementation((series: { starts_on: string }[]) => ({
+            select: jest.fn().mockResolvedValue({
+              data: series.map((s, i) => ({ id: `series-${i + 1}`, ...s })),
+              error: null,
+            }),
+          })),
+          update: mockSeriesUpdate.mockReturnValue({
+            eq: jest.fn().mockResolvedValue({ error: null }),
+          }),
+        };
+      }
       return {
         insert: mockInsert.mockResolvedValue({ error: null }),
+        update: mockUpdate.mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            neq: jest.fn().mockReturnValue({ select: mockUpdatedRows }),
+          }),
+        }),
       };
     }),
+    rpc: (...args: unknown[]) => mockRpc(...args),
   },
 }));
 
@@ -62,6 +89,7 @@ jest.mock('lucide-react-native', () => ({
   X: () => null,
   ChevronDown: () => null,
   Calendar: () => null,
+  Check: () => null,
 }));
 
 // Mock DateTimePicker
@@ -128,6 +156,17 @@ const mockSponsees: Profile[] = [
   },
 ];
 
+const mockTask = {
+  id: 'task-1',
+  sponsor_id: 'sponsor-123',
+  sponsee_id: 'sponsee-2',
+  step_number: 4,
+  title: 'Start your inventory',
+  description: 'List your resentments',
+  due_date: '2025-01-10',
+  status: 'assigned',
+} as Task;
+
 const defaultProps = {
   visible: true,
   onClose: jest.fn(),
@@ -144,6 +183,7 @@ const defaultProps = {
 describe('TaskCreationModal', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockUpdatedRows.mockResolvedValue({ data: [{ id: 'task-1' }], error: null });
   });
 
   describe('rendering', () => {
@@ -195,14 +235,26 @@ describe('TaskCreationModal', () => {
       expect(screen.getByText('Jane S.')).toBeTruthy();
     });
 
-    it('selects a sponsee from dropdown', () => {
+    it('selects several sponsees from dropdown', () => {
       render(<TaskCreationModal {...defaultProps} />);
 
       fireEvent.press(screen.getByText('Select sponsee'));
       fireEvent.press(screen.getByText('John D.'));
 
-      // Dropdown should close and show selected sponsee
-      expect(screen.queryByText('Jane S.')).toBeNull();
+      // Dropdown stays open so more sponsees can be added
+      fireEvent.press(screen.getByText('Jane S.'));
+
+      expect(screen.getByText('2 sponsees')).toBeTruthy();
+      expect(screen.getByText('John D.')).toBeTruthy();
+    });
+
+    it('deselects a sponsee when pressed again', () => {
+      render(<TaskCreationModal {...defaultProps} preselectedSponseeId="sponsee-1" />);
+
+      fireEvent.press(screen.getByText('John D.'));
+      fireEvent.press(screen.getAllByText('John D.')[1]);
+
+      expect(screen.getByText('Select sponsee')).toBeTruthy();
     });
   });
 
@@ -338,6 +390,238 @@ describe('TaskCreationModal', () => {
     });
   });
 
+  describe('assigning to several sponsees', () => {
+    it('creates every task in one insert and notifies each sponsee once', async () => {
+      const onTaskCreated = jest.fn();
+      render(<TaskCreationModal {...defaultProps} onTaskCreated={onTaskCreated} />);
+
+      fireEvent.press(screen.getByText('Select sponsee'));
+      fireEvent.press(screen.getByText('John D.'));
+      fireEvent.press(screen.getByText('Jane S.'));
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task title'), 'Call me');
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task description'), 'Check in');
+      fireEvent.press(screen.getByText('Assign Task'));
+
+      await waitFor(() => {
+        expect(onTaskCreated).toHaveBeenCalled();
+      });
+      expect(mockInsert).toHaveBeenCalledTimes(2);
+      expect(mockInsert).toHaveBeenNthCalledWith(1, [
+        expect.objectContaining({ sponsee_id: 'sponsee-1', title: 'Call me', status: 'assigned' }),
+        expect.objectContaining({ sponsee_id: 'sponsee-2', title: 'Call me', status: 'assigned' }),
+      ]);
+      expect(mockInsert).toHaveBeenNthCalledWith(2, [
+        expect.objectContaining({ user_id: 'sponsee-1', title: 'New Task Assigned' }),
+        expect.objectContaining({ user_id: 'sponsee-2', title: 'New Task Assigned' }),
+      ]);
+    });
+
+    it('creates a series for each sponsee when the task repeats', async () => {
+      mockRpc.mockResolvedValue({ data: 'task-1', error: null });
+      const onTaskCreated = jest.fn();
+      render(<TaskCreationModal {...defaultProps} onTaskCreated={onTaskCreated} />);
+
+      fireEvent.press(screen.getByText('Select sponsee'));
+      fireEvent.press(screen.getByText('John D.'));
+      fireEvent.press(screen.getByText('Jane S.'));
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task title'), 'Call me');
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task description'), 'Check in');
+      fireEvent.press(screen.getByLabelText('Weekly'));
+      fireEvent.press(screen.getByText('Assign Task'));
+
+      await waitFor(() => {
+        expect(onTaskCreated).toHaveBeenCalled();
+      });
+      expect(mockSeriesInsert).toHaveBeenCalledTimes(1);
+      expect(mockSeriesInsert).toHaveBeenCalledWith([
+        expect.objectContaining({ sponsee_id: 'sponsee-1' }),
+        expect.objectContaining({ sponsee_id: 'sponsee-2' }),
+      ]);
+      expect(mockRpc).toHaveBeenCalledWith('create_series_occurrence', {
+        p_series_id: 'series-1',
+        p_due_date: expect.any(String),
+      });
+      expect(mockRpc).toHaveBeenCalledWith('create_series_occurrence', {
+        p_series_id: 'series-2',
+        p_due_date: expect.any(String),
+      });
+    });
+
+    it('names the sponsees whose repeating task could not be started', async () => {
+      mockRpc.mockImplementation((_fn: string, args: { p_series_id: string }) =>
+        Promise.resolve(
+          args.p_series_id === 'series-2'
+            ? { data: null, error: { message: 'boom' } }
+            : { data: 'task-1', error: null }
+        )
+      );
+      const onTaskCreated = jest.fn();
+      const onClose = jest.fn();
+      render(
+        <TaskCreationModal {...defaultProps} onTaskCreated={onTaskCreated} onClose={onClose} />
+      );
+
+      fireEvent.press(screen.getByText('Select sponsee'));
+      fireEvent.press(screen.getByText('John D.'));
+      fireEvent.press(screen.getByText('Jane S.'));
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task title'), 'Call me');
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task description'), 'Check in');
+      fireEvent.press(screen.getByLabelText('Weekly'));
+      fireEvent.press(screen.getByText('Assign Task'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Failed to assign the task to: Jane S.')).toBeTruthy();
+      });
+      expect(mockSeriesUpdate).toHaveBeenCalledTimes(1);
+      expect(mockInsert).toHaveBeenCalledWith([
+        expect.objectContaining({ user_id: 'sponsee-1', title: 'New Task Assigned' }),
+      ]);
+      expect(onTaskCreated).toHaveBeenCalled();
+      expect(onClose).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recurring tasks', () => {
+    it('creates a series and its first occurrence when the task repeats', async () => {
+      mockRpc.mockResolvedValue({ data: 'task-1', error: null });
+      const onTaskCreated = jest.fn();
+      const today = new Date().toISOString().split('T')[0];
+
+      render(
+        <TaskCreationModal
+          {...defaultProps}
+          preselectedSponseeId="sponsee-1"
+          onTaskCreated={onTaskCreated}
+        />
+      );
+
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task title'), 'Call me');
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task description'), 'Check in');
+      fireEvent.press(screen.getByLabelText('Weekly'));
+
+      expect(screen.getByText('First Due Date (Defaults to Today)')).toBeTruthy();
+
+      fireEvent.press(screen.getByText('Assign Task'));
+
+      await waitFor(() => {
+        expect(onTaskCreated).toHaveBeenCalled();
+      });
+      expect(mockSeriesInsert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          sponsee_id: 'sponsee-1',
+          title: 'Call me',
+          recurrence: 'weekly',
+          interval_days: 7,
+          starts_on: today,
+        }),
+      ]);
+      expect(mockRpc).toHaveBeenCalledWith('create_series_occurrence', {
+        p_series_id: 'series-1',
+        p_due_date: today,
+      });
+    });
+
+    it('rejects a custom schedule without a valid number of days', async () => {
+      render(<TaskCreationModal {...defaultProps} preselectedSponseeId="sponsee-1" />);
+
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task title'), 'Meetings');
+      fireEvent.changeText(screen.getByPlaceholderText('Enter task description'), 'Go to one');
+      fireEvent.press(screen.getByLabelText('Custom'));
+      fireEvent.changeText(screen.getByLabelText('Days between occurrences'), '');
+      fireEvent.press(screen.getByText('Assign Task'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Please choose to repeat every 1 to 365 days')).toBeTruthy();
+      });
+      expect(mockSeriesInsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('editing a task', () => {
+    it("opens with the task's current details", () => {
+      render(<TaskCreationModal {...defaultProps} task={mockTask} />);
+
+      expect(screen.getByText('Edit Task')).toBeTruthy();
+      expect(screen.getByText('Jane S.')).toBeTruthy();
+      expect(screen.getByText('Step 4')).toBeTruthy();
+      expect(screen.getByDisplayValue('Start your inventory')).toBeTruthy();
+      expect(screen.getByDisplayValue('List your resentments')).toBeTruthy();
+      expect(screen.getByText('Save Changes')).toBeTruthy();
+      expect(screen.queryByText('Repeat')).toBeNull();
+    });
+
+    it('keeps the wording when the step changes', () => {
+      render(<TaskCreationModal {...defaultProps} task={mockTask} />);
+
+      fireEvent.press(screen.getByText('Step 4'));
+      fireEvent.press(screen.getByText('Step 5'));
+
+      expect(screen.getByDisplayValue('Start your inventory')).toBeTruthy();
+    });
+
+    it('saves only the changed fields and tells the sponsee what changed', async () => {
+      const onTaskCreated = jest.fn();
+      render(<TaskCreationModal {...defaultProps} task={mockTask} onTaskCreated={onTaskCreated} />);
+
+      fireEvent.changeText(
+        screen.getByDisplayValue('Start your inventory'),
+        'Start your fourth step inventory'
+      );
+      fireEvent.press(screen.getByText('Clear Date'));
+      fireEvent.press(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(onTaskCreated).toHaveBeenCalled();
+      });
+      expect(mockUpdate).toHaveBeenCalledWith({
+        title: 'Start your fourth step inventory',
+        due_date: null,
+      });
+      expect(mockInsert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          user_id: 'sponsee-2',
+          type: 'task_assigned',
+          title: 'Task Updated',
+          content:
+            'Your sponsor updated "Start your inventory": Title is now "Start your fourth step inventory"; Due date removed',
+          data: expect.objectContaining({ task_id: 'task-1' }),
+        }),
+      ]);
+      expect(mockSeriesInsert).not.toHaveBeenCalled();
+    });
+
+    it('tells the sponsor when the task was completed before the edit was saved', async () => {
+      mockUpdatedRows.mockResolvedValue({ data: [], error: null });
+      const onTaskCreated = jest.fn();
+      render(<TaskCreationModal {...defaultProps} task={mockTask} onTaskCreated={onTaskCreated} />);
+
+      fireEvent.changeText(
+        screen.getByDisplayValue('Start your inventory'),
+        'Start your fourth step inventory'
+      );
+      fireEvent.press(screen.getByText('Save Changes'));
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('This task has been completed and can no longer be edited.')
+        ).toBeTruthy();
+      });
+      expect(mockInsert).not.toHaveBeenCalled();
+      expect(onTaskCreated).not.toHaveBeenCalled();
+    });
+
+    it('closes without saving or notifying when nothing changed', () => {
+      const onClose = jest.fn();
+      render(<TaskCreationModal {...defaultProps} task={mockTask} onClose={onClose} />);
+
+      fireEvent.press(screen.getByText('Save Changes'));
+
+      expect(onClose).toHaveBeenCalled();
+      expect(mockUpdate).not.toHaveBeenCalled();
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+  });
+
   describe('modal actions', () => {
     it('calls onClose when cancel is pressed', () => {
       const onClose = jest.fn();
@@ -479,4 +763,102 @@ describe('TaskCreationModal', () => {
       });
     });
   });
+
+  describe('template packs', () => {
+    beforeEach(() => {
+      const { supabase } = jest.requireMock('@/lib/supabase');
+      supabase.from.mockImplementation((table: string) => {
+        if (table === 'task_templates') {
+          return {
+            select: jest.fn().mockReturnValue({
+              eq: jest.fn().mockReturnValue({
+                order: jest.fn().mockResolvedValue({
+                  data: [
+                    {
+                      id: 'template-1',
+                      step_number: 4,
+                      title: 'List resentments',
+                      description: 'Write down who you resent',
+                      is_default: true,
+                    },
+                    {
+                      id: 'template-2',
+                      step_number: 4,
+                      title: 'List fears',
+                      description: 'Write down your fears',
+                      is_default: true,
+                    },
+                    {
+                      id: 'template-3',
+                      step_number: 4,
+                      title: 'Optional extra',
+                      description: 'Only if you want to',
+                      is_default: false,
+                    },
+                  ],
+                  error: null,
+                }),
+              }),
+            }),
+          };
+        }
+        return {
+          insert: mockInsert.mockResolvedValue({ error: null }),
+        };
+      });
+    });
+
+    it("assigns the step's default templates to every selected sponsee", async () => {
+      const onTaskCreated = jest.fn();
+      render(<TaskCreationModal {...defaultProps} onTaskCreated={onTaskCreated} />);
+
+      fireEvent.press(screen.getByText('Select sponsee'));
+      fireEvent.press(screen.getByText('John D.'));
+      fireEvent.press(screen.getByText('Jane S.'));
+      fireEvent.press(screen.getByText('Select step (optional)'));
+      fireEvent.press(screen.getByText('Step 4'));
+      fireEvent.press(await screen.findByText('Assign all 2 default tasks for Step 4'));
+
+      expect(screen.getByText('• List resentments')).toBeTruthy();
+      expect(screen.queryByPlaceholderText('Enter task title')).toBeNull();
+
+      fireEvent.press(screen.getByText('Assign 2 Tasks'));
+
+      await waitFor(() => {
+        expect(onTaskCreated).toHaveBeenCalled();
+      });
+      const [tasks] = mockInsert.mock.calls[0];
+      expect(tasks).toHaveLength(4);
+      expect(tasks).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ sponsee_id: 'sponsee-1', title: 'List resentments' }),
+          expect.objectContaining({ sponsee_id: 'sponsee-2', title: 'List fears' }),
+        ])
+      );
+      expect(tasks).not.toContainEqual(expect.objectContaining({ title: 'Optional extra' }));
+      expect(mockInsert).toHaveBeenNthCalledWith(2, [
+        expect.objectContaining({
+          user_id: 'sponsee-1',
+          content: 'Your sponsor has assigned you 2 new tasks for Step 4',
+        }),
+        expect.objectContaining({
+          user_id: 'sponsee-2',
+          content: 'Your sponsor has assigned you 2 new tasks for Step 4',
+        }),
+      ]);
+    });
+
+    it('brings back the single task form when the pack is unchecked', async () => {
+      render(<TaskCreationModal {...defaultProps} preselectedSponseeId="sponsee-1" />);
+
+      fireEvent.press(screen.getByText('Select step (optional)'));
+      fireEvent.press(screen.getByText('Step 4'));
+      const packToggle = await screen.findByText('Assign all 2 default tasks for Step 4');
+      fireEvent.press(packToggle);
+      fireEvent.press(packToggle);
+
+      expect(screen.getByPlaceholderText('Enter task title')).toBeTruthy();
+      expect(screen.getByText('Assign Task')).toBeTruthy();
+    });
+  });
 });
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Tests for TaskReviewModal component
+ *
+ * Tests the sponsor's review of a completed task including:
+ * - Completion notes and the feedback thread
+ * - Acknowledging a task and notifying the sponsee
+ * - Sending a task back, which needs feedback
+ * - Replying once a task has been reviewed
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import TaskReviewModal from '@/components/TaskReviewModal';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { addTaskComment, fetchTaskComments, reviewTask } from '@/lib/repositories';
+import { sendNotification } from '@/lib/notifications';
+import type { Profile, Task, TaskComment } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  addTaskComment: jest.fn(),
+  fetchTaskComments: jest.fn(),
+  reviewTask: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  sendNotification: jest.fn(),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  X: () => null,
+}));
+
+const mockAddTaskComment = addTaskComment as jest.Mock;
+const mockFetchTaskComments = fetchTaskComments as jest.Mock;
+const mockReviewTask = reviewTask as jest.Mock;
+const mockSendNotification = sendNotification as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const mockTheme = {
+  primary: '#007AFF',
+  primaryLight: '#E5F1FF',
+  text: '#111827',
+  textSecondary: '#6b7280',
+  textTertiary: '#9ca3af',
+  background: '#ffffff',
+  card: '#ffffff',
+  border: '#e5e7eb',
+  borderLight: '#f3f4f6',
+  fontRegular: 'JetBrainsMono-Regular',
+} as ThemeColors;
+
+const task = {
+  id: 'task-1',
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'sponsee-1',
+  step_number: 1,
+  title: 'Write about powerlessness',
+  status: 'completed',
+  completion_notes: 'I could not stop on my own',
+  completed_at: '2024-03-04T12:00:00Z',
+  reviewed_at: null,
+  returned_at: null,
+  sponsee: { id: 'sponsee-1', first_name: 'Jane', last_initial: 'D' } as Profile,
+} as Task;
+
+const returnedComment = {
+  id: 'comment-1',
+  task_id: 'task-1',
+  author_id: 'sponsor-1',
+  kind: 'returned',
+  body: 'What did that look like day to day?',
+  created_at: '2024-03-02T12:00:00Z',
+} as TaskComment;
+
+const defaultProps = {
+  visible: true,
+  task,
+  sponsorId: 'sponsor-1',
+  notesShared: true,
+  onClose: jest.fn(),
+  onReviewed: jest.fn(),
+  theme: mockTheme,
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('TaskReviewModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFetchTaskComments.mockResolvedValue([returnedComment]);
+    mockReviewTask.mockResolvedValue(undefined);
+    mockSendNotification.mockResolvedValue(true);
+  });
+
+  it('shows the completion notes and the earlier feedback', async () => {
+    render(<TaskReviewModal {...defaultProps} />);
+
+    expect(await screen.findByText('What did that look like day to day?')).toBeTruthy();
+    expect(mockFetchTaskComments).toHaveBeenCalledWith('task-1');
+    expect(screen.getByText('I could not stop on my own')).toBeTruthy();
+    expect(screen.getByTestId('task-comment-comment-1')).toHaveTextContent(/You.*Sent back/);
+  });
+
+  it('says when the sponsee keeps their notes private', async () => {
+    render(<TaskReviewModal {...defaultProps} notesShared={false} />);
+
+    expect(await screen.findByText('Jane D. keeps their completion notes private.')).toBeTruthy();
+    expect(screen.queryByText('I could not stop on my own')).toBeNull();
+  });
+
+  it('acknowledges the task and notifies the sponsee', async () => {
+    render(<TaskReviewModal {...defaultProps} />);
+
+    fireEvent.changeText(
+      screen.getByPlaceholderText('Add a comment, or tell them what to revisit...'),
+      '  Well done  '
+    );
+    fireEvent.press(screen.getByText('Acknowledge'));
+
+    await waitFor(() => {
+      expect(defaultProps.onReviewed).toHaveBeenCalled();
+    });
+    expect(mockReviewTask).toHaveBeenCalledWith('task-1', 'acknowledged', 'Well done');
+    expect(mockSendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user_id: 'sponsee-1',
+        type: 'task_feedback',
+        data: { task_id: 'task-1', step_number: 1 },
+      })
+    );
+    expect(defaultProps.onClose).toHaveBeenCalled();
+  });
+
+  it('needs feedback before sending a task back', async () => {
+    render(<TaskReviewModal {...defaultProps} />);
+
+    fireEvent.press(screen.getByText('Send Back'));
+
+    expect(
+      await screen.findByText('Please add feedback so your sponsee knows what to revisit')
+    ).toBeTruthy();
+    expect(mockReviewTask).not.toHaveBeenCalled();
+
+    fireEvent.changeText(
+      screen.getByPlaceholderText('Add a comment, or tell them what to revisit...'),
+      'Add an example'
+    );
+    fireEvent.press(screen.getByText('Send Back'));
+
+    await waitFor(() => {
+      expect(mockReviewTask).toHaveBeenCalledWith('task-1', 'returned', 'Add an example');
+    });
+  });
+
+  it('shows an error when the review fails', async () => {
+    mockReviewTask.mockRejectedValue(new Error('offline'));
+    render(<TaskReviewModal {...defaultProps} />);
+
+    fireEvent.press(screen.getByText('Acknowledge'));
+
+    expect(await screen.findByText('Failed to save your review. Please try again.')).toBeTruthy();
+    expect(defaultProps.onClose).not.toHaveBeenCalled();
+  });
+
+  it('only allows replies once the task is reviewed', async () => {
+    const reply = {
+      id: 'comment-2',
+      task_id: 'task-1',
+      author_id: 'sponsor-1',
+      kind: 'comment',
+      body: 'Proud of you',
+      created_at: '2024-03-05T12:00:00Z',
+    } as TaskComment;
+    mockAddTaskComment.mockResolvedValue(reply);
+    render(
+      <TaskReviewModal {...defaultProps} task={{ ...task, reviewed_at: '2024-03-05T10:00:00Z' }} />
+    );
+
+    expect(screen.queryByText('Acknowledge')).toBeNull();
+    fireEvent.changeText(screen.getByPlaceholderText('Write a reply...'), 'Proud of you');
+    fireEvent.press(screen.getByText('Send Reply'));
+
+    expect(await screen.findByText('Proud of you')).toBeTruthy();
+    expect(mockAddTaskComment).toHaveBeenCalledWith('task-1', 'sponsor-1', 'Proud of you');
+    expect(defaultProps.onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Tests for TaskSeriesModal component
+ *
+ * Tests the recurring task modal including:
+ * - Schedule and per-occurrence history
+ * - Editing the series
+ * - Stopping the series
+ * - Stopped series being read-only
+ */
+
+import React from 'react';
+import { Alert } from 'react-native';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react-native';
+import TaskSeriesModal from '@/components/TaskSeriesModal';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { stopTaskSeries, updateTaskSeries } from '@/lib/repositories';
+import type { Task, TaskSeries } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  stopTaskSeries: jest.fn(),
+  updateTaskSeries: jest.fn(),
+}));
+
+jest.mock('lucide-react-native', () => ({
+  X: () => null,
+  CheckCircle: () => null,
+  Clock: () => null,
+}));
+
+jest.mock('@/lib/date', () => ({
+  parseDateAsLocal: jest.fn((str: string) => new Date(`${str}T12:00:00Z`)),
+}));
+
+const mockUpdateTaskSeries = updateTaskSeries as jest.Mock;
+const mockStopTaskSeries = stopTaskSeries as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const mockTheme = {
+  primary: '#007AFF',
+  primaryLight: '#E5F1FF',
+  text: '#111827',
+  textSecondary: '#6b7280',
+  textTertiary: '#9ca3af',
+  background: '#ffffff',
+  card: '#ffffff',
+  border: '#e5e7eb',
+  borderLight: '#f3f4f6',
+  fontRegular: 'JetBrainsMono-Regular',
+} as ThemeColors;
+
+const series = {
+  id: 'series-1',
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'sponsee-1',
+  step_number: null,
+  title: 'Call me',
+  description: 'A quick check-in call',
+  recurrence: 'daily',
+  interval_days: 1,
+  starts_on: '2024-03-01',
+  stopped_at: null,
+} as TaskSeries;
+
+const occurrences = [
+  {
+    id: 'task-1',
+    series_id: 'series-1',
+    due_date: '2024-03-01',
+    status: 'completed',
+    completed_at: '2024-03-01T18:00:00Z',
+  },
+  { id: 'task-2', series_id: 'series-1', due_date: '2024-03-02', status: 'assigned' },
+  { id: 'task-3', series_id: 'series-1', due_date: '2024-03-03', status: 'assigned' },
+] as Task[];
+
+const defaultProps = {
+  visible: true,
+  series,
+  occurrences,
+  today: '2024-03-03',
+  onClose: jest.fn(),
+  onSeriesChanged: jest.fn(),
+  theme: mockTheme,
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('TaskSeriesModal', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the schedule and the outcome of each occurrence', () => {
+    render(<TaskSeriesModal {...defaultProps} />);
+
+    expect(screen.getByText(/Repeats daily since/)).toBeTruthy();
+    expect(screen.getByTestId('occurrence-task-1')).toHaveTextContent(/Completed/);
+    expect(screen.getByTestId('occurrence-task-2')).toHaveTextContent(/Missed/);
+    expect(screen.getByTestId('occurrence-task-3')).toHaveTextContent(/Open/);
+  });
+
+  it('saves edits to the series', async () => {
+    mockUpdateTaskSeries.mockResolvedValue(undefined);
+    render(<TaskSeriesModal {...defaultProps} />);
+
+    fireEvent.changeText(screen.getByDisplayValue('Call me'), 'Call me every evening');
+    fireEvent.press(screen.getByLabelText('Weekly'));
+    fireEvent.press(screen.getByText('Save Changes'));
+
+    await waitFor(() => {
+      expect(defaultProps.onSeriesChanged).toHaveBeenCalled();
+    });
+    expect(mockUpdateTaskSeries).toHaveBeenCalledWith('series-1', {
+      title: 'Call me every evening',
+      description: 'A quick check-in call',
+      recurrence: 'weekly',
+      interval_days: 7,
+    });
+    expect(defaultProps.onClose).toHaveBeenCalled();
+  });
+
+  it('stops the series once confirmed', async () => {
+    mockStopTaskSeries.mockResolvedValue(undefined);
+    (Alert.alert as jest.Mock).mockImplementation((_title, _message, buttons) => {
+      buttons?.find((button: { text: string }) => button.text === 'Stop')?.onPress?.();
+    });
+    render(<TaskSeriesModal {...defaultProps} />);
+
+    fireEvent.press(screen.getByText('Stop Repeating'));
+
+    await waitFor(() => {
+      expect(mockStopTaskSeries).toHaveBeenCalledWith('series-1');
+    });
+    expect(defaultProps.onSeriesChanged).toHaveBeenCalled();
+  });
+
+  it('only shows history for a stopped series', () => {
+    render(<TaskSeriesModal {...defaultProps} series={{ ...series, stopped_at: '2024-03-04' }} />);
+
+    expect(screen.getByText(/Stopped/)).toBeTruthy();
+    expect(screen.queryByText('Save Changes')).toBeNull();
+    expect(screen.queryByText('Stop Repeating')).toBeNull();
+    expect(screen.getByTestId('occurrence-task-1')).toBeTruthy();
+  });
+});
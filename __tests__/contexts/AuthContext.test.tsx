@@ -25,6 +25,7 @@ const mockSignInWithOAuth = jest.fn();
 const mockSetSession = jest.fn();
 const mockGetSession = jest.fn();
 const mockRpc = jest.fn();
+const mockOwnProfile = jest.fn();
 const mockOnAuthStateChange = jest.fn();
 const mockFrom = jest.fn();
 
@@ -48,6 +49,7 @@ const resetSupabaseMock = (
   mockSignOut.mockResolvedValue({ error: null });
   mockSetSession.mockResolvedValue({ data: { session: defaultSession }, error: null });
   mockRpc.mockResolvedValue({ data: null, error: null });
+  mockOwnProfile.mockResolvedValue({ data: defaultProfile, error: null });
 
   mockOnAuthStateChange.mockReturnValue({
     data: {
@@ -76,7 +78,9 @@ jest.mock('@/lib/supabase', () => ({
       onAuthStateChange: (...args: unknown[]) => mockOnAuthStateChange(...args),
     },
     from: (...args: unknown[]) => mockFrom(...args),
-    rpc: (...args: unknown[]) => mockRpc(...args),
+    // The user's own profile is read through get_own_profile
+    rpc: (fn: string, ...args: unknown[]) =>
+      fn === 'get_own_profile' ? { maybeSingle: () => mockOwnProfile() } : mockRpc(fn, ...args),
   },
 }));
 
@@ -272,6 +276,38 @@ describe('AuthContext', () => {
       expect(mockSignOut).toHaveBeenCalledWith({ scope: 'local' });
     });
 
+    it('cancels scheduled local notifications', async () => {
+      const Notifications = jest.requireMock('expo-notifications');
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      await act(async () => {
+        await result.current.signOut();
+      });
+
+      expect(Notifications.cancelAllScheduledNotificationsAsync).toHaveBeenCalled();
+    });
+
+    it('closes realtime channels and clears offline data', async () => {
+      const { removeAllRealtimeChannels } = jest.requireMock('@/lib/realtime');
+      const AsyncStorage = jest.requireMock('@react-native-async-storage/async-storage');
+      const { result } = renderHook(() => useAuth(), { wrapper });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      await act(async () => {
+        await result.current.signOut();
+      });
+
+      expect(removeAllRealtimeChannels).toHaveBeenCalled();
+      expect(AsyncStorage.removeItem).toHaveBeenCalledWith('sync_queue');
+    });
+
     it('handles AuthSessionMissingError gracefully', async () => {
       const missingSessionError = { name: 'AuthSessionMissingError', message: 'No session' };
       mockSignOut.mockResolvedValueOnce({ error: missingSessionError });
@@ -392,7 +428,7 @@ describe('AuthContext', () => {
         expect(result.current.loading).toBe(false);
       });
 
-      expect(mockFrom).toHaveBeenCalledWith('profiles');
+      expect(mockOwnProfile).toHaveBeenCalled();
     });
 
     it('subscribes to auth state changes', async () => {
@@ -414,13 +450,13 @@ describe('AuthContext', () => {
         expect(result.current.loading).toBe(false);
       });
 
-      mockFrom.mockClear();
+      mockOwnProfile.mockClear();
 
       await act(async () => {
         await result.current.refreshProfile();
       });
 
-      expect(mockFrom).not.toHaveBeenCalled();
+      expect(mockOwnProfile).not.toHaveBeenCalled();
     });
 
     it('fetches profile when user is logged in', async () => {
@@ -456,13 +492,13 @@ describe('AuthContext', () => {
         expect(result.current.user).not.toBeNull();
       });
 
-      mockFrom.mockClear();
+      mockOwnProfile.mockClear();
 
       await act(async () => {
         await result.current.refreshProfile();
       });
 
-      expect(mockFrom).toHaveBeenCalledWith('profiles');
+      expect(mockOwnProfile).toHaveBeenCalled();
     });
   });
 
@@ -507,24 +543,13 @@ describe('AuthContext', () => {
   describe('profile fetch error handling', () => {
     it('handles profile fetch errors gracefully', async () => {
       const profileError = new Error('Database error');
-      mockFrom.mockImplementation(() => ({
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: profileError }),
-        insert: jest.fn().mockResolvedValue({ data: null, error: null }),
-      }));
 
       resetSupabaseMock({
         session: { user: { id: 'user-error', email: 'test@example.com' } },
       });
 
-      // Re-apply the error mock after reset
-      mockFrom.mockImplementation(() => ({
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: profileError }),
-        insert: jest.fn().mockResolvedValue({ data: null, error: null }),
-      }));
+      // Apply the error mock after reset
+      mockOwnProfile.mockResolvedValue({ data: null, error: profileError });
 
       const { result } = renderHook(() => useAuth(), { wrapper });
 
@@ -640,6 +665,7 @@ describe('AuthContext', () => {
         maybeSingle: jest.fn().mockResolvedValue({ data: mockProfile, error: null }),
         insert: jest.fn().mockResolvedValue({ data: null, error: null }),
       }));
+      mockOwnProfile.mockResolvedValue({ data: mockProfile, error: null });
 
       mockOnAuthStateChange.mockImplementation(
         (
@@ -31,9 +31,11 @@ jest.mock('@/contexts/AuthContext', () => ({
 
 // Mock Supabase
 const mockSupabaseFrom = jest.fn();
+const mockSupabaseRpc = jest.fn();
 jest.mock('@/lib/supabase', () => ({
   supabase: {
     from: (...args: unknown[]) => mockSupabaseFrom(...args),
+    rpc: (...args: unknown[]) => mockSupabaseRpc(...args),
   },
 }));
 
@@ -377,35 +379,18 @@ describe('useDaysSober', () => {
       expect(result.current.error).toBeTruthy();
     });
 
-    it('fetches profile for non-current user', async () => {
+    it('fetches the shared sobriety summary for non-current user', async () => {
       jest.setSystemTime(new Date('2024-04-10T12:00:00Z'));
 
-      const otherUserProfile = {
-        id: 'other-user-456',
-        sobriety_date: '2024-02-15',
-        timezone: 'America/Chicago',
-      };
-
-      mockSupabaseFrom.mockImplementation((table: string) => {
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnThis(),
-            eq: jest.fn().mockReturnThis(),
-            single: jest.fn().mockResolvedValue({ data: otherUserProfile, error: null }),
-          };
-        }
-        if (table === 'slip_ups') {
-          return {
-            select: jest.fn().mockReturnThis(),
-            eq: jest.fn().mockReturnThis(),
-            order: jest.fn().mockReturnThis(),
-            limit: jest.fn().mockResolvedValue({ data: [], error: null }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
+      mockSupabaseRpc.mockReturnValue({
+        maybeSingle: jest.fn().mockResolvedValue({
+          data: {
+            sobriety_date: '2024-02-15',
+            timezone: 'America/Chicago',
+            current_streak_start: '2024-02-15',
+          },
+          error: null,
+        }),
       });
 
       // Pass a different userId to trigger the non-current-user path
@@ -415,32 +400,23 @@ describe('useDaysSober', () => {
         expect(result.current.loading).toBe(false);
       });
 
-      // Should use the fetched profile's sobriety date
+      expect(mockSupabaseRpc).toHaveBeenCalledWith('get_sobriety_summary', {
+        p_user_id: 'other-user-456',
+      });
+      expect(mockSupabaseFrom).not.toHaveBeenCalled();
       // Feb 15 to Apr 10 = 55 days
       expect(result.current.daysSober).toBe(55);
       expect(result.current.hasSlipUps).toBe(false);
     });
 
-    it('handles profile fetch error for non-current user', async () => {
+    it('handles summary fetch error for non-current user', async () => {
       jest.setSystemTime(new Date('2024-04-10T12:00:00Z'));
 
-      mockSupabaseFrom.mockImplementation((table: string) => {
-        if (table === 'profiles') {
-          return {
-            select: jest.fn().mockReturnThis(),
-            eq: jest.fn().mockReturnThis(),
-            single: jest.fn().mockResolvedValue({
-              data: null,
-              error: { message: 'Profile not found', code: '404', details: '', hint: '' },
-            }),
-          };
-        }
-        return {
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-          order: jest.fn().mockReturnThis(),
-          limit: jest.fn().mockResolvedValue({ data: [], error: null }),
-        };
+      mockSupabaseRpc.mockReturnValue({
+        maybeSingle: jest.fn().mockResolvedValue({
+          data: null,
+          error: { message: 'Summary failed', code: '500', details: '', hint: '' },
+        }),
       });
 
       const { result } = renderHook(() => useDaysSober('non-existent-user'));
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Tests for useLocalNotificationSchedule hook
+ *
+ * Tests keeping local notifications in sync including:
+ * - Scheduling from the streak, due tasks, timezone and preferences
+ * - Waiting for the streak to load
+ * - Rescheduling when the streak start or the user's tasks change
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useLocalNotificationSchedule } from '@/hooks/useLocalNotificationSchedule';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+let mockProfile: Record<string, unknown> | null = null;
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ profile: mockProfile }),
+}));
+
+let mockDaysSober = { currentStreakStartDate: '2024-01-01' as string | null, loading: false };
+jest.mock('@/hooks/useDaysSober', () => ({
+  useDaysSober: () => mockDaysSober,
+}));
+
+const mockFetchDueTasks = jest.fn();
+jest.mock('@/lib/repositories', () => ({
+  fetchDueTasks: (...args: unknown[]) => mockFetchDueTasks(...args),
+}));
+
+let mockOnTaskChange: (() => void) | null = null;
+jest.mock('@/hooks/useRealtimeChanges', () => ({
+  useRealtimeChanges: (_table: string, _columns: string[], onChange: () => void) => {
+    mockOnTaskChange = onChange;
+  },
+}));
+
+const mockReschedule = jest.fn();
+jest.mock('@/lib/local-notifications', () => ({
+  configureLocalNotifications: jest.fn(),
+  rescheduleLocalNotifications: (...args: unknown[]) => mockReschedule(...args),
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const dueTasks = [{ id: 'task-1', title: 'Call your sponsor', due_date: '2024-03-08' }];
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+describe('useLocalNotificationSchedule', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockReschedule.mockResolvedValue(0);
+    mockProfile = {
+      id: 'user-123',
+      timezone: 'America/New_York',
+      notification_preferences: { tasks: true, messages: true, milestones: false, daily: true },
+      daily_reminder_time: '20:30:00',
+    };
+    mockDaysSober = { currentStreakStartDate: '2024-01-01', loading: false };
+    mockFetchDueTasks.mockResolvedValue(dueTasks);
+  });
+
+  it('schedules from the streak, due tasks, timezone and preferences', async () => {
+    renderHook(() => useLocalNotificationSchedule());
+
+    await waitFor(() => {
+      expect(mockReschedule).toHaveBeenCalledWith({
+        streakStartDate: '2024-01-01',
+        timezone: 'America/New_York',
+        milestonesEnabled: false,
+        dailyEnabled: true,
+        dailyReminderTime: '20:30:00',
+        tasksEnabled: true,
+        dueTasks,
+      });
+    });
+    expect(mockFetchDueTasks).toHaveBeenCalledWith('user-123');
+  });
+
+  it('waits until the streak has loaded', () => {
+    mockDaysSober = { currentStreakStartDate: null, loading: true };
+
+    renderHook(() => useLocalNotificationSchedule());
+
+    expect(mockReschedule).not.toHaveBeenCalled();
+  });
+
+  it('does nothing without a signed-in user', () => {
+    mockProfile = null;
+
+    renderHook(() => useLocalNotificationSchedule());
+
+    expect(mockReschedule).not.toHaveBeenCalled();
+  });
+
+  it('still schedules milestones when due tasks fail to load', async () => {
+    mockFetchDueTasks.mockRejectedValue(new Error('offline'));
+
+    renderHook(() => useLocalNotificationSchedule());
+
+    await waitFor(() => {
+      expect(mockReschedule).toHaveBeenCalledWith(expect.objectContaining({ dueTasks: [] }));
+    });
+  });
+
+  it("reschedules when the user's tasks change", async () => {
+    renderHook(() => useLocalNotificationSchedule());
+    await waitFor(() => expect(mockReschedule).toHaveBeenCalledTimes(1));
+
+    const moved = [{ ...dueTasks[0], due_date: '2024-03-10' }];
+    mockFetchDueTasks.mockResolvedValue(moved);
+    await act(async () => {
+      mockOnTaskChange?.();
+    });
+
+    expect(mockReschedule).toHaveBeenCalledTimes(2);
+    expect(mockReschedule).toHaveBeenLastCalledWith(expect.objectContaining({ dueTasks: moved }));
+  });
+
+  it('reschedules when a slip-up moves the streak start', async () => {
+    const { rerender } = renderHook(() => useLocalNotificationSchedule());
+    await waitFor(() => expect(mockReschedule).toHaveBeenCalledTimes(1));
+
+    mockDaysSober = { currentStreakStartDate: '2024-06-01', loading: false };
+    rerender({});
+
+    expect(mockReschedule).toHaveBeenCalledTimes(2);
+    expect(mockReschedule).toHaveBeenLastCalledWith(
+      expect.objectContaining({ streakStartDate: '2024-06-01' })
+    );
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Tests for useOfflineSync hook
+ *
+ * Tests replaying offline changes including:
+ * - Starting auto-sync for a signed-in user
+ * - Not syncing without a user
+ * - Stopping on unmount
+ */
+
+import { renderHook } from '@testing-library/react-native';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { startAutoSync } from '@/lib/offline';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+let mockProfile: { id: string } | null = null;
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ profile: mockProfile }),
+}));
+
+const mockStopAutoSync = jest.fn();
+jest.mock('@/lib/offline', () => ({
+  startAutoSync: jest.fn(() => mockStopAutoSync),
+}));
+
+const mockStartAutoSync = startAutoSync as jest.Mock;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+describe('useOfflineSync', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProfile = { id: 'user-123' };
+  });
+
+  it('starts auto-sync for a signed-in user', () => {
+    renderHook(() => useOfflineSync());
+
+    expect(mockStartAutoSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing without a signed-in user', () => {
+    mockProfile = null;
+
+    renderHook(() => useOfflineSync());
+
+    expect(mockStartAutoSync).not.toHaveBeenCalled();
+  });
+
+  it('stops auto-sync on unmount', () => {
+    const { unmount } = renderHook(() => useOfflineSync());
+
+    unmount();
+
+    expect(mockStopAutoSync).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Tests for useRealtimeChanges hook
+ *
+ * Tests live table subscriptions including:
+ * - Subscribing for the signed-in user
+ * - Calling the latest handler without resubscribing
+ * - Unsubscribing on unmount
+ */
+
+import { renderHook } from '@testing-library/react-native';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { subscribeToUserChanges } from '@/lib/realtime';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+let mockProfile: { id: string } | null = null;
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ profile: mockProfile }),
+}));
+
+const mockSubscribe = subscribeToUserChanges as jest.Mock;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+describe('useRealtimeChanges', () => {
+  const mockUnsubscribe = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockProfile = { id: 'user-123' };
+    mockSubscribe.mockReturnValue(mockUnsubscribe);
+  });
+
+  it('subscribes to the table for the signed-in user', () => {
+    renderHook(() => useRealtimeChanges('tasks', ['sponsor_id', 'sponsee_id'], jest.fn()));
+
+    expect(mockSubscribe).toHaveBeenCalledWith(
+      'tasks',
+      'user-123',
+      ['sponsor_id', 'sponsee_id'],
+      expect.any(Function)
+    );
+  });
+
+  it('does not subscribe without a signed-in user', () => {
+    mockProfile = null;
+
+    renderHook(() => useRealtimeChanges('notifications', ['user_id'], jest.fn()));
+
+    expect(mockSubscribe).not.toHaveBeenCalled();
+  });
+
+  it('calls the latest handler without resubscribing', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const { rerender } = renderHook(
+      ({ handler }: { handler: jest.Mock }) =>
+        useRealtimeChanges('notifications', ['user_id'], handler),
+      { initialProps: { handler: first } }
+    );
+
+    rerender({ handler: second });
+    const onChange = mockSubscribe.mock.calls[0][3];
+    onChange({ eventType: 'INSERT', new: { id: 'n-1' }, old: {} });
+
+    expect(mockSubscribe).toHaveBeenCalledTimes(1);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'INSERT' }));
+  });
+
+  it('unsubscribes on unmount', () => {
+    const { unmount } = renderHook(() =>
+      useRealtimeChanges('messages', ['sender_id', 'recipient_id'], jest.fn())
+    );
+
+    unmount();
+
+    expect(mockUnsubscribe).toHaveBeenCalled();
+  });
+});
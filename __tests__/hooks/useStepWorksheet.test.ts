@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Tests for useStepWorksheet hook
+ *
+ * Tests the step worksheet state including:
+ * - Loading saved answers
+ * - Autosaving once typing pauses, and on unmount
+ * - Retrying edits after a failed save, including one made as the step changed
+ * - Clearing the fields when the step changes
+ * - Sharing answers
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { AUTOSAVE_DELAY_MS, useStepWorksheet } from '@/hooks/useStepWorksheet';
+import { fetchStepAnswers, saveStepAnswers, setStepAnswerShared } from '@/lib/repositories';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+jest.mock('@/lib/repositories', () => ({
+  fetchStepAnswers: jest.fn(),
+  saveStepAnswers: jest.fn(),
+  setStepAnswerShared: jest.fn(),
+}));
+
+const mockFetchStepAnswers = fetchStepAnswers as jest.Mock;
+const mockSaveStepAnswers = saveStepAnswers as jest.Mock;
+const mockSetStepAnswerShared = setStepAnswerShared as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+
+const PROMPTS = ['Who am I resentful toward?', 'What part did I play?'];
+
+const savedAnswer = {
+  id: 'answer-1',
+  user_id: 'user-123',
+  step_number: 4,
+  prompt_index: 0,
+  prompt: PROMPTS[0],
+  answer: 'My old boss',
+  shared: false,
+  created_at: '2024-03-01T12:00:00Z',
+  updated_at: '2024-03-01T12:00:00Z',
+};
+
+const renderWorksheet = async () => {
+  const hook = renderHook(() => useStepWorksheet('user-123', 4, PROMPTS));
+  await waitFor(() => {
+    expect(hook.result.current.loading).toBe(false);
+  });
+  return hook;
+};
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('useStepWorksheet', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    mockFetchStepAnswers.mockResolvedValue([savedAnswer]);
+    mockSaveStepAnswers.mockImplementation(async (drafts) =>
+      drafts.map((draft: object, i: number) => ({ id: `saved-${i}`, shared: false, ...draft }))
+    );
+    mockSetStepAnswerShared.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('loads the saved answers for the step', async () => {
+    const { result } = await renderWorksheet();
+
+    expect(mockFetchStepAnswers).toHaveBeenCalledWith('user-123', 4);
+    expect(result.current.drafts).toEqual({ 0: 'My old boss' });
+    expect(result.current.answers[0].id).toBe('answer-1');
+    expect(result.current.saveStatus).toBe('idle');
+  });
+
+  it('saves the latest text once typing pauses', async () => {
+    const { result } = await renderWorksheet();
+
+    act(() => {
+      result.current.setAnswer(1, 'I');
+      result.current.setAnswer(1, 'I kept');
+    });
+    expect(result.current.saveStatus).toBe('pending');
+    expect(mockSaveStepAnswers).not.toHaveBeenCalled();
+
+    await act(async () => {
+      jest.advanceTimersByTime(AUTOSAVE_DELAY_MS);
+    });
+
+    expect(mockSaveStepAnswers).toHaveBeenCalledTimes(1);
+    expect(mockSaveStepAnswers).toHaveBeenCalledWith([
+      {
+        user_id: 'user-123',
+        step_number: 4,
+        prompt_index: 1,
+        prompt: 'What part did I play?',
+        answer: 'I kept',
+      },
+    ]);
+    expect(result.current.saveStatus).toBe('saved');
+    expect(result.current.answers[1].id).toBe('saved-0');
+  });
+
+  it('saves waiting edits when the worksheet closes', async () => {
+    const { result, unmount } = await renderWorksheet();
+
+    act(() => {
+      result.current.setAnswer(0, 'My old boss and my landlord');
+    });
+    unmount();
+
+    expect(mockSaveStepAnswers).toHaveBeenCalledWith([
+      expect.objectContaining({ prompt_index: 0, answer: 'My old boss and my landlord' }),
+    ]);
+  });
+
+  it('keeps edits from a failed save and retries them with the next one', async () => {
+    mockSaveStepAnswers.mockRejectedValueOnce(new Error('offline'));
+    const { result } = await renderWorksheet();
+
+    act(() => {
+      result.current.setAnswer(0, 'First edit');
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(AUTOSAVE_DELAY_MS);
+    });
+    expect(result.current.saveStatus).toBe('error');
+
+    act(() => {
+      result.current.setAnswer(1, 'Second edit');
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(AUTOSAVE_DELAY_MS);
+    });
+
+    expect(mockSaveStepAnswers).toHaveBeenLastCalledWith([
+      expect.objectContaining({ prompt_index: 0, answer: 'First edit' }),
+      expect.objectContaining({ prompt_index: 1, answer: 'Second edit' }),
+    ]);
+    expect(result.current.saveStatus).toBe('saved');
+  });
+
+  it('clears the previous step fields when the step changes', async () => {
+    const { result, rerender } = renderHook(
+      ({ stepNumber }) => useStepWorksheet('user-123', stepNumber, PROMPTS),
+      { initialProps: { stepNumber: 4 } }
+    );
+    await waitFor(() => {
+      expect(result.current.drafts).toEqual({ 0: 'My old boss' });
+    });
+
+    mockFetchStepAnswers.mockReturnValueOnce(new Promise(() => {}));
+    rerender({ stepNumber: 5 });
+
+    expect(mockFetchStepAnswers).toHaveBeenLastCalledWith('user-123', 5);
+    expect(result.current.loading).toBe(true);
+    expect(result.current.drafts).toEqual({});
+    expect(result.current.answers).toEqual({});
+  });
+
+  it('restores edits whose save failed as the step changed when the step reopens', async () => {
+    const { result, rerender, unmount } = renderHook(
+      ({ stepNumber }) => useStepWorksheet('user-123', stepNumber, PROMPTS),
+      { initialProps: { stepNumber: 4 } }
+    );
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    mockSaveStepAnswers.mockRejectedValueOnce(new Error('offline'));
+    act(() => {
+      result.current.setAnswer(1, 'Unsaved edit');
+    });
+    mockFetchStepAnswers.mockResolvedValueOnce([]);
+    await act(async () => {
+      rerender({ stepNumber: 5 });
+    });
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.drafts).toEqual({});
+
+    await act(async () => {
+      rerender({ stepNumber: 4 });
+    });
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.drafts).toEqual({ 0: 'My old boss', 1: 'Unsaved edit' });
+    expect(result.current.saveStatus).toBe('error');
+
+    unmount();
+    expect(mockSaveStepAnswers).toHaveBeenLastCalledWith([
+      expect.objectContaining({ step_number: 4, prompt_index: 1, answer: 'Unsaved edit' }),
+    ]);
+  });
+
+  it('shares a saved answer and undoes it when the update fails', async () => {
+    const { result } = await renderWorksheet();
+
+    await act(async () => {
+      await result.current.toggleShared(0);
+    });
+    expect(mockSetStepAnswerShared).toHaveBeenCalledWith('answer-1', true);
+    expect(result.current.answers[0].shared).toBe(true);
+
+    mockSetStepAnswerShared.mockRejectedValueOnce(new Error('offline'));
+    await act(async () => {
+      await result.current.toggleShared(0);
+    });
+    expect(result.current.answers[0].shared).toBe(true);
+    expect(result.current.saveStatus).toBe('error');
+  });
+
+  it('reports an error when the answers fail to load', async () => {
+    mockFetchStepAnswers.mockRejectedValue(new Error('offline'));
+
+    const { result } = await renderWorksheet();
+
+    expect(result.current.error).toBe('Failed to load your answers. Please try again.');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Tests for useSyncStatus hook
+ *
+ * Tests the pending-sync status including:
+ * - Reporting the queue's pending and discarded counts and sync progress
+ * - Reporting connectivity
+ * - Unsubscribing on unmount
+ */
+
+import { act, renderHook } from '@testing-library/react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { subscribeToSyncQueue, SyncQueueState } from '@/lib/offline';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+const mockUnsubscribeQueue = jest.fn();
+jest.mock('@/lib/offline', () => ({
+  subscribeToSyncQueue: jest.fn(() => mockUnsubscribeQueue),
+}));
+
+const mockSubscribe = subscribeToSyncQueue as jest.Mock;
+const mockAddEventListener = NetInfo.addEventListener as jest.Mock;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+describe('useSyncStatus', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('starts with nothing pending and online', () => {
+    const { result } = renderHook(() => useSyncStatus());
+
+    expect(result.current).toEqual({
+      pendingCount: 0,
+      isSyncing: false,
+      discardedCount: 0,
+      isOffline: false,
+    });
+  });
+
+  it('reports queue changes', () => {
+    const { result } = renderHook(() => useSyncStatus());
+    const listener: (state: SyncQueueState) => void = mockSubscribe.mock.calls[0][0];
+
+    act(() => listener({ pendingCount: 2, isSyncing: true, discardedCount: 1 }));
+
+    expect(result.current.pendingCount).toBe(2);
+    expect(result.current.isSyncing).toBe(true);
+    expect(result.current.discardedCount).toBe(1);
+  });
+
+  it('reports when the device goes offline', () => {
+    const { result } = renderHook(() => useSyncStatus());
+    const onChange = mockAddEventListener.mock.calls[0][0];
+
+    act(() => onChange({ isConnected: false, isInternetReachable: false }));
+
+    expect(result.current.isOffline).toBe(true);
+  });
+
+  it('unsubscribes on unmount', () => {
+    const unsubscribeNetInfo = jest.fn();
+    mockAddEventListener.mockReturnValueOnce(unsubscribeNetInfo);
+
+    const { unmount } = renderHook(() => useSyncStatus());
+    unmount();
+
+    expect(mockUnsubscribeQueue).toHaveBeenCalled();
+    expect(unsubscribeNetInfo).toHaveBeenCalled();
+  });
+});
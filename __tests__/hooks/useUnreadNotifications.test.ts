@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Tests for useUnreadNotifications hook
+ *
+ * Tests the unread notification count including:
+ * - Counting unread notifications for the current user
+ * - Re-fetching when the refresh key changes
+ * - Error handling
+ */
+
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
+import { countUnreadNotifications } from '@/lib/repositories';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    profile: { id: 'user-123' },
+  }),
+}));
+
+jest.mock('@/lib/repositories', () => ({
+  countUnreadNotifications: jest.fn(),
+}));
+
+const mockCountUnread = countUnreadNotifications as jest.Mock;
+
+// =============================================================================
+// Test Suite
+// =============================================================================
+
+describe('useUnreadNotifications', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCountUnread.mockResolvedValue(3);
+  });
+
+  it('counts unread notifications for the current user', async () => {
+    const { result } = renderHook(() => useUnreadNotifications());
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(3);
+    });
+    expect(mockCountUnread).toHaveBeenCalledWith('user-123');
+  });
+
+  it('re-fetches when the refresh key changes', async () => {
+    const { result, rerender } = renderHook(
+      ({ refreshKey }: { refreshKey: string }) => useUnreadNotifications(refreshKey),
+      { initialProps: { refreshKey: '/' } }
+    );
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(3);
+    });
+
+    mockCountUnread.mockResolvedValue(0);
+    rerender({ refreshKey: '/notifications' });
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(0);
+    });
+    expect(mockCountUnread).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the previous count when the query fails', async () => {
+    const { result, rerender } = renderHook(
+      ({ refreshKey }: { refreshKey: string }) => useUnreadNotifications(refreshKey),
+      { initialProps: { refreshKey: '/' } }
+    );
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(3);
+    });
+
+    mockCountUnread.mockRejectedValue(new Error('boom'));
+    rerender({ refreshKey: '/notifications' });
+
+    await waitFor(() => {
+      expect(mockCountUnread).toHaveBeenCalledTimes(2);
+    });
+    expect(result.current.unreadCount).toBe(3);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Tests for lib/amends.ts
+ *
+ * Tests the amends list helpers including:
+ * - Listing the entries with one status
+ * - Counting entries by status
+ */
+
+import { getAmendsByStatus, summarizeAmends } from '@/lib/amends';
+import type { AmendsEntry } from '@/types/database';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const entry = (overrides: Partial<AmendsEntry>): AmendsEntry => ({
+  id: 'amends',
+  user_id: 'user-1',
+  person: 'Person',
+  harm: '',
+  approach: '',
+  status: 'willing',
+  deferred_reason: '',
+  made_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const entries = [
+  entry({ id: 'boss', status: 'planned', created_at: '2024-01-03T00:00:00Z' }),
+  entry({ id: 'brother', status: 'planned', created_at: '2024-01-02T00:00:00Z' }),
+  entry({ id: 'sister', status: 'made', made_at: '2024-02-01T00:00:00Z' }),
+  entry({ id: 'ex', status: 'deferred', deferred_reason: 'Would hurt their family' }),
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('amends helpers', () => {
+  describe('getAmendsByStatus', () => {
+    it('lists the entries with one status, oldest first', () => {
+      expect(getAmendsByStatus(entries, 'planned').map((e) => e.id)).toEqual(['brother', 'boss']);
+      expect(getAmendsByStatus(entries, 'willing')).toEqual([]);
+    });
+  });
+
+  describe('summarizeAmends', () => {
+    it('counts entries by status', () => {
+      expect(summarizeAmends(entries)).toEqual({ willing: 0, planned: 2, made: 1, deferred: 1 });
+    });
+
+    it('counts nothing for an empty list', () => {
+      expect(summarizeAmends([])).toEqual({ willing: 0, planned: 0, made: 0, deferred: 0 });
+    });
+  });
+});
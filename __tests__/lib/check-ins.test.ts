@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Tests for lib/check-ins.ts
+ *
+ * Tests the daily check-in helpers including:
+ * - Counting the check-in streak
+ * - Listing the HALT flags raised
+ * - Summarizing recent check-ins for a sponsor
+ */
+
+import { getCheckInStreak, getHaltLabels, summarizeCheckIns } from '@/lib/check-ins';
+import type { SharedCheckIn } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/date', () => jest.requireActual('@/lib/date'));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const checkIn = (overrides: Partial<SharedCheckIn>): SharedCheckIn => ({
+  check_in_date: '2024-03-05',
+  mood: 3,
+  hungry: false,
+  angry: false,
+  lonely: false,
+  tired: false,
+  ...overrides,
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('check-in helpers', () => {
+  describe('getCheckInStreak', () => {
+    it('counts consecutive days ending today', () => {
+      expect(
+        getCheckInStreak(['2024-03-03', '2024-03-05', '2024-03-04', '2024-03-01'], '2024-03-05')
+      ).toBe(3);
+    });
+
+    it('keeps a streak that reaches yesterday alive', () => {
+      expect(getCheckInStreak(['2024-03-04', '2024-03-03'], '2024-03-05')).toBe(2);
+    });
+
+    it('counts across a month boundary', () => {
+      expect(getCheckInStreak(['2024-03-01', '2024-02-29', '2024-02-28'], '2024-03-01')).toBe(3);
+    });
+
+    it('is broken by a missed day', () => {
+      expect(getCheckInStreak(['2024-03-03', '2024-03-02'], '2024-03-05')).toBe(0);
+      expect(getCheckInStreak([], '2024-03-05')).toBe(0);
+    });
+  });
+
+  describe('getHaltLabels', () => {
+    it('lists the raised flags in HALT order', () => {
+      expect(getHaltLabels(checkIn({ tired: true, hungry: true }))).toEqual(['Hungry', 'Tired']);
+      expect(getHaltLabels(checkIn({}))).toEqual([]);
+    });
+  });
+
+  describe('summarizeCheckIns', () => {
+    it('summarizes the streak and the last seven days', () => {
+      const checkIns = [
+        checkIn({ check_in_date: '2024-03-05', mood: 4, angry: true, tired: true }),
+        checkIn({ check_in_date: '2024-03-04', mood: 2, tired: true }),
+        checkIn({ check_in_date: '2024-02-28', mood: 5, lonely: true }),
+        checkIn({ check_in_date: '2024-02-20', mood: 1, hungry: true }),
+      ];
+
+      expect(summarizeCheckIns(checkIns, '2024-03-05')).toEqual({
+        streak: 2,
+        daysCheckedIn: 3,
+        averageMood: 11 / 3,
+        halt: { hungry: 0, angry: 1, lonely: 1, tired: 2 },
+      });
+    });
+
+    it('has no average mood without recent check-ins', () => {
+      expect(summarizeCheckIns([checkIn({ check_in_date: '2024-01-01' })], '2024-03-05')).toEqual({
+        streak: 0,
+        daysCheckedIn: 0,
+        averageMood: null,
+        halt: { hungry: 0, angry: 0, lonely: 0, tired: 0 },
+      });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Tests for lib/connection-requests.ts
+ *
+ * Tests answering connection and reconnect requests including:
+ * - Accepting and notifying the sponsee
+ * - Declining and notifying the sponsee
+ * - Asking, accepting and declining to reconnect
+ * - Not notifying when the update fails
+ */
+
+import {
+  acceptConnectionRequest,
+  acceptReconnection,
+  declineConnectionRequest,
+  declineReconnection,
+  requestReconnection,
+} from '@/lib/connection-requests';
+import {
+  acceptRelationship,
+  clearReconnectRequest,
+  closeRelationshipRequest,
+  reactivateRelationship,
+  requestReconnect,
+} from '@/lib/repositories';
+import { sendNotification } from '@/lib/notifications';
+import type { Profile, SponsorSponseeRelationship } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  acceptRelationship: jest.fn(),
+  closeRelationshipRequest: jest.fn(),
+  clearReconnectRequest: jest.fn(),
+  reactivateRelationship: jest.fn(),
+  requestReconnect: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  sendNotification: jest.fn(),
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const sponsor = { id: 'sponsor-1', first_name: 'Jane', last_initial: 'S' } as Profile;
+
+const request = {
+  id: 'rel-1',
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'sponsee-1',
+  status: 'pending',
+} as SponsorSponseeRelationship;
+
+const sponsee = { id: 'sponsee-1', first_name: 'Alex', last_initial: 'P' } as Profile;
+
+const past = {
+  id: 'rel-2',
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'sponsee-1',
+  status: 'inactive',
+} as SponsorSponseeRelationship;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('connection requests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (acceptRelationship as jest.Mock).mockResolvedValue(undefined);
+    (closeRelationshipRequest as jest.Mock).mockResolvedValue(undefined);
+    (clearReconnectRequest as jest.Mock).mockResolvedValue(undefined);
+    (reactivateRelationship as jest.Mock).mockResolvedValue(undefined);
+    (requestReconnect as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('acceptConnectionRequest', () => {
+    it('activates the relationship and notifies the sponsee', async () => {
+      await acceptConnectionRequest(request, sponsor);
+
+      expect(acceptRelationship).toHaveBeenCalledWith('rel-1');
+      expect(sendNotification).toHaveBeenCalledWith({
+        user_id: 'sponsee-1',
+        type: 'connection_request',
+        title: 'Connection Request Accepted',
+        content: 'Jane S. accepted your request and is now your sponsor.',
+        data: { relationship_id: 'rel-1', sponsor_id: 'sponsor-1' },
+      });
+    });
+
+    it('does not notify when the update fails', async () => {
+      const error = new Error('denied');
+      (acceptRelationship as jest.Mock).mockRejectedValue(error);
+
+      await expect(acceptConnectionRequest(request, sponsor)).rejects.toBe(error);
+      expect(sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('declineConnectionRequest', () => {
+    it('closes the request and notifies the sponsee', async () => {
+      await declineConnectionRequest(request, sponsor);
+
+      expect(closeRelationshipRequest).toHaveBeenCalledWith('rel-1');
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'sponsee-1',
+          title: 'Connection Request Declined',
+          content: 'Jane S. declined your connection request.',
+        })
+      );
+    });
+  });
+
+  describe('reconnecting', () => {
+    it('records the request and notifies the other member', async () => {
+      await requestReconnection(past, sponsee);
+
+      expect(requestReconnect).toHaveBeenCalledWith('rel-2', 'sponsee-1');
+      expect(sendNotification).toHaveBeenCalledWith({
+        user_id: 'sponsor-1',
+        type: 'connection_request',
+        title: 'Reconnect Request',
+        content: 'Alex P. would like to reconnect. Accept or decline the request in your profile.',
+        data: { relationship_id: 'rel-2' },
+      });
+    });
+
+    it('reactivates the relationship when accepted', async () => {
+      await acceptReconnection(past, sponsor);
+
+      expect(reactivateRelationship).toHaveBeenCalledWith('rel-2');
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'sponsee-1',
+          title: 'Reconnected',
+          content: 'Jane S. accepted your request to reconnect.',
+        })
+      );
+    });
+
+    it('clears the request when declined', async () => {
+      await declineReconnection(past, sponsor);
+
+      expect(clearReconnectRequest).toHaveBeenCalledWith('rel-2');
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'sponsee-1',
+          title: 'Reconnect Request Declined',
+        })
+      );
+    });
+
+    it('does not notify when reactivating fails', async () => {
+      const error = new Error('denied');
+      (reactivateRelationship as jest.Mock).mockRejectedValue(error);
+
+      await expect(acceptReconnection(past, sponsor)).rejects.toBe(error);
+      expect(sendNotification).not.toHaveBeenCalled();
+    });
+  });
+});
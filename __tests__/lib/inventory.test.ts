@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Tests for lib/inventory.ts
+ *
+ * Tests the Step 4 inventory helpers including:
+ * - Listing one kind's entries by position
+ * - Moving an entry up or down within its kind
+ * - Totals for the summary view
+ * - Exporting the inventory as text
+ */
+
+import {
+  formatInventoryForExport,
+  getInventoryEntries,
+  moveInventoryEntry,
+  summarizeInventory,
+} from '@/lib/inventory';
+import type { InventoryEntry } from '@/types/database';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const entry = (overrides: Partial<InventoryEntry>): InventoryEntry => ({
+  id: 'entry',
+  user_id: 'user-1',
+  kind: 'resentment',
+  subject: 'Subject',
+  cause: '',
+  affects: '',
+  my_part: '',
+  position: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const entries = [
+  entry({ id: 'boss', subject: 'My old boss', position: 1, cause: 'Passed me over' }),
+  entry({ id: 'brother', subject: 'My brother', position: 0, my_part: 'I never called back' }),
+  entry({ id: 'fear', kind: 'fear', subject: 'Being alone', affects: 'Security' }),
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('inventory helpers', () => {
+  describe('getInventoryEntries', () => {
+    it("lists one kind's entries by position", () => {
+      expect(getInventoryEntries(entries, 'resentment').map((e) => e.id)).toEqual([
+        'brother',
+        'boss',
+      ]);
+      expect(getInventoryEntries(entries, 'harm')).toEqual([]);
+    });
+  });
+
+  describe('moveInventoryEntry', () => {
+    it('moves an entry and renumbers its kind', () => {
+      const moved = moveInventoryEntry(entries, 'boss', -1);
+
+      expect(moved?.map((e) => [e.id, e.position])).toEqual([
+        ['boss', 0],
+        ['brother', 1],
+      ]);
+    });
+
+    it('returns null when the entry is already at the edge', () => {
+      expect(moveInventoryEntry(entries, 'brother', -1)).toBeNull();
+      expect(moveInventoryEntry(entries, 'boss', 1)).toBeNull();
+      expect(moveInventoryEntry(entries, 'fear', 1)).toBeNull();
+      expect(moveInventoryEntry(entries, 'missing', 1)).toBeNull();
+    });
+  });
+
+  describe('summarizeInventory', () => {
+    it('totals each kind and the entries with my part written', () => {
+      expect(summarizeInventory(entries)).toEqual([
+        { kind: 'resentment', count: 2, withMyPart: 1 },
+        { kind: 'fear', count: 1, withMyPart: 0 },
+        { kind: 'harm', count: 0, withMyPart: 0 },
+      ]);
+    });
+  });
+
+  describe('formatInventoryForExport', () => {
+    it('writes each kind with its entries numbered and labelled', () => {
+      expect(formatInventoryForExport(entries)).toBe(
+        [
+          'Step 4 Inventory',
+          'Resentments (2)',
+          '1. My brother\n   My part: I never called back',
+          '2. My old boss\n   The cause: Passed me over',
+          'Fears (1)',
+          '1. Being alone\n   Affects my: Security',
+        ].join('\n\n')
+      );
+    });
+
+    it('writes just the heading for an empty inventory', () => {
+      expect(formatInventoryForExport([])).toBe('Step 4 Inventory');
+    });
+  });
+});
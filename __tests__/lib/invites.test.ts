@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Tests for lib/invites.ts
+ *
+ * Tests invite code generation and redemption including:
+ * - Secure, unambiguous code generation
+ * - Retrying on code collisions
+ * - Mapping redemption statuses to messages
+ * - Pending requests for sponsors who approve new sponsees
+ * - Notifying both users on success
+ * - Invite links and the pending invite handoff
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getRandomBytes } from 'expo-crypto';
+import {
+  buildInviteLink,
+  createSponsorInvite,
+  generateInviteCode,
+  INVITE_CODE_ALPHABET,
+  redeemInviteCode,
+  savePendingInvite,
+  takePendingInvite,
+} from '@/lib/invites';
+import { claimInviteCode, createInviteCode } from '@/lib/repositories';
+import { sendNotification, sendNotifications } from '@/lib/notifications';
+import type { InviteCodeClaim, Profile } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  claimInviteCode: jest.fn(),
+  createInviteCode: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  sendNotification: jest.fn(),
+  sendNotifications: jest.fn(),
+}));
+
+// =============================================================================
+// Test Data & Helpers
+// =============================================================================
+const sponsee = { id: 'sponsee-1', first_name: 'Sam', last_initial: 'T' } as Profile;
+
+const claim = (overrides: Partial<InviteCodeClaim> = {}): InviteCodeClaim => ({
+  status: 'connected',
+  relationship_id: 'rel-1',
+  sponsor_id: 'sponsor-1',
+  sponsor_first_name: 'Jane',
+  sponsor_last_initial: 'S',
+  ...overrides,
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('invites', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (claimInviteCode as jest.Mock).mockResolvedValue(claim());
+    (createInviteCode as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('generateInviteCode', () => {
+    it('builds an 8-character code from the unambiguous alphabet', () => {
+      for (let i = 0; i < 50; i++) {
+        const code = generateInviteCode();
+        expect(code).toHaveLength(8);
+        expect([...code].every((char) => INVITE_CODE_ALPHABET.includes(char))).toBe(true);
+      }
+    });
+
+    it('maps each random byte onto the alphabet', () => {
+      (getRandomBytes as jest.Mock).mockReturnValueOnce(
+        new Uint8Array([0, 1, 31, 32, 33, 255, 24, 8])
+      );
+
+      expect(generateInviteCode()).toBe('AB9AB92J');
+    });
+
+    it('never uses look-alike characters', () => {
+      expect(INVITE_CODE_ALPHABET).not.toMatch(/[01IO]/);
+    });
+  });
+
+  describe('createSponsorInvite', () => {
+    it('stores a code that expires in 30 days', async () => {
+      const { code, expiresAt } = await createSponsorInvite('sponsor-1');
+
+      expect(createInviteCode).toHaveBeenCalledWith('sponsor-1', code, expiresAt);
+      const days = Math.round((expiresAt.getTime() - Date.now()) / 86400000);
+      expect(days).toBe(30);
+    });
+
+    it('retries with a new code when a code collides', async () => {
+      (createInviteCode as jest.Mock)
+        .mockRejectedValueOnce({ code: '23505', message: 'duplicate key' })
+        .mockResolvedValueOnce(undefined);
+
+      const { code } = await createSponsorInvite('sponsor-1');
+
+      expect(createInviteCode).toHaveBeenCalledTimes(2);
+      expect(createInviteCode).toHaveBeenLastCalledWith('sponsor-1', code, expect.any(Date));
+    });
+
+    it('gives up after repeated collisions', async () => {
+      const collision = { code: '23505', message: 'duplicate key' };
+      (createInviteCode as jest.Mock).mockRejectedValue(collision);
+
+      await expect(createSponsorInvite('sponsor-1')).rejects.toBe(collision);
+      expect(createInviteCode).toHaveBeenCalledTimes(5);
+    });
+
+    it('does not retry other failures', async () => {
+      const error = { code: '42501', message: 'RLS denied' };
+      (createInviteCode as jest.Mock).mockRejectedValue(error);
+
+      await expect(createSponsorInvite('sponsor-1')).rejects.toBe(error);
+      expect(createInviteCode).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('redeemInviteCode', () => {
+    it('redeems the normalized code and notifies both users', async () => {
+      const result = await redeemInviteCode('  abcd2345 ', sponsee);
+
+      expect(result).toEqual({
+        status: 'connected',
+        sponsor: { id: 'sponsor-1', first_name: 'Jane', last_initial: 'S' },
+      });
+      expect(claimInviteCode).toHaveBeenCalledWith('ABCD2345');
+      expect(sendNotifications).toHaveBeenCalledWith([
+        expect.objectContaining({ user_id: 'sponsor-1', title: 'New Sponsee Connected' }),
+        expect.objectContaining({ user_id: 'sponsee-1', title: 'Connected to Sponsor' }),
+      ]);
+    });
+
+    it('asks only the sponsor to approve a pending request', async () => {
+      (claimInviteCode as jest.Mock).mockResolvedValue(claim({ status: 'pending' }));
+
+      await expect(redeemInviteCode('ABCD2345', sponsee)).resolves.toEqual({
+        status: 'pending',
+        sponsor: { id: 'sponsor-1', first_name: 'Jane', last_initial: 'S' },
+      });
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'sponsor-1',
+          type: 'connection_request',
+          title: 'New Connection Request',
+          data: { relationship_id: 'rel-1', sponsee_id: 'sponsee-1' },
+        })
+      );
+      expect(sendNotifications).not.toHaveBeenCalled();
+    });
+
+    it('rejects codes of the wrong length without calling the RPC', async () => {
+      await expect(redeemInviteCode('ABC', sponsee)).resolves.toEqual({
+        status: 'rejected',
+        reason: 'Invite code must be 8 characters',
+      });
+      expect(claimInviteCode).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['not_found', 'Invalid or expired invite code'],
+      ['expired', 'This invite code has expired'],
+      ['revoked', 'This invite code has been revoked'],
+      ['used', 'This invite code has already been used'],
+      ['self', 'You cannot connect to yourself as a sponsor'],
+      ['already_connected', 'You are already connected to this sponsor'],
+      ['already_requested', 'You have already asked to connect with this sponsor'],
+    ] as const)('maps the %s status to a message', async (status, reason) => {
+      (claimInviteCode as jest.Mock).mockResolvedValue(claim({ status, relationship_id: null }));
+
+      await expect(redeemInviteCode('ABCD2345', sponsee)).resolves.toEqual({
+        status: 'rejected',
+        reason,
+      });
+      expect(sendNotifications).not.toHaveBeenCalled();
+    });
+
+    it('throws when the RPC fails', async () => {
+      const error = new Error('Network error');
+      (claimInviteCode as jest.Mock).mockRejectedValue(error);
+
+      await expect(redeemInviteCode('ABCD2345', sponsee)).rejects.toBe(error);
+    });
+  });
+
+  describe('buildInviteLink', () => {
+    it('links to the invite route on the app domain', () => {
+      expect(buildInviteLink('ABCD2345')).toBe('https://sobrietywaypoint.com/invite/ABCD2345');
+    });
+  });
+
+  describe('pending invites', () => {
+    it('saves the normalized code', async () => {
+      await savePendingInvite(' abcd2345 ');
+
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('pending_invite_code', 'ABCD2345');
+    });
+
+    it('returns and clears a saved code', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce('ABCD2345');
+
+      await expect(takePendingInvite()).resolves.toBe('ABCD2345');
+      expect(AsyncStorage.removeItem).toHaveBeenCalledWith('pending_invite_code');
+    });
+
+    it('returns null when no code is saved', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(takePendingInvite()).resolves.toBeNull();
+      expect(AsyncStorage.removeItem).not.toHaveBeenCalled();
+    });
+
+    it('returns null when storage fails', async () => {
+      (AsyncStorage.getItem as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(takePendingInvite()).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Tests for lib/local-notifications.ts
+ *
+ * Tests local notification scheduling including:
+ * - Reminder time parsing and formatting
+ * - Milestone, daily and task due-date reminder scheduling
+ * - Preference gating and permission handling
+ */
+
+import * as Notifications from 'expo-notifications';
+import {
+  formatReminderTime,
+  parseReminderTime,
+  rescheduleLocalNotifications,
+  LocalNotificationSchedule,
+} from '@/lib/local-notifications';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/date', () => ({
+  getDateDiffInDays: jest.fn(() => 45),
+}));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const baseSchedule: LocalNotificationSchedule = {
+  streakStartDate: '2024-01-01',
+  timezone: 'UTC',
+  milestonesEnabled: true,
+  dailyEnabled: true,
+  dailyReminderTime: '20:30:00',
+  tasksEnabled: true,
+  dueTasks: [],
+};
+
+const scheduledTriggers = () =>
+  (Notifications.scheduleNotificationAsync as jest.Mock).mock.calls.map(([request]) => request);
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('parseReminderTime', () => {
+  it('parses HH:MM and HH:MM:SS values', () => {
+    expect(parseReminderTime('07:05')).toEqual({ hour: 7, minute: 5 });
+    expect(parseReminderTime('20:30:00')).toEqual({ hour: 20, minute: 30 });
+  });
+
+  it('falls back to the default for missing or invalid values', () => {
+    expect(parseReminderTime(null)).toEqual({ hour: 9, minute: 0 });
+    expect(parseReminderTime('25:00')).toEqual({ hour: 9, minute: 0 });
+    expect(parseReminderTime('soon')).toEqual({ hour: 9, minute: 0 });
+  });
+});
+
+describe('formatReminderTime', () => {
+  it('formats local hours and minutes with padding', () => {
+    const date = new Date();
+    date.setHours(7, 5, 0, 0);
+
+    expect(formatReminderTime(date)).toBe('07:05');
+  });
+});
+
+describe('rescheduleLocalNotifications', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2024-02-15T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('clears the old schedule and schedules upcoming milestones and the daily reminder', async () => {
+    const count = await rescheduleLocalNotifications(baseSchedule);
+
+    expect(Notifications.cancelAllScheduledNotificationsAsync).toHaveBeenCalled();
+    // 60, 90, 180, 365, 730 and 1095 days, plus the daily reminder
+    expect(count).toBe(7);
+
+    const requests = scheduledTriggers();
+    expect(requests[0]).toEqual(
+      expect.objectContaining({
+        content: expect.objectContaining({ title: '60 Days Sober' }),
+        trigger: expect.objectContaining({
+          type: 'date',
+          date: new Date('2024-03-01T09:00:00.000Z'),
+        }),
+      })
+    );
+    expect(requests[requests.length - 1].trigger).toEqual(
+      expect.objectContaining({ type: 'daily', hour: 20, minute: 30 })
+    );
+  });
+
+  it('skips milestones when milestone notifications are off', async () => {
+    const count = await rescheduleLocalNotifications({ ...baseSchedule, milestonesEnabled: false });
+
+    expect(count).toBe(1);
+    expect(scheduledTriggers()[0].trigger.type).toBe('daily');
+  });
+
+  it('reminds about due tasks the day before and on the day, skipping past times', async () => {
+    const count = await rescheduleLocalNotifications({
+      ...baseSchedule,
+      milestonesEnabled: false,
+      dailyEnabled: false,
+      dueTasks: [
+        { id: 'task-1', title: 'Call your sponsor', due_date: '2024-02-17' },
+        // The day-before reminder has already passed
+        { id: 'task-2', title: 'Read Step 4', due_date: '2024-02-16' },
+      ],
+    });
+
+    expect(count).toBe(3);
+    expect(scheduledTriggers()).toEqual([
+      expect.objectContaining({
+        content: expect.objectContaining({ body: '"Call your sponsor" is due tomorrow.' }),
+        trigger: expect.objectContaining({ date: new Date('2024-02-16T09:00:00.000Z') }),
+      }),
+      expect.objectContaining({
+        content: expect.objectContaining({
+          body: '"Call your sponsor" is due today.',
+          data: { type: 'task_due', task_id: 'task-1' },
+        }),
+        trigger: expect.objectContaining({ date: new Date('2024-02-17T09:00:00.000Z') }),
+      }),
+      expect.objectContaining({
+        content: expect.objectContaining({ body: '"Read Step 4" is due today.' }),
+      }),
+    ]);
+  });
+
+  it('skips due task reminders when task notifications are off', async () => {
+    const count = await rescheduleLocalNotifications({
+      ...baseSchedule,
+      milestonesEnabled: false,
+      dailyEnabled: false,
+      tasksEnabled: false,
+      dueTasks: [{ id: 'task-1', title: 'Call your sponsor', due_date: '2024-02-17' }],
+    });
+
+    expect(count).toBe(0);
+    expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+  });
+
+  it('only clears the schedule when everything is off', async () => {
+    const count = await rescheduleLocalNotifications({
+      ...baseSchedule,
+      milestonesEnabled: false,
+      dailyEnabled: false,
+    });
+
+    expect(count).toBe(0);
+    expect(Notifications.cancelAllScheduledNotificationsAsync).toHaveBeenCalled();
+    expect(Notifications.getPermissionsAsync).not.toHaveBeenCalled();
+    expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+  });
+
+  it('schedules nothing when permission is denied', async () => {
+    (Notifications.getPermissionsAsync as jest.Mock).mockResolvedValueOnce({ granted: false });
+    (Notifications.requestPermissionsAsync as jest.Mock).mockResolvedValueOnce({ granted: false });
+
+    const count = await rescheduleLocalNotifications(baseSchedule);
+
+    expect(count).toBe(0);
+    expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+  });
+});
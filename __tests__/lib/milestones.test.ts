@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Tests for lib/milestones.ts
+ *
+ * Tests the shared sobriety milestone helpers including:
+ * - Milestone thresholds
+ * - Upcoming milestone filtering
+ * - Timezone-aware milestone dates
+ */
+
+import { SOBRIETY_MILESTONES, getMilestoneDate, getUpcomingMilestones } from '@/lib/milestones';
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('SOBRIETY_MILESTONES', () => {
+  it('is sorted ascending by days', () => {
+    const days = SOBRIETY_MILESTONES.map((m) => m.days);
+    expect(days).toEqual([...days].sort((a, b) => a - b));
+  });
+});
+
+describe('getUpcomingMilestones', () => {
+  it('returns only milestones beyond the current streak', () => {
+    expect(getUpcomingMilestones(45).map((m) => m.days)).toEqual([60, 90, 180, 365, 730, 1095]);
+  });
+
+  it('excludes a milestone reached today', () => {
+    expect(getUpcomingMilestones(30)[0].days).toBe(60);
+  });
+
+  it('returns nothing once every milestone is reached', () => {
+    expect(getUpcomingMilestones(2000)).toEqual([]);
+  });
+});
+
+describe('getMilestoneDate', () => {
+  it('adds days as calendar days at the given local hour', () => {
+    const date = getMilestoneDate('2024-01-01', 30, 'America/New_York', 9);
+
+    // 2024-01-31 09:00 EST is 14:00 UTC
+    expect(date.toISOString()).toBe('2024-01-31T14:00:00.000Z');
+  });
+
+  it('keeps the local hour across daylight saving changes', () => {
+    const date = getMilestoneDate('2024-03-01', 30, 'America/New_York', 9);
+
+    // 2024-03-31 09:00 EDT is 13:00 UTC
+    expect(date.toISOString()).toBe('2024-03-31T13:00:00.000Z');
+  });
+
+  it('defaults to midnight', () => {
+    const date = getMilestoneDate('2024-01-01', 7, 'UTC');
+
+    expect(date.toISOString()).toBe('2024-01-08T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Tests for lib/notifications.ts
+ *
+ * Tests the notification dispatch module including:
+ * - Mapping notification types to preference flags
+ * - Skipping recipients who opted out
+ * - Falling back to sending when preferences cannot be read
+ * - Best-effort error handling
+ */
+
+import {
+  isNotificationEnabled,
+  sendNotification,
+  sendNotifications,
+  NotificationInput,
+} from '@/lib/notifications';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+// =============================================================================
+// Test Data & Helpers
+// =============================================================================
+const allOn = { tasks: true, messages: true, milestones: true, daily: true };
+
+const taskAssigned: NotificationInput = {
+  user_id: 'sponsee-1',
+  type: 'task_assigned',
+  title: 'New Task Assigned',
+  content: 'Your sponsor has assigned you a new task: Call a friend',
+  data: { task_title: 'Call a friend' },
+};
+
+const mockIn = jest.fn();
+const mockInsert = jest.fn();
+
+const setupSupabaseMock = ({
+  profiles = [] as unknown[],
+  profilesError = null as unknown,
+  insertError = null as unknown,
+}) => {
+  mockIn.mockResolvedValue({ data: profiles, error: profilesError });
+  mockInsert.mockResolvedValue({ error: insertError });
+
+  (supabase.from as jest.Mock).mockImplementation((table: string) => {
+    if (table === 'profiles') {
+      return { select: jest.fn().mockReturnValue({ in: mockIn }) };
+    }
+    return { insert: mockInsert };
+  });
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('isNotificationEnabled', () => {
+  it('maps each type to its preference flag', () => {
+    const prefs = { tasks: false, messages: true, milestones: false, daily: true };
+
+    expect(isNotificationEnabled(prefs, 'task_assigned')).toBe(false);
+    expect(isNotificationEnabled(prefs, 'task_completed')).toBe(false);
+    expect(isNotificationEnabled(prefs, 'message')).toBe(true);
+    expect(isNotificationEnabled(prefs, 'milestone')).toBe(false);
+  });
+
+  it('always delivers connection requests', () => {
+    const prefs = { tasks: false, messages: false, milestones: false, daily: false };
+
+    expect(isNotificationEnabled(prefs, 'connection_request')).toBe(true);
+  });
+
+  it('treats missing preferences as opted in', () => {
+    expect(isNotificationEnabled(null, 'message')).toBe(true);
+    expect(isNotificationEnabled({}, 'task_assigned')).toBe(true);
+  });
+});
+
+describe('sendNotifications', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('does nothing for an empty list', async () => {
+    setupSupabaseMock({});
+
+    await expect(sendNotifications([])).resolves.toEqual([]);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('looks up every recipient once and inserts allowed notifications', async () => {
+    setupSupabaseMock({
+      profiles: [
+        { id: 'sponsor-1', notification_preferences: allOn },
+        { id: 'sponsor-2', notification_preferences: { ...allOn, milestones: false } },
+      ],
+    });
+
+    const slipUp = (userId: string): NotificationInput => ({
+      user_id: userId,
+      type: 'milestone',
+      title: 'Sponsee Slip Up',
+      content: 'Jo J. has logged a slip-up.',
+    });
+
+    const sent = await sendNotifications([slipUp('sponsor-1'), slipUp('sponsor-2')]);
+
+    expect(mockIn).toHaveBeenCalledWith('id', ['sponsor-1', 'sponsor-2']);
+    expect(mockInsert).toHaveBeenCalledWith([slipUp('sponsor-1')]);
+    expect(sent).toEqual([slipUp('sponsor-1')]);
+  });
+
+  it('skips the insert when every recipient opted out', async () => {
+    setupSupabaseMock({
+      profiles: [{ id: 'sponsee-1', notification_preferences: { ...allOn, tasks: false } }],
+    });
+
+    await expect(sendNotification(taskAssigned)).resolves.toBe(false);
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('still sends when preferences cannot be read', async () => {
+    setupSupabaseMock({ profilesError: new Error('permission denied') });
+
+    await expect(sendNotification(taskAssigned)).resolves.toBe(true);
+    expect(mockInsert).toHaveBeenCalledWith([taskAssigned]);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+
+  it('logs insert failures instead of throwing', async () => {
+    setupSupabaseMock({
+      profiles: [{ id: 'sponsee-1', notification_preferences: allOn }],
+      insertError: new Error('insert failed'),
+    });
+
+    await expect(sendNotification(taskAssigned)).resolves.toBe(false);
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Tests for lib/offline/cache.ts
+ *
+ * Tests the offline read cache including:
+ * - Caching successful query results
+ * - Falling back to cached data when a query fails
+ * - Clearing cached entries
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  cacheKeys,
+  clearOfflineCache,
+  readCache,
+  withOfflineCache,
+  writeCache,
+} from '@/lib/offline/cache';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+const mockStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+let mockStore: Record<string, string> = {};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('offline cache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStore = {};
+    mockStorage.getItem.mockImplementation(async (key) => mockStore[key] ?? null);
+    mockStorage.setItem.mockImplementation(async (key, value) => {
+      mockStore[key] = value;
+    });
+  });
+
+  it('round-trips values through AsyncStorage', async () => {
+    await writeCache(cacheKeys.slipUps('user-1'), [{ id: 'slip-1' }]);
+
+    await expect(readCache(cacheKeys.slipUps('user-1'))).resolves.toEqual([{ id: 'slip-1' }]);
+    expect(mockStorage.setItem).toHaveBeenCalledWith(
+      'offline_cache:slip_ups:user-1',
+      expect.any(String)
+    );
+  });
+
+  it('returns null for unreadable entries', async () => {
+    mockStore['offline_cache:steps_content'] = 'not json';
+
+    await expect(readCache(cacheKeys.stepsContent())).resolves.toBeNull();
+  });
+
+  describe('withOfflineCache', () => {
+    it('returns and caches fresh data when the query succeeds', async () => {
+      const tasks = [{ id: 'task-1' }];
+
+      await expect(
+        withOfflineCache(cacheKeys.assignedTasks('user-1'), async () => tasks)
+      ).resolves.toEqual(tasks);
+      await expect(readCache(cacheKeys.assignedTasks('user-1'))).resolves.toEqual(tasks);
+    });
+
+    it('falls back to cached data when the query fails', async () => {
+      await writeCache(cacheKeys.assignedTasks('user-1'), [{ id: 'cached' }]);
+
+      await expect(
+        withOfflineCache(cacheKeys.assignedTasks('user-1'), () =>
+          Promise.reject(new Error('TypeError: Network request failed'))
+        )
+      ).resolves.toEqual([{ id: 'cached' }]);
+    });
+
+    it('rethrows the query error when nothing is cached', async () => {
+      const error = new Error('TypeError: Network request failed');
+
+      await expect(
+        withOfflineCache(cacheKeys.assignedTasks('user-1'), () => Promise.reject(error))
+      ).rejects.toBe(error);
+    });
+  });
+
+  it('clears only cache entries', async () => {
+    mockStorage.getAllKeys.mockResolvedValue([
+      'offline_cache:slip_ups:user-1',
+      'theme_mode',
+      'offline_cache:steps_content',
+    ]);
+
+    await clearOfflineCache();
+
+    expect(mockStorage.multiRemove).toHaveBeenCalledWith([
+      'offline_cache:slip_ups:user-1',
+      'offline_cache:steps_content',
+    ]);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * @fileoverview Tests for lib/offline/queue.ts
+ *
+ * Tests the offline mutation queue including:
+ * - Applying mutations directly when online
+ * - Queueing on connectivity failures and coalescing opposite or repeated changes
+ * - Replaying in order, with conflict handling and a count of discarded changes
+ * - Overlaying pending changes onto fetched data
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  applyPendingToStepProgress,
+  applyPendingToTasks,
+  clearSyncQueue,
+  dismissDiscardedChanges,
+  getPendingMutations,
+  isNetworkError,
+  processSyncQueue,
+  startAutoSync,
+  submitMutation,
+  subscribeToSyncQueue,
+  SyncMutation,
+} from '@/lib/offline/queue';
+import { completeStep, completeTask, saveTaskDraft, uncompleteStep } from '@/lib/repositories';
+import { sendNotifications } from '@/lib/notifications';
+import { logger } from '@/lib/logger';
+import { Task, UserStepProgress } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/repositories', () => ({
+  completeTask: jest.fn(),
+  completeStep: jest.fn(),
+  saveTaskDraft: jest.fn(),
+  uncompleteStep: jest.fn(),
+}));
+
+jest.mock('@/lib/notifications', () => ({
+  sendNotifications: jest.fn(),
+}));
+
+const mockCompleteTask = completeTask as jest.Mock;
+const mockCompleteStep = completeStep as jest.Mock;
+const mockUncompleteStep = uncompleteStep as jest.Mock;
+const mockSaveTaskDraft = saveTaskDraft as jest.Mock;
+const mockSendNotifications = sendNotifications as jest.Mock;
+
+const networkError = new Error('TypeError: Network request failed');
+
+const completeStepOne: SyncMutation = {
+  type: 'complete_step',
+  userId: 'user-1',
+  stepNumber: 1,
+  completedAt: '2024-03-01T08:00:00.000Z',
+};
+
+const completeTaskOne: SyncMutation = {
+  type: 'complete_task',
+  taskId: 'task-1',
+  completionNotes: 'Done',
+  completedAt: '2024-03-01T09:00:00.000Z',
+};
+
+const draftTaskOne: SyncMutation = {
+  type: 'save_task_draft',
+  taskId: 'task-1',
+  draftNotes: 'Halfway there',
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('sync queue', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockCompleteTask.mockResolvedValue(true);
+    mockCompleteStep.mockResolvedValue({});
+    mockUncompleteStep.mockResolvedValue(undefined);
+    mockSaveTaskDraft.mockResolvedValue(undefined);
+    mockSendNotifications.mockResolvedValue([]);
+    await clearSyncQueue();
+  });
+
+  describe('isNetworkError', () => {
+    it('recognizes fetch failures', () => {
+      expect(isNetworkError(networkError)).toBe(true);
+      expect(isNetworkError({ message: 'TypeError: Failed to fetch', code: '' })).toBe(true);
+    });
+
+    it('does not treat server errors as network errors', () => {
+      expect(isNetworkError({ message: 'duplicate key value', code: '23505' })).toBe(false);
+      expect(isNetworkError(null)).toBe(false);
+    });
+  });
+
+  describe('submitMutation', () => {
+    it('applies the mutation and sends its notifications when online', async () => {
+      const notification = {
+        user_id: 'sponsor-1',
+        type: 'task_completed' as const,
+        title: 'Task Completed',
+        content: 'Done',
+      };
+
+      await expect(submitMutation(completeTaskOne, [notification])).resolves.toBe('applied');
+
+      expect(mockCompleteTask).toHaveBeenCalledWith('task-1', 'Done', '2024-03-01T09:00:00.000Z');
+      expect(mockSendNotifications).toHaveBeenCalledWith([notification]);
+      await expect(getPendingMutations()).resolves.toEqual([]);
+    });
+
+    it('queues the mutation on a network error without notifying', async () => {
+      mockCompleteStep.mockRejectedValue(networkError);
+
+      await expect(submitMutation(completeStepOne)).resolves.toBe('queued');
+
+      await expect(getPendingMutations()).resolves.toEqual([completeStepOne]);
+      expect(mockSendNotifications).not.toHaveBeenCalled();
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('sync_queue', expect.any(String));
+    });
+
+    it('rethrows errors returned by the server', async () => {
+      const error = { message: 'permission denied', code: '42501' };
+      mockCompleteStep.mockRejectedValue(error);
+
+      await expect(submitMutation(completeStepOne)).rejects.toBe(error);
+      await expect(getPendingMutations()).resolves.toEqual([]);
+    });
+
+    it('reports a conflict without notifying when the task no longer exists', async () => {
+      mockCompleteTask.mockResolvedValue(false);
+
+      await expect(
+        submitMutation(completeTaskOne, [
+          {
+            user_id: 'sponsor-1',
+            type: 'task_completed',
+            title: 'Task Completed',
+            content: 'Done',
+          },
+        ])
+      ).resolves.toBe('conflict');
+
+      expect(mockSendNotifications).not.toHaveBeenCalled();
+      await expect(getPendingMutations()).resolves.toEqual([]);
+    });
+
+    it('queues behind earlier changes instead of applying directly', async () => {
+      mockCompleteStep.mockRejectedValue(networkError);
+      await submitMutation(completeStepOne);
+      mockCompleteTask.mockRejectedValue(networkError);
+
+      await expect(submitMutation(completeTaskOne)).resolves.toBe('queued');
+
+      await expect(getPendingMutations()).resolves.toEqual([completeStepOne, completeTaskOne]);
+    });
+
+    it('cancels a queued completion when the step is un-completed', async () => {
+      mockCompleteStep.mockRejectedValue(networkError);
+      await submitMutation(completeStepOne);
+
+      await submitMutation({ type: 'uncomplete_step', userId: 'user-1', stepNumber: 1 });
+
+      await expect(getPendingMutations()).resolves.toEqual([]);
+      expect(mockUncompleteStep).not.toHaveBeenCalled();
+    });
+
+    it('keeps only the latest draft and drops drafts once the task is completed', async () => {
+      mockSaveTaskDraft.mockRejectedValue(networkError);
+      await submitMutation({ ...draftTaskOne, draftNotes: 'First pass' });
+      await submitMutation(draftTaskOne);
+
+      await expect(getPendingMutations()).resolves.toEqual([draftTaskOne]);
+
+      await submitMutation(completeTaskOne);
+
+      await expect(getPendingMutations()).resolves.toEqual([completeTaskOne]);
+    });
+  });
+
+  describe('processSyncQueue', () => {
+    it('replays queued mutations in order once back online', async () => {
+      mockCompleteStep.mockRejectedValue(networkError);
+      await submitMutation(completeStepOne);
+      await submitMutation(completeTaskOne);
+      await processSyncQueue();
+      jest.clearAllMocks();
+      mockCompleteStep.mockResolvedValue({});
+
+      await expect(processSyncQueue()).resolves.toEqual({ synced: 2, conflicts: 0, pending: 0 });
+
+      expect(mockCompleteStep).toHaveBeenCalledWith('user-1', 1, '2024-03-01T08:00:00.000Z');
+      expect(mockCompleteTask).toHaveBeenCalledWith('task-1', 'Done', '2024-03-01T09:00:00.000Z');
+      expect(mockCompleteStep.mock.invocationCallOrder[0]).toBeLessThan(
+        mockCompleteTask.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('stops and keeps the queue when the connection is still down', async () => {
+      mockCompleteStep.mockRejectedValue(networkError);
+      await submitMutation(completeStepOne);
+
+      await expect(processSyncQueue()).resolves.toEqual({ synced: 0, conflicts: 0, pending: 1 });
+      await expect(getPendingMutations()).resolves.toEqual([completeStepOne]);
+    });
+
+    it('treats duplicates as already synced', async () => {
+      mockCompleteStep.mockRejectedValueOnce(networkError);
+      await submitMutation(completeStepOne);
+      mockCompleteStep.mockRejectedValueOnce({ message: 'duplicate key value', code: '23505' });
+
+      await expect(processSyncQueue()).resolves.toEqual({ synced: 1, conflicts: 0, pending: 0 });
+    });
+
+    it('discards mutations the server rejects and logs the conflict', async () => {
+      mockCompleteTask.mockRejectedValueOnce(networkError);
+      await submitMutation(completeTaskOne);
+      mockCompleteTask.mockRejectedValueOnce({ message: 'permission denied', code: '42501' });
+
+      await expect(processSyncQueue()).resolves.toEqual({ synced: 0, conflicts: 1, pending: 0 });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Queued change discarded after server rejected it',
+        expect.objectContaining({ category: 'sync', mutationType: 'complete_task' })
+      );
+    });
+
+    it('discards a completion whose task was deleted, along with its notifications', async () => {
+      mockCompleteTask.mockRejectedValueOnce(networkError);
+      await submitMutation(completeTaskOne, [
+        { user_id: 'sponsor-1', type: 'task_completed', title: 'Task Completed', content: 'Done' },
+      ]);
+      mockCompleteTask.mockResolvedValueOnce(false);
+
+      await expect(processSyncQueue()).resolves.toEqual({ synced: 0, conflicts: 1, pending: 0 });
+      expect(mockSendNotifications).not.toHaveBeenCalled();
+      await expect(getPendingMutations()).resolves.toEqual([]);
+    });
+
+    it('counts discarded changes until the user dismisses them', async () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSyncQueue(listener);
+      mockCompleteTask.mockRejectedValueOnce(networkError);
+      await submitMutation(completeTaskOne);
+      mockCompleteTask.mockResolvedValueOnce(false);
+
+      await processSyncQueue();
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ discardedCount: 1 }));
+
+      dismissDiscardedChanges();
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ discardedCount: 0 }));
+      unsubscribe();
+    });
+  });
+
+  describe('subscribeToSyncQueue', () => {
+    it('reports the pending count as it changes', async () => {
+      const listener = jest.fn();
+      const unsubscribe = subscribeToSyncQueue(listener);
+      await Promise.resolve();
+
+      mockCompleteStep.mockRejectedValue(networkError);
+      await submitMutation(completeStepOne);
+
+      expect(listener).toHaveBeenLastCalledWith({
+        pendingCount: 1,
+        isSyncing: false,
+        discardedCount: 0,
+      });
+      unsubscribe();
+    });
+  });
+
+  describe('startAutoSync', () => {
+    it('replays the queue when the connection returns', async () => {
+      const addEventListener = NetInfo.addEventListener as jest.Mock;
+      startAutoSync();
+      const onChange = addEventListener.mock.calls[0][0];
+
+      mockCompleteStep.mockRejectedValueOnce(networkError);
+      await submitMutation(completeStepOne);
+      onChange({ isConnected: false, isInternetReachable: false });
+      onChange({ isConnected: true, isInternetReachable: true });
+      await processSyncQueue();
+
+      expect(mockCompleteStep).toHaveBeenCalledTimes(2);
+      await expect(getPendingMutations()).resolves.toEqual([]);
+    });
+  });
+
+  describe('optimistic state', () => {
+    it('marks tasks completed offline as completed', () => {
+      const tasks = [
+        { id: 'task-1', status: 'assigned' },
+        { id: 'task-2', status: 'assigned' },
+      ] as Task[];
+
+      const result = applyPendingToTasks(tasks, [completeTaskOne]);
+
+      expect(result[0]).toEqual(
+        expect.objectContaining({
+          status: 'completed',
+          completed_at: '2024-03-01T09:00:00.000Z',
+          completion_notes: 'Done',
+        })
+      );
+      expect(result[1]).toBe(tasks[1]);
+    });
+
+    it('marks tasks started offline as in progress with their draft', () => {
+      const tasks = [
+        { id: 'task-1', status: 'assigned', draft_notes: null },
+        { id: 'task-2', status: 'completed', draft_notes: null },
+      ] as Task[];
+
+      const result = applyPendingToTasks(tasks, [
+        draftTaskOne,
+        { ...draftTaskOne, taskId: 'task-2' },
+      ]);
+
+      expect(result[0]).toEqual(
+        expect.objectContaining({ status: 'in_progress', draft_notes: 'Halfway there' })
+      );
+      expect(result[1]).toBe(tasks[1]);
+    });
+
+    it('adds and removes step progress for pending step changes', () => {
+      const progress = [{ id: 'progress-2', step_number: 2 }] as UserStepProgress[];
+
+      const result = applyPendingToStepProgress(progress, [
+        completeStepOne,
+        { type: 'uncomplete_step', userId: 'user-1', stepNumber: 2 },
+      ]);
+
+      expect(result).toEqual([
+        expect.objectContaining({ id: 'pending-1', step_number: 1, completed: true }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Tests for lib/realtime.ts
+ *
+ * Tests realtime subscriptions including:
+ * - Subscribing with one filter per user column
+ * - Removing channels
+ * - Merging inserts, updates and deletes into screen state
+ */
+
+import {
+  mergeRealtimeChange,
+  RealtimeChange,
+  removeAllRealtimeChannels,
+  subscribeToUserChanges,
+} from '@/lib/realtime';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.unmock('@/lib/realtime');
+
+const mockChannel = {
+  on: jest.fn(),
+  subscribe: jest.fn(),
+};
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    channel: jest.fn(() => mockChannel),
+    removeChannel: jest.fn(),
+    removeAllChannels: jest.fn(),
+  },
+}));
+
+type Row = { id: string; status: string; sponsor?: { id: string } };
+
+const change = (eventType: 'INSERT' | 'UPDATE' | 'DELETE', row: Partial<Row>) =>
+  ({
+    eventType,
+    new: eventType === 'DELETE' ? {} : row,
+    old: eventType === 'DELETE' ? row : {},
+  }) as unknown as RealtimeChange<'tasks'>;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('realtime', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockChannel.on.mockReturnValue(mockChannel);
+    mockChannel.subscribe.mockReturnValue(mockChannel);
+  });
+
+  describe('subscribeToUserChanges', () => {
+    it('listens on one channel with a filter per user column', () => {
+      const onChange = jest.fn();
+
+      subscribeToUserChanges('tasks', 'user-1', ['sponsor_id', 'sponsee_id'], onChange);
+
+      expect(supabase.channel).toHaveBeenCalledWith(expect.stringMatching(/^tasks:user-1:/));
+      expect(mockChannel.on).toHaveBeenCalledWith(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter: 'sponsor_id=eq.user-1' },
+        onChange
+      );
+      expect(mockChannel.on).toHaveBeenCalledWith(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter: 'sponsee_id=eq.user-1' },
+        onChange
+      );
+      expect(mockChannel.subscribe).toHaveBeenCalled();
+    });
+
+    it('gives each subscription its own channel name', () => {
+      subscribeToUserChanges('notifications', 'user-1', ['user_id'], jest.fn());
+      subscribeToUserChanges('notifications', 'user-1', ['user_id'], jest.fn());
+
+      const [first, second] = (supabase.channel as jest.Mock).mock.calls.map((call) => call[0]);
+      expect(first).not.toBe(second);
+    });
+
+    it('removes the channel when unsubscribed', () => {
+      const unsubscribe = subscribeToUserChanges('messages', 'user-1', ['recipient_id'], jest.fn());
+
+      unsubscribe();
+
+      expect(supabase.removeChannel).toHaveBeenCalledWith(mockChannel);
+    });
+
+    it('logs subscription failures', () => {
+      subscribeToUserChanges('messages', 'user-1', ['recipient_id'], jest.fn());
+      const onStatus = mockChannel.subscribe.mock.calls[0][0];
+
+      onStatus('CHANNEL_ERROR', new Error('denied'));
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Realtime subscription failed',
+        expect.objectContaining({ table: 'messages', status: 'CHANNEL_ERROR', error: 'denied' })
+      );
+    });
+  });
+
+  describe('mergeRealtimeChange', () => {
+    const rows: Row[] = [
+      { id: 'task-1', status: 'assigned', sponsor: { id: 'sponsor-1' } },
+      { id: 'task-2', status: 'assigned' },
+    ];
+
+    it('adds inserted rows at the start by default', () => {
+      const result = mergeRealtimeChange(
+        rows,
+        change('INSERT', { id: 'task-3', status: 'assigned' })
+      );
+
+      expect(result.map((r) => r.id)).toEqual(['task-3', 'task-1', 'task-2']);
+    });
+
+    it('adds inserted rows at the end when asked', () => {
+      const result = mergeRealtimeChange(
+        rows,
+        change('INSERT', { id: 'task-3', status: 'assigned' }),
+        'end'
+      );
+
+      expect(result.map((r) => r.id)).toEqual(['task-1', 'task-2', 'task-3']);
+    });
+
+    it('merges updates and keeps joined fields', () => {
+      const result = mergeRealtimeChange(
+        rows,
+        change('UPDATE', { id: 'task-1', status: 'completed' })
+      );
+
+      expect(result[0]).toEqual({
+        id: 'task-1',
+        status: 'completed',
+        sponsor: { id: 'sponsor-1' },
+      });
+    });
+
+    it('treats an echoed insert of a known row as an update', () => {
+      const result = mergeRealtimeChange(
+        rows,
+        change('INSERT', { id: 'task-2', status: 'completed' })
+      );
+
+      expect(result).toHaveLength(2);
+      expect(result[1].status).toBe('completed');
+    });
+
+    it('ignores updates to rows not in the list', () => {
+      expect(
+        mergeRealtimeChange(rows, change('UPDATE', { id: 'task-9', status: 'completed' }))
+      ).toBe(rows);
+    });
+
+    it('removes deleted rows', () => {
+      const result = mergeRealtimeChange(rows, change('DELETE', { id: 'task-1' }));
+
+      expect(result.map((r) => r.id)).toEqual(['task-2']);
+    });
+  });
+
+  it('removes all channels', async () => {
+    await removeAllRealtimeChannels();
+
+    expect(supabase.removeAllChannels).toHaveBeenCalled();
+  });
+});
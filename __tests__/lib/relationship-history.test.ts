@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Tests for lib/relationship-history.ts
+ *
+ * Tests building the relationship history including:
+ * - Keeping one past relationship per pair
+ * - Leaving out pairs that are connected again
+ * - Counting each pair's tasks
+ */
+
+import { countTasksByRelationship, selectRelationshipHistory } from '@/lib/relationship-history';
+import type { SponsorSponseeRelationship, Task } from '@/types/database';
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const relationship = (
+  id: string,
+  sponsorId: string,
+  sponseeId: string
+): SponsorSponseeRelationship =>
+  ({ id, sponsor_id: sponsorId, sponsee_id: sponseeId }) as SponsorSponseeRelationship;
+
+const task = (sponsorId: string, sponseeId: string, status: Task['status']) => ({
+  sponsor_id: sponsorId,
+  sponsee_id: sponseeId,
+  status,
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('relationship history', () => {
+  describe('selectRelationshipHistory', () => {
+    it('keeps only the most recent relationship for each pair', () => {
+      const latest = relationship('rel-2', 'sponsor-1', 'user-1');
+      const earlier = relationship('rel-1', 'sponsor-1', 'user-1');
+      const other = relationship('rel-3', 'user-1', 'sponsee-1');
+
+      expect(selectRelationshipHistory([latest, earlier, other], [])).toEqual([latest, other]);
+    });
+
+    it('leaves out pairs with a current relationship', () => {
+      const past = relationship('rel-1', 'sponsor-1', 'user-1');
+      const current = relationship('rel-2', 'sponsor-1', 'user-1');
+
+      expect(selectRelationshipHistory([past], [current])).toEqual([]);
+    });
+
+    it('treats the same people in swapped roles as a different pair', () => {
+      const past = relationship('rel-1', 'user-1', 'user-2');
+      const current = relationship('rel-2', 'user-2', 'user-1');
+
+      expect(selectRelationshipHistory([past], [current])).toEqual([past]);
+    });
+  });
+
+  describe('countTasksByRelationship', () => {
+    it("counts each pair's total and completed tasks", () => {
+      const counts = countTasksByRelationship(
+        [
+          relationship('rel-1', 'sponsor-1', 'user-1'),
+          relationship('rel-2', 'user-1', 'sponsee-1'),
+        ],
+        [
+          task('sponsor-1', 'user-1', 'completed'),
+          task('sponsor-1', 'user-1', 'assigned'),
+          task('user-1', 'sponsee-1', 'completed'),
+          task('sponsor-9', 'user-1', 'completed'),
+        ]
+      );
+
+      expect(counts).toEqual({
+        'rel-1': { total: 2, completed: 1 },
+        'rel-2': { total: 1, completed: 1 },
+      });
+    });
+
+    it('reports zero for pairs without tasks', () => {
+      expect(countTasksByRelationship([relationship('rel-1', 'sponsor-1', 'user-1')], [])).toEqual({
+        'rel-1': { total: 0, completed: 0 },
+      });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Tests for lib/repositories/amends.ts
+ *
+ * Tests amends list data access including:
+ * - Fetching a user's list oldest first
+ * - Reading a sponsee's shared list through the RPC
+ * - Adding, updating and deleting entries
+ * - Error logging and rethrowing
+ */
+
+import {
+  createAmends,
+  deleteAmends,
+  fetchAmends,
+  fetchSharedAmends,
+  updateAmends,
+} from '@/lib/repositories/amends';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const fields = {
+  person: 'My brother',
+  harm: 'Borrowed money and never paid it back',
+  approach: 'Pay it back in person',
+  status: 'planned' as const,
+  deferred_reason: '',
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('amends repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches a user's amends list oldest first", async () => {
+    const rows = [{ id: 'amends-1', person: 'My brother' }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchAmends('user-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('amends');
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: true });
+  });
+
+  it("reads a sponsee's shared amends list through the RPC", async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null });
+
+    await expect(fetchSharedAmends('sponsee-1')).resolves.toEqual([]);
+    expect(mockRpc).toHaveBeenCalledWith('get_shared_amends', { p_user_id: 'sponsee-1' });
+  });
+
+  it('adds a person to the list', async () => {
+    const entry = { ...fields, user_id: 'user-1' };
+    const query = createQueryMock({ data: { id: 'amends-1', ...entry }, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(createAmends(entry)).resolves.toEqual({ id: 'amends-1', ...entry });
+    expect(query.insert).toHaveBeenCalledWith(entry);
+    expect(query.single).toHaveBeenCalled();
+  });
+
+  it('saves a change of status', async () => {
+    const made = { ...fields, status: 'made' as const };
+    const query = createQueryMock({
+      data: { id: 'amends-1', ...made, made_at: '2024-03-10T12:00:00Z' },
+      error: null,
+    });
+    mockFrom.mockReturnValue(query);
+
+    const saved = await updateAmends('amends-1', made);
+
+    expect(saved.made_at).toBe('2024-03-10T12:00:00Z');
+    expect(query.update).toHaveBeenCalledWith(made);
+    expect(query.eq).toHaveBeenCalledWith('id', 'amends-1');
+  });
+
+  it('deletes an entry', async () => {
+    const query = createQueryMock({ data: null, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await deleteAmends('amends-1');
+
+    expect(query.delete).toHaveBeenCalled();
+    expect(query.eq).toHaveBeenCalledWith('id', 'amends-1');
+  });
+
+  it('logs and throws when saving fails', async () => {
+    const error = { message: 'violates check constraint "amends_deferred_reason_check"' };
+    mockFrom.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(updateAmends('amends-1', { ...fields, status: 'deferred' })).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Amends update failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Tests for lib/repositories/check-ins.ts
+ *
+ * Tests daily check-in data access including:
+ * - Fetching a user's check-ins most recent first
+ * - Reading a sponsee's shared summary through the RPC
+ * - Saving a day's check-in as an upsert
+ * - Error logging and rethrowing
+ */
+
+import { fetchCheckIns, fetchSharedCheckIns, saveCheckIn } from '@/lib/repositories/check-ins';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const draft = {
+  user_id: 'user-1',
+  check_in_date: '2024-03-05',
+  mood: 4,
+  hungry: false,
+  angry: true,
+  lonely: false,
+  tired: true,
+  gratitude: 'A call from my sponsor',
+  review: 'I was short with a coworker and owe them an apology',
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('check-ins repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches a user's check-ins most recent first", async () => {
+    const rows = [{ id: 'check-in-1', ...draft }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchCheckIns('user-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('daily_check_ins');
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.order).toHaveBeenCalledWith('check_in_date', { ascending: false });
+  });
+
+  it("reads a sponsee's shared check-ins through the RPC", async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null });
+
+    await expect(fetchSharedCheckIns('sponsee-1')).resolves.toEqual([]);
+    expect(mockRpc).toHaveBeenCalledWith('get_shared_check_ins', { p_user_id: 'sponsee-1' });
+  });
+
+  it("saves a day's check-in over any earlier one that day", async () => {
+    const query = createQueryMock({ data: { id: 'check-in-1', ...draft }, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(saveCheckIn(draft)).resolves.toEqual({ id: 'check-in-1', ...draft });
+    expect(query.upsert).toHaveBeenCalledWith(draft, { onConflict: 'user_id,check_in_date' });
+    expect(query.single).toHaveBeenCalled();
+  });
+
+  it('logs and throws when saving fails', async () => {
+    const error = { message: 'violates check constraint "daily_check_ins_mood_check"' };
+    mockFrom.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(saveCheckIn({ ...draft, mood: 6 })).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Check-in save failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Tests for lib/repositories/errors.ts
+ *
+ * Tests the shared query error handling:
+ * - Successful queries pass through silently
+ * - Failed queries are logged once and rethrown
+ */
+
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+import { logger } from '@/lib/logger';
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('throwIfQueryFailed', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('does nothing when there is no error', () => {
+    expect(() => throwIfQueryFailed(null, 'Tasks fetch failed')).not.toThrow();
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it('logs the error under the database category and rethrows it', () => {
+    const error = { message: 'permission denied' };
+
+    expect(() => throwIfQueryFailed(error, 'Tasks fetch failed')).toThrow(
+      expect.objectContaining({ message: 'permission denied' })
+    );
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith('Tasks fetch failed', error, {
+      category: 'database',
+    });
+  });
+});
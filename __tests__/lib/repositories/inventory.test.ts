@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Tests for lib/repositories/inventory.ts
+ *
+ * Tests Step 4 inventory data access including:
+ * - Fetching a user's entries in position order
+ * - Adding, editing and deleting entries
+ * - Reordering entries through the RPC
+ * - Error logging and rethrowing
+ */
+
+import {
+  createInventoryEntry,
+  deleteInventoryEntry,
+  fetchInventoryEntries,
+  reorderInventoryEntries,
+  updateInventoryEntry,
+} from '@/lib/repositories/inventory';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const fields = {
+  subject: 'My old boss',
+  cause: 'Passed me over for promotion',
+  affects: 'Self-esteem, security',
+  my_part: '',
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('inventory repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches a user's inventory in position order", async () => {
+    const rows = [{ id: 'entry-1', position: 0 }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchInventoryEntries('user-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('inventory_entries');
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.order).toHaveBeenCalledWith('position', { ascending: true });
+  });
+
+  it('adds an entry', async () => {
+    const entry = { ...fields, user_id: 'user-1', kind: 'resentment' as const, position: 2 };
+    const query = createQueryMock({ data: { id: 'entry-1', ...entry }, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(createInventoryEntry(entry)).resolves.toEqual({ id: 'entry-1', ...entry });
+    expect(query.insert).toHaveBeenCalledWith(entry);
+    expect(query.single).toHaveBeenCalled();
+  });
+
+  it("saves edits to an entry's columns", async () => {
+    const query = createQueryMock({ data: { id: 'entry-1', ...fields }, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await updateInventoryEntry('entry-1', fields);
+
+    expect(query.update).toHaveBeenCalledWith(fields);
+    expect(query.eq).toHaveBeenCalledWith('id', 'entry-1');
+  });
+
+  it('reorders entries through the RPC', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null });
+
+    await reorderInventoryEntries(['entry-2', 'entry-1']);
+
+    expect(mockRpc).toHaveBeenCalledWith('reorder_inventory_entries', {
+      p_entry_ids: ['entry-2', 'entry-1'],
+    });
+  });
+
+  it('deletes an entry', async () => {
+    const query = createQueryMock({ data: null, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await deleteInventoryEntry('entry-1');
+
+    expect(query.delete).toHaveBeenCalled();
+    expect(query.eq).toHaveBeenCalledWith('id', 'entry-1');
+  });
+
+  it('logs and throws when reordering fails', async () => {
+    const error = { message: 'function does not exist' };
+    mockRpc.mockResolvedValue({ data: null, error });
+
+    await expect(reorderInventoryEntries(['entry-1'])).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Inventory reorder failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Tests for lib/repositories/invite-codes.ts
+ *
+ * Tests invite code data access including:
+ * - Creating codes with an expiry
+ * - Listing a sponsor's codes
+ * - Redeeming codes through the RPC
+ * - Revoking codes
+ * - Error logging and rethrowing
+ */
+
+import {
+  claimInviteCode,
+  createInviteCode,
+  fetchSponsorInviteCodes,
+  revokeInviteCode,
+} from '@/lib/repositories/invite-codes';
+import { PROFILE_COLUMNS } from '@/lib/repositories/profiles';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('invite codes repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('creates an invite code with its expiry', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+    const expiresAt = new Date('2024-03-01T00:00:00Z');
+
+    await createInviteCode('sponsor-1', 'ABCD1234', expiresAt);
+
+    expect(mockFrom).toHaveBeenCalledWith('invite_codes');
+    expect(query.insert).toHaveBeenCalledWith({
+      code: 'ABCD1234',
+      sponsor_id: 'sponsor-1',
+      expires_at: '2024-03-01T00:00:00.000Z',
+    });
+  });
+
+  it("lists a sponsor's unrevoked codes with their redeemers", async () => {
+    const invites = [{ id: 'invite-1', code: 'ABCD2345', redeemer: null }];
+    const query = createQueryMock({ data: invites, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchSponsorInviteCodes('sponsor-1')).resolves.toEqual(invites);
+    expect(query.select).toHaveBeenCalledWith(`*, redeemer:profiles!used_by(${PROFILE_COLUMNS})`);
+    expect(query.eq).toHaveBeenCalledWith('sponsor_id', 'sponsor-1');
+    expect(query.is).toHaveBeenCalledWith('revoked_at', null);
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false });
+  });
+
+  it('returns an empty list when a sponsor has no codes', async () => {
+    mockFrom.mockReturnValue(createQueryMock({ data: null, error: null }));
+
+    await expect(fetchSponsorInviteCodes('sponsor-1')).resolves.toEqual([]);
+  });
+
+  it('redeems a code through the RPC', async () => {
+    const claim = {
+      status: 'connected',
+      relationship_id: 'rel-1',
+      sponsor_id: 'sponsor-1',
+      sponsor_first_name: 'Jane',
+      sponsor_last_initial: 'S',
+    };
+    const query = createQueryMock({ data: claim, error: null });
+    mockRpc.mockReturnValue(query);
+
+    await expect(claimInviteCode('ABCD2345')).resolves.toEqual(claim);
+    expect(mockRpc).toHaveBeenCalledWith('redeem_invite_code', { invite_code: 'ABCD2345' });
+    expect(query.single).toHaveBeenCalled();
+  });
+
+  it('logs and throws when the redemption RPC fails', async () => {
+    const error = { message: 'permission denied' };
+    mockRpc.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(claimInviteCode('ABCD2345')).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Invite code redemption failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+  it('revokes only unused invites', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await revokeInviteCode('invite-1');
+
+    expect(query.update).toHaveBeenCalledWith({ revoked_at: expect.any(String) });
+    expect(query.eq).toHaveBeenCalledWith('id', 'invite-1');
+    expect(query.is).toHaveBeenCalledWith('used_by', null);
+  });
+});
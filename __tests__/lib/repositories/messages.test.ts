@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Tests for lib/repositories/messages.ts
+ *
+ * Tests message data access including:
+ * - Conversation summaries from the summaries RPC
+ * - Fetching a thread between two users
+ * - Sending messages and marking them read
+ * - Error logging and rethrowing
+ */
+
+import {
+  createMessage,
+  fetchConversationSummaries,
+  fetchThreadMessages,
+  markMessagesRead,
+} from '@/lib/repositories/messages';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('messages repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches the latest message and unread count per conversation partner', async () => {
+    const message = {
+      id: 'm-1',
+      sender_id: 'partner-1',
+      recipient_id: 'user-1',
+      content: 'Call me tonight',
+      read_at: null,
+      created_at: '2024-06-02T10:00:00Z',
+    };
+    mockRpc.mockReturnValue(
+      createQueryMock({
+        data: [{ partner_id: 'partner-1', unread_count: 2, ...message }],
+        error: null,
+      })
+    );
+
+    await expect(fetchConversationSummaries()).resolves.toEqual([
+      { partnerId: 'partner-1', lastMessage: message, unreadCount: 2 },
+    ]);
+    expect(mockRpc).toHaveBeenCalledWith('get_conversation_summaries');
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('fetches a thread in both directions, oldest first', async () => {
+    const rows = [{ id: 'm-1' }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchThreadMessages('user-1', 'partner-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('messages');
+    expect(query.or).toHaveBeenCalledWith(
+      'and(sender_id.eq.user-1,recipient_id.eq.partner-1),and(sender_id.eq.partner-1,recipient_id.eq.user-1)'
+    );
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: true });
+  });
+
+  it('sends a message and returns the saved row', async () => {
+    const saved = { id: 'm-1', sender_id: 'user-1', recipient_id: 'partner-1', content: 'Hi' };
+    const query = createQueryMock({ data: saved, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(createMessage('user-1', 'partner-1', 'Hi')).resolves.toEqual(saved);
+    expect(query.insert).toHaveBeenCalledWith({
+      sender_id: 'user-1',
+      recipient_id: 'partner-1',
+      content: 'Hi',
+    });
+    expect(query.single).toHaveBeenCalled();
+  });
+
+  it('marks messages read in one update', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await markMessagesRead(['m-1', 'm-2'], '2024-06-03T10:00:00Z');
+
+    expect(query.update).toHaveBeenCalledWith({ read_at: '2024-06-03T10:00:00Z' });
+    expect(query.in).toHaveBeenCalledWith('id', ['m-1', 'm-2']);
+  });
+
+  it('logs and throws when a query fails', async () => {
+    const error = { message: 'boom' };
+    mockRpc.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(fetchConversationSummaries()).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Conversation summaries fetch failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Tests for lib/repositories/notifications.ts
+ *
+ * Tests notification data access including:
+ * - Fetching the inbox and counting unread notifications
+ * - Inserting notifications
+ * - Marking one, all, or one sender's message notifications read
+ * - Error logging and rethrowing
+ */
+
+import {
+  countUnreadNotifications,
+  fetchNotifications,
+  insertNotifications,
+  markAllNotificationsRead,
+  markMessageNotificationsRead,
+  markNotificationRead,
+} from '@/lib/repositories/notifications';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('notifications repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches the newest notifications up to a limit', async () => {
+    const rows = [{ id: 'n-1' }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchNotifications('user-1', 50)).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('notifications');
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(query.limit).toHaveBeenCalledWith(50);
+  });
+
+  it('counts unread notifications with a head-only query', async () => {
+    const query = createQueryMock({ count: 4, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(countUnreadNotifications('user-1')).resolves.toBe(4);
+    expect(query.select).toHaveBeenCalledWith('id', { count: 'exact', head: true });
+    expect(query.is).toHaveBeenCalledWith('read_at', null);
+  });
+
+  it('treats a missing count as zero', async () => {
+    mockFrom.mockReturnValue(createQueryMock({ count: null, error: null }));
+
+    await expect(countUnreadNotifications('user-1')).resolves.toBe(0);
+  });
+
+  it('inserts notifications in one request', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+    const notifications = [
+      { user_id: 'user-1', type: 'message' as const, title: 'Hi', content: 'Hello' },
+      { user_id: 'user-2', type: 'message' as const, title: 'Hi', content: 'Hello' },
+    ];
+
+    await insertNotifications(notifications);
+
+    expect(query.insert).toHaveBeenCalledWith(notifications);
+  });
+
+  it('marks a single notification read', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await markNotificationRead('n-1', '2024-02-01T00:00:00.000Z');
+
+    expect(query.update).toHaveBeenCalledWith({ read_at: '2024-02-01T00:00:00.000Z' });
+    expect(query.eq).toHaveBeenCalledWith('id', 'n-1');
+  });
+
+  it('marks only unread notifications read', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await markAllNotificationsRead('user-1', '2024-02-01T00:00:00.000Z');
+
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.is).toHaveBeenCalledWith('read_at', null);
+  });
+
+  it("marks one sender's unread message notifications read", async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await markMessageNotificationsRead('user-1', 'sponsor-1', '2024-02-01T00:00:00.000Z');
+
+    expect(query.update).toHaveBeenCalledWith({ read_at: '2024-02-01T00:00:00.000Z' });
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.eq).toHaveBeenCalledWith('type', 'message');
+    expect(query.eq).toHaveBeenCalledWith('data->>sender_id', 'sponsor-1');
+    expect(query.is).toHaveBeenCalledWith('read_at', null);
+  });
+
+  it('logs and throws when a query fails', async () => {
+    const error = { message: 'boom' };
+    mockFrom.mockReturnValue(createQueryMock({ count: null, error }));
+
+    await expect(countUnreadNotifications('user-1')).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Unread notification count failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
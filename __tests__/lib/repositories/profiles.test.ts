@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Tests for lib/repositories/profiles.ts
+ *
+ * Tests profile data access including:
+ * - Fetching the streak another user shares
+ * - Updating the user's own profile
+ * - Error logging and rethrowing
+ */
+
+import { fetchSobrietySummary, updateProfile } from '@/lib/repositories/profiles';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('profiles repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches another user's shared streak through the summary RPC", async () => {
+    const summary = {
+      sobriety_date: '2024-01-01',
+      timezone: 'UTC',
+      current_streak_start: '2024-03-01',
+    };
+    const query = createQueryMock({ data: summary, error: null });
+    mockRpc.mockReturnValue(query);
+
+    await expect(fetchSobrietySummary('sponsee-1')).resolves.toEqual(summary);
+    expect(mockRpc).toHaveBeenCalledWith('get_sobriety_summary', { p_user_id: 'sponsee-1' });
+    expect(query.maybeSingle).toHaveBeenCalled();
+  });
+
+  it('returns null when the user does not share their sobriety date', async () => {
+    mockRpc.mockReturnValue(createQueryMock({ data: null, error: null }));
+
+    await expect(fetchSobrietySummary('sponsee-1')).resolves.toBeNull();
+  });
+
+  it('logs and throws when the summary fetch fails', async () => {
+    const error = { message: 'boom' };
+    mockRpc.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(fetchSobrietySummary('sponsee-1')).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Sobriety summary fetch failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+
+  it("updates only the given fields on the user's profile", async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await updateProfile('user-1', { require_connection_approval: true });
+
+    expect(mockFrom).toHaveBeenCalledWith('profiles');
+    expect(query.update).toHaveBeenCalledWith({ require_connection_approval: true });
+    expect(query.eq).toHaveBeenCalledWith('id', 'user-1');
+  });
+
+  it('logs and throws when the update fails', async () => {
+    const error = { message: 'boom' };
+    mockFrom.mockReturnValue(createQueryMock({ error }));
+
+    await expect(updateProfile('user-1', { daily_reminder_time: '08:00' })).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Profile update failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
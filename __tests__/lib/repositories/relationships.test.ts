@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Tests for lib/repositories/relationships.ts
+ *
+ * Tests sponsor-sponsee relationship data access including:
+ * - Active relationship queries from either side
+ * - Two-way lookups
+ * - Pending connection requests and past relationships
+ * - Accepting, closing and ending relationships
+ * - Requesting and accepting reconnects
+ * - Sharing settings
+ * - Error logging and rethrowing
+ */
+
+import {
+  acceptRelationship,
+  clearReconnectRequest,
+  closeRelationshipRequest,
+  endRelationship,
+  fetchActiveRelationshipBetween,
+  fetchPastRelationships,
+  fetchPendingRelationships,
+  fetchSlipUpSharingSponsorIds,
+  fetchSponseeRelationships,
+  fetchSponsorRelationships,
+  reactivateRelationship,
+  requestReconnect,
+  updateSharingSettings,
+} from '@/lib/repositories/relationships';
+import { PROFILE_COLUMNS } from '@/lib/repositories/profiles';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('relationships repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('fetchSponseeRelationships', () => {
+    it('fetches active relationships with sponsee profiles', async () => {
+      const rows = [{ id: 'rel-1', sponsee: { id: 'sponsee-1' } }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchSponseeRelationships('sponsor-1')).resolves.toEqual(rows);
+      expect(mockFrom).toHaveBeenCalledWith('sponsor_sponsee_relationships');
+      expect(query.select).toHaveBeenCalledWith(
+        `*, sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`
+      );
+      expect(query.eq).toHaveBeenCalledWith('sponsor_id', 'sponsor-1');
+      expect(query.eq).toHaveBeenCalledWith('status', 'active');
+    });
+
+    it('returns an empty list when there is no data', async () => {
+      mockFrom.mockReturnValue(createQueryMock({ data: null, error: null }));
+
+      await expect(fetchSponseeRelationships('sponsor-1')).resolves.toEqual([]);
+    });
+
+    it('logs and throws when the query fails', async () => {
+      const error = { message: 'boom' };
+      mockFrom.mockReturnValue(createQueryMock({ data: null, error }));
+
+      await expect(fetchSponseeRelationships('sponsor-1')).rejects.toBe(error);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Sponsee relationships fetch failed',
+        error,
+        expect.objectContaining({ category: 'database' })
+      );
+    });
+  });
+
+  describe('fetchSponsorRelationships', () => {
+    it('fetches active relationships with sponsor profiles', async () => {
+      const query = createQueryMock({ data: [], error: null });
+      mockFrom.mockReturnValue(query);
+
+      await fetchSponsorRelationships('sponsee-1');
+
+      expect(query.select).toHaveBeenCalledWith(
+        `*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS})`
+      );
+      expect(query.eq).toHaveBeenCalledWith('sponsee_id', 'sponsee-1');
+      expect(query.eq).toHaveBeenCalledWith('status', 'active');
+    });
+  });
+
+  describe('fetchSlipUpSharingSponsorIds', () => {
+    it('returns only sponsors the sponsee shares slip-ups with', async () => {
+      const query = createQueryMock({ data: [{ sponsor_id: 'sponsor-1' }], error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchSlipUpSharingSponsorIds('sponsee-1')).resolves.toEqual(['sponsor-1']);
+      expect(query.eq).toHaveBeenCalledWith('status', 'active');
+      expect(query.eq).toHaveBeenCalledWith('share_slip_ups', true);
+    });
+  });
+
+  describe('fetchActiveRelationshipBetween', () => {
+    it('matches the pair in either direction', async () => {
+      const row = { id: 'rel-1', sponsor_id: 'user-1', sponsee_id: 'user-2' };
+      const query = createQueryMock({ data: row, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchActiveRelationshipBetween('user-1', 'user-2')).resolves.toEqual(row);
+      expect(query.or).toHaveBeenCalledWith(
+        'and(sponsor_id.eq.user-1,sponsee_id.eq.user-2),and(sponsor_id.eq.user-2,sponsee_id.eq.user-1)'
+      );
+      expect(query.eq).toHaveBeenCalledWith('status', 'active');
+    });
+
+    it('returns null when the users are not connected', async () => {
+      mockFrom.mockReturnValue(createQueryMock({ data: null, error: null }));
+
+      await expect(fetchActiveRelationshipBetween('user-1', 'user-2')).resolves.toBeNull();
+    });
+  });
+
+  describe('fetchPendingRelationships', () => {
+    it('fetches pending requests in either direction with both profiles', async () => {
+      const rows = [{ id: 'rel-1', status: 'pending' }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchPendingRelationships('user-1')).resolves.toEqual(rows);
+      expect(query.select).toHaveBeenCalledWith(
+        `*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS}), sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`
+      );
+      expect(query.or).toHaveBeenCalledWith('sponsor_id.eq.user-1,sponsee_id.eq.user-1');
+      expect(query.eq).toHaveBeenCalledWith('status', 'pending');
+    });
+
+    it('logs and throws when the fetch fails', async () => {
+      const error = { message: 'boom' };
+      mockFrom.mockReturnValue(createQueryMock({ data: null, error }));
+
+      await expect(fetchPendingRelationships('user-1')).rejects.toBe(error);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Pending relationships fetch failed',
+        error,
+        expect.anything()
+      );
+    });
+  });
+
+  describe('fetchPastRelationships', () => {
+    it('fetches inactive relationships in either direction, latest first', async () => {
+      const rows = [{ id: 'rel-1', status: 'inactive' }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchPastRelationships('user-1')).resolves.toEqual(rows);
+      expect(query.or).toHaveBeenCalledWith('sponsor_id.eq.user-1,sponsee_id.eq.user-1');
+      expect(query.eq).toHaveBeenCalledWith('status', 'inactive');
+      expect(query.order).toHaveBeenCalledWith('disconnected_at', { ascending: false });
+    });
+  });
+
+  describe('endRelationship', () => {
+    it('marks the relationship inactive with a disconnect time', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await endRelationship('rel-1');
+
+      expect(query.update).toHaveBeenCalledWith({
+        status: 'inactive',
+        disconnected_at: expect.any(String),
+      });
+      expect(query.eq).toHaveBeenCalledWith('id', 'rel-1');
+    });
+  });
+
+  describe('acceptRelationship', () => {
+    it('activates the relationship only while it is pending', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await acceptRelationship('rel-1');
+
+      expect(query.update).toHaveBeenCalledWith({ status: 'active' });
+      expect(query.eq).toHaveBeenCalledWith('id', 'rel-1');
+      expect(query.eq).toHaveBeenCalledWith('status', 'pending');
+    });
+
+    it('logs and throws when the update fails', async () => {
+      const error = { message: 'Only the sponsor can accept a connection request' };
+      mockFrom.mockReturnValue(createQueryMock({ error }));
+
+      await expect(acceptRelationship('rel-1')).rejects.toBe(error);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Connection request acceptance failed',
+        error,
+        expect.anything()
+      );
+    });
+  });
+
+  describe('closeRelationshipRequest', () => {
+    it('marks a pending request declined', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await closeRelationshipRequest('rel-1');
+
+      expect(query.update).toHaveBeenCalledWith({ status: 'declined' });
+      expect(query.eq).toHaveBeenCalledWith('id', 'rel-1');
+      expect(query.eq).toHaveBeenCalledWith('status', 'pending');
+    });
+  });
+
+  describe('reconnecting', () => {
+    it('records who asked to reconnect an inactive relationship', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await requestReconnect('rel-1', 'user-1');
+
+      expect(query.update).toHaveBeenCalledWith({ reconnect_requested_by: 'user-1' });
+      expect(query.eq).toHaveBeenCalledWith('status', 'inactive');
+    });
+
+    it('reactivates an inactive relationship', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await reactivateRelationship('rel-1');
+
+      expect(query.update).toHaveBeenCalledWith({ status: 'active' });
+      expect(query.eq).toHaveBeenCalledWith('id', 'rel-1');
+      expect(query.eq).toHaveBeenCalledWith('status', 'inactive');
+    });
+
+    it('clears a reconnect request', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await clearReconnectRequest('rel-1');
+
+      expect(query.update).toHaveBeenCalledWith({ reconnect_requested_by: null });
+    });
+
+    it('logs and throws when reactivating fails', async () => {
+      const error = { message: 'Reconnecting needs the other person to accept' };
+      mockFrom.mockReturnValue(createQueryMock({ error }));
+
+      await expect(reactivateRelationship('rel-1')).rejects.toBe(error);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Relationship reconnect failed',
+        error,
+        expect.anything()
+      );
+    });
+  });
+
+  describe('updateSharingSettings', () => {
+    it('updates only the given sharing settings', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await updateSharingSettings('rel-1', { share_slip_ups: true });
+
+      expect(query.update).toHaveBeenCalledWith({ share_slip_ups: true });
+      expect(query.eq).toHaveBeenCalledWith('id', 'rel-1');
+    });
+
+    it('logs and throws when the sponsor tries to change them', async () => {
+      const error = { message: 'Only the sponsee can change what they share', code: '42501' };
+      mockFrom.mockReturnValue(createQueryMock({ error }));
+
+      await expect(updateSharingSettings('rel-1', { share_notes: false })).rejects.toBe(error);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Sharing settings update failed',
+        error,
+        expect.objectContaining({ category: 'database' })
+      );
+    });
+  });
+});
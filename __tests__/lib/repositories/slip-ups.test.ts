@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Tests for lib/repositories/slip-ups.ts
+ *
+ * Tests slip-up data access including:
+ * - Fetching a user's slip-ups newest first, or only the latest
+ * - Fetching the slip-ups another user shares
+ * - Recording a slip-up
+ * - Error logging and rethrowing
+ */
+
+import {
+  createSlipUp,
+  fetchLatestSlipUp,
+  fetchSharedSlipUps,
+  fetchSlipUps,
+} from '@/lib/repositories/slip-ups';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('slip-ups repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches slip-ups newest first', async () => {
+    const rows = [{ id: 'slip-1' }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchSlipUps('user-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('slip_ups');
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.order).toHaveBeenCalledWith('slip_up_date', { ascending: false });
+  });
+
+  it("fetches a user's latest slip-up", async () => {
+    const latest = { id: 'slip-2', slip_up_date: '2024-03-01' };
+    const query = createQueryMock({ data: [latest], error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchLatestSlipUp('user-1')).resolves.toEqual(latest);
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.order).toHaveBeenCalledWith('slip_up_date', { ascending: false });
+    expect(query.limit).toHaveBeenCalledWith(1);
+  });
+
+  it('returns null when the user has no slip-ups', async () => {
+    mockFrom.mockReturnValue(createQueryMock({ data: [], error: null }));
+
+    await expect(fetchLatestSlipUp('user-1')).resolves.toBeNull();
+  });
+
+  it('fetches shared slip-ups through the sharing RPC', async () => {
+    const rows = [{ id: 'slip-1', notes: null }];
+    mockRpc.mockResolvedValue({ data: rows, error: null });
+
+    await expect(fetchSharedSlipUps('sponsee-1')).resolves.toEqual(rows);
+    expect(mockRpc).toHaveBeenCalledWith('get_shared_slip_ups', { p_user_id: 'sponsee-1' });
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('records a slip-up', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+    const slipUp = {
+      user_id: 'user-1',
+      slip_up_date: '2024-02-01',
+      recovery_restart_date: '2024-02-02',
+      notes: null,
+    };
+
+    await createSlipUp(slipUp);
+
+    expect(query.insert).toHaveBeenCalledWith(slipUp);
+  });
+
+  it('logs and throws when recording fails', async () => {
+    const error = { message: 'boom' };
+    mockFrom.mockReturnValue(createQueryMock({ error }));
+
+    await expect(
+      createSlipUp({
+        user_id: 'user-1',
+        slip_up_date: '2024-02-01',
+        recovery_restart_date: '2024-02-01',
+        notes: null,
+      })
+    ).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Slip-up logging failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Tests for lib/repositories/step-answers.ts
+ *
+ * Tests step worksheet data access including:
+ * - Fetching a step's answers in prompt order
+ * - Saving answers with an upsert per prompt
+ * - Sharing an answer and reading shared answers through the RPC
+ * - Fetching an answer's earlier versions
+ * - Error logging and rethrowing
+ */
+
+import {
+  fetchSharedStepAnswers,
+  fetchStepAnswerRevisions,
+  fetchStepAnswers,
+  saveStepAnswers,
+  setStepAnswerShared,
+} from '@/lib/repositories/step-answers';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('step answers repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches a step's answers in prompt order", async () => {
+    const rows = [{ id: 'answer-1', prompt_index: 0 }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchStepAnswers('user-1', 4)).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('step_answers');
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.eq).toHaveBeenCalledWith('step_number', 4);
+    expect(query.order).toHaveBeenCalledWith('prompt_index', { ascending: true });
+  });
+
+  it('saves answers with one row per prompt', async () => {
+    const draft = {
+      user_id: 'user-1',
+      step_number: 4,
+      prompt_index: 1,
+      prompt: 'Who am I resentful toward?',
+      answer: 'My old boss',
+    };
+    const saved = [{ id: 'answer-2', ...draft, shared: false }];
+    const query = createQueryMock({ data: saved, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(saveStepAnswers([draft])).resolves.toEqual(saved);
+    expect(query.upsert).toHaveBeenCalledWith([draft], {
+      onConflict: 'user_id,step_number,prompt_index',
+    });
+    expect(query.select).toHaveBeenCalled();
+  });
+
+  it('shares an answer', async () => {
+    const query = createQueryMock({ data: null, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await setStepAnswerShared('answer-1', true);
+
+    expect(query.update).toHaveBeenCalledWith({ shared: true });
+    expect(query.eq).toHaveBeenCalledWith('id', 'answer-1');
+  });
+
+  it("fetches an answer's earlier versions, most recent first", async () => {
+    const rows = [{ id: 'revision-1', answer: 'First try' }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchStepAnswerRevisions('answer-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('step_answer_revisions');
+    expect(query.eq).toHaveBeenCalledWith('answer_id', 'answer-1');
+    expect(query.order).toHaveBeenCalledWith('saved_at', { ascending: false });
+  });
+
+  it("reads a sponsee's shared answers through the RPC", async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null });
+
+    await expect(fetchSharedStepAnswers('sponsee-1')).resolves.toEqual([]);
+    expect(mockRpc).toHaveBeenCalledWith('get_shared_step_answers', { p_user_id: 'sponsee-1' });
+  });
+
+  it('logs and throws when saving fails', async () => {
+    const error = { message: 'new row violates row-level security policy' };
+    mockFrom.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(saveStepAnswers([])).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Step answers save failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
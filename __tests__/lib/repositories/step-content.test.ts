@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Tests for lib/repositories/step-content.ts
+ *
+ * Tests step content data access including:
+ * - Fetching the 12 steps in order
+ * - Error logging and rethrowing
+ */
+
+import { fetchStepsContent } from '@/lib/repositories/step-content';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('step content repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches the steps in step order', async () => {
+    const rows = [{ id: 'step-1', step_number: 1 }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchStepsContent()).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('steps_content');
+    expect(query.order).toHaveBeenCalledWith('step_number');
+  });
+
+  it('logs and throws when the fetch fails', async () => {
+    const error = { message: 'boom' };
+    mockFrom.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(fetchStepsContent()).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Steps content fetch failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Tests for lib/repositories/step-progress.ts
+ *
+ * Tests step progress data access including:
+ * - Fetching all and completed progress
+ * - Fetching the progress another user shares
+ * - Completing and un-completing steps
+ * - Error logging and rethrowing
+ */
+
+import {
+  completeStep,
+  deleteStepProgress,
+  fetchCompletedSteps,
+  fetchSharedStepProgress,
+  fetchStepProgress,
+  uncompleteStep,
+} from '@/lib/repositories/step-progress';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('step progress repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('fetches all progress for a user', async () => {
+    const rows = [{ id: 'progress-1', step_number: 1 }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchStepProgress('user-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('user_step_progress');
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+  });
+
+  it('fetches shared progress through the sharing RPC', async () => {
+    const rows = [{ id: 'progress-1', step_number: 1, notes: null }];
+    mockRpc.mockResolvedValue({ data: rows, error: null });
+
+    await expect(fetchSharedStepProgress('sponsee-1')).resolves.toEqual(rows);
+    expect(mockRpc).toHaveBeenCalledWith('get_shared_step_progress', { p_user_id: 'sponsee-1' });
+  });
+
+  it('logs and throws when the shared progress fetch fails', async () => {
+    const error = { message: 'boom' };
+    mockRpc.mockResolvedValue({ data: null, error });
+
+    await expect(fetchSharedStepProgress('sponsee-1')).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Shared step progress fetch failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+
+  it('fetches completed steps most recent first', async () => {
+    const query = createQueryMock({ data: [], error: null });
+    mockFrom.mockReturnValue(query);
+
+    await fetchCompletedSteps('user-1');
+
+    expect(query.eq).toHaveBeenCalledWith('completed', true);
+    expect(query.order).toHaveBeenCalledWith('completed_at', { ascending: false });
+  });
+
+  it('completes a step and returns the new record', async () => {
+    const row = { id: 'progress-1', step_number: 3, completed: true };
+    const query = createQueryMock({ data: row, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(completeStep('user-1', 3)).resolves.toEqual(row);
+    expect(query.insert).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      step_number: 3,
+      completed: true,
+      completed_at: expect.any(String),
+    });
+    expect(query.single).toHaveBeenCalled();
+  });
+
+  it('keeps the original completion time when one is given', async () => {
+    const query = createQueryMock({ data: {}, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await completeStep('user-1', 3, '2024-03-01T08:00:00.000Z');
+
+    expect(query.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ completed_at: '2024-03-01T08:00:00.000Z' })
+    );
+  });
+
+  it('deletes a progress record', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await deleteStepProgress('progress-1');
+
+    expect(query.delete).toHaveBeenCalled();
+    expect(query.eq).toHaveBeenCalledWith('id', 'progress-1');
+  });
+
+  it('deletes the progress record for a user and step', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await uncompleteStep('user-1', 3);
+
+    expect(query.delete).toHaveBeenCalled();
+    expect(query.eq).toHaveBeenCalledWith('user_id', 'user-1');
+    expect(query.eq).toHaveBeenCalledWith('step_number', 3);
+  });
+
+  it('logs and throws when a query fails', async () => {
+    const error = { message: 'boom' };
+    mockFrom.mockReturnValue(createQueryMock({ data: null, error }));
+
+    await expect(completeStep('user-1', 3)).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Step completion failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
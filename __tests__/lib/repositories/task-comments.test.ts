@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Tests for lib/repositories/task-comments.ts
+ *
+ * Tests task feedback data access including:
+ * - Fetching a task's thread oldest first
+ * - Replying on the thread
+ * - Reviewing a task through the RPC
+ * - Error logging and rethrowing
+ */
+
+import { addTaskComment, fetchTaskComments, reviewTask } from '@/lib/repositories/task-comments';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('task comments repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches a task's thread oldest first", async () => {
+    const rows = [{ id: 'comment-1' }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchTaskComments('task-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('task_comments');
+    expect(query.eq).toHaveBeenCalledWith('task_id', 'task-1');
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: true });
+  });
+
+  it('adds a reply and returns it', async () => {
+    const created = { id: 'comment-2', kind: 'comment', body: 'Thanks' };
+    const query = createQueryMock({ data: created, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(addTaskComment('task-1', 'sponsee-1', 'Thanks')).resolves.toEqual(created);
+    expect(query.insert).toHaveBeenCalledWith({
+      task_id: 'task-1',
+      author_id: 'sponsee-1',
+      kind: 'comment',
+      body: 'Thanks',
+    });
+    expect(query.single).toHaveBeenCalled();
+  });
+
+  it('reviews a task through the RPC', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null });
+
+    await reviewTask('task-1', 'returned', 'Say more about step 3');
+
+    expect(mockRpc).toHaveBeenCalledWith('review_task', {
+      p_task_id: 'task-1',
+      p_decision: 'returned',
+      p_comment: 'Say more about step 3',
+    });
+  });
+
+  it('leaves the comment out of an acknowledgement without one', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null });
+
+    await reviewTask('task-1', 'acknowledged', null);
+
+    expect(mockRpc).toHaveBeenCalledWith('review_task', {
+      p_task_id: 'task-1',
+      p_decision: 'acknowledged',
+      p_comment: undefined,
+    });
+  });
+
+  it('logs and throws when the review is rejected', async () => {
+    const error = { message: 'Task not found or not waiting for review' };
+    mockRpc.mockResolvedValue({ data: null, error });
+
+    await expect(reviewTask('task-1', 'acknowledged', null)).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Task review failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Tests for lib/repositories/task-series.ts
+ *
+ * Tests recurring task data access including:
+ * - Fetching a sponsor's and a sponsee's series
+ * - Creating, editing and stopping a series
+ * - Creating occurrences through the RPC
+ * - Error logging and rethrowing
+ */
+
+import {
+  createSeriesOccurrence,
+  createTaskSeries,
+  fetchSponseeTaskSeries,
+  fetchSponsorTaskSeries,
+  stopTaskSeries,
+  updateTaskSeries,
+} from '@/lib/repositories/task-series';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const newSeries = {
+  sponsor_id: 'sponsor-1',
+  sponsee_id: 'sponsee-1',
+  step_number: null,
+  title: 'Call me',
+  description: 'A quick check-in call',
+  recurrence: 'daily' as const,
+  interval_days: 1,
+  starts_on: '2024-03-01',
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('task series repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("fetches a sponsor's series newest first", async () => {
+    const rows = [{ id: 'series-1' }];
+    const query = createQueryMock({ data: rows, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchSponsorTaskSeries('sponsor-1')).resolves.toEqual(rows);
+    expect(mockFrom).toHaveBeenCalledWith('task_series');
+    expect(query.eq).toHaveBeenCalledWith('sponsor_id', 'sponsor-1');
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false });
+  });
+
+  it("fetches a sponsee's series", async () => {
+    const query = createQueryMock({ data: null, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(fetchSponseeTaskSeries('sponsee-1')).resolves.toEqual([]);
+    expect(query.eq).toHaveBeenCalledWith('sponsee_id', 'sponsee-1');
+  });
+
+  it('creates several series in one insert and returns them', async () => {
+    const otherSeries = { ...newSeries, sponsee_id: 'sponsee-2' };
+    const created = [
+      { id: 'series-1', ...newSeries },
+      { id: 'series-2', ...otherSeries },
+    ];
+    const query = createQueryMock({ data: created, error: null });
+    mockFrom.mockReturnValue(query);
+
+    await expect(createTaskSeries([newSeries, otherSeries])).resolves.toEqual(created);
+    expect(query.insert).toHaveBeenCalledWith([newSeries, otherSeries]);
+    expect(query.select).toHaveBeenCalled();
+  });
+
+  it('updates a series', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await updateTaskSeries('series-1', { title: 'Call me daily' });
+
+    expect(query.update).toHaveBeenCalledWith({ title: 'Call me daily' });
+    expect(query.eq).toHaveBeenCalledWith('id', 'series-1');
+  });
+
+  it('stops a series by setting stopped_at', async () => {
+    const query = createQueryMock({ error: null });
+    mockFrom.mockReturnValue(query);
+
+    await stopTaskSeries('series-1');
+
+    expect(query.update).toHaveBeenCalledWith({ stopped_at: expect.any(String) });
+    expect(query.eq).toHaveBeenCalledWith('id', 'series-1');
+  });
+
+  it('creates an occurrence through the RPC', async () => {
+    mockRpc.mockResolvedValue({ data: 'task-2', error: null });
+
+    await expect(createSeriesOccurrence('series-1', '2024-03-02')).resolves.toBe('task-2');
+    expect(mockRpc).toHaveBeenCalledWith('create_series_occurrence', {
+      p_series_id: 'series-1',
+      p_due_date: '2024-03-02',
+    });
+  });
+
+  it('returns null when no occurrence was created', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: null });
+
+    await expect(createSeriesOccurrence('series-1', '2024-03-02')).resolves.toBeNull();
+  });
+
+  it('logs and throws when creating an occurrence fails', async () => {
+    const error = { message: 'boom' };
+    mockRpc.mockResolvedValue({ data: null, error });
+
+    await expect(createSeriesOccurrence('series-1', '2024-03-02')).rejects.toBe(error);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Task series occurrence creation failed',
+      error,
+      expect.objectContaining({ category: 'database' })
+    );
+  });
+});
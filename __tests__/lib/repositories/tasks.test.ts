@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Tests for lib/repositories/tasks.ts
+ *
+ * Tests task data access including:
+ * - Sponsee and sponsor task lists
+ * - Open-task and status lookups
+ * - A step's task templates
+ * - Creating, editing, starting, completing and deleting tasks
+ * - Error logging and rethrowing
+ */
+
+import {
+  completeTask,
+  createTasks,
+  deleteTask,
+  fetchAssignedTasks,
+  fetchCompletedTasks,
+  fetchCreatedTasks,
+  fetchDueTasks,
+  fetchRecentAssignedTasks,
+  fetchTasksBetween,
+  fetchTaskStatuses,
+  fetchTaskTemplates,
+  fetchUserTaskStatuses,
+  hasOpenTasks,
+  saveTaskDraft,
+  updateTask,
+} from '@/lib/repositories/tasks';
+import { PROFILE_COLUMNS } from '@/lib/repositories/profiles';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createQueryMock } from '@/__tests__/test-utils/supabase';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('tasks repository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('queries', () => {
+    it('fetches tasks assigned to a sponsee with sponsor profiles through the RPC', async () => {
+      const rows = [{ id: 'task-1' }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockRpc.mockReturnValue(query);
+
+      await expect(fetchAssignedTasks('sponsee-1')).resolves.toEqual(rows);
+      expect(mockRpc).toHaveBeenCalledWith('get_assigned_tasks');
+      expect(query.select).toHaveBeenCalledWith(
+        `*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS})`
+      );
+      expect(query.select).not.toHaveBeenCalledWith(expect.stringContaining('sobriety_date'));
+      expect(query.eq).toHaveBeenCalledWith('sponsee_id', 'sponsee-1');
+      expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    });
+
+    it('fetches tasks created by a sponsor with sponsee profiles through the sharing RPC', async () => {
+      const query = createQueryMock({ data: [], error: null });
+      mockRpc.mockReturnValue(query);
+
+      await fetchCreatedTasks('sponsor-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_sponsor_tasks', { p_sponsor_id: 'sponsor-1' });
+      expect(query.select).toHaveBeenCalledWith(
+        `*, sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`
+      );
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('limits recent tasks to open ones', async () => {
+      const query = createQueryMock({ data: [], error: null });
+      mockRpc.mockReturnValue(query);
+
+      await fetchRecentAssignedTasks('sponsee-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_assigned_tasks');
+      expect(query.neq).toHaveBeenCalledWith('status', 'completed');
+      expect(query.limit).toHaveBeenCalledWith(3);
+    });
+
+    it('fetches completed tasks that have a completion time', async () => {
+      const query = createQueryMock({ data: [], error: null });
+      mockRpc.mockReturnValue(query);
+
+      await fetchCompletedTasks('sponsee-1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_assigned_tasks');
+      expect(query.eq).toHaveBeenCalledWith('status', 'completed');
+      expect(query.not).toHaveBeenCalledWith('completed_at', 'is', null);
+      expect(query.order).toHaveBeenCalledWith('completed_at', { ascending: false });
+    });
+
+    it('reports whether a sponsee has open tasks', async () => {
+      const query = createQueryMock({ data: [{ id: 'task-1' }], error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(hasOpenTasks('sponsee-1')).resolves.toBe(true);
+      expect(query.neq).toHaveBeenCalledWith('status', 'completed');
+
+      mockFrom.mockReturnValue(createQueryMock({ data: [], error: null }));
+      await expect(hasOpenTasks('sponsee-1')).resolves.toBe(false);
+    });
+
+    it("fetches a sponsee's open tasks with due dates, soonest first", async () => {
+      const rows = [{ id: 'task-1', title: 'Inventory', due_date: '2024-03-08' }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchDueTasks('sponsee-1')).resolves.toEqual(rows);
+      expect(query.neq).toHaveBeenCalledWith('status', 'completed');
+      expect(query.not).toHaveBeenCalledWith('due_date', 'is', null);
+      expect(query.order).toHaveBeenCalledWith('due_date', { ascending: true });
+    });
+
+    it('fetches task statuses for several sponsees in one query', async () => {
+      const rows = [{ sponsee_id: 'sponsee-1', status: 'completed', due_date: null }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchTaskStatuses('sponsor-1', ['sponsee-1', 'sponsee-2'])).resolves.toEqual(
+        rows
+      );
+      expect(query.select).toHaveBeenCalledWith('sponsee_id, status, due_date');
+      expect(query.in).toHaveBeenCalledWith('sponsee_id', ['sponsee-1', 'sponsee-2']);
+    });
+
+    it("fetches a pair's tasks through the sharing RPC", async () => {
+      const rows = [{ id: 'task-1' }];
+      mockRpc.mockReturnValue(createQueryMock({ data: rows, error: null }));
+
+      await expect(fetchTasksBetween('sponsor-1', 'sponsee-1')).resolves.toEqual(rows);
+      expect(mockRpc).toHaveBeenCalledWith('get_sponsor_tasks', {
+        p_sponsor_id: 'sponsor-1',
+        p_sponsee_id: 'sponsee-1',
+      });
+    });
+
+    it('fetches task statuses from both sides for a user', async () => {
+      const rows = [{ sponsor_id: 'user-1', sponsee_id: 'sponsee-1', status: 'assigned' }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchUserTaskStatuses('user-1')).resolves.toEqual(rows);
+      expect(query.select).toHaveBeenCalledWith('sponsor_id, sponsee_id, status');
+      expect(query.or).toHaveBeenCalledWith('sponsor_id.eq.user-1,sponsee_id.eq.user-1');
+    });
+
+    it("fetches a step's task templates by title", async () => {
+      const rows = [{ id: 'template-1', step_number: 4 }];
+      const query = createQueryMock({ data: rows, error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(fetchTaskTemplates(4)).resolves.toEqual(rows);
+      expect(mockFrom).toHaveBeenCalledWith('task_templates');
+      expect(query.eq).toHaveBeenCalledWith('step_number', 4);
+      expect(query.order).toHaveBeenCalledWith('title');
+    });
+
+    it('logs and throws when a query fails', async () => {
+      const error = { message: 'boom' };
+      mockRpc.mockReturnValue(createQueryMock({ data: null, error }));
+
+      await expect(fetchAssignedTasks('sponsee-1')).rejects.toBe(error);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Assigned tasks fetch failed',
+        error,
+        expect.objectContaining({ category: 'database' })
+      );
+    });
+  });
+
+  describe('mutations', () => {
+    it('creates tasks with assigned status in one insert', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+      const task = {
+        sponsor_id: 'sponsor-1',
+        sponsee_id: 'sponsee-1',
+        step_number: 4,
+        title: 'Inventory',
+        description: 'Start your inventory',
+        due_date: null,
+      };
+
+      await createTasks([task, { ...task, sponsee_id: 'sponsee-2' }]);
+
+      expect(query.insert).toHaveBeenCalledTimes(1);
+      expect(query.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ sponsee_id: 'sponsee-1', status: 'assigned' }),
+        expect.objectContaining({ sponsee_id: 'sponsee-2', status: 'assigned' }),
+      ]);
+    });
+
+    it('completes a task with notes', async () => {
+      const query = createQueryMock({ data: [{ id: 'task-1' }], error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(completeTask('task-1', 'Done')).resolves.toBe(true);
+
+      expect(query.update).toHaveBeenCalledWith({
+        status: 'completed',
+        completed_at: expect.any(String),
+        completion_notes: 'Done',
+        draft_notes: null,
+      });
+      expect(query.eq).toHaveBeenCalledWith('id', 'task-1');
+    });
+
+    it('reports when the task to complete no longer exists', async () => {
+      const query = createQueryMock({ data: [], error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(completeTask('task-1', null)).resolves.toBe(false);
+      expect(query.select).toHaveBeenCalledWith('id');
+    });
+
+    it('keeps the original completion time when one is given', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await completeTask('task-1', null, '2024-03-01T08:00:00.000Z');
+
+      expect(query.update).toHaveBeenCalledWith(
+        expect.objectContaining({ completed_at: '2024-03-01T08:00:00.000Z' })
+      );
+    });
+
+    it('starts a task and saves its draft notes unless it is completed', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await saveTaskDraft('task-1', 'First few lines');
+
+      expect(query.update).toHaveBeenCalledWith({
+        status: 'in_progress',
+        draft_notes: 'First few lines',
+      });
+      expect(query.eq).toHaveBeenCalledWith('id', 'task-1');
+      expect(query.neq).toHaveBeenCalledWith('status', 'completed');
+    });
+
+    it('edits a task that is not completed', async () => {
+      const query = createQueryMock({ data: [{ id: 'task-1' }], error: null });
+      mockFrom.mockReturnValue(query);
+
+      await expect(
+        updateTask('task-1', { title: 'Call me tonight', due_date: null })
+      ).resolves.toBe(true);
+
+      expect(query.update).toHaveBeenCalledWith({ title: 'Call me tonight', due_date: null });
+      expect(query.eq).toHaveBeenCalledWith('id', 'task-1');
+      expect(query.neq).toHaveBeenCalledWith('status', 'completed');
+      expect(query.select).toHaveBeenCalledWith('id');
+    });
+
+    it('reports when a task was completed before it could be edited', async () => {
+      mockFrom.mockReturnValue(createQueryMock({ data: [], error: null }));
+
+      await expect(updateTask('task-1', { title: 'Call me tonight' })).resolves.toBe(false);
+    });
+
+    it('deletes a task', async () => {
+      const query = createQueryMock({ error: null });
+      mockFrom.mockReturnValue(query);
+
+      await deleteTask('task-1');
+
+      expect(query.delete).toHaveBeenCalled();
+      expect(query.eq).toHaveBeenCalledWith('id', 'task-1');
+    });
+
+    it('logs and throws when a mutation fails', async () => {
+      const error = { message: 'denied' };
+      mockFrom.mockReturnValue(createQueryMock({ error }));
+
+      await expect(deleteTask('task-1')).rejects.toBe(error);
+      expect(logger.error).toHaveBeenCalledWith('Task deletion failed', error, expect.anything());
+    });
+  });
+});
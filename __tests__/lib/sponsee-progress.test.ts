@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Tests for lib/sponsee-progress.ts
+ *
+ * Tests grouping a sponsee's progress for the sponsor dashboard including:
+ * - Overdue and upcoming tasks relative to the sponsee's today
+ * - Ordering by due date
+ * - Recent completion notes
+ * - Completed step numbers
+ * - Task counts per sponsee and their summary
+ * - Overdue counts per sponsee in their own timezone
+ */
+
+import {
+  countOverdueTasks,
+  countSponseeTasks,
+  formatSponseeTaskCounts,
+  getCompletedStepNumbers,
+  groupSponseeTasks,
+  RECENT_NOTES_LIMIT,
+} from '@/lib/sponsee-progress';
+import type { Profile, Task } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/date', () => jest.requireActual('@/lib/date'));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const task = (id: string, fields: Partial<Task>): Task =>
+  ({
+    id,
+    status: 'assigned',
+    due_date: null,
+    created_at: '2024-01-01T00:00:00Z',
+    completed_at: null,
+    completion_notes: null,
+    ...fields,
+  }) as Task;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('sponsee progress', () => {
+  describe('groupSponseeTasks', () => {
+    it('treats open tasks due before today as overdue', () => {
+      const { overdue, upcoming } = groupSponseeTasks(
+        [
+          task('past', { due_date: '2024-06-09' }),
+          task('today', { due_date: '2024-06-10' }),
+          task('done', { due_date: '2024-06-01', status: 'completed' }),
+        ],
+        '2024-06-10'
+      );
+
+      expect(overdue.map((t) => t.id)).toEqual(['past']);
+      expect(upcoming.map((t) => t.id)).toEqual(['today']);
+    });
+
+    it('orders by due date with undated tasks last', () => {
+      const { overdue, upcoming } = groupSponseeTasks(
+        [
+          task('undated', {}),
+          task('later', { due_date: '2024-07-01', status: 'in_progress' }),
+          task('sooner', { due_date: '2024-06-15' }),
+          task('older', { due_date: '2024-05-01' }),
+          task('recent', { due_date: '2024-06-01' }),
+        ],
+        '2024-06-10'
+      );
+
+      expect(overdue.map((t) => t.id)).toEqual(['older', 'recent']);
+      expect(upcoming.map((t) => t.id)).toEqual(['sooner', 'later', 'undated']);
+    });
+
+    it('keeps the latest completion notes', () => {
+      const completed = Array.from({ length: RECENT_NOTES_LIMIT + 1 }, (_, i) =>
+        task(`note-${i}`, {
+          status: 'completed',
+          completed_at: `2024-06-0${i + 1}T12:00:00Z`,
+          completion_notes: `Note ${i}`,
+        })
+      );
+
+      const { recentNotes } = groupSponseeTasks(
+        [
+          ...completed,
+          task('blank', { status: 'completed', completed_at: '2024-06-09T12:00:00Z' }),
+          task('spaces', {
+            status: 'completed',
+            completed_at: '2024-06-09T12:00:00Z',
+            completion_notes: '  ',
+          }),
+        ],
+        '2024-06-10'
+      );
+
+      expect(recentNotes).toHaveLength(RECENT_NOTES_LIMIT);
+      expect(recentNotes[0].id).toBe(`note-${RECENT_NOTES_LIMIT}`);
+    });
+  });
+
+  describe('getCompletedStepNumbers', () => {
+    it('lists completed steps in order', () => {
+      expect(
+        getCompletedStepNumbers([
+          { step_number: 4, completed: true },
+          { step_number: 1, completed: true },
+          { step_number: 2, completed: false },
+        ])
+      ).toEqual([1, 4]);
+    });
+  });
+
+  describe('countSponseeTasks', () => {
+    it('counts in-progress and completed tasks per sponsee', () => {
+      expect(
+        countSponseeTasks(
+          ['sponsee-1', 'sponsee-2'],
+          [
+            { sponsee_id: 'sponsee-1', status: 'assigned' },
+            { sponsee_id: 'sponsee-1', status: 'in_progress' },
+            { sponsee_id: 'sponsee-1', status: 'completed' },
+            { sponsee_id: 'sponsee-3', status: 'completed' },
+          ]
+        )
+      ).toEqual({
+        'sponsee-1': { total: 3, inProgress: 1, completed: 1 },
+        'sponsee-2': { total: 0, inProgress: 0, completed: 0 },
+      });
+    });
+
+    it('only mentions started tasks when there are some', () => {
+      expect(formatSponseeTaskCounts({ total: 4, inProgress: 1, completed: 2 })).toBe(
+        '2/4 tasks completed · 1 in progress'
+      );
+      expect(formatSponseeTaskCounts({ total: 4, inProgress: 0, completed: 2 })).toBe(
+        '2/4 tasks completed'
+      );
+    });
+  });
+
+  describe('countOverdueTasks', () => {
+    // Still March 4 in New York, already March 5 in Tokyo
+    const now = new Date('2024-03-05T03:00:00Z');
+    const newYork = { id: 'sponsee-1', timezone: 'America/New_York' } as Profile;
+    const tokyo = { id: 'sponsee-2', timezone: 'Asia/Tokyo' } as Profile;
+
+    it("counts overdue open tasks in each sponsee's timezone, most overdue first", () => {
+      const tasks = [
+        { sponsee_id: 'sponsee-1', status: 'assigned' as const, due_date: '2024-03-03' },
+        { sponsee_id: 'sponsee-1', status: 'assigned' as const, due_date: '2024-03-04' },
+        { sponsee_id: 'sponsee-2', status: 'assigned' as const, due_date: '2024-03-04' },
+        { sponsee_id: 'sponsee-2', status: 'in_progress' as const, due_date: '2024-03-01' },
+        { sponsee_id: 'sponsee-2', status: 'completed' as const, due_date: '2024-03-01' },
+      ];
+
+      expect(countOverdueTasks([newYork, tokyo], tasks, now)).toEqual([
+        { sponsee: tokyo, overdue: 2 },
+        { sponsee: newYork, overdue: 1 },
+      ]);
+    });
+
+    it('leaves out sponsees with nothing overdue', () => {
+      const tasks = [
+        { sponsee_id: 'sponsee-1', status: 'assigned' as const, due_date: '2024-03-04' },
+        { sponsee_id: 'sponsee-2', status: 'assigned' as const, due_date: null },
+      ];
+
+      expect(countOverdueTasks([newYork, tokyo], tasks, now)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Tests for lib/task-changes.ts
+ *
+ * Tests task edits including:
+ * - Picking out the fields an edit changes
+ * - Summarizing the changes for the sponsee
+ */
+
+import { getTaskChanges, summarizeTaskChanges } from '@/lib/task-changes';
+import type { Task } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/date', () => jest.requireActual('@/lib/date'));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const task = {
+  id: 'task-1',
+  title: 'Call me',
+  description: 'A quick check-in call',
+  step_number: 3,
+  due_date: '2024-03-08',
+} as Task;
+
+const unchanged = {
+  title: 'Call me',
+  description: 'A quick check-in call',
+  step_number: 3,
+  due_date: '2024-03-08',
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('task changes', () => {
+  describe('getTaskChanges', () => {
+    it('returns nothing when no field changed', () => {
+      expect(getTaskChanges(task, unchanged)).toEqual({});
+    });
+
+    it('returns only the changed fields, including cleared ones', () => {
+      expect(
+        getTaskChanges(task, { ...unchanged, title: 'Call me tonight', step_number: null })
+      ).toEqual({ title: 'Call me tonight', step_number: null });
+    });
+  });
+
+  describe('summarizeTaskChanges', () => {
+    it('describes each change in a fixed order', () => {
+      expect(
+        summarizeTaskChanges({
+          due_date: '2024-03-10',
+          step_number: 4,
+          description: 'Call after the meeting',
+          title: 'Call me tonight',
+        })
+      ).toEqual([
+        'Title is now "Call me tonight"',
+        'Description updated',
+        'Moved to Step 4',
+        `Due ${new Date(2024, 2, 10).toLocaleDateString()}`,
+      ]);
+    });
+
+    it('describes a removed step and due date', () => {
+      expect(summarizeTaskChanges({ step_number: null, due_date: null })).toEqual([
+        'No longer tied to a step',
+        'Due date removed',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Tests for lib/task-due.ts
+ *
+ * Tests due-date handling for tasks including:
+ * - Overdue, due today and due soon in the sponsee's timezone
+ * - Relative due labels
+ * - Ordering tasks by how pressing they are
+ * - Reminder times the day before and on the day
+ */
+
+import {
+  compareTasksByDueDate,
+  formatDueLabel,
+  getTaskDueStatus,
+  getTaskReminderDates,
+  isTaskOverdue,
+} from '@/lib/task-due';
+import type { Task } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/date', () => jest.requireActual('@/lib/date'));
+
+// =============================================================================
+// Test Data
+// =============================================================================
+/** Evening of March 4 in New York, already March 5 in Tokyo */
+const now = new Date('2024-03-05T03:00:00Z');
+
+const task = (due_date: string | null, status: Task['status'] = 'assigned') => ({
+  due_date,
+  status,
+});
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('task due dates', () => {
+  describe('getTaskDueStatus', () => {
+    it("counts days in the sponsee's timezone", () => {
+      expect(getTaskDueStatus(task('2024-03-04'), 'America/New_York', now)).toBe('due_today');
+      expect(getTaskDueStatus(task('2024-03-04'), 'Asia/Tokyo', now)).toBe('overdue');
+    });
+
+    it('treats the next two days as due soon and later dates as upcoming', () => {
+      expect(getTaskDueStatus(task('2024-03-06'), 'America/New_York', now)).toBe('due_soon');
+      expect(getTaskDueStatus(task('2024-03-07'), 'America/New_York', now)).toBe('upcoming');
+    });
+
+    it('ignores completed tasks and tasks without a due date', () => {
+      expect(getTaskDueStatus(task('2024-03-01', 'completed'), 'UTC', now)).toBeNull();
+      expect(getTaskDueStatus(task(null), 'UTC', now)).toBeNull();
+      expect(isTaskOverdue(task('2024-03-01', 'completed'), 'UTC', now)).toBe(false);
+    });
+  });
+
+  describe('formatDueLabel', () => {
+    it('describes open tasks relative to today', () => {
+      expect(formatDueLabel(task('2024-03-03'), 'America/New_York', now)).toBe('Overdue by 1 day');
+      expect(formatDueLabel(task('2024-03-01'), 'America/New_York', now)).toBe('Overdue by 3 days');
+      expect(formatDueLabel(task('2024-03-04'), 'America/New_York', now)).toBe('Due today');
+      expect(formatDueLabel(task('2024-03-05'), 'America/New_York', now)).toBe('Due tomorrow');
+    });
+
+    it('shows the date for later and completed tasks', () => {
+      expect(formatDueLabel(task('2024-03-20'), 'UTC', now)).toBe(
+        `Due ${new Date(Date.UTC(2024, 2, 20)).toLocaleDateString()}`
+      );
+      expect(formatDueLabel(task('2024-03-01', 'completed'), 'UTC', now)).toBe(
+        `Due ${new Date(Date.UTC(2024, 2, 1)).toLocaleDateString()}`
+      );
+      expect(formatDueLabel(task(null), 'UTC', now)).toBeNull();
+    });
+  });
+
+  describe('compareTasksByDueDate', () => {
+    it('puts the earliest due first, then undated, then completed tasks', () => {
+      const tasks = [
+        { id: 'done', ...task('2024-01-01', 'completed') },
+        { id: 'undated', ...task(null) },
+        { id: 'later', ...task('2024-03-10') },
+        { id: 'overdue', ...task('2024-03-01', 'in_progress') },
+      ];
+
+      expect([...tasks].sort(compareTasksByDueDate).map((t) => t.id)).toEqual([
+        'overdue',
+        'later',
+        'undated',
+        'done',
+      ]);
+    });
+  });
+
+  describe('getTaskReminderDates', () => {
+    it('reminds at 9am the day before and on the day, in the given timezone', () => {
+      expect(getTaskReminderDates('2024-03-01', 'America/New_York')).toEqual([
+        new Date('2024-02-29T14:00:00Z'),
+        new Date('2024-03-01T14:00:00Z'),
+      ]);
+    });
+  });
+});
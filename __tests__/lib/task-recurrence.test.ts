@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Tests for lib/task-recurrence.ts
+ *
+ * Tests recurring task scheduling including:
+ * - Building, validating and describing recurrence rules
+ * - When the next occurrence is due, including missed periods
+ * - Advancing every series that needs a new occurrence
+ */
+
+import {
+  advanceTaskSeries,
+  buildRecurrenceRule,
+  describeRecurrence,
+  getNextOccurrenceDate,
+  isValidRecurrenceRule,
+} from '@/lib/task-recurrence';
+import { createSeriesOccurrence } from '@/lib/repositories';
+import type { Task, TaskSeries } from '@/types/database';
+
+// =============================================================================
+// Mocks
+// =============================================================================
+jest.mock('@/lib/date', () => jest.requireActual('@/lib/date'));
+
+jest.mock('@/lib/repositories', () => ({
+  createSeriesOccurrence: jest.fn(),
+}));
+
+const mockCreateSeriesOccurrence = createSeriesOccurrence as jest.Mock;
+
+// =============================================================================
+// Test Data
+// =============================================================================
+const series = (id: string, fields: Partial<TaskSeries> = {}): TaskSeries =>
+  ({
+    id,
+    recurrence: 'daily',
+    interval_days: 1,
+    starts_on: '2024-03-01',
+    stopped_at: null,
+    ...fields,
+  }) as TaskSeries;
+
+const occurrence = (dueDate: string, fields: Partial<Task> = {}): Task =>
+  ({
+    id: `task-${dueDate}`,
+    series_id: 'series-1',
+    due_date: dueDate,
+    status: 'assigned',
+    ...fields,
+  }) as Task;
+
+// =============================================================================
+// Tests
+// =============================================================================
+describe('task recurrence', () => {
+  describe('recurrence rules', () => {
+    it('fixes the interval for daily and weekly series', () => {
+      expect(buildRecurrenceRule('daily', 5)).toEqual({ recurrence: 'daily', interval_days: 1 });
+      expect(buildRecurrenceRule('weekly', 5)).toEqual({ recurrence: 'weekly', interval_days: 7 });
+      expect(buildRecurrenceRule('custom', 5)).toEqual({ recurrence: 'custom', interval_days: 5 });
+    });
+
+    it('only accepts whole intervals of 1 to 365 days', () => {
+      expect(isValidRecurrenceRule({ recurrence: 'custom', interval_days: 3 })).toBe(true);
+      expect(isValidRecurrenceRule({ recurrence: 'custom', interval_days: 0 })).toBe(false);
+      expect(isValidRecurrenceRule({ recurrence: 'custom', interval_days: 366 })).toBe(false);
+      expect(isValidRecurrenceRule({ recurrence: 'custom', interval_days: 1.5 })).toBe(false);
+    });
+
+    it('describes how often a series repeats', () => {
+      expect(describeRecurrence({ recurrence: 'daily', interval_days: 1 })).toBe('Repeats daily');
+      expect(describeRecurrence({ recurrence: 'weekly', interval_days: 7 })).toBe('Repeats weekly');
+      expect(describeRecurrence({ recurrence: 'custom', interval_days: 3 })).toBe(
+        'Repeats every 3 days'
+      );
+    });
+  });
+
+  describe('getNextOccurrenceDate', () => {
+    it('waits while the current occurrence is open and not yet past due', () => {
+      expect(
+        getNextOccurrenceDate(series('series-1'), [occurrence('2024-03-05')], '2024-03-05')
+      ).toBeNull();
+    });
+
+    it('schedules the next period once the current occurrence is completed', () => {
+      const weekly = series('series-1', { recurrence: 'weekly', interval_days: 7 });
+
+      expect(
+        getNextOccurrenceDate(
+          weekly,
+          [occurrence('2024-03-01', { status: 'completed' }), occurrence('2024-02-23')],
+          '2024-02-28'
+        )
+      ).toBe('2024-03-08');
+    });
+
+    it('rolls over to the current period when occurrences were missed', () => {
+      const everyThreeDays = series('series-1', { recurrence: 'custom', interval_days: 3 });
+
+      expect(getNextOccurrenceDate(everyThreeDays, [occurrence('2024-03-01')], '2024-03-08')).toBe(
+        '2024-03-10'
+      );
+    });
+
+    it('starts a series without occurrences on its start date', () => {
+      expect(getNextOccurrenceDate(series('series-1'), [], '2024-02-20')).toBe('2024-03-01');
+      expect(getNextOccurrenceDate(series('series-1'), [], '2024-03-04')).toBe('2024-03-04');
+    });
+
+    it('never schedules a stopped series', () => {
+      expect(
+        getNextOccurrenceDate(
+          series('series-1', { stopped_at: '2024-03-02T10:00:00Z' }),
+          [occurrence('2024-03-01', { status: 'completed' })],
+          '2024-03-05'
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('advanceTaskSeries', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.useFakeTimers().setSystemTime(new Date('2024-03-05T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("creates each due occurrence on the sponsee's today", async () => {
+      mockCreateSeriesOccurrence.mockResolvedValue('task-new');
+
+      const created = await advanceTaskSeries(
+        [series('series-1'), series('series-2')],
+        [
+          occurrence('2024-03-04', { status: 'completed' }),
+          occurrence('2024-03-05', { series_id: 'series-2' }),
+        ],
+        'UTC'
+      );
+
+      expect(created).toBe(1);
+      expect(mockCreateSeriesOccurrence).toHaveBeenCalledTimes(1);
+      expect(mockCreateSeriesOccurrence).toHaveBeenCalledWith('series-1', '2024-03-05');
+    });
+
+    it('keeps going when one series fails to advance', async () => {
+      mockCreateSeriesOccurrence
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce(null);
+
+      await expect(
+        advanceTaskSeries([series('series-1'), series('series-2')], [], 'UTC')
+      ).resolves.toBe(0);
+      expect(mockCreateSeriesOccurrence).toHaveBeenCalledTimes(2);
+    });
+  });
+});
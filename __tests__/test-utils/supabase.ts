@@ -0,0 +1,46 @@
+/**
+ * Methods of Supabase's query builder that tests may chain.
+ */
+const QUERY_METHODS = [
+  'select',
+  'insert',
+  'update',
+  'upsert',
+  'delete',
+  'eq',
+  'neq',
+  'in',
+  'is',
+  'or',
+  'not',
+  'order',
+  'limit',
+  'single',
+  'maybeSingle',
+] as const;
+
+export type QueryMock = Record<(typeof QUERY_METHODS)[number], jest.Mock> & PromiseLike<unknown>;
+
+/**
+ * Creates a mock Supabase query whose chain methods all return the query itself
+ * and which resolves to `result` when awaited, wherever the chain ends.
+ *
+ * @param result - The `{ data, error, count }` object the query resolves to
+ * @returns The chainable mock, whose methods can be asserted on
+ *
+ * @example
+ * ```ts
+ * const query = createQueryMock({ data: [], error: null });
+ * (supabase.from as jest.Mock).mockReturnValue(query);
+ * // ...
+ * expect(query.eq).toHaveBeenCalledWith('user_id', 'user-123');
+ * ```
+ */
+export function createQueryMock(result: Record<string, unknown>): QueryMock {
+  const query = {} as QueryMock;
+  for (const method of QUERY_METHODS) {
+    query[method] = jest.fn(() => query);
+  }
+  query.then = (onFulfilled, onRejected) => Promise.resolve(result).then(onFulfilled, onRejected);
+  return query;
+}
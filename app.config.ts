@@ -54,6 +54,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     icon: './assets/images/logo.png',
     supportsTablet: true,
     usesAppleSignIn: true, // Enable Sign in with Apple capability
+    associatedDomains: ['applinks:sobrietywaypoint.com'], // Universal links for invite URLs
     infoPlist: {
       ITSAppUsesNonExemptEncryption: false,
     },
@@ -69,6 +70,15 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     },
     edgeToEdgeEnabled: true,
     predictiveBackGestureEnabled: false,
+    // Verified app links so https://sobrietywaypoint.com/invite/<code> opens the app
+    intentFilters: [
+      {
+        action: 'VIEW',
+        autoVerify: true,
+        data: [{ scheme: 'https', host: 'sobrietywaypoint.com', pathPrefix: '/invite' }],
+        category: ['BROWSABLE', 'DEFAULT'],
+      },
+    ],
   },
   web: {
     output: 'static',
@@ -77,6 +87,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
   plugins: [
     'expo-router',
     'expo-apple-authentication', // Native Sign in with Apple support
+    'expo-notifications', // Local milestone and daily reminder notifications
     [
       'expo-splash-screen',
       {
@@ -2,6 +2,9 @@ import { Tabs, usePathname, useRouter } from 'expo-router';
 import { Home, BookOpen, TrendingUp, CheckSquare, User } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import AnimatedBottomNav, { AnimatedNavItem } from '@/components/AnimatedBottomNav';
+import { useUnreadNotifications } from '@/hooks/useUnreadNotifications';
+import { useLocalNotificationSchedule } from '@/hooks/useLocalNotificationSchedule';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
 import { useEffect, useState } from 'react';
 
 const tabRoutes = [
@@ -17,6 +20,10 @@ export default function TabLayout() {
   const pathname = usePathname();
   const router = useRouter();
   const [activeIndex, setActiveIndex] = useState(0);
+  // Re-count on every navigation so the badge clears after visiting the inbox
+  const { unreadCount } = useUnreadNotifications(pathname);
+  useLocalNotificationSchedule();
+  useOfflineSync();
 
   useEffect(() => {
     const index = tabRoutes.findIndex(
@@ -30,6 +37,8 @@ export default function TabLayout() {
   const navItems: AnimatedNavItem[] = tabRoutes.map((tab, index) => ({
     label: tab.title,
     icon: tab.icon,
+    // Unread notifications surface on Home, which links to the inbox
+    badgeCount: tab.name === 'index' ? unreadCount : undefined,
     onPress: () => {
       router.push(tab.route as any);
     },
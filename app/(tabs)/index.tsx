@@ -11,7 +11,21 @@ import {
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
-import { supabase } from '@/lib/supabase';
+import {
+  endRelationship,
+  fetchCheckIns,
+  fetchPendingRelationships,
+  fetchRecentAssignedTasks,
+  fetchSponseeRelationships,
+  fetchSponsorRelationships,
+  fetchTaskStatuses,
+} from '@/lib/repositories';
+import {
+  applyPendingToTasks,
+  cacheKeys,
+  getPendingMutations,
+  withOfflineCache,
+} from '@/lib/offline';
 import { SponsorSponseeRelationship, Task, Profile } from '@/types/database';
 import { useDaysSober } from '@/hooks/useDaysSober';
 import {
@@ -23,16 +37,31 @@ import {
   Plus,
   BookOpen,
   ClipboardList,
+  MessageCircle,
+  Bell,
+  Clock,
+  Flame,
+  Moon,
 } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
+import ConnectionRequestList from '@/components/ConnectionRequestList';
 import TaskCreationModal from '@/components/TaskCreationModal';
-import { logger, LogCategory } from '@/lib/logger';
-import { parseDateAsLocal } from '@/lib/date';
+import { sendNotification } from '@/lib/notifications';
+import { formatDateWithTimezone, getUserTimezone, parseDateAsLocal } from '@/lib/date';
+import { getCheckInStreak } from '@/lib/check-ins';
+import {
+  countOverdueTasks,
+  countSponseeTasks,
+  formatSponseeTaskCounts,
+  type SponseeOverdueCount,
+  type SponseeTaskCounts,
+} from '@/lib/sponsee-progress';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
 
 /**
  * Render the home dashboard showing the user's sobriety summary, sponsor/sponsee relationships, recent tasks, and quick actions.
  *
- * Fetches relationships and recent tasks from the backend, supports pull-to-refresh, allows disconnecting relationships and creating tasks for sponsees, and displays milestone and days-sober information.
+ * Fetches relationships, pending connection requests, recent tasks and check-ins from the backend, supports pull-to-refresh, allows disconnecting relationships and creating tasks for sponsees, and displays milestone and days-sober information.
  *
  * @returns The Home screen React element.
  */
@@ -40,47 +69,72 @@ export default function HomeScreen() {
   const { profile } = useAuth();
   const { theme } = useTheme();
   const [relationships, setRelationships] = useState<SponsorSponseeRelationship[]>([]);
+  const [pendingRelationships, setPendingRelationships] = useState<SponsorSponseeRelationship[]>(
+    []
+  );
   const [tasks, setTasks] = useState<Task[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [showTaskModal, setShowTaskModal] = useState(false);
   const [selectedSponseeId, setSelectedSponseeId] = useState<string>('');
   const [sponseeProfiles, setSponseeProfiles] = useState<Profile[]>([]);
+  const [sponseeTaskCounts, setSponseeTaskCounts] = useState<Record<string, SponseeTaskCounts>>({});
+  const [overdueBySponsee, setOverdueBySponsee] = useState<SponseeOverdueCount[]>([]);
+  const [checkInDates, setCheckInDates] = useState<string[]>([]);
   const router = useRouter();
   const { daysSober, currentStreakStartDate, loading: loadingDaysSober } = useDaysSober();
 
   const fetchData = useCallback(async () => {
     if (!profile) return;
 
-    const { data: asSponsor } = await supabase
-      .from('sponsor_sponsee_relationships')
-      .select('*, sponsee:sponsee_id(*)')
-      .eq('sponsor_id', profile.id)
-      .eq('status', 'active');
+    try {
+      const asSponsor = await withOfflineCache(cacheKeys.sponseeRelationships(profile.id), () =>
+        fetchSponseeRelationships(profile.id)
+      );
+      const asSponsee = await withOfflineCache(cacheKeys.sponsorRelationships(profile.id), () =>
+        fetchSponsorRelationships(profile.id)
+      );
 
-    const { data: asSponsee } = await supabase
-      .from('sponsor_sponsee_relationships')
-      .select('*, sponsor:sponsor_id(*)')
-      .eq('sponsee_id', profile.id)
-      .eq('status', 'active');
+      setRelationships([...asSponsor, ...asSponsee]);
+      const profiles = asSponsor.map((rel) => rel.sponsee).filter(Boolean) as Profile[];
+      setSponseeProfiles(profiles);
 
-    setRelationships([...(asSponsor || []), ...(asSponsee || [])]);
-    const profiles = (asSponsor || []).map((rel) => rel.sponsee).filter(Boolean) as Profile[];
-    setSponseeProfiles(profiles);
+      const sponseeIds = asSponsor.map((rel) => rel.sponsee_id);
+      const [recentTasks, pending, taskStatuses, checkIns] = await Promise.all([
+        withOfflineCache(cacheKeys.recentAssignedTasks(profile.id), () =>
+          fetchRecentAssignedTasks(profile.id)
+        ),
+        getPendingMutations(),
+        sponseeIds.length > 0
+          ? withOfflineCache(cacheKeys.sponseeTaskStatuses(profile.id), () =>
+              fetchTaskStatuses(profile.id, sponseeIds)
+            )
+          : [],
+        withOfflineCache(cacheKeys.checkIns(profile.id), () => fetchCheckIns(profile.id)),
+      ]);
+      // Hide tasks completed offline that the server still lists as open
+      setTasks(applyPendingToTasks(recentTasks, pending).filter((t) => t.status !== 'completed'));
+      setSponseeTaskCounts(countSponseeTasks(sponseeIds, taskStatuses));
+      setOverdueBySponsee(countOverdueTasks(profiles, taskStatuses));
+      setCheckInDates(checkIns.map((checkIn) => checkIn.check_in_date));
 
-    const { data: tasksData } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('sponsee_id', profile.id)
-      .eq('status', 'assigned')
-      .order('created_at', { ascending: false })
-      .limit(3);
-    setTasks(tasksData || []);
+      // Requests need a live answer, so they are not cached for offline use
+      setPendingRelationships(await fetchPendingRelationships(profile.id));
+    } catch {
+      // Already logged by the repository; keep showing the last loaded data
+    }
   }, [profile]);
 
   useEffect(() => {
     fetchData();
   }, [profile, fetchData]);
 
+  useRealtimeChanges('tasks', ['sponsor_id', 'sponsee_id'], () => {
+    fetchData();
+  });
+  useRealtimeChanges('sponsor_sponsee_relationships', ['sponsor_id', 'sponsee_id'], () => {
+    fetchData();
+  });
+
   const onRefresh = async () => {
     setRefreshing(true);
     await fetchData();
@@ -117,15 +171,7 @@ export default function HomeScreen() {
     if (!confirmed) return;
 
     try {
-      const { error } = await supabase
-        .from('sponsor_sponsee_relationships')
-        .update({
-          status: 'inactive',
-          disconnected_at: new Date().toISOString(),
-        })
-        .eq('id', relationshipId);
-
-      if (error) throw error;
+      await endRelationship(relationshipId);
 
       const relationship = relationships.find((r) => r.id === relationshipId);
       if (relationship && profile) {
@@ -134,15 +180,13 @@ export default function HomeScreen() {
           : relationship.sponsor_id;
         const notificationSenderName = `${profile.first_name} ${profile.last_initial}.`;
 
-        await supabase.from('notifications').insert([
-          {
-            user_id: notificationRecipientId,
-            type: 'connection_request',
-            title: 'Relationship Ended',
-            content: `${notificationSenderName} has ended the ${isSponsor ? 'sponsorship' : 'sponsee'} relationship.`,
-            data: { relationship_id: relationshipId },
-          },
-        ]);
+        await sendNotification({
+          user_id: notificationRecipientId,
+          type: 'connection_request',
+          title: 'Relationship Ended',
+          content: `${notificationSenderName} has ended the ${isSponsor ? 'sponsorship' : 'sponsee'} relationship.`,
+          data: { relationship_id: relationshipId },
+        });
       }
 
       await fetchData();
@@ -153,9 +197,6 @@ export default function HomeScreen() {
         Alert.alert('Success', 'Successfully disconnected');
       }
     } catch (error: unknown) {
-      logger.error('Relationship disconnect failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
       const message = error instanceof Error ? error.message : 'Failed to disconnect.';
       if (Platform.OS === 'web') {
         window.alert(message);
@@ -180,6 +221,9 @@ export default function HomeScreen() {
   };
 
   const milestone = getMilestone(daysSober);
+  const today = formatDateWithTimezone(new Date(), getUserTimezone(profile));
+  const checkedInToday = checkInDates.includes(today);
+  const checkInStreak = getCheckInStreak(checkInDates, today);
   const styles = createStyles(theme);
 
   return (
@@ -191,14 +235,34 @@ export default function HomeScreen() {
       }
     >
       <View style={styles.header}>
-        <Text style={styles.greeting}>Hello, {profile?.first_name || 'Friend'}</Text>
-        <Text style={styles.date}>
-          {new Date().toLocaleDateString('en-US', {
-            weekday: 'long',
-            month: 'long',
-            day: 'numeric',
-          })}
-        </Text>
+        <View style={styles.headerText}>
+          <Text style={styles.greeting}>Hello, {profile?.first_name || 'Friend'}</Text>
+          <Text style={styles.date}>
+            {new Date().toLocaleDateString('en-US', {
+              weekday: 'long',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </Text>
+        </View>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.push('/notifications')}
+            accessibilityRole="button"
+            accessibilityLabel="Open notifications"
+          >
+            <Bell size={24} color={theme.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => router.push('/messages')}
+            accessibilityRole="button"
+            accessibilityLabel="Open messages"
+          >
+            <MessageCircle size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <View style={styles.sobrietyCard}>
@@ -228,6 +292,45 @@ export default function HomeScreen() {
         </View>
       </View>
 
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => router.push('/check-in')}
+        accessibilityRole="button"
+        accessibilityLabel={checkedInToday ? 'Update your daily check-in' : 'Check in for today'}
+      >
+        <View style={styles.cardHeader}>
+          <Moon size={24} color={theme.textSecondary} />
+          <Text style={styles.cardTitle}>Daily Check-In</Text>
+        </View>
+        <View style={styles.checkInRow}>
+          <View style={styles.checkInStreak}>
+            <Flame size={18} color="#f59e0b" />
+            <Text style={styles.relationshipMeta}>
+              {checkInStreak === 1 ? '1-day streak' : `${checkInStreak}-day streak`}
+            </Text>
+          </View>
+          <View style={[styles.taskBadge, checkedInToday && styles.checkedInBadge]}>
+            <Text style={[styles.taskBadgeText, checkedInToday && styles.checkedInBadgeText]}>
+              {checkedInToday ? 'Checked in today' : 'Check in'}
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+
+      {profile && pendingRelationships.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Users size={24} color={theme.textSecondary} />
+            <Text style={styles.cardTitle}>Connection Requests</Text>
+          </View>
+          <ConnectionRequestList
+            requests={pendingRelationships}
+            profile={profile}
+            onChange={fetchData}
+          />
+        </View>
+      )}
+
       {relationships.filter((rel) => rel.sponsor_id !== profile?.id).length > 0 && (
         <View style={styles.card}>
           <View style={styles.cardHeader}>
@@ -251,6 +354,13 @@ export default function HomeScreen() {
                     Connected {new Date(rel.connected_at).toLocaleDateString()}
                   </Text>
                 </View>
+                <TouchableOpacity
+                  style={styles.assignTaskButton}
+                  accessibilityLabel={`Message ${rel.sponsor?.first_name} ${rel.sponsor?.last_initial}.`}
+                  onPress={() => router.push(`/messages/${rel.sponsor_id}`)}
+                >
+                  <MessageCircle size={16} color={theme.primary} />
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.disconnectButton}
                   accessibilityLabel={`Disconnect from ${rel.sponsor?.first_name} ${rel.sponsor?.last_initial}.`}
@@ -269,6 +379,35 @@ export default function HomeScreen() {
         </View>
       )}
 
+      {overdueBySponsee.length > 0 && (
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Clock size={24} color="#ef4444" />
+            <Text style={styles.cardTitle}>Overdue Tasks</Text>
+          </View>
+          {overdueBySponsee.map(({ sponsee, overdue }) => (
+            <TouchableOpacity
+              key={sponsee.id}
+              style={styles.taskItem}
+              accessibilityRole="button"
+              accessibilityLabel={`View overdue tasks for ${sponsee.first_name} ${sponsee.last_initial}.`}
+              onPress={() => router.push(`/sponsee/${sponsee.id}`)}
+            >
+              <View style={styles.taskInfo}>
+                <Text style={styles.taskTitle}>
+                  {sponsee.first_name} {sponsee.last_initial}.
+                </Text>
+              </View>
+              <View style={[styles.taskBadge, styles.overdueBadge]}>
+                <Text style={[styles.taskBadgeText, styles.overdueBadgeText]}>
+                  {overdue} overdue
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
       <View style={styles.card}>
         <View style={styles.cardHeader}>
           <Users size={24} color={theme.textSecondary} />
@@ -286,14 +425,31 @@ export default function HomeScreen() {
                     {(rel.sponsee?.first_name || '?')[0].toUpperCase()}
                   </Text>
                 </View>
-                <View style={styles.relationshipInfo}>
+                <TouchableOpacity
+                  style={styles.relationshipInfo}
+                  accessibilityRole="button"
+                  accessibilityLabel={`View progress for ${rel.sponsee?.first_name} ${rel.sponsee?.last_initial}.`}
+                  onPress={() => router.push(`/sponsee/${rel.sponsee_id}`)}
+                >
                   <Text style={styles.relationshipName}>
                     {rel.sponsee?.first_name} {rel.sponsee?.last_initial}.
                   </Text>
                   <Text style={styles.relationshipMeta}>
                     Connected {new Date(rel.connected_at).toLocaleDateString()}
                   </Text>
-                </View>
+                  {!!sponseeTaskCounts[rel.sponsee_id]?.total && (
+                    <Text style={styles.relationshipMeta}>
+                      {formatSponseeTaskCounts(sponseeTaskCounts[rel.sponsee_id])}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.assignTaskButton}
+                  accessibilityLabel={`Message ${rel.sponsee?.first_name} ${rel.sponsee?.last_initial}.`}
+                  onPress={() => router.push(`/messages/${rel.sponsee_id}`)}
+                >
+                  <MessageCircle size={16} color={theme.primary} />
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.assignTaskButton}
                   onPress={() => {
@@ -351,7 +507,9 @@ export default function HomeScreen() {
                 <Text style={styles.taskMeta}>Step {task.step_number}</Text>
               </View>
               <View style={styles.taskBadge}>
-                <Text style={styles.taskBadgeText}>New</Text>
+                <Text style={styles.taskBadgeText}>
+                  {task.status === 'in_progress' ? 'In Progress' : 'New'}
+                </Text>
               </View>
             </TouchableOpacity>
           ))}
@@ -384,9 +542,23 @@ const createStyles = (theme: ThemeColors) =>
       backgroundColor: theme.background,
     },
     header: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
       padding: 24,
       paddingTop: 60,
     },
+    headerText: {
+      flex: 1,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    headerButton: {
+      padding: 8,
+      borderRadius: 20,
+      backgroundColor: theme.card,
+    },
     greeting: {
       fontSize: 28,
       fontFamily: theme.fontRegular,
@@ -564,6 +736,28 @@ const createStyles = (theme: ThemeColors) =>
       fontWeight: '600',
       color: '#ffffff',
     },
+    overdueBadge: {
+      backgroundColor: '#fee2e2',
+    },
+    overdueBadgeText: {
+      color: '#ef4444',
+    },
+    checkInRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    checkInStreak: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    checkedInBadge: {
+      backgroundColor: '#d1fae5',
+    },
+    checkedInBadgeText: {
+      color: '#10b981',
+    },
     viewAllButton: {
       marginTop: 12,
       paddingVertical: 12,
@@ -2,8 +2,15 @@ import React, { useState, useCallback } from 'react';
 import { View, Text, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
-import { supabase } from '@/lib/supabase';
-import { UserStepProgress, SlipUp, Task } from '@/types/database';
+import {
+  fetchAmends,
+  fetchCheckIns,
+  fetchCompletedSteps,
+  fetchCompletedTasks,
+  fetchSlipUps,
+} from '@/lib/repositories';
+import { cacheKeys, withOfflineCache } from '@/lib/offline';
+import { AmendsEntry, DailyCheckIn, UserStepProgress, SlipUp, Task } from '@/types/database';
 import {
   Calendar,
   CheckCircle,
@@ -14,11 +21,13 @@ import {
   CheckSquare,
   ListChecks,
   Target,
+  Moon,
 } from 'lucide-react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import { useDaysSober } from '@/hooks/useDaysSober';
-import { logger, LogCategory } from '@/lib/logger';
 import { parseDateAsLocal } from '@/lib/date';
+import { SOBRIETY_MILESTONES } from '@/lib/milestones';
+import { MOOD_LABELS } from '@/lib/check-ins';
 
 type TimelineEventType =
   | 'sobriety_start'
@@ -26,7 +35,9 @@ type TimelineEventType =
   | 'step_completion'
   | 'milestone'
   | 'task_completion'
-  | 'task_milestone';
+  | 'task_milestone'
+  | 'amends_made'
+  | 'check_in';
 
 interface TimelineEvent {
   id: string;
@@ -43,7 +54,8 @@ interface TimelineEvent {
     | 'trending'
     | 'check-square'
     | 'list-checks'
-    | 'target';
+    | 'target'
+    | 'moon';
   color: string;
   metadata?: any;
 }
@@ -51,7 +63,7 @@ interface TimelineEvent {
 /**
  * Renders the user's recovery journey screen containing sobriety metrics and a chronological timeline.
  *
- * Shows the sobriety start, slip-ups, step completions, task completions, and milestone events alongside summary statistics and a visual timeline.
+ * Shows the sobriety start, slip-ups, step completions, task completions, amends made, daily check-ins, and milestone events alongside summary statistics and a visual timeline.
  *
  * @returns The React element for the Journey screen
  */
@@ -71,6 +83,8 @@ export default function JourneyScreen() {
     slipUps: SlipUp[];
     stepProgress: UserStepProgress[];
     completedTasks: Task[];
+    amends: AmendsEntry[];
+    checkIns: DailyCheckIn[];
   }
 
   const [timelineData, setTimelineData] = useState<TimelineRawData | null>(null);
@@ -78,7 +92,7 @@ export default function JourneyScreen() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch raw data from Supabase - only depends on profile
+  // Fetch raw timeline data - only depends on profile
   const fetchRawData = useCallback(async () => {
     if (!profile) {
       setLoading(false);
@@ -89,45 +103,24 @@ export default function JourneyScreen() {
       setLoading(true);
       setError(null);
 
-      // 1. Fetch slip ups
-      const { data: slipUps, error: slipUpsError } = await supabase
-        .from('slip_ups')
-        .select('*')
-        .eq('user_id', profile.id)
-        .order('slip_up_date', { ascending: false });
-
-      if (slipUpsError) throw slipUpsError;
-
-      // 2. Fetch step completions
-      const { data: stepProgress, error: stepsError } = await supabase
-        .from('user_step_progress')
-        .select('*')
-        .eq('user_id', profile.id)
-        .eq('completed', true)
-        .order('completed_at', { ascending: false });
-
-      if (stepsError) throw stepsError;
-
-      // 3. Fetch completed tasks
-      const { data: completedTasks, error: tasksError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('sponsee_id', profile.id)
-        .eq('status', 'completed')
-        .not('completed_at', 'is', null)
-        .order('completed_at', { ascending: false });
-
-      if (tasksError) throw tasksError;
-
-      setTimelineData({
-        slipUps: slipUps || [],
-        stepProgress: stepProgress || [],
-        completedTasks: completedTasks || [],
-      });
-    } catch (err) {
-      logger.error('Timeline data fetch failed', err as Error, {
-        category: LogCategory.DATABASE,
-      });
+      const slipUps = await withOfflineCache(cacheKeys.slipUps(profile.id), () =>
+        fetchSlipUps(profile.id)
+      );
+      const stepProgress = await withOfflineCache(cacheKeys.completedSteps(profile.id), () =>
+        fetchCompletedSteps(profile.id)
+      );
+      const completedTasks = await withOfflineCache(cacheKeys.completedTasks(profile.id), () =>
+        fetchCompletedTasks(profile.id)
+      );
+      const amends = await withOfflineCache(cacheKeys.amends(profile.id), () =>
+        fetchAmends(profile.id)
+      );
+      const checkIns = await withOfflineCache(cacheKeys.checkIns(profile.id), () =>
+        fetchCheckIns(profile.id)
+      );
+
+      setTimelineData({ slipUps, stepProgress, completedTasks, amends, checkIns });
+    } catch {
       setError('Failed to load your journey timeline');
     } finally {
       setLoading(false);
@@ -138,7 +131,7 @@ export default function JourneyScreen() {
   React.useEffect(() => {
     if (!profile || !timelineData) return;
 
-    const { slipUps, stepProgress, completedTasks } = timelineData;
+    const { slipUps, stepProgress, completedTasks, amends, checkIns } = timelineData;
     const timelineEvents: TimelineEvent[] = [];
 
     // 1. Sobriety start date
@@ -228,7 +221,38 @@ export default function JourneyScreen() {
       });
     }
 
-    // 6. Sobriety milestones
+    // 6. Amends made
+    amends.forEach((entry) => {
+      if (entry.made_at) {
+        timelineEvents.push({
+          id: `amends-${entry.id}`,
+          type: 'amends_made',
+          date: new Date(entry.made_at),
+          title: 'Amends Made',
+          description: `Made amends to ${entry.person}`,
+          icon: 'heart',
+          color: '#ec4899', // pink
+          metadata: { amendsId: entry.id },
+        });
+      }
+    });
+
+    // 7. Daily check-ins
+    checkIns.forEach((checkIn) => {
+      const mood = `Mood: ${MOOD_LABELS[checkIn.mood]}`;
+      timelineEvents.push({
+        id: `check-in-${checkIn.id}`,
+        type: 'check_in',
+        date: parseDateAsLocal(checkIn.check_in_date),
+        title: 'Daily Check-In',
+        description: checkIn.gratitude ? `${mood} · Grateful for: ${checkIn.gratitude}` : mood,
+        icon: 'moon',
+        color: '#6366f1', // indigo
+        metadata: { checkInId: checkIn.id },
+      });
+    });
+
+    // 8. Sobriety milestones
     // IMPORTANT: Milestones are calculated from currentStreakStartDate (recovery restart date),
     // NOT from the original profile.sobriety_date. This is intentional:
     // - If user has slip-ups, milestones reset to their most recent recovery restart
@@ -238,18 +262,7 @@ export default function JourneyScreen() {
     if (currentStreakStartDate) {
       const streakStartDate = parseDateAsLocal(currentStreakStartDate);
 
-      const milestones = [
-        { days: 7, label: '1 Week Sober' },
-        { days: 30, label: '30 Days Sober' },
-        { days: 60, label: '60 Days Sober' },
-        { days: 90, label: '90 Days Sober' },
-        { days: 180, label: '6 Months Sober' },
-        { days: 365, label: '1 Year Sober' },
-        { days: 730, label: '2 Years Sober' },
-        { days: 1095, label: '3 Years Sober' },
-      ];
-
-      milestones.forEach(({ days, label }) => {
+      SOBRIETY_MILESTONES.forEach(({ days, label }) => {
         if (daysSober >= days) {
           const milestoneDate = new Date(streakStartDate);
           milestoneDate.setDate(milestoneDate.getDate() + days);
@@ -300,6 +313,8 @@ export default function JourneyScreen() {
         return <Award size={size} color={color} />;
       case 'trending':
         return <TrendingUp size={size} color={color} />;
+      case 'moon':
+        return <Moon size={size} color={color} />;
       default:
         return <Calendar size={size} color={color} />;
     }
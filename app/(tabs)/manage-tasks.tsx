@@ -11,52 +11,74 @@ import {
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
-import { supabase } from '@/lib/supabase';
-import { Task, Profile } from '@/types/database';
-import { Plus, CheckCircle, Clock, Calendar, Trash2 } from 'lucide-react-native';
+import { deleteTask, fetchCreatedTasks, fetchSponseeRelationships } from '@/lib/repositories';
+import { Task, TaskStatus, Profile } from '@/types/database';
+import {
+  Plus,
+  CheckCircle,
+  Clock,
+  Calendar,
+  Trash2,
+  MessageSquare,
+  Pencil,
+} from 'lucide-react-native';
 import TaskCreationModal from '@/components/TaskCreationModal';
+import TaskReviewModal from '@/components/TaskReviewModal';
 import { formatProfileName } from '@/lib/format';
-import { logger, LogCategory } from '@/lib/logger';
-import { parseDateAsLocal } from '@/lib/date';
+import { getUserTimezone } from '@/lib/date';
+import { compareTasksByDueDate, formatDueLabel, isTaskOverdue } from '@/lib/task-due';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { mergeRealtimeChange } from '@/lib/realtime';
 
 export default function ManageTasksScreen() {
   const { profile } = useAuth();
   const { theme } = useTheme();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [sponsees, setSponsees] = useState<Profile[]>([]);
+  // Sponsees who share their notes; realtime updates can carry anyone's notes
+  const [notesSharedBy, setNotesSharedBy] = useState<Set<string>>(new Set());
   const [refreshing, setRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [preselectedSponseeId, setPreselectedSponseeId] = useState<string | undefined>(undefined);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'assigned' | 'completed'>('all');
+  const [filterStatus, setFilterStatus] = useState<'all' | TaskStatus>('all');
   const [selectedSponseeFilter, setSelectedSponseeFilter] = useState<string>('all');
+  const [reviewingTask, setReviewingTask] = useState<Task | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
 
   const fetchData = useCallback(async () => {
     if (!profile) return;
 
-    const { data: sponseeData } = await supabase
-      .from('sponsor_sponsee_relationships')
-      .select('*, sponsee:sponsee_id(*)')
-      .eq('sponsor_id', profile.id)
-      .eq('status', 'active');
-
-    const sponseeProfiles = (sponseeData || [])
-      .map((rel) => rel.sponsee)
-      .filter(Boolean) as Profile[];
-    setSponsees(sponseeProfiles);
-
-    const { data: taskData } = await supabase
-      .from('tasks')
-      .select('*, sponsee:sponsee_id(*)')
-      .eq('sponsor_id', profile.id)
-      .order('created_at', { ascending: false });
-
-    setTasks(taskData || []);
+    try {
+      const sponseeData = await fetchSponseeRelationships(profile.id);
+      const sponseeProfiles = sponseeData.map((rel) => rel.sponsee).filter(Boolean) as Profile[];
+      setSponsees(sponseeProfiles);
+      setNotesSharedBy(
+        new Set(sponseeData.filter((rel) => rel.share_notes).map((rel) => rel.sponsee_id))
+      );
+
+      setTasks(await fetchCreatedTasks(profile.id));
+    } catch {
+      // Already logged by the repository; keep showing the last loaded data
+    }
   }, [profile]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Completions by sponsees show up live. Changes are re-fetched rather than merged, since
+  // payloads leave out completion notes and the sponsee's profile.
+  useRealtimeChanges('tasks', ['sponsor_id'], (change) => {
+    if (change.eventType === 'DELETE') {
+      setTasks((current) => mergeRealtimeChange(current, change));
+    } else {
+      fetchData();
+    }
+  });
+  useRealtimeChanges('sponsor_sponsee_relationships', ['sponsor_id'], () => {
+    fetchData();
+  });
+
   const onRefresh = async () => {
     setRefreshing(true);
     await fetchData();
@@ -87,9 +109,7 @@ export default function ManageTasksScreen() {
     if (!confirmed) return;
 
     try {
-      const { error } = await supabase.from('tasks').delete().eq('id', taskId);
-
-      if (error) throw error;
+      await deleteTask(taskId);
 
       await fetchData();
 
@@ -99,9 +119,6 @@ export default function ManageTasksScreen() {
         Alert.alert('Success', 'Task deleted successfully');
       }
     } catch (error: unknown) {
-      logger.error('Task deletion failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
       const message = error instanceof Error ? error.message : 'Failed to delete task.';
       if (Platform.OS === 'web') {
         window.alert(message);
@@ -135,24 +152,20 @@ export default function ManageTasksScreen() {
     const assigned = tasks.filter((t) => t.status === 'assigned').length;
     const inProgress = tasks.filter((t) => t.status === 'in_progress').length;
     const completed = tasks.filter((t) => t.status === 'completed').length;
-    const overdue = tasks.filter(
-      (t) => t.due_date && new Date(t.due_date) < now && t.status !== 'completed'
-    ).length;
+    const overdue = tasks.filter((t) => isOverdue(t, now)).length;
 
     return { total, assigned, inProgress, completed, overdue };
   };
 
   /**
-   * Checks if a task is overdue.
+   * Checks if a task is overdue, counting days in the sponsee's timezone.
    *
    * @param task - The task to check
    * @param now - Current date/time for comparison (defaults to new Date() if not provided)
    * @returns True if the task is overdue, false otherwise
    */
-  const isOverdue = (task: Task, now: Date = new Date()) => {
-    if (!task.due_date || task.status === 'completed') return false;
-    return new Date(task.due_date) < now;
-  };
+  const isOverdue = (task: Task, now: Date = new Date()) =>
+    isTaskOverdue(task, getUserTimezone(task.sponsee), now);
 
   const now = new Date();
   const stats = getTaskStats(now);
@@ -167,6 +180,7 @@ export default function ManageTasksScreen() {
       }
       grouped[task.sponsee_id].push(task);
     });
+    Object.values(grouped).forEach((sponseeTasks) => sponseeTasks.sort(compareTasksByDueDate));
     return grouped;
   };
 
@@ -188,6 +202,10 @@ export default function ManageTasksScreen() {
           <Text style={[styles.statValue, { color: theme.primary }]}>{stats.assigned}</Text>
           <Text style={styles.statLabel}>Assigned</Text>
         </View>
+        <View style={styles.statCard}>
+          <Text style={[styles.statValue, { color: '#f59e0b' }]}>{stats.inProgress}</Text>
+          <Text style={styles.statLabel}>In Progress</Text>
+        </View>
         <View style={styles.statCard}>
           <Text style={[styles.statValue, { color: '#10b981' }]}>{stats.completed}</Text>
           <Text style={styles.statLabel}>Completed</Text>
@@ -229,6 +247,19 @@ export default function ManageTasksScreen() {
               Assigned
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.filterChip, filterStatus === 'in_progress' && styles.filterChipActive]}
+            onPress={() => setFilterStatus('in_progress')}
+          >
+            <Text
+              style={[
+                styles.filterChipText,
+                filterStatus === 'in_progress' && styles.filterChipTextActive,
+              ]}
+            >
+              In Progress
+            </Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={[styles.filterChip, filterStatus === 'completed' && styles.filterChipActive]}
             onPress={() => setFilterStatus('completed')}
@@ -380,19 +411,21 @@ export default function ManageTasksScreen() {
                             isOverdue(task, now) && styles.taskMetaTextOverdue,
                           ]}
                         >
-                          Due {parseDateAsLocal(task.due_date).toLocaleDateString()}
+                          {formatDueLabel(task, getUserTimezone(task.sponsee), now)}
                         </Text>
                       </View>
                     )}
 
-                    {task.status === 'completed' && task.completion_notes && (
-                      <View style={styles.completionNotesContainer}>
-                        <Text style={styles.completionNotesLabel}>Completion Notes:</Text>
-                        <Text style={styles.completionNotesText} numberOfLines={3}>
-                          {task.completion_notes}
-                        </Text>
-                      </View>
-                    )}
+                    {task.status === 'completed' &&
+                      task.completion_notes &&
+                      notesSharedBy.has(task.sponsee_id) && (
+                        <View style={styles.completionNotesContainer}>
+                          <Text style={styles.completionNotesLabel}>Completion Notes:</Text>
+                          <Text style={styles.completionNotesText} numberOfLines={3}>
+                            {task.completion_notes}
+                          </Text>
+                        </View>
+                      )}
 
                     <View style={styles.taskActions}>
                       <View style={styles.statusBadge}>
@@ -404,14 +437,37 @@ export default function ManageTasksScreen() {
                               : 'Completed'}
                         </Text>
                       </View>
-                      {task.status !== 'completed' && (
+                      {(task.status === 'completed' || task.returned_at) && (
                         <TouchableOpacity
-                          style={styles.deleteButton}
-                          onPress={() => handleDeleteTask(task.id, task.title)}
+                          style={styles.reviewButton}
+                          onPress={() => setReviewingTask(task)}
+                          accessibilityLabel={`Review ${task.title}`}
                         >
-                          <Trash2 size={16} color="#ef4444" />
+                          <MessageSquare size={14} color={theme.primary} />
+                          <Text style={styles.reviewButtonText}>
+                            {task.status === 'completed' && !task.reviewed_at
+                              ? 'Review'
+                              : 'Feedback'}
+                          </Text>
                         </TouchableOpacity>
                       )}
+                      {task.status !== 'completed' && (
+                        <View style={styles.taskButtons}>
+                          <TouchableOpacity
+                            style={styles.editButton}
+                            onPress={() => setEditingTask(task)}
+                            accessibilityLabel={`Edit ${task.title}`}
+                          >
+                            <Pencil size={16} color={theme.textSecondary} />
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.deleteButton}
+                            onPress={() => handleDeleteTask(task.id, task.title)}
+                          >
+                            <Trash2 size={16} color="#ef4444" />
+                          </TouchableOpacity>
+                        </View>
+                      )}
                     </View>
                   </View>
                 ))}
@@ -434,15 +490,27 @@ export default function ManageTasksScreen() {
       )}
 
       <TaskCreationModal
-        visible={showCreateModal}
+        visible={showCreateModal || !!editingTask}
         onClose={() => {
           setShowCreateModal(false);
           setPreselectedSponseeId(undefined);
+          setEditingTask(null);
         }}
         onTaskCreated={fetchData}
         sponsorId={profile?.id || ''}
         sponsees={sponsees}
         preselectedSponseeId={preselectedSponseeId}
+        task={editingTask}
+        theme={theme}
+      />
+
+      <TaskReviewModal
+        visible={!!reviewingTask}
+        task={reviewingTask}
+        sponsorId={profile?.id || ''}
+        notesShared={!!reviewingTask && notesSharedBy.has(reviewingTask.sponsee_id)}
+        onClose={() => setReviewingTask(null)}
+        onReviewed={fetchData}
         theme={theme}
       />
     </View>
@@ -681,6 +749,32 @@ const createStyles = (theme: ThemeColors) =>
       fontWeight: '600',
       color: theme.primary,
     },
+    reviewButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 6,
+      backgroundColor: theme.primaryLight,
+    },
+    reviewButtonText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    taskButtons: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    editButton: {
+      padding: 8,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.card,
+    },
     deleteButton: {
       padding: 8,
       borderRadius: 8,
@@ -14,8 +14,29 @@ import {
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
-import { supabase } from '@/lib/supabase';
+import {
+  createSlipUp,
+  endRelationship,
+  fetchPastRelationships,
+  fetchPendingRelationships,
+  fetchSlipUpSharingSponsorIds,
+  fetchSponseeRelationships,
+  fetchSponsorInviteCodes,
+  fetchSponsorRelationships,
+  fetchTaskStatuses,
+  fetchUserTaskStatuses,
+  revokeInviteCode,
+  updateProfile,
+  updateSharingSettings,
+} from '@/lib/repositories';
+import {
+  buildInviteLink,
+  createSponsorInvite,
+  INVITE_CODE_LENGTH,
+  redeemInviteCode,
+} from '@/lib/invites';
 import { useDaysSober } from '@/hooks/useDaysSober';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
 import {
   Heart,
   Share2,
@@ -26,10 +47,27 @@ import {
   AlertCircle,
   CheckCircle,
   Settings,
+  ChevronRight,
 } from 'lucide-react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import type { SponsorSponseeRelationship } from '@/types/database';
+import ConnectionRequestList from '@/components/ConnectionRequestList';
+import InviteCodeList from '@/components/InviteCodeList';
+import RelationshipHistoryList from '@/components/RelationshipHistoryList';
+import SharingSettings, { type SharingSetting } from '@/components/SharingSettings';
+import InviteQrModal from '@/components/InviteQrModal';
+import type { InviteCode, SponsorSponseeRelationship } from '@/types/database';
+import {
+  countTasksByRelationship,
+  selectRelationshipHistory,
+  type RelationshipTaskStats,
+} from '@/lib/relationship-history';
+import {
+  countSponseeTasks,
+  formatSponseeTaskCounts,
+  type SponseeTaskCounts,
+} from '@/lib/sponsee-progress';
 import { logger, LogCategory } from '@/lib/logger';
+import { sendNotification, sendNotifications, NotificationInput } from '@/lib/notifications';
 import { formatDateWithTimezone, parseDateAsLocal, getUserTimezone } from '@/lib/date';
 import { useRouter } from 'expo-router';
 
@@ -38,18 +76,25 @@ function SponseeDaysDisplay({
   relationship,
   theme,
   onDisconnect,
+  onViewProgress,
   taskStats,
 }: {
   relationship: SponsorSponseeRelationship;
   theme: ReturnType<typeof useTheme>['theme'];
   onDisconnect: () => void;
-  taskStats?: { total: number; completed: number };
+  onViewProgress: () => void;
+  taskStats?: SponseeTaskCounts;
 }) {
-  const { daysSober } = useDaysSober(relationship.sponsee_id);
+  const { daysSober, currentStreakStartDate } = useDaysSober(relationship.sponsee_id);
 
   return (
     <View style={createStyles(theme).relationshipCard}>
-      <View style={createStyles(theme).relationshipHeader}>
+      <TouchableOpacity
+        style={createStyles(theme).relationshipHeader}
+        onPress={onViewProgress}
+        accessibilityRole="button"
+        accessibilityLabel={`View progress for ${relationship.sponsee?.first_name} ${relationship.sponsee?.last_initial}.`}
+      >
         <View style={createStyles(theme).avatar}>
           <Text style={createStyles(theme).avatarText}>
             {(relationship.sponsee?.first_name || '?')[0].toUpperCase()}
@@ -62,7 +107,7 @@ function SponseeDaysDisplay({
           <Text style={createStyles(theme).relationshipMeta}>
             Connected {new Date(relationship.connected_at).toLocaleDateString()}
           </Text>
-          {relationship.sponsee?.sobriety_date && (
+          {relationship.share_sobriety_date && currentStreakStartDate && (
             <View style={createStyles(theme).sobrietyInfo}>
               <Heart size={14} color={theme.primary} fill={theme.primary} />
               <Text style={createStyles(theme).sobrietyText}>{daysSober} days sober</Text>
@@ -72,12 +117,13 @@ function SponseeDaysDisplay({
             <View style={createStyles(theme).taskStatsInfo}>
               <CheckCircle size={14} color={theme.success} />
               <Text style={createStyles(theme).taskStatsText}>
-                {taskStats.completed}/{taskStats.total} tasks completed
+                {formatSponseeTaskCounts(taskStats)}
               </Text>
             </View>
           )}
         </View>
-      </View>
+        <ChevronRight size={20} color={theme.textTertiary} />
+      </TouchableOpacity>
       <TouchableOpacity style={createStyles(theme).disconnectButton} onPress={onDisconnect}>
         <UserMinus size={18} color={theme.danger} />
         <Text style={createStyles(theme).disconnectText}>Disconnect</Text>
@@ -91,12 +137,14 @@ function SponsorDaysDisplay({
   relationship,
   theme,
   onDisconnect,
+  onToggleSharing,
 }: {
   relationship: SponsorSponseeRelationship;
   theme: ReturnType<typeof useTheme>['theme'];
   onDisconnect: () => void;
+  onToggleSharing: (setting: SharingSetting) => void;
 }) {
-  const { daysSober } = useDaysSober(relationship.sponsor_id);
+  const { daysSober, currentStreakStartDate } = useDaysSober(relationship.sponsor_id);
 
   return (
     <View style={createStyles(theme).relationshipCard}>
@@ -113,7 +161,7 @@ function SponsorDaysDisplay({
           <Text style={createStyles(theme).relationshipMeta}>
             Connected {new Date(relationship.connected_at).toLocaleDateString()}
           </Text>
-          {relationship.sponsor?.sobriety_date && (
+          {currentStreakStartDate && (
             <View style={createStyles(theme).sobrietyInfo}>
               <Heart size={14} color={theme.primary} fill={theme.primary} />
               <Text style={createStyles(theme).sobrietyText}>{daysSober} days sober</Text>
@@ -121,6 +169,7 @@ function SponsorDaysDisplay({
           )}
         </View>
       </View>
+      <SharingSettings relationship={relationship} onToggle={onToggleSharing} />
       <TouchableOpacity style={createStyles(theme).disconnectButton} onPress={onDisconnect}>
         <UserMinus size={18} color={theme.danger} />
         <Text style={createStyles(theme).disconnectText}>Disconnect</Text>
@@ -133,8 +182,8 @@ function SponsorDaysDisplay({
  * Displays the authenticated user's profile, sobriety journey, and sponsor/sponsee management UI.
  *
  * Shows the user's avatar, name, email, current days sober, journey start and current streak information.
- * Provides actions to edit the sobriety date, log a slip-up, generate or join invite codes, and
- * disconnect sponsor/sponsee relationships.
+ * Provides actions to edit the sobriety date, log a slip-up, generate or join invite codes,
+ * disconnect sponsor/sponsee relationships, and review or reconnect past relationships.
  *
  * Manages relationship and task statistics fetching, timezone-aware date handling for sobriety and
  * slip-up flows, and creates relevant notifications when connections change or slip-ups are logged.
@@ -154,7 +203,14 @@ export default function ProfileScreen() {
   const [sponseeRelationships, setSponseeRelationships] = useState<SponsorSponseeRelationship[]>(
     []
   );
+  const [pendingRelationships, setPendingRelationships] = useState<SponsorSponseeRelationship[]>(
+    []
+  );
+  const [pastRelationships, setPastRelationships] = useState<SponsorSponseeRelationship[]>([]);
+  const [pastTaskStats, setPastTaskStats] = useState<Record<string, RelationshipTaskStats>>({});
   const [loadingRelationships, setLoadingRelationships] = useState(true);
+  const [inviteCodes, setInviteCodes] = useState<InviteCode[]>([]);
+  const [qrInviteCode, setQrInviteCode] = useState<string | null>(null);
   const [showSobrietyDatePicker, setShowSobrietyDatePicker] = useState(false);
   const [selectedSobrietyDate, setSelectedSobrietyDate] = useState<Date>(new Date());
   const [showSlipUpModal, setShowSlipUpModal] = useState(false);
@@ -164,9 +220,7 @@ export default function ProfileScreen() {
   const [showSlipUpDatePicker, setShowSlipUpDatePicker] = useState(false);
   const [showRecoveryDatePicker, setShowRecoveryDatePicker] = useState(false);
   const [isLoggingSlipUp, setIsLoggingSlipUp] = useState(false);
-  const [sponseeTaskStats, setSponseeTaskStats] = useState<{
-    [key: string]: { total: number; completed: number };
-  }>({});
+  const [sponseeTaskStats, setSponseeTaskStats] = useState<Record<string, SponseeTaskCounts>>({});
 
   // User's timezone (stored in profile) with device timezone as fallback
   const userTimezone = getUserTimezone(profile);
@@ -180,55 +234,37 @@ export default function ProfileScreen() {
 
     setLoadingRelationships(true);
     try {
-      const { data: asSponsee } = await supabase
-        .from('sponsor_sponsee_relationships')
-        .select('*, sponsor:sponsor_id(*)')
-        .eq('sponsee_id', profile.id)
-        .eq('status', 'active');
-
-      const { data: asSponsor } = await supabase
-        .from('sponsor_sponsee_relationships')
-        .select('*, sponsee:sponsee_id(*)')
-        .eq('sponsor_id', profile.id)
-        .eq('status', 'active');
+      const asSponsee = await fetchSponsorRelationships(profile.id);
+      const asSponsor = await fetchSponseeRelationships(profile.id);
 
-      setSponsorRelationships(asSponsee || []);
-      setSponseeRelationships(asSponsor || []);
+      setSponsorRelationships(asSponsee);
+      setSponseeRelationships(asSponsor);
 
       // Batch fetch all task stats in a single query (avoids N+1 problem)
-      if (asSponsor && asSponsor.length > 0) {
+      if (asSponsor.length > 0) {
         const sponseeIds = asSponsor.map((rel) => rel.sponsee_id);
 
-        const { data: allTasks } = await supabase
-          .from('tasks')
-          .select('sponsee_id, status')
-          .eq('sponsor_id', profile.id)
-          .in('sponsee_id', sponseeIds);
+        const allTasks = await fetchTaskStatuses(profile.id, sponseeIds);
 
-        // Aggregate stats client-side
-        const stats: { [key: string]: { total: number; completed: number } } = {};
+        // Aggregate stats client-side (sponsees with no tasks get 0/0)
+        setSponseeTaskStats(countSponseeTasks(sponseeIds, allTasks));
+      }
 
-        // Initialize stats for all sponsees (ensures 0/0 for sponsees with no tasks)
-        for (const id of sponseeIds) {
-          stats[id] = { total: 0, completed: 0 };
-        }
+      const pending = await fetchPendingRelationships(profile.id);
+      setPendingRelationships(pending);
 
-        // Count tasks per sponsee
-        if (allTasks) {
-          for (const task of allTasks) {
-            stats[task.sponsee_id].total++;
-            if (task.status === 'completed') {
-              stats[task.sponsee_id].completed++;
-            }
-          }
-        }
-
-        setSponseeTaskStats(stats);
+      const history = selectRelationshipHistory(await fetchPastRelationships(profile.id), [
+        ...asSponsee,
+        ...asSponsor,
+        ...pending,
+      ]);
+      setPastRelationships(history);
+      if (history.length > 0) {
+        const userTasks = await fetchUserTaskStatuses(profile.id);
+        setPastTaskStats(countTasksByRelationship(history, userTasks));
       }
-    } catch (error) {
-      logger.error('Relationships fetch failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
+    } catch {
+      // Already logged by the repository; keep showing the last loaded relationships
     } finally {
       setLoadingRelationships(false);
     }
@@ -238,6 +274,30 @@ export default function ProfileScreen() {
     fetchRelationships();
   }, [profile, fetchRelationships]);
 
+  const fetchInviteCodes = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setInviteCodes(await fetchSponsorInviteCodes(profile.id));
+    } catch {
+      // Already logged by the repository; keep showing the last loaded invite codes
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    fetchInviteCodes();
+  }, [fetchInviteCodes]);
+
+  // Connections and disconnections made by the other person show up live,
+  // as do task completions that change sponsee progress
+  useRealtimeChanges('sponsor_sponsee_relationships', ['sponsor_id', 'sponsee_id'], () => {
+    fetchRelationships();
+    fetchInviteCodes();
+  });
+  useRealtimeChanges('tasks', ['sponsor_id'], () => {
+    fetchRelationships();
+  });
+
   // Use hook for current user's days sober
   const {
     daysSober,
@@ -250,217 +310,79 @@ export default function ProfileScreen() {
   const generateInviteCode = async () => {
     if (!profile) return;
 
-    const code = Math.random().toString(36).substring(2, 10).toUpperCase();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 30);
-
-    const { error } = await supabase.from('invite_codes').insert({
-      code,
-      sponsor_id: profile.id,
-      expires_at: expiresAt.toISOString(),
-    });
-
-    if (error) {
+    let code: string;
+    try {
+      ({ code } = await createSponsorInvite(profile.id));
+    } catch {
       if (Platform.OS === 'web') {
         window.alert('Error: Failed to generate invite code');
       } else {
         Alert.alert('Error', 'Failed to generate invite code');
       }
-    } else {
-      if (Platform.OS === 'web') {
-        const shouldShare = window.confirm(
-          `Your invite code is: ${code}\n\nShare this with your sponsee to connect.\n\nClick OK to copy to clipboard.`
-        );
-        if (shouldShare) {
-          navigator.clipboard.writeText(code);
-          window.alert('Invite code copied to clipboard!');
-        }
-      } else {
-        Alert.alert(
-          'Invite Code Generated',
-          `Your invite code is: ${code}\n\nShare this with your sponsee to connect.`,
-          [
-            {
-              text: 'Share',
-              onPress: () =>
-                Share.share({
-                  message: `Join me on Sobriety Waypoint! Use invite code: ${code}`,
-                }),
-            },
-            { text: 'OK' },
-          ]
-        );
+      return;
+    }
+
+    fetchInviteCodes();
+
+    if (Platform.OS === 'web') {
+      const shouldShare = window.confirm(
+        `Your invite code is: ${code}\n\nShare this with your sponsee to connect.\n\nClick OK to copy to clipboard.`
+      );
+      if (shouldShare) {
+        navigator.clipboard.writeText(code);
+        window.alert('Invite code copied to clipboard!');
       }
+    } else {
+      Alert.alert(
+        'Invite Code Generated',
+        `Your invite code is: ${code}\n\nShare this with your sponsee to connect.`,
+        [
+          { text: 'Show QR Code', onPress: () => setQrInviteCode(code) },
+          {
+            text: 'Share',
+            onPress: () =>
+              Share.share({
+                message: `Join me on Sobriety Waypoint! Use invite code ${code} or open ${buildInviteLink(code)}`,
+              }),
+          },
+          { text: 'OK' },
+        ]
+      );
     }
   };
 
   const joinWithInviteCode = async () => {
     if (!inviteCode.trim() || !profile) return;
 
-    const trimmedCode = inviteCode.trim().toUpperCase();
-
-    if (trimmedCode.length !== 8) {
-      if (Platform.OS === 'web') {
-        window.alert('Invite code must be 8 characters');
-      } else {
-        Alert.alert('Error', 'Invite code must be 8 characters');
-      }
-      return;
-    }
-
     setIsConnecting(true);
 
     try {
-      const { data: invite, error: fetchError } = await supabase
-        .from('invite_codes')
-        .select('*')
-        .eq('code', trimmedCode)
-        .maybeSingle();
-
-      if (fetchError || !invite) {
-        if (Platform.OS === 'web') {
-          window.alert('Invalid or expired invite code');
-        } else {
-          Alert.alert('Error', 'Invalid or expired invite code');
-        }
-        setIsConnecting(false);
-        return;
-      }
-
-      // Fetch sponsor profile separately (we can't access it via join due to RLS)
-      const { data: sponsorProfile, error: sponsorError } = await supabase
-        .from('profiles')
-        .select('id, first_name, last_initial')
-        .eq('id', invite.sponsor_id)
-        .single();
-
-      if (sponsorError || !sponsorProfile) {
-        logger.error(
-          'Sponsor profile fetch failed',
-          sponsorError || new Error('Sponsor profile not found'),
-          {
-            category: LogCategory.DATABASE,
-          }
-        );
-        if (Platform.OS === 'web') {
-          window.alert('Unable to fetch sponsor information');
-        } else {
-          Alert.alert('Error', 'Unable to fetch sponsor information');
-        }
-        setIsConnecting(false);
-        return;
-      }
-
-      if (new Date(invite.expires_at) < new Date()) {
-        if (Platform.OS === 'web') {
-          window.alert('This invite code has expired');
-        } else {
-          Alert.alert('Error', 'This invite code has expired');
-        }
-        setIsConnecting(false);
-        return;
-      }
-
-      if (invite.used_by) {
-        if (Platform.OS === 'web') {
-          window.alert('This invite code has already been used');
-        } else {
-          Alert.alert('Error', 'This invite code has already been used');
-        }
-        setIsConnecting(false);
-        return;
-      }
+      const result = await redeemInviteCode(inviteCode, profile);
 
-      if (invite.sponsor_id === profile.id) {
+      if (result.status === 'rejected') {
         if (Platform.OS === 'web') {
-          window.alert('You cannot connect to yourself as a sponsor');
+          window.alert(result.reason);
         } else {
-          Alert.alert('Error', 'You cannot connect to yourself as a sponsor');
+          Alert.alert('Error', result.reason);
         }
-        setIsConnecting(false);
         return;
       }
 
-      const { data: existingRelationship } = await supabase
-        .from('sponsor_sponsee_relationships')
-        .select('id')
-        .eq('sponsor_id', invite.sponsor_id)
-        .eq('sponsee_id', profile.id)
-        .eq('status', 'active')
-        .maybeSingle();
-
-      if (existingRelationship) {
-        if (Platform.OS === 'web') {
-          window.alert('You are already connected to this sponsor');
-        } else {
-          Alert.alert('Error', 'You are already connected to this sponsor');
-        }
-        setIsConnecting(false);
-        return;
-      }
-
-      const { error: relationshipError } = await supabase
-        .from('sponsor_sponsee_relationships')
-        .insert({
-          sponsor_id: invite.sponsor_id,
-          sponsee_id: profile.id,
-          status: 'active',
-        });
+      await fetchRelationships();
 
-      if (relationshipError) {
-        logger.error('Sponsor-sponsee relationship creation failed', relationshipError as Error, {
-          category: LogCategory.DATABASE,
-        });
-        const errorMessage =
-          relationshipError.message || 'Failed to connect with sponsor. Please try again.';
+      const { sponsor } = result;
+      const sponsorName = `${sponsor.first_name} ${sponsor.last_initial}.`;
+      if (result.status === 'pending') {
+        const message = `Your request to connect with ${sponsorName} has been sent. You'll be connected once they accept.`;
         if (Platform.OS === 'web') {
-          window.alert(`Failed to connect: ${errorMessage}`);
+          window.alert(message);
         } else {
-          Alert.alert('Error', `Failed to connect: ${errorMessage}`);
+          Alert.alert('Request Sent', message);
         }
-        setIsConnecting(false);
-        return;
-      }
-
-      const { error: updateError } = await supabase
-        .from('invite_codes')
-        .update({ used_by: profile.id, used_at: new Date().toISOString() })
-        .eq('id', invite.id);
-
-      if (updateError) {
-        logger.error('Invite code update failed', updateError as Error, {
-          category: LogCategory.DATABASE,
-        });
-        // Note: This error usually indicates a missing RLS policy in Supabase.
-        // Run scripts/fix_invite_codes_rls.sql to fix it.
-      }
-
-      await supabase.from('notifications').insert([
-        {
-          user_id: invite.sponsor_id,
-          type: 'connection_request',
-          title: 'New Sponsee Connected',
-          content: `${profile.first_name} ${profile.last_initial}. has connected with you as their sponsor.`,
-          data: { sponsee_id: profile.id },
-        },
-        {
-          user_id: profile.id,
-          type: 'connection_request',
-          title: 'Connected to Sponsor',
-          content: `You are now connected with ${sponsorProfile.first_name} ${sponsorProfile.last_initial}. as your sponsor.`,
-          data: { sponsor_id: invite.sponsor_id },
-        },
-      ]);
-
-      await fetchRelationships();
-
-      if (Platform.OS === 'web') {
-        window.alert(`Connected with ${sponsorProfile.first_name} ${sponsorProfile.last_initial}.`);
+      } else if (Platform.OS === 'web') {
+        window.alert(`Connected with ${sponsorName}`);
       } else {
-        Alert.alert(
-          'Success',
-          `Connected with ${sponsorProfile.first_name} ${sponsorProfile.last_initial}.`
-        );
+        Alert.alert('Success', `Connected with ${sponsorName}`);
       }
 
       setShowInviteInput(false);
@@ -481,6 +403,63 @@ export default function ProfileScreen() {
     }
   };
 
+  const revokeInvite = async (invite: InviteCode) => {
+    const confirmMessage = `Revoke invite code ${invite.code}? It will no longer work for connecting.`;
+
+    const confirmed =
+      Platform.OS === 'web'
+        ? window.confirm(confirmMessage)
+        : await new Promise<boolean>((resolve) => {
+            Alert.alert('Revoke Invite Code', confirmMessage, [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Revoke', style: 'destructive', onPress: () => resolve(true) },
+            ]);
+          });
+
+    if (!confirmed) return;
+
+    try {
+      await revokeInviteCode(invite.id);
+      setInviteCodes((current) => current.filter((item) => item.id !== invite.id));
+    } catch {
+      // Already logged by the repository
+      if (Platform.OS === 'web') {
+        window.alert('Failed to revoke invite code');
+      } else {
+        Alert.alert('Error', 'Failed to revoke invite code');
+      }
+    }
+  };
+
+  /**
+   * Turns one of the things shared with a sponsor on or off.
+   * The toggle updates immediately and is reverted if the save fails.
+   */
+  const toggleSharing = async (
+    relationship: SponsorSponseeRelationship,
+    setting: SharingSetting
+  ) => {
+    const setSharing = (share: boolean) =>
+      setSponsorRelationships((current) =>
+        current.map((r) => (r.id === relationship.id ? { ...r, [setting]: share } : r))
+      );
+
+    const next = !relationship[setting];
+    setSharing(next);
+
+    try {
+      await updateSharingSettings(relationship.id, { [setting]: next });
+    } catch {
+      // Already logged by the repository
+      setSharing(!next);
+      if (Platform.OS === 'web') {
+        window.alert('Failed to update sharing settings');
+      } else {
+        Alert.alert('Error', 'Failed to update sharing settings');
+      }
+    }
+  };
+
   const disconnectRelationship = async (
     relationshipId: string,
     isSponsor: boolean,
@@ -511,15 +490,7 @@ export default function ProfileScreen() {
     if (!confirmed) return;
 
     try {
-      const { error } = await supabase
-        .from('sponsor_sponsee_relationships')
-        .update({
-          status: 'inactive',
-          disconnected_at: new Date().toISOString(),
-        })
-        .eq('id', relationshipId);
-
-      if (error) throw error;
+      await endRelationship(relationshipId);
 
       const relationship = isSponsor
         ? sponseeRelationships.find((r) => r.id === relationshipId)
@@ -531,15 +502,13 @@ export default function ProfileScreen() {
           : relationship.sponsor_id;
         const notificationSenderName = `${profile?.first_name} ${profile?.last_initial}.`;
 
-        await supabase.from('notifications').insert([
-          {
-            user_id: notificationRecipientId,
-            type: 'connection_request',
-            title: 'Relationship Ended',
-            content: `${notificationSenderName} has ended the ${isSponsor ? 'sponsorship' : 'sponsee'} relationship.`,
-            data: { relationship_id: relationshipId },
-          },
-        ]);
+        await sendNotification({
+          user_id: notificationRecipientId,
+          type: 'connection_request',
+          title: 'Relationship Ended',
+          content: `${notificationSenderName} has ended the ${isSponsor ? 'sponsorship' : 'sponsee'} relationship.`,
+          data: { relationship_id: relationshipId },
+        });
       }
 
       await fetchRelationships();
@@ -550,9 +519,6 @@ export default function ProfileScreen() {
         Alert.alert('Success', 'Successfully disconnected');
       }
     } catch (error: unknown) {
-      logger.error('Disconnect relationship failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
       const message = error instanceof Error ? error.message : 'Failed to disconnect.';
       if (Platform.OS === 'web') {
         window.alert(message);
@@ -609,15 +575,9 @@ export default function ProfileScreen() {
     if (!confirmed) return;
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          sobriety_date: formatDateWithTimezone(newDate, userTimezone),
-        })
-        .eq('id', profile.id);
-
-      if (error) throw error;
-
+      await updateProfile(profile.id, {
+        sobriety_date: formatDateWithTimezone(newDate, userTimezone),
+      });
       await refreshProfile();
 
       if (Platform.OS === 'web') {
@@ -626,9 +586,7 @@ export default function ProfileScreen() {
         Alert.alert('Success', 'Sobriety date updated successfully');
       }
     } catch (error: unknown) {
-      logger.error('Sobriety date update failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
+      // Already logged by the repository
       const message = error instanceof Error ? error.message : 'Failed to update sobriety date.';
       if (Platform.OS === 'web') {
         window.alert(message);
@@ -700,15 +658,13 @@ export default function ProfileScreen() {
     setIsLoggingSlipUp(true);
 
     try {
-      const { error: slipUpError } = await supabase.from('slip_ups').insert({
+      await createSlipUp({
         user_id: profile.id,
         slip_up_date: formatDateWithTimezone(slipUpDate, userTimezone),
         recovery_restart_date: formatDateWithTimezone(recoveryDate, userTimezone),
         notes: slipUpNotes.trim() || null,
       });
 
-      if (slipUpError) throw slipUpError;
-
       // IMPORTANT BEHAVIORAL CHANGE:
       // We intentionally do NOT update profile.sobriety_date here.
       // Previously, sobriety_date was updated on slip-ups to track 'current streak start'.
@@ -716,15 +672,13 @@ export default function ProfileScreen() {
       // The slip_ups table stores recovery_restart_date which useDaysSober uses to
       // calculate the current streak. See Profile.sobriety_date in types/database.ts.
 
-      const { data: sponsors } = await supabase
-        .from('sponsor_sponsee_relationships')
-        .select('sponsor_id')
-        .eq('sponsee_id', profile.id)
-        .eq('status', 'active');
+      // Only sponsors the user shares slip-ups with are told. The slip-up is
+      // already saved, so a failed sponsor lookup only skips notifying them
+      const sponsorIds = await fetchSlipUpSharingSponsorIds(profile.id).catch(() => []);
 
-      if (sponsors && sponsors.length > 0) {
-        const notifications = sponsors.map((rel) => ({
-          user_id: rel.sponsor_id,
+      if (sponsorIds.length > 0) {
+        const notifications: NotificationInput[] = sponsorIds.map((sponsorId) => ({
+          user_id: sponsorId,
           type: 'milestone',
           title: 'Sponsee Slip Up',
           content: `${profile.first_name} ${profile.last_initial}. has logged a slip-up and restarted their recovery journey.`,
@@ -734,7 +688,7 @@ export default function ProfileScreen() {
           },
         }));
 
-        await supabase.from('notifications').insert(notifications);
+        await sendNotifications(notifications);
       }
 
       await refreshProfile();
@@ -751,9 +705,6 @@ export default function ProfileScreen() {
         );
       }
     } catch (error: unknown) {
-      logger.error('Slip-up logging failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
       const message = error instanceof Error ? error.message : 'Failed to log slip-up.';
       if (Platform.OS === 'web') {
         window.alert(message);
@@ -826,6 +777,17 @@ export default function ProfileScreen() {
         </TouchableOpacity>
       </View>
 
+      {profile && pendingRelationships.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Connection Requests</Text>
+          <ConnectionRequestList
+            requests={pendingRelationships}
+            profile={profile}
+            onChange={fetchRelationships}
+          />
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Your Sponsees</Text>
         {loadingRelationships ? (
@@ -840,6 +802,7 @@ export default function ProfileScreen() {
                 relationship={rel}
                 theme={theme}
                 taskStats={sponseeTaskStats[rel.sponsee_id]}
+                onViewProgress={() => router.push(`/sponsee/${rel.sponsee_id}`)}
                 onDisconnect={() =>
                   disconnectRelationship(
                     rel.id,
@@ -865,6 +828,13 @@ export default function ProfileScreen() {
             </TouchableOpacity>
           </View>
         )}
+        {!loadingRelationships && (
+          <InviteCodeList
+            invites={inviteCodes}
+            onRevoke={revokeInvite}
+            onShowQr={(invite) => setQrInviteCode(invite.code)}
+          />
+        )}
       </View>
 
       <View style={styles.section}>
@@ -879,6 +849,7 @@ export default function ProfileScreen() {
               key={rel.id}
               relationship={rel}
               theme={theme}
+              onToggleSharing={(setting) => toggleSharing(rel, setting)}
               onDisconnect={() =>
                 disconnectRelationship(
                   rel.id,
@@ -903,12 +874,12 @@ export default function ProfileScreen() {
               <View style={styles.inviteInputContainer}>
                 <TextInput
                   style={styles.inviteInput}
-                  placeholder="Enter 8-character code"
+                  placeholder={`Enter ${INVITE_CODE_LENGTH}-character code`}
                   placeholderTextColor={theme.textTertiary}
                   value={inviteCode}
                   onChangeText={setInviteCode}
                   autoCapitalize="characters"
-                  maxLength={8}
+                  maxLength={INVITE_CODE_LENGTH}
                   editable={!isConnecting}
                   returnKeyType="done"
                   onSubmitEditing={joinWithInviteCode}
@@ -949,6 +920,20 @@ export default function ProfileScreen() {
         </View>
       )}
 
+      {profile && pastRelationships.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          <RelationshipHistoryList
+            relationships={pastRelationships}
+            taskStats={pastTaskStats}
+            profile={profile}
+            onChange={fetchRelationships}
+          />
+        </View>
+      )}
+
+      <InviteQrModal code={qrInviteCode} onClose={() => setQrInviteCode(null)} />
+
       {Platform.OS === 'web' && showSobrietyDatePicker && (
         <Modal visible={showSobrietyDatePicker} transparent animationType="fade">
           <View style={styles.modalOverlay}>
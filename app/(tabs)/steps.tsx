@@ -2,21 +2,48 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Modal } from 'react-native';
 import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
 import { StepContent, UserStepProgress } from '@/types/database';
-import { X, CheckCircle, Circle } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { X, CheckCircle, Circle, ClipboardList } from 'lucide-react-native';
 import { logger, LogCategory } from '@/lib/logger';
+import { fetchStepProgress, fetchStepsContent } from '@/lib/repositories';
+import {
+  applyPendingToStepProgress,
+  cacheKeys,
+  getPendingMutations,
+  readCache,
+  submitMutation,
+  SyncMutation,
+  withOfflineCache,
+  writeCache,
+} from '@/lib/offline';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
+import StepWorksheet from '@/components/StepWorksheet';
+import { INVENTORY_STEP } from '@/lib/inventory';
+import { AMENDS_STEPS } from '@/lib/amends';
 
 /**
- * Screen that displays the 12 steps, the current user's completion progress, and a modal with step details and reflection prompts.
+ * Indexes progress records by step number.
+ */
+function toProgressMap(records: UserStepProgress[]): Record<number, UserStepProgress> {
+  const progressMap: Record<number, UserStepProgress> = {};
+  records.forEach((p) => {
+    progressMap[p.step_number] = p;
+  });
+  return progressMap;
+}
+
+/**
+ * Screen that displays the 12 steps, the current user's completion progress, and a modal with step details and a worksheet for the step's reflection prompts.
  *
- * Fetches steps content and the user's progress from the database, shows loading/error/empty states, lets the user open a step to view detailed content and reflection questions, and toggle completion for a step.
+ * Fetches steps content and the user's progress from the database, shows loading/error/empty states, lets the user open a step to view detailed content and answer its reflection questions, and toggle completion for a step.
  *
  * @returns The component's rendered React element for the Steps screen.
  */
 export default function StepsScreen() {
   const { theme } = useTheme();
   const { profile } = useAuth();
+  const router = useRouter();
   const [steps, setSteps] = useState<StepContent[]>([]);
   const [progress, setProgress] = useState<Record<number, UserStepProgress>>({});
   const [selectedStep, setSelectedStep] = useState<StepContent | null>(null);
@@ -27,26 +54,13 @@ export default function StepsScreen() {
     if (!profile) return;
 
     try {
-      const { data, error: fetchError } = await supabase
-        .from('user_step_progress')
-        .select('*')
-        .eq('user_id', profile.id);
-
-      if (fetchError) {
-        logger.error('Step progress fetch failed', fetchError as Error, {
-          category: LogCategory.DATABASE,
-        });
-      } else {
-        const progressMap: Record<number, UserStepProgress> = {};
-        data?.forEach((p) => {
-          progressMap[p.step_number] = p;
-        });
-        setProgress(progressMap);
-      }
-    } catch (err) {
-      logger.error('Step progress fetch exception', err as Error, {
-        category: LogCategory.DATABASE,
-      });
+      const [data, pending] = await Promise.all([
+        withOfflineCache(cacheKeys.stepProgress(profile.id), () => fetchStepProgress(profile.id)),
+        getPendingMutations(),
+      ]);
+      setProgress(toProgressMap(applyPendingToStepProgress(data, pending)));
+    } catch {
+      // Already logged by the repository; steps still render without progress
     }
   }, [profile]);
 
@@ -54,28 +68,22 @@ export default function StepsScreen() {
     try {
       setLoading(true);
       setError(null);
-      const { data, error: fetchError } = await supabase
-        .from('steps_content')
-        .select('*')
-        .order('step_number');
-
-      if (fetchError) {
-        logger.error('Steps content fetch failed', fetchError as Error, {
-          category: LogCategory.DATABASE,
-        });
-        setError('Failed to load steps content');
-      } else {
-        logger.debug('Steps content loaded successfully', {
-          category: LogCategory.DATABASE,
-          count: data?.length,
-        });
-        setSteps(data || []);
-      }
-    } catch (err) {
-      logger.error('Steps content fetch exception', err as Error, {
+      const data = await fetchStepsContent();
+      logger.debug('Steps content loaded successfully', {
         category: LogCategory.DATABASE,
+        count: data.length,
       });
-      setError('An unexpected error occurred');
+      setSteps(data);
+      await writeCache(cacheKeys.stepsContent(), data);
+    } catch {
+      // Already logged by the repository. Step content rarely changes, so a
+      // saved copy keeps the screen usable offline
+      const cached = await readCache<StepContent[]>(cacheKeys.stepsContent());
+      if (cached) {
+        setSteps(cached);
+      } else {
+        setError('Failed to load steps content');
+      }
     } finally {
       setLoading(false);
     }
@@ -89,40 +97,21 @@ export default function StepsScreen() {
   const toggleStepCompletion = async (stepNumber: number) => {
     if (!profile) return;
 
-    const existingProgress = progress[stepNumber];
+    const mutation: SyncMutation = progress[stepNumber]
+      ? { type: 'uncomplete_step', userId: profile.id, stepNumber }
+      : {
+          type: 'complete_step',
+          userId: profile.id,
+          stepNumber,
+          completedAt: new Date().toISOString(),
+        };
 
     try {
-      if (existingProgress) {
-        const { error: deleteError } = await supabase
-          .from('user_step_progress')
-          .delete()
-          .eq('id', existingProgress.id);
-
-        if (deleteError) throw deleteError;
-
-        const newProgress = { ...progress };
-        delete newProgress[stepNumber];
-        setProgress(newProgress);
-      } else {
-        const { data, error: insertError } = await supabase
-          .from('user_step_progress')
-          .insert({
-            user_id: profile.id,
-            step_number: stepNumber,
-            completed: true,
-            completed_at: new Date().toISOString(),
-          })
-          .select()
-          .single();
-
-        if (insertError) throw insertError;
-
-        setProgress({ ...progress, [stepNumber]: data });
-      }
-    } catch (err) {
-      logger.error('Step completion toggle failed', err as Error, {
-        category: LogCategory.DATABASE,
-      });
+      // Offline, the change is queued and shown straight away
+      await submitMutation(mutation);
+      setProgress(toProgressMap(applyPendingToStepProgress(Object.values(progress), [mutation])));
+    } catch {
+      // Already logged by the repository; progress is left unchanged
     }
   };
 
@@ -133,6 +122,7 @@ export default function StepsScreen() {
       <View style={styles.header}>
         <Text style={styles.headerTitle}>The 12 Steps</Text>
         <Text style={styles.headerSubtitle}>Your path to recovery</Text>
+        <SyncStatusIndicator />
       </View>
 
       <ScrollView style={styles.content}>
@@ -208,17 +198,51 @@ export default function StepsScreen() {
               <Text style={styles.sectionContent}>{selectedStep?.detailed_content}</Text>
             </View>
 
-            {selectedStep?.reflection_prompts && selectedStep.reflection_prompts.length > 0 && (
+            {selectedStep?.step_number === INVENTORY_STEP && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Your Inventory</Text>
+                <TouchableOpacity
+                  style={styles.listButton}
+                  onPress={() => {
+                    setSelectedStep(null);
+                    router.push('/inventory');
+                  }}
+                >
+                  <ClipboardList size={20} color={theme.primary} />
+                  <Text style={styles.listButtonText}>Open Step 4 Inventory</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {selectedStep && AMENDS_STEPS.includes(selectedStep.step_number) && (
               <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Reflection Questions</Text>
-                {selectedStep.reflection_prompts.map((prompt, index) => (
-                  <View key={index} style={styles.promptItem}>
-                    <Text style={styles.promptBullet}>•</Text>
-                    <Text style={styles.promptText}>{prompt}</Text>
-                  </View>
-                ))}
+                <Text style={styles.sectionTitle}>Your Amends</Text>
+                <TouchableOpacity
+                  style={styles.listButton}
+                  onPress={() => {
+                    setSelectedStep(null);
+                    router.push('/amends');
+                  }}
+                >
+                  <ClipboardList size={20} color={theme.primary} />
+                  <Text style={styles.listButtonText}>Open Amends List</Text>
+                </TouchableOpacity>
               </View>
             )}
+
+            {profile &&
+              selectedStep?.reflection_prompts &&
+              selectedStep.reflection_prompts.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Reflection Questions</Text>
+                  <StepWorksheet
+                    userId={profile.id}
+                    stepNumber={selectedStep.step_number}
+                    prompts={selectedStep.reflection_prompts}
+                    theme={theme}
+                  />
+                </View>
+              )}
           </ScrollView>
 
           <View style={styles.modalFooter}>
@@ -386,24 +410,6 @@ const createStyles = (theme: ThemeColors) =>
       color: theme.textSecondary,
       lineHeight: 26,
     },
-    promptItem: {
-      flexDirection: 'row',
-      marginBottom: 12,
-    },
-    promptBullet: {
-      fontSize: 16,
-      fontFamily: theme.fontRegular,
-      color: theme.primary,
-      marginRight: 12,
-      fontWeight: '700',
-    },
-    promptText: {
-      flex: 1,
-      fontSize: 16,
-      fontFamily: theme.fontRegular,
-      color: theme.textSecondary,
-      lineHeight: 24,
-    },
     centerContainer: {
       flex: 1,
       justifyContent: 'center',
@@ -459,6 +465,21 @@ const createStyles = (theme: ThemeColors) =>
       borderTopColor: theme.border,
       backgroundColor: theme.card,
     },
+    listButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      padding: 14,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: theme.primary,
+    },
+    listButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
     completeButton: {
       flexDirection: 'row',
       alignItems: 'center',
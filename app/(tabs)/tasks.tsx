@@ -17,20 +17,68 @@ import {
 } from 'react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
-import { supabase } from '@/lib/supabase';
-import { Task, Profile } from '@/types/database';
-import { CheckCircle, Circle, X, Calendar, Plus, Clock, Trash2 } from 'lucide-react-native';
+import {
+  addTaskComment,
+  deleteTask,
+  fetchAssignedTasks,
+  fetchCreatedTasks,
+  fetchSponseeRelationships,
+  fetchSponseeTaskSeries,
+  fetchSponsorTaskSeries,
+  fetchTaskComments,
+  hasOpenTasks,
+} from '@/lib/repositories';
+import {
+  applyPendingToTasks,
+  cacheKeys,
+  getPendingMutations,
+  submitMutation,
+  withOfflineCache,
+} from '@/lib/offline';
+import { sendNotification } from '@/lib/notifications';
+import { Task, TaskComment, TaskSeries, TaskStatus, Profile } from '@/types/database';
+import {
+  CheckCircle,
+  Circle,
+  X,
+  Calendar,
+  Plus,
+  Clock,
+  Trash2,
+  Repeat,
+  Play,
+  Pencil,
+  MessageSquare,
+} from 'lucide-react-native';
 import SegmentedControl from '@/components/SegmentedControl';
 import TaskCreationModal from '@/components/TaskCreationModal';
+import TaskSeriesModal from '@/components/TaskSeriesModal';
+import TaskReviewModal from '@/components/TaskReviewModal';
+import TaskCommentThread from '@/components/TaskCommentThread';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { mergeRealtimeChange } from '@/lib/realtime';
 import { formatProfileName } from '@/lib/format';
-import { logger, LogCategory } from '@/lib/logger';
-import { parseDateAsLocal } from '@/lib/date';
+import { formatDateWithTimezone, getUserTimezone } from '@/lib/date';
+import {
+  compareTasksByDueDate,
+  formatDueLabel,
+  getTaskDueStatus,
+  isTaskOverdue,
+} from '@/lib/task-due';
+import { advanceTaskSeries, describeRecurrence } from '@/lib/task-recurrence';
 
 // =============================================================================
 // Types & Interfaces
 // =============================================================================
 type ViewMode = 'my-tasks' | 'manage';
 
+/**
+ * Finds the series a task is an occurrence of.
+ */
+const findSeries = (series: TaskSeries[], task: Task) =>
+  task.series_id ? series.find((item) => item.id === task.series_id) : undefined;
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -55,18 +103,28 @@ export default function TasksScreen() {
 
   // My Tasks state
   const [myTasks, setMyTasks] = useState<Task[]>([]);
+  const [mySeries, setMySeries] = useState<TaskSeries[]>([]);
   const [showCompleteModal, setShowCompleteModal] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [completionNotes, setCompletionNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showCompletedTasks, setShowCompletedTasks] = useState(false);
+  // Feedback thread for the selected task, loaded when it was sent back
+  const [taskComments, setTaskComments] = useState<TaskComment[]>([]);
+  const [reply, setReply] = useState('');
 
   // Manage state
   const [manageTasks, setManageTasks] = useState<Task[]>([]);
+  const [sponsorSeries, setSponsorSeries] = useState<TaskSeries[]>([]);
+  const [selectedSeries, setSelectedSeries] = useState<TaskSeries | null>(null);
+  const [reviewingTask, setReviewingTask] = useState<Task | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [sponsees, setSponsees] = useState<Profile[]>([]);
+  // Sponsees who share their notes; realtime updates can carry anyone's notes
+  const [notesSharedBy, setNotesSharedBy] = useState<Set<string>>(new Set());
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [preselectedSponseeId, setPreselectedSponseeId] = useState<string | undefined>(undefined);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'assigned' | 'completed'>('all');
+  const [filterStatus, setFilterStatus] = useState<'all' | TaskStatus>('all');
   const [selectedSponseeFilter, setSelectedSponseeFilter] = useState<string>('all');
 
   // =============================================================================
@@ -74,16 +132,33 @@ export default function TasksScreen() {
   // =============================================================================
 
   /**
-   * Fetches tasks assigned to the current user (sponsee view).
+   * Fetches tasks assigned to the current user (sponsee view), first creating
+   * the next occurrence of any recurring task that is due for one.
    */
   const fetchMyTasks = useCallback(async () => {
     if (!profile) return;
-    const { data } = await supabase
-      .from('tasks')
-      .select('*, sponsor:sponsor_id(*)')
-      .eq('sponsee_id', profile.id)
-      .order('created_at', { ascending: false });
-    setMyTasks(data || []);
+    const loadTasks = () =>
+      withOfflineCache(cacheKeys.assignedTasks(profile.id), () => fetchAssignedTasks(profile.id));
+
+    try {
+      const [tasks, series, pending] = await Promise.all([
+        loadTasks(),
+        withOfflineCache(cacheKeys.sponseeTaskSeries(profile.id), () =>
+          fetchSponseeTaskSeries(profile.id)
+        ),
+        getPendingMutations(),
+      ]);
+      setMySeries(series);
+      setMyTasks(applyPendingToTasks(tasks, pending));
+
+      // Completions still waiting to sync are left out, so a series only moves
+      // on once the server has the completed occurrence
+      if ((await advanceTaskSeries(series, tasks, getUserTimezone(profile))) > 0) {
+        setMyTasks(applyPendingToTasks(await loadTasks(), pending));
+      }
+    } catch {
+      // Already logged by the repository; keep showing the last loaded tasks
+    }
   }, [profile]);
 
   /**
@@ -92,24 +167,27 @@ export default function TasksScreen() {
   const fetchManageData = useCallback(async () => {
     if (!profile) return;
 
-    const { data: sponseeData } = await supabase
-      .from('sponsor_sponsee_relationships')
-      .select('*, sponsee:sponsee_id(*)')
-      .eq('sponsor_id', profile.id)
-      .eq('status', 'active');
-
-    const sponseeProfiles = (sponseeData || [])
-      .map((rel) => rel.sponsee)
-      .filter(Boolean) as Profile[];
-    setSponsees(sponseeProfiles);
-
-    const { data: taskData } = await supabase
-      .from('tasks')
-      .select('*, sponsee:sponsee_id(*)')
-      .eq('sponsor_id', profile.id)
-      .order('created_at', { ascending: false });
-
-    setManageTasks(taskData || []);
+    try {
+      const sponseeData = await withOfflineCache(cacheKeys.sponseeRelationships(profile.id), () =>
+        fetchSponseeRelationships(profile.id)
+      );
+      const sponseeProfiles = sponseeData.map((rel) => rel.sponsee).filter(Boolean) as Profile[];
+      setSponsees(sponseeProfiles);
+      setNotesSharedBy(
+        new Set(sponseeData.filter((rel) => rel.share_notes).map((rel) => rel.sponsee_id))
+      );
+
+      const [tasks, series] = await Promise.all([
+        withOfflineCache(cacheKeys.createdTasks(profile.id), () => fetchCreatedTasks(profile.id)),
+        withOfflineCache(cacheKeys.sponsorTaskSeries(profile.id), () =>
+          fetchSponsorTaskSeries(profile.id)
+        ),
+      ]);
+      setManageTasks(tasks);
+      setSponsorSeries(series);
+    } catch {
+      // Already logged by the repository; keep showing the last loaded data
+    }
   }, [profile]);
 
   /**
@@ -119,14 +197,11 @@ export default function TasksScreen() {
   const initializeView = useCallback(async () => {
     if (!profile) return;
 
-    const { data } = await supabase
-      .from('tasks')
-      .select('id')
-      .eq('sponsee_id', profile.id)
-      .neq('status', 'completed')
-      .limit(1);
-
-    setViewMode(data && data.length > 0 ? 'my-tasks' : 'manage');
+    try {
+      setViewMode((await hasOpenTasks(profile.id)) ? 'my-tasks' : 'manage');
+    } catch {
+      setViewMode('manage');
+    }
   }, [profile]);
 
   useEffect(() => {
@@ -141,58 +216,199 @@ export default function TasksScreen() {
     setRefreshing(false);
   };
 
+  // Tasks assigned by a sponsor or completed by a sponsee appear without a refresh.
+  // Changes are re-fetched rather than merged, since payloads leave out completion
+  // notes and the joined profile.
+  useRealtimeChanges('tasks', ['sponsor_id', 'sponsee_id'], (change) => {
+    if (change.eventType === 'DELETE') {
+      setMyTasks((current) => mergeRealtimeChange(current, change));
+      setManageTasks((current) => mergeRealtimeChange(current, change));
+      return;
+    }
+    if (change.new.sponsee_id === profile?.id) fetchMyTasks();
+    if (change.new.sponsor_id === profile?.id) fetchManageData();
+  });
+  useRealtimeChanges('sponsor_sponsee_relationships', ['sponsor_id'], () => {
+    fetchManageData();
+  });
+
   // =============================================================================
   // My Tasks Handlers
   // =============================================================================
 
+  /**
+   * Opens the completion modal, picking up from any draft saved earlier.
+   */
   const handleCompleteTask = (task: Task) => {
     setSelectedTask(task);
-    setCompletionNotes('');
+    setCompletionNotes(task.draft_notes ?? '');
+    setTaskComments([]);
+    setReply('');
     setShowCompleteModal(true);
+
+    if (task.returned_at) {
+      fetchTaskComments(task.id)
+        .then(setTaskComments)
+        .catch(() => {
+          // Already logged by the repository; the task can still be completed
+        });
+    }
   };
 
-  const submitTaskCompletion = async () => {
-    if (!selectedTask) return;
+  /**
+   * Replies to the sponsor's feedback on a task that was sent back.
+   */
+  const sendTaskReply = async () => {
+    if (!selectedTask || !profile || !reply.trim()) return;
 
     setIsSubmitting(true);
 
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          completion_notes: completionNotes.trim() || null,
-        })
-        .eq('id', selectedTask.id);
-
-      if (error) throw error;
-
-      await supabase.from('notifications').insert({
+      const comment = await addTaskComment(selectedTask.id, profile.id, reply.trim());
+      setTaskComments((current) => [...current, comment]);
+      setReply('');
+
+      await sendNotification({
         user_id: selectedTask.sponsor_id,
-        type: 'task_completed',
-        title: 'Task Completed',
-        content: `${profile?.first_name} ${profile?.last_initial}. has completed: ${selectedTask.title}`,
+        type: 'task_feedback',
+        title: 'New Task Feedback',
+        content: `${profile.first_name} ${profile.last_initial}. replied on: ${selectedTask.title}`,
         data: {
           task_id: selectedTask.id,
           step_number: selectedTask.step_number,
         },
       });
+    } catch {
+      if (Platform.OS === 'web') {
+        window.alert('Failed to send reply');
+      } else {
+        Alert.alert('Error', 'Failed to send reply');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartTask = async (task: Task) => {
+    try {
+      const result = await submitMutation({
+        type: 'save_task_draft',
+        taskId: task.id,
+        draftNotes: null,
+      });
+      await fetchMyTasks();
+
+      if (result === 'queued') {
+        const message = "Task started. It will sync when you're back online.";
+        if (Platform.OS === 'web') {
+          window.alert(message);
+        } else {
+          Alert.alert('Saved Offline', message);
+        }
+      }
+    } catch {
+      if (Platform.OS === 'web') {
+        window.alert('Failed to start task');
+      } else {
+        Alert.alert('Error', 'Failed to start task');
+      }
+    }
+  };
+
+  /**
+   * Saves the notes written so far as a draft, starting the task if needed.
+   * Drafts stay private until the task is completed.
+   */
+  const saveTaskDraft = async () => {
+    if (!selectedTask) return;
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await submitMutation({
+        type: 'save_task_draft',
+        taskId: selectedTask.id,
+        draftNotes: completionNotes.trim() || null,
+      });
 
       setShowCompleteModal(false);
       setSelectedTask(null);
       setCompletionNotes('');
       await fetchMyTasks();
 
+      const message =
+        result === 'queued'
+          ? "Draft saved. It will sync when you're back online."
+          : 'Draft saved. You can pick up where you left off any time.';
+      if (Platform.OS === 'web') {
+        window.alert(message);
+      } else {
+        Alert.alert(result === 'queued' ? 'Saved Offline' : 'Draft Saved', message);
+      }
+    } catch {
       if (Platform.OS === 'web') {
+        window.alert('Failed to save draft');
+      } else {
+        Alert.alert('Error', 'Failed to save draft');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitTaskCompletion = async () => {
+    if (!selectedTask) return;
+
+    setIsSubmitting(true);
+
+    try {
+      // The sponsor is notified once the completion reaches the server
+      const result = await submitMutation(
+        {
+          type: 'complete_task',
+          taskId: selectedTask.id,
+          completionNotes: completionNotes.trim() || null,
+          completedAt: new Date().toISOString(),
+        },
+        [
+          {
+            user_id: selectedTask.sponsor_id,
+            type: 'task_completed',
+            title: 'Task Completed',
+            content: `${profile?.first_name} ${profile?.last_initial}. has completed: ${selectedTask.title}`,
+            data: {
+              task_id: selectedTask.id,
+              step_number: selectedTask.step_number,
+            },
+          },
+        ]
+      );
+
+      setShowCompleteModal(false);
+      setSelectedTask(null);
+      setCompletionNotes('');
+      await fetchMyTasks();
+
+      if (result === 'conflict') {
+        const message = 'This task no longer exists, so it could not be completed.';
+        if (Platform.OS === 'web') {
+          window.alert(message);
+        } else {
+          Alert.alert('Task Not Found', message);
+        }
+      } else if (result === 'queued') {
+        const message = "Task marked as completed. It will sync when you're back online.";
+        if (Platform.OS === 'web') {
+          window.alert(message);
+        } else {
+          Alert.alert('Saved Offline', message);
+        }
+      } else if (Platform.OS === 'web') {
         window.alert('Task marked as completed!');
       } else {
         Alert.alert('Success', 'Task marked as completed!');
       }
-    } catch (error) {
-      logger.error('Task completion failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
+    } catch {
       if (Platform.OS === 'web') {
         window.alert('Failed to complete task');
       } else {
@@ -203,7 +419,54 @@ export default function TasksScreen() {
     }
   };
 
-  const getMyTasksByStatus = (status: string) => myTasks.filter((t) => t.status === status);
+  /** The user's tasks in one status, the most pressing due dates first */
+  const getMyTasksByStatus = (status: string) =>
+    myTasks.filter((t) => t.status === status).sort(compareTasksByDueDate);
+
+  /**
+   * Shows when one of the user's own tasks is due, counted in their timezone,
+   * and highlights it once it is due soon or overdue.
+   */
+  const renderDueDate = (task: Task) => {
+    const dueStatus = getTaskDueStatus(task, getUserTimezone(profile));
+    if (!dueStatus) return null;
+
+    const overdue = dueStatus === 'overdue';
+    const dueSoon = dueStatus === 'due_today' || dueStatus === 'due_soon';
+
+    return (
+      <View style={styles.dueDateContainer}>
+        <Calendar
+          size={14}
+          color={overdue ? '#ef4444' : dueSoon ? '#b45309' : theme.textSecondary}
+        />
+        <Text
+          style={[
+            styles.dueDateText,
+            overdue && styles.dueDateTextOverdue,
+            dueSoon && styles.dueDateTextSoon,
+          ]}
+        >
+          {formatDueLabel(task, getUserTimezone(profile))}
+        </Text>
+      </View>
+    );
+  };
+
+  /**
+   * Shows how often a task repeats, for occurrences of a series that is still running.
+   */
+  const renderRecurrence = (task: Task) => {
+    const series = findSeries(mySeries, task);
+    if (!series || series.stopped_at) return null;
+
+    return (
+      <View style={styles.dueDateContainer}>
+        <Repeat size={14} color={theme.textSecondary} />
+        <Text style={styles.dueDateText}>{describeRecurrence(series)}</Text>
+      </View>
+    );
+  };
 
   // =============================================================================
   // Manage Handlers
@@ -233,9 +496,7 @@ export default function TasksScreen() {
     if (!confirmed) return;
 
     try {
-      const { error } = await supabase.from('tasks').delete().eq('id', taskId);
-
-      if (error) throw error;
+      await deleteTask(taskId);
 
       await fetchManageData();
 
@@ -244,10 +505,7 @@ export default function TasksScreen() {
       } else {
         Alert.alert('Success', 'Task deleted successfully');
       }
-    } catch (error) {
-      logger.error('Task deletion failed', error as Error, {
-        category: LogCategory.DATABASE,
-      });
+    } catch {
       if (Platform.OS === 'web') {
         window.alert('Failed to delete task');
       } else {
@@ -256,6 +514,28 @@ export default function TasksScreen() {
     }
   };
 
+  /**
+   * Shows how often a task repeats; pressing it opens the series to edit, stop
+   * or review its history.
+   */
+  const renderSeriesButton = (task: Task) => {
+    const series = findSeries(sponsorSeries, task);
+    if (!series) return null;
+
+    return (
+      <TouchableOpacity
+        style={styles.seriesButton}
+        onPress={() => setSelectedSeries(series)}
+        accessibilityLabel={`Recurring task: ${task.title}`}
+      >
+        <Repeat size={14} color={theme.primary} />
+        <Text style={styles.seriesButtonText}>
+          {series.stopped_at ? 'Stopped repeating' : describeRecurrence(series)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const getFilteredTasks = () => {
     let filtered = manageTasks;
 
@@ -271,22 +551,17 @@ export default function TasksScreen() {
   };
 
   const getManageTaskStats = () => {
-    const now = new Date();
     const total = manageTasks.length;
     const assigned = manageTasks.filter((t) => t.status === 'assigned').length;
     const inProgress = manageTasks.filter((t) => t.status === 'in_progress').length;
     const completed = manageTasks.filter((t) => t.status === 'completed').length;
-    const overdue = manageTasks.filter(
-      (t) => t.due_date && new Date(t.due_date) < now && t.status !== 'completed'
-    ).length;
+    const overdue = manageTasks.filter(isOverdue).length;
 
     return { total, assigned, inProgress, completed, overdue };
   };
 
-  const isOverdue = (task: Task) => {
-    if (!task.due_date || task.status === 'completed') return false;
-    return new Date(task.due_date) < new Date();
-  };
+  /** Whether a sponsee's task is past its due date in the sponsee's timezone */
+  const isOverdue = (task: Task) => isTaskOverdue(task, getUserTimezone(task.sponsee));
 
   const groupTasksBySponsee = () => {
     const filtered = getFilteredTasks();
@@ -297,6 +572,7 @@ export default function TasksScreen() {
       }
       grouped[task.sponsee_id].push(task);
     });
+    Object.values(grouped).forEach((sponseeTasks) => sponseeTasks.sort(compareTasksByDueDate));
     return grouped;
   };
 
@@ -305,9 +581,10 @@ export default function TasksScreen() {
   // =============================================================================
 
   const getMyTasksStats = () => {
-    const pending = myTasks.filter((t) => t.status !== 'completed').length;
+    const pending = myTasks.filter((t) => t.status === 'assigned').length;
+    const inProgress = myTasks.filter((t) => t.status === 'in_progress').length;
     const completed = myTasks.filter((t) => t.status === 'completed').length;
-    return { pending, completed };
+    return { pending, inProgress, completed };
   };
 
   const myTasksStats = getMyTasksStats();
@@ -327,6 +604,7 @@ export default function TasksScreen() {
         <Text style={styles.headerSubtitle}>
           {viewMode === 'my-tasks' ? 'Track your step progress' : 'Track and assign sponsee tasks'}
         </Text>
+        <SyncStatusIndicator />
       </View>
 
       <SegmentedControl
@@ -345,6 +623,12 @@ export default function TasksScreen() {
               </Text>
               <Text style={styles.statLabel}>Pending</Text>
             </View>
+            <View style={styles.statCard}>
+              <Text style={[styles.statValue, { color: '#f59e0b' }]}>
+                {myTasksStats.inProgress}
+              </Text>
+              <Text style={styles.statLabel}>In Progress</Text>
+            </View>
             <View style={styles.statCard}>
               <Text style={[styles.statValue, { color: '#10b981' }]}>{myTasksStats.completed}</Text>
               <Text style={styles.statLabel}>Completed</Text>
@@ -361,12 +645,18 @@ export default function TasksScreen() {
               />
             }
           >
-            {/* Pending Tasks */}
-            {getMyTasksByStatus('assigned').length > 0 && (
+            {/* Started Tasks */}
+            {getMyTasksByStatus('in_progress').length > 0 && (
               <View style={styles.section}>
-                <Text style={styles.sectionTitle}>New Tasks</Text>
-                {getMyTasksByStatus('assigned').map((task) => (
-                  <View key={task.id} style={styles.taskCard}>
+                <Text style={styles.sectionTitle}>In Progress</Text>
+                {getMyTasksByStatus('in_progress').map((task) => (
+                  <View
+                    key={task.id}
+                    style={[
+                      styles.taskCard,
+                      isTaskOverdue(task, getUserTimezone(profile)) && styles.taskCardOverdue,
+                    ]}
+                  >
                     <View style={styles.taskHeader}>
                       {task.step_number && (
                         <View style={styles.stepBadge}>
@@ -379,11 +669,19 @@ export default function TasksScreen() {
                     </View>
                     <Text style={styles.taskTitle}>{task.title}</Text>
                     <Text style={styles.taskDescription}>{task.description}</Text>
-                    {task.due_date && (
+                    {renderDueDate(task)}
+                    {renderRecurrence(task)}
+                    {task.returned_at && (
                       <View style={styles.dueDateContainer}>
-                        <Calendar size={14} color={theme.textSecondary} />
-                        <Text style={styles.dueDateText}>
-                          Due {parseDateAsLocal(task.due_date).toLocaleDateString()}
+                        <MessageSquare size={14} color="#b45309" />
+                        <Text style={styles.feedbackText}>Sent back with feedback</Text>
+                      </View>
+                    )}
+                    {task.draft_notes && (
+                      <View style={styles.completionNotesContainer}>
+                        <Text style={styles.completionNotesLabel}>Your Draft:</Text>
+                        <Text style={styles.completionNotesText} numberOfLines={3}>
+                          {task.draft_notes}
                         </Text>
                       </View>
                     )}
@@ -395,8 +693,8 @@ export default function TasksScreen() {
                         style={styles.completeButton}
                         onPress={() => handleCompleteTask(task)}
                       >
-                        <CheckCircle size={20} color={theme.primary} />
-                        <Text style={styles.completeButtonText}>Complete</Text>
+                        <Pencil size={20} color={theme.primary} />
+                        <Text style={styles.completeButtonText}>Continue</Text>
                       </TouchableOpacity>
                     </View>
                   </View>
@@ -404,6 +702,59 @@ export default function TasksScreen() {
               </View>
             )}
 
+            {/* Pending Tasks */}
+            {getMyTasksByStatus('assigned').length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>New Tasks</Text>
+                {getMyTasksByStatus('assigned').map((task) => (
+                  <View
+                    key={task.id}
+                    style={[
+                      styles.taskCard,
+                      isTaskOverdue(task, getUserTimezone(profile)) && styles.taskCardOverdue,
+                    ]}
+                  >
+                    <View style={styles.taskHeader}>
+                      {task.step_number && (
+                        <View style={styles.stepBadge}>
+                          <Text style={styles.stepBadgeText}>Step {task.step_number}</Text>
+                        </View>
+                      )}
+                      <Text style={styles.taskDate}>
+                        {new Date(task.created_at).toLocaleDateString()}
+                      </Text>
+                    </View>
+                    <Text style={styles.taskTitle}>{task.title}</Text>
+                    <Text style={styles.taskDescription}>{task.description}</Text>
+                    {renderDueDate(task)}
+                    {renderRecurrence(task)}
+                    <View style={styles.taskFooter}>
+                      <Text style={styles.sponsorText}>
+                        From: {formatProfileName(task.sponsor)}
+                      </Text>
+                      <View style={styles.taskButtons}>
+                        <TouchableOpacity
+                          style={styles.startButton}
+                          onPress={() => handleStartTask(task)}
+                          accessibilityLabel={`Start ${task.title}`}
+                        >
+                          <Play size={20} color={theme.textSecondary} />
+                          <Text style={styles.startButtonText}>Start</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={styles.completeButton}
+                          onPress={() => handleCompleteTask(task)}
+                        >
+                          <CheckCircle size={20} color={theme.primary} />
+                          <Text style={styles.completeButtonText}>Complete</Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {/* Completed Tasks */}
             {getMyTasksByStatus('completed').length > 0 && (
               <View style={styles.section}>
@@ -431,6 +782,7 @@ export default function TasksScreen() {
                       <Text style={styles.taskDescription}>{task.description}</Text>
                       <Text style={styles.completedDate}>
                         Completed {new Date(task.completed_at!).toLocaleDateString()}
+                        {task.reviewed_at ? ' · Acknowledged by your sponsor' : ''}
                       </Text>
                       {task.completion_notes && (
                         <View style={styles.completionNotesContainer}>
@@ -488,11 +840,43 @@ export default function TasksScreen() {
                         <Text style={styles.taskSummaryTitle}>{selectedTask.title}</Text>
                       </View>
 
+                      {selectedTask.returned_at && (
+                        <View style={styles.formGroup}>
+                          <Text style={styles.label}>Feedback From Your Sponsor</Text>
+                          <TaskCommentThread
+                            comments={taskComments}
+                            currentUserId={profile?.id ?? ''}
+                            otherName={formatProfileName(selectedTask.sponsor)}
+                            theme={theme}
+                          />
+                          <View style={styles.replyRow}>
+                            <TextInput
+                              style={styles.replyInput}
+                              value={reply}
+                              onChangeText={setReply}
+                              placeholder="Reply to your sponsor..."
+                              placeholderTextColor={theme.textTertiary}
+                            />
+                            <TouchableOpacity
+                              style={[
+                                styles.replyButton,
+                                (isSubmitting || !reply.trim()) && styles.buttonDisabled,
+                              ]}
+                              onPress={sendTaskReply}
+                              disabled={isSubmitting || !reply.trim()}
+                            >
+                              <Text style={styles.replyButtonText}>Reply</Text>
+                            </TouchableOpacity>
+                          </View>
+                        </View>
+                      )}
+
                       <View style={styles.formGroup}>
                         <Text style={styles.label}>Completion Notes (Optional)</Text>
                         <Text style={styles.helpText}>
                           Share your reflections, insights, or any challenges you faced with this
-                          task.
+                          task. Save a draft to finish later; your sponsor only sees your notes once
+                          you complete the task.
                         </Text>
                         <TextInput
                           style={styles.textArea}
@@ -517,6 +901,13 @@ export default function TasksScreen() {
                   >
                     <Text style={styles.cancelButtonText}>Cancel</Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.cancelButton, isSubmitting && styles.buttonDisabled]}
+                    onPress={saveTaskDraft}
+                    disabled={isSubmitting}
+                  >
+                    <Text style={styles.draftButtonText}>Save Draft</Text>
+                  </TouchableOpacity>
                   <TouchableOpacity
                     style={[styles.submitButton, isSubmitting && styles.buttonDisabled]}
                     onPress={submitTaskCompletion}
@@ -547,6 +938,10 @@ export default function TasksScreen() {
               </Text>
               <Text style={styles.statLabel}>Assigned</Text>
             </View>
+            <View style={styles.statCard}>
+              <Text style={[styles.statValue, { color: '#f59e0b' }]}>{manageStats.inProgress}</Text>
+              <Text style={styles.statLabel}>In Progress</Text>
+            </View>
             <View style={styles.statCard}>
               <Text style={[styles.statValue, { color: '#10b981' }]}>{manageStats.completed}</Text>
               <Text style={styles.statLabel}>Completed</Text>
@@ -592,6 +987,22 @@ export default function TasksScreen() {
                   Assigned
                 </Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.filterChip,
+                  filterStatus === 'in_progress' && styles.filterChipActive,
+                ]}
+                onPress={() => setFilterStatus('in_progress')}
+              >
+                <Text
+                  style={[
+                    styles.filterChipText,
+                    filterStatus === 'in_progress' && styles.filterChipTextActive,
+                  ]}
+                >
+                  In Progress
+                </Text>
+              </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.filterChip, filterStatus === 'completed' && styles.filterChipActive]}
                 onPress={() => setFilterStatus('completed')}
@@ -749,19 +1160,21 @@ export default function TasksScreen() {
                                 isOverdue(task) && styles.taskMetaTextOverdue,
                               ]}
                             >
-                              Due {parseDateAsLocal(task.due_date).toLocaleDateString()}
+                              {formatDueLabel(task, getUserTimezone(task.sponsee))}
                             </Text>
                           </View>
                         )}
 
-                        {task.status === 'completed' && task.completion_notes && (
-                          <View style={styles.completionNotesContainer}>
-                            <Text style={styles.completionNotesLabel}>Completion Notes:</Text>
-                            <Text style={styles.completionNotesText} numberOfLines={3}>
-                              {task.completion_notes}
-                            </Text>
-                          </View>
-                        )}
+                        {task.status === 'completed' &&
+                          task.completion_notes &&
+                          notesSharedBy.has(task.sponsee_id) && (
+                            <View style={styles.completionNotesContainer}>
+                              <Text style={styles.completionNotesLabel}>Completion Notes:</Text>
+                              <Text style={styles.completionNotesText} numberOfLines={3}>
+                                {task.completion_notes}
+                              </Text>
+                            </View>
+                          )}
 
                         <View style={styles.taskActions}>
                           <View style={styles.statusBadge}>
@@ -773,14 +1186,38 @@ export default function TasksScreen() {
                                   : 'Completed'}
                             </Text>
                           </View>
-                          {task.status !== 'completed' && (
+                          {renderSeriesButton(task)}
+                          {(task.status === 'completed' || task.returned_at) && (
                             <TouchableOpacity
-                              style={styles.deleteButton}
-                              onPress={() => handleDeleteTask(task.id, task.title)}
+                              style={styles.reviewButton}
+                              onPress={() => setReviewingTask(task)}
+                              accessibilityLabel={`Review ${task.title}`}
                             >
-                              <Trash2 size={16} color="#ef4444" />
+                              <MessageSquare size={14} color={theme.primary} />
+                              <Text style={styles.reviewButtonText}>
+                                {task.status === 'completed' && !task.reviewed_at
+                                  ? 'Review'
+                                  : 'Feedback'}
+                              </Text>
                             </TouchableOpacity>
                           )}
+                          {task.status !== 'completed' && (
+                            <View style={styles.taskButtons}>
+                              <TouchableOpacity
+                                style={styles.editButton}
+                                onPress={() => setEditingTask(task)}
+                                accessibilityLabel={`Edit ${task.title}`}
+                              >
+                                <Pencil size={16} color={theme.textSecondary} />
+                              </TouchableOpacity>
+                              <TouchableOpacity
+                                style={styles.deleteButton}
+                                onPress={() => handleDeleteTask(task.id, task.title)}
+                              >
+                                <Trash2 size={16} color="#ef4444" />
+                              </TouchableOpacity>
+                            </View>
+                          )}
                         </View>
                       </View>
                     ))}
@@ -805,15 +1242,42 @@ export default function TasksScreen() {
 
           {/* Task Creation Modal */}
           <TaskCreationModal
-            visible={showCreateModal}
+            visible={showCreateModal || !!editingTask}
             onClose={() => {
               setShowCreateModal(false);
               setPreselectedSponseeId(undefined);
+              setEditingTask(null);
             }}
             onTaskCreated={fetchManageData}
             sponsorId={profile?.id || ''}
             sponsees={sponsees}
             preselectedSponseeId={preselectedSponseeId}
+            task={editingTask}
+            theme={theme}
+          />
+
+          {/* Recurring Task Modal */}
+          <TaskSeriesModal
+            visible={!!selectedSeries}
+            series={selectedSeries}
+            occurrences={manageTasks.filter((task) => task.series_id === selectedSeries?.id)}
+            today={formatDateWithTimezone(
+              new Date(),
+              getUserTimezone(sponsees.find((s) => s.id === selectedSeries?.sponsee_id))
+            )}
+            onClose={() => setSelectedSeries(null)}
+            onSeriesChanged={fetchManageData}
+            theme={theme}
+          />
+
+          {/* Task Review Modal */}
+          <TaskReviewModal
+            visible={!!reviewingTask}
+            task={reviewingTask}
+            sponsorId={profile?.id || ''}
+            notesShared={!!reviewingTask && notesSharedBy.has(reviewingTask.sponsee_id)}
+            onClose={() => setReviewingTask(null)}
+            onReviewed={fetchManageData}
             theme={theme}
           />
         </>
@@ -970,6 +1434,26 @@ const createStyles = (theme: ThemeColors) =>
       fontFamily: theme.fontRegular,
       color: theme.textSecondary,
     },
+    taskButtons: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    startButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: theme.border,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      borderRadius: 12,
+    },
+    startButtonText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginLeft: 6,
+    },
     completeButton: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -985,6 +1469,12 @@ const createStyles = (theme: ThemeColors) =>
       color: theme.primary,
       marginLeft: 6,
     },
+    feedbackText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#b45309',
+    },
     completedDate: {
       fontSize: 12,
       fontFamily: theme.fontRegular,
@@ -1024,6 +1514,14 @@ const createStyles = (theme: ThemeColors) =>
       fontFamily: theme.fontRegular,
       color: theme.textSecondary,
     },
+    dueDateTextOverdue: {
+      color: '#ef4444',
+      fontWeight: '600',
+    },
+    dueDateTextSoon: {
+      color: '#b45309',
+      fontWeight: '600',
+    },
     modalOverlay: {
       flex: 1,
       backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -1095,6 +1593,35 @@ const createStyles = (theme: ThemeColors) =>
       color: theme.text,
       minHeight: 120,
     },
+    replyRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 12,
+    },
+    replyInput: {
+      flex: 1,
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      padding: 10,
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    replyButton: {
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+    },
+    replyButtonText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
     modalFooter: {
       flexDirection: 'row',
       padding: 20,
@@ -1116,6 +1643,12 @@ const createStyles = (theme: ThemeColors) =>
       fontWeight: '600',
       color: theme.textSecondary,
     },
+    draftButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
     submitButton: {
       flex: 1,
       padding: 14,
@@ -1259,6 +1792,43 @@ const createStyles = (theme: ThemeColors) =>
       fontWeight: '600',
       color: theme.primary,
     },
+    seriesButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 6,
+      backgroundColor: theme.primaryLight,
+    },
+    seriesButtonText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    reviewButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 6,
+      backgroundColor: theme.primaryLight,
+    },
+    reviewButtonText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    editButton: {
+      padding: 8,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.card,
+    },
     deleteButton: {
       padding: 8,
       borderRadius: 8,
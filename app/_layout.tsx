@@ -10,6 +10,7 @@ import {
   Stack,
   useRouter,
   useSegments,
+  useGlobalSearchParams,
   SplashScreen,
   useNavigationContainerRef,
   useRootNavigationState,
@@ -19,6 +20,7 @@ import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { savePendingInvite, takePendingInvite } from '@/lib/invites';
 import { View, ActivityIndicator, StyleSheet, Platform } from 'react-native';
 import { useFonts } from 'expo-font';
 import {
@@ -36,8 +38,10 @@ SplashScreen.preventAutoHideAsync();
  * Controls app routing and renders the root navigation UI based on authentication and profile state.
  *
  * Observes authentication, profile completeness, and current route segments to perform routing guards
- * (redirecting to `/login`, `/onboarding`, or `/(tabs)` as appropriate). While auth state is loading,
- * displays a centered loading indicator. When not loading, renders the app's Stack navigator and StatusBar.
+ * (redirecting to `/login`, `/onboarding`, or `/(tabs)` as appropriate). An invite link opened before
+ * sign-in or onboarding is saved when the guard redirects away from it, and reopened once the profile
+ * is complete. While auth state is loading, displays a centered loading indicator. When not loading,
+ * renders the app's Stack navigator and StatusBar.
  *
  * @returns The root navigation JSX element containing the app's Stack and StatusBar
  */
@@ -45,6 +49,7 @@ function RootLayoutNav() {
   const { user, profile, loading } = useAuth();
   const { isDark, theme } = useTheme();
   const segments = useSegments();
+  const { code: inviteCode } = useGlobalSearchParams<{ code?: string }>();
   const router = useRouter();
   const navigationRef = useNavigationContainerRef();
   const rootNavigationState = useRootNavigationState();
@@ -53,6 +58,18 @@ function RootLayoutNav() {
   // This prevents "action was not handled by any navigator" warnings
   const navigatorReady = rootNavigationState?.key != null;
 
+  // Profile is complete when user has provided their name and sobriety date during onboarding
+  // Check for non-null values (null indicates user hasn't completed onboarding).
+  // Also validate against placeholder values ('User', 'U') to catch legacy data or edge cases.
+  const hasName =
+    profile !== null &&
+    profile.first_name !== null &&
+    profile.last_initial !== null &&
+    profile.first_name !== 'User' &&
+    profile.last_initial !== 'U';
+  const hasSobrietyDate = !!profile?.sobriety_date;
+  const isProfileComplete = hasName && hasSobrietyDate;
+
   // Register navigation container with Sentry
   useEffect(() => {
     if (navigationRef) {
@@ -72,18 +89,7 @@ function RootLayoutNav() {
     const inOnboarding = firstSegment === 'onboarding';
     const inAuthScreen = firstSegment === 'login' || firstSegment === 'signup';
     const inLanding = firstSegment === 'index';
-
-    // Profile is complete when user has provided their name and sobriety date during onboarding
-    // Check for non-null values (null indicates user hasn't completed onboarding).
-    // Also validate against placeholder values ('User', 'U') to catch legacy data or edge cases.
-    const hasName =
-      profile !== null &&
-      profile.first_name !== null &&
-      profile.last_initial !== null &&
-      profile.first_name !== 'User' &&
-      profile.last_initial !== 'U';
-    const hasSobrietyDate = !!profile?.sobriety_date;
-    const isProfileComplete = hasName && hasSobrietyDate;
+    const inInvite = firstSegment === 'invite';
 
     // On web, if no segments (initial load at root), allow landing page to show for unauthenticated users
     if (isWeb && !hasSegments && !user) {
@@ -91,6 +97,11 @@ function RootLayoutNav() {
       return;
     }
 
+    // Keep an invite link opened before sign-in or onboarding so it survives the redirects below
+    if (inInvite && inviteCode && !(user && isProfileComplete)) {
+      savePendingInvite(inviteCode);
+    }
+
     // Redirect unauthenticated users trying to access protected routes
     if (!user && inAuthGroup) {
       router.replace('/login');
@@ -113,7 +124,16 @@ function RootLayoutNav() {
     } else if (user && !profile && !inOnboarding) {
       router.replace('/onboarding');
     }
-  }, [user, profile, segments, loading, router, navigatorReady]);
+  }, [user, profile, isProfileComplete, segments, inviteCode, loading, router, navigatorReady]);
+
+  // Reopen an invite saved by the guard above once the user can redeem it
+  useEffect(() => {
+    if (loading || !navigatorReady || !user || !isProfileComplete) return;
+
+    takePendingInvite().then((code) => {
+      if (code) router.push(`/invite/${code}`);
+    });
+  }, [user, isProfileComplete, loading, router, navigatorReady]);
 
   if (loading) {
     return (
@@ -139,6 +159,14 @@ function RootLayoutNav() {
             contentStyle: { backgroundColor: theme.background },
           }}
         />
+        <Stack.Screen name="messages/index" />
+        <Stack.Screen name="messages/[userId]" />
+        <Stack.Screen name="sponsee/[id]" />
+        <Stack.Screen name="notifications" />
+        <Stack.Screen name="inventory" />
+        <Stack.Screen name="amends" />
+        <Stack.Screen name="check-in" />
+        <Stack.Screen name="invite/[code]" />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style={isDark ? 'light' : 'dark'} />
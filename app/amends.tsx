@@ -0,0 +1,374 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, Plus } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import { deleteAmends, fetchAmends } from '@/lib/repositories';
+import { cacheKeys, withOfflineCache } from '@/lib/offline';
+import {
+  AMENDS_STATUSES,
+  AMENDS_STATUS_LABELS,
+  getAmendsByStatus,
+  summarizeAmends,
+} from '@/lib/amends';
+import AmendsEntryModal from '@/components/AmendsEntryModal';
+import type { AmendsEntry, AmendsStatus } from '@/types/database';
+
+// =============================================================================
+// Constants
+// =============================================================================
+const STATUS_COLORS: Record<AmendsStatus, string> = {
+  willing: '#6b7280',
+  planned: '#3b82f6',
+  made: '#10b981',
+  deferred: '#f59e0b',
+};
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * The Step 8 and 9 amends list: everyone the user owes amends to, what the
+ * harm was, how they plan to make it and where it stands.
+ *
+ * @remarks
+ * Entries are grouped by status. Marking an amends made puts it on the
+ * journey timeline; deferring one records why making it would injure someone.
+ * Whether a sponsor sees the list is a sharing setting on the Profile tab.
+ *
+ * @returns The amends list screen
+ */
+export default function AmendsScreen() {
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const [entries, setEntries] = useState<AmendsEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showEntryModal, setShowEntryModal] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<AmendsEntry | null>(null);
+
+  const loadAmends = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setError(null);
+      setEntries(
+        await withOfflineCache(cacheKeys.amends(profile.id), () => fetchAmends(profile.id))
+      );
+    } catch {
+      // Already logged by the repository
+      setError('Failed to load your amends list');
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    loadAmends();
+  }, [loadAmends]);
+
+  const openEntry = (entry: AmendsEntry | null) => {
+    setEditingEntry(entry);
+    setShowEntryModal(true);
+  };
+
+  const handleSaved = (saved: AmendsEntry) => {
+    setEntries((current) =>
+      current.some((e) => e.id === saved.id)
+        ? current.map((e) => (e.id === saved.id ? saved : e))
+        : [...current, saved]
+    );
+  };
+
+  const handleDelete = async (entry: AmendsEntry) => {
+    const confirmMessage = `Remove ${entry.person} from your amends list? This cannot be undone.`;
+
+    const confirmed =
+      Platform.OS === 'web'
+        ? window.confirm(confirmMessage)
+        : await new Promise<boolean>((resolve) => {
+            Alert.alert('Confirm Delete', confirmMessage, [
+              {
+                text: 'Cancel',
+                style: 'cancel',
+                onPress: () => resolve(false),
+              },
+              {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: () => resolve(true),
+              },
+            ]);
+          });
+
+    if (!confirmed) return;
+
+    try {
+      await deleteAmends(entry.id);
+      setEntries((current) => current.filter((e) => e.id !== entry.id));
+      setShowEntryModal(false);
+    } catch {
+      // Already logged by the repository
+      if (Platform.OS === 'web') {
+        window.alert('Failed to delete this amends. Please try again.');
+      } else {
+        Alert.alert('Error', 'Failed to delete this amends. Please try again.');
+      }
+    }
+  };
+
+  const styles = createStyles(theme);
+  const summary = summarizeAmends(entries);
+
+  const renderEntry = (entry: AmendsEntry) => (
+    <TouchableOpacity
+      key={entry.id}
+      style={styles.entryCard}
+      onPress={() => openEntry(entry)}
+      accessibilityRole="button"
+      accessibilityLabel={`Edit amends to ${entry.person}`}
+    >
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryPerson}>{entry.person}</Text>
+        <View style={[styles.statusBadge, { borderColor: STATUS_COLORS[entry.status] }]}>
+          <Text style={[styles.statusBadgeText, { color: STATUS_COLORS[entry.status] }]}>
+            {AMENDS_STATUS_LABELS[entry.status].label}
+          </Text>
+        </View>
+      </View>
+      {entry.harm ? <Text style={styles.entryDetail}>{entry.harm}</Text> : null}
+      {entry.approach && entry.status !== 'made' ? (
+        <Text style={styles.entryDetail}>
+          <Text style={styles.entryLabel}>Approach: </Text>
+          {entry.approach}
+        </Text>
+      ) : null}
+      {entry.deferred_reason ? (
+        <Text style={styles.entryDetail}>
+          <Text style={styles.entryLabel}>Would injure: </Text>
+          {entry.deferred_reason}
+        </Text>
+      ) : null}
+      {entry.made_at ? (
+        <Text style={styles.entryMeta}>Made {new Date(entry.made_at).toLocaleDateString()}</Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Amends List</Text>
+          <Text style={styles.headerSubtitle}>
+            {entries.length === 0
+              ? 'The people you have harmed'
+              : `${summary.made} of ${entries.length} amends made`}
+          </Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={loadAmends}>
+            <Text style={styles.primaryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {entries.length === 0 ? (
+            <Text style={styles.emptyText}>No one on your amends list yet.</Text>
+          ) : (
+            AMENDS_STATUSES.filter((status) => summary[status] > 0).map((status) => (
+              <View key={status} style={styles.section}>
+                <Text style={styles.sectionTitle}>
+                  {AMENDS_STATUS_LABELS[status].label} ({summary[status]})
+                </Text>
+                {getAmendsByStatus(entries, status).map(renderEntry)}
+              </View>
+            ))
+          )}
+          <TouchableOpacity style={styles.primaryButton} onPress={() => openEntry(null)}>
+            <Plus size={18} color="#ffffff" />
+            <Text style={styles.primaryButtonText}>Add Person</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      {profile && (
+        <AmendsEntryModal
+          visible={showEntryModal}
+          userId={profile.id}
+          entry={editingEntry}
+          onClose={() => setShowEntryModal(false)}
+          onSaved={handleSaved}
+          onDelete={handleDelete}
+          theme={theme}
+        />
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 24,
+      paddingTop: 60,
+      backgroundColor: theme.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    backButton: {
+      marginRight: 12,
+      padding: 4,
+    },
+    headerText: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: 28,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    content: {
+      padding: 16,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 32,
+    },
+    section: {
+      marginBottom: 8,
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 8,
+    },
+    entryCard: {
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    entryHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 8,
+    },
+    entryPerson: {
+      flex: 1,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    statusBadge: {
+      paddingVertical: 2,
+      paddingHorizontal: 8,
+      borderRadius: 10,
+      borderWidth: 1,
+    },
+    statusBadgeText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+    },
+    entryDetail: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      lineHeight: 20,
+      marginTop: 6,
+    },
+    entryLabel: {
+      fontWeight: '600',
+      color: theme.text,
+    },
+    entryMeta: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: '#10b981',
+      marginTop: 6,
+    },
+    primaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: theme.primary,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderRadius: 12,
+      marginTop: 12,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+    errorText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+  });
@@ -0,0 +1,556 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { CheckCircle, ChevronLeft, Flame } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import { fetchCheckIns, saveCheckIn, type CheckInDraft } from '@/lib/repositories';
+import { cacheKeys, withOfflineCache } from '@/lib/offline';
+import { formatDateWithTimezone, getUserTimezone, parseDateAsLocal } from '@/lib/date';
+import {
+  getCheckInStreak,
+  getHaltLabels,
+  HALT_FLAGS,
+  MOOD_LABELS,
+  MOOD_RATINGS,
+  STEP_TEN_PROMPT,
+  type HaltFlag,
+} from '@/lib/check-ins';
+import type { DailyCheckIn } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+type CheckInForm = Pick<DailyCheckIn, HaltFlag | 'gratitude' | 'review'> & {
+  mood: number | null;
+};
+
+// =============================================================================
+// Constants
+// =============================================================================
+const EMPTY_FORM: CheckInForm = {
+  mood: null,
+  hungry: false,
+  angry: false,
+  lonely: false,
+  tired: false,
+  gratitude: '',
+  review: '',
+};
+
+/** How many earlier check-ins the history shows */
+const HISTORY_LIMIT = 14;
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * The nightly check-in: a mood rating, the HALT flags, a gratitude entry and a
+ * short Step 10 review, with the check-in streak and recent history.
+ *
+ * @remarks
+ * There is one check-in per day in the user's profile timezone; checking in
+ * again the same day updates it. The streak counts consecutive days and stays
+ * alive until the end of a day without a check-in.
+ *
+ * @returns The check-in screen
+ */
+export default function CheckInScreen() {
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const [checkIns, setCheckIns] = useState<DailyCheckIn[]>([]);
+  const [form, setForm] = useState<CheckInForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  // The day the form was filled in for; reloading the same day keeps the user's edits
+  const formDateRef = useRef<string | null>(null);
+
+  const profileId = profile?.id;
+  const timezone = getUserTimezone(profile);
+  const today = formatDateWithTimezone(new Date(), timezone);
+  const todaysCheckIn = checkIns.find((checkIn) => checkIn.check_in_date === today);
+
+  const loadCheckIns = useCallback(async () => {
+    if (!profileId) return;
+
+    try {
+      setLoadError(null);
+      const data = await withOfflineCache(cacheKeys.checkIns(profileId), () =>
+        fetchCheckIns(profileId)
+      );
+      setCheckIns(data);
+
+      if (formDateRef.current !== today) {
+        formDateRef.current = today;
+        const existing = data.find((checkIn) => checkIn.check_in_date === today);
+        setForm(
+          existing
+            ? {
+                mood: existing.mood,
+                hungry: existing.hungry,
+                angry: existing.angry,
+                lonely: existing.lonely,
+                tired: existing.tired,
+                gratitude: existing.gratitude,
+                review: existing.review,
+              }
+            : EMPTY_FORM
+        );
+      }
+    } catch {
+      // Already logged by the repository
+      setLoadError('Failed to load your check-ins');
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId, today]);
+
+  useEffect(() => {
+    loadCheckIns();
+  }, [loadCheckIns]);
+
+  const updateForm = (changes: Partial<CheckInForm>) => {
+    setForm((current) => ({ ...current, ...changes }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!profile) return;
+
+    setSaveError('');
+    if (form.mood === null) {
+      setSaveError('Please rate your mood');
+      return;
+    }
+
+    const draft: CheckInDraft = {
+      user_id: profile.id,
+      check_in_date: today,
+      mood: form.mood,
+      hungry: form.hungry,
+      angry: form.angry,
+      lonely: form.lonely,
+      tired: form.tired,
+      gratitude: form.gratitude.trim(),
+      review: form.review.trim(),
+    };
+
+    setSaving(true);
+    try {
+      const checkIn = await saveCheckIn(draft);
+      setCheckIns((current) => [
+        checkIn,
+        ...current.filter((c) => c.check_in_date !== checkIn.check_in_date),
+      ]);
+      setSaved(true);
+    } catch {
+      // Already logged by the repository
+      setSaveError('Failed to save your check-in. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+  const streak = getCheckInStreak(
+    checkIns.map((checkIn) => checkIn.check_in_date),
+    today
+  );
+  const history = checkIns
+    .filter((checkIn) => checkIn.check_in_date !== today)
+    .slice(0, HISTORY_LIMIT);
+
+  const formatDay = (date: string) =>
+    parseDateAsLocal(date, timezone).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Daily Check-In</Text>
+          <Text style={styles.headerSubtitle}>{formatDay(today)}</Text>
+        </View>
+        <View style={styles.streakBadge}>
+          <Flame size={18} color="#f59e0b" />
+          <Text style={styles.streakText}>{streak === 1 ? '1 day' : `${streak} days`}</Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : loadError ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{loadError}</Text>
+          <TouchableOpacity style={styles.saveButton} onPress={loadCheckIns}>
+            <Text style={styles.saveButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>How are you feeling?</Text>
+            <View style={styles.optionRow}>
+              {MOOD_RATINGS.map((rating) => {
+                const selected = form.mood === rating;
+                return (
+                  <TouchableOpacity
+                    key={rating}
+                    style={[styles.moodOption, selected && styles.optionSelected]}
+                    onPress={() => updateForm({ mood: rating })}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                    accessibilityLabel={`Mood: ${MOOD_LABELS[rating]}`}
+                  >
+                    <Text style={[styles.moodNumber, selected && styles.optionTextSelected]}>
+                      {rating}
+                    </Text>
+                    <Text style={[styles.moodLabel, selected && styles.optionTextSelected]}>
+                      {MOOD_LABELS[rating]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.sectionTitle}>Am I hungry, angry, lonely or tired?</Text>
+            <View style={styles.optionRow}>
+              {HALT_FLAGS.map(({ flag, label }) => (
+                <TouchableOpacity
+                  key={flag}
+                  style={[styles.haltOption, form[flag] && styles.optionSelected]}
+                  onPress={() => updateForm({ [flag]: !form[flag] })}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: form[flag] }}
+                  accessibilityLabel={label}
+                >
+                  <Text style={[styles.haltText, form[flag] && styles.optionTextSelected]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Gratitude</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={form.gratitude}
+              onChangeText={(gratitude) => updateForm({ gratitude })}
+              accessibilityLabel="Gratitude"
+              placeholder="Today I'm grateful for..."
+              placeholderTextColor={theme.textTertiary}
+              multiline
+              textAlignVertical="top"
+            />
+
+            <Text style={styles.sectionTitle}>Step 10 Review</Text>
+            <Text style={styles.prompt}>{STEP_TEN_PROMPT}</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              value={form.review}
+              onChangeText={(review) => updateForm({ review })}
+              accessibilityLabel="Step 10 review"
+              placeholderTextColor={theme.textTertiary}
+              multiline
+              textAlignVertical="top"
+            />
+
+            {saveError ? <Text style={styles.errorText}>{saveError}</Text> : null}
+            {saved ? (
+              <View style={styles.savedRow}>
+                <CheckCircle size={16} color="#10b981" />
+                <Text style={styles.savedText}>Checked in for today</Text>
+              </View>
+            ) : null}
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.saveButtonText}>
+                  {todaysCheckIn ? 'Update Check-In' : 'Check In'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.historyTitle}>Recent Check-Ins</Text>
+          {history.length === 0 ? (
+            <Text style={styles.emptyText}>Your earlier check-ins will appear here.</Text>
+          ) : (
+            history.map((checkIn) => {
+              const halt = getHaltLabels(checkIn);
+              return (
+                <View key={checkIn.id} style={styles.historyCard}>
+                  <View style={styles.historyHeader}>
+                    <Text style={styles.historyDate}>{formatDay(checkIn.check_in_date)}</Text>
+                    <Text style={styles.historyMood}>{MOOD_LABELS[checkIn.mood]}</Text>
+                  </View>
+                  {halt.length > 0 && <Text style={styles.historyDetail}>{halt.join(' · ')}</Text>}
+                  {checkIn.gratitude ? (
+                    <Text style={styles.historyDetail}>Grateful for: {checkIn.gratitude}</Text>
+                  ) : null}
+                </View>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 24,
+      paddingTop: 60,
+      backgroundColor: theme.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    backButton: {
+      marginRight: 12,
+      padding: 4,
+    },
+    headerText: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: 28,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    streakBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    streakText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    content: {
+      padding: 16,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 32,
+    },
+    card: {
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 10,
+      marginTop: 8,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    moodOption: {
+      flex: 1,
+      minWidth: 56,
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.background,
+    },
+    moodNumber: {
+      fontSize: 18,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    moodLabel: {
+      fontSize: 11,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    haltOption: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.background,
+    },
+    haltText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    optionSelected: {
+      borderColor: theme.primary,
+      backgroundColor: theme.primaryLight,
+    },
+    optionTextSelected: {
+      color: theme.primary,
+    },
+    prompt: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      lineHeight: 20,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+      marginBottom: 12,
+    },
+    textArea: {
+      minHeight: 80,
+      paddingTop: 12,
+    },
+    savedRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginBottom: 4,
+    },
+    savedText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#10b981',
+    },
+    saveButton: {
+      alignItems: 'center',
+      backgroundColor: theme.primary,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderRadius: 12,
+      marginTop: 8,
+    },
+    saveButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    historyTitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+      marginTop: 24,
+      marginBottom: 8,
+    },
+    historyCard: {
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      padding: 14,
+      marginBottom: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    historyHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    historyDate: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    historyMood: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.primary,
+    },
+    historyDetail: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginVertical: 16,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+  });
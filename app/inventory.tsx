@@ -0,0 +1,570 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Share,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import {
+  CheckCircle,
+  ChevronDown,
+  ChevronLeft,
+  ChevronUp,
+  Plus,
+  Share2,
+} from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import {
+  deleteInventoryEntry,
+  fetchInventoryEntries,
+  fetchStepProgress,
+  reorderInventoryEntries,
+} from '@/lib/repositories';
+import {
+  applyPendingToStepProgress,
+  cacheKeys,
+  getPendingMutations,
+  submitMutation,
+  SyncMutation,
+  withOfflineCache,
+} from '@/lib/offline';
+import {
+  formatInventoryForExport,
+  getInventoryEntries,
+  INVENTORY_COLUMNS,
+  INVENTORY_KINDS,
+  INVENTORY_LABELS,
+  INVENTORY_STEP,
+  moveInventoryEntry,
+  summarizeInventory,
+} from '@/lib/inventory';
+import SegmentedControl from '@/components/SegmentedControl';
+import InventoryEntryModal from '@/components/InventoryEntryModal';
+import type { InventoryEntry, UserStepProgress } from '@/types/database';
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** One tab per inventory kind, then the summary */
+const TABS = [...INVENTORY_KINDS.map((kind) => INVENTORY_LABELS[kind].title), 'Summary'];
+const SUMMARY_TAB = INVENTORY_KINDS.length;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+function showMessage(title: string, message: string): void {
+  if (Platform.OS === 'web') {
+    window.alert(message);
+  } else {
+    Alert.alert(title, message);
+  }
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * The Step 4 inventory: the user's resentments, fears and harms done, each
+ * as rows of who or what, the cause, what it affects and their part.
+ *
+ * @remarks
+ * Rows are added and edited in a form, and moved up or down within their
+ * kind. The summary totals each kind, links to Step 4's completion, and
+ * exports the whole inventory as text to read through with a sponsor in
+ * Step 5.
+ *
+ * @returns The inventory screen
+ */
+export default function InventoryScreen() {
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const [entries, setEntries] = useState<InventoryEntry[]>([]);
+  const [stepProgress, setStepProgress] = useState<UserStepProgress | null>(null);
+  const [activeTab, setActiveTab] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showEntryModal, setShowEntryModal] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<InventoryEntry | null>(null);
+
+  const loadInventory = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setError(null);
+      const [inventory, progress, pending] = await Promise.all([
+        withOfflineCache(cacheKeys.inventory(profile.id), () => fetchInventoryEntries(profile.id)),
+        withOfflineCache(cacheKeys.stepProgress(profile.id), () => fetchStepProgress(profile.id)),
+        getPendingMutations(),
+      ]);
+      setEntries(inventory);
+      setStepProgress(
+        applyPendingToStepProgress(progress, pending).find(
+          (p) => p.step_number === INVENTORY_STEP
+        ) ?? null
+      );
+    } catch {
+      // Already logged by the repository
+      setError('Failed to load your inventory');
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    loadInventory();
+  }, [loadInventory]);
+
+  const activeKind = activeTab === SUMMARY_TAB ? null : INVENTORY_KINDS[activeTab];
+  const kindEntries = activeKind ? getInventoryEntries(entries, activeKind) : [];
+
+  const openEntry = (entry: InventoryEntry | null) => {
+    setEditingEntry(entry);
+    setShowEntryModal(true);
+  };
+
+  const handleSaved = (saved: InventoryEntry) => {
+    setEntries((current) =>
+      current.some((e) => e.id === saved.id)
+        ? current.map((e) => (e.id === saved.id ? saved : e))
+        : [...current, saved]
+    );
+  };
+
+  const handleDelete = async (entry: InventoryEntry) => {
+    const confirmMessage = `Delete "${entry.subject}" from your inventory? This cannot be undone.`;
+
+    const confirmed =
+      Platform.OS === 'web'
+        ? window.confirm(confirmMessage)
+        : await new Promise<boolean>((resolve) => {
+            Alert.alert('Confirm Delete', confirmMessage, [
+              {
+                text: 'Cancel',
+                style: 'cancel',
+                onPress: () => resolve(false),
+              },
+              {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: () => resolve(true),
+              },
+            ]);
+          });
+
+    if (!confirmed) return;
+
+    try {
+      await deleteInventoryEntry(entry.id);
+      setEntries((current) => current.filter((e) => e.id !== entry.id));
+      setShowEntryModal(false);
+    } catch {
+      // Already logged by the repository
+      showMessage('Error', 'Failed to delete this entry. Please try again.');
+    }
+  };
+
+  const handleMove = async (entry: InventoryEntry, offset: -1 | 1) => {
+    const reordered = moveInventoryEntry(entries, entry.id, offset);
+    if (!reordered) return;
+
+    const previous = entries;
+    setEntries((current) => [...current.filter((e) => e.kind !== entry.kind), ...reordered]);
+
+    try {
+      await reorderInventoryEntries(reordered.map((e) => e.id));
+    } catch {
+      // Already logged by the repository
+      setEntries(previous);
+      showMessage('Error', 'Failed to move this entry. Please try again.');
+    }
+  };
+
+  const completeInventoryStep = async () => {
+    if (!profile) return;
+
+    const mutation: SyncMutation = {
+      type: 'complete_step',
+      userId: profile.id,
+      stepNumber: INVENTORY_STEP,
+      completedAt: new Date().toISOString(),
+    };
+
+    try {
+      // Offline, the completion is queued and shown straight away
+      await submitMutation(mutation);
+      setStepProgress(applyPendingToStepProgress([], [mutation])[0] ?? null);
+    } catch {
+      // Already logged by the repository
+      showMessage('Error', 'Failed to mark Step 4 complete. Please try again.');
+    }
+  };
+
+  const exportInventory = () => {
+    const message = formatInventoryForExport(entries);
+
+    if (Platform.OS === 'web') {
+      navigator.clipboard.writeText(message);
+      window.alert('Inventory copied to clipboard!');
+    } else {
+      Share.share({ title: 'Step 4 Inventory', message });
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  const renderEntry = (entry: InventoryEntry, index: number) => {
+    const labels = INVENTORY_LABELS[entry.kind];
+
+    return (
+      <View key={entry.id} style={styles.entryCard}>
+        <TouchableOpacity
+          style={styles.entryContent}
+          onPress={() => openEntry(entry)}
+          accessibilityRole="button"
+          accessibilityLabel={`Edit "${entry.subject}"`}
+        >
+          <Text style={styles.entrySubject}>{entry.subject}</Text>
+          {INVENTORY_COLUMNS.slice(1).map((column) =>
+            entry[column] ? (
+              <Text key={column} style={styles.entryDetail}>
+                <Text style={styles.entryLabel}>{labels.columns[column]}: </Text>
+                {entry[column]}
+              </Text>
+            ) : null
+          )}
+        </TouchableOpacity>
+        <View style={styles.moveButtons}>
+          <TouchableOpacity
+            style={styles.moveButton}
+            onPress={() => handleMove(entry, -1)}
+            disabled={index === 0}
+            accessibilityRole="button"
+            accessibilityLabel={`Move "${entry.subject}" up`}
+          >
+            <ChevronUp size={20} color={index === 0 ? theme.border : theme.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.moveButton}
+            onPress={() => handleMove(entry, 1)}
+            disabled={index === kindEntries.length - 1}
+            accessibilityRole="button"
+            accessibilityLabel={`Move "${entry.subject}" down`}
+          >
+            <ChevronDown
+              size={20}
+              color={index === kindEntries.length - 1 ? theme.border : theme.textSecondary}
+            />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderSummary = () => (
+    <>
+      {summarizeInventory(entries).map((summary) => (
+        <View key={summary.kind} style={styles.summaryCard}>
+          <Text style={styles.summaryTitle}>{INVENTORY_LABELS[summary.kind].title}</Text>
+          <Text style={styles.summaryCount}>{summary.count}</Text>
+          <Text style={styles.summaryMeta}>
+            {summary.count === 0
+              ? 'Nothing written yet'
+              : `${summary.withMyPart} of ${summary.count} with my part written`}
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryTitle}>Step {INVENTORY_STEP}</Text>
+        {stepProgress ? (
+          <View style={styles.completedRow}>
+            <CheckCircle size={16} color="#10b981" />
+            <Text style={styles.completedText}>
+              Completed
+              {stepProgress.completed_at
+                ? ` ${new Date(stepProgress.completed_at).toLocaleDateString()}`
+                : ''}
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.summaryMeta}>
+              Mark Step {INVENTORY_STEP} complete when your inventory is finished.
+            </Text>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={completeInventoryStep}
+              disabled={entries.length === 0}
+            >
+              <Text style={styles.secondaryButtonText}>Mark Step {INVENTORY_STEP} Complete</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      <View style={styles.summaryCard}>
+        <Text style={styles.summaryTitle}>Step 5</Text>
+        <Text style={styles.summaryMeta}>
+          Export your inventory to read it through with your sponsor.
+        </Text>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={exportInventory}
+          disabled={entries.length === 0}
+        >
+          <Share2 size={18} color="#ffffff" />
+          <Text style={styles.primaryButtonText}>Export Inventory</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Step 4 Inventory</Text>
+          <Text style={styles.headerSubtitle}>
+            {stepProgress ? 'Step 4 completed' : 'A searching and fearless moral inventory'}
+          </Text>
+        </View>
+      </View>
+
+      <SegmentedControl segments={TABS} activeIndex={activeTab} onChange={setActiveTab} />
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={loadInventory}>
+            <Text style={styles.primaryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {activeKind ? (
+            <>
+              {kindEntries.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  No {INVENTORY_LABELS[activeKind].title.toLowerCase()} written yet.
+                </Text>
+              ) : (
+                kindEntries.map(renderEntry)
+              )}
+              <TouchableOpacity style={styles.primaryButton} onPress={() => openEntry(null)}>
+                <Plus size={18} color="#ffffff" />
+                <Text style={styles.primaryButtonText}>
+                  Add {INVENTORY_LABELS[activeKind].singular}
+                </Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            renderSummary()
+          )}
+        </ScrollView>
+      )}
+
+      {profile && activeKind && (
+        <InventoryEntryModal
+          visible={showEntryModal}
+          userId={profile.id}
+          kind={editingEntry?.kind ?? activeKind}
+          entry={editingEntry}
+          position={kindEntries.length}
+          onClose={() => setShowEntryModal(false)}
+          onSaved={handleSaved}
+          onDelete={handleDelete}
+          theme={theme}
+        />
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 24,
+      paddingTop: 60,
+      backgroundColor: theme.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    backButton: {
+      marginRight: 12,
+      padding: 4,
+    },
+    headerText: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: 28,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    content: {
+      padding: 16,
+    },
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 32,
+    },
+    entryCard: {
+      flexDirection: 'row',
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    entryContent: {
+      flex: 1,
+    },
+    entrySubject: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 4,
+    },
+    entryDetail: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      lineHeight: 20,
+      marginTop: 4,
+    },
+    entryLabel: {
+      fontWeight: '600',
+      color: theme.text,
+    },
+    moveButtons: {
+      justifyContent: 'center',
+      marginLeft: 8,
+    },
+    moveButton: {
+      padding: 4,
+    },
+    summaryCard: {
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    summaryTitle: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    summaryCount: {
+      fontSize: 28,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.primary,
+      marginTop: 4,
+    },
+    summaryMeta: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    completedRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginTop: 8,
+    },
+    completedText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#10b981',
+    },
+    primaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: theme.primary,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderRadius: 12,
+      marginTop: 12,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    secondaryButton: {
+      alignItems: 'center',
+      paddingVertical: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: theme.primary,
+      marginTop: 12,
+    },
+    secondaryButtonText: {
+      fontSize: 15,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+    errorText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+  });
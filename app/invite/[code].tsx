@@ -0,0 +1,207 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import { normalizeInviteCode, redeemInviteCode } from '@/lib/invites';
+import { logger, LogCategory } from '@/lib/logger';
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * Confirms joining a sponsor from an invite link or QR code.
+ *
+ * @remarks
+ * Opened by `sobrietywaypoint://invite/<code>` or the equivalent universal link,
+ * with the code prefilled. Signed-out and not-yet-onboarded users never see it:
+ * the root layout saves the code and redirects them, then reopens this screen
+ * once they are onboarded.
+ *
+ * @returns The invite confirmation screen
+ */
+export default function InviteScreen() {
+  const { code: rawCode } = useLocalSearchParams<{ code: string }>();
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const styles = createStyles(theme);
+  const code = normalizeInviteCode(rawCode ?? '');
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      window.alert(message);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const joinSponsor = async () => {
+    if (!profile) return;
+
+    setIsConnecting(true);
+    try {
+      const result = await redeemInviteCode(code, profile);
+
+      if (result.status === 'rejected') {
+        showAlert('Error', result.reason);
+        return;
+      }
+
+      const { sponsor } = result;
+      const sponsorName = `${sponsor.first_name} ${sponsor.last_initial}.`;
+      if (result.status === 'pending') {
+        showAlert(
+          'Request Sent',
+          `Your request to connect with ${sponsorName} has been sent. You'll be connected once they accept.`
+        );
+      } else {
+        showAlert('Success', `Connected with ${sponsorName}`);
+      }
+      router.replace('/(tabs)/profile');
+    } catch (error: unknown) {
+      logger.error('Join with invite link failed', error as Error, {
+        category: LogCategory.DATABASE,
+      });
+      showAlert(
+        'Error',
+        error instanceof Error ? error.message : 'Network error. Please check your connection.'
+      );
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  if (!profile) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.card}>
+        <Text style={styles.title}>Connect to Your Sponsor</Text>
+        <Text style={styles.description}>
+          You&apos;ve been invited to connect with a sponsor on Sobriety Waypoint. Your sponsor will
+          be able to see your progress and assign you tasks.
+        </Text>
+        <Text style={styles.codeLabel}>Invite code</Text>
+        <Text style={styles.code} testID="invite-code">
+          {code}
+        </Text>
+        <TouchableOpacity
+          style={[styles.connectButton, isConnecting && styles.buttonDisabled]}
+          onPress={joinSponsor}
+          disabled={isConnecting}
+          accessibilityRole="button"
+        >
+          {isConnecting ? (
+            <ActivityIndicator size="small" color={theme.white} />
+          ) : (
+            <Text style={styles.connectText}>Connect</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.cancelButton}
+          onPress={() => router.replace('/(tabs)')}
+          disabled={isConnecting}
+          accessibilityRole="button"
+        >
+          <Text style={styles.cancelText}>Not Now</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      backgroundColor: theme.background,
+    },
+    card: {
+      width: '100%',
+      maxWidth: 420,
+      backgroundColor: theme.card,
+      borderRadius: 16,
+      padding: 24,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    title: {
+      fontSize: 22,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+      marginBottom: 12,
+    },
+    description: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      lineHeight: 20,
+      marginBottom: 20,
+    },
+    codeLabel: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+      textTransform: 'uppercase',
+      marginBottom: 4,
+    },
+    code: {
+      fontSize: 28,
+      fontFamily: theme.fontSemiBold,
+      color: theme.text,
+      letterSpacing: 4,
+      marginBottom: 24,
+    },
+    connectButton: {
+      backgroundColor: theme.primary,
+      borderRadius: 8,
+      paddingVertical: 14,
+      alignItems: 'center',
+    },
+    connectText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.white,
+    },
+    cancelButton: {
+      paddingVertical: 12,
+      alignItems: 'center',
+      marginTop: 8,
+    },
+    cancelText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
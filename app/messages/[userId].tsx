@@ -0,0 +1,441 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ChevronLeft, Send, CheckCheck } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import {
+  createMessage,
+  fetchActiveRelationshipBetween,
+  fetchThreadMessages,
+  markMessageNotificationsRead,
+  markMessagesRead,
+} from '@/lib/repositories';
+import { Message, Profile } from '@/types/database';
+import { formatProfileName } from '@/lib/format';
+import { sendNotification } from '@/lib/notifications';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { mergeRealtimeChange } from '@/lib/realtime';
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** Maximum message length, mirrored by the check constraint on messages.content */
+const MAX_MESSAGE_LENGTH = 4000;
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * Conversation thread between the current user and one sponsor or sponsee.
+ *
+ * @remarks
+ * Messaging is only available while the two users share an active relationship.
+ * Opening the thread marks the partner's unread messages, and the message
+ * notifications they created, as read (sets `read_at`), and sending a message notifies the recipient unless they have turned message
+ * notifications off.
+ *
+ * @returns The message thread screen
+ */
+export default function MessageThreadScreen() {
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const { userId: partnerId } = useLocalSearchParams<{ userId: string }>();
+  const scrollViewRef = useRef<ScrollView>(null);
+
+  const [partner, setPartner] = useState<Profile | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Marks every unread message from the partner as read, along with the
+   * partner's message notifications so the inbox badge stops counting them.
+   * Failures are logged but never surfaced; read receipts are best-effort.
+   */
+  const markThreadRead = useCallback(
+    async (unread: Message[]) => {
+      if (!profile || !partnerId) return;
+
+      const readAt = new Date().toISOString();
+      try {
+        await markMessageNotificationsRead(profile.id, partnerId, readAt);
+      } catch {
+        // Already logged by the repository
+      }
+
+      if (unread.length === 0) return;
+
+      try {
+        await markMessagesRead(
+          unread.map((m) => m.id),
+          readAt
+        );
+      } catch {
+        // Already logged by the repository
+        return;
+      }
+
+      setMessages((current) =>
+        current.map((m) => (unread.some((u) => u.id === m.id) ? { ...m, read_at: readAt } : m))
+      );
+    },
+    [profile, partnerId]
+  );
+
+  const fetchThread = useCallback(async () => {
+    if (!profile || !partnerId) return;
+
+    try {
+      setError(null);
+
+      // Messaging requires an active relationship in either direction
+      const relationship = await fetchActiveRelationshipBetween(profile.id, partnerId);
+
+      if (!relationship) {
+        setPartner(null);
+        setError('You can only message your active sponsor or sponsees.');
+        return;
+      }
+
+      setPartner(
+        (relationship.sponsor_id === profile.id ? relationship.sponsee : relationship.sponsor) ??
+          null
+      );
+
+      const thread = await fetchThreadMessages(profile.id, partnerId);
+      setMessages(thread);
+      await markThreadRead(thread.filter((m) => m.recipient_id === profile.id && !m.read_at));
+    } catch {
+      // Already logged by the repository
+      setError('Failed to load messages');
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, partnerId, markThreadRead]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchThread();
+    }, [fetchThread])
+  );
+
+  // Incoming messages and read receipts for this thread arrive live
+  useRealtimeChanges('messages', ['sender_id', 'recipient_id'], (change) => {
+    if (change.eventType === 'DELETE' || !profile || !partnerId) return;
+
+    const message = change.new;
+    const inThread =
+      (message.sender_id === partnerId && message.recipient_id === profile.id) ||
+      (message.sender_id === profile.id && message.recipient_id === partnerId);
+    if (!inThread) return;
+
+    setMessages((current) => mergeRealtimeChange(current, change, 'end'));
+    if (change.eventType === 'INSERT' && message.recipient_id === profile.id) {
+      markThreadRead([message]);
+    }
+  });
+
+  const sendMessage = async () => {
+    const content = draft.trim();
+    if (!profile || !partner || !content || isSending) return;
+
+    setIsSending(true);
+
+    try {
+      const message = await createMessage(profile.id, partner.id, content);
+
+      // The realtime echo of this insert may arrive first; keep one copy
+      setMessages((current) =>
+        current.some((m) => m.id === message.id) ? current : [...current, message]
+      );
+      setDraft('');
+
+      await sendNotification({
+        user_id: partner.id,
+        type: 'message',
+        title: `New message from ${formatProfileName(profile)}`,
+        content: content.length > 100 ? `${content.slice(0, 97)}...` : content,
+        data: {
+          sender_id: profile.id,
+          message_id: message.id,
+        },
+      });
+    } catch {
+      // Already logged by the repository
+      if (Platform.OS === 'web') {
+        window.alert('Failed to send message');
+      } else {
+        Alert.alert('Error', 'Failed to send message');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {partner ? formatProfileName(partner) : 'Messages'}
+        </Text>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : (
+        <>
+          <ScrollView
+            ref={scrollViewRef}
+            style={styles.thread}
+            contentContainerStyle={styles.threadContent}
+            onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: false })}
+          >
+            {messages.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No messages yet. Start the conversation with {formatProfileName(partner)}.
+              </Text>
+            ) : (
+              messages.map((message) => {
+                const isMine = message.sender_id === profile?.id;
+                return (
+                  <View
+                    key={message.id}
+                    style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleTheirs]}
+                  >
+                    <Text style={[styles.bubbleText, isMine && styles.bubbleTextMine]}>
+                      {message.content}
+                    </Text>
+                    <View style={styles.bubbleMeta}>
+                      <Text style={[styles.bubbleTime, isMine && styles.bubbleTimeMine]}>
+                        {new Date(message.created_at).toLocaleString([], {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit',
+                        })}
+                      </Text>
+                      {isMine && message.read_at && (
+                        <View style={styles.readReceipt} accessibilityLabel="Read">
+                          <CheckCheck size={14} color={theme.white} />
+                          <Text style={styles.readReceiptText}>Read</Text>
+                        </View>
+                      )}
+                    </View>
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+
+          <View style={styles.composer}>
+            <TextInput
+              style={styles.input}
+              value={draft}
+              onChangeText={setDraft}
+              placeholder="Write a message..."
+              placeholderTextColor={theme.textTertiary}
+              multiline
+              maxLength={MAX_MESSAGE_LENGTH}
+              editable={!isSending}
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!draft.trim() || isSending) && styles.buttonDisabled]}
+              onPress={sendMessage}
+              disabled={!draft.trim() || isSending}
+              accessibilityRole="button"
+              accessibilityLabel="Send message"
+            >
+              {isSending ? (
+                <ActivityIndicator size="small" color={theme.white} />
+              ) : (
+                <Send size={20} color={theme.white} />
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 16,
+      paddingTop: 60,
+      backgroundColor: theme.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    backButton: {
+      marginRight: 12,
+      padding: 4,
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    centerContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 24,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.danger,
+      textAlign: 'center',
+    },
+    thread: {
+      flex: 1,
+    },
+    threadContent: {
+      padding: 16,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginTop: 48,
+    },
+    bubble: {
+      maxWidth: '80%',
+      borderRadius: 16,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      marginBottom: 8,
+    },
+    bubbleMine: {
+      alignSelf: 'flex-end',
+      backgroundColor: theme.primary,
+      borderBottomRightRadius: 4,
+    },
+    bubbleTheirs: {
+      alignSelf: 'flex-start',
+      backgroundColor: theme.card,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderBottomLeftRadius: 4,
+    },
+    bubbleText: {
+      fontSize: 15,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+      lineHeight: 21,
+    },
+    bubbleTextMine: {
+      color: theme.white,
+    },
+    bubbleMeta: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+      marginTop: 4,
+    },
+    bubbleTime: {
+      fontSize: 11,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+    },
+    bubbleTimeMine: {
+      color: theme.primaryLight,
+    },
+    readReceipt: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginLeft: 6,
+    },
+    readReceiptText: {
+      fontSize: 11,
+      fontFamily: theme.fontRegular,
+      color: theme.white,
+      marginLeft: 2,
+    },
+    composer: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      padding: 12,
+      paddingBottom: 32,
+      backgroundColor: theme.card,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+    },
+    input: {
+      flex: 1,
+      maxHeight: 120,
+      minHeight: 44,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 22,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      fontSize: 15,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+      backgroundColor: theme.background,
+    },
+    sendButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: theme.primary,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginLeft: 8,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+  });
@@ -0,0 +1,398 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ChevronLeft, MessageCircle } from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import {
+  ConversationSummary,
+  fetchConversationSummaries,
+  fetchSponseeRelationships,
+  fetchSponsorRelationships,
+} from '@/lib/repositories';
+import { Message, Profile, SponsorSponseeRelationship } from '@/types/database';
+import { formatProfileName } from '@/lib/format';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+interface Conversation {
+  /** The other participant in the conversation */
+  partner: Profile;
+  /** Whether the partner is the current user's sponsor or sponsee */
+  role: 'sponsor' | 'sponsee';
+  /** Most recent message exchanged, if any */
+  lastMessage: Message | null;
+  /** Messages from the partner that the current user has not read */
+  unreadCount: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+/**
+ * Builds one conversation per active relationship, ordered by most recent activity.
+ * Relationships without any messages sort to the bottom in their original order.
+ */
+function buildConversations(
+  userId: string,
+  relationships: SponsorSponseeRelationship[],
+  summaries: ConversationSummary[]
+): Conversation[] {
+  const conversations: Conversation[] = [];
+
+  relationships.forEach((rel) => {
+    const isSponsor = rel.sponsor_id === userId;
+    const partner = isSponsor ? rel.sponsee : rel.sponsor;
+    if (!partner) return;
+
+    // Skip duplicates (e.g. two relationships with the same person)
+    if (conversations.some((c) => c.partner.id === partner.id)) return;
+
+    const summary = summaries.find((s) => s.partnerId === partner.id);
+
+    conversations.push({
+      partner,
+      role: isSponsor ? 'sponsee' : 'sponsor',
+      lastMessage: summary?.lastMessage ?? null,
+      unreadCount: summary?.unreadCount ?? 0,
+    });
+  });
+
+  return conversations.sort((a, b) => {
+    if (!a.lastMessage && !b.lastMessage) return 0;
+    if (!a.lastMessage) return 1;
+    if (!b.lastMessage) return -1;
+    return (
+      new Date(b.lastMessage.created_at).getTime() - new Date(a.lastMessage.created_at).getTime()
+    );
+  });
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * Lists a conversation for every active sponsor/sponsee relationship, with the
+ * latest message preview and the number of unread messages from that person.
+ *
+ * @returns The Messages screen
+ */
+export default function MessagesScreen() {
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConversations = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setError(null);
+
+      const asSponsor = await fetchSponseeRelationships(profile.id);
+      const asSponsee = await fetchSponsorRelationships(profile.id);
+      const summaries = await fetchConversationSummaries();
+
+      setConversations(buildConversations(profile.id, [...asSponsee, ...asSponsor], summaries));
+    } catch {
+      // Already logged by the repository
+      setError('Failed to load your conversations');
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchConversations();
+    }, [fetchConversations])
+  );
+
+  // Previews, unread counts and the conversation list update live
+  useRealtimeChanges('messages', ['sender_id', 'recipient_id'], () => {
+    fetchConversations();
+  });
+  useRealtimeChanges('sponsor_sponsee_relationships', ['sponsor_id', 'sponsee_id'], () => {
+    fetchConversations();
+  });
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchConversations();
+    setRefreshing(false);
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Messages</Text>
+          <Text style={styles.headerSubtitle}>Stay in touch with your sponsor and sponsees</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+        }
+      >
+        {loading ? (
+          <View style={styles.centerContainer}>
+            <ActivityIndicator size="large" color={theme.primary} />
+          </View>
+        ) : error ? (
+          <View style={styles.centerContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={fetchConversations}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : conversations.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MessageCircle size={64} color={theme.textTertiary} />
+            <Text style={styles.emptyTitle}>No conversations yet</Text>
+            <Text style={styles.emptyText}>
+              Connect with a sponsor or sponsee from your profile to start messaging.
+            </Text>
+          </View>
+        ) : (
+          conversations.map((conversation) => (
+            <TouchableOpacity
+              key={conversation.partner.id}
+              style={styles.conversationCard}
+              onPress={() => router.push(`/messages/${conversation.partner.id}`)}
+              accessibilityRole="button"
+              accessibilityLabel={`Open conversation with ${formatProfileName(conversation.partner)}`}
+            >
+              <View style={styles.avatar}>
+                <Text style={styles.avatarText}>
+                  {(conversation.partner.first_name || '?')[0].toUpperCase()}
+                </Text>
+              </View>
+              <View style={styles.conversationInfo}>
+                <View style={styles.conversationHeader}>
+                  <Text style={styles.partnerName}>{formatProfileName(conversation.partner)}</Text>
+                  {conversation.lastMessage && (
+                    <Text style={styles.timestamp}>
+                      {new Date(conversation.lastMessage.created_at).toLocaleDateString()}
+                    </Text>
+                  )}
+                </View>
+                <Text style={styles.roleText}>
+                  {conversation.role === 'sponsor' ? 'Your sponsor' : 'Your sponsee'}
+                </Text>
+                <Text
+                  style={[styles.preview, conversation.unreadCount > 0 && styles.previewUnread]}
+                  numberOfLines={1}
+                >
+                  {conversation.lastMessage
+                    ? `${conversation.lastMessage.sender_id === profile?.id ? 'You: ' : ''}${conversation.lastMessage.content}`
+                    : 'No messages yet. Say hello!'}
+                </Text>
+              </View>
+              {conversation.unreadCount > 0 && (
+                <View
+                  style={styles.unreadBadge}
+                  accessibilityLabel={`${conversation.unreadCount} unread`}
+                >
+                  <Text style={styles.unreadBadgeText}>{conversation.unreadCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 24,
+      paddingTop: 60,
+      backgroundColor: theme.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    backButton: {
+      marginRight: 12,
+      padding: 4,
+    },
+    headerTitle: {
+      fontSize: 28,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    content: {
+      flex: 1,
+      padding: 16,
+    },
+    centerContainer: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 48,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.danger,
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    retryButton: {
+      paddingHorizontal: 24,
+      paddingVertical: 12,
+      backgroundColor: theme.primary,
+      borderRadius: 8,
+    },
+    retryText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.white,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 64,
+      paddingHorizontal: 24,
+    },
+    emptyTitle: {
+      fontSize: 18,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      lineHeight: 20,
+    },
+    conversationCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      shadowColor: theme.black,
+      shadowOffset: { width: 0, height: 1 },
+      shadowOpacity: 0.05,
+      shadowRadius: 4,
+      elevation: 2,
+    },
+    avatar: {
+      width: 48,
+      height: 48,
+      borderRadius: 24,
+      backgroundColor: theme.primary,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    avatarText: {
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.white,
+    },
+    conversationInfo: {
+      flex: 1,
+      marginLeft: 12,
+    },
+    conversationHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    partnerName: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    timestamp: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+    },
+    roleText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    preview: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    previewUnread: {
+      color: theme.text,
+      fontWeight: '600',
+    },
+    unreadBadge: {
+      minWidth: 24,
+      height: 24,
+      borderRadius: 12,
+      paddingHorizontal: 6,
+      backgroundColor: theme.primary,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginLeft: 8,
+    },
+    unreadBadgeText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.white,
+    },
+  });
@@ -0,0 +1,432 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, type Href } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+  ChevronLeft,
+  Bell,
+  MessageCircle,
+  ClipboardList,
+  CheckCircle,
+  MessageSquare,
+  Users,
+  Award,
+} from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import {
+  fetchNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '@/lib/repositories';
+import { Notification, NotificationType } from '@/types/database';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { mergeRealtimeChange } from '@/lib/realtime';
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** Maximum number of notifications loaded into the inbox */
+const INBOX_LIMIT = 100;
+
+/** Display order, heading and icon for each notification group */
+const NOTIFICATION_GROUPS: {
+  type: NotificationType;
+  title: string;
+  icon: React.ComponentType<{ size?: number; color?: string }>;
+}[] = [
+  { type: 'message', title: 'Messages', icon: MessageCircle },
+  { type: 'task_assigned', title: 'Assigned Tasks', icon: ClipboardList },
+  { type: 'task_completed', title: 'Completed Tasks', icon: CheckCircle },
+  { type: 'task_feedback', title: 'Task Feedback', icon: MessageSquare },
+  { type: 'connection_request', title: 'Connections', icon: Users },
+  { type: 'milestone', title: 'Milestones', icon: Award },
+];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+/**
+ * Resolves the screen a notification should open from its `data` payload.
+ *
+ * @param notification - The notification being opened
+ * @returns The route to navigate to, or null when there is nothing to open
+ */
+function getNotificationRoute(notification: Notification): Href | null {
+  const data = notification.data ?? {};
+
+  if (notification.type === 'message' && data.sender_id) {
+    return `/messages/${data.sender_id}`;
+  }
+  if (data.task_id || notification.type === 'task_assigned') return '/tasks';
+  if (data.step_number) return '/steps';
+  if (data.relationship_id || data.sponsor_id || data.sponsee_id) return '/profile';
+  if (notification.type === 'milestone') return '/journey';
+
+  return null;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * Inbox of every notification written for the current user, grouped by type.
+ *
+ * @remarks
+ * Opening a notification marks it read (sets `read_at`) and navigates to the
+ * related screen when the payload identifies one. "Mark all read" clears the
+ * unread badge without opening anything.
+ *
+ * @returns The Notifications screen
+ */
+export default function NotificationsScreen() {
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadNotifications = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      setError(null);
+
+      setNotifications(await fetchNotifications(profile.id, INBOX_LIMIT));
+    } catch {
+      setError('Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [profile]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadNotifications();
+    }, [loadNotifications])
+  );
+
+  // New notifications appear at the top while the inbox is open
+  useRealtimeChanges('notifications', ['user_id'], (change) => {
+    setNotifications((current) => mergeRealtimeChange(current, change));
+  });
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadNotifications();
+    setRefreshing(false);
+  };
+
+  /**
+   * Marks a single notification read, then opens the screen it refers to.
+   * A failed read update is logged but does not block navigation.
+   */
+  const openNotification = async (notification: Notification) => {
+    if (!notification.read_at) {
+      const readAt = new Date().toISOString();
+      try {
+        await markNotificationRead(notification.id, readAt);
+        setNotifications((current) =>
+          current.map((n) => (n.id === notification.id ? { ...n, read_at: readAt } : n))
+        );
+      } catch {
+        // Already logged by the repository
+      }
+    }
+
+    const route = getNotificationRoute(notification);
+    if (route) router.push(route);
+  };
+
+  const markAllRead = async () => {
+    if (!profile) return;
+
+    try {
+      const readAt = new Date().toISOString();
+      await markAllNotificationsRead(profile.id, readAt);
+
+      setNotifications((current) =>
+        current.map((n) => (n.read_at ? n : { ...n, read_at: readAt }))
+      );
+    } catch {
+      // Already logged by the repository
+    }
+  };
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+  const groups = NOTIFICATION_GROUPS.map((group) => ({
+    ...group,
+    items: notifications.filter((n) => n.type === group.type),
+  })).filter((group) => group.items.length > 0);
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.headerTitle}>Notifications</Text>
+          <Text style={styles.headerSubtitle}>
+            {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+          </Text>
+        </View>
+        {unreadCount > 0 && (
+          <TouchableOpacity
+            style={styles.markAllButton}
+            onPress={markAllRead}
+            accessibilityRole="button"
+            accessibilityLabel="Mark all notifications read"
+          >
+            <Text style={styles.markAllText}>Mark all read</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+        }
+      >
+        {loading ? (
+          <View style={styles.centerContainer}>
+            <ActivityIndicator size="large" color={theme.primary} />
+          </View>
+        ) : error ? (
+          <View style={styles.centerContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={loadNotifications}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
+          </View>
+        ) : groups.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Bell size={64} color={theme.textTertiary} />
+            <Text style={styles.emptyTitle}>No notifications yet</Text>
+            <Text style={styles.emptyText}>
+              Task updates, messages and connection changes will show up here.
+            </Text>
+          </View>
+        ) : (
+          groups.map((group) => {
+            const GroupIcon = group.icon;
+            return (
+              <View key={group.type} style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <GroupIcon size={18} color={theme.primary} />
+                  <Text style={styles.sectionTitle}>{group.title}</Text>
+                </View>
+                {group.items.map((notification) => (
+                  <TouchableOpacity
+                    key={notification.id}
+                    style={[styles.notificationCard, !notification.read_at && styles.unreadCard]}
+                    onPress={() => openNotification(notification)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`${notification.read_at ? '' : 'Unread: '}${notification.title}`}
+                  >
+                    <View style={styles.notificationInfo}>
+                      <Text
+                        style={[
+                          styles.notificationTitle,
+                          !notification.read_at && styles.notificationTitleUnread,
+                        ]}
+                      >
+                        {notification.title}
+                      </Text>
+                      <Text style={styles.notificationContent} numberOfLines={2}>
+                        {notification.content}
+                      </Text>
+                      <Text style={styles.timestamp}>
+                        {new Date(notification.created_at).toLocaleDateString()}
+                      </Text>
+                    </View>
+                    {!notification.read_at && <View style={styles.unreadDot} />}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 24,
+      paddingTop: 60,
+      backgroundColor: theme.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    backButton: {
+      marginRight: 12,
+      padding: 4,
+    },
+    headerText: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: 28,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    headerSubtitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    markAllButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      backgroundColor: theme.primaryLight,
+    },
+    markAllText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    content: {
+      flex: 1,
+      padding: 16,
+    },
+    centerContainer: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 48,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.danger,
+      textAlign: 'center',
+      marginBottom: 16,
+    },
+    retryButton: {
+      paddingHorizontal: 24,
+      paddingVertical: 12,
+      backgroundColor: theme.primary,
+      borderRadius: 8,
+    },
+    retryText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.white,
+    },
+    emptyState: {
+      alignItems: 'center',
+      paddingVertical: 64,
+      paddingHorizontal: 24,
+    },
+    emptyTitle: {
+      fontSize: 18,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      lineHeight: 20,
+    },
+    section: {
+      marginBottom: 24,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 12,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginLeft: 8,
+    },
+    notificationCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    unreadCard: {
+      borderColor: theme.primary,
+    },
+    notificationInfo: {
+      flex: 1,
+    },
+    notificationTitle: {
+      fontSize: 15,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    notificationTitleUnread: {
+      fontWeight: '700',
+    },
+    notificationContent: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+      lineHeight: 20,
+    },
+    timestamp: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+      marginTop: 6,
+    },
+    unreadDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      backgroundColor: theme.primary,
+      marginLeft: 12,
+    },
+  });
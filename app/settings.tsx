@@ -39,7 +39,14 @@ import {
   AlertCircle,
   Info,
   Copy,
+  Bell,
+  CheckSquare,
+  MessageCircle,
+  Award,
+  Clock,
+  UserCheck,
 } from 'lucide-react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import * as Clipboard from 'expo-clipboard';
 import Constants from 'expo-constants';
 import * as Updates from 'expo-updates';
@@ -47,6 +54,12 @@ import * as Device from 'expo-device';
 import * as Application from 'expo-application';
 import { useAppUpdates } from '@/hooks/useAppUpdates';
 import { logger, LogCategory } from '@/lib/logger';
+import { updateProfile } from '@/lib/repositories';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationPreferences,
+} from '@/lib/notifications';
+import { formatReminderTime, parseReminderTime } from '@/lib/local-notifications';
 import packageJson from '../package.json';
 
 // Enable LayoutAnimation on Android
@@ -211,6 +224,39 @@ const EXTERNAL_LINKS = {
  */
 const HEADER_BUTTON_WIDTH = 44;
 
+/** Label, description and icon for each notification preference toggle */
+const NOTIFICATION_PREFERENCE_OPTIONS: {
+  key: keyof NotificationPreferences;
+  label: string;
+  description: string;
+  icon: React.ComponentType<{ size?: number; color?: string }>;
+}[] = [
+  {
+    key: 'tasks',
+    label: 'Tasks',
+    description: 'Assigned and completed tasks',
+    icon: CheckSquare,
+  },
+  {
+    key: 'messages',
+    label: 'Messages',
+    description: 'New messages from your sponsor or sponsees',
+    icon: MessageCircle,
+  },
+  {
+    key: 'milestones',
+    label: 'Milestones',
+    description: 'Milestones and sponsee slip-ups',
+    icon: Award,
+  },
+  {
+    key: 'daily',
+    label: 'Daily Reminders',
+    description: 'A daily check-in reminder',
+    icon: Bell,
+  },
+];
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -233,13 +279,20 @@ const HEADER_BUTTON_WIDTH = 44;
  * ```
  */
 export default function SettingsScreen() {
-  const { signOut, deleteAccount } = useAuth();
+  const { signOut, deleteAccount, profile, refreshProfile } = useAuth();
   const { theme, themeMode, setThemeMode } = useTheme();
   const router = useRouter();
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDangerZoneExpanded, setIsDangerZoneExpanded] = useState(false);
   const [isBuildInfoExpanded, setIsBuildInfoExpanded] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [showReminderTimePicker, setShowReminderTimePicker] = useState(false);
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(
+    () => ({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...profile?.notification_preferences })
+  );
+  const [requireConnectionApproval, setRequireConnectionApproval] = useState(
+    () => profile?.require_connection_approval ?? false
+  );
   const buildInfo = getBuildInfo();
   const {
     status: updateStatus,
@@ -412,6 +465,76 @@ export default function SettingsScreen() {
     }
   };
 
+  /**
+   * Flips one notification preference and saves it to the user's profile.
+   * The toggle updates immediately and is reverted if the save fails.
+   */
+  const toggleNotificationPreference = async (key: keyof NotificationPreferences) => {
+    if (!profile) return;
+
+    const previous = notificationPreferences;
+    const next = { ...previous, [key]: !previous[key] };
+    setNotificationPreferences(next);
+
+    try {
+      await updateProfile(profile.id, { notification_preferences: next });
+      await refreshProfile();
+    } catch {
+      // Already logged by the repository
+      setNotificationPreferences(previous);
+      if (Platform.OS === 'web') {
+        window.alert('Failed to update notification preferences');
+      } else {
+        Alert.alert('Error', 'Failed to update notification preferences');
+      }
+    }
+  };
+
+  /**
+   * Turns approval of new sponsees on or off. While on, anyone redeeming one of
+   * the user's invite codes waits as a pending request until the user accepts.
+   * The toggle updates immediately and is reverted if the save fails.
+   */
+  const toggleConnectionApproval = async () => {
+    if (!profile) return;
+
+    const next = !requireConnectionApproval;
+    setRequireConnectionApproval(next);
+
+    try {
+      await updateProfile(profile.id, { require_connection_approval: next });
+      await refreshProfile();
+    } catch {
+      // Already logged by the repository
+      setRequireConnectionApproval(!next);
+      if (Platform.OS === 'web') {
+        window.alert('Failed to update connection approval');
+      } else {
+        Alert.alert('Error', 'Failed to update connection approval');
+      }
+    }
+  };
+
+  /**
+   * Saves the local time of the daily reminder. The reminder is rescheduled
+   * once the refreshed profile reaches the notification scheduler.
+   */
+  const updateDailyReminderTime = async (date: Date) => {
+    if (!profile) return;
+
+    try {
+      await updateProfile(profile.id, { daily_reminder_time: formatReminderTime(date) });
+      await refreshProfile();
+    } catch {
+      // Already logged by the repository
+      if (Platform.OS === 'web') {
+        window.alert('Failed to update reminder time');
+      } else {
+        Alert.alert('Error', 'Failed to update reminder time');
+      }
+    }
+  };
+
   /**
    * Safely opens an external URL with error handling.
    * Logs errors to Sentry if the URL fails to open.
@@ -430,6 +553,10 @@ export default function SettingsScreen() {
 
   const styles = useMemo(() => createStyles(theme), [theme]);
 
+  const reminderTime = parseReminderTime(profile?.daily_reminder_time);
+  const reminderTimeDate = new Date();
+  reminderTimeDate.setHours(reminderTime.hour, reminderTime.minute, 0, 0);
+
   return (
     <View style={styles.outerContainer}>
       <Stack.Screen options={{ headerShown: false }} />
@@ -528,6 +655,110 @@ export default function SettingsScreen() {
             </View>
           </View>
 
+          {profile && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Notifications</Text>
+              <View style={styles.card}>
+                {NOTIFICATION_PREFERENCE_OPTIONS.map((option, index) => {
+                  const OptionIcon = option.icon;
+                  const enabled = notificationPreferences[option.key];
+                  return (
+                    <React.Fragment key={option.key}>
+                      {index > 0 && <View style={styles.separator} />}
+                      <TouchableOpacity
+                        style={styles.menuItem}
+                        onPress={() => toggleNotificationPreference(option.key)}
+                        accessibilityRole="switch"
+                        accessibilityState={{ checked: enabled }}
+                        accessibilityLabel={`${option.label} notifications`}
+                      >
+                        <View style={styles.menuItemLeft}>
+                          <OptionIcon size={20} color={theme.textSecondary} />
+                          <View>
+                            <Text style={styles.menuItemText}>{option.label}</Text>
+                            <Text style={styles.menuItemDescription}>{option.description}</Text>
+                          </View>
+                        </View>
+                        <View style={[styles.toggleTrack, enabled && styles.toggleTrackOn]}>
+                          <View style={[styles.toggleThumb, enabled && styles.toggleThumbOn]} />
+                        </View>
+                      </TouchableOpacity>
+                    </React.Fragment>
+                  );
+                })}
+                {/* Local reminders are native-only */}
+                {Platform.OS !== 'web' && notificationPreferences.daily && (
+                  <>
+                    <View style={styles.separator} />
+                    <TouchableOpacity
+                      style={styles.menuItem}
+                      onPress={() => setShowReminderTimePicker(true)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Change daily reminder time"
+                    >
+                      <View style={styles.menuItemLeft}>
+                        <Clock size={20} color={theme.textSecondary} />
+                        <Text style={styles.menuItemText}>Reminder Time</Text>
+                      </View>
+                      <Text style={styles.menuItemValue}>
+                        {reminderTimeDate.toLocaleTimeString([], {
+                          hour: 'numeric',
+                          minute: '2-digit',
+                        })}
+                      </Text>
+                    </TouchableOpacity>
+                    {showReminderTimePicker && (
+                      <DateTimePicker
+                        value={reminderTimeDate}
+                        mode="time"
+                        display="default"
+                        onChange={(event, date) => {
+                          setShowReminderTimePicker(false);
+                          if (event.type === 'set' && date) updateDailyReminderTime(date);
+                        }}
+                      />
+                    )}
+                  </>
+                )}
+              </View>
+            </View>
+          )}
+
+          {profile && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Connections</Text>
+              <View style={styles.card}>
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  onPress={toggleConnectionApproval}
+                  accessibilityRole="switch"
+                  accessibilityState={{ checked: requireConnectionApproval }}
+                  accessibilityLabel="Approve new sponsees"
+                >
+                  <View style={styles.menuItemLeft}>
+                    <UserCheck size={20} color={theme.textSecondary} />
+                    <View>
+                      <Text style={styles.menuItemText}>Approve New Sponsees</Text>
+                      <Text style={styles.menuItemDescription}>
+                        Accept or decline each invite code redemption
+                      </Text>
+                    </View>
+                  </View>
+                  <View
+                    style={[styles.toggleTrack, requireConnectionApproval && styles.toggleTrackOn]}
+                  >
+                    <View
+                      style={[
+                        styles.toggleThumb,
+                        requireConnectionApproval && styles.toggleThumbOn,
+                      ]}
+                    />
+                  </View>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>About</Text>
             <View style={styles.card}>
@@ -1064,6 +1295,36 @@ const createStyles = (theme: ReturnType<typeof useTheme>['theme']) =>
       fontFamily: theme.fontRegular,
       color: theme.text,
     },
+    menuItemValue: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.primary,
+    },
+    menuItemDescription: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+      marginTop: 2,
+    },
+    toggleTrack: {
+      width: 44,
+      height: 26,
+      borderRadius: 13,
+      padding: 3,
+      backgroundColor: theme.border,
+    },
+    toggleTrackOn: {
+      backgroundColor: theme.primary,
+    },
+    toggleThumb: {
+      width: 20,
+      height: 20,
+      borderRadius: 10,
+      backgroundColor: theme.white,
+    },
+    toggleThumbOn: {
+      alignSelf: 'flex-end',
+    },
     separator: {
       height: 1,
       backgroundColor: theme.borderLight,
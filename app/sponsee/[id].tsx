@@ -0,0 +1,638 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+  AlertCircle,
+  Calendar,
+  Check,
+  ChevronLeft,
+  Heart,
+  MessageCircle,
+  Plus,
+} from 'lucide-react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import {
+  fetchActiveRelationshipBetween,
+  fetchSharedAmends,
+  fetchSharedCheckIns,
+  fetchSharedSlipUps,
+  fetchSharedStepAnswers,
+  fetchSharedStepProgress,
+  fetchTasksBetween,
+} from '@/lib/repositories';
+import { useDaysSober } from '@/hooks/useDaysSober';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import TaskCreationModal from '@/components/TaskCreationModal';
+import { formatProfileName } from '@/lib/format';
+import { formatDateWithTimezone, getUserTimezone, parseDateAsLocal } from '@/lib/date';
+import { getCompletedStepNumbers, groupSponseeTasks } from '@/lib/sponsee-progress';
+import { AMENDS_STATUS_LABELS } from '@/lib/amends';
+import { CHECK_IN_SUMMARY_DAYS, HALT_FLAGS, MOOD_LABELS, summarizeCheckIns } from '@/lib/check-ins';
+import type {
+  AmendsEntry,
+  SharedCheckIn,
+  SlipUp,
+  SponsorSponseeRelationship,
+  StepAnswer,
+  Task,
+} from '@/types/database';
+
+// =============================================================================
+// Constants
+// =============================================================================
+const STEP_NUMBERS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+// =============================================================================
+// Component
+// =============================================================================
+/**
+ * A sponsor's working view of one sponsee: their current streak, progress
+ * through the 12 steps, overdue and upcoming tasks, recent completion notes,
+ * the step worksheet answers they chose to share, their amends list, a summary
+ * of their daily check-ins and their slip-up history.
+ *
+ * @remarks
+ * Only available while the current user is the sponsee's active sponsor, and
+ * each section only shows what the sponsee shares with them.
+ * Dates are shown in the sponsee's timezone, since that is when their tasks
+ * fall due. The sponsor can assign a task or open the message thread from here.
+ *
+ * @returns The sponsee dashboard screen
+ */
+export default function SponseeDashboardScreen() {
+  const { profile } = useAuth();
+  const { theme } = useTheme();
+  const router = useRouter();
+  const { id: sponseeId } = useLocalSearchParams<{ id: string }>();
+  const { daysSober, journeyDays, hasSlipUps, currentStreakStartDate } = useDaysSober(sponseeId);
+
+  const [relationship, setRelationship] = useState<SponsorSponseeRelationship | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [completedSteps, setCompletedSteps] = useState<number[]>([]);
+  const [slipUps, setSlipUps] = useState<SlipUp[]>([]);
+  const [stepAnswers, setStepAnswers] = useState<StepAnswer[]>([]);
+  const [amends, setAmends] = useState<AmendsEntry[]>([]);
+  const [checkIns, setCheckIns] = useState<SharedCheckIn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showTaskModal, setShowTaskModal] = useState(false);
+
+  const fetchDashboard = useCallback(async () => {
+    if (!profile || !sponseeId) return;
+
+    try {
+      setError(null);
+
+      const found = await fetchActiveRelationshipBetween(profile.id, sponseeId);
+      if (!found || found.sponsor_id !== profile.id) {
+        setRelationship(null);
+        setError('You can only view the dashboard of your active sponsees.');
+        return;
+      }
+      setRelationship(found);
+
+      // Progress, step work, amends, check-ins and slip-ups are only fetched when the sponsee shares them
+      const [pairTasks, stepProgress, sharedAnswers, sharedAmends, sharedCheckIns, sharedSlipUps] =
+        await Promise.all([
+          fetchTasksBetween(profile.id, sponseeId),
+          found.share_step_progress ? fetchSharedStepProgress(sponseeId) : [],
+          found.share_notes ? fetchSharedStepAnswers(sponseeId) : [],
+          found.share_amends ? fetchSharedAmends(sponseeId) : [],
+          found.share_check_ins ? fetchSharedCheckIns(sponseeId) : [],
+          found.share_slip_ups ? fetchSharedSlipUps(sponseeId) : [],
+        ]);
+      setTasks(pairTasks);
+      setCompletedSteps(getCompletedStepNumbers(stepProgress));
+      setStepAnswers(sharedAnswers);
+      setAmends(sharedAmends);
+      setCheckIns(sharedCheckIns);
+      setSlipUps(sharedSlipUps);
+    } catch {
+      // Already logged by the repository
+      setError('Failed to load sponsee progress');
+    } finally {
+      setLoading(false);
+    }
+  }, [profile, sponseeId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      fetchDashboard();
+    }, [fetchDashboard])
+  );
+
+  // Task progress and sharing changes by the sponsee show up live
+  useRealtimeChanges('tasks', ['sponsor_id'], () => {
+    fetchDashboard();
+  });
+  useRealtimeChanges('sponsor_sponsee_relationships', ['sponsor_id'], () => {
+    fetchDashboard();
+  });
+
+  const styles = createStyles(theme);
+  const sponsee = relationship?.sponsee;
+  const sponseeName = sponsee ? formatProfileName(sponsee) : 'Sponsee';
+  const sponseeTimezone = getUserTimezone(sponsee);
+  const sponseeToday = formatDateWithTimezone(new Date(), sponseeTimezone);
+  const { overdue, upcoming, recentNotes } = groupSponseeTasks(tasks, sponseeToday);
+  const checkInSummary = summarizeCheckIns(checkIns, sponseeToday);
+  const raisedHalt = HALT_FLAGS.filter(({ flag }) => checkInSummary.halt[flag] > 0);
+
+  const formatDay = (date: string) =>
+    parseDateAsLocal(date, sponseeTimezone).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  const renderTask = (task: Task, isOverdue: boolean) => (
+    <View key={task.id} style={[styles.taskRow, isOverdue && styles.taskRowOverdue]}>
+      <View style={styles.taskInfo}>
+        <Text style={styles.taskTitle}>{task.title}</Text>
+        <Text style={[styles.taskMeta, isOverdue && styles.taskMetaOverdue]}>
+          {task.step_number ? `Step ${task.step_number} · ` : ''}
+          {task.due_date ? `Due ${formatDay(task.due_date)}` : 'No due date'}
+          {task.status === 'in_progress' ? ' · In progress' : ''}
+        </Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+        >
+          <ChevronLeft size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {sponseeName}
+        </Text>
+        {relationship && (
+          <TouchableOpacity
+            style={styles.headerAction}
+            onPress={() => router.push(`/messages/${relationship.sponsee_id}`)}
+            accessibilityRole="button"
+            accessibilityLabel={`Message ${sponseeName}`}
+          >
+            <MessageCircle size={22} color={theme.primary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.card}>
+            {relationship?.share_sobriety_date ? (
+              <>
+                <View style={styles.streakRow}>
+                  <Heart size={28} color={theme.primary} fill={theme.primary} />
+                  <Text style={styles.streakDays}>{daysSober}</Text>
+                  <Text style={styles.streakLabel}>days sober</Text>
+                </View>
+                {currentStreakStartDate && (
+                  <Text style={styles.cardMeta}>
+                    Current streak since {formatDay(currentStreakStartDate)}
+                  </Text>
+                )}
+                {hasSlipUps && (
+                  <Text style={styles.cardMeta}>{journeyDays} days on the journey</Text>
+                )}
+              </>
+            ) : (
+              <Text style={styles.emptyText}>
+                {sponseeName} has not chosen to share their sobriety date.
+              </Text>
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Step Progress</Text>
+          <View style={styles.card}>
+            {relationship?.share_step_progress ? (
+              <>
+                <Text style={styles.cardMeta}>{completedSteps.length} of 12 steps completed</Text>
+                <View style={styles.stepGrid}>
+                  {STEP_NUMBERS.map((step) => {
+                    const done = completedSteps.includes(step);
+                    return (
+                      <View
+                        key={step}
+                        style={[styles.stepBadge, done && styles.stepBadgeDone]}
+                        accessibilityLabel={`Step ${step} ${done ? 'completed' : 'not completed'}`}
+                      >
+                        {done ? (
+                          <Check size={14} color={theme.white} />
+                        ) : (
+                          <Text style={styles.stepNumber}>{step}</Text>
+                        )}
+                      </View>
+                    );
+                  })}
+                </View>
+              </>
+            ) : (
+              <Text style={styles.emptyText}>
+                {sponseeName} has not chosen to share their step progress.
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Tasks</Text>
+            <TouchableOpacity
+              style={styles.assignButton}
+              onPress={() => setShowTaskModal(true)}
+              accessibilityRole="button"
+              accessibilityLabel={`Assign a task to ${sponseeName}`}
+            >
+              <Plus size={16} color={theme.white} />
+              <Text style={styles.assignText}>Assign</Text>
+            </TouchableOpacity>
+          </View>
+          {overdue.length > 0 && (
+            <View style={styles.card}>
+              <View style={styles.subsectionHeader}>
+                <AlertCircle size={16} color={theme.danger} />
+                <Text style={[styles.subsectionTitle, styles.overdueTitle]}>
+                  Overdue ({overdue.length})
+                </Text>
+              </View>
+              {overdue.map((task) => renderTask(task, true))}
+            </View>
+          )}
+          <View style={styles.card}>
+            <View style={styles.subsectionHeader}>
+              <Calendar size={16} color={theme.textSecondary} />
+              <Text style={styles.subsectionTitle}>Upcoming ({upcoming.length})</Text>
+            </View>
+            {upcoming.length === 0 ? (
+              <Text style={styles.emptyText}>No open tasks.</Text>
+            ) : (
+              upcoming.map((task) => renderTask(task, false))
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Recent Notes</Text>
+          <View style={styles.card}>
+            {!relationship?.share_notes ? (
+              <Text style={styles.emptyText}>
+                {sponseeName} has not chosen to share their notes.
+              </Text>
+            ) : recentNotes.length === 0 ? (
+              <Text style={styles.emptyText}>No completion notes yet.</Text>
+            ) : (
+              recentNotes.map((task) => (
+                <View key={task.id} style={styles.noteRow}>
+                  <Text style={styles.taskTitle}>{task.title}</Text>
+                  {task.completed_at && (
+                    <Text style={styles.taskMeta}>
+                      Completed{' '}
+                      {new Date(task.completed_at).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                    </Text>
+                  )}
+                  <Text style={styles.noteText}>{task.completion_notes}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Step Work</Text>
+          <View style={styles.card}>
+            {!relationship?.share_notes ? (
+              <Text style={styles.emptyText}>
+                {sponseeName} has not chosen to share their step reflections.
+              </Text>
+            ) : stepAnswers.length === 0 ? (
+              <Text style={styles.emptyText}>No worksheet answers shared yet.</Text>
+            ) : (
+              stepAnswers.map((answer) => (
+                <View key={answer.id} style={styles.noteRow}>
+                  <Text style={styles.taskMeta}>Step {answer.step_number}</Text>
+                  <Text style={styles.taskTitle}>{answer.prompt}</Text>
+                  <Text style={styles.noteText}>{answer.answer}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Amends</Text>
+          <View style={styles.card}>
+            {!relationship?.share_amends ? (
+              <Text style={styles.emptyText}>
+                {sponseeName} has not chosen to share their amends list.
+              </Text>
+            ) : amends.length === 0 ? (
+              <Text style={styles.emptyText}>No one on the amends list yet.</Text>
+            ) : (
+              amends.map((entry) => (
+                <View key={entry.id} style={styles.noteRow}>
+                  <Text style={styles.taskTitle}>{entry.person}</Text>
+                  <Text style={styles.taskMeta}>
+                    {AMENDS_STATUS_LABELS[entry.status].label}
+                    {entry.made_at
+                      ? ` ${new Date(entry.made_at).toLocaleDateString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric',
+                        })}`
+                      : ''}
+                  </Text>
+                  {entry.harm ? <Text style={styles.noteText}>{entry.harm}</Text> : null}
+                  {entry.deferred_reason ? (
+                    <Text style={styles.noteText}>{entry.deferred_reason}</Text>
+                  ) : null}
+                </View>
+              ))
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Daily Check-Ins</Text>
+          <View style={styles.card}>
+            {!relationship?.share_check_ins ? (
+              <Text style={styles.emptyText}>
+                {sponseeName} has not chosen to share their check-ins.
+              </Text>
+            ) : checkIns.length === 0 ? (
+              <Text style={styles.emptyText}>No check-ins yet.</Text>
+            ) : (
+              <View style={styles.noteRow}>
+                <Text style={styles.taskTitle}>
+                  {checkInSummary.streak === 1
+                    ? '1-day check-in streak'
+                    : `${checkInSummary.streak}-day check-in streak`}
+                </Text>
+                <Text style={styles.taskMeta}>
+                  Checked in {checkInSummary.daysCheckedIn} of the last {CHECK_IN_SUMMARY_DAYS} days
+                </Text>
+                {checkInSummary.averageMood !== null ? (
+                  <Text style={styles.noteText}>
+                    Average mood: {MOOD_LABELS[Math.round(checkInSummary.averageMood)]}
+                  </Text>
+                ) : null}
+                <Text style={styles.noteText}>
+                  {raisedHalt.length === 0
+                    ? 'No HALT flags raised'
+                    : `HALT: ${raisedHalt
+                        .map(({ flag, label }) => `${label} ${checkInSummary.halt[flag]}`)
+                        .join(', ')}`}
+                </Text>
+              </View>
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Slip-Ups</Text>
+          <View style={styles.card}>
+            {!relationship?.share_slip_ups ? (
+              <Text style={styles.emptyText}>
+                {sponseeName} has not chosen to share their slip-up history.
+              </Text>
+            ) : slipUps.length === 0 ? (
+              <Text style={styles.emptyText}>No slip-ups recorded.</Text>
+            ) : (
+              slipUps.map((slipUp) => (
+                <View key={slipUp.id} style={styles.noteRow}>
+                  <Text style={styles.taskTitle}>{formatDay(slipUp.slip_up_date)}</Text>
+                  <Text style={styles.taskMeta}>
+                    Restarted {formatDay(slipUp.recovery_restart_date)}
+                  </Text>
+                  {relationship.share_slip_up_notes && slipUp.notes ? (
+                    <Text style={styles.noteText}>{slipUp.notes}</Text>
+                  ) : null}
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      {profile && sponsee && (
+        <TaskCreationModal
+          visible={showTaskModal}
+          onClose={() => setShowTaskModal(false)}
+          onTaskCreated={fetchDashboard}
+          sponsorId={profile.id}
+          sponsees={[sponsee]}
+          preselectedSponseeId={sponsee.id}
+          theme={theme}
+        />
+      )}
+    </View>
+  );
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 16,
+      paddingTop: 60,
+      backgroundColor: theme.card,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    backButton: {
+      marginRight: 12,
+      padding: 4,
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    headerAction: {
+      padding: 4,
+      marginLeft: 12,
+    },
+    centerContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 24,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.danger,
+      textAlign: 'center',
+    },
+    content: {
+      padding: 16,
+      paddingBottom: 48,
+    },
+    card: {
+      backgroundColor: theme.card,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: theme.border,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardMeta: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    streakRow: {
+      flexDirection: 'row',
+      alignItems: 'baseline',
+      gap: 8,
+    },
+    streakDays: {
+      fontSize: 36,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    streakLabel: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+      marginBottom: 8,
+    },
+    subsectionHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginBottom: 4,
+    },
+    subsectionTitle: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    overdueTitle: {
+      color: theme.danger,
+    },
+    stepGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginTop: 12,
+    },
+    stepBadge: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    stepBadgeDone: {
+      backgroundColor: theme.success,
+      borderColor: theme.success,
+    },
+    stepNumber: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    assignButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+      marginBottom: 8,
+    },
+    assignText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.white,
+    },
+    taskRow: {
+      borderTopWidth: 1,
+      borderTopColor: theme.borderLight,
+      paddingVertical: 10,
+    },
+    taskRowOverdue: {
+      borderTopColor: theme.dangerBorder,
+    },
+    taskInfo: {
+      flex: 1,
+    },
+    taskTitle: {
+      fontSize: 15,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    taskMeta: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+      marginTop: 2,
+    },
+    taskMetaOverdue: {
+      color: theme.danger,
+    },
+    noteRow: {
+      paddingVertical: 8,
+    },
+    noteText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      paddingVertical: 4,
+    },
+  });
@@ -0,0 +1,424 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { createAmends, updateAmends, type AmendsEntryFields } from '@/lib/repositories';
+import { AMENDS_STATUSES, AMENDS_STATUS_LABELS } from '@/lib/amends';
+import { AmendsEntry } from '@/types/database';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { X } from 'lucide-react-native';
+
+interface AmendsEntryModalProps {
+  visible: boolean;
+  /** The signed-in user's profile ID */
+  userId: string;
+  /** The entry to edit, or null to add someone to the list */
+  entry: AmendsEntry | null;
+  onClose: () => void;
+  /** Called with the entry once it is added or saved */
+  onSaved: (entry: AmendsEntry) => void;
+  /** Called when the user asks to delete the entry being edited */
+  onDelete: (entry: AmendsEntry) => void;
+  theme: ThemeColors;
+}
+
+const EMPTY_FIELDS: AmendsEntryFields = {
+  person: '',
+  harm: '',
+  approach: '',
+  status: 'willing',
+  deferred_reason: '',
+};
+
+/**
+ * Form for adding someone to the amends list or updating where their amends
+ * stands. Deferring an amends asks why making it would injure someone.
+ *
+ * @param props - The entry to edit, and handlers
+ * @returns The amends modal
+ *
+ * @example
+ * ```tsx
+ * <AmendsEntryModal
+ *   visible={showEntryModal}
+ *   userId={profile.id}
+ *   entry={editingEntry}
+ *   onClose={() => setShowEntryModal(false)}
+ *   onSaved={handleSaved}
+ *   onDelete={handleDelete}
+ *   theme={theme}
+ * />
+ * ```
+ */
+export default function AmendsEntryModal({
+  visible,
+  userId,
+  entry,
+  onClose,
+  onSaved,
+  onDelete,
+  theme,
+}: AmendsEntryModalProps) {
+  const [fields, setFields] = useState<AmendsEntryFields>(EMPTY_FIELDS);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setError('');
+    setFields(
+      entry
+        ? {
+            person: entry.person,
+            harm: entry.harm,
+            approach: entry.approach,
+            status: entry.status,
+            deferred_reason: entry.deferred_reason,
+          }
+        : EMPTY_FIELDS
+    );
+  }, [visible, entry]);
+
+  const isDeferred = fields.status === 'deferred';
+
+  const handleSave = async () => {
+    setError('');
+    const trimmed: AmendsEntryFields = {
+      person: fields.person.trim(),
+      harm: fields.harm.trim(),
+      approach: fields.approach.trim(),
+      status: fields.status,
+      deferred_reason: isDeferred ? fields.deferred_reason.trim() : '',
+    };
+
+    if (!trimmed.person) {
+      setError('Please enter who the amends is owed to');
+      return;
+    }
+
+    if (isDeferred && !trimmed.deferred_reason) {
+      setError('Please explain why making this amends would injure them or others');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const saved = entry
+        ? await updateAmends(entry.id, trimmed)
+        : await createAmends({ ...trimmed, user_id: userId });
+      onSaved(saved);
+      onClose();
+    } catch {
+      // Already logged by the repository
+      setError('Failed to save this amends. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{entry ? 'Edit Amends' : 'Add to Amends List'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null}
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Person *</Text>
+              <TextInput
+                style={styles.input}
+                value={fields.person}
+                onChangeText={(person) => setFields((current) => ({ ...current, person }))}
+                accessibilityLabel="Person"
+                placeholder="Who the amends is owed to"
+                placeholderTextColor={theme.textTertiary}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>The harm</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={fields.harm}
+                onChangeText={(harm) => setFields((current) => ({ ...current, harm }))}
+                accessibilityLabel="The harm"
+                placeholder="What I did"
+                placeholderTextColor={theme.textTertiary}
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Planned approach</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={fields.approach}
+                onChangeText={(approach) => setFields((current) => ({ ...current, approach }))}
+                accessibilityLabel="Planned approach"
+                placeholder="How and when I will make amends"
+                placeholderTextColor={theme.textTertiary}
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Status</Text>
+              <View style={styles.statusOptions}>
+                {AMENDS_STATUSES.map((status) => {
+                  const selected = fields.status === status;
+                  return (
+                    <TouchableOpacity
+                      key={status}
+                      style={[styles.statusOption, selected && styles.statusOptionSelected]}
+                      onPress={() => setFields((current) => ({ ...current, status }))}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Text
+                        style={[
+                          styles.statusOptionText,
+                          selected && styles.statusOptionTextSelected,
+                        ]}
+                      >
+                        {AMENDS_STATUS_LABELS[status].label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.helperText}>
+                {AMENDS_STATUS_LABELS[fields.status].description}
+              </Text>
+            </View>
+
+            {isDeferred && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Why it would injure *</Text>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  value={fields.deferred_reason}
+                  onChangeText={(deferred_reason) =>
+                    setFields((current) => ({ ...current, deferred_reason }))
+                  }
+                  accessibilityLabel="Why it would injure"
+                  placeholder="Who making this amends would hurt, and how"
+                  placeholderTextColor={theme.textTertiary}
+                  multiline
+                  textAlignVertical="top"
+                />
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            {entry ? (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => onDelete(entry)}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.deleteButtonText}>Delete</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={onClose}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.submitButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.submitButtonText}>{entry ? 'Save' : 'Add'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    modalContent: {
+      backgroundColor: theme.card,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      maxHeight: '90%',
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    modalBody: {
+      padding: 20,
+    },
+    formGroup: {
+      marginBottom: 20,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    textArea: {
+      minHeight: 80,
+      paddingTop: 12,
+    },
+    statusOptions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    statusOption: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.background,
+    },
+    statusOptionSelected: {
+      borderColor: theme.primary,
+      backgroundColor: theme.primaryLight,
+    },
+    statusOptionText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    statusOptionTextSelected: {
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    helperText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 8,
+    },
+    errorContainer: {
+      backgroundColor: '#fee2e2',
+      padding: 12,
+      borderRadius: 8,
+      marginBottom: 16,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+    },
+    modalFooter: {
+      flexDirection: 'row',
+      padding: 20,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+      gap: 12,
+    },
+    cancelButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      alignItems: 'center',
+    },
+    cancelButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    deleteButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: '#ef4444',
+      alignItems: 'center',
+    },
+    deleteButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ef4444',
+    },
+    submitButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+      alignItems: 'center',
+    },
+    submitButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
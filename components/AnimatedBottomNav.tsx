@@ -16,6 +16,8 @@ export interface AnimatedNavItem {
   label: string;
   icon: IconComponentType;
   onPress?: () => void;
+  /** Count shown as a badge over the icon; hidden when zero or undefined */
+  badgeCount?: number;
 }
 
 export interface AnimatedBottomNavProps {
@@ -150,6 +152,13 @@ export default function AnimatedBottomNav({
                   size={24}
                   color={isActive ? finalAccentColor : styles.inactiveColor.color}
                 />
+                {!!item.badgeCount && item.badgeCount > 0 && (
+                  <View style={styles.badge} accessibilityLabel={`${item.badgeCount} unread`}>
+                    <Text style={styles.badgeText}>
+                      {item.badgeCount > 99 ? '99+' : item.badgeCount}
+                    </Text>
+                  </View>
+                )}
               </Animated.View>
 
               <View style={styles.textWrapper}>
@@ -225,6 +234,23 @@ const createStyles = (theme: ThemeColors, accentColor: string, isDark: boolean)
       alignItems: 'center',
       justifyContent: 'center',
     },
+    badge: {
+      position: 'absolute',
+      top: -6,
+      right: -10,
+      minWidth: 18,
+      height: 18,
+      borderRadius: 9,
+      paddingHorizontal: 4,
+      backgroundColor: theme.danger,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    badgeText: {
+      fontSize: 10,
+      fontFamily: theme.fontBold,
+      color: theme.white,
+    },
     textWrapper: {
       alignItems: 'center',
       justifyContent: 'center',
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import { acceptConnectionRequest, declineConnectionRequest } from '@/lib/connection-requests';
+import { closeRelationshipRequest } from '@/lib/repositories';
+import type { Profile, SponsorSponseeRelationship } from '@/types/database';
+
+interface ConnectionRequestListProps {
+  /** Pending relationships in which the user is the sponsor or the sponsee */
+  requests: SponsorSponseeRelationship[];
+  /** The signed-in user's profile */
+  profile: Profile;
+  /** Called after a request is accepted, declined or withdrawn */
+  onChange: () => void;
+}
+
+const formatName = (person?: Profile) =>
+  person ? `${person.first_name} ${person.last_initial}.` : 'Someone';
+
+const showError = (message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(message);
+  } else {
+    Alert.alert('Error', message);
+  }
+};
+
+const confirmAction = (title: string, message: string, actionText: string) =>
+  Platform.OS === 'web'
+    ? Promise.resolve(window.confirm(message))
+    : new Promise<boolean>((resolve) => {
+        Alert.alert(title, message, [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: actionText, style: 'destructive', onPress: () => resolve(true) },
+        ]);
+      });
+
+/**
+ * Lists connection requests waiting for a sponsor's approval. Requests to the
+ * user, as sponsor, can be accepted or declined; requests the user sent, as
+ * sponsee, show as awaiting approval and can be withdrawn. Renders nothing
+ * when there are no requests.
+ *
+ * @param props - The pending requests, the user's profile and the change handler
+ * @returns The list, or null when there are no requests
+ *
+ * @example
+ * ```tsx
+ * <ConnectionRequestList requests={pendingRelationships} profile={profile} onChange={fetchData} />
+ * ```
+ */
+export default function ConnectionRequestList({
+  requests,
+  profile,
+  onChange,
+}: ConnectionRequestListProps) {
+  const { theme } = useTheme();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (requests.length === 0) return null;
+
+  const styles = createStyles(theme);
+
+  const runAction = async (request: SponsorSponseeRelationship, action: () => Promise<void>) => {
+    setBusyId(request.id);
+    try {
+      await action();
+      onChange();
+    } catch {
+      // Already logged by the repository
+      showError('Failed to update the connection request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const accept = (request: SponsorSponseeRelationship) =>
+    runAction(request, () => acceptConnectionRequest(request, profile));
+
+  const decline = async (request: SponsorSponseeRelationship) => {
+    const confirmed = await confirmAction(
+      'Decline Request',
+      `Decline ${formatName(request.sponsee)}'s request to connect?`,
+      'Decline'
+    );
+    if (confirmed) runAction(request, () => declineConnectionRequest(request, profile));
+  };
+
+  const withdraw = async (request: SponsorSponseeRelationship) => {
+    const confirmed = await confirmAction(
+      'Withdraw Request',
+      `Withdraw your request to connect with ${formatName(request.sponsor)}?`,
+      'Withdraw'
+    );
+    if (confirmed) runAction(request, () => closeRelationshipRequest(request.id));
+  };
+
+  return (
+    <View testID="connection-request-list">
+      {requests.map((request) => {
+        const isIncoming = request.sponsor_id === profile.id;
+        const isBusy = busyId === request.id;
+        const name = formatName(isIncoming ? request.sponsee : request.sponsor);
+
+        return (
+          <View key={request.id} style={styles.row}>
+            <View style={styles.details}>
+              <Text style={styles.name}>{name}</Text>
+              <Text style={styles.status}>
+                {isIncoming ? 'Wants you as their sponsor' : 'Waiting for them to accept'}
+              </Text>
+            </View>
+            {isBusy ? (
+              <ActivityIndicator size="small" color={theme.primary} />
+            ) : isIncoming ? (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.acceptButton}
+                  onPress={() => accept(request)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Accept ${name}`}
+                >
+                  <Text style={styles.acceptText}>Accept</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.declineButton}
+                  onPress={() => decline(request)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Decline ${name}`}
+                >
+                  <Text style={styles.declineText}>Decline</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={styles.declineButton}
+                onPress={() => withdraw(request)}
+                accessibilityRole="button"
+                accessibilityLabel={`Withdraw request to ${name}`}
+              >
+                <Text style={styles.declineText}>Withdraw</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.card,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      padding: 12,
+      marginBottom: 8,
+    },
+    details: {
+      flex: 1,
+    },
+    name: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    status: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    acceptButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+    },
+    acceptText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.white,
+    },
+    declineButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.dangerBorder,
+      backgroundColor: theme.dangerLight,
+    },
+    declineText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.danger,
+    },
+  });
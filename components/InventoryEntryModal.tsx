@@ -0,0 +1,322 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  createInventoryEntry,
+  updateInventoryEntry,
+  type InventoryEntryFields,
+} from '@/lib/repositories';
+import { INVENTORY_COLUMNS, INVENTORY_LABELS } from '@/lib/inventory';
+import { InventoryEntry, InventoryKind } from '@/types/database';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { X } from 'lucide-react-native';
+
+interface InventoryEntryModalProps {
+  visible: boolean;
+  /** The signed-in user's profile ID */
+  userId: string;
+  kind: InventoryKind;
+  /** The entry to edit, or null to add a new one */
+  entry: InventoryEntry | null;
+  /** Where a new entry goes within its kind */
+  position: number;
+  onClose: () => void;
+  /** Called with the entry once it is added or saved */
+  onSaved: (entry: InventoryEntry) => void;
+  /** Called when the user asks to delete the entry being edited */
+  onDelete: (entry: InventoryEntry) => void;
+  theme: ThemeColors;
+}
+
+const EMPTY_FIELDS: InventoryEntryFields = { subject: '', cause: '', affects: '', my_part: '' };
+
+/**
+ * Form for adding or editing one row of the Step 4 inventory, with a field
+ * for each of its columns headed the way the entry's kind uses them.
+ *
+ * @param props - The entry or kind to edit, and handlers
+ * @returns The entry modal
+ *
+ * @example
+ * ```tsx
+ * <InventoryEntryModal
+ *   visible={showEntryModal}
+ *   userId={profile.id}
+ *   kind="resentment"
+ *   entry={editingEntry}
+ *   position={resentments.length}
+ *   onClose={() => setShowEntryModal(false)}
+ *   onSaved={handleSaved}
+ *   onDelete={handleDelete}
+ *   theme={theme}
+ * />
+ * ```
+ */
+export default function InventoryEntryModal({
+  visible,
+  userId,
+  kind,
+  entry,
+  position,
+  onClose,
+  onSaved,
+  onDelete,
+  theme,
+}: InventoryEntryModalProps) {
+  const [fields, setFields] = useState<InventoryEntryFields>(EMPTY_FIELDS);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setError('');
+    setFields(
+      entry
+        ? {
+            subject: entry.subject,
+            cause: entry.cause,
+            affects: entry.affects,
+            my_part: entry.my_part,
+          }
+        : EMPTY_FIELDS
+    );
+  }, [visible, entry]);
+
+  const labels = INVENTORY_LABELS[kind];
+
+  const handleSave = async () => {
+    setError('');
+    const trimmed: InventoryEntryFields = {
+      subject: fields.subject.trim(),
+      cause: fields.cause.trim(),
+      affects: fields.affects.trim(),
+      my_part: fields.my_part.trim(),
+    };
+
+    if (!trimmed.subject) {
+      setError(`Please fill in "${labels.columns.subject}"`);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const saved = entry
+        ? await updateInventoryEntry(entry.id, trimmed)
+        : await createInventoryEntry({ ...trimmed, user_id: userId, kind, position });
+      onSaved(saved);
+      onClose();
+    } catch {
+      // Already logged by the repository
+      setError('Failed to save this entry. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {entry ? `Edit ${labels.singular}` : `Add ${labels.singular}`}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null}
+
+            {INVENTORY_COLUMNS.map((column) => (
+              <View key={column} style={styles.formGroup}>
+                <Text style={styles.label}>
+                  {labels.columns[column]}
+                  {column === 'subject' ? ' *' : ''}
+                </Text>
+                <TextInput
+                  style={[styles.input, column !== 'subject' && styles.textArea]}
+                  value={fields[column]}
+                  onChangeText={(text) => setFields((current) => ({ ...current, [column]: text }))}
+                  accessibilityLabel={labels.columns[column]}
+                  placeholderTextColor={theme.textTertiary}
+                  multiline={column !== 'subject'}
+                  textAlignVertical={column === 'subject' ? 'center' : 'top'}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            {entry ? (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={() => onDelete(entry)}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.deleteButtonText}>Delete</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={onClose}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.submitButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSave}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <Text style={styles.submitButtonText}>{entry ? 'Save' : 'Add'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    modalContent: {
+      backgroundColor: theme.card,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      maxHeight: '90%',
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    modalBody: {
+      padding: 20,
+    },
+    formGroup: {
+      marginBottom: 20,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    textArea: {
+      minHeight: 80,
+      paddingTop: 12,
+    },
+    errorContainer: {
+      backgroundColor: '#fee2e2',
+      padding: 12,
+      borderRadius: 8,
+      marginBottom: 16,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+    },
+    modalFooter: {
+      flexDirection: 'row',
+      padding: 20,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+      gap: 12,
+    },
+    cancelButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      alignItems: 'center',
+    },
+    cancelButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    deleteButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: '#ef4444',
+      alignItems: 'center',
+    },
+    deleteButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ef4444',
+    },
+    submitButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+      alignItems: 'center',
+    },
+    submitButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
@@ -0,0 +1,160 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import type { InviteCode } from '@/types/database';
+
+interface InviteCodeListProps {
+  /** The sponsor's unrevoked invite codes, newest first */
+  invites: InviteCode[];
+  /** Called when the sponsor asks to revoke an unused, unexpired code */
+  onRevoke: (invite: InviteCode) => void;
+  /** Called when the sponsor asks to show an unused, unexpired code as a QR code */
+  onShowQr: (invite: InviteCode) => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Describes an invite's state for display.
+ */
+function describeInvite(invite: InviteCode): { label: string; isRedeemable: boolean } {
+  if (invite.used_by) {
+    const name = invite.redeemer
+      ? `${invite.redeemer.first_name} ${invite.redeemer.last_initial}.`
+      : 'a sponsee';
+    return { label: `Used by ${name}`, isRedeemable: false };
+  }
+  if (new Date(invite.expires_at) < new Date()) {
+    return { label: `Expired ${formatDate(invite.expires_at)}`, isRedeemable: false };
+  }
+  return { label: `Expires ${formatDate(invite.expires_at)}`, isRedeemable: true };
+}
+
+/**
+ * Lists a sponsor's invite codes with their expiry or redeemer, and QR and
+ * Revoke actions for codes that can still be redeemed. Renders nothing when empty.
+ *
+ * @param props - The invites to show and the action handlers
+ * @returns The list, or null when there are no invites
+ *
+ * @example
+ * ```tsx
+ * <InviteCodeList invites={inviteCodes} onRevoke={revokeInvite} onShowQr={showInviteQr} />
+ * ```
+ */
+export default function InviteCodeList({ invites, onRevoke, onShowQr }: InviteCodeListProps) {
+  const { theme } = useTheme();
+
+  if (invites.length === 0) return null;
+
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container} testID="invite-code-list">
+      <Text style={styles.title}>Invite Codes</Text>
+      {invites.map((invite) => {
+        const { label, isRedeemable } = describeInvite(invite);
+        return (
+          <View key={invite.id} style={styles.row}>
+            <View style={styles.details}>
+              <Text style={styles.code}>{invite.code}</Text>
+              <Text style={styles.status}>{label}</Text>
+            </View>
+            {isRedeemable && (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.qrButton}
+                  onPress={() => onShowQr(invite)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Show QR code for invite code ${invite.code}`}
+                >
+                  <Text style={styles.qrText}>QR</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.revokeButton}
+                  onPress={() => onRevoke(invite)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Revoke invite code ${invite.code}`}
+                >
+                  <Text style={styles.revokeText}>Revoke</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginTop: 16,
+    },
+    title: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: theme.card,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      padding: 12,
+      marginBottom: 8,
+    },
+    details: {
+      flex: 1,
+    },
+    code: {
+      fontSize: 16,
+      fontFamily: theme.fontSemiBold,
+      color: theme.text,
+      letterSpacing: 2,
+    },
+    status: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    qrButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.background,
+    },
+    qrText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    revokeButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.dangerBorder,
+      backgroundColor: theme.dangerLight,
+    },
+    revokeText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.danger,
+    },
+  });
@@ -0,0 +1,139 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Share, Platform } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import { buildInviteLink } from '@/lib/invites';
+
+interface InviteQrModalProps {
+  /** The invite code to show, or null to hide the modal */
+  code: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Shows an invite code as a QR code for a sponsee to scan in person. The QR
+ * encodes the invite link, which opens the app's invite screen with the code
+ * prefilled; the code is also printed for typing in by hand.
+ *
+ * @param props - The code to show and the close handler
+ * @returns The modal
+ *
+ * @example
+ * ```tsx
+ * <InviteQrModal code={qrInviteCode} onClose={() => setQrInviteCode(null)} />
+ * ```
+ */
+export default function InviteQrModal({ code, onClose }: InviteQrModalProps) {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  if (!code) return null;
+
+  const link = buildInviteLink(code);
+
+  const shareLink = () => {
+    if (Platform.OS === 'web') {
+      navigator.clipboard.writeText(link);
+      window.alert('Invite link copied to clipboard!');
+    } else {
+      Share.share({
+        message: `Join me on Sobriety Waypoint! Use invite code ${code} or open ${link}`,
+      });
+    }
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content} testID="invite-qr-modal">
+          <Text style={styles.title}>Scan to Connect</Text>
+          <View style={styles.qrContainer}>
+            <QRCode value={link} size={200} color={theme.black} backgroundColor={theme.white} />
+          </View>
+          <Text style={styles.code}>{code}</Text>
+          <Text style={styles.hint}>
+            Your sponsee can scan this code with their camera, or enter the code in their profile.
+          </Text>
+          <TouchableOpacity style={styles.shareButton} onPress={shareLink}>
+            <Text style={styles.shareText}>
+              {Platform.OS === 'web' ? 'Copy Invite Link' : 'Share Invite Link'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+    },
+    content: {
+      width: '100%',
+      maxWidth: 360,
+      backgroundColor: theme.card,
+      borderRadius: 16,
+      padding: 24,
+      alignItems: 'center',
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+      marginBottom: 16,
+    },
+    qrContainer: {
+      padding: 12,
+      backgroundColor: theme.white,
+      borderRadius: 12,
+    },
+    code: {
+      fontSize: 24,
+      fontFamily: theme.fontSemiBold,
+      color: theme.text,
+      letterSpacing: 4,
+      marginTop: 16,
+    },
+    hint: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginTop: 8,
+      marginBottom: 20,
+    },
+    shareButton: {
+      alignSelf: 'stretch',
+      backgroundColor: theme.primary,
+      borderRadius: 8,
+      paddingVertical: 12,
+      alignItems: 'center',
+    },
+    shareText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.white,
+    },
+    closeButton: {
+      alignSelf: 'stretch',
+      paddingVertical: 12,
+      alignItems: 'center',
+      marginTop: 4,
+    },
+    closeText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+  });
@@ -0,0 +1,148 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { buildRecurrenceRule, type RecurrenceRule } from '@/lib/task-recurrence';
+import type { TaskRecurrence } from '@/types/database';
+
+interface RecurrencePickerProps {
+  /** The selected schedule, or null for a one-off task */
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** Whether "Does not repeat" is offered; off when editing an existing series */
+  allowNone?: boolean;
+  theme: ThemeColors;
+}
+
+const OPTIONS: { recurrence: TaskRecurrence | null; label: string }[] = [
+  { recurrence: null, label: 'Does not repeat' },
+  { recurrence: 'daily', label: 'Daily' },
+  { recurrence: 'weekly', label: 'Weekly' },
+  { recurrence: 'custom', label: 'Custom' },
+];
+
+/** Interval a custom schedule starts with when first picked */
+const DEFAULT_CUSTOM_INTERVAL_DAYS = 2;
+
+/**
+ * Chips for choosing how often a task repeats, with a day count for custom
+ * schedules.
+ *
+ * @param props - The selected schedule and change handler
+ * @returns The schedule picker
+ *
+ * @example
+ * ```tsx
+ * <RecurrencePicker value={rule} onChange={setRule} theme={theme} />
+ * ```
+ */
+export default function RecurrencePicker({
+  value,
+  onChange,
+  allowNone = true,
+  theme,
+}: RecurrencePickerProps) {
+  const styles = createStyles(theme);
+  const options = allowNone ? OPTIONS : OPTIONS.filter((option) => option.recurrence);
+
+  const select = (recurrence: TaskRecurrence | null) => {
+    if (!recurrence) {
+      onChange(null);
+    } else if (recurrence !== value?.recurrence) {
+      onChange(buildRecurrenceRule(recurrence, DEFAULT_CUSTOM_INTERVAL_DAYS));
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.options}>
+        {options.map(({ recurrence, label }) => {
+          const selected = (value?.recurrence ?? null) === recurrence;
+
+          return (
+            <TouchableOpacity
+              key={label}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => select(recurrence)}
+              accessibilityRole="radio"
+              accessibilityState={{ selected }}
+              accessibilityLabel={label}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value?.recurrence === 'custom' && (
+        <View style={styles.customRow}>
+          <Text style={styles.customText}>Every</Text>
+          <TextInput
+            style={styles.customInput}
+            value={value.interval_days ? String(value.interval_days) : ''}
+            onChangeText={(text) =>
+              onChange(buildRecurrenceRule('custom', parseInt(text, 10) || 0))
+            }
+            keyboardType="number-pad"
+            maxLength={3}
+            accessibilityLabel="Days between occurrences"
+          />
+          <Text style={styles.customText}>days</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    options: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.background,
+    },
+    chipSelected: {
+      borderColor: theme.primary,
+      backgroundColor: theme.primaryLight,
+    },
+    chipText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    chipTextSelected: {
+      color: theme.primary,
+      fontWeight: '600',
+    },
+    customRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 12,
+    },
+    customText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    customInput: {
+      width: 64,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+      backgroundColor: theme.background,
+      textAlign: 'center',
+    },
+  });
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import {
+  acceptReconnection,
+  declineReconnection,
+  requestReconnection,
+} from '@/lib/connection-requests';
+import { clearReconnectRequest } from '@/lib/repositories';
+import type { RelationshipTaskStats } from '@/lib/relationship-history';
+import TaskArchiveModal from '@/components/TaskArchiveModal';
+import type { Profile, SponsorSponseeRelationship } from '@/types/database';
+
+interface RelationshipHistoryListProps {
+  /** Past relationships to show, most recently ended first */
+  relationships: SponsorSponseeRelationship[];
+  /** Task counts keyed by relationship ID */
+  taskStats: Record<string, RelationshipTaskStats>;
+  /** The signed-in user's profile */
+  profile: Profile;
+  /** Called after a reconnect is requested, accepted, declined or withdrawn */
+  onChange: () => void;
+}
+
+const formatName = (person?: Profile) =>
+  person ? `${person.first_name} ${person.last_initial}.` : 'Someone';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const showError = (message: string) => {
+  if (Platform.OS === 'web') {
+    window.alert(message);
+  } else {
+    Alert.alert('Error', message);
+  }
+};
+
+/**
+ * Lists the user's past sponsors and sponsees with when they were connected
+ * and their task progress. Each entry opens a read-only archive of the pair's
+ * tasks and offers to reconnect; reconnecting needs both people, so one asks
+ * and the other accepts or declines. Renders nothing when there is no history.
+ *
+ * @param props - The past relationships, their task counts, the user's profile
+ *   and the change handler
+ * @returns The list, or null when there are no past relationships
+ *
+ * @example
+ * ```tsx
+ * <RelationshipHistoryList
+ *   relationships={pastRelationships}
+ *   taskStats={pastTaskStats}
+ *   profile={profile}
+ *   onChange={fetchRelationships}
+ * />
+ * ```
+ */
+export default function RelationshipHistoryList({
+  relationships,
+  taskStats,
+  profile,
+  onChange,
+}: RelationshipHistoryListProps) {
+  const { theme } = useTheme();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [archived, setArchived] = useState<SponsorSponseeRelationship | null>(null);
+
+  if (relationships.length === 0) return null;
+
+  const styles = createStyles(theme);
+
+  const partnerOf = (relationship: SponsorSponseeRelationship) =>
+    relationship.sponsor_id === profile.id ? relationship.sponsee : relationship.sponsor;
+
+  const runAction = async (
+    relationship: SponsorSponseeRelationship,
+    action: () => Promise<void>
+  ) => {
+    setBusyId(relationship.id);
+    try {
+      await action();
+      onChange();
+    } catch {
+      // Already logged by the repository
+      showError('Failed to update the reconnect request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderReconnect = (relationship: SponsorSponseeRelationship, name: string) => {
+    if (busyId === relationship.id) {
+      return <ActivityIndicator size="small" color={theme.primary} />;
+    }
+
+    if (!relationship.reconnect_requested_by) {
+      return (
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => runAction(relationship, () => requestReconnection(relationship, profile))}
+          accessibilityRole="button"
+          accessibilityLabel={`Reconnect with ${name}`}
+        >
+          <Text style={styles.primaryText}>Reconnect</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    if (relationship.reconnect_requested_by === profile.id) {
+      return (
+        <View style={styles.actions}>
+          <Text style={styles.waitingText}>Reconnect requested</Text>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => runAction(relationship, () => clearReconnectRequest(relationship.id))}
+            accessibilityRole="button"
+            accessibilityLabel={`Withdraw reconnect request to ${name}`}
+          >
+            <Text style={styles.secondaryText}>Withdraw</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.actions}>
+        <Text style={styles.waitingText}>Wants to reconnect</Text>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => runAction(relationship, () => acceptReconnection(relationship, profile))}
+          accessibilityRole="button"
+          accessibilityLabel={`Accept reconnect from ${name}`}
+        >
+          <Text style={styles.primaryText}>Accept</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => runAction(relationship, () => declineReconnection(relationship, profile))}
+          accessibilityRole="button"
+          accessibilityLabel={`Decline reconnect from ${name}`}
+        >
+          <Text style={styles.secondaryText}>Decline</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View testID="relationship-history-list">
+      {relationships.map((relationship) => {
+        const partner = partnerOf(relationship);
+        const name = formatName(partner);
+        const wasSponsor = relationship.sponsor_id === profile.id;
+        const stats = taskStats[relationship.id];
+
+        return (
+          <View key={relationship.id} style={styles.card}>
+            <Text style={styles.name}>{name}</Text>
+            <Text style={styles.role}>{wasSponsor ? 'Former sponsee' : 'Former sponsor'}</Text>
+            <Text style={styles.meta}>
+              Connected {formatDate(relationship.connected_at)}
+              {relationship.disconnected_at
+                ? ` · Disconnected ${formatDate(relationship.disconnected_at)}`
+                : ''}
+            </Text>
+            {stats && (
+              <Text style={styles.meta}>
+                {stats.completed}/{stats.total} tasks completed
+              </Text>
+            )}
+            <View style={styles.footer}>
+              <TouchableOpacity
+                onPress={() => setArchived(relationship)}
+                accessibilityRole="button"
+                accessibilityLabel={`View tasks with ${name}`}
+              >
+                <Text style={styles.linkText}>View Tasks</Text>
+              </TouchableOpacity>
+              {renderReconnect(relationship, name)}
+            </View>
+          </View>
+        );
+      })}
+      <TaskArchiveModal
+        relationship={archived}
+        partner={archived ? partnerOf(archived) : undefined}
+        onClose={() => setArchived(null)}
+      />
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: theme.card,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      padding: 12,
+      marginBottom: 8,
+    },
+    name: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    role: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    meta: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+      marginTop: 4,
+    },
+    footer: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginTop: 12,
+    },
+    linkText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+    },
+    actions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    waitingText: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    primaryButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+    },
+    primaryText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.white,
+    },
+    secondaryButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      backgroundColor: theme.background,
+    },
+    secondaryText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+  });
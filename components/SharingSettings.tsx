@@ -0,0 +1,176 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import type { SharingSettings as SharingSettingsValues } from '@/lib/repositories';
+import type { SponsorSponseeRelationship } from '@/types/database';
+
+export type SharingSetting = keyof Required<SharingSettingsValues>;
+
+interface SharingSettingsProps {
+  /** The sponsee's active relationship with the sponsor */
+  relationship: SponsorSponseeRelationship;
+  /** Called with the setting the sponsee toggled */
+  onToggle: (setting: SharingSetting) => void;
+}
+
+interface SettingRow {
+  setting: SharingSetting;
+  title: string;
+  label: string;
+  description: (name: string) => string;
+}
+
+const SETTINGS: SettingRow[] = [
+  {
+    setting: 'share_sobriety_date',
+    title: 'Sobriety Date',
+    label: 'Share sobriety date',
+    description: (name) => `Let ${name} see your sobriety date and current streak`,
+  },
+  {
+    setting: 'share_step_progress',
+    title: 'Step Progress',
+    label: 'Share step progress',
+    description: (name) => `Let ${name} see which steps you have completed`,
+  },
+  {
+    setting: 'share_notes',
+    title: 'Notes',
+    label: 'Share notes',
+    description: (name) => `Let ${name} read your task notes and step reflections`,
+  },
+  {
+    setting: 'share_amends',
+    title: 'Amends List',
+    label: 'Share amends list',
+    description: (name) => `Let ${name} see your amends list and where each amends stands`,
+  },
+  {
+    setting: 'share_check_ins',
+    title: 'Daily Check-Ins',
+    label: 'Share check-ins',
+    description: (name) =>
+      `Let ${name} see your check-in streak, mood and HALT flags, but not what you write`,
+  },
+  {
+    setting: 'share_slip_ups',
+    title: 'Slip-Up History',
+    label: 'Share slip-up history',
+    description: (name) => `Let ${name} see your slip-ups and be notified when you log one`,
+  },
+  {
+    setting: 'share_slip_up_notes',
+    title: 'Slip-Up Notes',
+    label: 'Share slip-up notes',
+    description: () => 'Include what you wrote about each slip-up',
+  },
+];
+
+/**
+ * The toggles a sponsee uses to choose what one sponsor can see. Slip-up notes
+ * can only be shared along with the slip-ups themselves.
+ *
+ * @param props - The relationship and the toggle handler
+ * @returns The list of sharing toggles
+ *
+ * @example
+ * ```tsx
+ * <SharingSettings relationship={rel} onToggle={(setting) => toggleSharing(rel, setting)} />
+ * ```
+ */
+export default function SharingSettings({ relationship, onToggle }: SharingSettingsProps) {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+  const name = relationship.sponsor?.first_name ?? 'your sponsor';
+
+  return (
+    <View style={styles.container} testID="sharing-settings">
+      <Text style={styles.heading}>What {name} can see</Text>
+      {SETTINGS.map(({ setting, title, label, description }) => {
+        const checked = relationship[setting];
+        const disabled = setting === 'share_slip_up_notes' && !relationship.share_slip_ups;
+
+        return (
+          <TouchableOpacity
+            key={setting}
+            style={[styles.row, disabled && styles.rowDisabled]}
+            onPress={() => onToggle(setting)}
+            disabled={disabled}
+            accessibilityRole="switch"
+            accessibilityState={{ checked, disabled }}
+            accessibilityLabel={label}
+          >
+            <View style={styles.info}>
+              <Text style={styles.title}>{title}</Text>
+              <Text style={styles.description}>{description(name)}</Text>
+            </View>
+            <View style={[styles.toggleTrack, checked && styles.toggleTrackOn]}>
+              <View style={[styles.toggleThumb, checked && styles.toggleThumbOn]} />
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      borderTopWidth: 1,
+      borderTopColor: theme.borderLight,
+      paddingTop: 12,
+      marginBottom: 12,
+    },
+    heading: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 4,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 8,
+    },
+    rowDisabled: {
+      opacity: 0.5,
+    },
+    info: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    description: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    toggleTrack: {
+      width: 44,
+      height: 26,
+      borderRadius: 13,
+      padding: 3,
+      backgroundColor: theme.border,
+    },
+    toggleTrackOn: {
+      backgroundColor: theme.primary,
+    },
+    toggleThumb: {
+      width: 20,
+      height: 20,
+      borderRadius: 10,
+      backgroundColor: theme.white,
+    },
+    toggleThumbOn: {
+      alignSelf: 'flex-end',
+    },
+  });
@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { fetchStepAnswerRevisions } from '@/lib/repositories';
+import { useStepWorksheet, type WorksheetSaveStatus } from '@/hooks/useStepWorksheet';
+import { StepAnswerRevision } from '@/types/database';
+
+interface StepWorksheetProps {
+  /** The signed-in user's profile ID */
+  userId: string;
+  stepNumber: number;
+  /** The step's reflection prompts, in order */
+  prompts: string[];
+  theme: ThemeColors;
+}
+
+const SAVE_STATUS_LABELS: Record<WorksheetSaveStatus, string | null> = {
+  idle: null,
+  pending: 'Unsaved changes',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  error: "Couldn't save your changes. We'll try again as you keep writing.",
+};
+
+/**
+ * A step's reflection prompts as a worksheet: an answer field under each
+ * prompt that saves as the user types. Each saved answer can be shared with
+ * the user's sponsor on its own, and earlier versions of it can be shown.
+ *
+ * @param props - Who is answering, the step's prompts and the theme
+ * @returns The worksheet
+ *
+ * @example
+ * ```tsx
+ * <StepWorksheet
+ *   userId={profile.id}
+ *   stepNumber={step.step_number}
+ *   prompts={step.reflection_prompts}
+ *   theme={theme}
+ * />
+ * ```
+ */
+export default function StepWorksheet({ userId, stepNumber, prompts, theme }: StepWorksheetProps) {
+  const { answers, drafts, loading, error, saveStatus, setAnswer, toggleShared } = useStepWorksheet(
+    userId,
+    stepNumber,
+    prompts
+  );
+  const [revisions, setRevisions] = useState<Record<string, StepAnswerRevision[]>>({});
+  const [openHistory, setOpenHistory] = useState<string | null>(null);
+  const [historyError, setHistoryError] = useState('');
+
+  const toggleHistory = async (answerId: string) => {
+    setHistoryError('');
+    if (openHistory === answerId) {
+      setOpenHistory(null);
+      return;
+    }
+
+    setOpenHistory(answerId);
+    try {
+      const rows = await fetchStepAnswerRevisions(answerId);
+      setRevisions((current) => ({ ...current, [answerId]: rows }));
+    } catch {
+      // Already logged by the repository
+      setHistoryError('Failed to load earlier versions. Please try again.');
+    }
+  };
+
+  const styles = createStyles(theme);
+  const statusLabel = SAVE_STATUS_LABELS[saveStatus];
+
+  if (loading) {
+    return <ActivityIndicator size="small" color={theme.primary} />;
+  }
+
+  if (error) {
+    return <Text style={styles.errorText}>{error}</Text>;
+  }
+
+  return (
+    <View>
+      <Text style={styles.helpText}>
+        Your answers are private and save as you write. Share any answer with your sponsor when you
+        are ready.
+      </Text>
+
+      {prompts.map((prompt, index) => {
+        const answer = answers[index];
+        const history = answer && openHistory === answer.id ? revisions[answer.id] : undefined;
+
+        return (
+          <View key={index} style={styles.promptGroup}>
+            <View style={styles.promptItem}>
+              <Text style={styles.promptBullet}>•</Text>
+              <Text style={styles.promptText}>{prompt}</Text>
+            </View>
+            <TextInput
+              style={styles.input}
+              value={drafts[index] ?? ''}
+              onChangeText={(text) => setAnswer(index, text)}
+              placeholder="Write your answer..."
+              placeholderTextColor={theme.textTertiary}
+              accessibilityLabel={`Answer to: ${prompt}`}
+              multiline
+              textAlignVertical="top"
+            />
+
+            {answer && (
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, answer.shared && styles.actionButtonActive]}
+                  onPress={() => toggleShared(index)}
+                  accessibilityRole="button"
+                  accessibilityLabel={
+                    answer.shared
+                      ? `Stop sharing your answer to: ${prompt}`
+                      : `Share your answer to: ${prompt}`
+                  }
+                >
+                  <Text style={[styles.actionText, answer.shared && styles.actionTextActive]}>
+                    {answer.shared ? 'Shared with sponsor' : 'Share with sponsor'}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => toggleHistory(answer.id)}
+                  accessibilityRole="button"
+                >
+                  <Text style={styles.actionText}>
+                    {openHistory === answer.id ? 'Hide earlier versions' : 'Earlier versions'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {answer && openHistory === answer.id && (
+              <View style={styles.history}>
+                {historyError ? (
+                  <Text style={styles.errorText}>{historyError}</Text>
+                ) : !history ? (
+                  <ActivityIndicator size="small" color={theme.primary} />
+                ) : history.length === 0 ? (
+                  <Text style={styles.helpText}>No earlier versions yet.</Text>
+                ) : (
+                  history.map((revision) => (
+                    <View key={revision.id} style={styles.revision}>
+                      <Text style={styles.revisionDate}>
+                        {new Date(revision.saved_at).toLocaleString()}
+                      </Text>
+                      <Text style={styles.revisionText}>{revision.answer}</Text>
+                    </View>
+                  ))
+                )}
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      {statusLabel && (
+        <Text style={[styles.statusText, saveStatus === 'error' && styles.errorText]}>
+          {statusLabel}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    helpText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginBottom: 16,
+    },
+    promptGroup: {
+      marginBottom: 20,
+    },
+    promptItem: {
+      flexDirection: 'row',
+      marginBottom: 8,
+    },
+    promptBullet: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.primary,
+      marginRight: 12,
+      fontWeight: '700',
+    },
+    promptText: {
+      flex: 1,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      lineHeight: 24,
+    },
+    input: {
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      padding: 12,
+      minHeight: 96,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 8,
+    },
+    actionButton: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    actionButtonActive: {
+      borderColor: theme.primary,
+      backgroundColor: theme.primaryLight,
+    },
+    actionText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    actionTextActive: {
+      color: theme.primary,
+    },
+    history: {
+      marginTop: 8,
+      padding: 12,
+      borderRadius: 8,
+      backgroundColor: theme.background,
+    },
+    revision: {
+      marginBottom: 12,
+    },
+    revisionDate: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+      marginBottom: 4,
+    },
+    revisionText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      lineHeight: 20,
+    },
+    statusText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+    },
+  });
@@ -0,0 +1,97 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AlertCircle, CloudOff, RefreshCw } from 'lucide-react-native';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { dismissDiscardedChanges } from '@/lib/offline';
+
+/**
+ * Small banner shown while the device is offline or changes are waiting to sync.
+ * Changes the server turned down when they synced, such as completing a task
+ * that was deleted meanwhile, get a notice the user taps to dismiss.
+ * Renders nothing when online with an empty queue and nothing discarded.
+ *
+ * @returns The banner, or null when there is nothing to report
+ *
+ * @example
+ * ```tsx
+ * <View style={styles.header}>
+ *   <Text style={styles.headerTitle}>Tasks</Text>
+ *   <SyncStatusIndicator />
+ * </View>
+ * ```
+ */
+export default function SyncStatusIndicator() {
+  const { theme } = useTheme();
+  const { pendingCount, isSyncing, discardedCount, isOffline } = useSyncStatus();
+
+  if (!isOffline && pendingCount === 0 && discardedCount === 0) return null;
+
+  const styles = createStyles(theme);
+
+  const discardedNotice =
+    discardedCount > 0 ? (
+      <TouchableOpacity
+        style={styles.container}
+        onPress={dismissDiscardedChanges}
+        testID="sync-discarded-notice"
+        accessibilityRole="button"
+        accessibilityHint="Dismisses this notice"
+      >
+        <AlertCircle size={14} color={theme.textSecondary} />
+        <Text style={styles.text}>
+          {discardedCount === 1
+            ? '1 offline change could not be applied'
+            : `${discardedCount} offline changes could not be applied`}
+        </Text>
+      </TouchableOpacity>
+    ) : null;
+
+  if (!isOffline && pendingCount === 0) return discardedNotice;
+
+  const changes = `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'}`;
+
+  let message: string;
+  if (isSyncing) {
+    message = `Syncing ${changes}...`;
+  } else if (isOffline) {
+    message =
+      pendingCount > 0 ? `Offline · ${changes} waiting to sync` : 'Offline · showing saved data';
+  } else {
+    message = `${changes} waiting to sync`;
+  }
+
+  const Icon = isOffline ? CloudOff : RefreshCw;
+
+  return (
+    <>
+      <View style={styles.container} testID="sync-status-indicator" accessibilityRole="text">
+        <Icon size={14} color={theme.textSecondary} />
+        <Text style={styles.text}>{message}</Text>
+      </View>
+      {discardedNotice}
+    </>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      gap: 6,
+      marginTop: 8,
+      paddingVertical: 4,
+      paddingHorizontal: 10,
+      borderRadius: 12,
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+    },
+    text: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+  });
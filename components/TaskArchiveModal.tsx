@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useTheme, type ThemeColors } from '@/contexts/ThemeContext';
+import { fetchTasksBetween } from '@/lib/repositories';
+import type { Profile, SponsorSponseeRelationship, Task } from '@/types/database';
+
+interface TaskArchiveModalProps {
+  /** The past relationship whose tasks to show, or null to hide the modal */
+  relationship: SponsorSponseeRelationship | null;
+  /** The other member's profile, for the title */
+  partner?: Profile;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<Task['status'], string> = {
+  assigned: 'Assigned',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Read-only list of every task a sponsor assigned a sponsee, kept after the
+ * pair disconnected. Tasks are loaded each time the modal opens.
+ *
+ * @param props - The relationship to show and the close handler
+ * @returns The modal, or null when no relationship is selected
+ *
+ * @example
+ * ```tsx
+ * <TaskArchiveModal relationship={archived} partner={archived?.sponsee} onClose={close} />
+ * ```
+ */
+export default function TaskArchiveModal({
+  relationship,
+  partner,
+  onClose,
+}: TaskArchiveModalProps) {
+  const { theme } = useTheme();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!relationship) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchTasksBetween(relationship.sponsor_id, relationship.sponsee_id)
+      .then((loaded) => {
+        if (!cancelled) setTasks(loaded);
+      })
+      .catch(() => {
+        // Already logged by the repository
+        if (!cancelled) setError('Failed to load tasks');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [relationship]);
+
+  if (!relationship) return null;
+
+  const styles = createStyles(theme);
+  const title = partner ? `Tasks with ${partner.first_name} ${partner.last_initial}.` : 'Tasks';
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content} testID="task-archive-modal">
+          <Text style={styles.title}>{title}</Text>
+          <Text style={styles.subtitle}>
+            From your past relationship. These can no longer change.
+          </Text>
+          {loading ? (
+            <ActivityIndicator size="small" color={theme.primary} style={styles.loading} />
+          ) : error ? (
+            <Text style={styles.emptyText}>{error}</Text>
+          ) : tasks.length === 0 ? (
+            <Text style={styles.emptyText}>No tasks were assigned.</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {tasks.map((task) => (
+                <View key={task.id} style={styles.task}>
+                  <View style={styles.taskHeader}>
+                    <Text style={styles.taskTitle}>{task.title}</Text>
+                    <Text
+                      style={[styles.taskStatus, task.status === 'completed' && styles.completed]}
+                    >
+                      {STATUS_LABELS[task.status]}
+                    </Text>
+                  </View>
+                  <Text style={styles.taskMeta}>
+                    {task.step_number ? `Step ${task.step_number} · ` : ''}Assigned{' '}
+                    {formatDate(task.created_at)}
+                    {task.completed_at ? ` · Completed ${formatDate(task.completed_at)}` : ''}
+                  </Text>
+                  {task.completion_notes ? (
+                    <Text style={styles.taskNotes}>{task.completion_notes}</Text>
+                  ) : null}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+    },
+    content: {
+      width: '100%',
+      maxWidth: 480,
+      maxHeight: '80%',
+      backgroundColor: theme.card,
+      borderRadius: 16,
+      padding: 24,
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 4,
+      marginBottom: 16,
+    },
+    loading: {
+      marginVertical: 24,
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      textAlign: 'center',
+      marginVertical: 24,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    task: {
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+      paddingVertical: 12,
+    },
+    taskHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: 8,
+    },
+    taskTitle: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    taskStatus: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    completed: {
+      color: theme.success,
+    },
+    taskMeta: {
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+      marginTop: 4,
+    },
+    taskNotes: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 6,
+    },
+    closeButton: {
+      paddingVertical: 12,
+      alignItems: 'center',
+      marginTop: 8,
+    },
+    closeText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+  });
@@ -0,0 +1,143 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { TaskComment, TaskCommentKind } from '@/types/database';
+
+interface TaskCommentThreadProps {
+  /** The task's thread, oldest first */
+  comments: TaskComment[];
+  /** The signed-in user's profile ID, whose entries are labelled "You" */
+  currentUserId: string;
+  /** Display name for the other person on the task */
+  otherName: string;
+  theme: ThemeColors;
+}
+
+const KIND_LABELS: Record<TaskCommentKind, string | null> = {
+  comment: null,
+  acknowledged: 'Acknowledged',
+  returned: 'Sent back',
+};
+
+/**
+ * Shows a task's feedback thread: the sponsor's review decisions and the
+ * replies either person wrote, oldest first.
+ *
+ * @param props - The comments, who is reading them and the theme
+ * @returns The thread, or a note when it is empty
+ *
+ * @example
+ * ```tsx
+ * <TaskCommentThread
+ *   comments={comments}
+ *   currentUserId={profile.id}
+ *   otherName="Your sponsor"
+ *   theme={theme}
+ * />
+ * ```
+ */
+export default function TaskCommentThread({
+  comments,
+  currentUserId,
+  otherName,
+  theme,
+}: TaskCommentThreadProps) {
+  const styles = createStyles(theme);
+
+  if (comments.length === 0) {
+    return <Text style={styles.emptyText}>No feedback yet.</Text>;
+  }
+
+  return (
+    <View>
+      {comments.map((comment) => {
+        const kindLabel = KIND_LABELS[comment.kind];
+
+        return (
+          <View key={comment.id} style={styles.comment} testID={`task-comment-${comment.id}`}>
+            <View style={styles.commentHeader}>
+              <Text style={styles.author}>
+                {comment.author_id === currentUserId ? 'You' : otherName}
+              </Text>
+              {kindLabel && (
+                <View
+                  style={[
+                    styles.kindBadge,
+                    comment.kind === 'returned' && styles.kindBadgeReturned,
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.kindBadgeText,
+                      comment.kind === 'returned' && styles.kindBadgeTextReturned,
+                    ]}
+                  >
+                    {kindLabel}
+                  </Text>
+                </View>
+              )}
+              <Text style={styles.date}>{new Date(comment.created_at).toLocaleDateString()}</Text>
+            </View>
+            {comment.body ? <Text style={styles.body}>{comment.body}</Text> : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    emptyText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    comment: {
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.borderLight,
+    },
+    commentHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 4,
+    },
+    author: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    kindBadge: {
+      backgroundColor: '#d1fae5',
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 10,
+    },
+    kindBadgeReturned: {
+      backgroundColor: '#fef3c7',
+    },
+    kindBadgeText: {
+      fontSize: 11,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#047857',
+    },
+    kindBadgeTextReturned: {
+      color: '#b45309',
+    },
+    date: {
+      marginLeft: 'auto',
+      fontSize: 12,
+      fontFamily: theme.fontRegular,
+      color: theme.textTertiary,
+    },
+    body: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+      lineHeight: 20,
+    },
+  });
@@ -10,21 +10,39 @@ import {
   ActivityIndicator,
   Platform,
 } from 'react-native';
-import { supabase } from '@/lib/supabase';
-import { TaskTemplate, Profile } from '@/types/database';
+import {
+  createSeriesOccurrence,
+  createTasks,
+  createTaskSeries,
+  fetchTaskTemplates,
+  stopTaskSeries,
+  updateTask,
+} from '@/lib/repositories';
+import { Task, TaskTemplate, Profile } from '@/types/database';
 import { ThemeColors } from '@/contexts/ThemeContext';
-import { X, ChevronDown, Calendar } from 'lucide-react-native';
+import { X, ChevronDown, Calendar, Check } from 'lucide-react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { logger, LogCategory } from '@/lib/logger';
+import { sendNotification, sendNotifications } from '@/lib/notifications';
 import { formatLocalDate, parseDateAsLocal } from '@/lib/date';
+import { formatProfileName } from '@/lib/format';
+import {
+  isValidRecurrenceRule,
+  MAX_INTERVAL_DAYS,
+  type RecurrenceRule,
+} from '@/lib/task-recurrence';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import { getTaskChanges, summarizeTaskChanges } from '@/lib/task-changes';
 
 interface TaskCreationModalProps {
   visible: boolean;
   onClose: () => void;
+  /** Called after a task is assigned, or after the edited task is saved */
   onTaskCreated: () => void;
   sponsorId: string;
   sponsees: Profile[];
   preselectedSponseeId?: string;
+  /** A task to edit instead of assigning a new one; it must not be completed */
+  task?: Task | null;
   theme: ThemeColors;
 }
 
@@ -35,9 +53,12 @@ export default function TaskCreationModal({
   sponsorId,
   sponsees,
   preselectedSponseeId,
+  task,
   theme,
 }: TaskCreationModalProps) {
-  const [selectedSponseeId, setSelectedSponseeId] = useState<string>(preselectedSponseeId || '');
+  const [selectedSponseeIds, setSelectedSponseeIds] = useState<string[]>(
+    preselectedSponseeId ? [preselectedSponseeId] : []
+  );
   const [selectedStepNumber, setSelectedStepNumber] = useState<number | null>(null);
   const [templates, setTemplates] = useState<TaskTemplate[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<TaskTemplate | null>(null);
@@ -45,6 +66,8 @@ export default function TaskCreationModal({
   const [customDescription, setCustomDescription] = useState('');
   const [dueDate, setDueDate] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule | null>(null);
+  const [assignPack, setAssignPack] = useState(false);
   const [activeDropdown, setActiveDropdown] = useState<'sponsee' | 'step' | 'template' | null>(
     null
   );
@@ -56,17 +79,17 @@ export default function TaskCreationModal({
       setTemplates([]);
       return;
     }
-    const { data } = await supabase
-      .from('task_templates')
-      .select('*')
-      .eq('step_number', selectedStepNumber)
-      .order('title');
-    setTemplates(data || []);
+    try {
+      setTemplates(await fetchTaskTemplates(selectedStepNumber));
+    } catch {
+      // Already logged by the repository; tasks can still be written by hand
+      setTemplates([]);
+    }
   }, [selectedStepNumber]);
 
   useEffect(() => {
     if (preselectedSponseeId) {
-      setSelectedSponseeId(preselectedSponseeId);
+      setSelectedSponseeIds([preselectedSponseeId]);
     }
   }, [preselectedSponseeId]);
 
@@ -76,6 +99,23 @@ export default function TaskCreationModal({
     }
   }, [visible, fetchTemplates]);
 
+  useEffect(() => {
+    if (!visible || !task) return;
+    setSelectedSponseeIds([task.sponsee_id]);
+    setSelectedStepNumber(task.step_number);
+    setSelectedTemplate(null);
+    setCustomTitle(task.title);
+    setCustomDescription(task.description);
+    setDueDate(task.due_date ? parseDateAsLocal(task.due_date) : null);
+    setRecurrenceRule(null);
+    setAssignPack(false);
+    setError('');
+  }, [visible, task]);
+
+  /** The step's default templates, which can be assigned together as a pack */
+  const defaultTemplates = templates.filter((template) => template.is_default);
+  const packSelected = assignPack && !task && defaultTemplates.length > 0;
+
   const handleTemplateSelect = (template: TaskTemplate) => {
     setSelectedTemplate(template);
     setCustomTitle(template.title);
@@ -91,61 +131,216 @@ export default function TaskCreationModal({
     setActiveDropdown(null);
   };
 
+  /**
+   * Adds or removes a sponsee from the assignment. The menu stays open so
+   * several sponsees can be picked in a row.
+   */
+  const toggleSponsee = (sponseeId: string) => {
+    setSelectedSponseeIds((current) =>
+      current.includes(sponseeId)
+        ? current.filter((id) => id !== sponseeId)
+        : [...current, sponseeId]
+    );
+  };
+
+  const togglePack = () => {
+    setAssignPack(!assignPack);
+    setSelectedTemplate(null);
+    setRecurrenceRule(null);
+  };
+
+  const formatSponseeLabel = () => {
+    if (selectedSponseeIds.length === 0) return 'Select sponsee';
+    if (selectedSponseeIds.length > 1) return `${selectedSponseeIds.length} sponsees`;
+
+    const sponsee = sponsees.find((s) => s.id === selectedSponseeIds[0]);
+    return `${sponsee?.first_name} ${sponsee?.last_initial}.`;
+  };
+
+  /**
+   * Picks a step. A new task starts over from that step's templates; an edited
+   * task keeps its wording.
+   */
+  const selectStep = (step: number | null) => {
+    setSelectedStepNumber(step);
+    setSelectedTemplate(null);
+    setAssignPack(false);
+    if (!task) {
+      setCustomTitle('');
+      setCustomDescription('');
+    }
+    closeAllDropdowns();
+  };
+
+  /**
+   * Saves the edited task and tells the sponsee what changed. Closes without
+   * saving when nothing was changed, and stays open with an error when the
+   * sponsee completed the task in the meantime.
+   */
+  const saveTaskEdits = async (editedTask: Task) => {
+    const changes = getTaskChanges(editedTask, {
+      title: customTitle.trim(),
+      description: customDescription.trim(),
+      step_number: selectedStepNumber,
+      due_date: dueDate ? formatLocalDate(dueDate) : null,
+    });
+
+    if (Object.keys(changes).length === 0) {
+      handleClose();
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const updated = await updateTask(editedTask.id, changes);
+      if (!updated) {
+        setError('This task has been completed and can no longer be edited.');
+        return;
+      }
+
+      await sendNotification({
+        user_id: editedTask.sponsee_id,
+        type: 'task_assigned',
+        title: 'Task Updated',
+        content: `Your sponsor updated "${editedTask.title}": ${summarizeTaskChanges(changes).join('; ')}`,
+        data: {
+          task_id: editedTask.id,
+          step_number: selectedStepNumber,
+          task_title: customTitle.trim(),
+        },
+      });
+
+      resetForm();
+      onTaskCreated();
+      onClose();
+    } catch {
+      setError('Failed to update task. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleSubmit = async () => {
     setError('');
 
-    if (!selectedSponseeId) {
+    if (selectedSponseeIds.length === 0) {
       setError('Please select a sponsee');
       return;
     }
 
-    if (!customTitle.trim()) {
+    if (!packSelected && !customTitle.trim()) {
       setError('Please enter a task title');
       return;
     }
 
-    if (!customDescription.trim()) {
+    if (!packSelected && !customDescription.trim()) {
       setError('Please enter a task description');
       return;
     }
 
+    if (task) {
+      await saveTaskEdits(task);
+      return;
+    }
+
+    if (recurrenceRule && !isValidRecurrenceRule(recurrenceRule)) {
+      setError(`Please choose to repeat every 1 to ${MAX_INTERVAL_DAYS} days`);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      const taskData = {
-        sponsor_id: sponsorId,
-        sponsee_id: selectedSponseeId,
-        step_number: selectedStepNumber || null,
-        title: customTitle.trim(),
-        description: customDescription.trim(),
-        due_date: dueDate ? formatLocalDate(dueDate) : null,
-        status: 'assigned',
-      };
-
-      const { error: insertError } = await supabase.from('tasks').insert(taskData);
-
-      if (insertError) throw insertError;
-
-      await supabase.from('notifications').insert({
-        user_id: selectedSponseeId,
-        type: 'task_assigned',
-        title: 'New Task Assigned',
-        content: selectedStepNumber
-          ? `Your sponsor has assigned you a new task for Step ${selectedStepNumber}: ${customTitle.trim()}`
-          : `Your sponsor has assigned you a new task: ${customTitle.trim()}`,
-        data: {
-          step_number: selectedStepNumber,
-          task_title: customTitle.trim(),
-        },
-      });
+      const contents = packSelected
+        ? defaultTemplates.map(({ title, description }) => ({ title, description }))
+        : [{ title: customTitle.trim(), description: customDescription.trim() }];
+      // One task per sponsee and template, all saved in a single insert
+      const newTasks = selectedSponseeIds.flatMap((sponseeId) =>
+        contents.map((content) => ({
+          sponsor_id: sponsorId,
+          sponsee_id: sponseeId,
+          step_number: selectedStepNumber || null,
+          ...content,
+        }))
+      );
+
+      // Sponsees whose first occurrence of a repeating task could not be created
+      let failedSponseeIds: string[] = [];
+
+      if (recurrenceRule) {
+        // A repeating task starts today unless the sponsor picked a first due date
+        const series = await createTaskSeries(
+          newTasks.map((newTask) => ({
+            ...newTask,
+            ...recurrenceRule,
+            starts_on: formatLocalDate(dueDate ?? new Date()),
+          }))
+        );
+        const results = await Promise.allSettled(
+          series.map((s) => createSeriesOccurrence(s.id, s.starts_on))
+        );
+        const failedSeries = series.filter((_, index) => results[index].status === 'rejected');
+        // A series without a first occurrence never advances, so stop it before a retry
+        await Promise.allSettled(failedSeries.map((s) => stopTaskSeries(s.id)));
+        failedSponseeIds = selectedSponseeIds.filter((sponseeId) =>
+          failedSeries.some((s) => s.sponsee_id === sponseeId)
+        );
+      } else {
+        await createTasks(
+          newTasks.map((newTask) => ({
+            ...newTask,
+            due_date: dueDate ? formatLocalDate(dueDate) : null,
+          }))
+        );
+      }
+
+      const assignedSponseeIds = selectedSponseeIds.filter(
+        (sponseeId) => !failedSponseeIds.includes(sponseeId)
+      );
+
+      await sendNotifications(
+        assignedSponseeIds.map((sponseeId) =>
+          packSelected
+            ? {
+                user_id: sponseeId,
+                type: 'task_assigned' as const,
+                title: 'New Tasks Assigned',
+                content: `Your sponsor has assigned you ${contents.length} new tasks for Step ${selectedStepNumber}`,
+                data: {
+                  step_number: selectedStepNumber,
+                },
+              }
+            : {
+                user_id: sponseeId,
+                type: 'task_assigned' as const,
+                title: 'New Task Assigned',
+                content: selectedStepNumber
+                  ? `Your sponsor has assigned you a new task for Step ${selectedStepNumber}: ${customTitle.trim()}`
+                  : `Your sponsor has assigned you a new task: ${customTitle.trim()}`,
+                data: {
+                  step_number: selectedStepNumber,
+                  task_title: customTitle.trim(),
+                },
+              }
+        )
+      );
+
+      if (failedSponseeIds.length > 0) {
+        // Keep the form open for the sponsees that still need the task
+        if (assignedSponseeIds.length > 0) onTaskCreated();
+        setSelectedSponseeIds(failedSponseeIds);
+        const names = failedSponseeIds
+          .map((sponseeId) => formatProfileName(sponsees.find((s) => s.id === sponseeId)))
+          .join(', ');
+        setError(`Failed to assign the task to: ${names}`);
+        return;
+      }
 
       resetForm();
       onTaskCreated();
       onClose();
-    } catch (err) {
-      logger.error('Task creation failed', err as Error, {
-        category: LogCategory.DATABASE,
-      });
+    } catch {
       setError('Failed to create task. Please try again.');
     } finally {
       setIsSubmitting(false);
@@ -153,12 +348,14 @@ export default function TaskCreationModal({
   };
 
   const resetForm = () => {
-    setSelectedSponseeId(preselectedSponseeId || '');
+    setSelectedSponseeIds(preselectedSponseeId ? [preselectedSponseeId] : []);
     setSelectedStepNumber(null);
     setSelectedTemplate(null);
     setCustomTitle('');
     setCustomDescription('');
     setDueDate(null);
+    setRecurrenceRule(null);
+    setAssignPack(false);
     setError('');
     setActiveDropdown(null);
   };
@@ -179,7 +376,7 @@ export default function TaskCreationModal({
           onPress={(e) => e.stopPropagation()}
         >
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Assign New Task</Text>
+            <Text style={styles.modalTitle}>{task ? 'Edit Task' : 'Assign New Task'}</Text>
             <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
               <X size={24} color={theme.textSecondary} />
             </TouchableOpacity>
@@ -194,13 +391,18 @@ export default function TaskCreationModal({
 
             <View style={styles.formGroup}>
               <Text style={styles.label}>Sponsee *</Text>
-              <TouchableOpacity style={styles.dropdown} onPress={() => toggleDropdown('sponsee')}>
-                <Text style={[styles.dropdownText, !selectedSponseeId && styles.placeholderText]}>
-                  {selectedSponseeId
-                    ? `${sponsees.find((s) => s.id === selectedSponseeId)?.first_name} ${
-                        sponsees.find((s) => s.id === selectedSponseeId)?.last_initial
-                      }.`
-                    : 'Select sponsee'}
+              <TouchableOpacity
+                style={[styles.dropdown, !!task && styles.dropdownDisabled]}
+                onPress={() => toggleDropdown('sponsee')}
+                disabled={!!task}
+              >
+                <Text
+                  style={[
+                    styles.dropdownText,
+                    selectedSponseeIds.length === 0 && styles.placeholderText,
+                  ]}
+                >
+                  {formatSponseeLabel()}
                 </Text>
                 <ChevronDown size={20} color={theme.textSecondary} />
               </TouchableOpacity>
@@ -209,21 +411,24 @@ export default function TaskCreationModal({
             {activeDropdown === 'sponsee' && (
               <View style={styles.dropdownMenuOverlay}>
                 <ScrollView style={styles.dropdownMenuScrollable}>
-                  {sponsees.map((sponsee) => (
-                    <TouchableOpacity
-                      key={sponsee.id}
-                      style={styles.dropdownItem}
-                      onPress={() => {
-                        setSelectedSponseeId(sponsee.id);
-                        closeAllDropdowns();
-                      }}
-                    >
-                      <Text style={styles.dropdownItemText}>
-                        {sponsee?.first_name}
-                        {sponsee?.last_initial ? ` ${sponsee?.last_initial}.` : ''}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
+                  {sponsees.map((sponsee) => {
+                    const selected = selectedSponseeIds.includes(sponsee.id);
+                    return (
+                      <TouchableOpacity
+                        key={sponsee.id}
+                        style={[styles.dropdownItem, styles.dropdownItemRow]}
+                        onPress={() => toggleSponsee(sponsee.id)}
+                        accessibilityRole="checkbox"
+                        accessibilityState={{ checked: selected }}
+                      >
+                        <Text style={styles.dropdownItemText}>
+                          {sponsee?.first_name}
+                          {sponsee?.last_initial ? ` ${sponsee?.last_initial}.` : ''}
+                        </Text>
+                        {selected && <Check size={18} color={theme.primary} />}
+                      </TouchableOpacity>
+                    );
+                  })}
                 </ScrollView>
               </View>
             )}
@@ -241,16 +446,7 @@ export default function TaskCreationModal({
             {activeDropdown === 'step' && (
               <View style={styles.dropdownMenuOverlay}>
                 <ScrollView style={styles.dropdownMenuScrollable}>
-                  <TouchableOpacity
-                    style={styles.dropdownItem}
-                    onPress={() => {
-                      setSelectedStepNumber(null);
-                      setSelectedTemplate(null);
-                      setCustomTitle('');
-                      setCustomDescription('');
-                      closeAllDropdowns();
-                    }}
-                  >
+                  <TouchableOpacity style={styles.dropdownItem} onPress={() => selectStep(null)}>
                     <Text style={[styles.dropdownItemText, { fontStyle: 'italic' }]}>
                       No specific step
                     </Text>
@@ -259,13 +455,7 @@ export default function TaskCreationModal({
                     <TouchableOpacity
                       key={step}
                       style={styles.dropdownItem}
-                      onPress={() => {
-                        setSelectedStepNumber(step);
-                        setSelectedTemplate(null);
-                        setCustomTitle('');
-                        setCustomDescription('');
-                        closeAllDropdowns();
-                      }}
+                      onPress={() => selectStep(step)}
                     >
                       <Text style={styles.dropdownItemText}>Step {step}</Text>
                     </TouchableOpacity>
@@ -274,87 +464,131 @@ export default function TaskCreationModal({
               </View>
             )}
 
-            <View style={styles.formGroup}>
-              <Text style={styles.label}>Task Template (Optional)</Text>
-              <TouchableOpacity
-                style={[styles.dropdown, !selectedStepNumber && styles.dropdownDisabled]}
-                onPress={() => {
-                  if (selectedStepNumber) {
-                    toggleDropdown('template');
-                  }
-                }}
-                disabled={!selectedStepNumber}
-              >
-                <Text
-                  style={[
-                    styles.dropdownText,
-                    (!selectedStepNumber || !selectedTemplate) && styles.placeholderText,
-                  ]}
+            {!task && selectedStepNumber && defaultTemplates.length > 0 && (
+              <View style={styles.formGroup}>
+                <TouchableOpacity
+                  style={styles.packToggle}
+                  onPress={togglePack}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: assignPack }}
                 >
-                  {!selectedStepNumber
-                    ? 'Select a step first to see templates'
-                    : selectedTemplate
-                      ? selectedTemplate.title
-                      : 'Choose from template or create custom'}
-                </Text>
-                <ChevronDown size={20} color={theme.textSecondary} />
-              </TouchableOpacity>
-            </View>
-
-            {activeDropdown === 'template' && selectedStepNumber && (
-              <View style={styles.dropdownMenuOverlay}>
-                <ScrollView style={styles.dropdownMenuScrollable}>
-                  {templates.length === 0 ? (
-                    <View style={styles.dropdownItem}>
-                      <Text style={styles.dropdownItemTextSmall}>
-                        No templates available for this step
+                  <View style={[styles.checkbox, assignPack && styles.checkboxChecked]}>
+                    {assignPack && <Check size={14} color="#ffffff" />}
+                  </View>
+                  <Text style={styles.packToggleText}>
+                    Assign all {defaultTemplates.length} default tasks for Step {selectedStepNumber}
+                  </Text>
+                </TouchableOpacity>
+                {assignPack && (
+                  <View style={styles.packList}>
+                    {defaultTemplates.map((template) => (
+                      <Text key={template.id} style={styles.packItem}>
+                        • {template.title}
                       </Text>
-                    </View>
-                  ) : (
-                    templates.map((template) => (
-                      <TouchableOpacity
-                        key={template.id}
-                        style={styles.dropdownItem}
-                        onPress={() => handleTemplateSelect(template)}
-                      >
-                        <Text style={styles.dropdownItemTextBold}>{template.title}</Text>
-                        <Text style={styles.dropdownItemTextSmall} numberOfLines={2}>
-                          {template.description}
-                        </Text>
-                      </TouchableOpacity>
-                    ))
-                  )}
-                </ScrollView>
+                    ))}
+                  </View>
+                )}
               </View>
             )}
 
-            <View style={styles.formGroup}>
-              <Text style={styles.label}>Task Title *</Text>
-              <TextInput
-                style={styles.input}
-                value={customTitle}
-                onChangeText={setCustomTitle}
-                placeholder="Enter task title"
-                placeholderTextColor={theme.textTertiary}
-              />
-            </View>
+            {!packSelected && (
+              <>
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Task Template (Optional)</Text>
+                  <TouchableOpacity
+                    style={[styles.dropdown, !selectedStepNumber && styles.dropdownDisabled]}
+                    onPress={() => {
+                      if (selectedStepNumber) {
+                        toggleDropdown('template');
+                      }
+                    }}
+                    disabled={!selectedStepNumber}
+                  >
+                    <Text
+                      style={[
+                        styles.dropdownText,
+                        (!selectedStepNumber || !selectedTemplate) && styles.placeholderText,
+                      ]}
+                    >
+                      {!selectedStepNumber
+                        ? 'Select a step first to see templates'
+                        : selectedTemplate
+                          ? selectedTemplate.title
+                          : 'Choose from template or create custom'}
+                    </Text>
+                    <ChevronDown size={20} color={theme.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+
+                {activeDropdown === 'template' && selectedStepNumber && (
+                  <View style={styles.dropdownMenuOverlay}>
+                    <ScrollView style={styles.dropdownMenuScrollable}>
+                      {templates.length === 0 ? (
+                        <View style={styles.dropdownItem}>
+                          <Text style={styles.dropdownItemTextSmall}>
+                            No templates available for this step
+                          </Text>
+                        </View>
+                      ) : (
+                        templates.map((template) => (
+                          <TouchableOpacity
+                            key={template.id}
+                            style={styles.dropdownItem}
+                            onPress={() => handleTemplateSelect(template)}
+                          >
+                            <Text style={styles.dropdownItemTextBold}>{template.title}</Text>
+                            <Text style={styles.dropdownItemTextSmall} numberOfLines={2}>
+                              {template.description}
+                            </Text>
+                          </TouchableOpacity>
+                        ))
+                      )}
+                    </ScrollView>
+                  </View>
+                )}
+
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Task Title *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={customTitle}
+                    onChangeText={setCustomTitle}
+                    placeholder="Enter task title"
+                    placeholderTextColor={theme.textTertiary}
+                  />
+                </View>
+
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Task Description *</Text>
+                  <TextInput
+                    style={[styles.input, styles.textArea]}
+                    value={customDescription}
+                    onChangeText={setCustomDescription}
+                    placeholder="Enter task description"
+                    placeholderTextColor={theme.textTertiary}
+                    multiline
+                    numberOfLines={6}
+                    textAlignVertical="top"
+                  />
+                </View>
+              </>
+            )}
 
-            <View style={styles.formGroup}>
-              <Text style={styles.label}>Task Description *</Text>
-              <TextInput
-                style={[styles.input, styles.textArea]}
-                value={customDescription}
-                onChangeText={setCustomDescription}
-                placeholder="Enter task description"
-                placeholderTextColor={theme.textTertiary}
-                multiline
-                numberOfLines={6}
-                textAlignVertical="top"
-              />
-            </View>
+            {!task && !packSelected && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Repeat</Text>
+                <RecurrencePicker
+                  value={recurrenceRule}
+                  onChange={setRecurrenceRule}
+                  theme={theme}
+                />
+              </View>
+            )}
 
             <View style={styles.formGroup}>
-              <Text style={styles.label}>Due Date (Optional)</Text>
+              <Text style={styles.label}>
+                {recurrenceRule ? 'First Due Date (Defaults to Today)' : 'Due Date (Optional)'}
+              </Text>
               {Platform.OS === 'web' ? (
                 <input
                   type="date"
@@ -431,7 +665,13 @@ export default function TaskCreationModal({
               {isSubmitting ? (
                 <ActivityIndicator size="small" color="#ffffff" />
               ) : (
-                <Text style={styles.submitButtonText}>Assign Task</Text>
+                <Text style={styles.submitButtonText}>
+                  {task
+                    ? 'Save Changes'
+                    : packSelected
+                      ? `Assign ${defaultTemplates.length} Tasks`
+                      : 'Assign Task'}
+                </Text>
               )}
             </TouchableOpacity>
           </View>
@@ -527,6 +767,11 @@ const createStyles = (theme: ThemeColors) =>
       borderBottomWidth: 1,
       borderBottomColor: theme.borderLight,
     },
+    dropdownItemRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
     dropdownItemText: {
       fontSize: 16,
       fontFamily: theme.fontRegular,
@@ -545,6 +790,42 @@ const createStyles = (theme: ThemeColors) =>
       color: theme.textSecondary,
       lineHeight: 18,
     },
+    packToggle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    checkbox: {
+      width: 22,
+      height: 22,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: theme.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    checkboxChecked: {
+      backgroundColor: theme.primary,
+      borderColor: theme.primary,
+    },
+    packToggleText: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    packList: {
+      marginTop: 12,
+      padding: 12,
+      borderRadius: 8,
+      backgroundColor: theme.background,
+      gap: 6,
+    },
+    packItem: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
     input: {
       backgroundColor: theme.background,
       borderWidth: 1,
@@ -0,0 +1,458 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import {
+  addTaskComment,
+  fetchTaskComments,
+  reviewTask,
+  type TaskReviewDecision,
+} from '@/lib/repositories';
+import { sendNotification } from '@/lib/notifications';
+import { formatProfileName } from '@/lib/format';
+import { Task, TaskComment } from '@/types/database';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { X } from 'lucide-react-native';
+import TaskCommentThread from '@/components/TaskCommentThread';
+
+interface TaskReviewModalProps {
+  visible: boolean;
+  /** The task to review, joined with its sponsee, or null while none is selected */
+  task: Task | null;
+  /** The signed-in sponsor's profile ID */
+  sponsorId: string;
+  /** Whether the sponsee shares completion notes with this sponsor */
+  notesShared: boolean;
+  onClose: () => void;
+  /** Called after the task is acknowledged, sent back or replied to */
+  onReviewed: () => void;
+  theme: ThemeColors;
+}
+
+/**
+ * Lets a sponsor review a completed task: read the sponsee's completion notes
+ * and the feedback thread, then acknowledge the task or send it back with
+ * feedback. Once a task is acknowledged the sponsor can still reply on the
+ * thread.
+ *
+ * @param props - The task, who is reviewing it and handlers
+ * @returns The review modal
+ *
+ * @example
+ * ```tsx
+ * <TaskReviewModal
+ *   visible={!!reviewTask}
+ *   task={reviewTask}
+ *   sponsorId={profile.id}
+ *   notesShared={notesSharedBy.has(reviewTask.sponsee_id)}
+ *   onClose={() => setReviewTask(null)}
+ *   onReviewed={fetchManageData}
+ *   theme={theme}
+ * />
+ * ```
+ */
+export default function TaskReviewModal({
+  visible,
+  task,
+  sponsorId,
+  notesShared,
+  onClose,
+  onReviewed,
+  theme,
+}: TaskReviewModalProps) {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loadingComments, setLoadingComments] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible || !task) return;
+
+    let cancelled = false;
+    setFeedback('');
+    setError('');
+    setLoadingComments(true);
+
+    fetchTaskComments(task.id)
+      .then((rows) => {
+        if (!cancelled) setComments(rows);
+      })
+      .catch(() => {
+        // Already logged by the repository
+        if (!cancelled) setError('Failed to load feedback. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingComments(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, task]);
+
+  if (!task) return null;
+
+  const sponseeName = formatProfileName(task.sponsee);
+  const awaitingReview = task.status === 'completed' && !task.reviewed_at;
+
+  const handleReview = async (decision: TaskReviewDecision) => {
+    setError('');
+    const comment = feedback.trim();
+
+    if (decision === 'returned' && !comment) {
+      setError('Please add feedback so your sponsee knows what to revisit');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await reviewTask(task.id, decision, comment || null);
+
+      await sendNotification({
+        user_id: task.sponsee_id,
+        type: 'task_feedback',
+        title: decision === 'returned' ? 'Task Sent Back' : 'Task Acknowledged',
+        content:
+          decision === 'returned'
+            ? `Your sponsor sent back "${task.title}" with feedback`
+            : `Your sponsor acknowledged "${task.title}"`,
+        data: {
+          task_id: task.id,
+          step_number: task.step_number,
+        },
+      });
+
+      onReviewed();
+      onClose();
+    } catch {
+      setError('Failed to save your review. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReply = async () => {
+    setError('');
+    const reply = feedback.trim();
+
+    if (!reply) {
+      setError('Please enter a reply');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const comment = await addTaskComment(task.id, sponsorId, reply);
+      setComments((current) => [...current, comment]);
+      setFeedback('');
+
+      await sendNotification({
+        user_id: task.sponsee_id,
+        type: 'task_feedback',
+        title: 'New Task Feedback',
+        content: `Your sponsor replied on "${task.title}"`,
+        data: {
+          task_id: task.id,
+          step_number: task.step_number,
+        },
+      });
+
+      onReviewed();
+    } catch {
+      setError('Failed to send your reply. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {awaitingReview ? 'Review Task' : 'Task Feedback'}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null}
+
+            <Text style={styles.taskTitle}>{task.title}</Text>
+            <Text style={styles.statusText}>
+              {task.status === 'completed'
+                ? `Completed by ${sponseeName} ${new Date(task.completed_at!).toLocaleDateString()}`
+                : `Sent back to ${sponseeName}`}
+            </Text>
+
+            {task.status === 'completed' && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Completion Notes</Text>
+                {!notesShared ? (
+                  <Text style={styles.helpText}>
+                    {sponseeName} keeps their completion notes private.
+                  </Text>
+                ) : task.completion_notes ? (
+                  <Text style={styles.notesText}>{task.completion_notes}</Text>
+                ) : (
+                  <Text style={styles.helpText}>No notes were added.</Text>
+                )}
+              </View>
+            )}
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Feedback</Text>
+              {loadingComments ? (
+                <ActivityIndicator size="small" color={theme.primary} />
+              ) : (
+                <TaskCommentThread
+                  comments={comments}
+                  currentUserId={sponsorId}
+                  otherName={sponseeName}
+                  theme={theme}
+                />
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>{awaitingReview ? 'Your Feedback' : 'Reply'}</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={feedback}
+                onChangeText={setFeedback}
+                placeholder={
+                  awaitingReview
+                    ? 'Add a comment, or tell them what to revisit...'
+                    : 'Write a reply...'
+                }
+                placeholderTextColor={theme.textTertiary}
+                multiline
+                numberOfLines={4}
+                textAlignVertical="top"
+              />
+              {awaitingReview && (
+                <Text style={styles.helpText}>
+                  Sending a task back reopens it with their notes so they can keep working on it.
+                </Text>
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            {awaitingReview ? (
+              <>
+                <TouchableOpacity
+                  style={styles.returnButton}
+                  onPress={() => handleReview('returned')}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.returnButtonText}>Send Back</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, isSubmitting && styles.buttonDisabled]}
+                  onPress={() => handleReview('acknowledged')}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Text style={styles.submitButtonText}>Acknowledge</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={onClose}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.cancelButtonText}>Close</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, isSubmitting && styles.buttonDisabled]}
+                  onPress={handleReply}
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <ActivityIndicator size="small" color="#ffffff" />
+                  ) : (
+                    <Text style={styles.submitButtonText}>Send Reply</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    modalContent: {
+      backgroundColor: theme.card,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      maxHeight: '90%',
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    modalBody: {
+      padding: 20,
+    },
+    taskTitle: {
+      fontSize: 18,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 4,
+    },
+    statusText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginBottom: 20,
+    },
+    formGroup: {
+      marginBottom: 20,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 8,
+    },
+    helpText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 8,
+    },
+    notesText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+      lineHeight: 20,
+      backgroundColor: theme.background,
+      padding: 12,
+      borderRadius: 8,
+    },
+    input: {
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    textArea: {
+      minHeight: 96,
+      paddingTop: 12,
+    },
+    errorContainer: {
+      backgroundColor: '#fee2e2',
+      padding: 12,
+      borderRadius: 8,
+      marginBottom: 16,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+    },
+    modalFooter: {
+      flexDirection: 'row',
+      padding: 20,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+      gap: 12,
+    },
+    cancelButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      alignItems: 'center',
+    },
+    cancelButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    returnButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: '#f59e0b',
+      alignItems: 'center',
+    },
+    returnButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#b45309',
+    },
+    submitButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+      alignItems: 'center',
+    },
+    submitButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
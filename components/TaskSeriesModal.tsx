@@ -0,0 +1,458 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { stopTaskSeries, updateTaskSeries } from '@/lib/repositories';
+import { Task, TaskSeries } from '@/types/database';
+import { ThemeColors } from '@/contexts/ThemeContext';
+import { X, CheckCircle, Clock } from 'lucide-react-native';
+import { parseDateAsLocal } from '@/lib/date';
+import {
+  describeRecurrence,
+  isValidRecurrenceRule,
+  MAX_INTERVAL_DAYS,
+  type RecurrenceRule,
+} from '@/lib/task-recurrence';
+import RecurrencePicker from '@/components/RecurrencePicker';
+
+interface TaskSeriesModalProps {
+  visible: boolean;
+  /** The series to show, or null while none is selected */
+  series: TaskSeries | null;
+  /** The series' tasks, in any order */
+  occurrences: Task[];
+  /** Today's date as YYYY-MM-DD in the sponsee's timezone */
+  today: string;
+  onClose: () => void;
+  /** Called after the series is edited or stopped */
+  onSeriesChanged: () => void;
+  theme: ThemeColors;
+}
+
+/**
+ * Shows a recurring task's schedule and the history of its occurrences, and
+ * lets the sponsor edit or stop it.
+ *
+ * @param props - The series, its occurrences and handlers
+ * @returns The series modal
+ *
+ * @example
+ * ```tsx
+ * <TaskSeriesModal
+ *   visible={!!series}
+ *   series={series}
+ *   occurrences={tasks.filter((task) => task.series_id === series?.id)}
+ *   today={today}
+ *   onClose={() => setSeries(null)}
+ *   onSeriesChanged={fetchManageData}
+ *   theme={theme}
+ * />
+ * ```
+ */
+export default function TaskSeriesModal({
+  visible,
+  series,
+  occurrences,
+  today,
+  onClose,
+  onSeriesChanged,
+  theme,
+}: TaskSeriesModalProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [rule, setRule] = useState<RecurrenceRule | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!series) return;
+    setTitle(series.title);
+    setDescription(series.description);
+    setRule({ recurrence: series.recurrence, interval_days: series.interval_days });
+    setError('');
+  }, [series]);
+
+  if (!series) return null;
+
+  const isStopped = !!series.stopped_at;
+  const history = [...occurrences].sort((a, b) =>
+    (b.due_date ?? '').localeCompare(a.due_date ?? '')
+  );
+
+  const handleSave = async () => {
+    setError('');
+
+    if (!title.trim()) {
+      setError('Please enter a task title');
+      return;
+    }
+
+    if (!description.trim()) {
+      setError('Please enter a task description');
+      return;
+    }
+
+    if (!rule || !isValidRecurrenceRule(rule)) {
+      setError(`Please choose to repeat every 1 to ${MAX_INTERVAL_DAYS} days`);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await updateTaskSeries(series.id, {
+        title: title.trim(),
+        description: description.trim(),
+        ...rule,
+      });
+      onSeriesChanged();
+      onClose();
+    } catch {
+      setError('Failed to update recurring task. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStop = async () => {
+    const confirmMessage = `Stop repeating "${series.title}"? Tasks already assigned will be kept.`;
+
+    const confirmed =
+      Platform.OS === 'web'
+        ? window.confirm(confirmMessage)
+        : await new Promise<boolean>((resolve) => {
+            Alert.alert('Stop Recurring Task', confirmMessage, [
+              { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+              { text: 'Stop', style: 'destructive', onPress: () => resolve(true) },
+            ]);
+          });
+
+    if (!confirmed) return;
+
+    setIsSubmitting(true);
+
+    try {
+      await stopTaskSeries(series.id);
+      onSeriesChanged();
+      onClose();
+    } catch {
+      setError('Failed to stop recurring task. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const styles = createStyles(theme);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Recurring Task</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color={theme.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
+            {error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null}
+
+            <Text style={styles.scheduleText}>
+              {isStopped
+                ? `Stopped ${new Date(series.stopped_at!).toLocaleDateString()}`
+                : `${describeRecurrence(series)} since ${parseDateAsLocal(series.starts_on).toLocaleDateString()}`}
+            </Text>
+
+            {isStopped ? (
+              <Text style={styles.stoppedTitle}>{series.title}</Text>
+            ) : (
+              <>
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Task Title *</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={title}
+                    onChangeText={setTitle}
+                    placeholder="Enter task title"
+                    placeholderTextColor={theme.textTertiary}
+                  />
+                </View>
+
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Task Description *</Text>
+                  <TextInput
+                    style={[styles.input, styles.textArea]}
+                    value={description}
+                    onChangeText={setDescription}
+                    placeholder="Enter task description"
+                    placeholderTextColor={theme.textTertiary}
+                    multiline
+                    numberOfLines={4}
+                    textAlignVertical="top"
+                  />
+                </View>
+
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Repeat</Text>
+                  <RecurrencePicker
+                    value={rule}
+                    onChange={setRule}
+                    allowNone={false}
+                    theme={theme}
+                  />
+                  <Text style={styles.helpText}>
+                    Wording changes apply to tasks that are not completed yet. A new schedule starts
+                    from the next task.
+                  </Text>
+                </View>
+              </>
+            )}
+
+            <Text style={styles.label}>History</Text>
+            {history.length === 0 ? (
+              <Text style={styles.helpText}>No tasks have been assigned yet.</Text>
+            ) : (
+              history.map((task) => {
+                const missed =
+                  task.status !== 'completed' && !!task.due_date && task.due_date < today;
+
+                return (
+                  <View key={task.id} style={styles.historyRow} testID={`occurrence-${task.id}`}>
+                    {task.status === 'completed' ? (
+                      <CheckCircle size={18} color="#10b981" />
+                    ) : (
+                      <Clock size={18} color={missed ? '#ef4444' : theme.textSecondary} />
+                    )}
+                    <Text style={styles.historyDate}>
+                      {task.due_date
+                        ? parseDateAsLocal(task.due_date).toLocaleDateString()
+                        : 'No due date'}
+                    </Text>
+                    <Text style={[styles.historyStatus, missed && styles.historyStatusMissed]}>
+                      {task.status === 'completed'
+                        ? `Completed ${new Date(task.completed_at!).toLocaleDateString()}`
+                        : missed
+                          ? 'Missed'
+                          : 'Open'}
+                    </Text>
+                  </View>
+                );
+              })
+            )}
+
+            {!isStopped && (
+              <TouchableOpacity
+                style={styles.stopButton}
+                onPress={handleStop}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.stopButtonText}>Stop Repeating</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          {!isStopped && (
+            <View style={styles.modalFooter}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={onClose}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.submitButton, isSubmitting && styles.buttonDisabled]}
+                onPress={handleSave}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.submitButtonText}>Save Changes</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: ThemeColors) =>
+  StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    modalContent: {
+      backgroundColor: theme.card,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      maxHeight: '90%',
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.border,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontFamily: theme.fontRegular,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    modalBody: {
+      padding: 20,
+    },
+    scheduleText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.primary,
+      marginBottom: 16,
+    },
+    stoppedTitle: {
+      fontSize: 18,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 20,
+    },
+    formGroup: {
+      marginBottom: 20,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.text,
+      marginBottom: 8,
+    },
+    helpText: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+      marginTop: 8,
+    },
+    input: {
+      backgroundColor: theme.background,
+      borderWidth: 1,
+      borderColor: theme.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    textArea: {
+      minHeight: 96,
+      paddingTop: 12,
+    },
+    historyRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.borderLight,
+    },
+    historyDate: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: theme.text,
+    },
+    historyStatus: {
+      fontSize: 13,
+      fontFamily: theme.fontRegular,
+      color: theme.textSecondary,
+    },
+    historyStatusMissed: {
+      color: '#ef4444',
+    },
+    stopButton: {
+      marginTop: 20,
+      marginBottom: 20,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: '#ef4444',
+      alignItems: 'center',
+    },
+    stopButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ef4444',
+    },
+    errorContainer: {
+      backgroundColor: '#fee2e2',
+      padding: 12,
+      borderRadius: 8,
+      marginBottom: 16,
+    },
+    errorText: {
+      fontSize: 14,
+      fontFamily: theme.fontRegular,
+      color: '#ef4444',
+    },
+    modalFooter: {
+      flexDirection: 'row',
+      padding: 20,
+      borderTopWidth: 1,
+      borderTopColor: theme.border,
+      gap: 12,
+    },
+    cancelButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.border,
+      alignItems: 'center',
+    },
+    cancelButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    submitButton: {
+      flex: 1,
+      padding: 14,
+      borderRadius: 8,
+      backgroundColor: theme.primary,
+      alignItems: 'center',
+    },
+    submitButtonText: {
+      fontSize: 16,
+      fontFamily: theme.fontRegular,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
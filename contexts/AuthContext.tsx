@@ -9,6 +9,9 @@ import { Platform } from 'react-native';
 import { setSentryUser, clearSentryUser, setSentryContext } from '@/lib/sentry';
 import { logger, LogCategory } from '@/lib/logger';
 import { DEVICE_TIMEZONE } from '@/lib/date';
+import { cancelLocalNotifications } from '@/lib/local-notifications';
+import { clearOfflineCache, clearSyncQueue } from '@/lib/offline';
+import { removeAllRealtimeChannels } from '@/lib/realtime';
 
 WebBrowser.maybeCompleteAuthSession();
 
@@ -156,15 +159,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const fetchProfile = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .maybeSingle();
+      // Direct selects cannot read the sobriety date, so read the profile through a function
+      const { data, error } = await supabase.rpc('get_own_profile').maybeSingle();
 
       if (error) throw error;
-      setProfile(data);
-      return data;
+      setProfile(data as Profile | null);
+      return data as Profile | null;
     } catch (error) {
       logger.error('Profile fetch failed', error as Error, {
         category: LogCategory.DATABASE,
@@ -190,7 +190,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const createOAuthProfileIfNeeded = async (user: User): Promise<void> => {
     const { data: existingProfile, error: queryError } = await supabase
       .from('profiles')
-      .select('*')
+      .select('id')
       .eq('id', user.id)
       .maybeSingle();
 
@@ -557,6 +557,36 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       throw error;
     }
 
+    // Scheduled reminders belong to the signed-out user
+    try {
+      await cancelLocalNotifications();
+    } catch (err) {
+      logger.warn('Cancelling local notifications failed', {
+        category: LogCategory.NOTIFICATION,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    // Live subscriptions are filtered to the signed-out user
+    try {
+      await removeAllRealtimeChannels();
+    } catch (err) {
+      logger.warn('Closing realtime channels failed', {
+        category: LogCategory.SYNC,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    // Cached data and unsynced changes belong to the signed-out user
+    try {
+      await Promise.all([clearOfflineCache(), clearSyncQueue()]);
+    } catch (err) {
+      logger.warn('Clearing offline data failed', {
+        category: LogCategory.SYNC,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
     // Always clear local state to ensure consistent UI
     setSession(null);
     setUser(null);
@@ -607,6 +637,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // Don't throw - account is already deleted, just continue to clear local state
     }
 
+    try {
+      await removeAllRealtimeChannels();
+    } catch (err) {
+      logger.warn('Closing realtime channels failed', {
+        category: LogCategory.SYNC,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
     // Clear local state and Sentry user
     // Order matters: clear user/session first so routing logic sees !user → login
     clearSentryUser();
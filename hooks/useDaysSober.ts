@@ -1,8 +1,8 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
-import { supabase } from '@/lib/supabase';
 import { getDateDiffInDays, DEVICE_TIMEZONE } from '@/lib/date';
 import { useAuth } from '@/contexts/AuthContext';
-import type { SlipUp, Profile } from '@/types/database';
+import { fetchLatestSlipUp, fetchSobrietySummary } from '@/lib/repositories';
+import type { SlipUp, SobrietySummary } from '@/types/database';
 import type { PostgrestError } from '@supabase/supabase-js';
 import { TZDate } from '@date-fns/tz';
 import { addDays, format } from 'date-fns';
@@ -39,7 +39,7 @@ export interface DaysSoberResult {
   currentStreakStartDate: string | null;
   /** Whether user has any recorded slip-ups */
   hasSlipUps: boolean;
-  /** Most recent slip-up record, if any */
+  /** Most recent slip-up record, if any (only loaded for the current user) */
   mostRecentSlipUp: SlipUp | null;
   /** Loading state for async operations */
   loading: boolean;
@@ -115,7 +115,8 @@ function getMillisecondsUntilMidnight(timezone: string = DEVICE_TIMEZONE): numbe
  * Automatically updates at midnight to ensure day counts stay accurate
  * even if the component remains mounted across date boundaries.
  *
- * @param userId - Optional user ID to fetch data for (defaults to current user)
+ * @param userId - Optional user ID to fetch data for (defaults to current user). Another
+ *   user's counts are zero unless they share their sobriety date with the current user
  * @returns Object containing sobriety metrics, loading state, and error info
  *
  * @example
@@ -137,14 +138,14 @@ export function useDaysSober(userId?: string): DaysSoberResult {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<PostgrestError | Error | null>(null);
   const [mostRecentSlipUp, setMostRecentSlipUp] = useState<SlipUp | null>(null);
-  const [fetchedProfile, setFetchedProfile] = useState<Profile | null>(null);
+  const [sharedSummary, setSharedSummary] = useState<SobrietySummary | null>(null);
 
   // State to trigger recalculation at midnight
   const [currentDate, setCurrentDate] = useState(() => new Date().toDateString());
 
   const targetUserId = userId || user?.id;
   const isCurrentUser = !userId || userId === user?.id;
-  const targetProfile = isCurrentUser ? profile : fetchedProfile;
+  const targetProfile = isCurrentUser ? profile : sharedSummary;
 
   // Ref to track the active midnight refresh timer
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -187,7 +188,7 @@ export function useDaysSober(userId?: string): DaysSoberResult {
     async function fetchData() {
       if (!targetUserId) {
         setMostRecentSlipUp(null);
-        setFetchedProfile(null);
+        setSharedSummary(null);
         setError(null);
         setLoading(false);
         return;
@@ -197,32 +198,19 @@ export function useDaysSober(userId?: string): DaysSoberResult {
         setLoading(true);
         setError(null);
 
-        // Fetch profile if not current user
+        // Another user's streak comes from a summary that respects what they
+        // share; it is empty when they do not share their sobriety date
         if (!isCurrentUser) {
-          setFetchedProfile(null); // Clear old profile first
+          setSharedSummary(null); // Clear old summary first
+          setMostRecentSlipUp(null);
 
-          const { data: profileData, error: profileError } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', targetUserId)
-            .single();
-
-          if (profileError) throw profileError;
-          setFetchedProfile(profileData);
+          setSharedSummary(await fetchSobrietySummary(targetUserId));
+          return;
         }
 
-        // Fetch most recent slip-up
-        const { data, error: fetchError } = await supabase
-          .from('slip_ups')
-          .select('*')
-          .eq('user_id', targetUserId)
-          .order('slip_up_date', { ascending: false })
-          .limit(1);
-
-        if (fetchError) throw fetchError;
-
-        setMostRecentSlipUp(data && data.length > 0 ? data[0] : null);
+        setMostRecentSlipUp(await fetchLatestSlipUp(targetUserId));
       } catch (err) {
+        // Already logged by the repository
         setError(err as PostgrestError | Error);
       } finally {
         setLoading(false);
@@ -238,7 +226,9 @@ export function useDaysSober(userId?: string): DaysSoberResult {
 
     // Determine which date to use for streak calculation
     let streakStartDate: string | null = null;
-    if (mostRecentSlipUp) {
+    if (!isCurrentUser) {
+      streakStartDate = sharedSummary?.current_streak_start ?? null;
+    } else if (mostRecentSlipUp) {
       streakStartDate = mostRecentSlipUp.recovery_restart_date;
     } else if (sobrietyDate) {
       streakStartDate = sobrietyDate;
@@ -262,12 +252,23 @@ export function useDaysSober(userId?: string): DaysSoberResult {
       journeyDays,
       journeyStartDate: sobrietyDate || null,
       currentStreakStartDate: streakStartDate,
-      hasSlipUps: mostRecentSlipUp !== null,
+      hasSlipUps: isCurrentUser
+        ? mostRecentSlipUp !== null
+        : !!streakStartDate && streakStartDate !== sobrietyDate,
       mostRecentSlipUp,
       loading,
       error,
     };
-  }, [mostRecentSlipUp, targetProfile, loading, error, currentDate, userTimezone]);
+  }, [
+    mostRecentSlipUp,
+    sharedSummary,
+    isCurrentUser,
+    targetProfile,
+    loading,
+    error,
+    currentDate,
+    userTimezone,
+  ]);
 
   return result;
 }
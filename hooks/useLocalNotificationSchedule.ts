@@ -0,0 +1,103 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDaysSober } from '@/hooks/useDaysSober';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+import { DEVICE_TIMEZONE } from '@/lib/date';
+import {
+  configureLocalNotifications,
+  rescheduleLocalNotifications,
+  type LocalNotificationSchedule,
+} from '@/lib/local-notifications';
+import { logger, LogCategory } from '@/lib/logger';
+import { fetchDueTasks } from '@/lib/repositories';
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Keeps the device's local milestone, daily reminder and task due-date
+ * notifications in sync with the signed-in user's streak, tasks and preferences.
+ *
+ * @remarks
+ * The schedule is rebuilt whenever its inputs change: the current streak start
+ * (which moves when a slip-up is logged or the sobriety date is edited, since
+ * both refresh the profile), the user's open tasks with due dates (reloaded on
+ * every live task change), the timezone, the `milestones`/`daily`/`tasks`
+ * preferences, or the daily reminder time. Mount once inside the authenticated
+ * layout.
+ *
+ * @example
+ * ```tsx
+ * export default function TabLayout() {
+ *   useLocalNotificationSchedule();
+ *   // ...
+ * }
+ * ```
+ */
+export function useLocalNotificationSchedule(): void {
+  const { profile } = useAuth();
+  const { currentStreakStartDate, loading } = useDaysSober();
+
+  const userId = profile?.id;
+  const timezone = profile?.timezone || DEVICE_TIMEZONE;
+  const milestonesEnabled = profile?.notification_preferences?.milestones !== false;
+  const dailyEnabled = profile?.notification_preferences?.daily !== false;
+  const dailyReminderTime = profile?.daily_reminder_time ?? null;
+  const tasksEnabled = profile?.notification_preferences?.tasks !== false;
+  // Null until the first load, so reminders for stale tasks are never scheduled
+  const [dueTasks, setDueTasks] = useState<LocalNotificationSchedule['dueTasks'] | null>(null);
+
+  const loadDueTasks = useCallback(() => {
+    if (!userId) return;
+
+    fetchDueTasks(userId)
+      .then(setDueTasks)
+      .catch(() => {
+        // Already logged by the repository; keep the tasks loaded last time
+        setDueTasks((current) => current ?? []);
+      });
+  }, [userId]);
+
+  useEffect(() => {
+    loadDueTasks();
+  }, [loadDueTasks]);
+
+  useRealtimeChanges('tasks', ['sponsee_id'], loadDueTasks);
+
+  useEffect(() => {
+    configureLocalNotifications();
+  }, []);
+
+  useEffect(() => {
+    // Wait for the streak and tasks to load so stale dates are never scheduled
+    if (!userId || loading || !dueTasks) return;
+
+    rescheduleLocalNotifications({
+      streakStartDate: currentStreakStartDate,
+      timezone,
+      milestonesEnabled,
+      dailyEnabled,
+      dailyReminderTime,
+      tasksEnabled,
+      dueTasks,
+    }).catch((err) => {
+      logger.error('Local notification scheduling failed', err as Error, {
+        category: LogCategory.NOTIFICATION,
+      });
+    });
+  }, [
+    userId,
+    loading,
+    currentStreakStartDate,
+    timezone,
+    milestonesEnabled,
+    dailyEnabled,
+    dailyReminderTime,
+    tasksEnabled,
+    dueTasks,
+  ]);
+}
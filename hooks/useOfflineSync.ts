@@ -0,0 +1,37 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { startAutoSync } from '@/lib/offline';
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Replays changes made offline whenever the device reconnects, for as long
+ * as a user is signed in.
+ *
+ * @remarks
+ * Mount once inside the authenticated layout. The queue is replayed on mount
+ * if the device is already online, which picks up changes left over from a
+ * previous session.
+ *
+ * @example
+ * ```tsx
+ * export default function TabLayout() {
+ *   useOfflineSync();
+ *   // ...
+ * }
+ * ```
+ */
+export function useOfflineSync(): void {
+  const { profile } = useAuth();
+  const userId = profile?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    return startAutoSync();
+  }, [userId]);
+}
@@ -0,0 +1,56 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { RealtimeChange, RealtimeTable, subscribeToUserChanges, UserColumn } from '@/lib/realtime';
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Listens for live changes to a table's rows that involve the signed-in user,
+ * for as long as the calling component is mounted.
+ *
+ * @remarks
+ * The channel is opened once per user and table; `onChange` may be an inline
+ * function, since the latest one is always called. All channels are also
+ * closed on sign-out.
+ *
+ * @param table - The table to watch
+ * @param userColumns - Columns that must equal the user's ID, any of which matches
+ * @param onChange - Called for every matching insert, update or delete
+ *
+ * @example
+ * ```tsx
+ * useRealtimeChanges('notifications', ['user_id'], (change) => {
+ *   setNotifications((current) => mergeRealtimeChange(current, change));
+ * });
+ * ```
+ */
+export function useRealtimeChanges<T extends RealtimeTable>(
+  table: T,
+  userColumns: UserColumn<T>[],
+  onChange: (change: RealtimeChange<T>) => void
+): void {
+  const { profile } = useAuth();
+  const userId = profile?.id;
+  const onChangeRef = useRef(onChange);
+  const columnsKey = userColumns.join(',');
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToUserChanges(
+      table,
+      userId,
+      columnsKey.split(',') as UserColumn<T>[],
+      (change) => onChangeRef.current(change)
+    );
+  }, [table, userId, columnsKey]);
+}
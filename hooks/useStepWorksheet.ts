@@ -0,0 +1,244 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchStepAnswers, saveStepAnswers, setStepAnswerShared } from '@/lib/repositories';
+import type { StepAnswer } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Where the worksheet's edits stand: nothing edited yet, edits waiting for the
+ * next autosave, a save in flight, everything saved, or the last save failed.
+ */
+export type WorksheetSaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+/**
+ * Result object returned by the useStepWorksheet hook.
+ */
+export interface StepWorksheetResult {
+  /** Saved answers by prompt index; prompts never answered are missing */
+  answers: Record<number, StepAnswer>;
+  /** The text of each answer field by prompt index, including unsaved edits */
+  drafts: Record<number, string>;
+  loading: boolean;
+  /** Set when the saved answers could not be loaded, so the fields are not editable */
+  error: string | null;
+  saveStatus: WorksheetSaveStatus;
+  /** Updates an answer field and schedules an autosave */
+  setAnswer: (promptIndex: number, text: string) => void;
+  /** Shares a saved answer with the sponsor, or makes it private again */
+  toggleShared: (promptIndex: number) => Promise<void>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** How long typing must pause before the worksheet is saved */
+export const AUTOSAVE_DELAY_MS = 1500;
+
+/**
+ * Edits whose save failed after the worksheet moved to another step or closed,
+ * by `userId:stepNumber`. They are restored the next time that worksheet opens.
+ */
+const unsavedEdits: Record<string, Record<number, string>> = {};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function worksheetKeyFor(userId: string, stepNumber: number): string {
+  return `${userId}:${stepNumber}`;
+}
+
+function toAnswerMap(rows: StepAnswer[]): Record<number, StepAnswer> {
+  const answers: Record<number, StepAnswer> = {};
+  rows.forEach((row) => {
+    answers[row.prompt_index] = row;
+  });
+  return answers;
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Loads a user's answers to one step's reflection prompts and saves edits as
+ * they type.
+ *
+ * @remarks
+ * Edits are saved once typing pauses for {@link AUTOSAVE_DELAY_MS}, and any
+ * still waiting are saved straight away when the step changes or the
+ * worksheet unmounts. A failed save keeps its edits and retries them with the
+ * next one; if the step has changed or the worksheet has closed by then, they
+ * are kept and restored the next time that step's worksheet opens. Sharing is per answer, so a prompt can only be shared once it has
+ * been saved.
+ *
+ * @param userId - The user's profile ID
+ * @param stepNumber - The step (1-12) the worksheet is for
+ * @param prompts - The step's reflection prompts, in order
+ * @returns The answers, the save status and functions to edit and share them
+ *
+ * @example
+ * ```tsx
+ * const { drafts, setAnswer } = useStepWorksheet(profile.id, 4, step.reflection_prompts);
+ * <TextInput value={drafts[0] ?? ''} onChangeText={(text) => setAnswer(0, text)} />
+ * ```
+ */
+export function useStepWorksheet(
+  userId: string | undefined,
+  stepNumber: number,
+  prompts: string[]
+): StepWorksheetResult {
+  const [answers, setAnswers] = useState<Record<number, StepAnswer>>({});
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<WorksheetSaveStatus>('idle');
+
+  // Unsaved edits by prompt index, and the step they belong to
+  const pendingRef = useRef<Record<number, string>>({});
+  const worksheetKeyRef = useRef('');
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const save = useCallback(async () => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const edits = pendingRef.current;
+    const promptIndexes = Object.keys(edits).map(Number);
+    if (!userId || promptIndexes.length === 0) return;
+
+    const worksheetKey = worksheetKeyFor(userId, stepNumber);
+    pendingRef.current = {};
+    setSaveStatus('saving');
+
+    try {
+      const saved = await saveStepAnswers(
+        promptIndexes.map((promptIndex) => ({
+          user_id: userId,
+          step_number: stepNumber,
+          prompt_index: promptIndex,
+          prompt: prompts[promptIndex],
+          answer: edits[promptIndex],
+        }))
+      );
+      if (worksheetKeyRef.current !== worksheetKey) return;
+
+      setAnswers((current) => ({ ...current, ...toAnswerMap(saved) }));
+      setSaveStatus(Object.keys(pendingRef.current).length > 0 ? 'pending' : 'saved');
+    } catch {
+      // Already logged by the repository; the edits are retried with the next save
+      if (worksheetKeyRef.current !== worksheetKey) {
+        unsavedEdits[worksheetKey] = { ...edits, ...unsavedEdits[worksheetKey] };
+        return;
+      }
+
+      const retry = { ...edits, ...pendingRef.current };
+      pendingRef.current = retry;
+      setDrafts((current) => ({ ...current, ...retry }));
+      setSaveStatus('error');
+    }
+  }, [userId, stepNumber, prompts]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    const worksheetKey = worksheetKeyFor(userId, stepNumber);
+    const restored = unsavedEdits[worksheetKey];
+    delete unsavedEdits[worksheetKey];
+    const keepRestored = () => {
+      if (restored) unsavedEdits[worksheetKey] = { ...restored, ...unsavedEdits[worksheetKey] };
+    };
+
+    worksheetKeyRef.current = worksheetKey;
+    setAnswers({});
+    setDrafts({});
+    setLoading(true);
+    setError(null);
+    setSaveStatus('idle');
+
+    fetchStepAnswers(userId, stepNumber)
+      .then((rows) => {
+        if (cancelled) {
+          keepRestored();
+          return;
+        }
+        const loaded = toAnswerMap(rows);
+        setAnswers(loaded);
+        setDrafts({
+          ...Object.fromEntries(Object.values(loaded).map((row) => [row.prompt_index, row.answer])),
+          ...restored,
+        });
+        if (restored) {
+          pendingRef.current = { ...restored, ...pendingRef.current };
+          setSaveStatus('error');
+        }
+      })
+      .catch(() => {
+        // Already logged by the repository
+        keepRestored();
+        if (!cancelled) setError('Failed to load your answers. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      worksheetKeyRef.current = '';
+    };
+  }, [userId, stepNumber]);
+
+  // Edits still waiting when the step changes or the worksheet closes are saved now
+  useEffect(() => {
+    return () => {
+      save();
+    };
+  }, [save]);
+
+  const setAnswer = useCallback(
+    (promptIndex: number, text: string) => {
+      setDrafts((current) => ({ ...current, [promptIndex]: text }));
+      pendingRef.current = { ...pendingRef.current, [promptIndex]: text };
+      setSaveStatus('pending');
+
+      if (timerRef.current !== null) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => {
+        save();
+      }, AUTOSAVE_DELAY_MS);
+    },
+    [save]
+  );
+
+  const toggleShared = useCallback(
+    async (promptIndex: number) => {
+      const answer = answers[promptIndex];
+      if (!answer) return;
+
+      const shared = !answer.shared;
+      const withShared = (value: boolean) => (current: Record<number, StepAnswer>) => ({
+        ...current,
+        [promptIndex]: { ...current[promptIndex], shared: value },
+      });
+
+      setAnswers(withShared(shared));
+      try {
+        await setStepAnswerShared(answer.id, shared);
+      } catch {
+        // Already logged by the repository
+        setAnswers(withShared(!shared));
+        setSaveStatus('error');
+      }
+    },
+    [answers]
+  );
+
+  return { answers, drafts, loading, error, saveStatus, setAnswer, toggleShared };
+}
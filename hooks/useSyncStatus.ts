@@ -0,0 +1,64 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { useState, useEffect } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { subscribeToSyncQueue } from '@/lib/offline';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Result object returned by the useSyncStatus hook.
+ */
+export interface SyncStatusResult {
+  /** Number of changes made offline that have not reached the server yet */
+  pendingCount: number;
+  /** True while queued changes are being replayed */
+  isSyncing: boolean;
+  /** Changes made offline that the server turned down, until dismissed */
+  discardedCount: number;
+  /** True when the device reports no usable connection */
+  isOffline: boolean;
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Tracks the offline mutation queue and the device's connectivity, for
+ * showing a pending-sync indicator.
+ *
+ * @returns The pending and discarded change counts, sync progress and connectivity
+ *
+ * @example
+ * ```tsx
+ * const { pendingCount, isOffline } = useSyncStatus();
+ * ```
+ */
+export function useSyncStatus(): SyncStatusResult {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [discardedCount, setDiscardedCount] = useState(0);
+  const [isOffline, setIsOffline] = useState(false);
+
+  useEffect(() => {
+    const unsubscribeQueue = subscribeToSyncQueue((state) => {
+      setPendingCount(state.pendingCount);
+      setIsSyncing(state.isSyncing);
+      setDiscardedCount(state.discardedCount);
+    });
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      setIsOffline(state.isConnected === false || state.isInternetReachable === false);
+    });
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeNetInfo();
+    };
+  }, []);
+
+  return { pendingCount, isSyncing, discardedCount, isOffline };
+}
@@ -0,0 +1,73 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { countUnreadNotifications } from '@/lib/repositories';
+import { useRealtimeChanges } from '@/hooks/useRealtimeChanges';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+
+/**
+ * Result object returned by the useUnreadNotifications hook.
+ */
+export interface UnreadNotificationsResult {
+  /** Number of notifications for the current user without a `read_at` timestamp */
+  unreadCount: number;
+  /** Re-query the unread count, e.g. after returning from the inbox */
+  refresh: () => Promise<void>;
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Tracks how many of the current user's notifications are still unread.
+ *
+ * @remarks
+ * Uses a head-only count query so no notification rows are transferred.
+ * The count is fetched whenever the signed-in user or `refreshKey` changes; pass the
+ * current pathname as `refreshKey` to keep badges fresh while navigating. The count
+ * is also re-fetched whenever a notification is written or read on any device.
+ * Failures are logged and leave the previous count in place.
+ *
+ * @param refreshKey - Optional value that triggers a re-fetch when it changes
+ * @returns The unread count and a function to refresh it
+ *
+ * @example
+ * ```tsx
+ * const pathname = usePathname();
+ * const { unreadCount } = useUnreadNotifications(pathname);
+ * ```
+ */
+export function useUnreadNotifications(refreshKey?: string): UnreadNotificationsResult {
+  const { profile } = useAuth();
+  const userId = profile?.id;
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    try {
+      setUnreadCount(await countUnreadNotifications(userId));
+    } catch {
+      // Already logged by the repository; keep the last known count
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  useRealtimeChanges('notifications', ['user_id'], () => {
+    refresh();
+  });
+
+  return { unreadCount, refresh };
+}
@@ -195,15 +195,31 @@ jest.mock('expo-secure-store', () => ({
   deleteItemAsync: jest.fn(() => Promise.resolve()),
 }));
 
+// Mock expo-crypto with Node's secure random source
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn((byteCount) => new Uint8Array(require('crypto').randomBytes(byteCount))),
+}));
+
 // Mock AsyncStorage
 const mockAsyncStorage = {
   getItem: jest.fn(() => Promise.resolve(null)),
   setItem: jest.fn(() => Promise.resolve()),
   removeItem: jest.fn(() => Promise.resolve()),
   clear: jest.fn(() => Promise.resolve()),
+  getAllKeys: jest.fn(() => Promise.resolve([])),
+  multiRemove: jest.fn(() => Promise.resolve()),
 };
 jest.mock('@react-native-async-storage/async-storage', () => mockAsyncStorage);
 
+// Mock @react-native-community/netinfo
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: {
+    addEventListener: jest.fn(() => jest.fn()),
+    fetch: jest.fn(() => Promise.resolve({ isConnected: true, isInternetReachable: true })),
+  },
+}));
+
 // Mock expo core module
 jest.mock('expo', () => ({
   isRunningInExpoGo: jest.fn(() => false),
@@ -240,6 +256,18 @@ jest.mock('expo-auth-session', () => ({
   makeRedirectUri: jest.fn(() => 'sobrietywaypoint://auth/callback'),
 }));
 
+// Mock expo-notifications
+jest.mock('expo-notifications', () => ({
+  getPermissionsAsync: jest.fn().mockResolvedValue({ granted: true }),
+  requestPermissionsAsync: jest.fn().mockResolvedValue({ granted: true }),
+  scheduleNotificationAsync: jest.fn().mockResolvedValue('notification-id'),
+  cancelAllScheduledNotificationsAsync: jest.fn().mockResolvedValue(undefined),
+  setNotificationChannelAsync: jest.fn().mockResolvedValue(null),
+  setNotificationHandler: jest.fn(),
+  AndroidImportance: { DEFAULT: 3, HIGH: 4 },
+  SchedulableTriggerInputTypes: { DATE: 'date', DAILY: 'daily' },
+}));
+
 // Mock @sentry/react-native
 jest.mock('@sentry/react-native', () => ({
   addBreadcrumb: jest.fn(),
@@ -277,6 +305,7 @@ jest.mock('@/lib/logger', () => ({
     DATABASE: 'database',
     AUTH: 'auth',
     UI: 'ui',
+    SYNC: 'sync',
   },
 }));
 
@@ -286,6 +315,13 @@ jest.mock('@/lib/date', () => ({
   parseDateAsLocal: jest.fn((dateString) => new Date(dateString)),
 }));
 
+// Mock @/lib/realtime - screens subscribe on mount; tests drive changes directly
+jest.mock('@/lib/realtime', () => ({
+  ...jest.requireActual('@/lib/realtime'),
+  subscribeToUserChanges: jest.fn(() => jest.fn()),
+  removeAllRealtimeChannels: jest.fn(() => Promise.resolve()),
+}));
+
 // Mock image assets globally to prevent Jest from trying to parse them
 // These will be handled by moduleNameMapper, but adding explicit mocks as fallback
 jest.mock('@/assets/images/hero-forest.jpg', () => 'test-file-stub', { virtual: true });
@@ -366,6 +402,17 @@ jest.mock('react-native-svg', () => {
   return mockModule;
 });
 
+// Mock react-native-qrcode-svg
+jest.mock('react-native-qrcode-svg', () => {
+  const React = require('react');
+  const { View } = require('react-native');
+
+  const QRCode = ({ value }) => React.createElement(View, { testID: 'qr-code', value });
+  QRCode.displayName = 'QRCode';
+
+  return { __esModule: true, default: QRCode };
+});
+
 // Mock @supabase/supabase-js with chainable query builder
 jest.mock('@supabase/supabase-js', () => {
   // Create a chainable query builder
@@ -427,6 +474,15 @@ jest.mock('@supabase/supabase-js', () => {
       },
       from: jest.fn(() => createQueryBuilder()),
       rpc: jest.fn(() => Promise.resolve({ data: null, error: null })),
+      channel: jest.fn(() => {
+        const channel = {
+          on: jest.fn(() => channel),
+          subscribe: jest.fn(() => channel),
+        };
+        return channel;
+      }),
+      removeChannel: jest.fn(() => Promise.resolve('ok')),
+      removeAllChannels: jest.fn(() => Promise.resolve([])),
     })),
   };
 });
@@ -0,0 +1,83 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import type { AmendsEntry, AmendsStatus } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * How an amends status is named and explained.
+ */
+export interface AmendsStatusLabels {
+  /** Short name for badges and the status picker, e.g. "Planned" */
+  label: string;
+  /** What the status means, shown under the picker */
+  description: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** The steps the amends list belongs to: making it, then making amends */
+export const AMENDS_STEPS = [8, 9];
+
+/** Statuses in the order an amends usually moves through them */
+export const AMENDS_STATUSES: AmendsStatus[] = ['willing', 'planned', 'made', 'deferred'];
+
+export const AMENDS_STATUS_LABELS: Record<AmendsStatus, AmendsStatusLabels> = {
+  willing: {
+    label: 'Willing',
+    description: 'On the list and willing to make amends',
+  },
+  planned: {
+    label: 'Planned',
+    description: 'Decided how and when to make amends',
+  },
+  made: {
+    label: 'Made',
+    description: 'Amends made',
+  },
+  deferred: {
+    label: 'Deferred',
+    description: 'Held back because making amends would injure them or others',
+  },
+};
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Picks out the entries with one status, oldest first.
+ *
+ * @param entries - The whole amends list
+ * @param status - The status to list
+ * @returns That status's entries
+ */
+export function getAmendsByStatus(entries: AmendsEntry[], status: AmendsStatus): AmendsEntry[] {
+  return entries
+    .filter((entry) => entry.status === status)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Counts the list's entries by status.
+ *
+ * @param entries - The whole amends list
+ * @returns How many entries have each status
+ *
+ * @example
+ * ```ts
+ * summarizeAmends(entries);
+ * // Returns: { willing: 3, planned: 1, made: 2, deferred: 0 }
+ * ```
+ */
+export function summarizeAmends(entries: AmendsEntry[]): Record<AmendsStatus, number> {
+  return Object.fromEntries(
+    AMENDS_STATUSES.map((status) => [
+      status,
+      entries.filter((entry) => entry.status === status).length,
+    ])
+  ) as Record<AmendsStatus, number>;
+}
@@ -0,0 +1,126 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { addDaysToDateString } from '@/lib/date';
+import type { SharedCheckIn } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/** The HALT flags: hungry, angry, lonely, tired */
+export type HaltFlag = 'hungry' | 'angry' | 'lonely' | 'tired';
+
+/**
+ * A summary of recent check-ins, as a sponsor sees it.
+ */
+export interface CheckInSummary {
+  /** Consecutive days checked in, up to today or yesterday */
+  streak: number;
+  /** Days checked in within the summary window */
+  daysCheckedIn: number;
+  /** Average mood over the window, or null with no check-ins in it */
+  averageMood: number | null;
+  /** How many days in the window each HALT flag was raised */
+  halt: Record<HaltFlag, number>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** Days covered by the check-in summary */
+export const CHECK_IN_SUMMARY_DAYS = 7;
+
+/** Mood ratings from lowest to highest */
+export const MOOD_RATINGS = [1, 2, 3, 4, 5];
+
+export const MOOD_LABELS: Record<number, string> = {
+  1: 'Very low',
+  2: 'Low',
+  3: 'Okay',
+  4: 'Good',
+  5: 'Great',
+};
+
+export const HALT_FLAGS: { flag: HaltFlag; label: string }[] = [
+  { flag: 'hungry', label: 'Hungry' },
+  { flag: 'angry', label: 'Angry' },
+  { flag: 'lonely', label: 'Lonely' },
+  { flag: 'tired', label: 'Tired' },
+];
+
+/** The question the nightly review answers */
+export const STEP_TEN_PROMPT =
+  'Was I resentful, selfish, dishonest or afraid today? Do I owe an apology?';
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Counts consecutive check-in days ending today. A streak that reaches
+ * yesterday is still alive until today is over.
+ *
+ * @param dates - Check-in days as YYYY-MM-DD, in any order
+ * @param today - Today as YYYY-MM-DD in the user's timezone
+ * @returns The current streak in days, or 0 when the last check-in was before
+ * yesterday
+ *
+ * @example
+ * ```ts
+ * getCheckInStreak(['2024-03-04', '2024-03-03', '2024-03-01'], '2024-03-05');
+ * // Returns: 2 (yesterday and the day before)
+ * ```
+ */
+export function getCheckInStreak(dates: string[], today: string): number {
+  const checkedIn = new Set(dates);
+  let day = checkedIn.has(today) ? today : addDaysToDateString(today, -1);
+  let streak = 0;
+
+  while (checkedIn.has(day)) {
+    streak++;
+    day = addDaysToDateString(day, -1);
+  }
+  return streak;
+}
+
+/**
+ * Lists the HALT flags raised in a check-in.
+ *
+ * @param checkIn - The check-in
+ * @returns The raised flags' labels, in HALT order
+ */
+export function getHaltLabels(checkIn: Pick<SharedCheckIn, HaltFlag>): string[] {
+  return HALT_FLAGS.filter(({ flag }) => checkIn[flag]).map(({ label }) => label);
+}
+
+/**
+ * Summarizes the streak and the last {@link CHECK_IN_SUMMARY_DAYS} days of
+ * check-ins.
+ *
+ * @param checkIns - The user's check-ins, in any order
+ * @param today - Today as YYYY-MM-DD in the user's timezone
+ * @returns The summary
+ */
+export function summarizeCheckIns(checkIns: SharedCheckIn[], today: string): CheckInSummary {
+  const windowStart = addDaysToDateString(today, 1 - CHECK_IN_SUMMARY_DAYS);
+  const recent = checkIns.filter(
+    (checkIn) => checkIn.check_in_date >= windowStart && checkIn.check_in_date <= today
+  );
+
+  const halt = Object.fromEntries(
+    HALT_FLAGS.map(({ flag }) => [flag, recent.filter((checkIn) => checkIn[flag]).length])
+  ) as Record<HaltFlag, number>;
+
+  return {
+    streak: getCheckInStreak(
+      checkIns.map((checkIn) => checkIn.check_in_date),
+      today
+    ),
+    daysCheckedIn: recent.length,
+    averageMood:
+      recent.length > 0
+        ? recent.reduce((total, checkIn) => total + checkIn.mood, 0) / recent.length
+        : null,
+    halt,
+  };
+}
@@ -0,0 +1,145 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { sendNotification } from '@/lib/notifications';
+import {
+  acceptRelationship,
+  clearReconnectRequest,
+  closeRelationshipRequest,
+  reactivateRelationship,
+  requestReconnect,
+} from '@/lib/repositories';
+import type { Profile, SponsorSponseeRelationship } from '@/types/database';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+const displayName = (person: Profile) => `${person.first_name} ${person.last_initial}.`;
+
+/**
+ * Returns the profile ID of the relationship member who is not `userId`.
+ */
+const otherMemberId = (relationship: SponsorSponseeRelationship, userId: string) =>
+  relationship.sponsor_id === userId ? relationship.sponsee_id : relationship.sponsor_id;
+
+// =============================================================================
+// Connection Requests
+// =============================================================================
+
+/**
+ * Accepts a sponsee's pending connection request and lets them know.
+ *
+ * @param request - The pending relationship, with the sponsor as the current user
+ * @param sponsor - The accepting sponsor's profile
+ * @throws The query error if the relationship update fails
+ */
+export async function acceptConnectionRequest(
+  request: SponsorSponseeRelationship,
+  sponsor: Profile
+): Promise<void> {
+  await acceptRelationship(request.id);
+
+  await sendNotification({
+    user_id: request.sponsee_id,
+    type: 'connection_request',
+    title: 'Connection Request Accepted',
+    content: `${displayName(sponsor)} accepted your request and is now your sponsor.`,
+    data: { relationship_id: request.id, sponsor_id: sponsor.id },
+  });
+}
+
+/**
+ * Declines a sponsee's pending connection request and lets them know. The
+ * relationship is kept, marked declined.
+ *
+ * @param request - The pending relationship, with the sponsor as the current user
+ * @param sponsor - The declining sponsor's profile
+ * @throws The query error if the relationship update fails
+ */
+export async function declineConnectionRequest(
+  request: SponsorSponseeRelationship,
+  sponsor: Profile
+): Promise<void> {
+  await closeRelationshipRequest(request.id);
+
+  await sendNotification({
+    user_id: request.sponsee_id,
+    type: 'connection_request',
+    title: 'Connection Request Declined',
+    content: `${displayName(sponsor)} declined your connection request.`,
+    data: { relationship_id: request.id, sponsor_id: sponsor.id },
+  });
+}
+
+// =============================================================================
+// Reconnecting
+// =============================================================================
+
+/**
+ * Asks the other member of an ended relationship to reconnect, and lets them
+ * know. Nothing changes until they accept.
+ *
+ * @param relationship - The inactive relationship
+ * @param requester - Profile of the member asking
+ * @throws The query error if the relationship update fails
+ */
+export async function requestReconnection(
+  relationship: SponsorSponseeRelationship,
+  requester: Profile
+): Promise<void> {
+  await requestReconnect(relationship.id, requester.id);
+
+  await sendNotification({
+    user_id: otherMemberId(relationship, requester.id),
+    type: 'connection_request',
+    title: 'Reconnect Request',
+    content: `${displayName(requester)} would like to reconnect. Accept or decline the request in your profile.`,
+    data: { relationship_id: relationship.id },
+  });
+}
+
+/**
+ * Accepts the other member's request to reconnect an ended relationship,
+ * making it active again, and lets them know.
+ *
+ * @param relationship - The inactive relationship with a pending reconnect request
+ * @param accepter - Profile of the member accepting
+ * @throws The query error if the relationship update fails
+ */
+export async function acceptReconnection(
+  relationship: SponsorSponseeRelationship,
+  accepter: Profile
+): Promise<void> {
+  await reactivateRelationship(relationship.id);
+
+  await sendNotification({
+    user_id: otherMemberId(relationship, accepter.id),
+    type: 'connection_request',
+    title: 'Reconnected',
+    content: `${displayName(accepter)} accepted your request to reconnect.`,
+    data: { relationship_id: relationship.id },
+  });
+}
+
+/**
+ * Declines the other member's request to reconnect an ended relationship and
+ * lets them know. The relationship stays inactive.
+ *
+ * @param relationship - The inactive relationship with a pending reconnect request
+ * @param decliner - Profile of the member declining
+ * @throws The query error if the relationship update fails
+ */
+export async function declineReconnection(
+  relationship: SponsorSponseeRelationship,
+  decliner: Profile
+): Promise<void> {
+  await clearReconnectRequest(relationship.id);
+
+  await sendNotification({
+    user_id: otherMemberId(relationship, decliner.id),
+    type: 'connection_request',
+    title: 'Reconnect Request Declined',
+    content: `${displayName(decliner)} declined your request to reconnect.`,
+    data: { relationship_id: relationship.id },
+  });
+}
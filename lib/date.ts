@@ -198,7 +198,7 @@ function isValidDateString(dateStr: string): boolean {
  * // Returns: 9 (exactly 9 days between Jan 1 and Jan 10)
  * ```
  */
-function daysBetweenDateStrings(startDateStr: string, endDateStr: string): number {
+export function daysBetweenDateStrings(startDateStr: string, endDateStr: string): number {
   // Validate input format and values
   if (!isValidDateString(startDateStr)) {
     throw new Error(`Invalid start date format: "${startDateStr}". Expected YYYY-MM-DD.`);
@@ -263,3 +263,29 @@ export function getDateDiffInDays(
 
   return Math.max(0, diffDays);
 }
+
+/**
+ * Adds a number of calendar days to a YYYY-MM-DD date string.
+ *
+ * Works on the date alone, in UTC, so the result does not depend on the system
+ * timezone or on daylight saving changes in between.
+ *
+ * @param dateStr - Date in YYYY-MM-DD format
+ * @param days - Days to add (negative to subtract)
+ * @returns The resulting date in YYYY-MM-DD format
+ * @throws Error if the date string is malformed or invalid
+ *
+ * @example
+ * ```ts
+ * addDaysToDateString('2024-02-28', 2);
+ * // Returns: "2024-03-01"
+ * ```
+ */
+export function addDaysToDateString(dateStr: string, days: number): string {
+  if (!isValidDateString(dateStr)) {
+    throw new Error(`Invalid date format: "${dateStr}". Expected YYYY-MM-DD.`);
+  }
+
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
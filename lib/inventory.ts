@@ -0,0 +1,174 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import type { InventoryEntryFields } from '@/lib/repositories';
+import type { InventoryEntry, InventoryKind } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * How an inventory kind is named and how its four columns are headed.
+ */
+export interface InventoryKindLabels {
+  /** Plural heading, e.g. "Resentments" */
+  title: string;
+  /** Singular name, e.g. "Resentment" */
+  singular: string;
+  columns: Record<keyof InventoryEntryFields, string>;
+}
+
+/**
+ * Totals for one inventory kind on the summary view.
+ */
+export interface InventoryKindSummary {
+  kind: InventoryKind;
+  count: number;
+  /** Entries whose "my part" column has been written */
+  withMyPart: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** The step the inventory belongs to */
+export const INVENTORY_STEP = 4;
+
+/** Inventory kinds in the order the program works through them */
+export const INVENTORY_KINDS: InventoryKind[] = ['resentment', 'fear', 'harm'];
+
+/** Columns in the order they are shown, entered and exported */
+export const INVENTORY_COLUMNS: (keyof InventoryEntryFields)[] = [
+  'subject',
+  'cause',
+  'affects',
+  'my_part',
+];
+
+export const INVENTORY_LABELS: Record<InventoryKind, InventoryKindLabels> = {
+  resentment: {
+    title: 'Resentments',
+    singular: 'Resentment',
+    columns: {
+      subject: "I'm resentful at",
+      cause: 'The cause',
+      affects: 'Affects my',
+      my_part: 'My part',
+    },
+  },
+  fear: {
+    title: 'Fears',
+    singular: 'Fear',
+    columns: {
+      subject: "I'm afraid of",
+      cause: 'Why I have this fear',
+      affects: 'Affects my',
+      my_part: 'My part',
+    },
+  },
+  harm: {
+    title: 'Harms',
+    singular: 'Harm',
+    columns: {
+      subject: 'Who I harmed',
+      cause: 'What I did',
+      affects: 'What it affected',
+      my_part: 'My part',
+    },
+  },
+};
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Picks out one kind's entries in the order the user arranged them.
+ *
+ * @param entries - The whole inventory
+ * @param kind - The kind to list
+ * @returns That kind's entries by position
+ */
+export function getInventoryEntries(
+  entries: InventoryEntry[],
+  kind: InventoryKind
+): InventoryEntry[] {
+  return entries.filter((entry) => entry.kind === kind).sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Moves an entry one place up or down within its kind and renumbers the
+ * kind's positions to match.
+ *
+ * @param entries - The whole inventory
+ * @param entryId - The entry to move
+ * @param offset - -1 to move it up, 1 to move it down
+ * @returns The kind's entries in their new order, or null when the entry is
+ * already first or last
+ */
+export function moveInventoryEntry(
+  entries: InventoryEntry[],
+  entryId: string,
+  offset: -1 | 1
+): InventoryEntry[] | null {
+  const entry = entries.find((e) => e.id === entryId);
+  if (!entry) return null;
+
+  const ordered = getInventoryEntries(entries, entry.kind);
+  const from = ordered.indexOf(entry);
+  const to = from + offset;
+  if (to < 0 || to >= ordered.length) return null;
+
+  [ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+  return ordered.map((e, position) => ({ ...e, position }));
+}
+
+/**
+ * Totals each kind for the summary view.
+ *
+ * @param entries - The whole inventory
+ * @returns One summary per kind, in {@link INVENTORY_KINDS} order
+ */
+export function summarizeInventory(entries: InventoryEntry[]): InventoryKindSummary[] {
+  return INVENTORY_KINDS.map((kind) => {
+    const ofKind = entries.filter((entry) => entry.kind === kind);
+    return {
+      kind,
+      count: ofKind.length,
+      withMyPart: ofKind.filter((entry) => entry.my_part.trim()).length,
+    };
+  });
+}
+
+/**
+ * Writes the inventory out as plain text, for sharing with a sponsor to read
+ * through together in Step 5.
+ *
+ * @param entries - The whole inventory
+ * @returns The inventory by kind, each entry numbered with its columns;
+ * blank columns and empty kinds are left out
+ *
+ * @example
+ * ```ts
+ * formatInventoryForExport(entries);
+ * // Returns: "Step 4 Inventory\n\nResentments (1)\n\n1. My old boss\n   The cause: ..."
+ * ```
+ */
+export function formatInventoryForExport(entries: InventoryEntry[]): string {
+  const sections = INVENTORY_KINDS.map((kind) => {
+    const ofKind = getInventoryEntries(entries, kind);
+    if (ofKind.length === 0) return null;
+
+    const labels = INVENTORY_LABELS[kind];
+    const rows = ofKind.map((entry, index) => {
+      const details = INVENTORY_COLUMNS.slice(1)
+        .filter((column) => entry[column].trim())
+        .map((column) => `   ${labels.columns[column]}: ${entry[column].trim()}`);
+      return [`${index + 1}. ${entry.subject.trim()}`, ...details].join('\n');
+    });
+
+    return [`${labels.title} (${ofKind.length})`, ...rows].join('\n\n');
+  }).filter((section): section is string => section !== null);
+
+  return ['Step 4 Inventory', ...sections].join('\n\n');
+}
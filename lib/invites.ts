@@ -0,0 +1,259 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getRandomBytes } from 'expo-crypto';
+import { logger, LogCategory } from '@/lib/logger';
+import { sendNotification, sendNotifications } from '@/lib/notifications';
+import { claimInviteCode, createInviteCode } from '@/lib/repositories';
+import type { InviteRedemptionStatus, Profile } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A newly created invite code, ready to share with a sponsee.
+ */
+export interface CreatedInvite {
+  code: string;
+  expiresAt: Date;
+}
+
+/**
+ * The sponsor details a sponsee sees after redeeming their code.
+ */
+export type InviteSponsor = Pick<Profile, 'id' | 'first_name' | 'last_initial'>;
+
+/**
+ * Outcome of redeeming an invite code. A pending redemption is waiting for
+ * the sponsor to accept it. A rejected redemption carries a message that can
+ * be shown to the user as-is.
+ */
+export type InviteRedemption =
+  | { status: 'connected'; sponsor: InviteSponsor }
+  | { status: 'pending'; sponsor: InviteSponsor }
+  | { status: 'rejected'; reason: string };
+
+// =============================================================================
+// Constants
+// =============================================================================
+export const INVITE_CODE_LENGTH = 8;
+
+/**
+ * Characters used in invite codes. Omits 0/O and 1/I, which are easily
+ * confused when a code is read aloud or copied by hand. Its 32 characters
+ * divide 256 evenly, so mapping random bytes onto it introduces no bias.
+ */
+export const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** How long a new invite code stays redeemable */
+export const INVITE_CODE_TTL_DAYS = 30;
+
+/** Attempts at generating an unused code before giving up */
+const MAX_CREATE_ATTEMPTS = 5;
+
+const UNIQUE_VIOLATION_CODE = '23505';
+
+/**
+ * Origin of invite links. The app claims `/invite/*` on this domain as a
+ * universal link (iOS) and verified app link (Android), and the same path
+ * opens the web app where it is not installed.
+ */
+export const INVITE_LINK_ORIGIN = 'https://sobrietywaypoint.com';
+
+/** AsyncStorage key for an invite opened before the user could redeem it */
+const PENDING_INVITE_KEY = 'pending_invite_code';
+
+/**
+ * User-facing message for each reason `redeem_invite_code` can reject a code.
+ */
+export const INVITE_REJECTION_MESSAGES: Record<
+  Exclude<InviteRedemptionStatus, 'connected' | 'pending'>,
+  string
+> = {
+  not_found: 'Invalid or expired invite code',
+  expired: 'This invite code has expired',
+  revoked: 'This invite code has been revoked',
+  used: 'This invite code has already been used',
+  self: 'You cannot connect to yourself as a sponsor',
+  already_connected: 'You are already connected to this sponsor',
+  already_requested: 'You have already asked to connect with this sponsor',
+};
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Generates a random invite code from {@link INVITE_CODE_ALPHABET} using the
+ * platform's cryptographically secure random number generator.
+ *
+ * @returns An {@link INVITE_CODE_LENGTH}-character code
+ */
+export function generateInviteCode(): string {
+  const bytes = getRandomBytes(INVITE_CODE_LENGTH);
+  const { length } = INVITE_CODE_ALPHABET;
+  return Array.from(bytes, (byte) => INVITE_CODE_ALPHABET[byte % length]).join('');
+}
+
+/**
+ * Normalizes a code as typed by a user for lookup.
+ *
+ * @param input - The code as entered
+ * @returns The trimmed, uppercase code
+ */
+export function normalizeInviteCode(input: string): string {
+  return input.trim().toUpperCase();
+}
+
+/**
+ * Builds the shareable link for an invite code, as encoded in invite QR codes.
+ * Opening it routes to `app/invite/[code].tsx`, as does
+ * `sobrietywaypoint://invite/<code>`.
+ *
+ * @param code - The invite code
+ * @returns The universal link for the code
+ */
+export function buildInviteLink(code: string): string {
+  return `${INVITE_LINK_ORIGIN}/invite/${encodeURIComponent(code)}`;
+}
+
+/**
+ * Creates and stores a new invite code for a sponsor.
+ *
+ * @remarks
+ * Codes are generated client-side, so a new code can collide with an existing
+ * one. A unique violation from the insert is retried with a fresh code, up to
+ * a small number of attempts; any other failure is thrown immediately.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @returns The stored code and its expiry
+ * @throws The query error if the insert fails for a reason other than a
+ *   collision, or if every attempt collided
+ */
+export async function createSponsorInvite(sponsorId: string): Promise<CreatedInvite> {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + INVITE_CODE_TTL_DAYS);
+
+  for (let attempt = 1; ; attempt++) {
+    const code = generateInviteCode();
+
+    try {
+      await createInviteCode(sponsorId, code, expiresAt);
+      return { code, expiresAt };
+    } catch (err) {
+      const isCollision = (err as { code?: string }).code === UNIQUE_VIOLATION_CODE;
+      if (!isCollision || attempt >= MAX_CREATE_ATTEMPTS) throw err;
+
+      logger.warn('Invite code collided with an existing code, retrying', {
+        category: LogCategory.DATABASE,
+        attempt,
+      });
+    }
+  }
+}
+
+/**
+ * Connects a sponsee to the sponsor who issued an invite code.
+ *
+ * @remarks
+ * Validation, creating the relationship and marking the code used all happen
+ * in the `redeem_invite_code` RPC, in one transaction, so a code can only be
+ * redeemed once and a failure never leaves a half-made connection. On success
+ * both users are notified.
+ *
+ * If the sponsor requires approval, the relationship is created as pending
+ * instead and only the sponsor is notified, so they can accept or decline it.
+ *
+ * @param code - The code as entered; it is normalized before lookup
+ * @param sponsee - Profile of the user redeeming the code
+ * @returns The sponsor connected or asked to connect, or the reason the code
+ *   was rejected
+ * @throws The query error if the RPC fails
+ */
+export async function redeemInviteCode(code: string, sponsee: Profile): Promise<InviteRedemption> {
+  const normalizedCode = normalizeInviteCode(code);
+
+  if (normalizedCode.length !== INVITE_CODE_LENGTH) {
+    return { status: 'rejected', reason: `Invite code must be ${INVITE_CODE_LENGTH} characters` };
+  }
+
+  const claim = await claimInviteCode(normalizedCode);
+
+  if (claim.status !== 'connected' && claim.status !== 'pending') {
+    return { status: 'rejected', reason: INVITE_REJECTION_MESSAGES[claim.status] };
+  }
+
+  const sponsor: InviteSponsor = {
+    id: claim.sponsor_id as string,
+    first_name: claim.sponsor_first_name,
+    last_initial: claim.sponsor_last_initial,
+  };
+
+  if (claim.status === 'pending') {
+    await sendNotification({
+      user_id: sponsor.id,
+      type: 'connection_request',
+      title: 'New Connection Request',
+      content: `${sponsee.first_name} ${sponsee.last_initial}. would like you to be their sponsor. Accept or decline the request in your profile.`,
+      data: { relationship_id: claim.relationship_id as string, sponsee_id: sponsee.id },
+    });
+
+    return { status: 'pending', sponsor };
+  }
+
+  await sendNotifications([
+    {
+      user_id: sponsor.id,
+      type: 'connection_request',
+      title: 'New Sponsee Connected',
+      content: `${sponsee.first_name} ${sponsee.last_initial}. has connected with you as their sponsor.`,
+      data: { sponsee_id: sponsee.id },
+    },
+    {
+      user_id: sponsee.id,
+      type: 'connection_request',
+      title: 'Connected to Sponsor',
+      content: `You are now connected with ${sponsor.first_name} ${sponsor.last_initial}. as your sponsor.`,
+      data: { sponsor_id: sponsor.id },
+    },
+  ]);
+
+  return { status: 'connected', sponsor };
+}
+
+/**
+ * Remembers an invite link opened before the user was signed in and onboarded,
+ * so it can be resumed once they are. Failures are logged and never thrown.
+ *
+ * @param code - The code from the invite link
+ */
+export async function savePendingInvite(code: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PENDING_INVITE_KEY, normalizeInviteCode(code));
+  } catch (err) {
+    logger.warn('Pending invite save failed', {
+      category: LogCategory.AUTH,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Returns and clears the invite saved by {@link savePendingInvite}, if any.
+ *
+ * @returns The pending invite code, or null if there is none
+ */
+export async function takePendingInvite(): Promise<string | null> {
+  try {
+    const code = await AsyncStorage.getItem(PENDING_INVITE_KEY);
+    if (code) await AsyncStorage.removeItem(PENDING_INVITE_KEY);
+    return code;
+  } catch (err) {
+    logger.warn('Pending invite read failed', {
+      category: LogCategory.AUTH,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
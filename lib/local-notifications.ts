@@ -0,0 +1,251 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { getDateDiffInDays } from '@/lib/date';
+import { getMilestoneDate, getUpcomingMilestones } from '@/lib/milestones';
+import { getTaskReminderDates } from '@/lib/task-due';
+import { logger, LogCategory } from '@/lib/logger';
+import type { Task } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Everything needed to rebuild a user's local notification schedule.
+ */
+export interface LocalNotificationSchedule {
+  /** Current streak start as YYYY-MM-DD, or null before onboarding */
+  streakStartDate: string | null;
+  /** IANA timezone used to decide which day a milestone falls on */
+  timezone: string;
+  /** Mirrors `notification_preferences.milestones` */
+  milestonesEnabled: boolean;
+  /** Mirrors `notification_preferences.daily` */
+  dailyEnabled: boolean;
+  /** Daily reminder time as HH:MM (seconds are ignored), or null for the default */
+  dailyReminderTime: string | null;
+  /** Mirrors `notification_preferences.tasks` */
+  tasksEnabled: boolean;
+  /** The user's open tasks with a due date, reminded the day before and on the day */
+  dueTasks: Pick<Task, 'id' | 'title' | 'due_date'>[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** Reminder time used until the user picks one */
+export const DEFAULT_DAILY_REMINDER_TIME = '09:00';
+
+/** Local hour at which milestone notifications are delivered */
+const MILESTONE_NOTIFICATION_HOUR = 9;
+
+/** Android channel for all locally scheduled notifications */
+const REMINDER_CHANNEL_ID = 'reminders';
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Parses a stored reminder time into hour and minute components.
+ * Falls back to {@link DEFAULT_DAILY_REMINDER_TIME} for missing or malformed values.
+ *
+ * @param value - Time as HH:MM or HH:MM:SS
+ * @returns Hour (0-23) and minute (0-59)
+ *
+ * @example
+ * ```ts
+ * parseReminderTime('20:30:00'); // { hour: 20, minute: 30 }
+ * ```
+ */
+export function parseReminderTime(value: string | null | undefined): {
+  hour: number;
+  minute: number;
+} {
+  const match = /^(\d{1,2}):(\d{2})/.exec(value ?? '');
+  const hour = match ? Number(match[1]) : NaN;
+  const minute = match ? Number(match[2]) : NaN;
+
+  if (!match || hour > 23 || minute > 59) {
+    return parseReminderTime(DEFAULT_DAILY_REMINDER_TIME);
+  }
+
+  return { hour, minute };
+}
+
+/**
+ * Formats hour and minute as the HH:MM string stored on the profile.
+ *
+ * @param date - Date whose local hours and minutes are used
+ * @returns Time as HH:MM
+ */
+export function formatReminderTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Shows locally scheduled notifications while the app is in the foreground.
+ * Safe to call more than once.
+ */
+export function configureLocalNotifications(): void {
+  if (Platform.OS === 'web') return;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+/**
+ * Cancels every locally scheduled notification, e.g. on sign out.
+ */
+export async function cancelLocalNotifications(): Promise<void> {
+  if (Platform.OS === 'web') return;
+  await Notifications.cancelAllScheduledNotificationsAsync();
+}
+
+/**
+ * Replaces the device's scheduled notifications with the user's upcoming
+ * sobriety milestones, their daily reminder and reminders for tasks that are
+ * coming due.
+ *
+ * @remarks
+ * The existing schedule is always cleared first, so calling this after a
+ * slip-up, a sobriety date edit, a task change or a preference change leaves
+ * no stale reminders behind. Permission is only requested when something would be
+ * scheduled. Local notifications are not supported on web, where this is a no-op.
+ *
+ * @param schedule - Streak, due tasks, timezone, opt-ins and reminder time to schedule from
+ * @returns Number of notifications scheduled
+ */
+export async function rescheduleLocalNotifications(
+  schedule: LocalNotificationSchedule
+): Promise<number> {
+  if (Platform.OS === 'web') return 0;
+
+  await Notifications.cancelAllScheduledNotificationsAsync();
+
+  const {
+    streakStartDate,
+    timezone,
+    milestonesEnabled,
+    dailyEnabled,
+    dailyReminderTime,
+    tasksEnabled,
+    dueTasks,
+  } = schedule;
+  const wantsMilestones = milestonesEnabled && !!streakStartDate;
+  const wantsTaskReminders = tasksEnabled && dueTasks.length > 0;
+
+  if (!wantsMilestones && !dailyEnabled && !wantsTaskReminders) return 0;
+
+  const permissions = await Notifications.getPermissionsAsync();
+  if (!permissions.granted) {
+    const requested = await Notifications.requestPermissionsAsync();
+    if (!requested.granted) {
+      logger.info('Local notification permission not granted', {
+        category: LogCategory.NOTIFICATION,
+      });
+      return 0;
+    }
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  let scheduled = 0;
+  const now = Date.now();
+
+  if (wantsMilestones && streakStartDate) {
+    const daysSober = getDateDiffInDays(streakStartDate, new Date(), timezone);
+
+    for (const milestone of getUpcomingMilestones(daysSober)) {
+      const date = getMilestoneDate(
+        streakStartDate,
+        milestone.days,
+        timezone,
+        MILESTONE_NOTIFICATION_HOUR
+      );
+      if (date.getTime() <= now) continue;
+
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: milestone.label,
+          body: `You've reached ${milestone.days} days of continuous sobriety. Take a moment to celebrate how far you've come.`,
+          data: { type: 'milestone', days: milestone.days },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+      scheduled++;
+    }
+  }
+
+  if (wantsTaskReminders) {
+    for (const task of dueTasks) {
+      if (!task.due_date) continue;
+      const [dayBefore, dueDay] = getTaskReminderDates(task.due_date, timezone);
+
+      for (const [date, body] of [
+        [dayBefore, `"${task.title}" is due tomorrow.`],
+        [dueDay, `"${task.title}" is due today.`],
+      ] as const) {
+        if (date.getTime() <= now) continue;
+
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: 'Task Reminder',
+            body,
+            data: { type: 'task_due', task_id: task.id },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date,
+            channelId: REMINDER_CHANNEL_ID,
+          },
+        });
+        scheduled++;
+      }
+    }
+  }
+
+  if (dailyEnabled) {
+    // Daily triggers fire at the device's local time
+    const { hour, minute } = parseReminderTime(dailyReminderTime);
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Daily Check-In',
+        body: 'Take a moment to check in with yourself today.',
+        data: { type: 'daily' },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DAILY,
+        hour,
+        minute,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+    scheduled++;
+  }
+
+  logger.debug('Local notifications rescheduled', {
+    category: LogCategory.NOTIFICATION,
+    scheduled,
+  });
+
+  return scheduled;
+}
@@ -0,0 +1,84 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { TZDate } from '@date-fns/tz';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A continuous-sobriety milestone, counted from the current streak start.
+ */
+export interface SobrietyMilestone {
+  /** Days of continuous sobriety required to reach the milestone */
+  days: number;
+  /** Display label, e.g. "1 Year Sober" */
+  label: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/**
+ * Sobriety milestones celebrated by the app, in ascending order.
+ * Shared by the Journey timeline and the local milestone notifications.
+ */
+export const SOBRIETY_MILESTONES: readonly SobrietyMilestone[] = [
+  { days: 7, label: '1 Week Sober' },
+  { days: 30, label: '30 Days Sober' },
+  { days: 60, label: '60 Days Sober' },
+  { days: 90, label: '90 Days Sober' },
+  { days: 180, label: '6 Months Sober' },
+  { days: 365, label: '1 Year Sober' },
+  { days: 730, label: '2 Years Sober' },
+  { days: 1095, label: '3 Years Sober' },
+];
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Returns the milestones that have not been reached yet.
+ *
+ * @param daysSober - Days in the current streak
+ * @returns Milestones requiring more days than the current streak
+ *
+ * @example
+ * ```ts
+ * getUpcomingMilestones(45).map((m) => m.days);
+ * // Returns: [60, 90, 180, 365, 730, 1095]
+ * ```
+ */
+export function getUpcomingMilestones(daysSober: number): SobrietyMilestone[] {
+  return SOBRIETY_MILESTONES.filter((milestone) => milestone.days > daysSober);
+}
+
+/**
+ * Calculates the moment a milestone is reached, at a given local hour.
+ *
+ * @remarks
+ * The day count is added to the streak start as a calendar date in the user's
+ * timezone, so daylight saving changes never shift a milestone to another day.
+ *
+ * @param streakStartDate - Current streak start as YYYY-MM-DD
+ * @param days - Milestone length in days
+ * @param timezone - IANA timezone of the user
+ * @param hour - Local hour of day (0-23), defaults to midnight
+ * @returns The milestone moment as a Date
+ *
+ * @example
+ * ```ts
+ * getMilestoneDate('2024-01-01', 30, 'America/New_York', 9);
+ * // Returns: 2024-01-31 09:00 in New York
+ * ```
+ */
+export function getMilestoneDate(
+  streakStartDate: string,
+  days: number,
+  timezone: string,
+  hour = 0
+): Date {
+  const [year, month, day] = streakStartDate.split('-').map(Number);
+  return new Date(new TZDate(year, month - 1, day + days, hour, 0, 0, timezone).getTime());
+}
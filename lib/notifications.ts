@@ -0,0 +1,162 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { logger, LogCategory } from '@/lib/logger';
+import { insertNotifications } from '@/lib/repositories/notifications';
+import { NotificationData, NotificationType, Profile } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A user's notification opt-in flags, as stored on their profile.
+ */
+export type NotificationPreferences = Profile['notification_preferences'];
+
+/**
+ * A notification to be written for a single recipient.
+ */
+export interface NotificationInput {
+  /** Recipient's profile ID */
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  content: string;
+  /** Payload used by the inbox to deep-link to the related screen */
+  data?: NotificationData;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/**
+ * Preference flag that controls each notification type.
+ *
+ * @remarks
+ * Connection requests map to `null`: they report changes to the relationship
+ * itself (connects and disconnects), so they are always delivered.
+ */
+export const NOTIFICATION_PREFERENCE_BY_TYPE: Record<
+  NotificationType,
+  keyof NotificationPreferences | null
+> = {
+  task_assigned: 'tasks',
+  task_completed: 'tasks',
+  task_feedback: 'tasks',
+  message: 'messages',
+  milestone: 'milestones',
+  connection_request: null,
+};
+
+/** Preferences assumed for profiles that have never edited them */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  tasks: true,
+  messages: true,
+  milestones: true,
+  daily: true,
+};
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Checks whether a recipient has opted in to a notification type.
+ * Missing preferences or flags count as opted in.
+ *
+ * @param preferences - The recipient's stored preferences, if any
+ * @param type - The notification type being sent
+ * @returns True if the notification should be delivered
+ *
+ * @example
+ * ```ts
+ * isNotificationEnabled({ tasks: false, messages: true, milestones: true, daily: true }, 'task_assigned')
+ * // Returns: false
+ * ```
+ */
+export function isNotificationEnabled(
+  preferences: Partial<NotificationPreferences> | null | undefined,
+  type: NotificationType
+): boolean {
+  const key = NOTIFICATION_PREFERENCE_BY_TYPE[type];
+  if (!key) return true;
+  return preferences?.[key] !== false;
+}
+
+/**
+ * Writes notifications, skipping any whose recipient has opted out of that type.
+ *
+ * @remarks
+ * Every notification the app creates goes through this function. Recipients'
+ * preferences are looked up in a single query; if that lookup fails, the
+ * notifications are still sent so that a transient error never silently drops
+ * them. Notifications are best-effort: failures are logged and never thrown,
+ * so the action that triggered them is not reported as failed.
+ *
+ * @param notifications - Notifications to write, possibly for several recipients
+ * @returns The notifications that were written
+ */
+export async function sendNotifications(
+  notifications: NotificationInput[]
+): Promise<NotificationInput[]> {
+  if (notifications.length === 0) return [];
+
+  const recipientIds = [...new Set(notifications.map((n) => n.user_id))];
+  let preferencesById = new Map<string, NotificationPreferences | null>();
+
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, notification_preferences')
+      .in('id', recipientIds);
+
+    if (error) throw error;
+
+    preferencesById = new Map(
+      ((data || []) as Pick<Profile, 'id' | 'notification_preferences'>[]).map((row) => [
+        row.id,
+        row.notification_preferences,
+      ])
+    );
+  } catch (err) {
+    logger.warn('Notification preferences lookup failed, sending anyway', {
+      category: LogCategory.NOTIFICATION,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  const allowed = notifications.filter((n) =>
+    isNotificationEnabled(preferencesById.get(n.user_id), n.type)
+  );
+
+  if (allowed.length < notifications.length) {
+    logger.debug('Skipped notifications for opted-out recipients', {
+      category: LogCategory.NOTIFICATION,
+      skipped: notifications.length - allowed.length,
+    });
+  }
+
+  if (allowed.length === 0) return [];
+
+  try {
+    await insertNotifications(allowed);
+    return allowed;
+  } catch {
+    // Already logged by the repository
+    return [];
+  }
+}
+
+/**
+ * Writes a single notification unless its recipient has opted out.
+ *
+ * @param notification - The notification to write
+ * @returns True if the notification was written
+ *
+ * @see {@link sendNotifications}
+ */
+export async function sendNotification(notification: NotificationInput): Promise<boolean> {
+  const sent = await sendNotifications([notification]);
+  return sent.length > 0;
+}
@@ -0,0 +1,140 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { logger, LogCategory } from '@/lib/logger';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A cached query result as persisted in AsyncStorage.
+ */
+interface CacheEntry<T> {
+  value: T;
+  /** ISO timestamp of the fetch that produced `value` */
+  cachedAt: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+const CACHE_KEY_PREFIX = 'offline_cache:';
+
+/**
+ * Cache keys for each cached read, scoped to the user whose data they hold.
+ */
+export const cacheKeys = {
+  sponseeRelationships: (userId: string) => `sponsee_relationships:${userId}`,
+  sponsorRelationships: (userId: string) => `sponsor_relationships:${userId}`,
+  assignedTasks: (userId: string) => `assigned_tasks:${userId}`,
+  createdTasks: (userId: string) => `created_tasks:${userId}`,
+  sponseeTaskSeries: (userId: string) => `sponsee_task_series:${userId}`,
+  sponsorTaskSeries: (userId: string) => `sponsor_task_series:${userId}`,
+  sponseeTaskStatuses: (userId: string) => `sponsee_task_statuses:${userId}`,
+  recentAssignedTasks: (userId: string) => `recent_assigned_tasks:${userId}`,
+  completedTasks: (userId: string) => `completed_tasks:${userId}`,
+  stepProgress: (userId: string) => `step_progress:${userId}`,
+  inventory: (userId: string) => `inventory:${userId}`,
+  amends: (userId: string) => `amends:${userId}`,
+  checkIns: (userId: string) => `check_ins:${userId}`,
+  completedSteps: (userId: string) => `completed_steps:${userId}`,
+  slipUps: (userId: string) => `slip_ups:${userId}`,
+  stepsContent: () => 'steps_content',
+};
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Reads a cached value.
+ *
+ * @param key - Cache key, from {@link cacheKeys}
+ * @returns The cached value, or null if nothing is cached or the entry is unreadable
+ */
+export async function readCache<T>(key: string): Promise<T | null> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY_PREFIX + key);
+    if (!raw) return null;
+    return (JSON.parse(raw) as CacheEntry<T>).value;
+  } catch (err) {
+    logger.warn('Offline cache read failed', {
+      category: LogCategory.SYNC,
+      key,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Stores a value in the cache, replacing any previous entry.
+ * Failures are logged and never thrown; the cache is best-effort.
+ *
+ * @param key - Cache key, from {@link cacheKeys}
+ * @param value - JSON-serializable value to store
+ */
+export async function writeCache<T>(key: string, value: T): Promise<void> {
+  const entry: CacheEntry<T> = { value, cachedAt: new Date().toISOString() };
+
+  try {
+    await AsyncStorage.setItem(CACHE_KEY_PREFIX + key, JSON.stringify(entry));
+  } catch (err) {
+    logger.warn('Offline cache write failed', {
+      category: LogCategory.SYNC,
+      key,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Runs a query and caches its result, falling back to the last cached result
+ * when the query fails.
+ *
+ * @remarks
+ * This is how screens read data that must stay visible without a connection.
+ * The fallback applies to any failure, not only network errors, so a screen
+ * shows stale data rather than an empty state. If nothing has been cached yet,
+ * the query's error is rethrown unchanged.
+ *
+ * @param key - Cache key, from {@link cacheKeys}
+ * @param query - Fetches fresh data, typically a repository function
+ * @returns Fresh data, or the cached copy if the query failed
+ * @throws The query error if the query failed and nothing is cached
+ *
+ * @example
+ * ```ts
+ * const tasks = await withOfflineCache(cacheKeys.assignedTasks(userId), () =>
+ *   fetchAssignedTasks(userId)
+ * );
+ * ```
+ */
+export async function withOfflineCache<T>(key: string, query: () => Promise<T>): Promise<T> {
+  try {
+    const value = await query();
+    await writeCache(key, value);
+    return value;
+  } catch (err) {
+    const cached = await readCache<T>(key);
+    if (cached === null) throw err;
+
+    logger.info('Serving cached data after failed fetch', {
+      category: LogCategory.SYNC,
+      key,
+    });
+    return cached;
+  }
+}
+
+/**
+ * Removes every cached query result, for example when the user signs out.
+ */
+export async function clearOfflineCache(): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  const cacheKeysToRemove = keys.filter((key) => key.startsWith(CACHE_KEY_PREFIX));
+  if (cacheKeysToRemove.length > 0) {
+    await AsyncStorage.multiRemove(cacheKeysToRemove);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Offline support: a persisted read cache and a replayable mutation queue.
+ *
+ * @remarks
+ * Screens read relationships, tasks, step progress and slip-ups through
+ * `withOfflineCache`, so the last fetched data stays visible without a
+ * connection. Task and step completions go through `submitMutation`, which
+ * queues them when offline; `startAutoSync` replays the queue when the
+ * connection returns. Both are stored in AsyncStorage and cleared on sign-out.
+ */
+export * from '@/lib/offline/cache';
+export * from '@/lib/offline/queue';
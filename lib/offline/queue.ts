@@ -0,0 +1,523 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { completeStep, completeTask, saveTaskDraft, uncompleteStep } from '@/lib/repositories';
+import { sendNotifications, NotificationInput } from '@/lib/notifications';
+import { logger, LogCategory } from '@/lib/logger';
+import { Task, UserStepProgress } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A change that can be made offline and replayed against Supabase later.
+ * Each carries the time the user made it, so replays keep the original timestamps.
+ */
+export type SyncMutation =
+  | { type: 'complete_task'; taskId: string; completionNotes: string | null; completedAt: string }
+  | { type: 'save_task_draft'; taskId: string; draftNotes: string | null }
+  | { type: 'complete_step'; userId: string; stepNumber: number; completedAt: string }
+  | { type: 'uncomplete_step'; userId: string; stepNumber: number };
+
+/**
+ * A mutation waiting in the queue, as persisted in AsyncStorage.
+ */
+interface QueueEntry {
+  id: string;
+  mutation: SyncMutation;
+  /** Notifications to send once the mutation reaches the server */
+  notifications: NotificationInput[];
+  queuedAt: string;
+  /** Replays that failed for lack of a connection */
+  attempts: number;
+}
+
+/**
+ * Whether a submitted mutation reached the server or is waiting in the queue.
+ * `'conflict'` means the server had nothing to apply it to, such as a task the
+ * sponsor has deleted.
+ */
+export type SubmitResult = 'applied' | 'queued' | 'conflict';
+
+/**
+ * Snapshot of the queue for the pending-sync indicator.
+ */
+export interface SyncQueueState {
+  pendingCount: number;
+  isSyncing: boolean;
+  /** Queued changes discarded as conflicts since the user last dismissed them */
+  discardedCount: number;
+}
+
+/**
+ * Outcome of one pass over the queue.
+ */
+export interface SyncResult {
+  /** Mutations that reached the server, or were already applied there */
+  synced: number;
+  /** Mutations the server rejected; they are discarded */
+  conflicts: number;
+  /** Mutations still waiting for a connection */
+  pending: number;
+}
+
+type SyncQueueListener = (state: SyncQueueState) => void;
+
+type TaskMutation = Extract<SyncMutation, { taskId: string }>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+const QUEUE_STORAGE_KEY = 'sync_queue';
+
+/** Messages fetch implementations use when the request never reached the server */
+const NETWORK_ERROR_PATTERN =
+  /network request failed|failed to fetch|network ?error|fetcherror|load failed/i;
+
+/** Postgres unique violation: the change already exists on the server */
+const UNIQUE_VIOLATION_CODE = '23505';
+
+// =============================================================================
+// Module State
+// =============================================================================
+/** In-memory copy of the queue; loaded from AsyncStorage on first use */
+let queue: QueueEntry[] | null = null;
+/** Entry currently being replayed; never coalesced away mid-request */
+let replayingEntryId: string | null = null;
+let syncInFlight: Promise<SyncResult> | null = null;
+let discardedCount = 0;
+const listeners = new Set<SyncQueueListener>();
+
+// =============================================================================
+// Internal Functions
+// =============================================================================
+
+async function loadQueue(): Promise<QueueEntry[]> {
+  if (queue) return queue;
+
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+    queue = raw ? (JSON.parse(raw) as QueueEntry[]) : [];
+  } catch (err) {
+    logger.warn('Sync queue could not be read, starting empty', {
+      category: LogCategory.SYNC,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    queue = [];
+  }
+  return queue;
+}
+
+async function saveQueue(entries: QueueEntry[]): Promise<void> {
+  queue = entries;
+  notifyListeners();
+
+  try {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(entries));
+  } catch (err) {
+    logger.warn('Sync queue could not be saved', {
+      category: LogCategory.SYNC,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+function getState(): SyncQueueState {
+  return { pendingCount: queue?.length ?? 0, isSyncing: syncInFlight !== null, discardedCount };
+}
+
+function notifyListeners(): void {
+  const state = getState();
+  listeners.forEach((listener) => listener(state));
+}
+
+function isTaskMutation(mutation: SyncMutation): mutation is TaskMutation {
+  return mutation.type === 'complete_task' || mutation.type === 'save_task_draft';
+}
+
+/**
+ * Adds a mutation to the queue, cancelling it against a queued opposite.
+ *
+ * @remarks
+ * Completing and un-completing the same step cancel out, since together they
+ * leave the server unchanged. A repeated task completion or draft replaces the
+ * queued one, and completing a task drops its queued drafts, which completion
+ * clears anyway.
+ */
+function coalesce(entries: QueueEntry[], entry: QueueEntry): QueueEntry[] {
+  const { mutation } = entry;
+  const pending = entries.filter((e) => e.id !== replayingEntryId);
+
+  if (isTaskMutation(mutation)) {
+    const replaced = pending.filter(
+      (e) =>
+        isTaskMutation(e.mutation) &&
+        e.mutation.taskId === mutation.taskId &&
+        (mutation.type === 'complete_task' || e.mutation.type === mutation.type)
+    );
+    return [...entries.filter((e) => !replaced.includes(e)), entry];
+  }
+
+  const lastForStep = [...pending]
+    .reverse()
+    .find(
+      (e) =>
+        !isTaskMutation(e.mutation) &&
+        e.mutation.userId === mutation.userId &&
+        e.mutation.stepNumber === mutation.stepNumber
+    );
+  if (lastForStep && lastForStep.mutation.type !== mutation.type) {
+    return entries.filter((e) => e !== lastForStep);
+  }
+  return [...entries, entry];
+}
+
+/**
+ * Sends a mutation to the server.
+ *
+ * @returns False when the server had nothing to apply it to, such as a task
+ *   completion for a task that has since been deleted
+ */
+async function applyMutation(mutation: SyncMutation): Promise<boolean> {
+  switch (mutation.type) {
+    case 'complete_task':
+      return completeTask(mutation.taskId, mutation.completionNotes, mutation.completedAt);
+    case 'save_task_draft':
+      await saveTaskDraft(mutation.taskId, mutation.draftNotes);
+      return true;
+    case 'complete_step':
+      await completeStep(mutation.userId, mutation.stepNumber, mutation.completedAt);
+      return true;
+    case 'uncomplete_step':
+      await uncompleteStep(mutation.userId, mutation.stepNumber);
+      return true;
+  }
+}
+
+/**
+ * Checks whether a replay failed because the change is already on the server,
+ * for example a step completed on another device while this one was offline.
+ */
+function isAlreadyApplied(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === UNIQUE_VIOLATION_CODE;
+}
+
+/**
+ * Records a queued change the server would not take, so the user can be told
+ * it was discarded.
+ */
+function discardConflict(entry: QueueEntry, reason: string): void {
+  discardedCount += 1;
+  logger.warn('Queued change discarded after server rejected it', {
+    category: LogCategory.SYNC,
+    mutationType: entry.mutation.type,
+    queuedAt: entry.queuedAt,
+    error: reason,
+  });
+}
+
+async function replayQueue(): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, pending: 0 };
+
+  let entries = await loadQueue();
+  while (entries.length > 0) {
+    const entry = entries[0];
+    replayingEntryId = entry.id;
+
+    try {
+      if (await applyMutation(entry.mutation)) {
+        result.synced += 1;
+        await sendNotifications(entry.notifications);
+      } else {
+        // For example a task the sponsor deleted meanwhile; its notifications
+        // are dropped along with it
+        result.conflicts += 1;
+        discardConflict(entry, 'Nothing on the server to apply the change to');
+      }
+    } catch (err) {
+      if (isNetworkError(err)) {
+        await saveQueue(
+          (await loadQueue()).map((e) =>
+            e.id === entry.id ? { ...e, attempts: e.attempts + 1 } : e
+          )
+        );
+        break;
+      }
+
+      if (isAlreadyApplied(err)) {
+        result.synced += 1;
+      } else {
+        // The server is authoritative: a change it rejects (for example a task
+        // the sponsor deleted meanwhile) is dropped rather than retried forever
+        result.conflicts += 1;
+        discardConflict(entry, err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      replayingEntryId = null;
+    }
+
+    entries = (await loadQueue()).filter((e) => e.id !== entry.id);
+    await saveQueue(entries);
+  }
+
+  result.pending = (await loadQueue()).length;
+  if (result.synced > 0 || result.conflicts > 0) {
+    logger.info('Sync queue replayed', { category: LogCategory.SYNC, ...result });
+  }
+  return result;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Checks whether an error means the request never reached Supabase.
+ *
+ * @param err - Error thrown by a repository function
+ * @returns True for connectivity failures, false for errors returned by the server
+ */
+export function isNetworkError(err: unknown): boolean {
+  const message = (err as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && NETWORK_ERROR_PATTERN.test(message);
+}
+
+/**
+ * Lists the mutations waiting to be synced, oldest first.
+ *
+ * @returns Queued mutations, for overlaying onto cached reads
+ */
+export async function getPendingMutations(): Promise<SyncMutation[]> {
+  return (await loadQueue()).map((entry) => entry.mutation);
+}
+
+/**
+ * Adds a mutation to the persisted queue without attempting it.
+ *
+ * @param mutation - The change to replay later
+ * @param notifications - Notifications to send once the change is synced
+ */
+export async function enqueueMutation(
+  mutation: SyncMutation,
+  notifications: NotificationInput[] = []
+): Promise<void> {
+  const entry: QueueEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    mutation,
+    notifications,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+
+  await saveQueue(coalesce(await loadQueue(), entry));
+  logger.info('Change queued for sync', {
+    category: LogCategory.SYNC,
+    mutationType: mutation.type,
+  });
+}
+
+/**
+ * Applies a mutation now when possible, otherwise queues it for replay.
+ *
+ * @remarks
+ * Screens make every offline-capable change through this function. When the
+ * queue is empty the change is sent straight away; a connectivity failure
+ * queues it instead. While earlier changes are still queued, new ones join
+ * the queue behind them so the server sees them in the order they were made.
+ * Notifications are sent only once the change reaches the server, and not at
+ * all for a conflict.
+ *
+ * @param mutation - The change to make
+ * @param notifications - Notifications to send once the change is applied
+ * @returns `'applied'` if the server has the change, `'queued'` if it will sync
+ *   later, `'conflict'` if the server had nothing to apply it to
+ * @throws The query error if the server rejected the change
+ *
+ * @example
+ * ```ts
+ * const result = await submitMutation({
+ *   type: 'complete_step',
+ *   userId: profile.id,
+ *   stepNumber: 4,
+ *   completedAt: new Date().toISOString(),
+ * });
+ * ```
+ */
+export async function submitMutation(
+  mutation: SyncMutation,
+  notifications: NotificationInput[] = []
+): Promise<SubmitResult> {
+  const hasQueuedChanges = (await loadQueue()).length > 0;
+
+  if (!hasQueuedChanges) {
+    try {
+      if (!(await applyMutation(mutation))) return 'conflict';
+      await sendNotifications(notifications);
+      return 'applied';
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  await enqueueMutation(mutation, notifications);
+  if (hasQueuedChanges) {
+    processSyncQueue().catch(() => {
+      // Replays report their own failures; the change stays queued
+    });
+  }
+  return 'queued';
+}
+
+/**
+ * Replays queued mutations in order until the queue is empty or the
+ * connection drops. Concurrent calls share a single pass.
+ *
+ * @returns Counts of synced, discarded and still-pending mutations
+ */
+export function processSyncQueue(): Promise<SyncResult> {
+  if (!syncInFlight) {
+    syncInFlight = replayQueue().finally(() => {
+      syncInFlight = null;
+      notifyListeners();
+    });
+    notifyListeners();
+  }
+  return syncInFlight;
+}
+
+/**
+ * Registers a listener for queue changes, called immediately with the current state.
+ *
+ * @param listener - Receives the pending count and whether a sync is running
+ * @returns Function that removes the listener
+ */
+export function subscribeToSyncQueue(listener: SyncQueueListener): () => void {
+  listeners.add(listener);
+  loadQueue().then(() => {
+    if (listeners.has(listener)) listener(getState());
+  });
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Replays the queue whenever the device regains a connection, including once
+ * at startup if it is already online.
+ *
+ * @returns Function that stops listening for connectivity changes
+ */
+export function startAutoSync(): () => void {
+  let wasConnected = false;
+
+  return NetInfo.addEventListener((state) => {
+    const isConnected = state.isConnected === true && state.isInternetReachable !== false;
+    if (isConnected && !wasConnected) {
+      processSyncQueue().catch((err) => {
+        logger.error('Sync queue replay failed', err as Error, {
+          category: LogCategory.SYNC,
+        });
+      });
+    }
+    wasConnected = isConnected;
+  });
+}
+
+/**
+ * Clears the count of discarded changes once the user has seen it.
+ */
+export function dismissDiscardedChanges(): void {
+  discardedCount = 0;
+  notifyListeners();
+}
+
+/**
+ * Discards every queued mutation, for example when the user signs out.
+ */
+export async function clearSyncQueue(): Promise<void> {
+  const entries = await loadQueue();
+  if (entries.length > 0) {
+    logger.warn('Discarding unsynced changes', {
+      category: LogCategory.SYNC,
+      count: entries.length,
+    });
+  }
+
+  queue = [];
+  discardedCount = 0;
+  notifyListeners();
+  await AsyncStorage.removeItem(QUEUE_STORAGE_KEY);
+}
+
+// =============================================================================
+// Optimistic State
+// =============================================================================
+
+/**
+ * Applies queued task completions and drafts to tasks read from the server or
+ * cache, so tasks completed or started offline show as such.
+ *
+ * @param tasks - Tasks as last fetched
+ * @param pending - Queued mutations, from {@link getPendingMutations}
+ * @returns The tasks with pending changes applied
+ */
+export function applyPendingToTasks(tasks: Task[], pending: SyncMutation[]): Task[] {
+  return tasks.map((task) =>
+    pending.reduce<Task>((current, mutation) => {
+      if (!isTaskMutation(mutation) || mutation.taskId !== task.id) return current;
+
+      if (mutation.type === 'complete_task') {
+        return {
+          ...current,
+          status: 'completed',
+          completed_at: mutation.completedAt,
+          completion_notes: mutation.completionNotes,
+          draft_notes: null,
+        };
+      }
+      // Like the server, a draft never reopens a completed task
+      if (current.status === 'completed') return current;
+      return { ...current, status: 'in_progress', draft_notes: mutation.draftNotes };
+    }, task)
+  );
+}
+
+/**
+ * Applies queued step completions and un-completions to step progress.
+ *
+ * @remarks
+ * Completed-offline steps get a placeholder record whose `id` is not a server
+ * ID; un-completing goes through `uncompleteStep`, which does not need one.
+ *
+ * @param progress - Progress records as last fetched
+ * @param pending - Step mutations to apply, in the order they were made
+ * @returns The progress records with pending changes applied
+ */
+export function applyPendingToStepProgress(
+  progress: UserStepProgress[],
+  pending: SyncMutation[]
+): UserStepProgress[] {
+  return pending.reduce((records, mutation) => {
+    if (isTaskMutation(mutation)) return records;
+
+    const others = records.filter((p) => p.step_number !== mutation.stepNumber);
+    if (mutation.type === 'uncomplete_step') return others;
+
+    return [
+      ...others,
+      {
+        id: `pending-${mutation.stepNumber}`,
+        user_id: mutation.userId,
+        step_number: mutation.stepNumber,
+        completed: true,
+        completed_at: mutation.completedAt,
+        notes: null,
+        created_at: mutation.completedAt,
+        updated_at: mutation.completedAt,
+      },
+    ];
+  }, progress);
+}
@@ -0,0 +1,143 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { logger, LogCategory } from '@/lib/logger';
+import type { Tables } from '@/types/supabase';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Tables published to Supabase Realtime (see the `realtime` migration).
+ */
+export type RealtimeTable =
+  | 'tasks'
+  | 'sponsor_sponsee_relationships'
+  | 'notifications'
+  | 'messages';
+
+/**
+ * An insert, update or delete on a realtime table.
+ */
+export type RealtimeChange<T extends RealtimeTable> = RealtimePostgresChangesPayload<Tables<T>>;
+
+/**
+ * Columns of a realtime table that hold a profile ID, usable as a subscription filter.
+ */
+export type UserColumn<T extends RealtimeTable> = Extract<keyof Tables<T>, string> &
+  {
+    tasks: 'sponsor_id' | 'sponsee_id';
+    sponsor_sponsee_relationships: 'sponsor_id' | 'sponsee_id';
+    notifications: 'user_id';
+    messages: 'sender_id' | 'recipient_id';
+  }[T];
+
+// =============================================================================
+// Module State
+// =============================================================================
+/** Makes channel names unique; two screens may watch the same table at once */
+let channelCounter = 0;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Subscribes to changes on a table's rows that involve a user.
+ *
+ * @remarks
+ * Realtime filters accept a single `column=eq.value` condition, so each column
+ * in `userColumns` gets its own listener on one shared channel. Row-level
+ * security still applies: only rows the user can select are delivered, and
+ * columns they cannot select are left out. Delete events cannot be filtered
+ * and carry only the deleted row's `id`.
+ *
+ * @param table - The table to watch
+ * @param userId - The current user's profile ID
+ * @param userColumns - Columns that must equal `userId`, any of which matches
+ * @param onChange - Called for every matching insert, update or delete
+ * @returns Function that removes the channel
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToUserChanges('tasks', profile.id, ['sponsee_id'], (change) => {
+ *   if (change.eventType === 'INSERT') fetchMyTasks();
+ * });
+ * ```
+ */
+export function subscribeToUserChanges<T extends RealtimeTable>(
+  table: T,
+  userId: string,
+  userColumns: UserColumn<T>[],
+  onChange: (change: RealtimeChange<T>) => void
+): () => void {
+  channelCounter += 1;
+  const channel = supabase.channel(`${table}:${userId}:${channelCounter}`);
+
+  userColumns.forEach((column) => {
+    channel.on<Tables<T>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter: `${column}=eq.${userId}` },
+      onChange
+    );
+  });
+
+  channel.subscribe((status, err) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      logger.warn('Realtime subscription failed', {
+        category: LogCategory.SYNC,
+        table,
+        status,
+        error: err?.message,
+      });
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Applies a realtime change to a list of rows held in screen state.
+ *
+ * @remarks
+ * Updates are merged into the existing row, so fields added by joins (such as
+ * a task's `sponsor` profile) are kept. Inserts of rows already in the list
+ * are treated as updates, since the user's own writes echo back.
+ *
+ * @param rows - Current rows
+ * @param change - The change received
+ * @param insertAt - Where new rows go: `'start'` for newest-first lists, `'end'` otherwise
+ * @returns A new array with the change applied
+ */
+export function mergeRealtimeChange<R extends { id: string }, T extends RealtimeTable>(
+  rows: R[],
+  change: RealtimeChange<T>,
+  insertAt: 'start' | 'end' = 'start'
+): R[] {
+  if (change.eventType === 'DELETE') {
+    const deletedId = (change.old as Partial<Tables<T>> & { id?: string }).id;
+    return rows.filter((row) => row.id !== deletedId);
+  }
+
+  const incoming = change.new as Tables<T> & { id: string };
+  const exists = rows.some((row) => row.id === incoming.id);
+
+  if (exists) {
+    return rows.map((row) => (row.id === incoming.id ? { ...row, ...incoming } : row));
+  }
+  if (change.eventType === 'UPDATE') return rows;
+
+  const inserted = incoming as unknown as R;
+  return insertAt === 'start' ? [inserted, ...rows] : [...rows, inserted];
+}
+
+/**
+ * Closes every realtime channel, for example when the user signs out.
+ */
+export async function removeAllRealtimeChannels(): Promise<void> {
+  await supabase.removeAllChannels();
+}
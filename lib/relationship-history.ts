@@ -0,0 +1,75 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import type { SponsorSponseeRelationship, Task } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Task counts for one relationship.
+ */
+export interface RelationshipTaskStats {
+  total: number;
+  completed: number;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+const pairKey = (relationship: Pick<SponsorSponseeRelationship, 'sponsor_id' | 'sponsee_id'>) =>
+  `${relationship.sponsor_id}:${relationship.sponsee_id}`;
+
+/**
+ * Picks the past relationships to show as history.
+ *
+ * @remarks
+ * A pair can disconnect, connect again with a new invite code and disconnect
+ * again, leaving several inactive rows. Only the most recent is kept, and pairs
+ * that are currently connected, or waiting on a connection request, are left
+ * out entirely since they already appear with the current relationships.
+ *
+ * @param past - Inactive relationships, most recently ended first
+ * @param current - The user's active and pending relationships
+ * @returns One past relationship per former sponsor or sponsee
+ */
+export function selectRelationshipHistory(
+  past: SponsorSponseeRelationship[],
+  current: SponsorSponseeRelationship[]
+): SponsorSponseeRelationship[] {
+  const seen = new Set(current.map(pairKey));
+
+  return past.filter((relationship) => {
+    const key = pairKey(relationship);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Counts each relationship's tasks. Tasks belong to a sponsor and sponsee
+ * rather than to a relationship row, so every task between the pair counts.
+ *
+ * @param relationships - The relationships to count tasks for
+ * @param tasks - Task participants and statuses, in any order
+ * @returns Task counts keyed by relationship ID, zero for pairs without tasks
+ */
+export function countTasksByRelationship(
+  relationships: SponsorSponseeRelationship[],
+  tasks: Pick<Task, 'sponsor_id' | 'sponsee_id' | 'status'>[]
+): Record<string, RelationshipTaskStats> {
+  const byPair = new Map<string, RelationshipTaskStats>();
+  for (const task of tasks) {
+    const stats = byPair.get(pairKey(task)) ?? { total: 0, completed: 0 };
+    stats.total++;
+    if (task.status === 'completed') stats.completed++;
+    byPair.set(pairKey(task), stats);
+  }
+
+  const counts: Record<string, RelationshipTaskStats> = {};
+  for (const relationship of relationships) {
+    counts[relationship.id] = byPair.get(pairKey(relationship)) ?? { total: 0, completed: 0 };
+  }
+  return counts;
+}
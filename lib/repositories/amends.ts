@@ -0,0 +1,113 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { AmendsEntry } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * The fields of an amends entry, as entered in the amends form. The database
+ * stamps `made_at` itself.
+ */
+export type AmendsEntryFields = Pick<
+  AmendsEntry,
+  'person' | 'harm' | 'approach' | 'status' | 'deferred_reason'
+>;
+
+/**
+ * A new amends entry.
+ */
+export type NewAmendsEntry = AmendsEntryFields & Pick<AmendsEntry, 'user_id'>;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches a user's amends list.
+ *
+ * @param userId - The user's profile ID
+ * @returns Every entry, oldest first
+ * @throws The query error if the fetch fails
+ */
+export async function fetchAmends(userId: string): Promise<AmendsEntry[]> {
+  const { data, error } = await supabase
+    .from('amends')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  throwIfQueryFailed(error, 'Amends fetch failed');
+  return (data || []) as AmendsEntry[];
+}
+
+/**
+ * Fetches the amends list another user shares with the current user. Nothing
+ * is returned unless they share their amends.
+ *
+ * @param userId - The sponsee's profile ID
+ * @returns The shared entries, oldest first
+ * @throws The query error if the RPC fails
+ */
+export async function fetchSharedAmends(userId: string): Promise<AmendsEntry[]> {
+  const { data, error } = await supabase.rpc('get_shared_amends', { p_user_id: userId });
+
+  throwIfQueryFailed(error, 'Shared amends fetch failed');
+  return (data || []) as AmendsEntry[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Adds a person to a user's amends list.
+ *
+ * @param entry - The entry to add
+ * @returns The new entry
+ * @throws The query error if the insert fails
+ */
+export async function createAmends(entry: NewAmendsEntry): Promise<AmendsEntry> {
+  const { data, error } = await supabase.from('amends').insert(entry).select().single();
+
+  throwIfQueryFailed(error, 'Amends creation failed');
+  return data as AmendsEntry;
+}
+
+/**
+ * Saves edits to an amends entry, including a change of status.
+ *
+ * @param entryId - The entry to update
+ * @param fields - The entry's new values
+ * @returns The updated entry, with `made_at` as the database left it
+ * @throws The query error if the update fails
+ */
+export async function updateAmends(
+  entryId: string,
+  fields: AmendsEntryFields
+): Promise<AmendsEntry> {
+  const { data, error } = await supabase
+    .from('amends')
+    .update(fields)
+    .eq('id', entryId)
+    .select()
+    .single();
+
+  throwIfQueryFailed(error, 'Amends update failed');
+  return data as AmendsEntry;
+}
+
+/**
+ * Removes a person from a user's amends list.
+ *
+ * @param entryId - The entry to delete
+ * @throws The query error if the delete fails
+ */
+export async function deleteAmends(entryId: string): Promise<void> {
+  const { error } = await supabase.from('amends').delete().eq('id', entryId);
+
+  throwIfQueryFailed(error, 'Amends deletion failed');
+}
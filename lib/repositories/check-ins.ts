@@ -0,0 +1,85 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { DailyCheckIn, SharedCheckIn } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A day's check-in as entered in the check-in form. `check_in_date` is the
+ * local day in the user's profile timezone.
+ */
+export type CheckInDraft = Pick<
+  DailyCheckIn,
+  | 'user_id'
+  | 'check_in_date'
+  | 'mood'
+  | 'hungry'
+  | 'angry'
+  | 'lonely'
+  | 'tired'
+  | 'gratitude'
+  | 'review'
+>;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches a user's check-ins.
+ *
+ * @param userId - The user's profile ID
+ * @returns Every check-in, most recent day first
+ * @throws The query error if the fetch fails
+ */
+export async function fetchCheckIns(userId: string): Promise<DailyCheckIn[]> {
+  const { data, error } = await supabase
+    .from('daily_check_ins')
+    .select('*')
+    .eq('user_id', userId)
+    .order('check_in_date', { ascending: false });
+
+  throwIfQueryFailed(error, 'Check-ins fetch failed');
+  return (data || []) as DailyCheckIn[];
+}
+
+/**
+ * Fetches the check-in summary another user shares with the current user.
+ * Nothing is returned unless they share their check-ins.
+ *
+ * @param userId - The sponsee's profile ID
+ * @returns Each day's mood and HALT flags, most recent day first
+ * @throws The query error if the RPC fails
+ */
+export async function fetchSharedCheckIns(userId: string): Promise<SharedCheckIn[]> {
+  const { data, error } = await supabase.rpc('get_shared_check_ins', { p_user_id: userId });
+
+  throwIfQueryFailed(error, 'Shared check-ins fetch failed');
+  return (data || []) as SharedCheckIn[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Saves a day's check-in, replacing any earlier check-in for the same day.
+ *
+ * @param checkIn - The check-in to save
+ * @returns The saved check-in
+ * @throws The query error if the save fails
+ */
+export async function saveCheckIn(checkIn: CheckInDraft): Promise<DailyCheckIn> {
+  const { data, error } = await supabase
+    .from('daily_check_ins')
+    .upsert(checkIn, { onConflict: 'user_id,check_in_date' })
+    .select()
+    .single();
+
+  throwIfQueryFailed(error, 'Check-in save failed');
+  return data as DailyCheckIn;
+}
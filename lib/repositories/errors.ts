@@ -0,0 +1,43 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { logger, LogCategory } from '@/lib/logger';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * The error shape returned by Supabase queries (a `PostgrestError` at runtime).
+ */
+type QueryError = { message: string } | null;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Logs and rethrows a failed query's error. Does nothing when the query succeeded.
+ *
+ * @remarks
+ * Every repository function reports failures through this helper, so each
+ * failed query is logged exactly once under {@link LogCategory.DATABASE}.
+ * Callers catch the rethrown error to update UI state and should not log it again.
+ *
+ * @param error - The `error` returned by the query
+ * @param operation - Human-readable description used as the log message
+ * @throws The query error, if there was one
+ *
+ * @example
+ * ```ts
+ * const { data, error } = await supabase.from('tasks').select('*');
+ * throwIfQueryFailed(error, 'Tasks fetch failed');
+ * ```
+ */
+export function throwIfQueryFailed(error: QueryError, operation: string): void {
+  if (!error) return;
+
+  logger.error(operation, error as Error, {
+    category: LogCategory.DATABASE,
+  });
+  throw error;
+}
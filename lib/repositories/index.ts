@@ -0,0 +1,37 @@
+/**
+ * Typed data access for the app's Supabase tables.
+ *
+ * @remarks
+ * Screens, hooks and components read and write profiles, relationships,
+ * tasks, task templates, task series, task comments, slip-ups, step content,
+ * step progress, step answers, the Step 4 inventory, the amends list, daily
+ * check-ins, invite codes, messages and notifications through these functions
+ * rather than building queries inline.
+ * Each function returns typed rows and, on failure, logs the error once and
+ * throws it (see `throwIfQueryFailed`).
+ *
+ * In tests, mock this module instead of Supabase's chained query builder:
+ *
+ * @example
+ * ```ts
+ * jest.mock('@/lib/repositories', () => ({
+ *   fetchAssignedTasks: jest.fn().mockResolvedValue([]),
+ * }));
+ * ```
+ */
+export * from '@/lib/repositories/profiles';
+export * from '@/lib/repositories/relationships';
+export * from '@/lib/repositories/tasks';
+export * from '@/lib/repositories/task-series';
+export * from '@/lib/repositories/task-comments';
+export * from '@/lib/repositories/slip-ups';
+export * from '@/lib/repositories/step-content';
+export * from '@/lib/repositories/step-progress';
+export * from '@/lib/repositories/step-answers';
+export * from '@/lib/repositories/inventory';
+export * from '@/lib/repositories/amends';
+export * from '@/lib/repositories/check-ins';
+export * from '@/lib/repositories/invite-codes';
+export * from '@/lib/repositories/messages';
+export * from '@/lib/repositories/notifications';
+export { throwIfQueryFailed } from '@/lib/repositories/errors';
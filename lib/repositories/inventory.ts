@@ -0,0 +1,113 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { InventoryEntry } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * The columns of an inventory entry, as entered in the entry form.
+ */
+export type InventoryEntryFields = Pick<
+  InventoryEntry,
+  'subject' | 'cause' | 'affects' | 'my_part'
+>;
+
+/**
+ * A new inventory entry. `position` places it within its kind; new entries
+ * usually go last.
+ */
+export type NewInventoryEntry = InventoryEntryFields &
+  Pick<InventoryEntry, 'user_id' | 'kind' | 'position'>;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches a user's whole Step 4 inventory.
+ *
+ * @param userId - The user's profile ID
+ * @returns Every entry, in position order within each kind
+ * @throws The query error if the fetch fails
+ */
+export async function fetchInventoryEntries(userId: string): Promise<InventoryEntry[]> {
+  const { data, error } = await supabase
+    .from('inventory_entries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  throwIfQueryFailed(error, 'Inventory fetch failed');
+  return (data || []) as InventoryEntry[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Adds an entry to a user's inventory.
+ *
+ * @param entry - The entry to add
+ * @returns The new entry
+ * @throws The query error if the insert fails
+ */
+export async function createInventoryEntry(entry: NewInventoryEntry): Promise<InventoryEntry> {
+  const { data, error } = await supabase.from('inventory_entries').insert(entry).select().single();
+
+  throwIfQueryFailed(error, 'Inventory entry creation failed');
+  return data as InventoryEntry;
+}
+
+/**
+ * Saves edits to an inventory entry's columns.
+ *
+ * @param entryId - The entry to update
+ * @param fields - The entry's new column values
+ * @returns The updated entry
+ * @throws The query error if the update fails
+ */
+export async function updateInventoryEntry(
+  entryId: string,
+  fields: InventoryEntryFields
+): Promise<InventoryEntry> {
+  const { data, error } = await supabase
+    .from('inventory_entries')
+    .update(fields)
+    .eq('id', entryId)
+    .select()
+    .single();
+
+  throwIfQueryFailed(error, 'Inventory entry update failed');
+  return data as InventoryEntry;
+}
+
+/**
+ * Renumbers entries in the order given, for example after the user moves one
+ * up or down within its kind.
+ *
+ * @param entryIds - The kind's entries in their new order
+ * @throws The query error if the RPC fails
+ */
+export async function reorderInventoryEntries(entryIds: string[]): Promise<void> {
+  const { error } = await supabase.rpc('reorder_inventory_entries', { p_entry_ids: entryIds });
+
+  throwIfQueryFailed(error, 'Inventory reorder failed');
+}
+
+/**
+ * Deletes an inventory entry.
+ *
+ * @param entryId - The entry to delete
+ * @throws The query error if the delete fails
+ */
+export async function deleteInventoryEntry(entryId: string): Promise<void> {
+  const { error } = await supabase.from('inventory_entries').delete().eq('id', entryId);
+
+  throwIfQueryFailed(error, 'Inventory entry deletion failed');
+}
@@ -0,0 +1,89 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { InviteCode, InviteCodeClaim } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+import { PROFILE_COLUMNS } from '@/lib/repositories/profiles';
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Stores a new invite code for a sponsor.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @param code - The 8-character code to share
+ * @param expiresAt - When the code stops being redeemable
+ * @throws The query error if the insert fails
+ */
+export async function createInviteCode(
+  sponsorId: string,
+  code: string,
+  expiresAt: Date
+): Promise<void> {
+  const { error } = await supabase.from('invite_codes').insert({
+    code,
+    sponsor_id: sponsorId,
+    expires_at: expiresAt.toISOString(),
+  });
+
+  throwIfQueryFailed(error, 'Invite code creation failed');
+}
+
+/**
+ * Fetches a sponsor's invite codes that have not been revoked, newest first,
+ * with the redeeming sponsee's profile for codes that have been used.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @returns The sponsor's invite codes
+ * @throws The query error if the fetch fails
+ */
+export async function fetchSponsorInviteCodes(sponsorId: string): Promise<InviteCode[]> {
+  const { data, error } = await supabase
+    .from('invite_codes')
+    .select(`*, redeemer:profiles!used_by(${PROFILE_COLUMNS})`)
+    .eq('sponsor_id', sponsorId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Invite codes fetch failed');
+  return (data || []) as InviteCode[];
+}
+
+/**
+ * Revokes an unused invite code so it can no longer be redeemed.
+ *
+ * @param inviteId - The invite code's row ID
+ * @throws The query error if the update fails
+ */
+export async function revokeInviteCode(inviteId: string): Promise<void> {
+  const { error } = await supabase
+    .from('invite_codes')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .is('used_by', null);
+
+  throwIfQueryFailed(error, 'Invite code revocation failed');
+}
+
+/**
+ * Redeems an invite code for the signed-in user through the
+ * `redeem_invite_code` RPC.
+ *
+ * @remarks
+ * The RPC validates the code, creates the relationship and marks the code used
+ * in one transaction. Rejections (expired, used, and so on) come back as a
+ * status, not an error; only failures to run the RPC are thrown.
+ *
+ * @param code - The normalized (trimmed, uppercase) code
+ * @returns The redemption status and the issuing sponsor's details
+ * @throws The query error if the RPC fails
+ */
+export async function claimInviteCode(code: string): Promise<InviteCodeClaim> {
+  const { data, error } = await supabase.rpc('redeem_invite_code', { invite_code: code }).single();
+
+  throwIfQueryFailed(error, 'Invite code redemption failed');
+  return data as InviteCodeClaim;
+}
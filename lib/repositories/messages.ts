@@ -0,0 +1,108 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { Message } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * The latest activity in a conversation with one person.
+ */
+export interface ConversationSummary {
+  /** The other participant's profile ID */
+  partnerId: string;
+  /** The most recent message exchanged with them */
+  lastMessage: Message;
+  /** Messages from them that the user has not read */
+  unreadCount: number;
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches the latest message and unread count for every person the current
+ * user has exchanged messages with, without loading whole threads.
+ *
+ * @returns One summary per conversation partner, in no particular order
+ * @throws The query error if the fetch fails
+ */
+export async function fetchConversationSummaries(): Promise<ConversationSummary[]> {
+  const { data, error } = await supabase.rpc('get_conversation_summaries');
+
+  throwIfQueryFailed(error, 'Conversation summaries fetch failed');
+  return (data || []).map(({ partner_id, unread_count, ...message }) => ({
+    partnerId: partner_id,
+    lastMessage: message,
+    unreadCount: unread_count,
+  }));
+}
+
+/**
+ * Fetches every message between two users, oldest first.
+ *
+ * @param userId - The current user's profile ID
+ * @param partnerId - The other participant's profile ID
+ * @returns The thread's messages
+ * @throws The query error if the fetch fails
+ */
+export async function fetchThreadMessages(userId: string, partnerId: string): Promise<Message[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .or(
+      `and(sender_id.eq.${userId},recipient_id.eq.${partnerId}),and(sender_id.eq.${partnerId},recipient_id.eq.${userId})`
+    )
+    .order('created_at', { ascending: true });
+
+  throwIfQueryFailed(error, 'Message thread fetch failed');
+  return (data || []) as Message[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Sends a message. The two users must share an active relationship.
+ *
+ * @param senderId - The current user's profile ID
+ * @param recipientId - The recipient's profile ID
+ * @param content - The message text, already trimmed
+ * @returns The saved message
+ * @throws The query error if the insert fails
+ */
+export async function createMessage(
+  senderId: string,
+  recipientId: string,
+  content: string
+): Promise<Message> {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert({ sender_id: senderId, recipient_id: recipientId, content })
+    .select()
+    .single();
+
+  throwIfQueryFailed(error, 'Message send failed');
+  return data as Message;
+}
+
+/**
+ * Marks messages the current user received as read.
+ *
+ * @param messageIds - The messages to mark
+ * @param readAt - When they were read
+ * @throws The query error if the update fails
+ */
+export async function markMessagesRead(messageIds: string[], readAt: string): Promise<void> {
+  const { error } = await supabase
+    .from('messages')
+    .update({ read_at: readAt })
+    .in('id', messageIds);
+
+  throwIfQueryFailed(error, 'Marking messages read failed');
+}
@@ -0,0 +1,133 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { Notification, NotificationData } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Fields written for a new notification.
+ */
+export type NewNotification = Pick<Notification, 'user_id' | 'type' | 'title' | 'content'> & {
+  data?: NotificationData;
+};
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches a user's most recent notifications, newest first.
+ *
+ * @param userId - The recipient's profile ID
+ * @param limit - Maximum number of notifications to return
+ * @returns The user's notifications
+ * @throws The query error if the fetch fails
+ */
+export async function fetchNotifications(userId: string, limit = 100): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  throwIfQueryFailed(error, 'Notifications fetch failed');
+  return (data || []) as Notification[];
+}
+
+/**
+ * Counts a user's unread notifications without fetching them.
+ *
+ * @param userId - The recipient's profile ID
+ * @returns Number of notifications with no `read_at`
+ * @throws The query error if the count fails
+ */
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  throwIfQueryFailed(error, 'Unread notification count failed');
+  return count ?? 0;
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Writes notifications as-is. Screens should use `sendNotifications` from
+ * `@/lib/notifications`, which applies recipients' preferences first.
+ *
+ * @param notifications - Notifications to write
+ * @throws The query error if the insert fails
+ */
+export async function insertNotifications(notifications: NewNotification[]): Promise<void> {
+  const { error } = await supabase.from('notifications').insert(notifications);
+
+  throwIfQueryFailed(error, 'Notification insert failed');
+}
+
+/**
+ * Marks a single notification read.
+ *
+ * @param notificationId - The notification to mark
+ * @param readAt - ISO timestamp to store as `read_at`
+ * @throws The query error if the update fails
+ */
+export async function markNotificationRead(notificationId: string, readAt: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: readAt })
+    .eq('id', notificationId);
+
+  throwIfQueryFailed(error, 'Marking notification read failed');
+}
+
+/**
+ * Marks all of a user's unread notifications read.
+ *
+ * @param userId - The recipient's profile ID
+ * @param readAt - ISO timestamp to store as `read_at`
+ * @throws The query error if the update fails
+ */
+export async function markAllNotificationsRead(userId: string, readAt: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: readAt })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  throwIfQueryFailed(error, 'Marking all notifications read failed');
+}
+
+/**
+ * Marks a user's unread message notifications from one sender read, so the
+ * inbox badge stops counting a conversation once its thread has been opened.
+ *
+ * @param userId - The recipient's profile ID
+ * @param senderId - The profile ID of the person who sent the messages
+ * @param readAt - ISO timestamp to store as `read_at`
+ * @throws The query error if the update fails
+ */
+export async function markMessageNotificationsRead(
+  userId: string,
+  senderId: string,
+  readAt: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: readAt })
+    .eq('user_id', userId)
+    .eq('type', 'message')
+    .eq('data->>sender_id', senderId)
+    .is('read_at', null);
+
+  throwIfQueryFailed(error, 'Marking message notifications read failed');
+}
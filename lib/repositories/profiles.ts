@@ -0,0 +1,63 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { Profile, SobrietySummary } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Fields a user may change on their own profile.
+ */
+export type ProfileChanges = Partial<Omit<Profile, 'id' | 'email' | 'created_at' | 'updated_at'>>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+/**
+ * Profile columns any signed-in user may select, for joining another user's
+ * profile onto a row. The sobriety date is not among them: it is read through
+ * `get_sobriety_summary`, which applies the owner's sharing settings.
+ */
+export const PROFILE_COLUMNS =
+  'id, email, first_name, last_initial, phone, avatar_url, bio, timezone, notification_preferences, daily_reminder_time, require_connection_approval, terms_accepted_at, created_at, updated_at';
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches another user's current streak as far as they share it with the
+ * current user.
+ *
+ * @param userId - The other user's profile ID
+ * @returns The summary, or null when they do not share their sobriety date
+ * @throws The query error if the RPC fails
+ */
+export async function fetchSobrietySummary(userId: string): Promise<SobrietySummary | null> {
+  const { data, error } = await supabase
+    .rpc('get_sobriety_summary', { p_user_id: userId })
+    .maybeSingle();
+
+  throwIfQueryFailed(error, 'Sobriety summary fetch failed');
+  return (data as SobrietySummary | null) ?? null;
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Saves changes to the user's own profile.
+ *
+ * @param userId - The user's profile ID
+ * @param changes - The fields to change
+ * @throws The query error if the update fails
+ */
+export async function updateProfile(userId: string, changes: ProfileChanges): Promise<void> {
+  const { error } = await supabase.from('profiles').update(changes).eq('id', userId);
+
+  throwIfQueryFailed(error, 'Profile update failed');
+}
@@ -0,0 +1,300 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { SponsorSponseeRelationship } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+import { PROFILE_COLUMNS } from '@/lib/repositories/profiles';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * The sharing settings a sponsee can change on a relationship.
+ */
+export type SharingSettings = Partial<
+  Pick<
+    SponsorSponseeRelationship,
+    | 'share_sobriety_date'
+    | 'share_slip_ups'
+    | 'share_slip_up_notes'
+    | 'share_step_progress'
+    | 'share_notes'
+    | 'share_amends'
+    | 'share_check_ins'
+  >
+>;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches the user's active relationships in which they are the sponsor,
+ * each joined with the sponsee's profile.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @returns Active relationships with `sponsee` populated
+ * @throws The query error if the fetch fails
+ */
+export async function fetchSponseeRelationships(
+  sponsorId: string
+): Promise<SponsorSponseeRelationship[]> {
+  const { data, error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .select(`*, sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`)
+    .eq('sponsor_id', sponsorId)
+    .eq('status', 'active');
+
+  throwIfQueryFailed(error, 'Sponsee relationships fetch failed');
+  return (data || []) as SponsorSponseeRelationship[];
+}
+
+/**
+ * Fetches the user's active relationships in which they are the sponsee,
+ * each joined with the sponsor's profile.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @returns Active relationships with `sponsor` populated
+ * @throws The query error if the fetch fails
+ */
+export async function fetchSponsorRelationships(
+  sponseeId: string
+): Promise<SponsorSponseeRelationship[]> {
+  const { data, error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .select(`*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS})`)
+    .eq('sponsee_id', sponseeId)
+    .eq('status', 'active');
+
+  throwIfQueryFailed(error, 'Sponsor relationships fetch failed');
+  return (data || []) as SponsorSponseeRelationship[];
+}
+
+/**
+ * Fetches the IDs of the sponsee's active sponsors who they share slip-ups
+ * with, for notifying them when a slip-up is logged.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @returns Sponsor profile IDs
+ * @throws The query error if the fetch fails
+ */
+export async function fetchSlipUpSharingSponsorIds(sponseeId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .select('sponsor_id')
+    .eq('sponsee_id', sponseeId)
+    .eq('status', 'active')
+    .eq('share_slip_ups', true);
+
+  throwIfQueryFailed(error, 'Slip-up sharing sponsors fetch failed');
+  return ((data || []) as Pick<SponsorSponseeRelationship, 'sponsor_id'>[]).map(
+    (rel) => rel.sponsor_id
+  );
+}
+
+/**
+ * Finds the active relationship between two users, in either direction,
+ * joined with both profiles.
+ *
+ * @param userId - One user's profile ID
+ * @param partnerId - The other user's profile ID
+ * @returns The relationship, or null if the users are not actively connected
+ * @throws The query error if the lookup fails
+ */
+export async function fetchActiveRelationshipBetween(
+  userId: string,
+  partnerId: string
+): Promise<SponsorSponseeRelationship | null> {
+  const { data, error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .select(
+      `*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS}), sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`
+    )
+    .or(
+      `and(sponsor_id.eq.${userId},sponsee_id.eq.${partnerId}),and(sponsor_id.eq.${partnerId},sponsee_id.eq.${userId})`
+    )
+    .eq('status', 'active')
+    .limit(1)
+    .maybeSingle();
+
+  throwIfQueryFailed(error, 'Relationship lookup failed');
+  return (data as SponsorSponseeRelationship | null) ?? null;
+}
+
+/**
+ * Fetches the user's connection requests still waiting for the sponsor's
+ * approval, in either direction, joined with both profiles.
+ *
+ * @param userId - The user's profile ID
+ * @returns Pending relationships in which the user is the sponsor or the sponsee
+ * @throws The query error if the fetch fails
+ */
+export async function fetchPendingRelationships(
+  userId: string
+): Promise<SponsorSponseeRelationship[]> {
+  const { data, error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .select(
+      `*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS}), sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`
+    )
+    .or(`sponsor_id.eq.${userId},sponsee_id.eq.${userId}`)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Pending relationships fetch failed');
+  return (data || []) as SponsorSponseeRelationship[];
+}
+
+/**
+ * Fetches the user's ended relationships, in either direction, joined with
+ * both profiles, most recently ended first.
+ *
+ * @param userId - The user's profile ID
+ * @returns Inactive relationships in which the user was the sponsor or the sponsee
+ * @throws The query error if the fetch fails
+ */
+export async function fetchPastRelationships(
+  userId: string
+): Promise<SponsorSponseeRelationship[]> {
+  const { data, error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .select(
+      `*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS}), sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`
+    )
+    .or(`sponsor_id.eq.${userId},sponsee_id.eq.${userId}`)
+    .eq('status', 'inactive')
+    .order('disconnected_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Past relationships fetch failed');
+  return (data || []) as SponsorSponseeRelationship[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Ends a relationship by marking it inactive. The row is kept for history.
+ *
+ * @param relationshipId - The relationship to end
+ * @throws The query error if the update fails
+ */
+export async function endRelationship(relationshipId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .update({
+      status: 'inactive',
+      disconnected_at: new Date().toISOString(),
+    })
+    .eq('id', relationshipId);
+
+  throwIfQueryFailed(error, 'Relationship disconnect failed');
+}
+
+/**
+ * Accepts a pending connection request, making the relationship active.
+ * Only the sponsor may accept; the database rejects the update otherwise.
+ *
+ * @param relationshipId - The pending relationship to accept
+ * @throws The query error if the update fails
+ */
+export async function acceptRelationship(relationshipId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .update({ status: 'active' })
+    .eq('id', relationshipId)
+    .eq('status', 'pending');
+
+  throwIfQueryFailed(error, 'Connection request acceptance failed');
+}
+
+/**
+ * Closes a pending connection request without connecting, whether the sponsor
+ * declined it or the sponsee withdrew it. Closed requests are marked
+ * `declined` so they are not mistaken for past relationships.
+ *
+ * @param relationshipId - The pending relationship to close
+ * @throws The query error if the update fails
+ */
+export async function closeRelationshipRequest(relationshipId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .update({ status: 'declined' })
+    .eq('id', relationshipId)
+    .eq('status', 'pending');
+
+  throwIfQueryFailed(error, 'Connection request close failed');
+}
+
+/**
+ * Asks to reconnect an ended relationship. It becomes active again once the
+ * other member accepts with {@link reactivateRelationship}.
+ *
+ * @param relationshipId - The inactive relationship to reconnect
+ * @param userId - The profile ID of the member asking
+ * @throws The query error if the update fails
+ */
+export async function requestReconnect(relationshipId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .update({ reconnect_requested_by: userId })
+    .eq('id', relationshipId)
+    .eq('status', 'inactive');
+
+  throwIfQueryFailed(error, 'Reconnect request failed');
+}
+
+/**
+ * Accepts a request to reconnect an ended relationship, making it active
+ * again. Only the member who did not ask may accept; the database rejects the
+ * update otherwise, and resets the connection dates when it succeeds.
+ *
+ * @param relationshipId - The inactive relationship to reactivate
+ * @throws The query error if the update fails
+ */
+export async function reactivateRelationship(relationshipId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .update({ status: 'active' })
+    .eq('id', relationshipId)
+    .eq('status', 'inactive');
+
+  throwIfQueryFailed(error, 'Relationship reconnect failed');
+}
+
+/**
+ * Clears a request to reconnect an ended relationship, whether it was
+ * declined or withdrawn.
+ *
+ * @param relationshipId - The inactive relationship
+ * @throws The query error if the update fails
+ */
+export async function clearReconnectRequest(relationshipId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .update({ reconnect_requested_by: null })
+    .eq('id', relationshipId);
+
+  throwIfQueryFailed(error, 'Reconnect request clear failed');
+}
+
+/**
+ * Changes what a sponsee shares with a sponsor. Only the sponsee may change
+ * these settings; the database rejects the update otherwise.
+ *
+ * @param relationshipId - The active relationship
+ * @param settings - The sharing settings to change
+ * @throws The query error if the update fails
+ */
+export async function updateSharingSettings(
+  relationshipId: string,
+  settings: SharingSettings
+): Promise<void> {
+  const { error } = await supabase
+    .from('sponsor_sponsee_relationships')
+    .update(settings)
+    .eq('id', relationshipId);
+
+  throwIfQueryFailed(error, 'Sharing settings update failed');
+}
@@ -0,0 +1,91 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { SlipUp } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Fields recorded when a user logs a slip-up.
+ */
+export interface NewSlipUp {
+  user_id: string;
+  /** Date of the slip-up as YYYY-MM-DD in the user's timezone */
+  slip_up_date: string;
+  /** Date the current streak restarts from, as YYYY-MM-DD */
+  recovery_restart_date: string;
+  notes: string | null;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Fetches a user's slip-ups, most recent first.
+ *
+ * @param userId - The user's profile ID
+ * @returns The user's slip-ups
+ * @throws The query error if the fetch fails
+ */
+export async function fetchSlipUps(userId: string): Promise<SlipUp[]> {
+  const { data, error } = await supabase
+    .from('slip_ups')
+    .select('*')
+    .eq('user_id', userId)
+    .order('slip_up_date', { ascending: false });
+
+  throwIfQueryFailed(error, 'Slip-ups fetch failed');
+  return (data || []) as SlipUp[];
+}
+
+/**
+ * Fetches a user's most recent slip-up, which sets where their current streak
+ * restarts from.
+ *
+ * @param userId - The user's profile ID
+ * @returns The latest slip-up, or null if they have none
+ * @throws The query error if the fetch fails
+ */
+export async function fetchLatestSlipUp(userId: string): Promise<SlipUp | null> {
+  const { data, error } = await supabase
+    .from('slip_ups')
+    .select('*')
+    .eq('user_id', userId)
+    .order('slip_up_date', { ascending: false })
+    .limit(1);
+
+  throwIfQueryFailed(error, 'Latest slip-up fetch failed');
+  return data && data.length > 0 ? (data[0] as SlipUp) : null;
+}
+
+/**
+ * Fetches another user's slip-ups, most recent first, as far as they share
+ * them with the current user. Nothing is returned unless they share slip-ups,
+ * and notes are blank unless they also share slip-up notes.
+ *
+ * @param userId - The sponsee's profile ID
+ * @returns The shared slip-ups
+ * @throws The query error if the RPC fails
+ */
+export async function fetchSharedSlipUps(userId: string): Promise<SlipUp[]> {
+  const { data, error } = await supabase.rpc('get_shared_slip_ups', { p_user_id: userId });
+
+  throwIfQueryFailed(error, 'Shared slip-ups fetch failed');
+  return (data || []) as SlipUp[];
+}
+
+/**
+ * Records a slip-up, which restarts the user's current streak.
+ *
+ * @param slipUp - The slip-up to record
+ * @throws The query error if the insert fails
+ */
+export async function createSlipUp(slipUp: NewSlipUp): Promise<void> {
+  const { error } = await supabase.from('slip_ups').insert(slipUp);
+
+  throwIfQueryFailed(error, 'Slip-up logging failed');
+}
@@ -0,0 +1,113 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { StepAnswer, StepAnswerRevision } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * The fields written when an answer is saved. Saving never changes whether
+ * an answer is shared.
+ */
+export type StepAnswerDraft = Pick<
+  StepAnswer,
+  'user_id' | 'step_number' | 'prompt_index' | 'prompt' | 'answer'
+>;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches a user's answers to one step's reflection prompts.
+ *
+ * @param userId - The user's profile ID
+ * @param stepNumber - The step (1-12)
+ * @returns The answers in prompt order; prompts never answered have no row
+ * @throws The query error if the fetch fails
+ */
+export async function fetchStepAnswers(userId: string, stepNumber: number): Promise<StepAnswer[]> {
+  const { data, error } = await supabase
+    .from('step_answers')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('step_number', stepNumber)
+    .order('prompt_index', { ascending: true });
+
+  throwIfQueryFailed(error, 'Step answers fetch failed');
+  return (data || []) as StepAnswer[];
+}
+
+/**
+ * Fetches the earlier versions of an answer, most recent first.
+ *
+ * @param answerId - The answer's ID
+ * @returns Earlier versions; empty until the answer is edited in a later sitting
+ * @throws The query error if the fetch fails
+ */
+export async function fetchStepAnswerRevisions(answerId: string): Promise<StepAnswerRevision[]> {
+  const { data, error } = await supabase
+    .from('step_answer_revisions')
+    .select('*')
+    .eq('answer_id', answerId)
+    .order('saved_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Step answer history fetch failed');
+  return (data || []) as StepAnswerRevision[];
+}
+
+/**
+ * Fetches the answers another user shares with the current user, by step and
+ * prompt. Nothing is returned unless they also share notes.
+ *
+ * @param userId - The sponsee's profile ID
+ * @returns The shared, non-blank answers
+ * @throws The query error if the RPC fails
+ */
+export async function fetchSharedStepAnswers(userId: string): Promise<StepAnswer[]> {
+  const { data, error } = await supabase.rpc('get_shared_step_answers', { p_user_id: userId });
+
+  throwIfQueryFailed(error, 'Shared step answers fetch failed');
+  return (data || []) as StepAnswer[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Saves answers, creating each one the first time its prompt is answered.
+ *
+ * @remarks
+ * The database keeps the previous version in the answer's history when it is
+ * edited in a later sitting, so callers can save as often as the user types.
+ *
+ * @param answers - The answers to save, at most one per prompt
+ * @returns The saved answers
+ * @throws The query error if the save fails
+ */
+export async function saveStepAnswers(answers: StepAnswerDraft[]): Promise<StepAnswer[]> {
+  const { data, error } = await supabase
+    .from('step_answers')
+    .upsert(answers, { onConflict: 'user_id,step_number,prompt_index' })
+    .select();
+
+  throwIfQueryFailed(error, 'Step answers save failed');
+  return (data || []) as StepAnswer[];
+}
+
+/**
+ * Shares an answer with the user's sponsor, or makes it private again.
+ *
+ * @param answerId - The answer's ID
+ * @param shared - Whether the sponsor may read it
+ * @throws The query error if the update fails
+ */
+export async function setStepAnswerShared(answerId: string, shared: boolean): Promise<void> {
+  const { error } = await supabase.from('step_answers').update({ shared }).eq('id', answerId);
+
+  throwIfQueryFailed(error, 'Step answer sharing update failed');
+}
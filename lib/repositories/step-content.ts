@@ -0,0 +1,23 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { StepContent } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches the content of the 12 steps, in step order.
+ *
+ * @returns One content record per step
+ * @throws The query error if the fetch fails
+ */
+export async function fetchStepsContent(): Promise<StepContent[]> {
+  const { data, error } = await supabase.from('steps_content').select('*').order('step_number');
+
+  throwIfQueryFailed(error, 'Steps content fetch failed');
+  return (data || []) as StepContent[];
+}
@@ -0,0 +1,129 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { UserStepProgress } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches all of a user's step progress records.
+ *
+ * @param userId - The user's profile ID
+ * @returns One record per step the user has progress on
+ * @throws The query error if the fetch fails
+ */
+export async function fetchStepProgress(userId: string): Promise<UserStepProgress[]> {
+  const { data, error } = await supabase
+    .from('user_step_progress')
+    .select('*')
+    .eq('user_id', userId);
+
+  throwIfQueryFailed(error, 'Step progress fetch failed');
+  return (data || []) as UserStepProgress[];
+}
+
+/**
+ * Fetches another user's step progress as far as they share it with the
+ * current user. Nothing is returned unless they share step progress, and
+ * reflections are blank unless they also share notes.
+ *
+ * @param userId - The sponsee's profile ID
+ * @returns The shared step progress records, by step number
+ * @throws The query error if the RPC fails
+ */
+export async function fetchSharedStepProgress(userId: string): Promise<UserStepProgress[]> {
+  const { data, error } = await supabase.rpc('get_shared_step_progress', { p_user_id: userId });
+
+  throwIfQueryFailed(error, 'Shared step progress fetch failed');
+  return (data || []) as UserStepProgress[];
+}
+
+/**
+ * Fetches the steps a user has completed, most recently completed first.
+ *
+ * @param userId - The user's profile ID
+ * @returns Completed step progress records
+ * @throws The query error if the fetch fails
+ */
+export async function fetchCompletedSteps(userId: string): Promise<UserStepProgress[]> {
+  const { data, error } = await supabase
+    .from('user_step_progress')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('completed', true)
+    .order('completed_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Completed steps fetch failed');
+  return (data || []) as UserStepProgress[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Marks a step completed.
+ *
+ * @param userId - The user's profile ID
+ * @param stepNumber - The step (1-12) to complete
+ * @param completedAt - When the user completed it; defaults to now. Replayed
+ *   offline completions pass their original time.
+ * @returns The new progress record
+ * @throws The query error if the insert fails
+ */
+export async function completeStep(
+  userId: string,
+  stepNumber: number,
+  completedAt: string = new Date().toISOString()
+): Promise<UserStepProgress> {
+  const { data, error } = await supabase
+    .from('user_step_progress')
+    .insert({
+      user_id: userId,
+      step_number: stepNumber,
+      completed: true,
+      completed_at: completedAt,
+    })
+    .select()
+    .single();
+
+  throwIfQueryFailed(error, 'Step completion failed');
+  return data as UserStepProgress;
+}
+
+/**
+ * Deletes a step progress record, marking the step incomplete again.
+ *
+ * @param progressId - The progress record to delete
+ * @throws The query error if the delete fails
+ */
+export async function deleteStepProgress(progressId: string): Promise<void> {
+  const { error } = await supabase.from('user_step_progress').delete().eq('id', progressId);
+
+  throwIfQueryFailed(error, 'Step progress deletion failed');
+}
+
+/**
+ * Marks a step incomplete again by deleting the user's progress record for it.
+ *
+ * @remarks
+ * Unlike {@link deleteStepProgress}, this does not need the record's ID, so it
+ * can undo a completion that was made offline and has no server ID yet.
+ *
+ * @param userId - The user's profile ID
+ * @param stepNumber - The step (1-12) to mark incomplete
+ * @throws The query error if the delete fails
+ */
+export async function uncompleteStep(userId: string, stepNumber: number): Promise<void> {
+  const { error } = await supabase
+    .from('user_step_progress')
+    .delete()
+    .eq('user_id', userId)
+    .eq('step_number', stepNumber);
+
+  throwIfQueryFailed(error, 'Step progress deletion failed');
+}
@@ -0,0 +1,88 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { TaskComment } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A sponsor's decision on a completed task.
+ */
+export type TaskReviewDecision = 'acknowledged' | 'returned';
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches a task's feedback thread, oldest first.
+ *
+ * @param taskId - The task whose thread to fetch
+ * @returns The task's review decisions and replies
+ * @throws The query error if the fetch fails
+ */
+export async function fetchTaskComments(taskId: string): Promise<TaskComment[]> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  throwIfQueryFailed(error, 'Task comments fetch failed');
+  return (data || []) as TaskComment[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Adds a reply to a task's feedback thread.
+ *
+ * @param taskId - The task to reply on
+ * @param authorId - The replying user's profile ID
+ * @param body - The reply text
+ * @returns The created comment
+ * @throws The query error if the insert fails
+ */
+export async function addTaskComment(
+  taskId: string,
+  authorId: string,
+  body: string
+): Promise<TaskComment> {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .insert({ task_id: taskId, author_id: authorId, kind: 'comment', body })
+    .select()
+    .single();
+
+  throwIfQueryFailed(error, 'Task comment creation failed');
+  return data as TaskComment;
+}
+
+/**
+ * Records the sponsor's review of a completed task. Acknowledging closes the
+ * review; returning reopens the task for the sponsee with their notes restored
+ * as a draft. The decision and comment are added to the task's thread.
+ *
+ * @param taskId - The completed task to review
+ * @param decision - Whether to acknowledge or return the task
+ * @param comment - The sponsor's comment; required when returning
+ * @throws The query error if the review is rejected or fails
+ */
+export async function reviewTask(
+  taskId: string,
+  decision: TaskReviewDecision,
+  comment: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc('review_task', {
+    p_task_id: taskId,
+    p_decision: decision,
+    p_comment: comment ?? undefined,
+  });
+
+  throwIfQueryFailed(error, 'Task review failed');
+}
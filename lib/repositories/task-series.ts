@@ -0,0 +1,146 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { TaskSeries } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Fields a sponsor provides when setting a task to repeat.
+ */
+export interface NewTaskSeries {
+  sponsor_id: string;
+  sponsee_id: string;
+  step_number: number | null;
+  title: string;
+  description: string;
+  recurrence: TaskSeries['recurrence'];
+  interval_days: number;
+  /** Due date of the first occurrence, as YYYY-MM-DD */
+  starts_on: string;
+}
+
+/**
+ * Fields a sponsor may change on an existing series.
+ */
+export type TaskSeriesChanges = Partial<
+  Pick<TaskSeries, 'step_number' | 'title' | 'description' | 'recurrence' | 'interval_days'>
+>;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches every task series a sponsor has created, newest first, including stopped ones.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @returns The sponsor's series
+ * @throws The query error if the fetch fails
+ */
+export async function fetchSponsorTaskSeries(sponsorId: string): Promise<TaskSeries[]> {
+  const { data, error } = await supabase
+    .from('task_series')
+    .select('*')
+    .eq('sponsor_id', sponsorId)
+    .order('created_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Sponsor task series fetch failed');
+  return (data || []) as TaskSeries[];
+}
+
+/**
+ * Fetches every task series set for a sponsee, newest first, including stopped ones.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @returns The sponsee's series
+ * @throws The query error if the fetch fails
+ */
+export async function fetchSponseeTaskSeries(sponseeId: string): Promise<TaskSeries[]> {
+  const { data, error } = await supabase
+    .from('task_series')
+    .select('*')
+    .eq('sponsee_id', sponseeId)
+    .order('created_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Sponsee task series fetch failed');
+  return (data || []) as TaskSeries[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Creates one or more task series in a single insert. Their first occurrences
+ * are created separately with {@link createSeriesOccurrence}.
+ *
+ * @param series - The series to create
+ * @returns The created series, in insert order
+ * @throws The query error if the insert fails
+ */
+export async function createTaskSeries(series: NewTaskSeries[]): Promise<TaskSeries[]> {
+  const { data, error } = await supabase.from('task_series').insert(series).select();
+
+  throwIfQueryFailed(error, 'Task series creation failed');
+  return (data || []) as TaskSeries[];
+}
+
+/**
+ * Updates a series. Occurrences the sponsee has not completed yet take on the
+ * new title, description and step; the new schedule applies from the next
+ * occurrence.
+ *
+ * @param seriesId - The series to update
+ * @param changes - The fields to change
+ * @throws The query error if the update fails
+ */
+export async function updateTaskSeries(
+  seriesId: string,
+  changes: TaskSeriesChanges
+): Promise<void> {
+  const { error } = await supabase.from('task_series').update(changes).eq('id', seriesId);
+
+  throwIfQueryFailed(error, 'Task series update failed');
+}
+
+/**
+ * Stops a series so no further occurrences are created. Existing occurrences,
+ * completed or not, are kept.
+ *
+ * @param seriesId - The series to stop
+ * @throws The query error if the update fails
+ */
+export async function stopTaskSeries(seriesId: string): Promise<void> {
+  const { error } = await supabase
+    .from('task_series')
+    .update({ stopped_at: new Date().toISOString() })
+    .eq('id', seriesId);
+
+  throwIfQueryFailed(error, 'Task series stop failed');
+}
+
+/**
+ * Creates a series' occurrence due on the given date, unless the series is
+ * stopped, its current occurrence is still open, or the date already has one.
+ *
+ * @param seriesId - The series to advance
+ * @param dueDate - The occurrence's due date as YYYY-MM-DD
+ * @returns The new task's ID, or null if nothing was created
+ * @throws The query error if the call fails
+ */
+export async function createSeriesOccurrence(
+  seriesId: string,
+  dueDate: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('create_series_occurrence', {
+    p_series_id: seriesId,
+    p_due_date: dueDate,
+  });
+
+  throwIfQueryFailed(error, 'Task series occurrence creation failed');
+  return data ?? null;
+}
@@ -0,0 +1,334 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { supabase } from '@/lib/supabase';
+import { Task, TaskTemplate } from '@/types/database';
+import { throwIfQueryFailed } from '@/lib/repositories/errors';
+import { PROFILE_COLUMNS } from '@/lib/repositories/profiles';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Fields a sponsor provides when assigning a new task.
+ */
+export interface NewTask {
+  sponsor_id: string;
+  sponsee_id: string;
+  step_number: number | null;
+  title: string;
+  description: string;
+  /** Due date as YYYY-MM-DD */
+  due_date: string | null;
+}
+
+/**
+ * Fields a sponsor may change on a task that has not been completed.
+ */
+export type TaskChanges = Partial<Pick<Task, 'step_number' | 'title' | 'description' | 'due_date'>>;
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Fetches every task assigned to a sponsee, newest first, joined with the sponsor's profile.
+ * Only the sponsee can read their own tasks this way, completion notes included.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @returns Tasks with `sponsor` populated
+ * @throws The query error if the fetch fails
+ */
+export async function fetchAssignedTasks(sponseeId: string): Promise<Task[]> {
+  const { data, error } = await supabase
+    .rpc('get_assigned_tasks')
+    .select(`*, sponsor:profiles!sponsor_id(${PROFILE_COLUMNS})`)
+    .eq('sponsee_id', sponseeId)
+    .order('created_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Assigned tasks fetch failed');
+  return (data || []) as Task[];
+}
+
+/**
+ * Fetches every task a sponsor has created, newest first, joined with the sponsee's profile.
+ * Completion notes are blank for sponsees who do not share their notes.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @returns Tasks with `sponsee` populated
+ * @throws The query error if the fetch fails
+ */
+export async function fetchCreatedTasks(sponsorId: string): Promise<Task[]> {
+  const { data, error } = await supabase
+    .rpc('get_sponsor_tasks', { p_sponsor_id: sponsorId })
+    .select(`*, sponsee:profiles!sponsee_id(${PROFILE_COLUMNS})`);
+
+  throwIfQueryFailed(error, 'Created tasks fetch failed');
+  return (data || []) as Task[];
+}
+
+/**
+ * Fetches a sponsee's most recent tasks that are not yet completed.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @param limit - Maximum number of tasks to return
+ * @returns Tasks with status `assigned` or `in_progress`, newest first
+ * @throws The query error if the fetch fails
+ */
+export async function fetchRecentAssignedTasks(sponseeId: string, limit = 3): Promise<Task[]> {
+  const { data, error } = await supabase
+    .rpc('get_assigned_tasks')
+    .select('*')
+    .eq('sponsee_id', sponseeId)
+    .neq('status', 'completed')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  throwIfQueryFailed(error, 'Recent tasks fetch failed');
+  return (data || []) as Task[];
+}
+
+/**
+ * Fetches a sponsee's open tasks that have a due date, soonest first, for
+ * scheduling due-date reminders.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @returns Each open task's ID, title and due date
+ * @throws The query error if the fetch fails
+ */
+export async function fetchDueTasks(
+  sponseeId: string
+): Promise<Pick<Task, 'id' | 'title' | 'due_date'>[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, title, due_date')
+    .eq('sponsee_id', sponseeId)
+    .neq('status', 'completed')
+    .not('due_date', 'is', null)
+    .order('due_date', { ascending: true });
+
+  throwIfQueryFailed(error, 'Due tasks fetch failed');
+  return (data || []) as Pick<Task, 'id' | 'title' | 'due_date'>[];
+}
+
+/**
+ * Fetches a sponsee's completed tasks, most recently completed first, with
+ * their completion notes. Only the sponsee can read their own tasks this way.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @returns Completed tasks that have a completion timestamp
+ * @throws The query error if the fetch fails
+ */
+export async function fetchCompletedTasks(sponseeId: string): Promise<Task[]> {
+  const { data, error } = await supabase
+    .rpc('get_assigned_tasks')
+    .select('*')
+    .eq('sponsee_id', sponseeId)
+    .eq('status', 'completed')
+    .not('completed_at', 'is', null)
+    .order('completed_at', { ascending: false });
+
+  throwIfQueryFailed(error, 'Completed tasks fetch failed');
+  return (data || []) as Task[];
+}
+
+/**
+ * Checks whether a sponsee has any task that is not yet completed.
+ *
+ * @param sponseeId - The sponsee's profile ID
+ * @returns True if at least one task is still open
+ * @throws The query error if the lookup fails
+ */
+export async function hasOpenTasks(sponseeId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('sponsee_id', sponseeId)
+    .neq('status', 'completed')
+    .limit(1);
+
+  throwIfQueryFailed(error, 'Open tasks lookup failed');
+  return !!data && data.length > 0;
+}
+
+/**
+ * Fetches the status and due date of every task a sponsor has assigned to the
+ * given sponsees, in a single query, for building per-sponsee progress stats.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @param sponseeIds - Sponsees to include
+ * @returns One row per task with its sponsee, status and due date
+ * @throws The query error if the fetch fails
+ */
+export async function fetchTaskStatuses(
+  sponsorId: string,
+  sponseeIds: string[]
+): Promise<Pick<Task, 'sponsee_id' | 'status' | 'due_date'>[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('sponsee_id, status, due_date')
+    .eq('sponsor_id', sponsorId)
+    .in('sponsee_id', sponseeIds);
+
+  throwIfQueryFailed(error, 'Task stats fetch failed');
+  return (data || []) as Pick<Task, 'sponsee_id' | 'status' | 'due_date'>[];
+}
+
+/**
+ * Fetches every task a sponsor has assigned to a sponsee, newest first,
+ * including tasks from before the pair disconnected. When the sponsor reads
+ * them, completion notes are blank unless the sponsee shares their notes.
+ *
+ * @param sponsorId - The sponsor's profile ID
+ * @param sponseeId - The sponsee's profile ID
+ * @returns The pair's tasks
+ * @throws The query error if the fetch fails
+ */
+export async function fetchTasksBetween(sponsorId: string, sponseeId: string): Promise<Task[]> {
+  const { data, error } = await supabase.rpc('get_sponsor_tasks', {
+    p_sponsor_id: sponsorId,
+    p_sponsee_id: sponseeId,
+  });
+
+  throwIfQueryFailed(error, 'Relationship tasks fetch failed');
+  return (data || []) as Task[];
+}
+
+/**
+ * Fetches the sponsor, sponsee and status of every task the user has assigned
+ * or been assigned, for per-relationship counts.
+ *
+ * @param userId - The user's profile ID
+ * @returns Task participants and statuses
+ * @throws The query error if the fetch fails
+ */
+export async function fetchUserTaskStatuses(
+  userId: string
+): Promise<Pick<Task, 'sponsor_id' | 'sponsee_id' | 'status'>[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('sponsor_id, sponsee_id, status')
+    .or(`sponsor_id.eq.${userId},sponsee_id.eq.${userId}`);
+
+  throwIfQueryFailed(error, 'User task stats fetch failed');
+  return (data || []) as Pick<Task, 'sponsor_id' | 'sponsee_id' | 'status'>[];
+}
+
+/**
+ * Fetches the task templates for a step, by title.
+ *
+ * @param stepNumber - The step (1-12) whose templates to fetch
+ * @returns The step's templates
+ * @throws The query error if the fetch fails
+ */
+export async function fetchTaskTemplates(stepNumber: number): Promise<TaskTemplate[]> {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .eq('step_number', stepNumber)
+    .order('title');
+
+  throwIfQueryFailed(error, 'Task templates fetch failed');
+  return (data || []) as TaskTemplate[];
+}
+
+// =============================================================================
+// Mutations
+// =============================================================================
+
+/**
+ * Assigns new tasks to one or more sponsees in a single insert.
+ *
+ * @param tasks - The tasks to create; each starts with status `assigned`
+ * @throws The query error if the insert fails
+ */
+export async function createTasks(tasks: NewTask[]): Promise<void> {
+  const { error } = await supabase
+    .from('tasks')
+    .insert(tasks.map((task) => ({ ...task, status: 'assigned' as const })));
+
+  throwIfQueryFailed(error, 'Task creation failed');
+}
+
+/**
+ * Updates the wording, step or due date of a task the sponsee has not
+ * completed yet. Completed tasks are left unchanged.
+ *
+ * @param taskId - The task to update
+ * @param changes - The fields to change
+ * @returns True if the task was updated; false if it has been completed or
+ *   deleted since it was loaded
+ * @throws The query error if the update fails
+ */
+export async function updateTask(taskId: string, changes: TaskChanges): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update(changes)
+    .eq('id', taskId)
+    .neq('status', 'completed')
+    .select('id');
+
+  throwIfQueryFailed(error, 'Task update failed');
+  return !!data && data.length > 0;
+}
+
+/**
+ * Starts a task, or saves the sponsee's draft notes on one they have started.
+ * Completed tasks are left unchanged.
+ *
+ * @param taskId - The task to work on
+ * @param draftNotes - Notes to resume from later, or null when just starting
+ * @throws The query error if the update fails
+ */
+export async function saveTaskDraft(taskId: string, draftNotes: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ status: 'in_progress', draft_notes: draftNotes })
+    .eq('id', taskId)
+    .neq('status', 'completed');
+
+  throwIfQueryFailed(error, 'Task draft save failed');
+}
+
+/**
+ * Marks a task completed, with optional notes from the sponsee. Any draft
+ * notes are cleared.
+ *
+ * @param taskId - The task to complete
+ * @param completionNotes - Notes for the sponsor, or null
+ * @param completedAt - When the sponsee completed it; defaults to now. Replayed
+ *   offline completions pass their original time.
+ * @returns False if the task no longer exists, so nothing was completed
+ * @throws The query error if the update fails
+ */
+export async function completeTask(
+  taskId: string,
+  completionNotes: string | null,
+  completedAt: string = new Date().toISOString()
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({
+      status: 'completed',
+      completed_at: completedAt,
+      completion_notes: completionNotes,
+      draft_notes: null,
+    })
+    .eq('id', taskId)
+    .select('id');
+
+  throwIfQueryFailed(error, 'Task completion failed');
+  return !!data && data.length > 0;
+}
+
+/**
+ * Permanently deletes a task.
+ *
+ * @param taskId - The task to delete
+ * @throws The query error if the delete fails
+ */
+export async function deleteTask(taskId: string): Promise<void> {
+  const { error } = await supabase.from('tasks').delete().eq('id', taskId);
+
+  throwIfQueryFailed(error, 'Task deletion failed');
+}
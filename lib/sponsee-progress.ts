@@ -0,0 +1,168 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { getUserTimezone } from '@/lib/date';
+import { isTaskOverdue } from '@/lib/task-due';
+import type { Profile, Task } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * A sponsee's tasks, grouped for the sponsor's dashboard.
+ */
+export interface SponseeTaskGroups {
+  /** Open tasks whose due date has passed, most overdue first */
+  overdue: Task[];
+  /** Other open tasks, soonest due first, then those without a due date */
+  upcoming: Task[];
+  /** Completed tasks with notes, most recently completed first */
+  recentNotes: Task[];
+}
+
+/**
+ * How many of a sponsee's tasks are in each stage, for progress summaries.
+ */
+export interface SponseeTaskCounts {
+  total: number;
+  inProgress: number;
+  completed: number;
+}
+
+/**
+ * How many of one sponsee's tasks are overdue, for the sponsor's Home rollup.
+ */
+export interface SponseeOverdueCount {
+  sponsee: Profile;
+  overdue: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** How many recent completion notes the dashboard shows */
+export const RECENT_NOTES_LIMIT = 5;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Compares open tasks by due date, putting tasks without one last.
+ */
+const byDueDate = (a: Task, b: Task) => {
+  if (a.due_date === b.due_date) return b.created_at.localeCompare(a.created_at);
+  if (!a.due_date) return 1;
+  if (!b.due_date) return -1;
+  return a.due_date.localeCompare(b.due_date);
+};
+
+/**
+ * Groups a sponsee's tasks into overdue, upcoming and recently completed.
+ *
+ * @remarks
+ * Due dates are YYYY-MM-DD, so they are compared as strings against today's
+ * date in the sponsee's timezone. A task due today is not overdue yet.
+ *
+ * @param tasks - The sponsee's tasks from one sponsor, in any order
+ * @param today - Today's date as YYYY-MM-DD in the sponsee's timezone
+ * @returns The grouped tasks
+ *
+ * @example
+ * ```ts
+ * const today = formatDateWithTimezone(new Date(), getUserTimezone(sponsee));
+ * const { overdue, upcoming, recentNotes } = groupSponseeTasks(tasks, today);
+ * ```
+ */
+export function groupSponseeTasks(tasks: Task[], today: string): SponseeTaskGroups {
+  const open = tasks.filter((task) => task.status !== 'completed').sort(byDueDate);
+
+  return {
+    overdue: open.filter((task) => task.due_date && task.due_date < today),
+    upcoming: open.filter((task) => !task.due_date || task.due_date >= today),
+    recentNotes: tasks
+      .filter((task) => task.status === 'completed' && task.completion_notes?.trim())
+      .sort((a, b) => (b.completed_at ?? '').localeCompare(a.completed_at ?? ''))
+      .slice(0, RECENT_NOTES_LIMIT),
+  };
+}
+
+/**
+ * Lists the steps (1-12) a user has completed, in order.
+ *
+ * @param progress - The user's step progress records
+ * @returns Completed step numbers, ascending
+ */
+export function getCompletedStepNumbers(
+  progress: { step_number: number; completed: boolean }[]
+): number[] {
+  return progress
+    .filter((record) => record.completed)
+    .map((record) => record.step_number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Counts each sponsee's tasks by stage. Tasks still waiting to be started
+ * count towards the total only.
+ *
+ * @param sponseeIds - Sponsees to count, so those without tasks get zeros
+ * @param tasks - Task sponsees and statuses, in any order
+ * @returns Task counts keyed by sponsee ID
+ */
+export function countSponseeTasks(
+  sponseeIds: string[],
+  tasks: Pick<Task, 'sponsee_id' | 'status'>[]
+): Record<string, SponseeTaskCounts> {
+  const counts: Record<string, SponseeTaskCounts> = {};
+  for (const id of sponseeIds) {
+    counts[id] = { total: 0, inProgress: 0, completed: 0 };
+  }
+
+  for (const task of tasks) {
+    const stats = counts[task.sponsee_id];
+    if (!stats) continue;
+    stats.total++;
+    if (task.status === 'in_progress') stats.inProgress++;
+    if (task.status === 'completed') stats.completed++;
+  }
+  return counts;
+}
+
+/**
+ * Summarizes a sponsee's task counts in one line, mentioning started tasks
+ * only when there are some.
+ *
+ * @param counts - The sponsee's counts, from {@link countSponseeTasks}
+ * @returns A summary such as "2/5 tasks completed · 1 in progress"
+ */
+export function formatSponseeTaskCounts(counts: SponseeTaskCounts): string {
+  const completed = `${counts.completed}/${counts.total} tasks completed`;
+  return counts.inProgress > 0 ? `${completed} · ${counts.inProgress} in progress` : completed;
+}
+
+/**
+ * Counts each sponsee's overdue tasks, deciding what is overdue in that
+ * sponsee's own timezone.
+ *
+ * @param sponsees - The sponsor's sponsees
+ * @param tasks - Task sponsees, statuses and due dates, in any order
+ * @param now - The current time
+ * @returns Sponsees with at least one overdue task, most overdue tasks first
+ */
+export function countOverdueTasks(
+  sponsees: Profile[],
+  tasks: Pick<Task, 'sponsee_id' | 'status' | 'due_date'>[],
+  now: Date = new Date()
+): SponseeOverdueCount[] {
+  return sponsees
+    .map((sponsee) => ({
+      sponsee,
+      overdue: tasks.filter(
+        (task) =>
+          task.sponsee_id === sponsee.id && isTaskOverdue(task, getUserTimezone(sponsee), now)
+      ).length,
+    }))
+    .filter(({ overdue }) => overdue > 0)
+    .sort((a, b) => b.overdue - a.overdue);
+}
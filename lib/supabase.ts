@@ -2,6 +2,7 @@ import 'react-native-url-polyfill/auto';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import type { Database } from '@/types/supabase';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
@@ -58,11 +59,11 @@ const SupabaseStorageAdapter: AuthStorage = {
 };
 
 // Singleton pattern for lazy initialization on client-side only
-let supabaseInstance: SupabaseClient | null = null;
+let supabaseInstance: SupabaseClient<Database> | null = null;
 
-function getSupabaseClient(): SupabaseClient {
+function getSupabaseClient(): SupabaseClient<Database> {
   if (!supabaseInstance) {
-    supabaseInstance = createClient(supabaseUrl!, supabaseAnonKey!, {
+    supabaseInstance = createClient<Database>(supabaseUrl!, supabaseAnonKey!, {
       auth: {
         storage: SupabaseStorageAdapter,
         autoRefreshToken: isClient,
@@ -75,7 +76,7 @@ function getSupabaseClient(): SupabaseClient {
 }
 
 // Export a Proxy to allow lazy initialization
-export const supabase = new Proxy({} as SupabaseClient, {
+export const supabase = new Proxy({} as SupabaseClient<Database>, {
   get: (_, prop) => {
     const client = getSupabaseClient();
     const value = (client as any)[prop];
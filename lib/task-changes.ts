@@ -0,0 +1,77 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { parseDateAsLocal } from '@/lib/date';
+import type { TaskChanges } from '@/lib/repositories';
+import type { Task } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Every field a sponsor can edit on a task, as entered in the edit form.
+ */
+export type EditableTaskFields = Required<TaskChanges>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** Editable fields in the order their changes are summarized */
+const EDITABLE_FIELDS: (keyof EditableTaskFields)[] = [
+  'title',
+  'description',
+  'step_number',
+  'due_date',
+];
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Picks out the fields an edit actually changes.
+ *
+ * @param task - The task as it is now
+ * @param edited - The values from the edit form
+ * @returns Only the fields whose value differs, empty when nothing changed
+ */
+export function getTaskChanges(task: Task, edited: EditableTaskFields): TaskChanges {
+  const changes: TaskChanges = {};
+
+  for (const field of EDITABLE_FIELDS) {
+    if (edited[field] !== task[field]) {
+      Object.assign(changes, { [field]: edited[field] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Describes each change in a line the sponsee can read in a notification.
+ *
+ * @param changes - The changed fields, from {@link getTaskChanges}
+ * @returns E.g. `['Title is now "Call me"', 'Due 3/8/2024']`, in a fixed order
+ */
+export function summarizeTaskChanges(changes: TaskChanges): string[] {
+  const summary: string[] = [];
+
+  if (changes.title !== undefined) summary.push(`Title is now "${changes.title}"`);
+  if (changes.description !== undefined) summary.push('Description updated');
+  if (changes.step_number !== undefined) {
+    summary.push(
+      changes.step_number === null
+        ? 'No longer tied to a step'
+        : `Moved to Step ${changes.step_number}`
+    );
+  }
+  if (changes.due_date !== undefined) {
+    summary.push(
+      changes.due_date === null
+        ? 'Due date removed'
+        : `Due ${parseDateAsLocal(changes.due_date).toLocaleDateString()}`
+    );
+  }
+
+  return summary;
+}
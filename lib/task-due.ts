@@ -0,0 +1,147 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { TZDate } from '@date-fns/tz';
+import { daysBetweenDateStrings, formatDateWithTimezone, parseDateAsLocal } from '@/lib/date';
+import type { Task } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * Where an open task's due date falls relative to today in the sponsee's timezone.
+ */
+export type TaskDueStatus = 'overdue' | 'due_today' | 'due_soon' | 'upcoming';
+
+/** The task fields due-date checks read */
+type DatedTask = Pick<Task, 'due_date' | 'status'>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** Tasks due within this many days after today count as due soon */
+export const DUE_SOON_DAYS = 2;
+
+/** Local hour at which due-date reminders are delivered */
+export const TASK_REMINDER_HOUR = 9;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Counts the calendar days from today until a due date, in the given timezone.
+ *
+ * @param dueDate - Due date as YYYY-MM-DD
+ * @param timezone - The sponsee's IANA timezone
+ * @param now - The current time
+ * @returns 0 when due today, negative when the date has passed
+ */
+export function getDaysUntilDue(dueDate: string, timezone: string, now: Date = new Date()): number {
+  return daysBetweenDateStrings(formatDateWithTimezone(now, timezone), dueDate);
+}
+
+/**
+ * Works out whether an open task is overdue, due today or due soon. A task is
+ * only overdue once its due date has passed in the sponsee's timezone, so a
+ * task due today is never overdue.
+ *
+ * @param task - The task to check
+ * @param timezone - The sponsee's IANA timezone
+ * @param now - The current time
+ * @returns The due status, or null for completed tasks and tasks without a due date
+ */
+export function getTaskDueStatus(
+  task: DatedTask,
+  timezone: string,
+  now: Date = new Date()
+): TaskDueStatus | null {
+  if (!task.due_date || task.status === 'completed') return null;
+
+  const days = getDaysUntilDue(task.due_date, timezone, now);
+  if (days < 0) return 'overdue';
+  if (days === 0) return 'due_today';
+  if (days <= DUE_SOON_DAYS) return 'due_soon';
+  return 'upcoming';
+}
+
+/**
+ * Checks whether an open task's due date has passed in the sponsee's timezone.
+ *
+ * @param task - The task to check
+ * @param timezone - The sponsee's IANA timezone
+ * @param now - The current time
+ * @returns True if the task is overdue
+ */
+export function isTaskOverdue(task: DatedTask, timezone: string, now: Date = new Date()): boolean {
+  return getTaskDueStatus(task, timezone, now) === 'overdue';
+}
+
+/**
+ * Describes when a task is due, relative to today for open tasks.
+ *
+ * @param task - The task to describe
+ * @param timezone - The sponsee's IANA timezone
+ * @param now - The current time
+ * @returns E.g. `'Overdue by 2 days'`, `'Due today'`, `'Due tomorrow'` or
+ * `'Due 3/8/2024'`, or null when the task has no due date
+ */
+export function formatDueLabel(
+  task: DatedTask,
+  timezone: string,
+  now: Date = new Date()
+): string | null {
+  if (!task.due_date) return null;
+
+  const dueStatus = getTaskDueStatus(task, timezone, now);
+  const days = getDaysUntilDue(task.due_date, timezone, now);
+
+  if (dueStatus === 'overdue') return `Overdue by ${-days} ${days === -1 ? 'day' : 'days'}`;
+  if (dueStatus === 'due_today') return 'Due today';
+  if (dueStatus === 'due_soon' && days === 1) return 'Due tomorrow';
+  return `Due ${parseDateAsLocal(task.due_date, timezone).toLocaleDateString()}`;
+}
+
+/**
+ * Orders tasks so the most pressing come first: open tasks by due date,
+ * earliest (so overdue) first, then open tasks without a due date, then
+ * completed tasks. Tasks that tie keep their existing order.
+ *
+ * @param a - First task
+ * @param b - Second task
+ * @returns A comparator result for `Array.prototype.sort`
+ *
+ * @example
+ * ```ts
+ * const sorted = [...tasks].sort(compareTasksByDueDate);
+ * ```
+ */
+export function compareTasksByDueDate(a: DatedTask, b: DatedTask): number {
+  const rank = (task: DatedTask) => (task.status === 'completed' ? 2 : task.due_date ? 0 : 1);
+  const byRank = rank(a) - rank(b);
+  if (byRank !== 0 || rank(a) !== 0) return byRank;
+
+  return a.due_date!.localeCompare(b.due_date!);
+}
+
+/**
+ * Gets when to remind a sponsee about a task: the day before it is due and on
+ * the day itself, both at {@link TASK_REMINDER_HOUR} in their timezone.
+ *
+ * @param dueDate - Due date as YYYY-MM-DD
+ * @param timezone - The sponsee's IANA timezone
+ * @returns The day-before reminder, then the due-day reminder
+ *
+ * @example
+ * ```ts
+ * getTaskReminderDates('2024-03-08', 'America/New_York');
+ * // Returns: [2024-03-07 09:00, 2024-03-08 09:00] in New York
+ * ```
+ */
+export function getTaskReminderDates(dueDate: string, timezone: string): [Date, Date] {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  const at = (dayOfMonth: number) =>
+    new Date(new TZDate(year, month - 1, dayOfMonth, TASK_REMINDER_HOUR, 0, 0, timezone).getTime());
+
+  return [at(day - 1), at(day)];
+}
@@ -0,0 +1,175 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import { addDaysToDateString, daysBetweenDateStrings, formatDateWithTimezone } from '@/lib/date';
+import { createSeriesOccurrence } from '@/lib/repositories';
+import type { Task, TaskRecurrence, TaskSeries } from '@/types/database';
+
+// =============================================================================
+// Types & Interfaces
+// =============================================================================
+/**
+ * How often a series repeats.
+ */
+export interface RecurrenceRule {
+  recurrence: TaskRecurrence;
+  /** Days between occurrences: 1 for daily, 7 for weekly, 1-365 for custom */
+  interval_days: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+/** The longest gap a custom series may have between occurrences */
+export const MAX_INTERVAL_DAYS = 365;
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Builds a recurrence rule, fixing the interval for daily and weekly series.
+ *
+ * @param recurrence - How the series repeats
+ * @param customIntervalDays - Days between occurrences, used only for `custom`
+ * @returns The rule to save on the series
+ */
+export function buildRecurrenceRule(
+  recurrence: TaskRecurrence,
+  customIntervalDays = 1
+): RecurrenceRule {
+  if (recurrence === 'daily') return { recurrence, interval_days: 1 };
+  if (recurrence === 'weekly') return { recurrence, interval_days: 7 };
+  return { recurrence, interval_days: customIntervalDays };
+}
+
+/**
+ * Checks that a rule's interval is a whole number of days the database accepts.
+ *
+ * @param rule - The rule to check
+ * @returns True if the interval is between 1 and {@link MAX_INTERVAL_DAYS}
+ */
+export function isValidRecurrenceRule(rule: RecurrenceRule): boolean {
+  return (
+    Number.isInteger(rule.interval_days) &&
+    rule.interval_days >= 1 &&
+    rule.interval_days <= MAX_INTERVAL_DAYS
+  );
+}
+
+/**
+ * Describes how often a series repeats, for badges and headings.
+ *
+ * @param rule - The series' recurrence
+ * @returns E.g. "Repeats daily", "Repeats weekly" or "Repeats every 3 days"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (rule.interval_days === 1) return 'Repeats daily';
+  if (rule.interval_days === 7) return 'Repeats weekly';
+  return `Repeats every ${rule.interval_days} days`;
+}
+
+/**
+ * Works out when a series' next occurrence is due, if one should be created now.
+ *
+ * @remarks
+ * A new occurrence is due once the latest one is completed or its due date has
+ * passed. It falls one interval after the latest occurrence; if the sponsee
+ * has been away for several periods, the missed periods are skipped so the new
+ * occurrence is not already overdue. Missed occurrences stay open as history.
+ *
+ * Dates are YYYY-MM-DD, compared as strings against today's date in the
+ * sponsee's timezone.
+ *
+ * @param series - The series to advance
+ * @param occurrences - The series' existing tasks, in any order
+ * @param today - Today's date as YYYY-MM-DD in the sponsee's timezone
+ * @returns The next due date, or null if the series is stopped or its current
+ *   occurrence is still open
+ *
+ * @example
+ * ```ts
+ * // A daily series whose occurrence for 2024-03-01 was completed that day
+ * getNextOccurrenceDate(series, occurrences, '2024-03-01'); // "2024-03-02"
+ * ```
+ */
+export function getNextOccurrenceDate(
+  series: Pick<TaskSeries, 'starts_on' | 'interval_days' | 'stopped_at'>,
+  occurrences: Pick<Task, 'due_date' | 'status'>[],
+  today: string
+): string | null {
+  if (series.stopped_at) return null;
+
+  const latest = occurrences
+    .filter((task) => task.due_date)
+    .sort((a, b) => b.due_date!.localeCompare(a.due_date!))[0];
+
+  if (!latest) {
+    return skipMissedPeriods(series.starts_on, series.interval_days, today);
+  }
+
+  if (latest.status !== 'completed' && latest.due_date! >= today) return null;
+
+  return skipMissedPeriods(
+    addDaysToDateString(latest.due_date!, series.interval_days),
+    series.interval_days,
+    today
+  );
+}
+
+/**
+ * Moves a due date forward by whole intervals until it is no earlier than today.
+ */
+function skipMissedPeriods(dueDate: string, intervalDays: number, today: string): string {
+  const daysLate = daysBetweenDateStrings(dueDate, today);
+  if (daysLate <= 0) return dueDate;
+
+  return addDaysToDateString(dueDate, Math.ceil(daysLate / intervalDays) * intervalDays);
+}
+
+/**
+ * Creates the next occurrence of every series that needs one.
+ *
+ * @remarks
+ * Called by the sponsee's app whenever their tasks load and after they complete
+ * one, so a series moves on both when an occurrence is completed and when its
+ * period rolls over. A series that fails to advance is skipped; the error is
+ * already logged by the repository and the next load tries again.
+ *
+ * @param series - The sponsee's task series
+ * @param tasks - The sponsee's tasks as last fetched from the server
+ * @param timezone - The sponsee's timezone
+ * @returns How many occurrences were created
+ *
+ * @example
+ * ```ts
+ * if ((await advanceTaskSeries(series, tasks, getUserTimezone(profile))) > 0) {
+ *   tasks = await fetchAssignedTasks(profile.id);
+ * }
+ * ```
+ */
+export async function advanceTaskSeries(
+  series: TaskSeries[],
+  tasks: Task[],
+  timezone: string
+): Promise<number> {
+  const today = formatDateWithTimezone(new Date(), timezone);
+  let created = 0;
+
+  for (const item of series) {
+    const dueDate = getNextOccurrenceDate(
+      item,
+      tasks.filter((task) => task.series_id === item.id),
+      today
+    );
+    if (!dueDate) continue;
+
+    try {
+      if (await createSeriesOccurrence(item.id, dueDate)) created += 1;
+    } catch {
+      // Already logged by the repository
+    }
+  }
+
+  return created;
+}
@@ -0,0 +1,137 @@
+-- =============================================================================
+-- Direct messages between sponsors and sponsees
+-- =============================================================================
+-- Messages may only be exchanged between two users who share an active
+-- sponsor_sponsee_relationships row (in either direction). Recipients mark
+-- messages read by setting read_at; nothing else about a message is mutable.
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  sender_id uuid not null references public.profiles (id) on delete cascade,
+  recipient_id uuid not null references public.profiles (id) on delete cascade,
+  content text not null check (char_length(trim(content)) between 1 and 4000),
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint messages_not_self check (sender_id <> recipient_id)
+);
+
+create index if not exists messages_sender_recipient_created_idx
+  on public.messages (sender_id, recipient_id, created_at desc);
+
+create index if not exists messages_recipient_unread_idx
+  on public.messages (recipient_id)
+  where read_at is null;
+
+alter table public.messages enable row level security;
+
+-- Returns true when the two users share an active relationship in either direction.
+-- It only answers for pairs that include the current user, so it cannot be used
+-- over RPC to probe who else is connected.
+create or replace function public.users_are_connected(user_a uuid, user_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() in (user_a, user_b) and exists (
+    select 1
+    from public.sponsor_sponsee_relationships r
+    where r.status = 'active'
+      and (
+        (r.sponsor_id = user_a and r.sponsee_id = user_b)
+        or (r.sponsor_id = user_b and r.sponsee_id = user_a)
+      )
+  );
+$$;
+
+revoke all on function public.users_are_connected(uuid, uuid) from public;
+grant execute on function public.users_are_connected(uuid, uuid) to authenticated;
+
+drop policy if exists "Participants can read their messages" on public.messages;
+create policy "Participants can read their messages"
+  on public.messages for select
+  using (auth.uid() = sender_id or auth.uid() = recipient_id);
+
+drop policy if exists "Connected users can send messages" on public.messages;
+create policy "Connected users can send messages"
+  on public.messages for insert
+  with check (
+    auth.uid() = sender_id
+    and public.users_are_connected(sender_id, recipient_id)
+  );
+
+drop policy if exists "Recipients can mark messages read" on public.messages;
+create policy "Recipients can mark messages read"
+  on public.messages for update
+  using (auth.uid() = recipient_id)
+  with check (auth.uid() = recipient_id);
+
+-- Only read_at may change on update.
+create or replace function public.messages_guard_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.sender_id <> old.sender_id
+    or new.recipient_id <> old.recipient_id
+    or new.content <> old.content
+    or new.created_at <> old.created_at then
+    raise exception 'Only read_at can be updated on messages';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_guard_update on public.messages;
+create trigger messages_guard_update
+  before update on public.messages
+  for each row execute function public.messages_guard_update();
+
+-- The latest message exchanged with each person the current user has messaged,
+-- with how many of that person's messages the user has not read, so the
+-- conversation list does not have to load every message.
+create or replace function public.get_conversation_summaries()
+returns table (
+  partner_id uuid,
+  id uuid,
+  sender_id uuid,
+  recipient_id uuid,
+  content text,
+  read_at timestamptz,
+  created_at timestamptz,
+  unread_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with mine as (
+    select
+      m.*,
+      case when m.sender_id = auth.uid() then m.recipient_id else m.sender_id end as partner
+    from public.messages m
+    where auth.uid() in (m.sender_id, m.recipient_id)
+  )
+  select distinct on (mine.partner)
+    mine.partner,
+    mine.id,
+    mine.sender_id,
+    mine.recipient_id,
+    mine.content,
+    mine.read_at,
+    mine.created_at,
+    (
+      select count(*)::integer
+      from mine unread
+      where unread.partner = mine.partner
+        and unread.recipient_id = auth.uid()
+        and unread.read_at is null
+    )
+  from mine
+  order by mine.partner, mine.created_at desc;
+$$;
+
+revoke all on function public.get_conversation_summaries() from public;
+grant execute on function public.get_conversation_summaries() to authenticated;
@@ -0,0 +1,9 @@
+-- =============================================================================
+-- Daily reminder time
+-- =============================================================================
+-- Local time of day (in the user's device timezone) at which the optional
+-- daily check-in reminder is delivered. Only used when
+-- notification_preferences.daily is true.
+
+alter table public.profiles
+  add column if not exists daily_reminder_time time not null default '09:00';
@@ -0,0 +1,30 @@
+-- =============================================================================
+-- Realtime publication
+-- =============================================================================
+-- Publishes row changes for the tables screens subscribe to (see lib/realtime.ts).
+-- Realtime applies each table's select policies, so subscribers only receive
+-- rows they could already read.
+
+do $$
+declare
+  realtime_table text;
+begin
+  foreach realtime_table in array array[
+    'tasks',
+    'sponsor_sponsee_relationships',
+    'notifications',
+    'messages'
+  ]
+  loop
+    if not exists (
+      select 1
+      from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = realtime_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', realtime_table);
+    end if;
+  end loop;
+end
+$$;
@@ -0,0 +1,34 @@
+-- =============================================================================
+-- Invite code revocation
+-- =============================================================================
+-- Sponsors can revoke an unused invite code so it can no longer be redeemed.
+-- Revoked codes are kept (rather than deleted) so the sponsor's history stays
+-- intact. Codes are generated client-side, so uniqueness is enforced here and
+-- the app retries with a fresh code on a unique violation.
+
+alter table public.invite_codes
+  add column if not exists revoked_at timestamptz;
+
+create unique index if not exists invite_codes_code_key
+  on public.invite_codes (code);
+
+create index if not exists invite_codes_sponsor_created_idx
+  on public.invite_codes (sponsor_id, created_at desc);
+
+drop policy if exists "Sponsors can read their invite codes" on public.invite_codes;
+create policy "Sponsors can read their invite codes"
+  on public.invite_codes for select
+  using (auth.uid() = sponsor_id);
+
+drop policy if exists "Sponsors can revoke their unused invite codes" on public.invite_codes;
+create policy "Sponsors can revoke their unused invite codes"
+  on public.invite_codes for update
+  using (auth.uid() = sponsor_id and used_by is null)
+  with check (auth.uid() = sponsor_id);
+
+-- The policy above decides which rows a sponsor may update; the grant decides
+-- which columns. Revoking only sets revoked_at, so a sponsor cannot rewrite a
+-- code or extend its expiry. Redemption still marks codes used from the client,
+-- so used_by and used_at stay updatable until it moves into a function.
+revoke update on public.invite_codes from anon, authenticated;
+grant update (revoked_at, used_by, used_at) on public.invite_codes to authenticated;
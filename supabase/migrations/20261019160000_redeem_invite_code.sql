@@ -0,0 +1,114 @@
+-- =============================================================================
+-- Atomic invite code redemption
+-- =============================================================================
+-- Validates an invite code, creates the sponsor-sponsee relationship and marks
+-- the code used in a single transaction. The invite row is locked while it is
+-- checked, so two sponsees redeeming the same code at once cannot both
+-- succeed, and a failure part way through leaves nothing behind.
+--
+-- Rejections are returned as a status rather than raised, so the client can
+-- show a specific message without treating them as errors.
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'invite_redemption_status') then
+    create type public.invite_redemption_status as enum (
+      'connected',
+      'not_found',
+      'expired',
+      'revoked',
+      'used',
+      'self',
+      'already_connected'
+    );
+  end if;
+end
+$$;
+
+create or replace function public.redeem_invite_code(invite_code text)
+returns table (
+  status public.invite_redemption_status,
+  relationship_id uuid,
+  sponsor_id uuid,
+  sponsor_first_name text,
+  sponsor_last_initial text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller uuid := auth.uid();
+  invite public.invite_codes%rowtype;
+  sponsor public.profiles%rowtype;
+  new_relationship_id uuid;
+begin
+  if caller is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into invite
+  from public.invite_codes ic
+  where ic.code = upper(trim(invite_code))
+  for update;
+
+  if not found then
+    return query
+      select 'not_found'::public.invite_redemption_status, null::uuid, null::uuid, null::text, null::text;
+    return;
+  end if;
+
+  select * into sponsor from public.profiles p where p.id = invite.sponsor_id;
+
+  if invite.expires_at < now() then
+    status := 'expired';
+  elsif invite.revoked_at is not null then
+    status := 'revoked';
+  elsif invite.used_by is not null then
+    status := 'used';
+  elsif invite.sponsor_id = caller then
+    status := 'self';
+  elsif exists (
+    select 1
+    from public.sponsor_sponsee_relationships r
+    where r.sponsor_id = invite.sponsor_id
+      and r.sponsee_id = caller
+      and r.status = 'active'
+  ) then
+    status := 'already_connected';
+  else
+    insert into public.sponsor_sponsee_relationships (sponsor_id, sponsee_id, status)
+    values (invite.sponsor_id, caller, 'active')
+    returning id into new_relationship_id;
+
+    update public.invite_codes
+    set used_by = caller, used_at = now()
+    where id = invite.id;
+
+    status := 'connected';
+  end if;
+
+  return query select
+    status,
+    new_relationship_id,
+    invite.sponsor_id,
+    sponsor.first_name,
+    sponsor.last_initial;
+end;
+$$;
+
+revoke all on function public.redeem_invite_code(text) from public;
+grant execute on function public.redeem_invite_code(text) to authenticated;
+
+-- The function marks the code used, so clients keep only revocation.
+revoke update (used_by, used_at) on public.invite_codes from authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Direct inserts
+-- -----------------------------------------------------------------------------
+-- Redeeming a code is now the only way to create a relationship. The client
+-- used to insert the row itself after checking the code, which would let it
+-- connect without a valid, unexpired code; the function runs as its owner and
+-- keeps the privilege.
+
+revoke insert on public.sponsor_sponsee_relationships from anon, authenticated;
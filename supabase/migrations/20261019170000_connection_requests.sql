@@ -0,0 +1,145 @@
+-- =============================================================================
+-- Connection requests
+-- =============================================================================
+-- Sponsors can choose to approve new sponsees before they connect. With
+-- require_connection_approval set, redeeming one of the sponsor's invite codes
+-- creates a 'pending' relationship instead of an 'active' one, and the sponsor
+-- accepts (pending -> active) or declines (pending -> inactive) it. The setting
+-- applies to codes already shared, so a sponsor whose code has spread beyond
+-- the person it was meant for can turn it on without revoking anything.
+
+alter table public.profiles
+  add column if not exists require_connection_approval boolean not null default false;
+
+alter type public.invite_redemption_status add value if not exists 'pending';
+alter type public.invite_redemption_status add value if not exists 'already_requested';
+
+-- -----------------------------------------------------------------------------
+-- Redemption
+-- -----------------------------------------------------------------------------
+-- Same as before, except that the relationship starts out pending when the
+-- sponsor requires approval, and a sponsee with a request still waiting gets
+-- 'already_requested' rather than a second request.
+
+create or replace function public.redeem_invite_code(invite_code text)
+returns table (
+  status public.invite_redemption_status,
+  relationship_id uuid,
+  sponsor_id uuid,
+  sponsor_first_name text,
+  sponsor_last_initial text
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  caller uuid := auth.uid();
+  invite public.invite_codes%rowtype;
+  sponsor public.profiles%rowtype;
+  existing_status public.relationship_status;
+  new_relationship_id uuid;
+begin
+  if caller is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select * into invite
+  from public.invite_codes ic
+  where ic.code = upper(trim(invite_code))
+  for update;
+
+  if not found then
+    return query
+      select 'not_found'::public.invite_redemption_status, null::uuid, null::uuid, null::text, null::text;
+    return;
+  end if;
+
+  select * into sponsor from public.profiles p where p.id = invite.sponsor_id;
+
+  select r.status into existing_status
+  from public.sponsor_sponsee_relationships r
+  where r.sponsor_id = invite.sponsor_id
+    and r.sponsee_id = caller
+    and r.status in ('active', 'pending')
+  limit 1;
+
+  if invite.expires_at < now() then
+    status := 'expired';
+  elsif invite.revoked_at is not null then
+    status := 'revoked';
+  elsif invite.used_by is not null then
+    status := 'used';
+  elsif invite.sponsor_id = caller then
+    status := 'self';
+  elsif existing_status = 'active' then
+    status := 'already_connected';
+  elsif existing_status = 'pending' then
+    status := 'already_requested';
+  else
+    insert into public.sponsor_sponsee_relationships (sponsor_id, sponsee_id, status)
+    values (
+      invite.sponsor_id,
+      caller,
+      case when sponsor.require_connection_approval then 'pending' else 'active' end::public.relationship_status
+    )
+    returning id into new_relationship_id;
+
+    update public.invite_codes
+    set used_by = caller, used_at = now()
+    where id = invite.id;
+
+    status := case when sponsor.require_connection_approval then 'pending' else 'connected' end;
+  end if;
+
+  return query select
+    status,
+    new_relationship_id,
+    invite.sponsor_id,
+    sponsor.first_name,
+    sponsor.last_initial;
+end;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Approval
+-- -----------------------------------------------------------------------------
+-- Only the sponsor can accept a request, and accepting a pending request is
+-- the only way back to active; without this a sponsee could activate their own
+-- request, or one the sponsor declined, through the ordinary relationship
+-- update policy. Accepting restarts connected_at so it records when the pair
+-- actually connected. A relationship inserted as active for a sponsor who
+-- requires approval starts out pending instead, however it was created.
+
+create or replace function public.guard_connection_approval()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status = 'active' and exists (
+      select 1
+      from public.profiles p
+      where p.id = new.sponsor_id
+        and p.require_connection_approval
+    ) then
+      new.status := 'pending';
+    end if;
+  elsif new.status = 'active' and old.status <> 'active' then
+    if old.status <> 'pending' or auth.uid() is distinct from old.sponsor_id then
+      raise exception 'Only the sponsor can accept a connection request' using errcode = '42501';
+    end if;
+    new.connected_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_connection_approval on public.sponsor_sponsee_relationships;
+create trigger guard_connection_approval
+  before insert or update of status on public.sponsor_sponsee_relationships
+  for each row
+  execute function public.guard_connection_approval();
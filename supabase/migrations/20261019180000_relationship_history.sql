@@ -0,0 +1,107 @@
+-- =============================================================================
+-- Relationship history and reconnecting
+-- =============================================================================
+-- Ended relationships stay in sponsor_sponsee_relationships as 'inactive' and
+-- are shown as history. Either person can ask to reconnect an inactive
+-- relationship, which records them in reconnect_requested_by; the relationship
+-- only becomes active again once the other person accepts.
+--
+-- Connection requests that are declined or withdrawn are marked 'declined'
+-- rather than 'inactive', so they never show up as past relationships.
+
+alter type public.relationship_status add value if not exists 'declined';
+
+alter table public.sponsor_sponsee_relationships
+  add column if not exists reconnect_requested_by uuid references public.profiles (id) on delete set null;
+
+-- -----------------------------------------------------------------------------
+-- Status changes
+-- -----------------------------------------------------------------------------
+-- Extends the connection approval guard:
+-- - A relationship inserted as active for a sponsor who requires approval
+--   starts out pending.
+-- - Only the sponsor can accept a pending request.
+-- - A reconnect can only be requested on an inactive relationship, by one of
+--   its two members, on their own behalf.
+-- - An inactive relationship can only be reactivated by the member who did not
+--   ask to reconnect, and not while the pair has another active or pending
+--   relationship.
+-- - Nothing else becomes active: a declined request stays declined.
+-- - Nothing goes back to pending, so a declined or ended relationship cannot
+--   be turned into a fresh request; the sponsee redeems a new code instead.
+-- Accepting either kind of request restarts connected_at.
+
+create or replace function public.guard_connection_approval()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status = 'active' and exists (
+      select 1
+      from public.profiles p
+      where p.id = new.sponsor_id
+        and p.require_connection_approval
+    ) then
+      new.status := 'pending';
+    end if;
+    return new;
+  end if;
+
+  if new.reconnect_requested_by is not null
+    and new.reconnect_requested_by is distinct from old.reconnect_requested_by then
+    if old.status <> 'inactive' or new.reconnect_requested_by is distinct from auth.uid() then
+      raise exception 'Only an ended relationship can be reconnected, by one of its members'
+        using errcode = '42501';
+    end if;
+  end if;
+
+  if new.status = 'pending' and old.status <> 'pending' then
+    raise exception 'A relationship cannot go back to pending' using errcode = '42501';
+  end if;
+
+  if new.status <> 'active' or old.status = 'active' then
+    return new;
+  end if;
+
+  if old.status = 'pending' then
+    if auth.uid() is distinct from old.sponsor_id then
+      raise exception 'Only the sponsor can accept a connection request' using errcode = '42501';
+    end if;
+    new.connected_at := now();
+  elsif old.status = 'inactive' then
+    if old.reconnect_requested_by is null
+      or auth.uid() is not distinct from old.reconnect_requested_by
+      or auth.uid() not in (old.sponsor_id, old.sponsee_id) then
+      raise exception 'Reconnecting needs the other person to accept' using errcode = '42501';
+    end if;
+    if exists (
+      select 1
+      from public.sponsor_sponsee_relationships r
+      where r.id <> old.id
+        and r.sponsor_id = old.sponsor_id
+        and r.sponsee_id = old.sponsee_id
+        and r.status in ('active', 'pending')
+    ) then
+      raise exception 'Already connected' using errcode = '23505';
+    end if;
+    new.connected_at := now();
+    new.disconnected_at := null;
+    new.reconnect_requested_by := null;
+  else
+    raise exception 'Only a pending request or an ended relationship can become active'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_connection_approval on public.sponsor_sponsee_relationships;
+create trigger guard_connection_approval
+  before insert or update of status, reconnect_requested_by
+  on public.sponsor_sponsee_relationships
+  for each row
+  execute function public.guard_connection_approval();
@@ -0,0 +1,37 @@
+-- =============================================================================
+-- Slip-up sharing
+-- =============================================================================
+-- A sponsee chooses, per sponsor, whether that sponsor may see their slip-up
+-- history on the sponsee dashboard. Sharing is off until the sponsee turns it
+-- on. The sponsor's view of the current streak is unchanged.
+
+alter table public.sponsor_sponsee_relationships
+  add column if not exists share_slip_ups boolean not null default false;
+
+-- -----------------------------------------------------------------------------
+-- Who can change sharing
+-- -----------------------------------------------------------------------------
+-- Only the sponsee decides what they share; the sponsor can update the
+-- relationship in other ways but not this column.
+
+create or replace function public.guard_slip_up_sharing()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.share_slip_ups is distinct from old.share_slip_ups
+    and auth.uid() is distinct from old.sponsee_id then
+    raise exception 'Only the sponsee can change what they share' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_slip_up_sharing on public.sponsor_sponsee_relationships;
+create trigger guard_slip_up_sharing
+  before update of share_slip_ups on public.sponsor_sponsee_relationships
+  for each row
+  execute function public.guard_slip_up_sharing();
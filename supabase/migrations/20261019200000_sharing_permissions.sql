@@ -0,0 +1,295 @@
+-- =============================================================================
+-- Sharing permissions
+-- =============================================================================
+-- Each relationship carries the sponsee's choices about what their sponsor may
+-- see:
+-- - share_sobriety_date: sobriety date and current streak
+-- - share_slip_ups: slip-up history (added with the sponsee dashboard)
+-- - share_slip_up_notes: the notes on those slip-ups
+-- - share_step_progress: which steps are completed
+-- - share_notes: step reflections and task completion notes
+--
+-- Sobriety date, step progress and notes were always visible to sponsors, so
+-- they stay on until the sponsee turns them off. Slip-ups and their notes stay
+-- off until the sponsee turns them on.
+--
+-- Slip-ups and step progress can only be read directly by their owner; anyone
+-- else reads them through the functions below, which apply these settings.
+-- Profiles and tasks stay readable row by row, but not the sobriety date or
+-- task completion notes: those columns are only returned by the functions
+-- below, to the owner or to a sponsor they are shared with. Realtime leaves
+-- them out of change payloads for the same reason.
+
+alter table public.sponsor_sponsee_relationships
+  add column if not exists share_sobriety_date boolean not null default true,
+  add column if not exists share_slip_up_notes boolean not null default false,
+  add column if not exists share_step_progress boolean not null default true,
+  add column if not exists share_notes boolean not null default true;
+
+-- -----------------------------------------------------------------------------
+-- Who can change sharing
+-- -----------------------------------------------------------------------------
+-- Replaces the slip-up sharing guard: only the sponsee decides what they share.
+
+drop trigger if exists guard_slip_up_sharing on public.sponsor_sponsee_relationships;
+drop function if exists public.guard_slip_up_sharing();
+
+create or replace function public.guard_sharing_settings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (
+    new.share_sobriety_date is distinct from old.share_sobriety_date
+    or new.share_slip_ups is distinct from old.share_slip_ups
+    or new.share_slip_up_notes is distinct from old.share_slip_up_notes
+    or new.share_step_progress is distinct from old.share_step_progress
+    or new.share_notes is distinct from old.share_notes
+  ) and auth.uid() is distinct from old.sponsee_id then
+    raise exception 'Only the sponsee can change what they share' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_sharing_settings on public.sponsor_sponsee_relationships;
+create trigger guard_sharing_settings
+  before update of share_sobriety_date, share_slip_ups, share_slip_up_notes,
+    share_step_progress, share_notes
+  on public.sponsor_sponsee_relationships
+  for each row
+  execute function public.guard_sharing_settings();
+
+-- -----------------------------------------------------------------------------
+-- Direct reads
+-- -----------------------------------------------------------------------------
+-- Restrictive policies narrow whatever select policies already exist.
+
+drop policy if exists "Only owners read slip-ups directly" on public.slip_ups;
+create policy "Only owners read slip-ups directly"
+  on public.slip_ups as restrictive for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Only owners read step progress directly" on public.user_step_progress;
+create policy "Only owners read step progress directly"
+  on public.user_step_progress as restrictive for select
+  using (auth.uid() = user_id);
+
+-- Column privileges keep the sobriety date and completion notes out of direct
+-- selects, embeds and realtime payloads, whoever's row it is. Later migrations
+-- grant the columns they add.
+
+revoke select on public.profiles from anon, authenticated;
+grant select (
+  id, email, first_name, last_initial, phone, avatar_url, bio, timezone,
+  notification_preferences, daily_reminder_time, require_connection_approval,
+  terms_accepted_at, created_at, updated_at
+) on public.profiles to authenticated;
+
+revoke select on public.tasks from anon, authenticated;
+grant select (
+  id, sponsor_id, sponsee_id, step_number, title, description, due_date, status,
+  completed_at, created_at, updated_at
+) on public.tasks to authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Own reads
+-- -----------------------------------------------------------------------------
+
+-- The current user's whole profile.
+create or replace function public.get_own_profile()
+returns setof public.profiles
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.profiles where id = auth.uid();
+$$;
+
+-- Every task assigned to the current user, with all of its columns.
+create or replace function public.get_assigned_tasks()
+returns setof public.tasks
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.tasks where sponsee_id = auth.uid();
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Shared reads
+-- -----------------------------------------------------------------------------
+
+-- The active relationship in which the current user sponsors p_sponsee_id.
+create or replace function public.sponsoring_relationship(p_sponsee_id uuid)
+returns public.sponsor_sponsee_relationships
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.*
+  from public.sponsor_sponsee_relationships r
+  where r.sponsor_id = auth.uid()
+    and r.sponsee_id = p_sponsee_id
+    and r.status = 'active'
+  limit 1;
+$$;
+
+-- A user's sobriety date and current streak start. Visible to the user, to
+-- their sponsees, and to a sponsor the user shares their sobriety date with.
+create or replace function public.get_sobriety_summary(p_user_id uuid)
+returns table (sobriety_date date, timezone text, current_streak_start date)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p.sobriety_date,
+    p.timezone,
+    coalesce(
+      (
+        select s.recovery_restart_date
+        from public.slip_ups s
+        where s.user_id = p.id
+        order by s.slip_up_date desc
+        limit 1
+      ),
+      p.sobriety_date
+    )
+  from public.profiles p
+  where p.id = p_user_id
+    and (
+      p.id = auth.uid()
+      or exists (
+        select 1
+        from public.sponsor_sponsee_relationships r
+        where r.sponsor_id = p.id
+          and r.sponsee_id = auth.uid()
+          and r.status = 'active'
+      )
+      or coalesce((public.sponsoring_relationship(p.id)).share_sobriety_date, false)
+    );
+$$;
+
+-- A user's slip-ups, most recent first. Visible to the user, and to a sponsor
+-- the user shares slip-ups with; notes are left out unless shared as well.
+create or replace function public.get_shared_slip_ups(p_user_id uuid)
+returns setof public.slip_ups
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  sharing public.sponsor_sponsee_relationships;
+  slip_up public.slip_ups;
+begin
+  if p_user_id is distinct from auth.uid() then
+    sharing := public.sponsoring_relationship(p_user_id);
+    if not coalesce(sharing.share_slip_ups, false) then
+      return;
+    end if;
+  end if;
+
+  for slip_up in
+    select * from public.slip_ups where user_id = p_user_id order by slip_up_date desc
+  loop
+    if p_user_id is distinct from auth.uid() and not sharing.share_slip_up_notes then
+      slip_up.notes := null;
+    end if;
+    return next slip_up;
+  end loop;
+end;
+$$;
+
+-- A user's step progress. Visible to the user, and to a sponsor the user shares
+-- step progress with; reflections are left out unless notes are shared too.
+create or replace function public.get_shared_step_progress(p_user_id uuid)
+returns setof public.user_step_progress
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  sharing public.sponsor_sponsee_relationships;
+  progress public.user_step_progress;
+begin
+  if p_user_id is distinct from auth.uid() then
+    sharing := public.sponsoring_relationship(p_user_id);
+    if not coalesce(sharing.share_step_progress, false) then
+      return;
+    end if;
+  end if;
+
+  for progress in
+    select * from public.user_step_progress where user_id = p_user_id order by step_number
+  loop
+    if p_user_id is distinct from auth.uid() and not sharing.share_notes then
+      progress.notes := null;
+    end if;
+    return next progress;
+  end loop;
+end;
+$$;
+
+-- Tasks a sponsor assigned, optionally to one sponsee, newest first. Either
+-- side of each task may read it; completion notes are left out for the
+-- sponsor unless the sponsee's most recent relationship with them shares notes.
+create or replace function public.get_sponsor_tasks(p_sponsor_id uuid, p_sponsee_id uuid default null)
+returns setof public.tasks
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks;
+begin
+  for task in
+    select *
+    from public.tasks t
+    where t.sponsor_id = p_sponsor_id
+      and (p_sponsee_id is null or t.sponsee_id = p_sponsee_id)
+      and auth.uid() in (t.sponsor_id, t.sponsee_id)
+    order by t.created_at desc
+  loop
+    if auth.uid() is distinct from task.sponsee_id and not coalesce(
+      (
+        select r.share_notes
+        from public.sponsor_sponsee_relationships r
+        where r.sponsor_id = task.sponsor_id
+          and r.sponsee_id = task.sponsee_id
+          and r.status in ('active', 'inactive')
+        order by r.created_at desc
+        limit 1
+      ),
+      false
+    ) then
+      task.completion_notes := null;
+    end if;
+    return next task;
+  end loop;
+end;
+$$;
+
+revoke all on function public.get_own_profile() from public;
+revoke all on function public.get_assigned_tasks() from public;
+revoke all on function public.sponsoring_relationship(uuid) from public;
+revoke all on function public.get_sobriety_summary(uuid) from public;
+revoke all on function public.get_shared_slip_ups(uuid) from public;
+revoke all on function public.get_shared_step_progress(uuid) from public;
+revoke all on function public.get_sponsor_tasks(uuid, uuid) from public;
+grant execute on function public.get_own_profile() to authenticated;
+grant execute on function public.get_assigned_tasks() to authenticated;
+grant execute on function public.get_sobriety_summary(uuid) to authenticated;
+grant execute on function public.get_shared_slip_ups(uuid) to authenticated;
+grant execute on function public.get_shared_step_progress(uuid) to authenticated;
+grant execute on function public.get_sponsor_tasks(uuid, uuid) to authenticated;
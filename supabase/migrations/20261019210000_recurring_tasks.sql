@@ -0,0 +1,202 @@
+-- =============================================================================
+-- Recurring tasks
+-- =============================================================================
+-- A task series is a task a sponsor wants repeated on a schedule: daily,
+-- weekly, or every N days. Each occurrence is an ordinary row in tasks with
+-- series_id set, so it is completed, noted and shown like any other task and
+-- the series keeps one completed (or missed) task per period as its history.
+--
+-- The sponsee's app creates the next occurrence once the current one is
+-- completed or its period has passed, through create_series_occurrence.
+-- Editing a series updates its open occurrences; stopping it keeps everything
+-- already created but no new occurrences are made.
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'task_recurrence') then
+    create type public.task_recurrence as enum ('daily', 'weekly', 'custom');
+  end if;
+end
+$$;
+
+create table if not exists public.task_series (
+  id uuid primary key default gen_random_uuid(),
+  sponsor_id uuid not null references public.profiles (id) on delete cascade,
+  sponsee_id uuid not null references public.profiles (id) on delete cascade,
+  step_number integer check (step_number between 1 and 12),
+  title text not null,
+  description text not null,
+  recurrence public.task_recurrence not null,
+  interval_days integer not null check (interval_days between 1 and 365),
+  starts_on date not null,
+  stopped_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint task_series_interval_matches_recurrence check (
+    (recurrence = 'daily' and interval_days = 1)
+    or (recurrence = 'weekly' and interval_days = 7)
+    or recurrence = 'custom'
+  )
+);
+
+create index if not exists task_series_sponsor_idx on public.task_series (sponsor_id);
+create index if not exists task_series_sponsee_idx on public.task_series (sponsee_id);
+
+alter table public.tasks
+  add column if not exists series_id uuid references public.task_series (id) on delete set null;
+
+grant select (series_id) on public.tasks to authenticated;
+
+-- One occurrence per series per due date, so two devices advancing the same
+-- series cannot both create the next occurrence.
+create unique index if not exists tasks_series_due_date_key
+  on public.tasks (series_id, due_date)
+  where series_id is not null;
+
+alter table public.task_series enable row level security;
+
+drop policy if exists "Sponsors manage their task series" on public.task_series;
+create policy "Sponsors manage their task series"
+  on public.task_series for all
+  using (auth.uid() = sponsor_id)
+  with check (
+    auth.uid() = sponsor_id
+    and exists (
+      select 1
+      from public.sponsor_sponsee_relationships r
+      where r.sponsor_id = task_series.sponsor_id
+        and r.sponsee_id = task_series.sponsee_id
+        and r.status = 'active'
+    )
+  );
+
+drop policy if exists "Sponsees read their task series" on public.task_series;
+create policy "Sponsees read their task series"
+  on public.task_series for select
+  using (auth.uid() = sponsee_id);
+
+-- -----------------------------------------------------------------------------
+-- Editing a series
+-- -----------------------------------------------------------------------------
+-- The pair and start date are fixed; changes to the wording carry over to
+-- occurrences the sponsee has not completed yet.
+
+create or replace function public.apply_task_series_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.sponsor_id is distinct from old.sponsor_id
+    or new.sponsee_id is distinct from old.sponsee_id
+    or new.starts_on is distinct from old.starts_on then
+    raise exception 'A task series cannot be moved' using errcode = '42501';
+  end if;
+
+  if old.stopped_at is not null and new.stopped_at is distinct from old.stopped_at then
+    raise exception 'A stopped task series cannot be restarted' using errcode = '42501';
+  end if;
+
+  new.updated_at := now();
+
+  update public.tasks
+  set title = new.title,
+    description = new.description,
+    step_number = new.step_number
+  where series_id = new.id
+    and status <> 'completed';
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_task_series_changes on public.task_series;
+create trigger apply_task_series_changes
+  before update on public.task_series
+  for each row
+  execute function public.apply_task_series_changes();
+
+-- -----------------------------------------------------------------------------
+-- Creating occurrences
+-- -----------------------------------------------------------------------------
+
+-- Creates the occurrence of an active series due on p_due_date, for either
+-- member of the pair while they are still connected. "Today" is the sponsee's
+-- date in their own timezone. Nothing is created while an occurrence is still
+-- open and not yet past due, or when the date is before the series starts or
+-- more than one period past its latest occurrence. Returns the new task's id,
+-- or null when nothing was created.
+create or replace function public.create_series_occurrence(p_series_id uuid, p_due_date date)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  series public.task_series;
+  today date;
+  latest_due date;
+  new_task_id uuid;
+begin
+  select * into series
+  from public.task_series s
+  where s.id = p_series_id
+    and auth.uid() in (s.sponsor_id, s.sponsee_id)
+    and s.stopped_at is null
+    and exists (
+      select 1
+      from public.sponsor_sponsee_relationships r
+      where r.sponsor_id = s.sponsor_id
+        and r.sponsee_id = s.sponsee_id
+        and r.status = 'active'
+    );
+
+  if not found then
+    raise exception 'Task series not found or stopped' using errcode = '42501';
+  end if;
+
+  select (now() at time zone coalesce(p.timezone, 'UTC'))::date into today
+  from public.profiles p
+  where p.id = series.sponsee_id;
+
+  if exists (
+    select 1
+    from public.tasks t
+    where t.series_id = series.id
+      and t.status <> 'completed'
+      and t.due_date >= today
+  ) then
+    return null;
+  end if;
+
+  select max(t.due_date) into latest_due
+  from public.tasks t
+  where t.series_id = series.id;
+
+  if p_due_date < series.starts_on
+    or p_due_date > greatest(series.starts_on, today, latest_due) + series.interval_days then
+    return null;
+  end if;
+
+  insert into public.tasks (sponsor_id, sponsee_id, step_number, title, description, due_date, status, series_id)
+  values (
+    series.sponsor_id,
+    series.sponsee_id,
+    series.step_number,
+    series.title,
+    series.description,
+    p_due_date,
+    'assigned',
+    series.id
+  )
+  on conflict (series_id, due_date) where series_id is not null do nothing
+  returning id into new_task_id;
+
+  return new_task_id;
+end;
+$$;
+
+revoke all on function public.apply_task_series_changes() from public;
+revoke all on function public.create_series_occurrence(uuid, date) from public;
+grant execute on function public.create_series_occurrence(uuid, date) to authenticated;
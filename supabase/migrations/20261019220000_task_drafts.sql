@@ -0,0 +1,65 @@
+-- =============================================================================
+-- Task drafts
+-- =============================================================================
+-- Sponsees can start a task and save draft notes against it, then resume
+-- later. Starting a task moves it to in_progress; completing it copies the
+-- final notes to completion_notes and clears the draft.
+--
+-- Drafts are the sponsee's own working notes, so no one else can read them,
+-- regardless of the notes sharing setting. The column is not granted for
+-- direct selects, which also keeps it out of realtime payloads; the sponsee
+-- reads it through get_assigned_tasks, and get_sponsor_tasks leaves it out for
+-- everyone else.
+
+alter table public.tasks
+  add column if not exists draft_notes text;
+
+revoke select (draft_notes) on public.tasks from anon, authenticated;
+
+-- Tasks a sponsor assigned, optionally to one sponsee, newest first. Either
+-- side of each task may read it; completion notes are left out for the
+-- sponsor unless the sponsee's most recent relationship with them shares
+-- notes, and draft notes are only returned to the sponsee.
+create or replace function public.get_sponsor_tasks(p_sponsor_id uuid, p_sponsee_id uuid default null)
+returns setof public.tasks
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks;
+begin
+  for task in
+    select *
+    from public.tasks t
+    where t.sponsor_id = p_sponsor_id
+      and (p_sponsee_id is null or t.sponsee_id = p_sponsee_id)
+      and auth.uid() in (t.sponsor_id, t.sponsee_id)
+    order by t.created_at desc
+  loop
+    if auth.uid() is distinct from task.sponsee_id then
+      task.draft_notes := null;
+
+      if not coalesce(
+        (
+          select r.share_notes
+          from public.sponsor_sponsee_relationships r
+          where r.sponsor_id = task.sponsor_id
+            and r.sponsee_id = task.sponsee_id
+            and r.status in ('active', 'inactive')
+          order by r.created_at desc
+          limit 1
+        ),
+        false
+      ) then
+        task.completion_notes := null;
+      end if;
+    end if;
+    return next task;
+  end loop;
+end;
+$$;
+
+revoke all on function public.get_sponsor_tasks(uuid, uuid) from public;
+grant execute on function public.get_sponsor_tasks(uuid, uuid) to authenticated;
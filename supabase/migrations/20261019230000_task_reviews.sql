@@ -0,0 +1,163 @@
+-- =============================================================================
+-- Task reviews
+-- =============================================================================
+-- A completed task waits for its sponsor's review. The sponsor either
+-- acknowledges it, optionally with a comment, or sends it back with feedback.
+-- Sending a task back reopens it for the sponsee as in_progress, with their
+-- completion notes restored as a draft to build on.
+--
+-- Each review, and any reply either of the pair writes in between, is kept
+-- in task_comments as the task's feedback thread. Reviews are made only
+-- through review_task, so a task's review state and its thread always agree.
+
+alter type public.notification_type add value if not exists 'task_feedback';
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'task_comment_kind') then
+    create type public.task_comment_kind as enum ('comment', 'acknowledged', 'returned');
+  end if;
+end
+$$;
+
+alter table public.tasks
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists returned_at timestamptz;
+
+grant select (reviewed_at, returned_at) on public.tasks to authenticated;
+
+-- Tasks completed before reviews existed count as reviewed, so they do not all
+-- land in the sponsor's review queue at once.
+update public.tasks set reviewed_at = completed_at where status = 'completed' and reviewed_at is null;
+
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  author_id uuid not null references public.profiles (id) on delete cascade,
+  kind public.task_comment_kind not null default 'comment',
+  body text check (body is null or char_length(trim(body)) between 1 and 4000),
+  created_at timestamptz not null default now(),
+  constraint task_comments_body_required check (kind <> 'comment' or body is not null)
+);
+
+create index if not exists task_comments_task_created_idx
+  on public.task_comments (task_id, created_at);
+
+alter table public.task_comments enable row level security;
+
+drop policy if exists "Task participants read the feedback thread" on public.task_comments;
+create policy "Task participants read the feedback thread"
+  on public.task_comments for select
+  using (
+    exists (
+      select 1
+      from public.tasks t
+      where t.id = task_comments.task_id
+        and auth.uid() in (t.sponsor_id, t.sponsee_id)
+    )
+  );
+
+drop policy if exists "Connected task participants reply on the thread" on public.task_comments;
+create policy "Connected task participants reply on the thread"
+  on public.task_comments for insert
+  with check (
+    auth.uid() = author_id
+    and kind = 'comment'
+    and exists (
+      select 1
+      from public.tasks t
+      where t.id = task_comments.task_id
+        and auth.uid() in (t.sponsor_id, t.sponsee_id)
+        and public.users_are_connected(t.sponsor_id, t.sponsee_id)
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- Review state
+-- -----------------------------------------------------------------------------
+-- Only the sponsor may change reviewed_at or returned_at, and a task the
+-- sponsee completes again goes back to waiting for review.
+
+create or replace function public.guard_task_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.reviewed_at is distinct from old.reviewed_at
+    or new.returned_at is distinct from old.returned_at)
+    and auth.uid() is distinct from old.sponsor_id then
+    raise exception 'Only the sponsor can review a task' using errcode = '42501';
+  end if;
+
+  if new.status = 'completed' and old.status <> 'completed' then
+    new.reviewed_at := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_task_review on public.tasks;
+create trigger guard_task_review
+  before update on public.tasks
+  for each row
+  execute function public.guard_task_review();
+
+-- Acknowledges or returns a completed task that is waiting for review, and
+-- adds the decision to the task's thread. Feedback is required to return a
+-- task; an acknowledgement may leave the comment blank.
+create or replace function public.review_task(
+  p_task_id uuid,
+  p_decision public.task_comment_kind,
+  p_comment text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  task public.tasks;
+  comment_body text := nullif(trim(p_comment), '');
+begin
+  select * into task
+  from public.tasks t
+  where t.id = p_task_id
+    and t.sponsor_id = auth.uid()
+    and t.status = 'completed'
+    and t.reviewed_at is null;
+
+  if not found then
+    raise exception 'Task not found or not waiting for review' using errcode = '42501';
+  end if;
+
+  if p_decision = 'returned' then
+    if comment_body is null then
+      raise exception 'Feedback is required to send a task back' using errcode = '22023';
+    end if;
+
+    update public.tasks
+    set status = 'in_progress',
+      draft_notes = completion_notes,
+      completion_notes = null,
+      completed_at = null,
+      returned_at = now()
+    where id = task.id;
+  elsif p_decision = 'acknowledged' then
+    update public.tasks
+    set reviewed_at = now()
+    where id = task.id;
+  else
+    raise exception 'A review must acknowledge or return the task' using errcode = '22023';
+  end if;
+
+  insert into public.task_comments (task_id, author_id, kind, body)
+  values (task.id, auth.uid(), p_decision, comment_body);
+end;
+$$;
+
+revoke all on function public.guard_task_review() from public;
+revoke all on function public.review_task(uuid, public.task_comment_kind, text) from public;
+grant execute on function public.review_task(uuid, public.task_comment_kind, text) to authenticated;
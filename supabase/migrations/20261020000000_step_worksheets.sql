@@ -0,0 +1,119 @@
+-- =============================================================================
+-- Step worksheets
+-- =============================================================================
+-- Sponsees answer each step's reflection prompts in the app, one row per user,
+-- step and prompt. A step's user_step_progress row only exists once the step
+-- is completed, so answers live in their own table rather than in its notes.
+--
+-- The app saves answers as the sponsee types. Saves within 30 minutes of the
+-- previous one count as the same sitting and update the answer in place; the
+-- first save after a longer gap keeps the answer as it stood in
+-- step_answer_revisions first, so earlier versions are never lost.
+--
+-- Answers are private until the sponsee shares them one by one. A sponsor
+-- reads them through get_shared_step_answers, which only returns shared
+-- answers while the sponsee also shares notes with them.
+
+create table if not exists public.step_answers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  step_number integer not null check (step_number between 1 and 12),
+  prompt_index integer not null check (prompt_index >= 0),
+  prompt text not null,
+  answer text not null default '' check (char_length(answer) <= 20000),
+  shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint step_answers_prompt_key unique (user_id, step_number, prompt_index)
+);
+
+create table if not exists public.step_answer_revisions (
+  id uuid primary key default gen_random_uuid(),
+  answer_id uuid not null references public.step_answers (id) on delete cascade,
+  answer text not null,
+  saved_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists step_answer_revisions_answer_saved_idx
+  on public.step_answer_revisions (answer_id, saved_at desc);
+
+alter table public.step_answers enable row level security;
+alter table public.step_answer_revisions enable row level security;
+
+drop policy if exists "Users manage their own step answers" on public.step_answers;
+create policy "Users manage their own step answers"
+  on public.step_answers for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Revisions are only written by the trigger below
+drop policy if exists "Users read their own step answer history" on public.step_answer_revisions;
+create policy "Users read their own step answer history"
+  on public.step_answer_revisions for select
+  using (
+    exists (
+      select 1
+      from public.step_answers a
+      where a.id = step_answer_revisions.answer_id
+        and a.user_id = auth.uid()
+    )
+  );
+
+-- -----------------------------------------------------------------------------
+-- Revision history
+-- -----------------------------------------------------------------------------
+-- Only a change to the answer itself starts or extends a sitting; sharing an
+-- answer leaves updated_at alone.
+
+create or replace function public.keep_step_answer_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.answer is distinct from old.answer then
+    if old.answer <> '' and old.updated_at < now() - interval '30 minutes' then
+      insert into public.step_answer_revisions (answer_id, answer, saved_at)
+      values (old.id, old.answer, old.updated_at);
+    end if;
+
+    new.updated_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists keep_step_answer_revision on public.step_answers;
+create trigger keep_step_answer_revision
+  before update on public.step_answers
+  for each row
+  execute function public.keep_step_answer_revision();
+
+-- -----------------------------------------------------------------------------
+-- Shared reads
+-- -----------------------------------------------------------------------------
+
+-- A sponsee's shared answers, by step and prompt. Visible to a sponsor the
+-- sponsee shares notes with; blank answers are left out.
+create or replace function public.get_shared_step_answers(p_user_id uuid)
+returns setof public.step_answers
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.*
+  from public.step_answers a
+  where a.user_id = p_user_id
+    and a.shared
+    and a.answer <> ''
+    and coalesce((public.sponsoring_relationship(p_user_id)).share_notes, false)
+  order by a.step_number, a.prompt_index;
+$$;
+
+revoke all on function public.keep_step_answer_revision() from public;
+revoke all on function public.get_shared_step_answers(uuid) from public;
+grant execute on function public.get_shared_step_answers(uuid) to authenticated;
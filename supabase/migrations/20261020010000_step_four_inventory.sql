@@ -0,0 +1,85 @@
+-- =============================================================================
+-- Step 4 inventory
+-- =============================================================================
+-- The Step 4 inventory as rows rather than a single reflection: each entry is
+-- a resentment, a fear or a harm done, with the same four columns the
+-- program's worksheets use:
+-- - subject: who or what it is about
+-- - cause: what happened, or why the fear is there
+-- - affects: what it affects (self-esteem, security, relationships, ...)
+-- - my_part: the user's own part in it
+--
+-- Entries are ordered within their kind by position, which the user sets by
+-- moving rows up and down. Inventories are private to their owner; a sponsee
+-- reads theirs with their sponsor by exporting it, so sponsors have no access
+-- here.
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'inventory_kind') then
+    create type public.inventory_kind as enum ('resentment', 'fear', 'harm');
+  end if;
+end
+$$;
+
+create table if not exists public.inventory_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  kind public.inventory_kind not null,
+  subject text not null check (char_length(trim(subject)) between 1 and 200),
+  cause text not null default '' check (char_length(cause) <= 4000),
+  affects text not null default '' check (char_length(affects) <= 4000),
+  my_part text not null default '' check (char_length(my_part) <= 4000),
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists inventory_entries_user_kind_position_idx
+  on public.inventory_entries (user_id, kind, position);
+
+alter table public.inventory_entries enable row level security;
+
+drop policy if exists "Users manage their own inventory" on public.inventory_entries;
+create policy "Users manage their own inventory"
+  on public.inventory_entries for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Entries are edited and reordered in place; keep updated_at current.
+create or replace function public.touch_inventory_entry()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_inventory_entry on public.inventory_entries;
+create trigger touch_inventory_entry
+  before update on public.inventory_entries
+  for each row
+  execute function public.touch_inventory_entry();
+
+-- -----------------------------------------------------------------------------
+-- Ordering
+-- -----------------------------------------------------------------------------
+
+-- Numbers the given entries 0, 1, 2, ... in the order passed. Entries the
+-- caller does not own are left alone by row level security.
+create or replace function public.reorder_inventory_entries(p_entry_ids uuid[])
+returns void
+language sql
+set search_path = public
+as $$
+  update public.inventory_entries e
+  set position = o.ordinality - 1
+  from unnest(p_entry_ids) with ordinality as o (id, ordinality)
+  where e.id = o.id;
+$$;
+
+revoke all on function public.reorder_inventory_entries(uuid[]) from public;
+grant execute on function public.reorder_inventory_entries(uuid[]) to authenticated;
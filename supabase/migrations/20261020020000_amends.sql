@@ -0,0 +1,147 @@
+-- =============================================================================
+-- Amends list
+-- =============================================================================
+-- The Step 8 list of people the user harmed, and where each Step 9 amends
+-- stands:
+-- - person: who the amends is owed to
+-- - harm: what the user did
+-- - approach: how they plan to make it
+-- - status: willing, planned, made, or deferred
+--
+-- Deferred amends need a reason, for when making them would injure the person
+-- or others. made_at is stamped the moment an amends is marked made, so the
+-- journey timeline can show when it happened.
+--
+-- The list is private until the sponsee shares it with a sponsor through the
+-- share_amends setting, which stays off until they turn it on. A sponsor reads
+-- it through get_shared_amends.
+
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'amends_status') then
+    create type public.amends_status as enum ('willing', 'planned', 'made', 'deferred');
+  end if;
+end
+$$;
+
+create table if not exists public.amends (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  person text not null check (char_length(trim(person)) between 1 and 200),
+  harm text not null default '' check (char_length(harm) <= 4000),
+  approach text not null default '' check (char_length(approach) <= 4000),
+  status public.amends_status not null default 'willing',
+  deferred_reason text not null default '' check (char_length(deferred_reason) <= 4000),
+  made_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint amends_deferred_reason_check
+    check (status <> 'deferred' or char_length(trim(deferred_reason)) > 0)
+);
+
+create index if not exists amends_user_created_idx
+  on public.amends (user_id, created_at);
+
+alter table public.amends enable row level security;
+
+drop policy if exists "Users manage their own amends" on public.amends;
+create policy "Users manage their own amends"
+  on public.amends for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- -----------------------------------------------------------------------------
+-- Status changes
+-- -----------------------------------------------------------------------------
+-- Stamps made_at when an amends becomes made and clears it if it is moved
+-- back; a deferred reason is dropped once the amends is no longer deferred.
+
+create or replace function public.track_amends_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'made' then
+    if tg_op = 'INSERT' or old.status is distinct from 'made' then
+      new.made_at := coalesce(new.made_at, now());
+    end if;
+  else
+    new.made_at := null;
+  end if;
+
+  if new.status <> 'deferred' then
+    new.deferred_reason := '';
+  end if;
+
+  if tg_op = 'UPDATE' then
+    new.updated_at := now();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists track_amends_status on public.amends;
+create trigger track_amends_status
+  before insert or update on public.amends
+  for each row
+  execute function public.track_amends_status();
+
+-- -----------------------------------------------------------------------------
+-- Sharing
+-- -----------------------------------------------------------------------------
+
+alter table public.sponsor_sponsee_relationships
+  add column if not exists share_amends boolean not null default false;
+
+-- Adds share_amends to the settings only the sponsee can change.
+create or replace function public.guard_sharing_settings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (
+    new.share_sobriety_date is distinct from old.share_sobriety_date
+    or new.share_slip_ups is distinct from old.share_slip_ups
+    or new.share_slip_up_notes is distinct from old.share_slip_up_notes
+    or new.share_step_progress is distinct from old.share_step_progress
+    or new.share_notes is distinct from old.share_notes
+    or new.share_amends is distinct from old.share_amends
+  ) and auth.uid() is distinct from old.sponsee_id then
+    raise exception 'Only the sponsee can change what they share' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_sharing_settings on public.sponsor_sponsee_relationships;
+create trigger guard_sharing_settings
+  before update of share_sobriety_date, share_slip_ups, share_slip_up_notes,
+    share_step_progress, share_notes, share_amends
+  on public.sponsor_sponsee_relationships
+  for each row
+  execute function public.guard_sharing_settings();
+
+-- A sponsee's amends list, oldest first. Visible to a sponsor the sponsee
+-- shares their amends with.
+create or replace function public.get_shared_amends(p_user_id uuid)
+returns setof public.amends
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.*
+  from public.amends a
+  where a.user_id = p_user_id
+    and coalesce((public.sponsoring_relationship(p_user_id)).share_amends, false)
+  order by a.created_at;
+$$;
+
+revoke all on function public.track_amends_status() from public;
+revoke all on function public.get_shared_amends(uuid) from public;
+grant execute on function public.get_shared_amends(uuid) to authenticated;
@@ -0,0 +1,125 @@
+-- =============================================================================
+-- Daily check-ins
+-- =============================================================================
+-- A short nightly Step 10 inventory, one row per user and local day:
+-- - mood: 1 (very low) to 5 (great)
+-- - hungry, angry, lonely, tired: the HALT flags
+-- - gratitude: something the user is grateful for today
+-- - review: the Step 10 review of the day
+--
+-- check_in_date is the day in the user's profile timezone, worked out by the
+-- app, so a late-evening check-in counts for the day the user is living in.
+-- Checking in again the same day updates that day's row.
+--
+-- Check-ins are private. A sponsor the sponsee shares them with through the
+-- share_check_ins setting, which stays off until the sponsee turns it on,
+-- reads a summary through get_shared_check_ins: dates, mood and HALT flags,
+-- never the gratitude or review text.
+
+create table if not exists public.daily_check_ins (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  check_in_date date not null,
+  mood smallint not null check (mood between 1 and 5),
+  hungry boolean not null default false,
+  angry boolean not null default false,
+  lonely boolean not null default false,
+  tired boolean not null default false,
+  gratitude text not null default '' check (char_length(gratitude) <= 2000),
+  review text not null default '' check (char_length(review) <= 4000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint daily_check_ins_day_key unique (user_id, check_in_date)
+);
+
+alter table public.daily_check_ins enable row level security;
+
+drop policy if exists "Users manage their own check-ins" on public.daily_check_ins;
+create policy "Users manage their own check-ins"
+  on public.daily_check_ins for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Checking in again the same day is an upsert; keep updated_at current.
+create or replace function public.touch_daily_check_in()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_daily_check_in on public.daily_check_ins;
+create trigger touch_daily_check_in
+  before update on public.daily_check_ins
+  for each row
+  execute function public.touch_daily_check_in();
+
+-- -----------------------------------------------------------------------------
+-- Sharing
+-- -----------------------------------------------------------------------------
+
+alter table public.sponsor_sponsee_relationships
+  add column if not exists share_check_ins boolean not null default false;
+
+-- Adds share_check_ins to the settings only the sponsee can change.
+create or replace function public.guard_sharing_settings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (
+    new.share_sobriety_date is distinct from old.share_sobriety_date
+    or new.share_slip_ups is distinct from old.share_slip_ups
+    or new.share_slip_up_notes is distinct from old.share_slip_up_notes
+    or new.share_step_progress is distinct from old.share_step_progress
+    or new.share_notes is distinct from old.share_notes
+    or new.share_amends is distinct from old.share_amends
+    or new.share_check_ins is distinct from old.share_check_ins
+  ) and auth.uid() is distinct from old.sponsee_id then
+    raise exception 'Only the sponsee can change what they share' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_sharing_settings on public.sponsor_sponsee_relationships;
+create trigger guard_sharing_settings
+  before update of share_sobriety_date, share_slip_ups, share_slip_up_notes,
+    share_step_progress, share_notes, share_amends, share_check_ins
+  on public.sponsor_sponsee_relationships
+  for each row
+  execute function public.guard_sharing_settings();
+
+-- A sponsee's check-ins without their gratitude and review text, most recent
+-- first. Visible to a sponsor the sponsee shares check-ins with.
+create or replace function public.get_shared_check_ins(p_user_id uuid)
+returns table (
+  check_in_date date,
+  mood smallint,
+  hungry boolean,
+  angry boolean,
+  lonely boolean,
+  tired boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.check_in_date, c.mood, c.hungry, c.angry, c.lonely, c.tired
+  from public.daily_check_ins c
+  where c.user_id = p_user_id
+    and coalesce((public.sponsoring_relationship(p_user_id)).share_check_ins, false)
+  order by c.check_in_date desc;
+$$;
+
+revoke all on function public.touch_daily_check_in() from public;
+revoke all on function public.get_shared_check_ins(uuid) from public;
+grant execute on function public.get_shared_check_ins(uuid) to authenticated;
@@ -0,0 +1,147 @@
+-- =============================================================================
+-- Relationship status changes
+-- =============================================================================
+-- Checks guard_connection_approval: only the sponsor accepts a pending request,
+-- an ended relationship is reactivated only by the member who did not ask to
+-- reconnect, a declined request never becomes active, and nothing goes back to
+-- pending. The guard is a trigger, so these run as the table owner with only
+-- auth.uid() switched between users. Run with `pnpm test:db`.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(10);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'sponsor@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'sponsee@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'past-sponsee@example.com');
+
+insert into public.profiles (id, email, first_name, last_initial) values
+  ('00000000-0000-0000-0000-00000000000a', 'sponsor@example.com', 'Sam', 'S'),
+  ('00000000-0000-0000-0000-00000000000b', 'sponsee@example.com', 'Jo', 'B'),
+  ('00000000-0000-0000-0000-00000000000c', 'past-sponsee@example.com', 'Lee', 'C')
+on conflict (id) do nothing;
+
+insert into public.sponsor_sponsee_relationships (id, sponsor_id, sponsee_id, status) values
+  (
+    '10000000-0000-0000-0000-000000000001',
+    '00000000-0000-0000-0000-00000000000a',
+    '00000000-0000-0000-0000-00000000000b',
+    'pending'
+  ),
+  (
+    '10000000-0000-0000-0000-000000000002',
+    '00000000-0000-0000-0000-00000000000a',
+    '00000000-0000-0000-0000-00000000000b',
+    'declined'
+  ),
+  (
+    '10000000-0000-0000-0000-000000000003',
+    '00000000-0000-0000-0000-00000000000a',
+    '00000000-0000-0000-0000-00000000000c',
+    'inactive'
+  );
+
+-- -----------------------------------------------------------------------------
+-- Declined requests
+-- -----------------------------------------------------------------------------
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+
+select throws_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'active'
+    where id = '10000000-0000-0000-0000-000000000002'$$,
+  '42501',
+  'Only a pending request or an ended relationship can become active',
+  'A sponsee cannot activate a declined request'
+);
+
+select throws_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'pending'
+    where id = '10000000-0000-0000-0000-000000000002'$$,
+  '42501',
+  'A relationship cannot go back to pending',
+  'A sponsee cannot resubmit a declined request'
+);
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+
+select throws_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'active'
+    where id = '10000000-0000-0000-0000-000000000002'$$,
+  '42501',
+  'Only a pending request or an ended relationship can become active',
+  'A declined request cannot be activated by the sponsor either'
+);
+
+-- -----------------------------------------------------------------------------
+-- Pending requests
+-- -----------------------------------------------------------------------------
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000b';
+
+select throws_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'active'
+    where id = '10000000-0000-0000-0000-000000000001'$$,
+  '42501',
+  'Only the sponsor can accept a connection request',
+  'A sponsee cannot accept their own request'
+);
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+
+select lives_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'active'
+    where id = '10000000-0000-0000-0000-000000000001'$$,
+  'The sponsor can accept a pending request'
+);
+
+-- -----------------------------------------------------------------------------
+-- Ended relationships
+-- -----------------------------------------------------------------------------
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000c';
+
+select throws_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'pending'
+    where id = '10000000-0000-0000-0000-000000000003'$$,
+  '42501',
+  'A relationship cannot go back to pending',
+  'A past sponsee cannot turn an ended relationship into a request'
+);
+
+select lives_ok(
+  $$update public.sponsor_sponsee_relationships
+    set reconnect_requested_by = '00000000-0000-0000-0000-00000000000c'
+    where id = '10000000-0000-0000-0000-000000000003'$$,
+  'A member can ask to reconnect an ended relationship'
+);
+
+select throws_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'active'
+    where id = '10000000-0000-0000-0000-000000000003'$$,
+  '42501',
+  'Reconnecting needs the other person to accept',
+  'The member who asked to reconnect cannot accept it themselves'
+);
+
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-00000000000a';
+
+select lives_ok(
+  $$update public.sponsor_sponsee_relationships set status = 'active'
+    where id = '10000000-0000-0000-0000-000000000003'$$,
+  'The other member can accept a reconnect request'
+);
+
+select is(
+  (
+    select status::text
+    from public.sponsor_sponsee_relationships
+    where id = '10000000-0000-0000-0000-000000000003'
+  ),
+  'active',
+  'An accepted reconnect makes the relationship active again'
+);
+
+select * from finish();
+
+rollback;
@@ -1,18 +1,28 @@
+// =============================================================================
+// Imports
+// =============================================================================
+import type { Database, Json, Tables } from '@/types/supabase';
+
+export type { Database, Json };
+
 // =============================================================================
 // Type Definitions
 // =============================================================================
-export type RelationshipStatus = 'pending' | 'active' | 'inactive';
-export type TaskStatus = 'assigned' | 'in_progress' | 'completed';
-export type NotificationType =
-  | 'task_assigned'
-  | 'milestone'
-  | 'message'
-  | 'connection_request'
-  | 'task_completed';
+export type RelationshipStatus = Database['public']['Enums']['relationship_status'];
+export type TaskStatus = Database['public']['Enums']['task_status'];
+export type TaskRecurrence = Database['public']['Enums']['task_recurrence'];
+export type TaskCommentKind = Database['public']['Enums']['task_comment_kind'];
+export type NotificationType = Database['public']['Enums']['notification_type'];
+export type InviteRedemptionStatus = Database['public']['Enums']['invite_redemption_status'];
+export type InventoryKind = Database['public']['Enums']['inventory_kind'];
+export type AmendsStatus = Database['public']['Enums']['amends_status'];
 
 // =============================================================================
 // Database Interfaces
 // =============================================================================
+// Row types come from the schema types in `types/supabase.ts`. The types
+// below add joined relations and narrow JSON columns, and document fields whose
+// meaning is not obvious from the schema.
 
 /**
  * User profile information.
@@ -22,15 +32,11 @@ export type NotificationType =
  * simultaneously through different relationships. There is no role field -
  * the role is determined by the relationship context.
  */
-export interface Profile {
-  id: string;
-  email: string;
+export interface Profile extends Omit<Tables<'profiles'>, 'notification_preferences'> {
   /** User's first name. Null until collected during onboarding. */
   first_name: string | null;
   /** User's last initial. Null until collected during onboarding. */
   last_initial: string | null;
-  phone?: string;
-  avatar_url?: string;
   /**
    * The date when the user's recovery journey began (YYYY-MM-DD format).
    *
@@ -43,130 +49,213 @@ export interface Profile {
    * - `sobriety_date`: Original journey start (immutable after onboarding)
    * - `slip_ups.recovery_restart_date`: Current streak start (when slip-up exists)
    */
-  sobriety_date?: string;
-  bio?: string;
+  sobriety_date: string | null;
   /**
    * User's timezone as an IANA timezone identifier (e.g., "America/New_York").
    * Used for displaying dates and times in the user's local timezone.
-   * @remarks Optional for backward compatibility with existing profiles.
-   * Should be required for new profiles.
+   * @remarks Null for profiles created before timezones were captured.
    */
-  timezone?: string;
+  timezone: string | null;
   /**
    * Timestamp when the user accepted the Privacy Policy and Terms of Service.
    * Null until accepted during onboarding.
    * @remarks Stored as ISO 8601 timestamp for legal audit trail.
    */
-  terms_accepted_at?: string;
+  terms_accepted_at: string | null;
+  /** Stored as JSONB; narrowed here to the flags the app reads and writes. */
   notification_preferences: {
     tasks: boolean;
     messages: boolean;
     milestones: boolean;
     daily: boolean;
   };
-  created_at: string;
-  updated_at: string;
+  /**
+   * Local time for the daily check-in reminder, as HH:MM:SS.
+   * Only used when `notification_preferences.daily` is enabled.
+   */
+  daily_reminder_time: string;
+  /**
+   * When true, redeeming one of this user's invite codes creates a pending
+   * relationship that they must accept before the sponsee is connected.
+   */
+  require_connection_approval: boolean;
 }
 
-export interface SponsorSponseeRelationship {
-  id: string;
-  sponsor_id: string;
-  sponsee_id: string;
-  status: RelationshipStatus;
-  connected_at: string;
-  disconnected_at?: string;
-  created_at: string;
+/**
+ * A sponsor-sponsee pairing. The `share_*` flags are the sponsee's choices about
+ * what this sponsor may see; only the sponsee can change them.
+ */
+export interface SponsorSponseeRelationship extends Tables<'sponsor_sponsee_relationships'> {
+  /** Sobriety date and current streak (on by default) */
+  share_sobriety_date: boolean;
+  /** Slip-up history on the sponsee dashboard (off by default) */
+  share_slip_ups: boolean;
+  /** Notes written on slip-ups, when slip-ups are shared (off by default) */
+  share_slip_up_notes: boolean;
+  /** Which steps are completed (on by default) */
+  share_step_progress: boolean;
+  /** Task completion notes and step reflections (on by default) */
+  share_notes: boolean;
+  /** The Step 8 and 9 amends list (off by default) */
+  share_amends: boolean;
+  /** A summary of daily check-ins: streak, mood and HALT flags (off by default) */
+  share_check_ins: boolean;
   sponsor?: Profile;
   sponsee?: Profile;
 }
 
-export interface InviteCode {
-  id: string;
-  code: string;
-  sponsor_id: string;
-  expires_at: string;
-  used_by?: string;
-  used_at?: string;
-  created_at: string;
+export interface InviteCode extends Tables<'invite_codes'> {
   sponsor?: Profile;
+  redeemer?: Profile;
+}
+
+/**
+ * The row returned by the `redeem_invite_code` RPC.
+ *
+ * @remarks
+ * `relationship_id` is only set when `status` is `connected` or `pending`; the
+ * sponsor fields are null when the code does not exist.
+ */
+export interface InviteCodeClaim {
+  status: InviteRedemptionStatus;
+  relationship_id: string | null;
+  sponsor_id: string | null;
+  sponsor_first_name: string | null;
+  sponsor_last_initial: string | null;
 }
 
-export interface StepContent {
-  id: string;
-  step_number: number;
-  title: string;
-  description: string;
-  detailed_content: string;
-  reflection_prompts: string[];
-  created_at: string;
-  updated_at: string;
+/**
+ * The row returned by the `get_sobriety_summary` RPC.
+ *
+ * @remarks
+ * `current_streak_start` is the most recent slip-up's restart date, or the
+ * sobriety date when there are no slip-ups.
+ */
+export interface SobrietySummary {
+  sobriety_date: string | null;
+  timezone: string | null;
+  current_streak_start: string | null;
 }
 
-export interface Task {
-  id: string;
-  sponsor_id: string;
-  sponsee_id: string;
-  step_number?: number;
-  title: string;
-  description: string;
-  due_date?: string;
-  status: TaskStatus;
-  completion_notes?: string;
-  completed_at?: string;
-  created_at: string;
-  updated_at: string;
+/**
+ * A row returned by the `get_shared_check_ins` RPC: one day's check-in without
+ * its gratitude and review text.
+ */
+export type SharedCheckIn = Pick<
+  DailyCheckIn,
+  'check_in_date' | 'mood' | 'hungry' | 'angry' | 'lonely' | 'tired'
+>;
+
+/** A step's reading and reflection prompts, stored in the `steps_content` table. */
+export type StepContent = Tables<'steps_content'>;
+
+export interface Task extends Tables<'tasks'> {
+  /** The recurring series this task is an occurrence of, or null for a one-off task */
+  series_id: string | null;
+  /** Notes the sponsee saved while working on the task; only returned to the sponsee */
+  draft_notes: string | null;
+  /** When the sponsor acknowledged the completed task, or null while it awaits review */
+  reviewed_at: string | null;
+  /** When the sponsor last sent the task back with feedback */
+  returned_at: string | null;
   sponsor?: Profile;
   sponsee?: Profile;
 }
 
-export interface SlipUp {
-  id: string;
-  user_id: string;
-  slip_up_date: string;
-  recovery_restart_date: string;
-  notes?: string;
-  created_at: string;
-}
+/**
+ * A task a sponsor has set to repeat.
+ *
+ * @remarks
+ * Each occurrence is a row in `tasks` with `series_id` pointing here and its
+ * own due date, status and completion notes. `interval_days` is 1 for daily
+ * and 7 for weekly series. A series with `stopped_at` set creates no more
+ * occurrences.
+ */
+export type TaskSeries = Tables<'task_series'>;
 
-export interface Message {
-  id: string;
-  sender_id: string;
-  recipient_id: string;
-  content: string;
-  read_at?: string;
-  created_at: string;
+/**
+ * An entry in a task's feedback thread.
+ *
+ * @remarks
+ * `kind` is `acknowledged` or `returned` for the sponsor's review decisions,
+ * which are written by the `review_task` RPC, and `comment` for replies from
+ * either side. `body` is only null for an acknowledgement without a comment.
+ */
+export type TaskComment = Tables<'task_comments'>;
+
+export type SlipUp = Tables<'slip_ups'>;
+
+export interface Message extends Tables<'messages'> {
   sender?: Profile;
   recipient?: Profile;
 }
 
-export interface Notification {
-  id: string;
-  user_id: string;
-  type: NotificationType;
-  title: string;
-  content: string;
-  data: any;
-  read_at?: string;
-  created_at: string;
-}
+/**
+ * Payload stored in a notification's `data` column. The inbox reads these IDs
+ * to open the related screen.
+ */
+export type NotificationData = {
+  sender_id?: string;
+  task_id?: string;
+  step_number?: number | null;
+  relationship_id?: string;
+  sponsor_id?: string;
+  sponsee_id?: string;
+  [key: string]: Json | undefined;
+};
 
-export interface UserStepProgress {
-  id: string;
-  user_id: string;
-  step_number: number;
-  completed: boolean;
-  completed_at?: string;
-  notes?: string;
-  created_at: string;
-  updated_at: string;
+/** An in-app notification. */
+export interface Notification extends Omit<Tables<'notifications'>, 'data'> {
+  data: NotificationData | null;
 }
 
-export interface TaskTemplate {
-  id: string;
-  step_number: number;
-  title: string;
-  description: string;
-  is_default: boolean;
-  created_at: string;
-  updated_at: string;
-}
+export type UserStepProgress = Tables<'user_step_progress'>;
+
+/**
+ * A user's answer to one of a step's reflection prompts.
+ *
+ * @remarks
+ * `prompt_index` is the prompt's position in `StepContent.reflection_prompts`
+ * and `prompt` its text when last answered. Answers stay private to the user
+ * unless `shared` is set.
+ */
+export type StepAnswer = Tables<'step_answers'>;
+
+/**
+ * An earlier version of a step answer, as it stood at `saved_at`. Written by
+ * the database when an answer is edited in a later sitting.
+ */
+export type StepAnswerRevision = Tables<'step_answer_revisions'>;
+
+export type TaskTemplate = Tables<'task_templates'>;
+
+/**
+ * One row of a user's Step 4 inventory: a resentment, a fear or a harm done.
+ *
+ * @remarks
+ * `subject` is who or what the entry is about, `cause` what happened (or why
+ * the fear is there), `affects` what it affects and `my_part` the user's own
+ * part in it. Entries are ordered within their kind by `position`.
+ */
+export type InventoryEntry = Tables<'inventory_entries'>;
+
+/**
+ * One person on a user's Step 8 amends list and where the amends stands.
+ *
+ * @remarks
+ * `harm` is what the user did and `approach` how they plan to make amends.
+ * `deferred_reason` explains why a deferred amends would injure someone and is
+ * blank otherwise. The database stamps `made_at` when the status becomes
+ * `made`.
+ */
+export type AmendsEntry = Tables<'amends'>;
+
+/**
+ * A user's nightly check-in for one day: a mood rating from 1 to 5, the HALT
+ * flags, something they are grateful for and a short Step 10 review.
+ *
+ * @remarks
+ * `check_in_date` is the local day in the user's profile timezone (see
+ * `formatDateWithTimezone`); there is at most one check-in per user and day.
+ */
+export type DailyCheckIn = Tables<'daily_check_ins'>;
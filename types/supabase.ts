@@ -0,0 +1,1230 @@
+/**
+ * Supabase database schema types.
+ *
+ * @remarks
+ * Written in the shape `supabase gen types typescript` produces for the `public`
+ * schema and kept in step with the migrations by hand. When a migration changes
+ * the schema, update the matching entries here, or run `pnpm gen:types` against
+ * a local Supabase stack with the migrations applied to regenerate the file.
+ * App code should import the row types re-exported from `@/types/database`.
+ */
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: '12.2.3';
+  };
+  public: {
+    Tables: {
+      amends: {
+        Row: {
+          approach: string;
+          created_at: string;
+          deferred_reason: string;
+          harm: string;
+          id: string;
+          made_at: string | null;
+          person: string;
+          status: Database['public']['Enums']['amends_status'];
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          approach?: string;
+          created_at?: string;
+          deferred_reason?: string;
+          harm?: string;
+          id?: string;
+          made_at?: string | null;
+          person: string;
+          status?: Database['public']['Enums']['amends_status'];
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          approach?: string;
+          created_at?: string;
+          deferred_reason?: string;
+          harm?: string;
+          id?: string;
+          made_at?: string | null;
+          person?: string;
+          status?: Database['public']['Enums']['amends_status'];
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'amends_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      daily_check_ins: {
+        Row: {
+          angry: boolean;
+          check_in_date: string;
+          created_at: string;
+          gratitude: string;
+          hungry: boolean;
+          id: string;
+          lonely: boolean;
+          mood: number;
+          review: string;
+          tired: boolean;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          angry?: boolean;
+          check_in_date: string;
+          created_at?: string;
+          gratitude?: string;
+          hungry?: boolean;
+          id?: string;
+          lonely?: boolean;
+          mood: number;
+          review?: string;
+          tired?: boolean;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          angry?: boolean;
+          check_in_date?: string;
+          created_at?: string;
+          gratitude?: string;
+          hungry?: boolean;
+          id?: string;
+          lonely?: boolean;
+          mood?: number;
+          review?: string;
+          tired?: boolean;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'daily_check_ins_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      inventory_entries: {
+        Row: {
+          affects: string;
+          cause: string;
+          created_at: string;
+          id: string;
+          kind: Database['public']['Enums']['inventory_kind'];
+          my_part: string;
+          position: number;
+          subject: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          affects?: string;
+          cause?: string;
+          created_at?: string;
+          id?: string;
+          kind: Database['public']['Enums']['inventory_kind'];
+          my_part?: string;
+          position?: number;
+          subject: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          affects?: string;
+          cause?: string;
+          created_at?: string;
+          id?: string;
+          kind?: Database['public']['Enums']['inventory_kind'];
+          my_part?: string;
+          position?: number;
+          subject?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'inventory_entries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      invite_codes: {
+        Row: {
+          code: string;
+          created_at: string;
+          expires_at: string;
+          id: string;
+          revoked_at: string | null;
+          sponsor_id: string;
+          used_at: string | null;
+          used_by: string | null;
+        };
+        Insert: {
+          code: string;
+          created_at?: string;
+          expires_at: string;
+          id?: string;
+          revoked_at?: string | null;
+          sponsor_id: string;
+          used_at?: string | null;
+          used_by?: string | null;
+        };
+        Update: {
+          code?: string;
+          created_at?: string;
+          expires_at?: string;
+          id?: string;
+          revoked_at?: string | null;
+          sponsor_id?: string;
+          used_at?: string | null;
+          used_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'invite_codes_sponsor_id_fkey';
+            columns: ['sponsor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'invite_codes_used_by_fkey';
+            columns: ['used_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      messages: {
+        Row: {
+          content: string;
+          created_at: string;
+          id: string;
+          read_at: string | null;
+          recipient_id: string;
+          sender_id: string;
+        };
+        Insert: {
+          content: string;
+          created_at?: string;
+          id?: string;
+          read_at?: string | null;
+          recipient_id: string;
+          sender_id: string;
+        };
+        Update: {
+          content?: string;
+          created_at?: string;
+          id?: string;
+          read_at?: string | null;
+          recipient_id?: string;
+          sender_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_recipient_id_fkey';
+            columns: ['recipient_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'messages_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          content: string;
+          created_at: string;
+          data: Json;
+          id: string;
+          read_at: string | null;
+          title: string;
+          type: Database['public']['Enums']['notification_type'];
+          user_id: string;
+        };
+        Insert: {
+          content: string;
+          created_at?: string;
+          data?: Json;
+          id?: string;
+          read_at?: string | null;
+          title: string;
+          type: Database['public']['Enums']['notification_type'];
+          user_id: string;
+        };
+        Update: {
+          content?: string;
+          created_at?: string;
+          data?: Json;
+          id?: string;
+          read_at?: string | null;
+          title?: string;
+          type?: Database['public']['Enums']['notification_type'];
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          avatar_url: string | null;
+          bio: string | null;
+          created_at: string;
+          daily_reminder_time: string;
+          email: string;
+          first_name: string | null;
+          id: string;
+          last_initial: string | null;
+          notification_preferences: Json;
+          phone: string | null;
+          require_connection_approval: boolean;
+          sobriety_date: string | null;
+          terms_accepted_at: string | null;
+          timezone: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          avatar_url?: string | null;
+          bio?: string | null;
+          created_at?: string;
+          daily_reminder_time?: string;
+          email: string;
+          first_name?: string | null;
+          id: string;
+          last_initial?: string | null;
+          notification_preferences?: Json;
+          phone?: string | null;
+          require_connection_approval?: boolean;
+          sobriety_date?: string | null;
+          terms_accepted_at?: string | null;
+          timezone?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          avatar_url?: string | null;
+          bio?: string | null;
+          created_at?: string;
+          daily_reminder_time?: string;
+          email?: string;
+          first_name?: string | null;
+          id?: string;
+          last_initial?: string | null;
+          notification_preferences?: Json;
+          phone?: string | null;
+          require_connection_approval?: boolean;
+          sobriety_date?: string | null;
+          terms_accepted_at?: string | null;
+          timezone?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      slip_ups: {
+        Row: {
+          created_at: string;
+          id: string;
+          notes: string | null;
+          recovery_restart_date: string;
+          slip_up_date: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          notes?: string | null;
+          recovery_restart_date: string;
+          slip_up_date: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          notes?: string | null;
+          recovery_restart_date?: string;
+          slip_up_date?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'slip_ups_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      sponsor_sponsee_relationships: {
+        Row: {
+          connected_at: string;
+          created_at: string;
+          disconnected_at: string | null;
+          id: string;
+          reconnect_requested_by: string | null;
+          share_amends: boolean;
+          share_check_ins: boolean;
+          share_notes: boolean;
+          share_slip_up_notes: boolean;
+          share_slip_ups: boolean;
+          share_sobriety_date: boolean;
+          share_step_progress: boolean;
+          sponsee_id: string;
+          sponsor_id: string;
+          status: Database['public']['Enums']['relationship_status'];
+        };
+        Insert: {
+          connected_at?: string;
+          created_at?: string;
+          disconnected_at?: string | null;
+          id?: string;
+          reconnect_requested_by?: string | null;
+          share_amends?: boolean;
+          share_check_ins?: boolean;
+          share_notes?: boolean;
+          share_slip_up_notes?: boolean;
+          share_slip_ups?: boolean;
+          share_sobriety_date?: boolean;
+          share_step_progress?: boolean;
+          sponsee_id: string;
+          sponsor_id: string;
+          status?: Database['public']['Enums']['relationship_status'];
+        };
+        Update: {
+          connected_at?: string;
+          created_at?: string;
+          disconnected_at?: string | null;
+          id?: string;
+          reconnect_requested_by?: string | null;
+          share_amends?: boolean;
+          share_check_ins?: boolean;
+          share_notes?: boolean;
+          share_slip_up_notes?: boolean;
+          share_slip_ups?: boolean;
+          share_sobriety_date?: boolean;
+          share_step_progress?: boolean;
+          sponsee_id?: string;
+          sponsor_id?: string;
+          status?: Database['public']['Enums']['relationship_status'];
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'sponsor_sponsee_relationships_reconnect_requested_by_fkey';
+            columns: ['reconnect_requested_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'sponsor_sponsee_relationships_sponsee_id_fkey';
+            columns: ['sponsee_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'sponsor_sponsee_relationships_sponsor_id_fkey';
+            columns: ['sponsor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      step_answer_revisions: {
+        Row: {
+          answer: string;
+          answer_id: string;
+          created_at: string;
+          id: string;
+          saved_at: string;
+        };
+        Insert: {
+          answer: string;
+          answer_id: string;
+          created_at?: string;
+          id?: string;
+          saved_at: string;
+        };
+        Update: {
+          answer?: string;
+          answer_id?: string;
+          created_at?: string;
+          id?: string;
+          saved_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'step_answer_revisions_answer_id_fkey';
+            columns: ['answer_id'];
+            isOneToOne: false;
+            referencedRelation: 'step_answers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      step_answers: {
+        Row: {
+          answer: string;
+          created_at: string;
+          id: string;
+          prompt: string;
+          prompt_index: number;
+          shared: boolean;
+          step_number: number;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          answer?: string;
+          created_at?: string;
+          id?: string;
+          prompt: string;
+          prompt_index: number;
+          shared?: boolean;
+          step_number: number;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          answer?: string;
+          created_at?: string;
+          id?: string;
+          prompt?: string;
+          prompt_index?: number;
+          shared?: boolean;
+          step_number?: number;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'step_answers_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      steps_content: {
+        Row: {
+          created_at: string;
+          description: string;
+          detailed_content: string;
+          id: string;
+          reflection_prompts: string[];
+          step_number: number;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          description: string;
+          detailed_content: string;
+          id?: string;
+          reflection_prompts?: string[];
+          step_number: number;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          description?: string;
+          detailed_content?: string;
+          id?: string;
+          reflection_prompts?: string[];
+          step_number?: number;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      task_comments: {
+        Row: {
+          author_id: string;
+          body: string | null;
+          created_at: string;
+          id: string;
+          kind: Database['public']['Enums']['task_comment_kind'];
+          task_id: string;
+        };
+        Insert: {
+          author_id: string;
+          body?: string | null;
+          created_at?: string;
+          id?: string;
+          kind?: Database['public']['Enums']['task_comment_kind'];
+          task_id: string;
+        };
+        Update: {
+          author_id?: string;
+          body?: string | null;
+          created_at?: string;
+          id?: string;
+          kind?: Database['public']['Enums']['task_comment_kind'];
+          task_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_comments_author_id_fkey';
+            columns: ['author_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_comments_task_id_fkey';
+            columns: ['task_id'];
+            isOneToOne: false;
+            referencedRelation: 'tasks';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      task_series: {
+        Row: {
+          created_at: string;
+          description: string;
+          id: string;
+          interval_days: number;
+          recurrence: Database['public']['Enums']['task_recurrence'];
+          sponsee_id: string;
+          sponsor_id: string;
+          starts_on: string;
+          step_number: number | null;
+          stopped_at: string | null;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          description: string;
+          id?: string;
+          interval_days: number;
+          recurrence: Database['public']['Enums']['task_recurrence'];
+          sponsee_id: string;
+          sponsor_id: string;
+          starts_on: string;
+          step_number?: number | null;
+          stopped_at?: string | null;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          description?: string;
+          id?: string;
+          interval_days?: number;
+          recurrence?: Database['public']['Enums']['task_recurrence'];
+          sponsee_id?: string;
+          sponsor_id?: string;
+          starts_on?: string;
+          step_number?: number | null;
+          stopped_at?: string | null;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'task_series_sponsee_id_fkey';
+            columns: ['sponsee_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'task_series_sponsor_id_fkey';
+            columns: ['sponsor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      task_templates: {
+        Row: {
+          created_at: string;
+          description: string;
+          id: string;
+          is_default: boolean;
+          step_number: number;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          description: string;
+          id?: string;
+          is_default?: boolean;
+          step_number: number;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          description?: string;
+          id?: string;
+          is_default?: boolean;
+          step_number?: number;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      tasks: {
+        Row: {
+          completed_at: string | null;
+          completion_notes: string | null;
+          created_at: string;
+          description: string;
+          draft_notes: string | null;
+          due_date: string | null;
+          id: string;
+          returned_at: string | null;
+          reviewed_at: string | null;
+          series_id: string | null;
+          sponsee_id: string;
+          sponsor_id: string;
+          status: Database['public']['Enums']['task_status'];
+          step_number: number | null;
+          title: string;
+          updated_at: string;
+        };
+        Insert: {
+          completed_at?: string | null;
+          completion_notes?: string | null;
+          created_at?: string;
+          description: string;
+          draft_notes?: string | null;
+          due_date?: string | null;
+          id?: string;
+          returned_at?: string | null;
+          reviewed_at?: string | null;
+          series_id?: string | null;
+          sponsee_id: string;
+          sponsor_id: string;
+          status?: Database['public']['Enums']['task_status'];
+          step_number?: number | null;
+          title: string;
+          updated_at?: string;
+        };
+        Update: {
+          completed_at?: string | null;
+          completion_notes?: string | null;
+          created_at?: string;
+          description?: string;
+          draft_notes?: string | null;
+          due_date?: string | null;
+          id?: string;
+          returned_at?: string | null;
+          reviewed_at?: string | null;
+          series_id?: string | null;
+          sponsee_id?: string;
+          sponsor_id?: string;
+          status?: Database['public']['Enums']['task_status'];
+          step_number?: number | null;
+          title?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'tasks_series_id_fkey';
+            columns: ['series_id'];
+            isOneToOne: false;
+            referencedRelation: 'task_series';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tasks_sponsee_id_fkey';
+            columns: ['sponsee_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'tasks_sponsor_id_fkey';
+            columns: ['sponsor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_step_progress: {
+        Row: {
+          completed: boolean;
+          completed_at: string | null;
+          created_at: string;
+          id: string;
+          notes: string | null;
+          step_number: number;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          completed?: boolean;
+          completed_at?: string | null;
+          created_at?: string;
+          id?: string;
+          notes?: string | null;
+          step_number: number;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          completed?: boolean;
+          completed_at?: string | null;
+          created_at?: string;
+          id?: string;
+          notes?: string | null;
+          step_number?: number;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_step_progress_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      create_series_occurrence: {
+        Args: { p_due_date: string; p_series_id: string };
+        Returns: string;
+      };
+      delete_user_account: {
+        Args: never;
+        Returns: undefined;
+      };
+      get_assigned_tasks: {
+        Args: never;
+        Returns: {
+          completed_at: string | null;
+          completion_notes: string | null;
+          created_at: string;
+          description: string;
+          draft_notes: string | null;
+          due_date: string | null;
+          id: string;
+          returned_at: string | null;
+          reviewed_at: string | null;
+          series_id: string | null;
+          sponsee_id: string;
+          sponsor_id: string;
+          status: Database['public']['Enums']['task_status'];
+          step_number: number | null;
+          title: string;
+          updated_at: string;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'tasks';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      get_conversation_summaries: {
+        Args: never;
+        Returns: {
+          content: string;
+          created_at: string;
+          id: string;
+          partner_id: string;
+          read_at: string | null;
+          recipient_id: string;
+          sender_id: string;
+          unread_count: number;
+        }[];
+      };
+      get_own_profile: {
+        Args: never;
+        Returns: {
+          avatar_url: string | null;
+          bio: string | null;
+          created_at: string;
+          daily_reminder_time: string;
+          email: string;
+          first_name: string | null;
+          id: string;
+          last_initial: string | null;
+          notification_preferences: Json;
+          phone: string | null;
+          require_connection_approval: boolean;
+          sobriety_date: string | null;
+          terms_accepted_at: string | null;
+          timezone: string | null;
+          updated_at: string;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'profiles';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      get_shared_amends: {
+        Args: { p_user_id: string };
+        Returns: {
+          approach: string;
+          created_at: string;
+          deferred_reason: string;
+          harm: string;
+          id: string;
+          made_at: string | null;
+          person: string;
+          status: Database['public']['Enums']['amends_status'];
+          updated_at: string;
+          user_id: string;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'amends';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      get_shared_check_ins: {
+        Args: { p_user_id: string };
+        Returns: {
+          angry: boolean;
+          check_in_date: string;
+          hungry: boolean;
+          lonely: boolean;
+          mood: number;
+          tired: boolean;
+        }[];
+      };
+      get_shared_slip_ups: {
+        Args: { p_user_id: string };
+        Returns: {
+          created_at: string;
+          id: string;
+          notes: string | null;
+          recovery_restart_date: string;
+          slip_up_date: string;
+          user_id: string;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'slip_ups';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      get_shared_step_answers: {
+        Args: { p_user_id: string };
+        Returns: {
+          answer: string;
+          created_at: string;
+          id: string;
+          prompt: string;
+          prompt_index: number;
+          shared: boolean;
+          step_number: number;
+          updated_at: string;
+          user_id: string;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'step_answers';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      get_shared_step_progress: {
+        Args: { p_user_id: string };
+        Returns: {
+          completed: boolean;
+          completed_at: string | null;
+          created_at: string;
+          id: string;
+          notes: string | null;
+          step_number: number;
+          updated_at: string;
+          user_id: string;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'user_step_progress';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      get_sobriety_summary: {
+        Args: { p_user_id: string };
+        Returns: {
+          current_streak_start: string | null;
+          sobriety_date: string | null;
+          timezone: string | null;
+        }[];
+      };
+      get_sponsor_tasks: {
+        Args: { p_sponsee_id?: string; p_sponsor_id: string };
+        Returns: {
+          completed_at: string | null;
+          completion_notes: string | null;
+          created_at: string;
+          description: string;
+          draft_notes: string | null;
+          due_date: string | null;
+          id: string;
+          returned_at: string | null;
+          reviewed_at: string | null;
+          series_id: string | null;
+          sponsee_id: string;
+          sponsor_id: string;
+          status: Database['public']['Enums']['task_status'];
+          step_number: number | null;
+          title: string;
+          updated_at: string;
+        }[];
+        SetofOptions: {
+          from: '*';
+          to: 'tasks';
+          isOneToOne: false;
+          isSetofReturn: true;
+        };
+      };
+      redeem_invite_code: {
+        Args: { invite_code: string };
+        Returns: {
+          relationship_id: string;
+          sponsor_first_name: string;
+          sponsor_id: string;
+          sponsor_last_initial: string;
+          status: Database['public']['Enums']['invite_redemption_status'];
+        }[];
+      };
+      reorder_inventory_entries: {
+        Args: { p_entry_ids: string[] };
+        Returns: undefined;
+      };
+      review_task: {
+        Args: {
+          p_comment?: string;
+          p_decision: Database['public']['Enums']['task_comment_kind'];
+          p_task_id: string;
+        };
+        Returns: undefined;
+      };
+      users_are_connected: {
+        Args: { user_a: string; user_b: string };
+        Returns: boolean;
+      };
+    };
+    Enums: {
+      amends_status: 'willing' | 'planned' | 'made' | 'deferred';
+      inventory_kind: 'resentment' | 'fear' | 'harm';
+      invite_redemption_status:
+        | 'connected'
+        | 'not_found'
+        | 'expired'
+        | 'revoked'
+        | 'used'
+        | 'self'
+        | 'already_connected'
+        | 'pending'
+        | 'already_requested';
+      notification_type:
+        | 'task_assigned'
+        | 'milestone'
+        | 'message'
+        | 'connection_request'
+        | 'task_completed'
+        | 'task_feedback';
+      relationship_status: 'pending' | 'active' | 'inactive' | 'declined';
+      task_comment_kind: 'comment' | 'acknowledged' | 'returned';
+      task_recurrence: 'daily' | 'weekly' | 'custom';
+      task_status: 'assigned' | 'in_progress' | 'completed';
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type DatabaseWithoutInternals = Omit<Database, '__InternalSupabase'>;
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, 'public'>];
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])[TableName] extends {
+      Row: infer R;
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    ? (DefaultSchema['Tables'] & DefaultSchema['Views'])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R;
+      }
+      ? R
+      : never
+    : never;
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Insert: infer I;
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I;
+      }
+      ? I
+      : never
+    : never;
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Update: infer U;
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U;
+      }
+      ? U
+      : never
+    : never;
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema['Enums']
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums']
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums'][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums']
+    ? DefaultSchema['Enums'][DefaultSchemaEnumNameOrOptions]
+    : never;
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema['CompositeTypes']
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes']
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes'][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema['CompositeTypes']
+    ? DefaultSchema['CompositeTypes'][PublicCompositeTypeNameOrOptions]
+    : never;
+
+export const Constants = {
+  public: {
+    Enums: {
+      amends_status: ['willing', 'planned', 'made', 'deferred'],
+      inventory_kind: ['resentment', 'fear', 'harm'],
+      invite_redemption_status: [
+        'connected',
+        'not_found',
+        'expired',
+        'revoked',
+        'used',
+        'self',
+        'already_connected',
+        'pending',
+        'already_requested',
+      ],
+      notification_type: [
+        'task_assigned',
+        'milestone',
+        'message',
+        'connection_request',
+        'task_completed',
+        'task_feedback',
+      ],
+      relationship_status: ['pending', 'active', 'inactive', 'declined'],
+      task_comment_kind: ['comment', 'acknowledged', 'returned'],
+      task_recurrence: ['daily', 'weekly', 'custom'],
+      task_status: ['assigned', 'in_progress', 'completed'],
+    },
+  },
+} as const;